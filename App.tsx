@@ -21,9 +21,13 @@ import { useAppInitialization } from '@/hooks/useAppInitialization';
 import HomeScreen from '@/screens/HomeScreen';
 import FoodLogScreen from '@/screens/FoodLogScreen';
 import ConfirmFoodEntryScreen from '@/screens/ConfirmFoodEntryScreen';
+import PendingFoodEntriesScreen from '@/screens/PendingFoodEntriesScreen';
+import MealTemplatesScreen from '@/screens/MealTemplatesScreen';
 import SymptomsScreen from '@/screens/SymptomsScreen';
 import BowelScreen from '@/screens/BowelScreen';
 import DailyLogScreen from '@/screens/DailyLogScreen';
+import DishLibraryScreen from '@/screens/DishLibraryScreen';
+import DishDetailScreen from '@/screens/DishDetailScreen';
 import AddScreen from '@/screens/AddScreen';
 import LoginScreen from '@/screens/LoginScreen';
 import SignUpScreen from '@/screens/SignUpScreen';
@@ -106,6 +110,16 @@ function TabNavigator() {
           ),
         }}
       />
+      <Tab.Screen 
+        name="DishLibrary" 
+        component={DishLibraryScreen}
+        options={{
+          title: 'Dishes',
+          tabBarIcon: ({ color, size }) => (
+            <IconButton icon="food-variant" size={size} iconColor={color} />
+          ),
+        }}
+      />
     </Tab.Navigator>
   );
 }
@@ -154,7 +168,26 @@ function AuthNavigator() {
       <Stack.Screen 
         name="ConfirmFoodEntry" 
         component={ConfirmFoodEntryScreen}
-        options={{ title: 'Confirm Meal' }}
+        options={({ route }) => ({
+          title: (route.params as { isEditing?: boolean } | undefined)?.isEditing
+            ? 'Edit Meal'
+            : 'Confirm Meal',
+        })}
+      />
+      <Stack.Screen 
+        name="PendingFoodEntries" 
+        component={PendingFoodEntriesScreen}
+        options={{ title: 'Needs Review' }}
+      />
+      <Stack.Screen 
+        name="MealTemplates" 
+        component={MealTemplatesScreen}
+        options={{ title: 'Saved Meals' }}
+      />
+      <Stack.Screen 
+        name="DishDetail" 
+        component={DishDetailScreen}
+        options={{ title: 'Dish' }}
       />
       <Stack.Screen 
         name="Symptoms" 
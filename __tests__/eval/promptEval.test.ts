@@ -0,0 +1,77 @@
+/**
+ * Prompt evaluation over the golden set in golden/entries.json.
+ *
+ * By default this replays recorded responses from recordings/responses.json, so it runs offline
+ * and fails if a prompt has no recording. Set PROMPT_EVAL_MODE=live to call an LLM instead, or
+ * PROMPT_EVAL_MODE=record to call it and save the responses for later replays (do this after
+ * changing a prompt). With OPENAI_API_KEY set, OpenAI's API is called directly, as there is no
+ * signed-in user for the llm function; otherwise the configured provider (EXPO_PUBLIC_LLM_*, e.g.
+ * a local openai-compatible server) is. PROMPT_EVAL_VERSIONS picks the prompt versions to compare (default v1,v4).
+ *
+ * Run with: npm run test:eval
+ */
+
+import path from 'path';
+import { describe, expect, it } from 'vitest';
+import { MODEL_VERSION } from '@/lib/llmPrompts';
+import { createLLMProviderFromConfig, createOpenAICompatibleProvider, LLMProvider } from '@/lib/llmProvider';
+import {
+  createRecordingProvider,
+  createReplayProvider,
+  formatPromptEvalReport,
+  GoldenEntry,
+  readJsonFile,
+  RecordedResponses,
+  runPromptEval,
+  writeRecordedResponses,
+} from './promptEval';
+
+const GOLDEN_PATH = path.join(__dirname, 'golden', 'entries.json');
+const RECORDINGS_PATH = path.join(__dirname, 'recordings', 'responses.json');
+
+const mode = process.env.PROMPT_EVAL_MODE ?? 'replay';
+const promptVersions = (process.env.PROMPT_EVAL_VERSIONS ?? 'v1,v4')
+  .split(',')
+  .map((version: string) => version.trim())
+  .filter(Boolean);
+
+// The key is read here only, never from an EXPO_PUBLIC_ variable, which would bundle it into the app
+const createLiveProvider = (): LLMProvider => {
+  const apiKey = process.env.OPENAI_API_KEY;
+  if (!apiKey) {
+    return createLLMProviderFromConfig();
+  }
+  return createOpenAICompatibleProvider({
+    baseUrl: 'https://api.openai.com/v1',
+    apiKey,
+    model: MODEL_VERSION,
+    jsonSchema: true,
+  });
+};
+
+describe('prompt eval', () => {
+  it('scores each prompt version against the golden set', async () => {
+    const entries = readJsonFile<GoldenEntry[]>(GOLDEN_PATH);
+    const recordings = readJsonFile<RecordedResponses>(RECORDINGS_PATH);
+
+    if (mode === 'replay') {
+      const provider = createReplayProvider(recordings);
+      const results = await runPromptEval(entries, promptVersions, provider);
+      console.log(formatPromptEvalReport(results));
+      // A missing recording means a prompt changed since the last recording
+      expect(provider.missingKeys).toEqual([]);
+      return;
+    }
+
+    const live = createLiveProvider();
+    if (mode === 'record' && !('complete' in live)) {
+      throw new Error(`Responses can't be recorded from the ${live.name} provider, which isn't sent prompts`);
+    }
+    const provider = mode === 'record' && 'complete' in live ? createRecordingProvider(live, recordings) : live;
+    const results = await runPromptEval(entries, promptVersions, provider);
+    console.log(formatPromptEvalReport(results));
+    if (mode === 'record') {
+      writeRecordedResponses(RECORDINGS_PATH, recordings);
+    }
+  }, 300000);
+});
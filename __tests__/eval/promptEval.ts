@@ -0,0 +1,268 @@
+/**
+ * Offline prompt evaluation harness.
+ *
+ * Runs llmExtractDishes over a golden set of raw entries for each prompt version, predicts the
+ * triggers of the expected dishes the way new dishes get them (llmPredictNewDish: from v3 on, the
+ * union of the triggers of the ingredients llmDecomposeDish breaks a dish into, otherwise
+ * llmPredictTriggers), and scores the results against the expected dishes and triggers. Model
+ * calls go through an LLM provider, so the same run works against recorded responses (offline) or
+ * a live model.
+ */
+
+import { createHash } from 'crypto';
+import * as fs from 'fs';
+import { getDecomposedDishTriggerNames, llmPredictNewDish } from '@/data/foodEntryService';
+import { createPredictionTrace, llmExtractDishes } from '@/data/llmService';
+import { MODEL_VERSION } from '@/lib/llmPrompts';
+import { createFakeProvider, LLMProvider, PromptLLMProvider, setLLMProvider } from '@/lib/llmProvider';
+import { setLLMCallConfig } from '@/lib/llmResilience';
+import { createLLMCache, setLLMCache } from '@/lib/llmCache';
+import { normalizeDishName } from '@/data/dishHelpers';
+import { computePredictionScores, scoreTriggerPredictions } from '@/data/evaluationService';
+import { PredictionScores, TriggerPredictionMetrics } from '@/types/evaluation';
+
+// A dish the model should extract from a golden entry, with the triggers it should predict
+export interface GoldenDish {
+  dish_fragment_text: string;
+  dish_name: string;
+  // Other names that count as a correct extraction ("Oatmeal with Honey" for "Oatmeal")
+  aliases?: string[];
+  triggers: string[];
+}
+
+export interface GoldenEntry {
+  id: string;
+  raw_entry_text: string;
+  dishes: GoldenDish[];
+}
+
+// Recorded response text by recording key
+export type RecordedResponses = Record<string, string>;
+
+export interface PromptEvalResult {
+  promptVersion: string;
+  modelVersion: string;
+  // Extracted dishes vs expected dishes, matched by normalized name
+  dishExtraction: PredictionScores;
+  // Triggers predicted for each expected dish vs its expected triggers
+  triggerPrediction: PredictionScores;
+  // Expected dishes whose triggers came from their ingredients (0 before v3, or when every
+  // decomposition came back empty and the whole dish was predicted)
+  decomposedDishCount: number;
+  triggers: TriggerPredictionMetrics[];
+  // Human-readable differences from the golden set, for inspecting a prompt change
+  mismatches: string[];
+}
+
+/**
+ * Identifies a request by model version and prompt text, so a recording is replayed only for
+ * exactly the prompt it was recorded with.
+ */
+export function recordingKey(modelVersion: string, prompt: string): string {
+  return createHash('sha256').update(`${modelVersion}\n${prompt}`).digest('hex').slice(0, 16);
+}
+
+/**
+ * Replays recorded responses. Prompts without a recording fail and are listed in missingKeys
+ * (the LLM service swallows the error and falls back, so the harness has to report it).
+ */
+export function createReplayProvider(
+  responses: RecordedResponses,
+  modelVersion: string = MODEL_VERSION,
+): LLMProvider & { missingKeys: string[] } {
+  const missingKeys: string[] = [];
+  const provider = createFakeProvider((prompt) => {
+    const key = recordingKey(modelVersion, prompt);
+    const response = responses[key];
+    if (response === undefined) {
+      missingKeys.push(key);
+      throw new Error(`No recorded response for ${key}`);
+    }
+    return response;
+  }, modelVersion);
+  return Object.assign(provider, { missingKeys });
+}
+
+/**
+ * Passes prompts to another provider and stores each response in `responses` for later replays.
+ */
+export function createRecordingProvider(
+  provider: PromptLLMProvider,
+  responses: RecordedResponses,
+): PromptLLMProvider {
+  return {
+    name: provider.name,
+    modelVersion: provider.modelVersion,
+    async complete(prompt) {
+      const response = await provider.complete(prompt);
+      responses[recordingKey(provider.modelVersion, prompt)] = response;
+      return response;
+    },
+  };
+}
+
+export function readJsonFile<T>(path: string): T {
+  return JSON.parse(fs.readFileSync(path, 'utf8')) as T;
+}
+
+// Writes recordings with sorted keys, so re-recording produces a readable diff
+export function writeRecordedResponses(path: string, responses: RecordedResponses): void {
+  const sorted: RecordedResponses = {};
+  for (const key of Object.keys(responses).sort()) {
+    sorted[key] = responses[key];
+  }
+  fs.writeFileSync(path, `${JSON.stringify(sorted, null, 2)}\n`);
+}
+
+const matchesDish = (dish: GoldenDish, dishName: string): boolean =>
+  [dish.dish_name, ...(dish.aliases ?? [])].some(
+    (name) => normalizeDishName(name) === normalizeDishName(dishName),
+  );
+
+/**
+ * Runs the golden set through one prompt version.
+ * Triggers are predicted for the expected dishes rather than the extracted ones, so extraction
+ * mistakes don't also count against trigger prediction.
+ */
+async function evaluatePromptVersion(
+  entries: GoldenEntry[],
+  promptVersion: string,
+  modelVersion: string,
+): Promise<PromptEvalResult> {
+  const dishCounts = { truePositiveCount: 0, falsePositiveCount: 0, falseNegativeCount: 0 };
+  const triggerPairs: Array<{ predictedTriggerNames: string[]; confirmedTriggerNames: string[] }> = [];
+  const mismatches: string[] = [];
+  let decomposedDishCount = 0;
+
+  for (const entry of entries) {
+    const extracted = await llmExtractDishes(entry.raw_entry_text, promptVersion);
+
+    const unmatched = [...entry.dishes];
+    for (const dish of extracted) {
+      const index = unmatched.findIndex((expected) => matchesDish(expected, dish.dish_name_suggestion));
+      if (index === -1) {
+        dishCounts.falsePositiveCount += 1;
+        mismatches.push(`${entry.id}: unexpected dish "${dish.dish_name_suggestion}"`);
+      } else {
+        dishCounts.truePositiveCount += 1;
+        unmatched.splice(index, 1);
+      }
+    }
+    for (const dish of unmatched) {
+      dishCounts.falseNegativeCount += 1;
+      mismatches.push(`${entry.id}: missing dish "${dish.dish_name}"`);
+    }
+
+    for (const dish of entry.dishes) {
+      // There are no stored ingredients, so each ingredient counts with its predicted triggers
+      const prediction = await llmPredictNewDish(
+        dish.dish_name,
+        dish.dish_fragment_text,
+        [],
+        promptVersion,
+        createPredictionTrace(),
+      );
+      const predicted = prediction.triggerNames ?? getDecomposedDishTriggerNames(prediction.ingredients, new Map());
+      if (prediction.triggerNames === null) {
+        decomposedDishCount += 1;
+      }
+      triggerPairs.push({ predictedTriggerNames: predicted, confirmedTriggerNames: dish.triggers });
+
+      const extra = predicted.filter((name) => !dish.triggers.includes(name));
+      const missing = dish.triggers.filter((name) => !predicted.includes(name));
+      if (extra.length > 0 || missing.length > 0) {
+        const ingredients =
+          prediction.ingredients.length > 0
+            ? ` from ${prediction.ingredients.map((ingredient) => ingredient.ingredient_name).join(', ')}`
+            : '';
+        mismatches.push(
+          `${entry.id}: "${dish.dish_name}" triggers +[${extra.join(', ')}] -[${missing.join(', ')}]${ingredients}`,
+        );
+      }
+    }
+  }
+
+  const { triggers, overall } = scoreTriggerPredictions(triggerPairs);
+  return {
+    promptVersion,
+    modelVersion,
+    dishExtraction: computePredictionScores(dishCounts),
+    triggerPrediction: overall,
+    decomposedDishCount,
+    triggers,
+    mismatches,
+  };
+}
+
+/**
+ * Runs the golden set through each prompt version with the given provider.
+ * The provider replaces the active one for the duration of the run. The circuit breaker never
+ * opens and nothing is cached, so every prompt reaches the model.
+ */
+export async function runPromptEval(
+  entries: GoldenEntry[],
+  promptVersions: string[],
+  provider: LLMProvider,
+): Promise<PromptEvalResult[]> {
+  setLLMProvider(provider);
+  setLLMCallConfig({ failureThreshold: Number.POSITIVE_INFINITY });
+  setLLMCache(createLLMCache([]));
+
+  try {
+    const results: PromptEvalResult[] = [];
+    for (const promptVersion of promptVersions) {
+      results.push(await evaluatePromptVersion(entries, promptVersion, provider.modelVersion));
+    }
+    return results;
+  } finally {
+    setLLMProvider(null);
+    setLLMCallConfig(null);
+    setLLMCache(null);
+  }
+}
+
+const formatScore = (score: number | null): string => (score === null ? '-' : score.toFixed(2));
+
+/**
+ * Formats results as a table with one column per prompt version, followed by the mismatches.
+ */
+export function formatPromptEvalReport(results: PromptEvalResult[]): string {
+  const labelWidth = 28;
+  const columnWidth = 10;
+  const row = (label: string, values: string[]) =>
+    label.padEnd(labelWidth) + values.map((value) => value.padStart(columnWidth)).join('');
+  const scoreRows = (label: string, scoresOf: (result: PromptEvalResult) => PredictionScores) => [
+    row(`${label} precision`, results.map((result) => formatScore(scoresOf(result).precision))),
+    row(`${label} recall`, results.map((result) => formatScore(scoresOf(result).recall))),
+    row(`${label} F1`, results.map((result) => formatScore(scoresOf(result).f1))),
+  ];
+
+  const triggerNames = Array.from(
+    new Set(results.flatMap((result) => result.triggers.map((metrics) => metrics.triggerName))),
+  ).sort();
+
+  const lines = [
+    row('', results.map((result) => result.promptVersion)),
+    row('model', results.map((result) => result.modelVersion)),
+    ...scoreRows('dishes', (result) => result.dishExtraction),
+    ...scoreRows('triggers', (result) => result.triggerPrediction),
+    row('dishes from ingredients', results.map((result) => String(result.decomposedDishCount))),
+    '',
+    'Trigger F1 by trigger',
+    ...triggerNames.map((triggerName) =>
+      row(
+        `  ${triggerName}`,
+        results.map((result) =>
+          formatScore(result.triggers.find((metrics) => metrics.triggerName === triggerName)?.f1 ?? null),
+        ),
+      ),
+    ),
+  ];
+
+  for (const result of results) {
+    lines.push('', `Mismatches (${result.promptVersion}): ${result.mismatches.length}`);
+    lines.push(...result.mismatches.map((mismatch) => `  ${mismatch}`));
+  }
+
+  return lines.join('\n');
+}
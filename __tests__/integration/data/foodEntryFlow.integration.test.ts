@@ -1,9 +1,36 @@
 import { createClient } from '@supabase/supabase-js';
 import { describe, expect, it, beforeAll, afterAll, beforeEach, afterEach, vi } from 'vitest';
-import { createFoodEntry, confirmFoodEntry, getFoodEntriesForUser } from '@/data/foodEntryService';
-import { updateDishEventDeletedAt } from '@/data/foodEntryRepo';
+import {
+  createFoodEntry,
+  confirmFoodEntry,
+  getFoodEntriesForUser,
+  getFoodEntryForEditing,
+  quickLogDish,
+} from '@/data/foodEntryService';
+import {
+  getDishDetail,
+  getDishLibraryForUser,
+  getDishNameConflict,
+  getQuickLogDishes,
+  mergeDishIntoNamedDish,
+  rejectSimilarDishMatch,
+  setDishFavorite,
+  updateDishDefaultTriggers,
+} from '@/data/dishService';
+import { getMealTemplatesForUser, logMealTemplate, saveFoodEntryAsTemplate } from '@/data/mealTemplateService';
+import { createCustomTrigger, getCustomTriggersForUser } from '@/data/triggerService';
+import {
+  getKnownTriggerWarning,
+  getTriggerSensitivitiesForUser,
+  removeTriggerSensitivity,
+  setTriggerSensitivity,
+} from '@/data/sensitivityService';
+import { createLocalEmbedder, setEmbedder } from '@/lib/embeddings';
+import { setLLMProvider } from '@/lib/llmProvider';
+import { MODEL_VERSION } from '@/lib/llmPrompts';
+import { createFoodEntryTransaction, updateDishEventDeletedAt } from '@/data/foodEntryRepo';
+import * as llmService from '@/data/llmService';
 import { supabase } from '@/lib/supabase';
-import * as openaiModule from '@/lib/openai';
 
 /**
  * Integration tests for food entry flow.
@@ -80,9 +107,17 @@ describe('foodEntryFlow integration (test database)', () => {
         await adminClient.from('raw_entry').delete().in('id', rawEntryIds);
       }
 
+      // Meal templates keep their names after their dishes are gone, so remove them too
+      await adminClient.from('meal_template').delete().eq('user_id', userId);
+      // Ingredients outlive their dish events (dish_ingredients cascade with dish events)
+      await adminClient.from('ingredients').delete().eq('user_id', userId);
+
       // Clean up all dishes for this user (removes conflicts from previous test runs)
       // Dishes will be recreated as needed during tests, allowing reuse within a single run
       await adminClient.from('dish').delete().eq('user_id', userId);
+      await adminClient.from('profile_trigger_sensitivities').delete().eq('user_id', userId);
+      // Custom triggers, once nothing references them
+      await adminClient.from('triggers').delete().eq('user_id', userId);
     } catch (error) {
       console.warn('Cleanup all test data error (non-fatal):', error);
     }
@@ -207,7 +242,11 @@ describe('foodEntryFlow integration (test database)', () => {
   /**
    * Helper function to create OpenAI API response in the expected format.
    */
-  function createOpenAIResponse(data: { dishes?: any[]; triggers?: string[] }): any {
+  function createOpenAIResponse(data: {
+    dishes?: any[];
+    triggers?: string[];
+    ingredients?: any[];
+  }): any {
     return {
       choices: [
         {
@@ -268,8 +307,32 @@ describe('foodEntryFlow integration (test database)', () => {
       },
     };
 
-    // Mock getOpenAIClient to return our mock client
-    vi.spyOn(openaiModule, 'getOpenAIClient').mockReturnValue(mockClient as any);
+    // Send the prompts to the mock client instead of the llm Edge Function
+    setLLMProvider({
+      name: 'openai-compatible',
+      modelVersion: MODEL_VERSION,
+      async complete(prompt, options) {
+        const response = await mockClient.chat.completions.create(
+          {
+            model: MODEL_VERSION,
+            messages: [{ role: 'user', content: prompt }],
+            temperature: 0,
+            response_format: options?.responseFormat
+              ? { type: 'json_schema', json_schema: { ...options.responseFormat, strict: true } }
+              : { type: 'json_object' },
+          },
+          { signal: options?.signal },
+        );
+        return response.choices[0]?.message?.content ?? '';
+      },
+    });
+    // Embeddings fail, so dishes are only matched by name, unless a test sets the local embedder
+    setEmbedder({
+      model: 'text-embedding-3-small',
+      embed: async () => {
+        throw new Error('No embeddings in these tests');
+      },
+    });
 
     // Set up the mock implementation to return deterministic responses based on prompt content
     openAIMock = mockClient.chat.completions.create;
@@ -332,6 +395,19 @@ describe('foodEntryFlow integration (test database)', () => {
             ],
           });
         }
+        if (userInput === 'Two large coffees') {
+          return createOpenAIResponse({
+            dishes: [
+              {
+                dish_fragment_text: 'Two large coffees',
+                dish_name_suggestion: 'Coffee',
+                quantity: 2,
+                unit: null,
+                portion_size: 'large',
+              },
+            ],
+          });
+        }
         if (userInput === 'Pasta with Meatballs') {
           return createOpenAIResponse({
             dishes: [
@@ -361,8 +437,28 @@ describe('foodEntryFlow integration (test database)', () => {
         const dishName = dishNameMatch ? dishNameMatch[1] : '';
         
         const triggers = getExpectedTriggers(dishName);
+        // Tacos have cilantro when the user tracks it as a custom trigger
+        if (dishName.toLowerCase().includes('fish tacos') && prompt.includes('"Cilantro"')) {
+          triggers.push('fish', 'cilantro');
+        }
         
         return createOpenAIResponse({ triggers });
+      } else if (prompt.includes('Break a dish down')) {
+        // This is llmDecomposeDish call; other dishes get no ingredients and fall back to
+        // whole-dish trigger prediction
+        const dishNameMatch = prompt.match(/Dish name: "([^"]+)"/);
+        const dishName = dishNameMatch ? dishNameMatch[1] : '';
+
+        if (dishName.toLowerCase() === 'caesar salad') {
+          return createOpenAIResponse({
+            ingredients: [
+              { ingredient_name: 'Romaine Lettuce', triggers: [] },
+              { ingredient_name: 'Croutons', triggers: ['gluten'] },
+              { ingredient_name: 'Parmesan', triggers: ['dairy'] },
+            ],
+          });
+        }
+        return createOpenAIResponse({ ingredients: [] });
       }
       
       // Fallback response
@@ -371,6 +467,8 @@ describe('foodEntryFlow integration (test database)', () => {
   });
 
   afterEach(() => {
+    setEmbedder(null);
+    setLLMProvider(null);
     vi.restoreAllMocks();
   });
 
@@ -803,6 +901,937 @@ describe('foodEntryFlow integration (test database)', () => {
     );
   });
 
+  describe('editing a confirmed meal', () => {
+    it(
+      'renames, retimes and replaces confirmed triggers while keeping predicted rows',
+      async () => {
+        const createResult = await createFoodEntry(Date.now(), {
+          raw_entry_text: 'Cherry turnover',
+        });
+        const dishEvent = createResult.dishes[0];
+        const triggerMap = await getTriggerIds(['gluten', 'caffeine', 'dairy']);
+
+        await confirmFoodEntry(createResult.entry_id, {
+          confirmed_dishes: [
+            {
+              dish_event_id: dishEvent.dish_event_id,
+              dish_id: dishEvent.dish_id,
+              final_dish_name: dishEvent.dish_name,
+              trigger_ids: [triggerMap.get('gluten')!, triggerMap.get('caffeine')!],
+            },
+          ],
+          occurred_at: Date.now(),
+        });
+
+        const { data: predictedBefore } = await adminClient
+          .from('predicted_dish_triggers')
+          .select('trigger_id')
+          .eq('dish_event_id', dishEvent.dish_event_id);
+
+        // Reload for editing: confirmed triggers, not predictions
+        const editable = await getFoodEntryForEditing(createResult.entry_id);
+        expect(editable.dishes).toHaveLength(1);
+        expect(editable.dishes[0].triggers?.map((t) => t.trigger_name).sort()).toEqual([
+          'caffeine',
+          'gluten',
+        ]);
+
+        // Save the edit through the same confirmation path
+        const editedOccurredAt = new Date('2024-06-01T12:30:00Z').getTime();
+        const editResult = await confirmFoodEntry(createResult.entry_id, {
+          confirmed_dishes: [
+            {
+              dish_event_id: dishEvent.dish_event_id,
+              dish_id: dishEvent.dish_id,
+              final_dish_name: 'Cherry Pie',
+              trigger_ids: [triggerMap.get('gluten')!, triggerMap.get('dairy')!],
+            },
+          ],
+          occurred_at: editedOccurredAt,
+        });
+
+        expect(editResult.dishes[0].dish_name).toBe('Cherry Pie');
+        expect(editResult.dishes[0].triggers?.map((t) => t.trigger_name).sort()).toEqual([
+          'dairy',
+          'gluten',
+        ]);
+
+        // Verify database state using admin client (verification only)
+        const { data: editedEvent } = await adminClient
+          .from('dish_events')
+          .select('occurred_at, confirmed_by_user')
+          .eq('id', dishEvent.dish_event_id)
+          .single();
+
+        expect(new Date(editedEvent?.occurred_at).getTime()).toBe(editedOccurredAt);
+        expect(editedEvent?.confirmed_by_user).toBe(true);
+
+        const { data: predictedAfter } = await adminClient
+          .from('predicted_dish_triggers')
+          .select('trigger_id')
+          .eq('dish_event_id', dishEvent.dish_event_id);
+
+        expect(predictedAfter?.map((pt) => pt.trigger_id).sort()).toEqual(
+          predictedBefore?.map((pt) => pt.trigger_id).sort(),
+        );
+
+        // Cleanup
+        await cleanup(createResult.entry_id);
+      },
+      30000,
+    );
+  });
+
+  /**
+   * Renaming a dish into an existing dish's name is rejected; merging resolves the conflict
+   * and the old name becomes an alias that future entries resolve to.
+   */
+  describe('merging dishes', () => {
+    it(
+      'merges a renamed dish into the existing dish and resolves its old name as an alias',
+      async () => {
+        const triggerMap = await getTriggerIds(['caffeine', 'dairy']);
+
+        const latteEntry = await createFoodEntry(Date.now(), { raw_entry_text: 'Cafe Latte' });
+        const latteDish = latteEntry.dishes[0];
+        await confirmFoodEntry(latteEntry.entry_id, {
+          confirmed_dishes: [
+            {
+              dish_event_id: latteDish.dish_event_id,
+              dish_id: latteDish.dish_id,
+              final_dish_name: latteDish.dish_name,
+              trigger_ids: [triggerMap.get('caffeine')!],
+            },
+          ],
+          occurred_at: Date.now(),
+        });
+
+        const oatEntry = await createFoodEntry(Date.now(), { raw_entry_text: 'Oat Milk Latte' });
+        const oatDish = oatEntry.dishes[0];
+        expect(oatDish.dish_id).not.toBe(latteDish.dish_id);
+
+        // Renaming into the existing dish's name is a conflict
+        const conflictError = await confirmFoodEntry(oatEntry.entry_id, {
+          confirmed_dishes: [
+            {
+              dish_event_id: oatDish.dish_event_id,
+              dish_id: oatDish.dish_id,
+              final_dish_name: 'cafe latte',
+              trigger_ids: [triggerMap.get('caffeine')!, triggerMap.get('dairy')!],
+            },
+          ],
+          occurred_at: Date.now(),
+        }).catch((error) => error);
+        expect(getDishNameConflict(conflictError)).toEqual({
+          dishEventId: oatDish.dish_event_id,
+          dishId: latteDish.dish_id,
+        });
+
+        const merged = await mergeDishIntoNamedDish(oatDish.dish_id, 'cafe latte');
+        expect(merged.id).toBe(latteDish.dish_id);
+
+        // Confirming against the surviving dish now succeeds
+        const confirmResult = await confirmFoodEntry(oatEntry.entry_id, {
+          confirmed_dishes: [
+            {
+              dish_event_id: oatDish.dish_event_id,
+              dish_id: merged.id,
+              final_dish_name: merged.dishName,
+              trigger_ids: [triggerMap.get('caffeine')!, triggerMap.get('dairy')!],
+            },
+          ],
+          occurred_at: Date.now(),
+        });
+        expect(confirmResult.dishes[0].dish_id).toBe(latteDish.dish_id);
+
+        // Verify database state using admin client (verification only)
+        const { data: sourceDish } = await adminClient
+          .from('dish')
+          .select('id')
+          .eq('id', oatDish.dish_id)
+          .maybeSingle();
+        expect(sourceDish).toBeNull();
+
+        const { data: predictedTriggers } = await adminClient
+          .from('predicted_dish_triggers')
+          .select('dish_id')
+          .eq('dish_event_id', oatDish.dish_event_id);
+        expect(predictedTriggers?.every((pt) => pt.dish_id === latteDish.dish_id)).toBe(true);
+
+        const { data: aliases } = await adminClient
+          .from('dish_alias')
+          .select('normalized_alias_name')
+          .eq('dish_id', latteDish.dish_id);
+        expect(aliases?.map((a) => a.normalized_alias_name)).toEqual(['oat milk latte']);
+
+        // The old name now resolves to the merged dish
+        const laterEntry = await createFoodEntry(Date.now(), { raw_entry_text: 'Oat Milk Latte' });
+        expect(laterEntry.dishes[0].dish_id).toBe(latteDish.dish_id);
+        expect(laterEntry.dishes[0].dish_name).toBe(latteDish.dish_name);
+
+        // Cleanup
+        await cleanup(latteEntry.entry_id);
+        await cleanup(oatEntry.entry_id);
+        await cleanup(laterEntry.entry_id);
+      },
+      30000,
+    );
+
+    it(
+      "keeps the source dish's default triggers, favorite and match rejections",
+      async () => {
+        const triggerMap = await getTriggerIds(['caffeine', 'dairy', 'gluten']);
+
+        const entry = await createFoodEntry(Date.now(), { raw_entry_text: 'Flat White' });
+        const targetDish = entry.dishes[0];
+        const sourceEntry = await createFoodEntry(Date.now(), { raw_entry_text: 'Cortado' });
+        const sourceDish = sourceEntry.dishes[0];
+        const otherEntry = await createFoodEntry(Date.now(), { raw_entry_text: 'Almond Croissant' });
+        const otherDish = otherEntry.dishes[0];
+
+        await updateDishDefaultTriggers(targetDish.dish_id, [triggerMap.get('caffeine')!]);
+        await updateDishDefaultTriggers(sourceDish.dish_id, [
+          triggerMap.get('caffeine')!,
+          triggerMap.get('dairy')!,
+        ]);
+        const favoriteSource = await setDishFavorite(sourceDish.dish_id, true);
+
+        // Setup: the croissant was once wrongly matched to the source dish
+        await adminClient.from('dish_match_rejection').insert({
+          user_id: authenticatedUserId,
+          dish_event_id: otherDish.dish_event_id,
+          matched_dish_id: sourceDish.dish_id,
+          dish_name_suggestion: 'Almond Croissant',
+        });
+
+        const merged = await mergeDishIntoNamedDish(sourceDish.dish_id, 'flat white');
+        expect(merged.id).toBe(targetDish.dish_id);
+        expect(merged.favoritedAt).toBe(favoriteSource.favoritedAt);
+
+        const detail = await getDishDetail(targetDish.dish_id);
+        expect(detail.triggerProfile.isDefault).toBe(true);
+        expect(detail.triggerProfile.triggers.map((t) => t.triggerName).sort()).toEqual([
+          'caffeine',
+          'dairy',
+        ]);
+
+        // Verify database state using admin client (verification only)
+        const { data: rejections } = await adminClient
+          .from('dish_match_rejection')
+          .select('matched_dish_id')
+          .eq('dish_event_id', otherDish.dish_event_id);
+        expect(rejections).toEqual([{ matched_dish_id: targetDish.dish_id }]);
+
+        // Cleanup
+        await cleanup(entry.entry_id);
+        await cleanup(sourceEntry.entry_id);
+        await cleanup(otherEntry.entry_id);
+      },
+      30000,
+    );
+  });
+
+  /**
+   * Names with no exact match are compared to the user's dishes by embedding similarity
+   * (local embedder here, so no embeddings API is needed).
+   */
+  describe('similar dish matching', () => {
+    it(
+      'reuses a similar existing dish and its confirmed triggers',
+      async () => {
+        setEmbedder(createLocalEmbedder());
+        const triggerMap = await getTriggerIds(['gluten', 'dairy']);
+
+        const firstEntry = await createFoodEntry(Date.now(), { raw_entry_text: 'Blueberry Muffin' });
+        const firstDish = firstEntry.dishes[0];
+        await confirmFoodEntry(firstEntry.entry_id, {
+          confirmed_dishes: [
+            {
+              dish_event_id: firstDish.dish_event_id,
+              dish_id: firstDish.dish_id,
+              final_dish_name: firstDish.dish_name,
+              trigger_ids: [triggerMap.get('gluten')!, triggerMap.get('dairy')!],
+            },
+          ],
+          occurred_at: Date.now(),
+        });
+
+        const secondEntry = await createFoodEntry(Date.now(), {
+          raw_entry_text: 'Blueberry Muffins',
+        });
+        const secondDish = secondEntry.dishes[0];
+
+        expect(secondDish.dish_id).toBe(firstDish.dish_id);
+        expect(secondDish.dish_name).toBe('Blueberry Muffin');
+        expect(secondDish.matched_dish_name_suggestion).toBe('Blueberry Muffins');
+        expect(secondDish.predicted_triggers?.map((t) => t.trigger_name).sort()).toEqual([
+          'dairy',
+          'gluten',
+        ]);
+
+        // Verify database state using admin client (verification only)
+        const { data: embeddings } = await adminClient
+          .from('dish_embedding')
+          .select('id, model')
+          .eq('dish_id', firstDish.dish_id);
+        expect(embeddings).toHaveLength(1);
+        expect(embeddings?.[0].model).toBe(createLocalEmbedder().model);
+
+        const { data: dish } = await adminClient
+          .from('dish')
+          .select('dish_embedding_id')
+          .eq('id', firstDish.dish_id)
+          .single();
+        expect(dish?.dish_embedding_id).toBe(embeddings?.[0].id);
+
+        // The predicted dish keeps what the LLM suggested
+        const { data: predictedDishes } = await adminClient
+          .from('predicted_dish')
+          .select('dish_name_suggestion')
+          .eq('raw_entry_id', secondEntry.entry_id);
+        expect(predictedDishes?.[0].dish_name_suggestion).toBe('Blueberry Muffins');
+
+        // Cleanup
+        await cleanup(firstEntry.entry_id);
+        await cleanup(secondEntry.entry_id);
+      },
+      30000,
+    );
+
+    it(
+      'logs a rejected match as its own dish and keeps the predictions',
+      async () => {
+        setEmbedder(createLocalEmbedder());
+
+        const firstEntry = await createFoodEntry(Date.now(), { raw_entry_text: 'Lemon Tart' });
+        const firstDish = firstEntry.dishes[0];
+        await confirmFoodEntry(firstEntry.entry_id, {
+          confirmed_dishes: [
+            {
+              dish_event_id: firstDish.dish_event_id,
+              dish_id: firstDish.dish_id,
+              final_dish_name: firstDish.dish_name,
+              trigger_ids: [],
+            },
+          ],
+          occurred_at: Date.now(),
+        });
+
+        const secondEntry = await createFoodEntry(Date.now(), { raw_entry_text: 'Lemon Tarts' });
+        const secondDish = secondEntry.dishes[0];
+        expect(secondDish.dish_id).toBe(firstDish.dish_id);
+
+        const newDish = await rejectSimilarDishMatch(
+          secondDish.dish_event_id,
+          secondDish.matched_dish_name_suggestion!,
+        );
+
+        expect(newDish.id).not.toBe(firstDish.dish_id);
+        expect(newDish.dishName).toBe('Lemon Tarts');
+
+        // Verify database state using admin client (verification only)
+        const { data: dishEvent } = await adminClient
+          .from('dish_events')
+          .select('id, dish_id, predicted_dish_id, deleted_at')
+          .eq('id', secondDish.dish_event_id)
+          .single();
+        expect(dishEvent?.dish_id).toBe(newDish.id);
+        expect(dishEvent?.predicted_dish_id).not.toBeNull();
+        expect(dishEvent?.deleted_at).toBeNull();
+
+        const { data: rejections } = await adminClient
+          .from('dish_match_rejection')
+          .select('matched_dish_id, dish_name_suggestion')
+          .eq('dish_event_id', secondDish.dish_event_id);
+        expect(rejections).toEqual([
+          { matched_dish_id: firstDish.dish_id, dish_name_suggestion: 'Lemon Tarts' },
+        ]);
+
+        // Cleanup
+        await cleanup(firstEntry.entry_id);
+        await cleanup(secondEntry.entry_id);
+      },
+      30000,
+    );
+  });
+
+  describe('dish library', () => {
+    it(
+      'pre-fills new entries with default triggers and falls back when they are cleared',
+      async () => {
+        const triggerMap = await getTriggerIds(['gluten', 'dairy', 'caffeine']);
+
+        const firstEntry = await createFoodEntry(Date.now() - 60000, {
+          raw_entry_text: 'Cinnamon Roll',
+        });
+        const firstDish = firstEntry.dishes[0];
+        await confirmFoodEntry(firstEntry.entry_id, {
+          confirmed_dishes: [
+            {
+              dish_event_id: firstDish.dish_event_id,
+              dish_id: firstDish.dish_id,
+              final_dish_name: firstDish.dish_name,
+              trigger_ids: [triggerMap.get('gluten')!, triggerMap.get('dairy')!],
+            },
+          ],
+          occurred_at: Date.now() - 60000,
+        });
+
+        const library = await getDishLibraryForUser();
+        const libraryItem = library.find((item) => item.dish.id === firstDish.dish_id);
+        expect(libraryItem?.timesEaten).toBe(1);
+        expect(libraryItem?.triggerProfile.isDefault).toBe(false);
+
+        await updateDishDefaultTriggers(firstDish.dish_id, [triggerMap.get('caffeine')!]);
+
+        const secondEntry = await createFoodEntry(Date.now(), { raw_entry_text: 'Cinnamon Roll' });
+        expect(secondEntry.dishes[0].predicted_triggers?.map((t) => t.trigger_name)).toEqual([
+          'caffeine',
+        ]);
+
+        const detail = await getDishDetail(firstDish.dish_id);
+        expect(detail.triggerProfile.isDefault).toBe(true);
+        // The unconfirmed second entry is not part of the history
+        expect(detail.history.map((entry) => entry.rawEntryId)).toEqual([firstEntry.entry_id]);
+        expect(detail.history[0].triggers.map((t) => t.triggerName).sort()).toEqual([
+          'dairy',
+          'gluten',
+        ]);
+
+        // Clearing the defaults falls back to the last confirmed triggers
+        await updateDishDefaultTriggers(firstDish.dish_id, []);
+        const clearedDetail = await getDishDetail(firstDish.dish_id);
+        expect(clearedDetail.triggerProfile.isDefault).toBe(false);
+        expect(clearedDetail.triggerProfile.triggers.map((t) => t.triggerName).sort()).toEqual([
+          'dairy',
+          'gluten',
+        ]);
+
+        // Cleanup
+        await cleanup(firstEntry.entry_id);
+        await cleanup(secondEntry.entry_id);
+      },
+      30000,
+    );
+  });
+
+  describe('quick logging', () => {
+    it(
+      'logs a favorite dish again as a confirmed entry with its last confirmed triggers',
+      async () => {
+        const triggerMap = await getTriggerIds(['caffeine', 'dairy']);
+
+        const firstEntry = await createFoodEntry(Date.now() - 60000, {
+          raw_entry_text: 'Flat White',
+        });
+        const firstDish = firstEntry.dishes[0];
+        await confirmFoodEntry(firstEntry.entry_id, {
+          confirmed_dishes: [
+            {
+              dish_event_id: firstDish.dish_event_id,
+              dish_id: firstDish.dish_id,
+              final_dish_name: firstDish.dish_name,
+              trigger_ids: [triggerMap.get('caffeine')!, triggerMap.get('dairy')!],
+            },
+          ],
+          occurred_at: Date.now() - 60000,
+        });
+        await setDishFavorite(firstDish.dish_id, true);
+
+        const { favorites } = await getQuickLogDishes();
+        expect(favorites.map((item) => item.dish.id)).toContain(firstDish.dish_id);
+
+        const extractDishes = vi.spyOn(llmService, 'llmExtractDishes');
+        const predictTriggers = vi.spyOn(llmService, 'llmPredictTriggers');
+        const occurredAt = Date.now();
+        const quickEntry = await quickLogDish(firstDish.dish_id, occurredAt);
+
+        expect(extractDishes).not.toHaveBeenCalled();
+        expect(predictTriggers).not.toHaveBeenCalled();
+        expect(quickEntry.dishes[0].dish_id).toBe(firstDish.dish_id);
+        expect(quickEntry.dishes[0].triggers?.map((t) => t.trigger_name)).toEqual([
+          'caffeine',
+          'dairy',
+        ]);
+
+        // Verify database state using admin client (verification only)
+        const { data: rawEntry } = await adminClient
+          .from('raw_entry')
+          .select('raw_entry_text')
+          .eq('id', quickEntry.entry_id)
+          .single();
+        expect(rawEntry?.raw_entry_text).toBe(firstDish.dish_name);
+
+        const { data: dishEvents } = await adminClient
+          .from('dish_events')
+          .select('confirmed_by_user, predicted_dish_id, occurred_at')
+          .eq('raw_entry_id', quickEntry.entry_id);
+        expect(dishEvents).toHaveLength(1);
+        expect(dishEvents?.[0].confirmed_by_user).toBe(true);
+        expect(dishEvents?.[0].predicted_dish_id).toBeNull();
+        expect(new Date(dishEvents![0].occurred_at).getTime()).toBe(occurredAt);
+
+        // Cleanup
+        await cleanup(firstEntry.entry_id);
+        await cleanup(quickEntry.entry_id);
+      },
+      30000,
+    );
+  });
+
+  describe('portions', () => {
+    it(
+      'stores the extracted portion and replaces it with the confirmed one',
+      async () => {
+        const entry = await createFoodEntry(Date.now(), { raw_entry_text: 'Two large coffees' });
+        const dish = entry.dishes[0];
+
+        expect(dish).toMatchObject({ quantity: 2, unit: null, portion_size: 'large' });
+
+        // Verify database state using admin client (verification only)
+        const { data: predictedDish } = await adminClient
+          .from('predicted_dish')
+          .select('quantity, unit, portion_size')
+          .eq('raw_entry_id', entry.entry_id)
+          .single();
+        expect(predictedDish).toEqual({ quantity: 2, unit: null, portion_size: 'large' });
+
+        const confirmed = await confirmFoodEntry(entry.entry_id, {
+          confirmed_dishes: [
+            {
+              dish_event_id: dish.dish_event_id,
+              dish_id: dish.dish_id,
+              final_dish_name: dish.dish_name,
+              quantity: 1,
+              unit: 'mug',
+              portion_size: null,
+              trigger_ids: [],
+            },
+          ],
+          occurred_at: Date.now(),
+        });
+        expect(confirmed.dishes[0]).toMatchObject({ quantity: 1, unit: 'mug', portion_size: null });
+
+        const editing = await getFoodEntryForEditing(entry.entry_id);
+        expect(editing.dishes[0]).toMatchObject({ quantity: 1, unit: 'mug', portion_size: null });
+
+        // The extraction is kept on the predicted dish for accuracy tracking
+        const { data: predictedAfterConfirm } = await adminClient
+          .from('predicted_dish')
+          .select('quantity, portion_size')
+          .eq('raw_entry_id', entry.entry_id)
+          .single();
+        expect(predictedAfterConfirm).toEqual({ quantity: 2, portion_size: 'large' });
+
+        // Cleanup
+        await cleanup(entry.entry_id);
+      },
+      30000,
+    );
+  });
+
+  describe('ingredients', () => {
+    it(
+      'breaks a new dish into ingredients and recomputes triggers when one is removed',
+      async () => {
+        const entry = await createFoodEntry(Date.now(), { raw_entry_text: 'Caesar Salad' });
+        const [dish] = entry.dishes;
+
+        expect(dish.ingredients?.map((i) => i.ingredient_name)).toEqual([
+          'Croutons',
+          'Parmesan',
+          'Romaine Lettuce',
+        ]);
+        expect(dish.predicted_triggers?.map((t) => t.trigger_name).sort()).toEqual([
+          'dairy',
+          'gluten',
+        ]);
+
+        // "No croutons": the gluten only the croutons carried goes with them
+        const croutons = dish.ingredients!.find((i) => i.ingredient_name === 'Croutons')!;
+        const dairy = dish.predicted_triggers!.find((t) => t.trigger_name === 'dairy')!;
+        const confirmed = await confirmFoodEntry(entry.entry_id, {
+          confirmed_dishes: [
+            {
+              dish_event_id: dish.dish_event_id,
+              dish_id: dish.dish_id,
+              final_dish_name: dish.dish_name,
+              trigger_ids: [dairy.trigger_id],
+              ingredient_ids: dish
+                .ingredients!.filter((i) => i.ingredient_id !== croutons.ingredient_id)
+                .map((i) => i.ingredient_id),
+            },
+          ],
+          occurred_at: Date.now(),
+        });
+        expect(confirmed.dishes[0].ingredients?.map((i) => i.ingredient_name)).toEqual([
+          'Parmesan',
+          'Romaine Lettuce',
+        ]);
+        expect(confirmed.dishes[0].triggers?.map((t) => t.trigger_name)).toEqual(['dairy']);
+
+        const editing = await getFoodEntryForEditing(entry.entry_id);
+        expect(editing.dishes[0].ingredients?.map((i) => i.ingredient_name)).toEqual([
+          'Parmesan',
+          'Romaine Lettuce',
+        ]);
+
+        // Logging the dish again copies the ingredients it was last confirmed with
+        const again = await createFoodEntry(Date.now(), { raw_entry_text: 'Caesar Salad' });
+        expect(again.dishes[0].dish_id).toBe(dish.dish_id);
+        expect(again.dishes[0].ingredients?.map((i) => i.ingredient_name)).toEqual([
+          'Parmesan',
+          'Romaine Lettuce',
+        ]);
+
+        // Cleanup
+        await cleanup(entry.entry_id);
+        await cleanup(again.entry_id);
+      },
+      30000,
+    );
+  });
+
+  describe('custom triggers', () => {
+    it(
+      'creates a custom trigger once and predicts and confirms it like a built-in trigger',
+      async () => {
+        const trigger = await createCustomTrigger('  Cilantro ');
+        expect(trigger.triggerName).toBe('Cilantro');
+        // Creating it again (in any case) returns the same trigger
+        expect((await createCustomTrigger('cilantro')).id).toBe(trigger.id);
+        expect((await getCustomTriggersForUser()).map((t) => t.id)).toEqual([trigger.id]);
+
+        const entry = await createFoodEntry(Date.now(), { raw_entry_text: 'Fish Tacos' });
+        const [dish] = entry.dishes;
+        expect(dish.predicted_triggers?.map((t) => t.trigger_name).sort()).toEqual([
+          'Cilantro',
+          'fish',
+        ]);
+
+        const confirmed = await confirmFoodEntry(entry.entry_id, {
+          confirmed_dishes: [
+            {
+              dish_event_id: dish.dish_event_id,
+              dish_id: dish.dish_id,
+              final_dish_name: dish.dish_name,
+              trigger_ids: [trigger.id],
+            },
+          ],
+          occurred_at: Date.now(),
+        });
+        expect(confirmed.dishes[0].triggers?.map((t) => t.trigger_name)).toEqual(['Cilantro']);
+
+        // Cleanup
+        await cleanup(entry.entry_id);
+      },
+      30000,
+    );
+  });
+
+  describe('sensitivity profile', () => {
+    it(
+      'keeps one level per trigger and warns about known triggers in a logged meal',
+      async () => {
+        const triggerMap = await getTriggerIds(['dairy', 'caffeine']);
+        const dairyId = triggerMap.get('dairy')!;
+
+        await setTriggerSensitivity(dairyId, 'medium');
+        const updated = await setTriggerSensitivity(dairyId, 'high');
+        expect(await getTriggerSensitivitiesForUser()).toEqual([updated]);
+        expect(updated.trigger.triggerName).toBe('dairy');
+
+        const entry = await createFoodEntry(Date.now(), { raw_entry_text: 'Matcha Latte' });
+        const confirmed = await confirmFoodEntry(entry.entry_id, {
+          confirmed_dishes: entry.dishes.map((dish) => ({
+            dish_event_id: dish.dish_event_id,
+            dish_id: dish.dish_id,
+            final_dish_name: dish.dish_name,
+            trigger_ids: [triggerMap.get('caffeine')!, dairyId],
+          })),
+          occurred_at: Date.now(),
+        });
+        expect(await getKnownTriggerWarning(confirmed.dishes)).toBe(
+          'Contains Dairy (high sensitivity)',
+        );
+
+        await removeTriggerSensitivity(updated.id);
+        expect(await getTriggerSensitivitiesForUser()).toEqual([]);
+        expect(await getKnownTriggerWarning(confirmed.dishes)).toBeNull();
+
+        // Cleanup
+        await cleanup(entry.entry_id);
+      },
+      30000,
+    );
+  });
+
+  describe('meal types', () => {
+    it(
+      'infers the meal type when logging and keeps the one chosen on confirmation',
+      async () => {
+        const breakfastTime = new Date();
+        breakfastTime.setHours(8, 0, 0, 0);
+
+        const entry = await createFoodEntry(breakfastTime.getTime(), {
+          raw_entry_text: 'Chocolate Croissant and Matcha Latte',
+        });
+        expect(entry.meal_type).toBe('breakfast');
+
+        const confirmed = await confirmFoodEntry(entry.entry_id, {
+          confirmed_dishes: entry.dishes.map((dish) => ({
+            dish_event_id: dish.dish_event_id,
+            dish_id: dish.dish_id,
+            final_dish_name: dish.dish_name,
+            trigger_ids: [],
+          })),
+          occurred_at: breakfastTime.getTime(),
+          meal_type: 'snack',
+        });
+        expect(confirmed.meal_type).toBe('snack');
+
+        // Saving again without a meal type keeps the chosen one
+        const edited = await confirmFoodEntry(entry.entry_id, {
+          confirmed_dishes: confirmed.dishes.map((dish) => ({
+            dish_event_id: dish.dish_event_id,
+            dish_id: dish.dish_id,
+            final_dish_name: dish.dish_name,
+            trigger_ids: [],
+          })),
+          occurred_at: breakfastTime.getTime(),
+        });
+        expect(edited.meal_type).toBe('snack');
+
+        const editing = await getFoodEntryForEditing(entry.entry_id);
+        expect(editing.meal_type).toBe('snack');
+
+        const foodEntries = await getFoodEntriesForUser();
+        const loggedDishes = foodEntries.filter((e) => e.rawEntryId === entry.entry_id);
+        expect(loggedDishes).toHaveLength(2);
+        loggedDishes.forEach((dish) => expect(dish.mealType).toBe('snack'));
+
+        // Cleanup
+        await cleanup(entry.entry_id);
+      },
+      30000,
+    );
+  });
+
+  describe('meal templates', () => {
+    it(
+      'saves a confirmed entry as a template and logs it as a confirmed entry',
+      async () => {
+        const triggerMap = await getTriggerIds(['caffeine', 'dairy', 'gluten']);
+
+        const entry = await createFoodEntry(Date.now() - 60000, {
+          raw_entry_text: 'Chocolate Croissant and Matcha Latte',
+        });
+        const [firstDish, secondDish] = entry.dishes;
+        await confirmFoodEntry(entry.entry_id, {
+          confirmed_dishes: [
+            {
+              dish_event_id: firstDish.dish_event_id,
+              dish_id: firstDish.dish_id,
+              final_dish_name: firstDish.dish_name,
+              trigger_ids: [triggerMap.get('gluten')!],
+            },
+            {
+              dish_event_id: secondDish.dish_event_id,
+              dish_id: secondDish.dish_id,
+              final_dish_name: secondDish.dish_name,
+              trigger_ids: [triggerMap.get('caffeine')!, triggerMap.get('dairy')!],
+            },
+          ],
+          occurred_at: Date.now() - 60000,
+        });
+
+        const templateId = await saveFoodEntryAsTemplate(entry.entry_id, 'Weekday breakfast');
+
+        const templates = await getMealTemplatesForUser();
+        const template = templates.find((t) => t.id === templateId);
+        expect(template?.templateName).toBe('Weekday breakfast');
+        expect(template?.dishes.map((d) => d.dishId)).toEqual([
+          firstDish.dish_id,
+          secondDish.dish_id,
+        ]);
+
+        await expect(saveFoodEntryAsTemplate(entry.entry_id, 'Weekday breakfast')).rejects.toThrow(
+          'already exists',
+        );
+
+        const extractDishes = vi.spyOn(llmService, 'llmExtractDishes');
+        const occurredAt = Date.now();
+        const loggedEntry = await logMealTemplate(template!, occurredAt);
+
+        expect(extractDishes).not.toHaveBeenCalled();
+        expect(loggedEntry.meal_type).toBe('breakfast');
+        expect(loggedEntry.dishes.map((d) => d.dish_id)).toEqual([
+          firstDish.dish_id,
+          secondDish.dish_id,
+        ]);
+
+        // Verify database state using admin client (verification only)
+        const { data: dishEvents } = await adminClient
+          .from('dish_events')
+          .select('id, dish_id, confirmed_by_user, occurred_at')
+          .eq('raw_entry_id', loggedEntry.entry_id);
+        expect(dishEvents).toHaveLength(2);
+        dishEvents?.forEach((event) => {
+          expect(event.confirmed_by_user).toBe(true);
+          expect(new Date(event.occurred_at).getTime()).toBe(occurredAt);
+        });
+
+        const { data: dishTriggers } = await adminClient
+          .from('dish_triggers')
+          .select('dish_id, trigger_id')
+          .in('dish_event_id', dishEvents!.map((event) => event.id));
+        expect(dishTriggers).toHaveLength(3);
+        expect(
+          dishTriggers?.filter((t) => t.dish_id === secondDish.dish_id).map((t) => t.trigger_id).sort(),
+        ).toEqual([triggerMap.get('caffeine')!, triggerMap.get('dairy')!].sort());
+
+        // Cleanup
+        await adminClient.from('meal_template').delete().eq('id', templateId);
+        await cleanup(entry.entry_id);
+        await cleanup(loggedEntry.entry_id);
+      },
+      30000,
+    );
+  });
+
+  /**
+   * Writes go through the create_food_entry / confirm_food_entry RPCs, which run in a
+   * single database transaction. A failure part-way through must not leave partial rows.
+   */
+  describe('transactions', () => {
+    it(
+      'leaves no rows behind when entry creation fails part-way',
+      async () => {
+        const rawEntryText = `Atomic create failure ${Date.now()}`;
+
+        // The second dish has no name, so its dish insert violates a not-null constraint
+        // after the raw entry and the first dish have already been written
+        await expect(
+          createFoodEntryTransaction({
+            rawEntryText,
+            occurredAt: Date.now(),
+            modelVersion: 'test',
+            promptVersion: 'test',
+            promptVariant: null,
+            mealType: null,
+            dishes: [
+              {
+                dish_fragment_text: 'Atomic Toast',
+                dish_name_suggestion: 'Atomic Toast',
+                normalized_dish_name: 'atomic toast',
+                quantity: null,
+                unit: null,
+                portion_size: null,
+                trigger_names: ['gluten'],
+                ingredients: [],
+              },
+              {
+                dish_fragment_text: 'mystery',
+                dish_name_suggestion: null as unknown as string,
+                normalized_dish_name: null as unknown as string,
+                quantity: null,
+                unit: null,
+                portion_size: null,
+                trigger_names: [],
+                ingredients: [],
+              },
+            ],
+          }),
+        ).rejects.toThrow();
+
+        // Verify nothing was persisted using admin client (verification only)
+        const { data: rawEntries } = await adminClient
+          .from('raw_entry')
+          .select('id')
+          .eq('user_id', authenticatedUserId)
+          .eq('raw_entry_text', rawEntryText);
+
+        expect(rawEntries).toHaveLength(0);
+
+        const { data: dishes } = await adminClient
+          .from('dish')
+          .select('id')
+          .eq('user_id', authenticatedUserId)
+          .eq('normalized_dish_name', 'atomic toast');
+
+        expect(dishes).toHaveLength(0);
+      },
+      30000,
+    );
+
+    it(
+      'leaves the entry unchanged when confirmation fails part-way',
+      async () => {
+        const createResult = await createFoodEntry(Date.now(), {
+          raw_entry_text: 'Chocolate Croissant and Matcha Latte',
+        });
+
+        const [firstDish] = createResult.dishes;
+        const triggerMap = await getTriggerIds(['gluten', 'dairy']);
+
+        const { data: dishBefore } = await adminClient
+          .from('dish')
+          .select('dish_name')
+          .eq('id', firstDish.dish_id)
+          .single();
+
+        // The first dish is valid; the second references a dish event that does not exist
+        await expect(
+          confirmFoodEntry(createResult.entry_id, {
+            confirmed_dishes: [
+              {
+                dish_event_id: firstDish.dish_event_id,
+                dish_id: firstDish.dish_id,
+                final_dish_name: 'Renamed Croissant',
+                trigger_ids: [triggerMap.get('gluten')!, triggerMap.get('dairy')!],
+              },
+              {
+                dish_event_id: '00000000-0000-0000-0000-000000000000',
+                dish_id: createResult.dishes[1].dish_id,
+                final_dish_name: 'Matcha Latte',
+                trigger_ids: [],
+              },
+            ],
+            occurred_at: Date.now(),
+          }),
+        ).rejects.toThrow('Dish event not found');
+
+        // Verify the first dish's changes were rolled back using admin client (verification only)
+        const { data: dishAfter } = await adminClient
+          .from('dish')
+          .select('dish_name')
+          .eq('id', firstDish.dish_id)
+          .single();
+
+        expect(dishAfter?.dish_name).toBe(dishBefore?.dish_name);
+
+        const { data: dishTriggers } = await adminClient
+          .from('dish_triggers')
+          .select('id')
+          .eq('dish_event_id', firstDish.dish_event_id);
+
+        expect(dishTriggers).toHaveLength(0);
+
+        const { data: dishEvents } = await adminClient
+          .from('dish_events')
+          .select('confirmed_by_user')
+          .eq('raw_entry_id', createResult.entry_id);
+
+        expect(dishEvents).toHaveLength(2);
+        expect(dishEvents?.every((de) => de.confirmed_by_user === false)).toBe(true);
+
+        // Cleanup
+        await cleanup(createResult.entry_id);
+      },
+      30000,
+    );
+  });
+
   describe('edge cases and data integrity', () => {
     it(
       'handles dish name normalization with filler words',
@@ -1270,6 +2299,47 @@ describe('foodEntryFlow integration (test database)', () => {
       },
       30000,
     );
+
+    it(
+      'adds and deletes dishes only when the entry is confirmed',
+      async () => {
+        const result = await createFoodEntry(Date.now(), {
+          raw_entry_text: 'Pizza and garlic bread',
+        });
+        const [dishToKeep, ...dishesToDelete] = result.dishes;
+
+        const confirmed = await confirmFoodEntry(result.entry_id, {
+          confirmed_dishes: [
+            {
+              dish_event_id: dishToKeep.dish_event_id,
+              dish_id: dishToKeep.dish_id,
+              final_dish_name: dishToKeep.dish_name,
+              trigger_ids: [],
+            },
+            { dish_event_id: null, dish_id: null, final_dish_name: 'Side Salad', trigger_ids: [] },
+          ],
+          occurred_at: Date.now(),
+          deleted_dish_event_ids: dishesToDelete.map((d) => d.dish_event_id),
+        });
+
+        expect(confirmed.dishes.map((d) => d.dish_name)).toEqual([dishToKeep.dish_name, 'Side Salad']);
+
+        const { data: dishEvents } = await adminClient
+          .from('dish_events')
+          .select('id, confirmed_by_user, deleted_at')
+          .eq('raw_entry_id', result.entry_id);
+
+        expect(dishEvents?.filter((de) => de.deleted_at === null)).toEqual([
+          expect.objectContaining({ confirmed_by_user: true }),
+          expect.objectContaining({ confirmed_by_user: true }),
+        ]);
+        expect(dishEvents?.filter((de) => de.deleted_at !== null)).toHaveLength(dishesToDelete.length);
+
+        // Cleanup
+        await cleanup(result.entry_id);
+      },
+      30000,
+    );
   });
 
   /**
@@ -0,0 +1,279 @@
+import { createServer, IncomingMessage, Server } from 'http';
+import { createClient } from '@supabase/supabase-js';
+import { describe, expect, it, beforeAll, afterAll, beforeEach, afterEach } from 'vitest';
+import { createPredictionTrace, llmExtractDishes } from '@/data/llmService';
+import { createSupabaseFunctionEmbedder } from '@/lib/embeddings';
+import { createLLMCache, createMemoryCacheStore, setLLMCache } from '@/lib/llmCache';
+import { createSupabaseFunctionProvider, setLLMProvider } from '@/lib/llmProvider';
+import { getPredictTriggersPrompt, MODEL_VERSION, PROMPT_VERSION } from '@/lib/llmPrompts';
+import { supabase } from '@/lib/supabase';
+
+/**
+ * Integration tests for the llm Edge Function (supabase/functions/llm).
+ *
+ * The function runs under the local Supabase stack and calls a mock OpenAI server started by
+ * these tests, so no OpenAI key or network access is needed:
+ *
+ *   supabase start
+ *   supabase functions serve --env-file supabase/functions/test.env
+ *
+ * test.env points the function at the mock server on port 54390 of the host; set
+ * LLM_FUNCTION_MOCK_OPENAI_PORT (and OPENAI_BASE_URL in a copy of test.env) to use another.
+ * Set SUPABASE_TEST_URL, SUPABASE_TEST_ANON_KEY, SUPABASE_TEST_SECRET_KEY, and SUPABASE_TEST_USER_ID
+ * in your .env.local file for integration tests.
+ */
+const supabaseUrl = process.env.SUPABASE_TEST_URL;
+const supabaseAnonKey = process.env.SUPABASE_TEST_ANON_KEY;
+const supabaseSecretKey = process.env.SUPABASE_TEST_SECRET_KEY;
+const testUserId = process.env.SUPABASE_TEST_USER_ID;
+const mockOpenAIPort = Number(process.env.LLM_FUNCTION_MOCK_OPENAI_PORT ?? 54390);
+
+// Matches OPENAI_API_KEY and LLM_RATE_LIMIT_PER_DAY in supabase/functions/test.env
+const TEST_OPENAI_API_KEY = 'test-openai-key';
+const TEST_REQUESTS_PER_DAY = 100;
+
+interface ReceivedOpenAIRequest {
+  path: string;
+  authorization: string | undefined;
+  body: any;
+}
+
+const readBody = (req: IncomingMessage): Promise<string> =>
+  new Promise((resolve, reject) => {
+    let body = '';
+    req.on('data', (chunk) => (body += chunk));
+    req.on('end', () => resolve(body));
+    req.on('error', reject);
+  });
+
+describe('llm function integration (local Supabase stack)', () => {
+  if (!supabaseUrl || !supabaseAnonKey || !supabaseSecretKey) {
+    throw new Error(
+      'SUPABASE_TEST_URL, SUPABASE_TEST_ANON_KEY, or SUPABASE_TEST_SECRET_KEY are not set. These should point to a test Supabase instance, not production.',
+    );
+  }
+
+  if (!testUserId) {
+    throw new Error('SUPABASE_TEST_USER_ID is not set');
+  }
+
+  // Service role client for admin operations ONLY (setup/teardown/verification)
+  const adminClient = createClient(supabaseUrl, supabaseSecretKey, {
+    auth: { autoRefreshToken: false, persistSession: false },
+  });
+
+  let authenticatedUserId: string = testUserId;
+  let mockOpenAI: Server;
+  const openAIRequests: ReceivedOpenAIRequest[] = [];
+
+  // Answers chat completions with a single "Toast" dish (with gluten) and embeddings with
+  // one vector per input
+  const handleOpenAIRequest = async (req: IncomingMessage): Promise<unknown> => {
+    const body = JSON.parse(await readBody(req));
+    openAIRequests.push({ path: req.url ?? '', authorization: req.headers.authorization, body });
+
+    if (req.url === '/v1/embeddings') {
+      return {
+        data: body.input.map((_: string, index: number) => ({ index, embedding: [index, 1] })),
+      };
+    }
+    return {
+      choices: [
+        {
+          message: {
+            content: JSON.stringify({
+              dishes: [
+                { dish_fragment_text: 'toast', dish_name_suggestion: 'Toast', quantity: null, unit: null, portion_size: null },
+              ],
+              triggers: ['gluten'],
+            }),
+          },
+        },
+      ],
+    };
+  };
+
+  beforeAll(async () => {
+    mockOpenAI = createServer((req, res) => {
+      handleOpenAIRequest(req)
+        .then((body) => {
+          res.writeHead(200, { 'Content-Type': 'application/json' });
+          res.end(JSON.stringify(body));
+        })
+        .catch((error) => {
+          res.writeHead(500, { 'Content-Type': 'application/json' });
+          res.end(JSON.stringify({ error: String(error) }));
+        });
+    });
+    // On all interfaces, so the functions container can reach it
+    await new Promise<void>((resolve) => mockOpenAI.listen(mockOpenAIPort, '0.0.0.0', resolve));
+
+    // SETUP: Create/get test user using service role (admin operation)
+    const testUserEmail = `test-${testUserId}@example.com`;
+    const testUserPassword = 'test-password-123!';
+
+    const { data: userData, error: userError } = await adminClient.auth.admin.getUserById(testUserId);
+
+    let userEmail = testUserEmail;
+    let targetUserId = testUserId;
+
+    if (userError || !userData?.user) {
+      const { data: newUser, error: createError } = await adminClient.auth.admin.createUser({
+        email: userEmail,
+        email_confirm: true,
+        password: testUserPassword,
+        user_metadata: { test_user: true },
+      });
+
+      if (createError && createError.code !== 'email_exists') {
+        throw createError;
+      }
+
+      if (newUser?.user) {
+        targetUserId = newUser.user.id;
+      }
+    } else {
+      userEmail = userData.user.email || userEmail;
+      targetUserId = userData.user.id;
+    }
+
+    await adminClient.auth.admin.updateUserById(targetUserId, {
+      password: testUserPassword,
+    });
+
+    // AUTHENTICATE: The function is called with the signed-in user's JWT
+    const { data: sessionData, error: signInError } = await supabase.auth.signInWithPassword({
+      email: userEmail,
+      password: testUserPassword,
+    });
+
+    if (signInError || !sessionData?.session) {
+      throw signInError || new Error('Failed to sign in test user');
+    }
+
+    authenticatedUserId = sessionData.session.user.id;
+  });
+
+  afterAll(async () => {
+    await adminClient.from('llm_request_counts').delete().eq('user_id', authenticatedUserId);
+    await new Promise((resolve) => mockOpenAI.close(resolve));
+  });
+
+  const predictToastTriggers = {
+    operation: 'predict_triggers' as const,
+    dish_name: 'Toast',
+    fragment_text: 'toast',
+    custom_trigger_names: [],
+    prompt_version: PROMPT_VERSION,
+  };
+
+  // Each test starts under the rate limits and with nothing cached
+  beforeEach(async () => {
+    openAIRequests.length = 0;
+    await adminClient.from('llm_request_counts').delete().eq('user_id', authenticatedUserId);
+    setLLMCache(createLLMCache([createMemoryCacheStore()]));
+  });
+
+  afterEach(() => {
+    setLLMCache(null);
+    setLLMProvider(null);
+  });
+
+  it(
+    'builds the prompt for an operation and asks OpenAI with the key kept in the function',
+    async () => {
+      const content = await createSupabaseFunctionProvider().answer(predictToastTriggers);
+
+      expect(JSON.parse(content)).toEqual({ triggers: ['gluten'] });
+      expect(openAIRequests).toHaveLength(1);
+      expect(openAIRequests[0].path).toBe('/v1/chat/completions');
+      expect(openAIRequests[0].authorization).toBe(`Bearer ${TEST_OPENAI_API_KEY}`);
+      expect(openAIRequests[0].body).toMatchObject({
+        model: MODEL_VERSION,
+        messages: [{ role: 'user', content: getPredictTriggersPrompt('Toast', 'toast') }],
+        temperature: 0,
+      });
+    },
+    30000,
+  );
+
+  it(
+    'extracts dishes through the function',
+    async () => {
+      setLLMProvider(createSupabaseFunctionProvider());
+      const trace = createPredictionTrace();
+
+      const dishes = await llmExtractDishes('toast', undefined, trace);
+
+      expect(dishes.map((dish) => dish.dish_name_suggestion)).toEqual(['Toast']);
+      expect(trace.degraded).toBe(false);
+      expect([...trace.modelVersions]).toEqual([MODEL_VERSION]);
+      // Structured outputs are passed on to OpenAI
+      expect(openAIRequests[0].body.response_format.type).toBe('json_schema');
+    },
+    30000,
+  );
+
+  it(
+    'embeds texts through the function',
+    async () => {
+      const embeddings = await createSupabaseFunctionEmbedder().embed(['Toast', 'Tea']);
+
+      expect(embeddings).toEqual([
+        [0, 1],
+        [1, 1],
+      ]);
+      expect(openAIRequests[0].path).toBe('/v1/embeddings');
+    },
+    30000,
+  );
+
+  it(
+    'rejects callers without a user session',
+    async () => {
+      const response = await fetch(`${supabaseUrl}/functions/v1/llm`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          apikey: supabaseAnonKey,
+          Authorization: `Bearer ${supabaseAnonKey}`,
+        },
+        body: JSON.stringify(predictToastTriggers),
+      });
+
+      expect(response.status).toBe(401);
+      expect(openAIRequests).toHaveLength(0);
+    },
+    30000,
+  );
+
+  it(
+    'rate limits each user and counts requests in the database',
+    async () => {
+      await createSupabaseFunctionProvider().answer(predictToastTriggers);
+      const { data: counts } = await adminClient
+        .from('llm_request_counts')
+        .select('window_seconds, request_count')
+        .eq('user_id', authenticatedUserId)
+        .order('window_seconds');
+      expect(counts).toEqual([
+        { window_seconds: 60, request_count: 1 },
+        { window_seconds: 86400, request_count: 1 },
+      ]);
+
+      // Use up the rest of today's requests
+      await adminClient
+        .from('llm_request_counts')
+        .update({ request_count: TEST_REQUESTS_PER_DAY })
+        .eq('user_id', authenticatedUserId)
+        .eq('window_seconds', 86400);
+
+      await expect(createSupabaseFunctionProvider().answer(predictToastTriggers)).rejects.toMatchObject({
+        name: 'LLMRequestError',
+        status: 429,
+      });
+      expect(openAIRequests).toHaveLength(1);
+    },
+    30000,
+  );
+});
@@ -0,0 +1,196 @@
+/**
+ * Unit tests for correlationService.ts
+ *
+ * The correlation engine is a pure function, so most tests run against fixture
+ * meals and symptoms without touching Supabase. The user-facing wrapper is tested
+ * with mocked repository calls.
+ */
+
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import {
+  computeTriggerSymptomCorrelations,
+  getTriggerSymptomCorrelationsForUser,
+} from '@/data/correlationService';
+import * as foodEntryRepo from '@/data/foodEntryRepo';
+import * as symptomsRepo from '@/data/symptomsRepo';
+import * as utils from '@/data/utils';
+import { MealExposure, SymptomOccurrence } from '@/types/correlation';
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+const START = Date.UTC(2025, 0, 1, 8, 0, 0);
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+// One meal per day for `days` days; dairy on even days, gluten on every day
+const buildMeals = (days: number): MealExposure[] =>
+  Array.from({ length: days }, (_, day) => ({
+    rawEntryId: `raw-entry-${day}`,
+    occurredAt: START + day * DAY_MS,
+    triggerNames: day % 2 === 0 ? ['dairy', 'gluten'] : ['gluten'],
+  }));
+
+describe('correlationService', () => {
+  describe('computeTriggerSymptomCorrelations', () => {
+    it('ranks a trigger that is consistently followed by a symptom first', () => {
+      const meals = buildMeals(10);
+      // Bloating 2 hours after every dairy meal
+      const symptoms: SymptomOccurrence[] = meals
+        .filter((meal) => meal.triggerNames.includes('dairy'))
+        .map((meal) => ({ name: 'Bloating', occurredAt: meal.occurredAt + 2 * HOUR_MS }));
+
+      const result = computeTriggerSymptomCorrelations(meals, symptoms);
+
+      expect(result[0]).toMatchObject({
+        triggerName: 'dairy',
+        symptomName: 'Bloating',
+        exposureCount: 5,
+        exposedWithSymptomCount: 5,
+        baselineCount: 5,
+        baselineWithSymptomCount: 0,
+        exposedRate: 1,
+        baselineRate: 0,
+      });
+      expect(result[0].lagWindow.label).toBe('0-6h');
+      expect(result[0].relativeRisk).toBeGreaterThan(1);
+    });
+
+    it('assigns symptoms to the correct lag window', () => {
+      const meals = buildMeals(6);
+      // Nausea 10 hours after dairy meals: inside 6-24h, outside 0-6h
+      const symptoms: SymptomOccurrence[] = meals
+        .filter((meal) => meal.triggerNames.includes('dairy'))
+        .map((meal) => ({ name: 'Nausea', occurredAt: meal.occurredAt + 10 * HOUR_MS }));
+
+      const result = computeTriggerSymptomCorrelations(meals, symptoms);
+      const dairyNausea = result.filter(
+        (a) => a.triggerName === 'dairy' && a.symptomName === 'Nausea',
+      );
+
+      const byWindow = new Map(dairyNausea.map((a) => [a.lagWindow.label, a]));
+      expect(byWindow.get('0-6h')?.exposedWithSymptomCount).toBe(0);
+      expect(byWindow.get('6-24h')?.exposedWithSymptomCount).toBe(3);
+      // 10h after day N is also within 24-72h of day N-1 and N-2 meals
+      expect(byWindow.get('24-72h')?.exposedWithSymptomCount).toBeGreaterThan(0);
+    });
+
+    it('supports custom lag windows', () => {
+      const meals = buildMeals(4);
+      const symptoms: SymptomOccurrence[] = [
+        { name: 'Gas', occurredAt: meals[0].occurredAt + 30 * 60 * 1000 },
+      ];
+
+      const result = computeTriggerSymptomCorrelations(meals, symptoms, {
+        lagWindows: [{ label: '0-1h', startHours: 0, endHours: 1 }],
+        minExposures: 1,
+      });
+
+      expect(result.every((a) => a.lagWindow.label === '0-1h')).toBe(true);
+      const dairyGas = result.find((a) => a.triggerName === 'dairy' && a.symptomName === 'Gas');
+      expect(dairyGas?.exposedWithSymptomCount).toBe(1);
+    });
+
+    it('drops triggers with fewer exposures than minExposures', () => {
+      const meals = buildMeals(4); // dairy on 2 days, gluten on 4
+
+      const result = computeTriggerSymptomCorrelations(meals, [], { minExposures: 3 });
+
+      expect(result.some((a) => a.triggerName === 'dairy')).toBe(false);
+      expect(result.some((a) => a.triggerName === 'gluten')).toBe(true);
+    });
+
+    it('handles a trigger present in every meal (empty baseline)', () => {
+      const meals = buildMeals(4);
+      const symptoms: SymptomOccurrence[] = [
+        { name: 'Fatigue', occurredAt: meals[1].occurredAt + HOUR_MS },
+      ];
+
+      const result = computeTriggerSymptomCorrelations(meals, symptoms);
+      const glutenFatigue = result.find(
+        (a) => a.triggerName === 'gluten' && a.symptomName === 'Fatigue' && a.lagWindow.label === '0-6h',
+      );
+
+      expect(glutenFatigue?.baselineCount).toBe(0);
+      expect(glutenFatigue?.baselineRate).toBe(0);
+      expect(Number.isFinite(glutenFatigue?.relativeRisk)).toBe(true);
+    });
+
+    it('ignores trigger names that are not valid triggers', () => {
+      const meals: MealExposure[] = [
+        { rawEntryId: 'raw-entry-1', occurredAt: START, triggerNames: ['not_a_trigger'] },
+      ];
+
+      const result = computeTriggerSymptomCorrelations(meals, [], { minExposures: 1 });
+
+      expect(result).toEqual([]);
+    });
+
+    it('scores the given trigger names, including custom triggers', () => {
+      const meals: MealExposure[] = buildMeals(4).map((meal, day) => ({
+        ...meal,
+        triggerNames: day < 2 ? [...meal.triggerNames, 'Cilantro'] : meal.triggerNames,
+      }));
+
+      const result = computeTriggerSymptomCorrelations(meals, [], {
+        minExposures: 1,
+        triggerNames: ['Cilantro'],
+      });
+
+      expect(new Set(result.map((a) => a.triggerName))).toEqual(new Set(['Cilantro']));
+      expect(result[0].exposureCount).toBe(2);
+    });
+
+    it('throws on an invalid lag window', () => {
+      expect(() =>
+        computeTriggerSymptomCorrelations(buildMeals(1), [], {
+          lagWindows: [{ label: 'bad', startHours: 6, endHours: 6 }],
+        }),
+      ).toThrow('Invalid lag window: bad');
+    });
+  });
+
+  describe('getTriggerSymptomCorrelationsForUser', () => {
+    it('fetches meals and symptoms and computes associations', async () => {
+      vi.spyOn(utils, 'getAuthenticatedUserId').mockResolvedValue('test-user-123');
+      const meals = buildMeals(6);
+      const getMeals = vi.spyOn(foodEntryRepo, 'getConfirmedMealExposures').mockResolvedValue(meals);
+      vi.spyOn(foodEntryRepo, 'getCustomTriggers').mockResolvedValue([]);
+      vi.spyOn(symptomsRepo, 'listSymptomEntries').mockResolvedValue([
+        {
+          id: 'symptom-1',
+          name: 'Bloating',
+          severity: 'Mild',
+          occurredAt: meals[0].occurredAt + HOUR_MS,
+          deletedAt: null,
+        },
+      ]);
+
+      const result = await getTriggerSymptomCorrelationsForUser();
+
+      expect(getMeals).toHaveBeenCalledWith('test-user-123');
+      expect(result.length).toBeGreaterThan(0);
+      expect(result[0]).toMatchObject({ symptomName: 'Bloating', exposedWithSymptomCount: 1 });
+    });
+
+    it('includes the user\'s custom triggers', async () => {
+      vi.spyOn(utils, 'getAuthenticatedUserId').mockResolvedValue('test-user-123');
+      const meals = buildMeals(6).map((meal) => ({
+        ...meal,
+        triggerNames: [...meal.triggerNames, 'Carbonation'],
+      }));
+      vi.spyOn(foodEntryRepo, 'getConfirmedMealExposures').mockResolvedValue(meals);
+      const getCustomTriggers = vi.spyOn(foodEntryRepo, 'getCustomTriggers').mockResolvedValue([
+        { id: 'trigger-carbonation', triggerName: 'Carbonation', createdAt: START },
+      ]);
+      vi.spyOn(symptomsRepo, 'listSymptomEntries').mockResolvedValue([]);
+
+      const result = await getTriggerSymptomCorrelationsForUser();
+
+      expect(getCustomTriggers).toHaveBeenCalledWith('test-user-123');
+      expect(result.some((a) => a.triggerName === 'Carbonation')).toBe(true);
+      expect(result.some((a) => a.triggerName === 'gluten')).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,105 @@
+/**
+ * Unit tests for dishMatching.ts
+ *
+ * Uses the deterministic local embedder; the repository calls that store embeddings and search
+ * them in the database are mocked.
+ */
+
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { DEFAULT_SIMILARITY_THRESHOLD, findSimilarDishes } from '@/data/dishMatching';
+import * as foodEntryRepo from '@/data/foodEntryRepo';
+import { createLocalEmbedder, Embedder, setEmbedder } from '@/lib/embeddings';
+import { Dish } from '@/types/dish';
+
+const mockUser = { id: 'test-user-123' };
+
+const buildDish = (id: string, dishName: string): Dish => ({
+  id,
+  userId: mockUser.id,
+  dishName,
+  normalizedDishName: dishName.toLowerCase(),
+  dishEmbeddingId: null,
+  favoritedAt: null,
+  createdAt: Date.now(),
+});
+
+let embedder: Embedder;
+
+beforeEach(() => {
+  embedder = createLocalEmbedder();
+  setEmbedder(embedder);
+});
+
+afterEach(() => {
+  setEmbedder(null);
+  vi.restoreAllMocks();
+});
+
+describe('dishMatching', () => {
+  describe('findSimilarDishes', () => {
+    it('searches the database with the names\' embeddings and keys matches by name', async () => {
+      vi.spyOn(foodEntryRepo, 'getDishesMissingEmbedding').mockResolvedValue([]);
+      const save = vi.spyOn(foodEntryRepo, 'saveDishEmbeddings');
+      const match = vi.spyOn(foodEntryRepo, 'matchDishesByEmbedding').mockResolvedValue([
+        { queryIndex: 1, dish: buildDish('dish-1', 'Chocolate Croissant'), similarity: 0.9 },
+      ]);
+      const [, croissantsEmbedding] = await embedder.embed(['Ramen', 'chocolate croissants']);
+
+      const result = await findSimilarDishes(['Ramen', 'chocolate croissants']);
+
+      expect(match).toHaveBeenCalledWith(
+        embedder.model,
+        [expect.any(Array), croissantsEmbedding],
+        DEFAULT_SIMILARITY_THRESHOLD,
+      );
+      expect(result.size).toBe(1);
+      expect(result.get('chocolate croissants')).toEqual({
+        dish: expect.objectContaining({ id: 'dish-1' }),
+        similarity: 0.9,
+      });
+      // Nothing was missing an embedding
+      expect(save).not.toHaveBeenCalled();
+    });
+
+    it('embeds dishes that have no embedding yet in the same call and saves them', async () => {
+      const getMissing = vi
+        .spyOn(foodEntryRepo, 'getDishesMissingEmbedding')
+        .mockResolvedValue([buildDish('dish-1', 'Chocolate Croissant')]);
+      const save = vi.spyOn(foodEntryRepo, 'saveDishEmbeddings').mockResolvedValue();
+      const match = vi.spyOn(foodEntryRepo, 'matchDishesByEmbedding').mockResolvedValue([]);
+      const embed = vi.spyOn(embedder, 'embed');
+
+      await findSimilarDishes(['chocolate croissants']);
+
+      expect(getMissing).toHaveBeenCalledWith(embedder.model, 50);
+      expect(embed).toHaveBeenCalledTimes(1);
+      expect(embed).toHaveBeenCalledWith(['chocolate croissants', 'Chocolate Croissant']);
+      expect(save).toHaveBeenCalledWith(embedder.model, [
+        { dish_id: 'dish-1', embedding: expect.any(Array) },
+      ]);
+      // The saved embeddings are searched too, so they are saved first
+      expect(save.mock.invocationCallOrder[0]).toBeLessThan(match.mock.invocationCallOrder[0]);
+      expect(match.mock.calls[0][1]).toHaveLength(1);
+    });
+
+    it('does not call the database or embed anything when no names are given', async () => {
+      const getMissing = vi.spyOn(foodEntryRepo, 'getDishesMissingEmbedding');
+      const embed = vi.spyOn(embedder, 'embed');
+
+      const result = await findSimilarDishes([]);
+
+      expect(result.size).toBe(0);
+      expect(getMissing).not.toHaveBeenCalled();
+      expect(embed).not.toHaveBeenCalled();
+    });
+
+    it('returns no matches when embeddings are unavailable', async () => {
+      vi.spyOn(foodEntryRepo, 'getDishesMissingEmbedding').mockResolvedValue([]);
+      vi.spyOn(embedder, 'embed').mockRejectedValue(new Error('OpenAI API error'));
+
+      const result = await findSimilarDishes(['chocolate croissants']);
+
+      expect(result.size).toBe(0);
+    });
+  });
+});
@@ -0,0 +1,349 @@
+/**
+ * Unit tests for dishService.ts
+ *
+ * Repository calls are mocked; these tests cover how rename conflicts are detected,
+ * how the merge target is resolved from a dish name, how rejected matches are renamed, and how
+ * the dish library is built.
+ */
+
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import {
+  filterAndSortDishLibrary,
+  getDishDetail,
+  getDishLibraryForUser,
+  getDishNameConflict,
+  getDishTriggerProfiles,
+  getQuickLogDishes,
+  mergeDishIntoNamedDish,
+  rejectSimilarDishMatch,
+  setDishFavorite,
+  updateDishDefaultTriggers,
+} from '@/data/dishService';
+import * as foodEntryRepo from '@/data/foodEntryRepo';
+import * as utils from '@/data/utils';
+import { DatabaseError } from '@/data/utils';
+import { Dish, DishLibraryItem } from '@/types/dish';
+
+const mockUser = { id: 'test-user-123' };
+
+const buildDish = (id: string, dishName: string): Dish => ({
+  id,
+  userId: mockUser.id,
+  dishName,
+  normalizedDishName: dishName.toLowerCase(),
+  dishEmbeddingId: null,
+  favoritedAt: null,
+  createdAt: Date.now(),
+});
+
+const buildTrigger = (id: string, triggerName: string) => ({
+  id,
+  triggerName,
+  createdAt: Date.now(),
+});
+
+const buildLibraryItem = (
+  dishName: string,
+  timesEaten: number,
+  lastEatenAt: number | null,
+): DishLibraryItem => ({
+  dish: buildDish(dishName, dishName),
+  timesEaten,
+  lastEatenAt,
+  triggerProfile: { triggers: [], isDefault: false },
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe('dishService', () => {
+  describe('getDishNameConflict', () => {
+    it('returns the renamed dish event and the dish that has the name', () => {
+      const error = new DatabaseError(
+        'Cannot update dish name: a dish with normalized name "cafe latte" already exists',
+        'DN001',
+        '{"dish_event_id": "dish-event-1", "dish_id": "dish-2"}',
+      );
+
+      expect(getDishNameConflict(error)).toEqual({ dishEventId: 'dish-event-1', dishId: 'dish-2' });
+    });
+
+    it('returns null for other errors, whatever their message', () => {
+      expect(getDishNameConflict(new DatabaseError('Database error', 'P0001', null))).toBeNull();
+      expect(
+        getDishNameConflict(new Error('Cannot update dish name: a dish with normalized name "x" already exists')),
+      ).toBeNull();
+      expect(getDishNameConflict('DN001')).toBeNull();
+    });
+  });
+
+  describe('mergeDishIntoNamedDish', () => {
+    it('merges into the dish with the given name', async () => {
+      vi.spyOn(utils, 'getAuthenticatedUserId').mockResolvedValue(mockUser.id);
+      const findByName = vi
+        .spyOn(foodEntryRepo, 'findDishByNormalizedName')
+        .mockResolvedValue(buildDish('dish-2', 'Cafe Latte'));
+      const findByAlias = vi.spyOn(foodEntryRepo, 'findDishesByAliasNames');
+      const merge = vi
+        .spyOn(foodEntryRepo, 'mergeDishes')
+        .mockResolvedValue(buildDish('dish-2', 'Cafe Latte'));
+
+      const result = await mergeDishIntoNamedDish('dish-1', 'Cafe Latte ');
+
+      expect(findByName).toHaveBeenCalledWith(mockUser.id, 'cafe latte');
+      expect(findByAlias).not.toHaveBeenCalled();
+      expect(merge).toHaveBeenCalledWith('dish-1', 'dish-2');
+      expect(result.id).toBe('dish-2');
+    });
+
+    it('falls back to dish aliases when no dish has the name', async () => {
+      vi.spyOn(utils, 'getAuthenticatedUserId').mockResolvedValue(mockUser.id);
+      vi.spyOn(foodEntryRepo, 'findDishByNormalizedName').mockResolvedValue(null);
+      vi.spyOn(foodEntryRepo, 'findDishesByAliasNames').mockResolvedValue(
+        new Map([['latte', buildDish('dish-2', 'Cafe Latte')]]),
+      );
+      const merge = vi
+        .spyOn(foodEntryRepo, 'mergeDishes')
+        .mockResolvedValue(buildDish('dish-2', 'Cafe Latte'));
+
+      await mergeDishIntoNamedDish('dish-1', 'Latte');
+
+      expect(merge).toHaveBeenCalledWith('dish-1', 'dish-2');
+    });
+
+    it('throws when no dish has the name', async () => {
+      vi.spyOn(utils, 'getAuthenticatedUserId').mockResolvedValue(mockUser.id);
+      vi.spyOn(foodEntryRepo, 'findDishByNormalizedName').mockResolvedValue(null);
+      vi.spyOn(foodEntryRepo, 'findDishesByAliasNames').mockResolvedValue(new Map());
+      const merge = vi.spyOn(foodEntryRepo, 'mergeDishes');
+
+      await expect(mergeDishIntoNamedDish('dish-1', 'Latte')).rejects.toThrow(
+        'No dish found with name: Latte',
+      );
+      expect(merge).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('rejectSimilarDishMatch', () => {
+    it('moves the dish event to a dish with the suggested name', async () => {
+      const reject = vi
+        .spyOn(foodEntryRepo, 'rejectDishMatch')
+        .mockResolvedValue(buildDish('dish-3', 'Caffe Latte'));
+
+      const result = await rejectSimilarDishMatch('dish-event-1', 'Caffe Latte ');
+
+      expect(reject).toHaveBeenCalledWith('dish-event-1', 'Caffe Latte', 'caffe latte');
+      expect(result.id).toBe('dish-3');
+    });
+  });
+
+  describe('getDishTriggerProfiles', () => {
+    it('uses default triggers when set and the most recent confirmed triggers otherwise', async () => {
+      vi.spyOn(foodEntryRepo, 'getDefaultTriggersByDishIds').mockResolvedValue(
+        new Map([
+          ['dish-1', [buildTrigger('trigger-1', 'caffeine')]],
+          ['dish-2', []],
+        ]),
+      );
+      vi.spyOn(foodEntryRepo, 'getMostRecentConfirmedTriggersByDishIds').mockResolvedValue(
+        new Map([
+          ['dish-1', [buildTrigger('trigger-2', 'dairy')]],
+          ['dish-2', [buildTrigger('trigger-2', 'dairy')]],
+        ]),
+      );
+
+      const profiles = await getDishTriggerProfiles(['dish-1', 'dish-2', 'dish-3']);
+
+      expect(profiles.get('dish-1')).toEqual({
+        triggers: [expect.objectContaining({ triggerName: 'caffeine' })],
+        isDefault: true,
+      });
+      expect(profiles.get('dish-2')).toEqual({
+        triggers: [expect.objectContaining({ triggerName: 'dairy' })],
+        isDefault: false,
+      });
+      expect(profiles.get('dish-3')).toEqual({ triggers: [], isDefault: false });
+    });
+  });
+
+  describe('getDishLibraryForUser', () => {
+    it('counts confirmed meals and finds the last time each dish was eaten', async () => {
+      vi.spyOn(utils, 'getAuthenticatedUserId').mockResolvedValue(mockUser.id);
+      vi.spyOn(foodEntryRepo, 'getDishesForUser').mockResolvedValue([
+        buildDish('dish-1', 'Cafe Latte'),
+        buildDish('dish-2', 'Ramen'),
+      ]);
+      vi.spyOn(foodEntryRepo, 'getConfirmedDishEventTimes').mockResolvedValue([
+        { dishId: 'dish-1', occurredAt: 1000 },
+        { dishId: 'dish-1', occurredAt: 3000 },
+        { dishId: 'dish-1', occurredAt: 2000 },
+      ]);
+      vi.spyOn(foodEntryRepo, 'getDefaultTriggersByDishIds').mockResolvedValue(new Map());
+      vi.spyOn(foodEntryRepo, 'getMostRecentConfirmedTriggersByDishIds').mockResolvedValue(
+        new Map([['dish-1', [buildTrigger('trigger-1', 'caffeine')]]]),
+      );
+
+      const library = await getDishLibraryForUser();
+
+      expect(library).toEqual([
+        {
+          dish: expect.objectContaining({ id: 'dish-1' }),
+          timesEaten: 3,
+          lastEatenAt: 3000,
+          triggerProfile: {
+            triggers: [expect.objectContaining({ triggerName: 'caffeine' })],
+            isDefault: false,
+          },
+        },
+        {
+          dish: expect.objectContaining({ id: 'dish-2' }),
+          timesEaten: 0,
+          lastEatenAt: null,
+          triggerProfile: { triggers: [], isDefault: false },
+        },
+      ]);
+    });
+  });
+
+  describe('filterAndSortDishLibrary', () => {
+    const items = [
+      buildLibraryItem('Ramen', 2, 1000),
+      buildLibraryItem('Cafe Latte', 5, 500),
+      buildLibraryItem('Matcha Latte', 2, null),
+    ];
+
+    const names = (result: DishLibraryItem[]) => result.map((item) => item.dish.dishName);
+
+    it('filters by a case-insensitive search on the dish name', () => {
+      expect(names(filterAndSortDishLibrary(items, ' LATTE ', 'name'))).toEqual([
+        'Cafe Latte',
+        'Matcha Latte',
+      ]);
+    });
+
+    it('sorts by name, times eaten or last eaten', () => {
+      expect(names(filterAndSortDishLibrary(items, '', 'name'))).toEqual([
+        'Cafe Latte',
+        'Matcha Latte',
+        'Ramen',
+      ]);
+      expect(names(filterAndSortDishLibrary(items, '', 'timesEaten'))).toEqual([
+        'Cafe Latte',
+        'Matcha Latte',
+        'Ramen',
+      ]);
+      expect(names(filterAndSortDishLibrary(items, '', 'lastEaten'))).toEqual([
+        'Ramen',
+        'Cafe Latte',
+        'Matcha Latte',
+      ]);
+    });
+  });
+
+  describe('getDishDetail', () => {
+    it('returns the dish with its history, newest first', async () => {
+      vi.spyOn(foodEntryRepo, 'getDishesByIds').mockResolvedValue([buildDish('dish-1', 'Ramen')]);
+      vi.spyOn(foodEntryRepo, 'getDishHistory').mockResolvedValue([
+        {
+          dishEventId: 'event-2',
+          rawEntryId: 'raw-2',
+          rawEntryText: 'ramen again',
+          occurredAt: 2000,
+          triggers: [buildTrigger('trigger-1', 'gluten')],
+        },
+        {
+          dishEventId: 'event-1',
+          rawEntryId: 'raw-1',
+          rawEntryText: 'ramen',
+          occurredAt: 1000,
+          triggers: [],
+        },
+      ]);
+      vi.spyOn(foodEntryRepo, 'getDefaultTriggersByDishIds').mockResolvedValue(new Map());
+      vi.spyOn(foodEntryRepo, 'getMostRecentConfirmedTriggersByDishIds').mockResolvedValue(new Map());
+
+      const detail = await getDishDetail('dish-1');
+
+      expect(detail.timesEaten).toBe(2);
+      expect(detail.lastEatenAt).toBe(2000);
+      expect(detail.history.map((entry) => entry.dishEventId)).toEqual(['event-2', 'event-1']);
+    });
+
+    it('throws when the dish does not exist', async () => {
+      vi.spyOn(foodEntryRepo, 'getDishesByIds').mockResolvedValue([]);
+      vi.spyOn(foodEntryRepo, 'getDishHistory').mockResolvedValue([]);
+      vi.spyOn(foodEntryRepo, 'getDefaultTriggersByDishIds').mockResolvedValue(new Map());
+      vi.spyOn(foodEntryRepo, 'getMostRecentConfirmedTriggersByDishIds').mockResolvedValue(new Map());
+
+      await expect(getDishDetail('dish-1')).rejects.toThrow('Dish not found: dish-1');
+    });
+  });
+
+  describe('updateDishDefaultTriggers', () => {
+    it('replaces the default triggers of the dish', async () => {
+      const setDefaults = vi.spyOn(foodEntryRepo, 'setDishDefaultTriggers').mockResolvedValue();
+
+      await updateDishDefaultTriggers('dish-1', ['trigger-1', 'trigger-2']);
+
+      expect(setDefaults).toHaveBeenCalledWith('dish-1', ['trigger-1', 'trigger-2']);
+    });
+  });
+
+  describe('setDishFavorite', () => {
+    it('sets the favorite timestamp, or clears it', async () => {
+      const update = vi
+        .spyOn(foodEntryRepo, 'updateDish')
+        .mockResolvedValue(buildDish('dish-1', 'Cafe Latte'));
+
+      await setDishFavorite('dish-1', true);
+      await setDishFavorite('dish-1', false);
+
+      expect(update).toHaveBeenNthCalledWith(1, 'dish-1', { favoritedAt: expect.any(Number) });
+      expect(update).toHaveBeenNthCalledWith(2, 'dish-1', { favoritedAt: null });
+    });
+  });
+
+  describe('getQuickLogDishes', () => {
+    it('returns favorites by name and other eaten dishes by most recent', async () => {
+      vi.spyOn(utils, 'getAuthenticatedUserId').mockResolvedValue(mockUser.id);
+      vi.spyOn(foodEntryRepo, 'getDishesForUser').mockResolvedValue([
+        { ...buildDish('dish-1', 'Ramen'), favoritedAt: Date.now() },
+        { ...buildDish('dish-2', 'Cafe Latte'), favoritedAt: Date.now() },
+        buildDish('dish-3', 'Bagel'),
+        buildDish('dish-4', 'Muffin'),
+        buildDish('dish-5', 'Never Eaten'),
+      ]);
+      vi.spyOn(foodEntryRepo, 'getConfirmedDishEventTimes').mockResolvedValue([
+        { dishId: 'dish-1', occurredAt: 5000 },
+        { dishId: 'dish-3', occurredAt: 1000 },
+        { dishId: 'dish-4', occurredAt: 2000 },
+      ]);
+      vi.spyOn(foodEntryRepo, 'getDefaultTriggersByDishIds').mockResolvedValue(new Map());
+      vi.spyOn(foodEntryRepo, 'getMostRecentConfirmedTriggersByDishIds').mockResolvedValue(new Map());
+
+      const { favorites, recent } = await getQuickLogDishes();
+
+      expect(favorites.map((item) => item.dish.dishName)).toEqual(['Cafe Latte', 'Ramen']);
+      expect(recent.map((item) => item.dish.dishName)).toEqual(['Muffin', 'Bagel']);
+    });
+
+    it('limits the number of recent dishes', async () => {
+      vi.spyOn(utils, 'getAuthenticatedUserId').mockResolvedValue(mockUser.id);
+      vi.spyOn(foodEntryRepo, 'getDishesForUser').mockResolvedValue([
+        buildDish('dish-1', 'Bagel'),
+        buildDish('dish-2', 'Muffin'),
+      ]);
+      vi.spyOn(foodEntryRepo, 'getConfirmedDishEventTimes').mockResolvedValue([
+        { dishId: 'dish-1', occurredAt: 1000 },
+        { dishId: 'dish-2', occurredAt: 2000 },
+      ]);
+      vi.spyOn(foodEntryRepo, 'getDefaultTriggersByDishIds').mockResolvedValue(new Map());
+      vi.spyOn(foodEntryRepo, 'getMostRecentConfirmedTriggersByDishIds').mockResolvedValue(new Map());
+
+      const { recent } = await getQuickLogDishes(1);
+
+      expect(recent.map((item) => item.dish.dishName)).toEqual(['Muffin']);
+    });
+  });
+});
@@ -0,0 +1,296 @@
+/**
+ * Unit tests for evaluationService.ts
+ *
+ * Prediction accuracy is computed by a pure function, so most tests run against fixture
+ * dish events. The user-facing wrapper is tested with mocked repository calls.
+ */
+
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { SupabaseClient } from '@supabase/supabase-js';
+import {
+  comparePromptVariants,
+  computePredictionAccuracy,
+  countPromptVariantEdits,
+  getPredictionAccuracyForUser,
+  getPromptVariantComparison,
+  isDishNameEdited,
+} from '@/data/evaluationService';
+import * as foodEntryRepo from '@/data/foodEntryRepo';
+import * as utils from '@/data/utils';
+import { PredictionEvalDishEvent, PromptVariantEditCounts } from '@/types/evaluation';
+import { PromptExperiment } from '@/lib/promptExperiments';
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+let nextId = 0;
+const dishEvent = (
+  overrides: Partial<PredictionEvalDishEvent> = {},
+): PredictionEvalDishEvent => ({
+  dishEventId: `event-${nextId++}`,
+  modelVersion: 'gpt-4o-mini',
+  promptVersion: 'v4',
+  promptVariant: null,
+  dishNameSuggestion: 'Salsa',
+  dishName: 'Salsa',
+  isNewDish: true,
+  predictedTriggerNames: [],
+  confirmedTriggerNames: [],
+  occurredAt: 1710000000000,
+  ...overrides,
+});
+
+describe('evaluationService', () => {
+  describe('isDishNameEdited', () => {
+    it('ignores case, spacing and filler words', () => {
+      expect(
+        isDishNameEdited(dishEvent({ dishNameSuggestion: 'Mac and Cheese', dishName: 'mac  cheese' })),
+      ).toBe(false);
+      expect(
+        isDishNameEdited(dishEvent({ dishNameSuggestion: 'Salsa', dishName: 'Pico de gallo' })),
+      ).toBe(true);
+    });
+  });
+
+  describe('computePredictionAccuracy', () => {
+    it('computes per-trigger and overall precision, recall and F1', () => {
+      const [accuracy] = computePredictionAccuracy([
+        dishEvent({ predictedTriggerNames: ['dairy', 'spicy'], confirmedTriggerNames: ['spicy'] }),
+        dishEvent({ predictedTriggerNames: ['dairy'], confirmedTriggerNames: ['dairy', 'gluten'] }),
+      ]);
+
+      expect(accuracy.triggers.map((metrics) => metrics.triggerName)).toEqual([
+        'dairy',
+        'gluten',
+        'spicy',
+      ]);
+      expect(accuracy.triggers[0]).toEqual({
+        triggerName: 'dairy',
+        truePositiveCount: 1,
+        falsePositiveCount: 1,
+        falseNegativeCount: 0,
+        precision: 0.5,
+        recall: 1,
+        f1: 2 / 3,
+      });
+      // Never predicted: precision is undefined, recall is 0
+      expect(accuracy.triggers[1]).toMatchObject({ precision: null, recall: 0, f1: 0 });
+      expect(accuracy.overall).toEqual({
+        truePositiveCount: 2,
+        falsePositiveCount: 1,
+        falseNegativeCount: 1,
+        precision: 2 / 3,
+        recall: 2 / 3,
+        f1: 2 / 3,
+      });
+    });
+
+    it('computes the dish name edit rate', () => {
+      const [accuracy] = computePredictionAccuracy([
+        dishEvent({ dishNameSuggestion: 'Salsa', dishName: 'Pico de gallo' }),
+        dishEvent({ dishNameSuggestion: 'Fish Tacos', dishName: 'fish tacos' }),
+        dishEvent({ dishNameSuggestion: 'Caesar Salad', dishName: 'Caesar Salad' }),
+        dishEvent({ dishNameSuggestion: 'Pasta', dishName: 'Spaghetti Carbonara' }),
+      ]);
+
+      expect(accuracy.dishEventCount).toBe(4);
+      expect(accuracy.dishNameEditCount).toBe(2);
+      expect(accuracy.dishNameEditRate).toBe(0.5);
+    });
+
+    it('groups by model and prompt version', () => {
+      const result = computePredictionAccuracy([
+        dishEvent({ promptVersion: 'v4', predictedTriggerNames: ['dairy'], confirmedTriggerNames: ['dairy'] }),
+        dishEvent({ promptVersion: 'v3', predictedTriggerNames: ['dairy'] }),
+        dishEvent({ modelVersion: 'gpt-4o', promptVersion: 'v4' }),
+      ]);
+
+      expect(result.map((accuracy) => [accuracy.modelVersion, accuracy.promptVersion])).toEqual([
+        ['gpt-4o', 'v4'],
+        ['gpt-4o-mini', 'v3'],
+        ['gpt-4o-mini', 'v4'],
+      ]);
+      expect(result[1].overall.precision).toBe(0);
+      expect(result[2].overall.precision).toBe(1);
+      // No triggers predicted or confirmed
+      expect(result[0].triggers).toEqual([]);
+      expect(result[0].overall).toMatchObject({ precision: null, recall: null, f1: null });
+    });
+
+    it('only scores the first event of each dish', () => {
+      const result = computePredictionAccuracy([
+        dishEvent({ predictedTriggerNames: ['dairy'], confirmedTriggerNames: [] }),
+        dishEvent({ isNewDish: false, predictedTriggerNames: ['dairy'], confirmedTriggerNames: ['dairy'] }),
+      ]);
+
+      expect(result).toHaveLength(1);
+      expect(result[0].dishEventCount).toBe(1);
+      expect(result[0].overall.truePositiveCount).toBe(0);
+    });
+
+    it('returns no results without dish events', () => {
+      expect(computePredictionAccuracy([])).toEqual([]);
+    });
+  });
+
+  describe('getPredictionAccuracyForUser', () => {
+    it('fetches the user\'s dish events and computes accuracy', async () => {
+      vi.spyOn(utils, 'getAuthenticatedUserId').mockResolvedValue('test-user-123');
+      const fetchSpy = vi
+        .spyOn(foodEntryRepo, 'getPredictionEvalDishEvents')
+        .mockResolvedValue([
+          dishEvent({ predictedTriggerNames: ['spicy'], confirmedTriggerNames: ['spicy'] }),
+        ]);
+
+      const result = await getPredictionAccuracyForUser();
+
+      expect(fetchSpy).toHaveBeenCalledWith('test-user-123');
+      expect(result).toHaveLength(1);
+      expect(result[0].overall.f1).toBe(1);
+    });
+  });
+
+  describe('countPromptVariantEdits', () => {
+    it('counts the edits and trigger outcomes of each variant\'s new dishes', () => {
+      const result = countPromptVariantEdits([
+        dishEvent({
+          promptVariant: 'v2-rollout/v2',
+          dishNameSuggestion: 'Mac and Cheese',
+          dishName: 'mac cheese',
+          predictedTriggerNames: ['dairy', 'gluten'],
+          confirmedTriggerNames: ['dairy'],
+        }),
+        dishEvent({
+          promptVariant: 'v2-rollout/v2',
+          dishNameSuggestion: 'Toast',
+          dishName: 'Sourdough',
+          predictedTriggerNames: ['gluten'],
+          confirmedTriggerNames: ['gluten', 'fructans'],
+        }),
+        dishEvent({ promptVariant: 'v2-rollout/control', predictedTriggerNames: ['onion'], confirmedTriggerNames: ['onion'] }),
+        // Later events of a dish and events outside an experiment are not counted
+        dishEvent({ promptVariant: 'v2-rollout/control', isNewDish: false, dishName: 'Other' }),
+        dishEvent({ promptVariant: null, dishName: 'Other' }),
+      ]);
+
+      expect(result).toEqual([
+        {
+          promptVariant: 'v2-rollout/control',
+          dishEventCount: 1,
+          dishNameEditCount: 0,
+          triggerEditCount: 0,
+          editCount: 0,
+          truePositiveCount: 1,
+          falsePositiveCount: 0,
+          falseNegativeCount: 0,
+        },
+        {
+          promptVariant: 'v2-rollout/v2',
+          dishEventCount: 2,
+          dishNameEditCount: 1,
+          triggerEditCount: 2,
+          editCount: 2,
+          truePositiveCount: 2,
+          falsePositiveCount: 1,
+          falseNegativeCount: 1,
+        },
+      ]);
+    });
+  });
+
+  describe('comparePromptVariants', () => {
+    const experiment: PromptExperiment = {
+      name: 'v2-rollout',
+      variants: [
+        { name: 'control', promptVersion: 'v4', weight: 50 },
+        { name: 'v2', promptVersion: 'v2', weight: 50 },
+        { name: 'v3', promptVersion: 'v3', weight: 0 },
+      ],
+    };
+
+    const editCounts = (
+      promptVariant: string,
+      overrides: Partial<PromptVariantEditCounts> = {},
+    ): PromptVariantEditCounts => ({
+      promptVariant,
+      dishEventCount: 0,
+      dishNameEditCount: 0,
+      triggerEditCount: 0,
+      editCount: 0,
+      truePositiveCount: 0,
+      falsePositiveCount: 0,
+      falseNegativeCount: 0,
+      ...overrides,
+    });
+
+    it('compares edit rates between variants, control first', () => {
+      const result = comparePromptVariants(experiment, [
+        editCounts('v2-rollout/v2', { dishEventCount: 2, dishNameEditCount: 1, editCount: 1 }),
+        editCounts('v2-rollout/control', {
+          dishEventCount: 4,
+          dishNameEditCount: 1,
+          triggerEditCount: 2,
+          editCount: 2,
+          truePositiveCount: 3,
+          falsePositiveCount: 1,
+          falseNegativeCount: 2,
+        }),
+      ]);
+
+      expect(result.map((comparison) => comparison.promptVariant)).toEqual([
+        'v2-rollout/control',
+        'v2-rollout/v2',
+        'v2-rollout/v3',
+      ]);
+      expect(result[0]).toMatchObject({
+        dishEventCount: 4,
+        dishNameEditCount: 1,
+        triggerEditCount: 2,
+        editCount: 2,
+        editRate: 0.5,
+        editRateChange: null,
+      });
+      expect(result[0].overall).toMatchObject({ precision: 0.75, recall: 0.6 });
+      expect(result[1]).toMatchObject({ dishEventCount: 2, editCount: 1, editRate: 0.5, editRateChange: 0 });
+      expect(result[2]).toMatchObject({ dishEventCount: 0, editRate: null, editRateChange: null });
+    });
+
+    it('ignores counts of other experiments', () => {
+      const [control] = comparePromptVariants(experiment, [
+        editCounts('other/control', { dishEventCount: 3, editCount: 3 }),
+        editCounts('v2-rollout/control', { dishEventCount: 1 }),
+      ]);
+
+      expect(control).toMatchObject({ dishEventCount: 1, editCount: 0, editRate: 0 });
+    });
+  });
+
+  describe('getPromptVariantComparison', () => {
+    it('fetches the dish events of the experiment\'s variants and compares them', async () => {
+      const experiment: PromptExperiment = {
+        name: 'v2-rollout',
+        variants: [
+          { name: 'control', promptVersion: 'v4', weight: 50 },
+          { name: 'v2', promptVersion: 'v2', weight: 50 },
+        ],
+      };
+      const fetchSpy = vi
+        .spyOn(foodEntryRepo, 'getPromptVariantEvalDishEvents')
+        .mockResolvedValue([dishEvent({ promptVariant: 'v2-rollout/v2' })]);
+      const client = {} as SupabaseClient;
+
+      const result = await getPromptVariantComparison(experiment, client);
+
+      expect(fetchSpy).toHaveBeenCalledWith(['v2-rollout/control', 'v2-rollout/v2'], client);
+      expect(result.map((comparison) => comparison.dishEventCount)).toEqual([0, 1]);
+    });
+
+    it('returns nothing when no experiment is running', async () => {
+      const fetchSpy = vi.spyOn(foodEntryRepo, 'getPromptVariantEvalDishEvents');
+
+      expect(await getPromptVariantComparison()).toEqual([]);
+      expect(fetchSpy).not.toHaveBeenCalled();
+    });
+  });
+});
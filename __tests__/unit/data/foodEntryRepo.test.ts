@@ -8,36 +8,70 @@
 
 import { afterEach, describe, expect, it, vi } from 'vitest';
 import {
+  clearPredictionBackfillProgress,
+  createCustomTrigger,
   createDish,
   createDishEvent,
   createDishTrigger,
   createPredictedDish,
   createPredictedDishTrigger,
+  confirmFoodEntryTransaction,
+  createFoodEntryTransaction,
   createRawFoodEntry,
   deleteDishTriggersForEvent,
   findDishByNormalizedName,
+  findDishesByAliasNames,
+  findDishesByNormalizedNames,
+  findIngredientsByNormalizedNames,
+  getConfirmedMealExposures,
+  getConfirmedDishEventTimes,
   getConfirmedTriggersByDishEventIds,
+  getCustomTriggers,
+  getDefaultTriggersByDishIds,
   getDishEventsByRawFoodEntryId,
+  getDishesForUser,
+  getDishesMissingEmbedding,
+  getDishHistory,
+  getIngredientsByDishEventIds,
+  getMostRecentConfirmedTriggersByDishIds,
+  getMostRecentIngredientsByDishIds,
+  getPendingRawFoodEntries,
   getPredictedTriggersByDishEventIds,
+  getPredictionBackfillCandidates,
+  getPredictionBackfillProgress,
+  getPredictionEvalDishEvents,
+  getPromptVariantEvalDishEvents,
   getTriggerById,
   getTriggersByNames,
+  matchDishesByEmbedding,
+  mergeDishes,
+  quickLogDishTransaction,
+  rejectDishMatch,
+  saveBackfilledPrediction,
+  saveDishEmbeddings,
+  savePredictionBackfillProgress,
+  setDishDefaultTriggers,
   updateDish,
   updateDishEventDeletedAt,
   updateDishEventConfirmation,
 } from '@/data/foodEntryRepo';
+import { DatabaseError } from '@/data/utils';
 import { supabase } from '@/lib/supabase';
 import {
   DishEventRow,
   DishRow,
+  CurrentDishEventPredictionRow,
   DishTriggerRow,
   PredictedDishRow,
   PredictedDishTriggerRow,
+  PredictionEvalDishEventRow,
   RawFoodEntryRow,
   TriggerRow,
 } from '@/types/supabase';
 
 // Store original Supabase methods to restore after each test
 const originalFrom = supabase.from;
+const originalRpc = supabase.rpc;
 const originalAuth = supabase.auth;
 
 // Mock user for authentication
@@ -56,6 +90,7 @@ const mockAuth = () => {
 // Clean up mocks after each test to ensure test isolation
 afterEach(() => {
   (supabase as any).from = originalFrom;
+  (supabase as any).rpc = originalRpc;
   (supabase as any).auth = originalAuth;
   vi.restoreAllMocks();
 });
@@ -72,6 +107,7 @@ describe('foodEntryRepo', () => {
         id: 'raw-entry-1',
         user_id: mockUser.id,
         raw_entry_text: 'Chocolate croissant and matcha latte',
+        meal_type: null,
         created_at: new Date().toISOString(),
       };
 
@@ -133,8 +169,12 @@ describe('foodEntryRepo', () => {
         raw_entry_id: 'raw-entry-1',
         dish_fragment_text: 'Chocolate Croissant',
         dish_name_suggestion: 'Chocolate Croissant',
+        quantity: null,
+        unit: null,
+        portion_size: null,
         model_version: 'v1-stub',
         prompt_version: 'v1-stub',
+        prompt_variant: null,
         created_at: new Date().toISOString(),
       };
 
@@ -147,8 +187,12 @@ describe('foodEntryRepo', () => {
         rawEntryId: 'raw-entry-1',
         dishFragmentText: 'Chocolate Croissant',
         dishNameSuggestion: 'Chocolate Croissant',
+        quantity: null,
+        unit: null,
+        portionSize: null,
         modelVersion: 'v1-stub',
         promptVersion: 'v1-stub',
+        promptVariant: null,
       });
 
       expect(insert).toHaveBeenCalled();
@@ -170,8 +214,12 @@ describe('foodEntryRepo', () => {
           rawEntryId: 'raw-entry-1',
           dishFragmentText: 'Test',
           dishNameSuggestion: 'Test',
+          quantity: null,
+          unit: null,
+          portionSize: null,
           modelVersion: 'v1',
           promptVersion: 'v1',
+          promptVariant: null,
         }),
       ).rejects.toThrow('insert failed');
     });
@@ -185,6 +233,7 @@ describe('foodEntryRepo', () => {
         dish_name: 'Chocolate Croissant',
         normalized_dish_name: 'chocolate croissant',
         dish_embedding_id: null,
+        favorited_at: null,
         created_at: new Date().toISOString(),
       };
 
@@ -198,6 +247,7 @@ describe('foodEntryRepo', () => {
         dishName: 'Chocolate Croissant',
         normalizedDishName: 'chocolate croissant',
         dishEmbeddingId: null,
+        favoritedAt: null,
       });
 
       expect(insert).toHaveBeenCalled();
@@ -220,6 +270,7 @@ describe('foodEntryRepo', () => {
           dishName: 'Test',
           normalizedDishName: 'test',
           dishEmbeddingId: null,
+          favoritedAt: null,
         }),
       ).rejects.toThrow('insert failed');
     });
@@ -237,6 +288,7 @@ describe('foodEntryRepo', () => {
         dish_name: 'Chocolate Croissant',
         normalized_dish_name: 'chocolate croissant',
         dish_embedding_id: null,
+        favorited_at: null,
         created_at: new Date().toISOString(),
       };
 
@@ -290,6 +342,251 @@ describe('foodEntryRepo', () => {
     });
   });
 
+  describe('findDishesByNormalizedNames', () => {
+    it('looks up all names in a single query', async () => {
+      const rows: DishRow[] = ['chocolate croissant', 'matcha latte'].map((name, i) => ({
+        id: `dish-${i}`,
+        user_id: mockUser.id,
+        dish_name: name,
+        normalized_dish_name: name,
+        dish_embedding_id: null,
+        favorited_at: null,
+        created_at: new Date().toISOString(),
+      }));
+
+      // Mock query chain: from('dish').select().eq('user_id').in('normalized_dish_name')
+      const inFn = vi.fn().mockReturnValue(Promise.resolve({ data: rows, error: null }));
+      const eq = vi.fn().mockReturnValue({ in: inFn });
+      const select = vi.fn().mockReturnValue({ eq });
+      const from = vi.fn().mockReturnValue({ select });
+      (supabase as any).from = from;
+
+      const result = await findDishesByNormalizedNames(mockUser.id, [
+        'chocolate croissant',
+        'matcha latte',
+      ]);
+
+      expect(from).toHaveBeenCalledTimes(1);
+      expect(eq).toHaveBeenCalledWith('user_id', mockUser.id);
+      expect(inFn).toHaveBeenCalledWith('normalized_dish_name', ['chocolate croissant', 'matcha latte']);
+      expect(result.map((d) => d.normalizedDishName)).toEqual(['chocolate croissant', 'matcha latte']);
+    });
+
+    it('returns an empty array without querying when no names are given', async () => {
+      const from = vi.fn();
+      (supabase as any).from = from;
+
+      const result = await findDishesByNormalizedNames(mockUser.id, []);
+
+      expect(result).toEqual([]);
+      expect(from).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('findDishesByAliasNames', () => {
+    it('maps each alias to the dish it was merged into', async () => {
+      const dish: DishRow = {
+        id: 'dish-1',
+        user_id: mockUser.id,
+        dish_name: 'Cafe Latte',
+        normalized_dish_name: 'cafe latte',
+        dish_embedding_id: null,
+        favorited_at: null,
+        created_at: new Date().toISOString(),
+      };
+
+      // Mock query chain: from('dish_alias').select().eq('user_id').in('normalized_alias_name')
+      const inFn = vi.fn().mockReturnValue(
+        Promise.resolve({
+          data: [
+            { normalized_alias_name: 'latte', dish },
+            { normalized_alias_name: 'oat milk latte', dish },
+          ],
+          error: null,
+        }),
+      );
+      const eq = vi.fn().mockReturnValue({ in: inFn });
+      const select = vi.fn().mockReturnValue({ eq });
+      const from = vi.fn().mockReturnValue({ select });
+      (supabase as any).from = from;
+
+      const result = await findDishesByAliasNames(mockUser.id, ['latte', 'oat milk latte', 'mocha']);
+
+      expect(from).toHaveBeenCalledWith('dish_alias');
+      expect(inFn).toHaveBeenCalledWith('normalized_alias_name', ['latte', 'oat milk latte', 'mocha']);
+      expect(result.size).toBe(2);
+      expect(result.get('latte')?.id).toBe('dish-1');
+      expect(result.get('oat milk latte')?.dishName).toBe('Cafe Latte');
+    });
+
+    it('returns an empty map without querying when no names are given', async () => {
+      const from = vi.fn();
+      (supabase as any).from = from;
+
+      const result = await findDishesByAliasNames(mockUser.id, []);
+
+      expect(result.size).toBe(0);
+      expect(from).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('mergeDishes', () => {
+    it('calls merge_dishes and returns the surviving dish', async () => {
+      const target: DishRow = {
+        id: 'dish-2',
+        user_id: mockUser.id,
+        dish_name: 'Cafe Latte',
+        normalized_dish_name: 'cafe latte',
+        dish_embedding_id: null,
+        favorited_at: null,
+        created_at: new Date().toISOString(),
+      };
+      const rpc = vi.fn().mockResolvedValue({ data: target, error: null });
+      (supabase as any).rpc = rpc;
+
+      const result = await mergeDishes('dish-1', 'dish-2');
+
+      expect(rpc).toHaveBeenCalledWith('merge_dishes', {
+        p_source_dish_id: 'dish-1',
+        p_target_dish_id: 'dish-2',
+      });
+      expect(result.id).toBe('dish-2');
+      expect(result.normalizedDishName).toBe('cafe latte');
+    });
+
+    it('throws when the merge fails', async () => {
+      (supabase as any).rpc = vi.fn().mockResolvedValue({
+        data: null,
+        error: { message: 'Cannot merge a dish into itself' },
+      });
+
+      await expect(mergeDishes('dish-1', 'dish-1')).rejects.toThrow('Cannot merge a dish into itself');
+    });
+  });
+
+  describe('rejectDishMatch', () => {
+    it('calls reject_dish_match and returns the dish the event now belongs to', async () => {
+      const dish: DishRow = {
+        id: 'dish-3',
+        user_id: mockUser.id,
+        dish_name: 'Caffe Latte',
+        normalized_dish_name: 'caffe latte',
+        dish_embedding_id: null,
+        favorited_at: null,
+        created_at: new Date().toISOString(),
+      };
+      const rpc = vi.fn().mockResolvedValue({ data: dish, error: null });
+      (supabase as any).rpc = rpc;
+
+      const result = await rejectDishMatch('dish-event-1', 'Caffe Latte', 'caffe latte');
+
+      expect(rpc).toHaveBeenCalledWith('reject_dish_match', {
+        p_dish_event_id: 'dish-event-1',
+        p_dish_name: 'Caffe Latte',
+        p_normalized_dish_name: 'caffe latte',
+      });
+      expect(result.id).toBe('dish-3');
+    });
+  });
+
+  describe('getDishesMissingEmbedding', () => {
+    it('returns the dishes from get_dishes_missing_embedding', async () => {
+      const rpc = vi.fn().mockResolvedValue({
+        data: [
+          {
+            id: 'dish-1',
+            user_id: mockUser.id,
+            dish_name: 'Latte',
+            normalized_dish_name: 'latte',
+            dish_embedding_id: null,
+            favorited_at: null,
+            created_at: new Date().toISOString(),
+          },
+        ],
+        error: null,
+      });
+      (supabase as any).rpc = rpc;
+
+      const result = await getDishesMissingEmbedding('local-trigram-v1-256', 50);
+
+      expect(rpc).toHaveBeenCalledWith('get_dishes_missing_embedding', {
+        p_model: 'local-trigram-v1-256',
+        p_limit: 50,
+      });
+      expect(result.map((dish) => dish.dishName)).toEqual(['Latte']);
+    });
+  });
+
+  describe('matchDishesByEmbedding', () => {
+    it('returns the nearest dishes per query embedding from match_dishes', async () => {
+      const rpc = vi.fn().mockResolvedValue({
+        data: [
+          {
+            query_index: 1,
+            similarity: 0.92,
+            id: 'dish-1',
+            user_id: mockUser.id,
+            dish_name: 'Latte',
+            normalized_dish_name: 'latte',
+            dish_embedding_id: 'embedding-1',
+            favorited_at: null,
+            created_at: new Date().toISOString(),
+          },
+        ],
+        error: null,
+      });
+      (supabase as any).rpc = rpc;
+
+      const result = await matchDishesByEmbedding('local-trigram-v1-256', [[0.1, 0.2], [0.3, 0.4]], 0.75);
+
+      expect(rpc).toHaveBeenCalledWith('match_dishes', {
+        p_model: 'local-trigram-v1-256',
+        p_embeddings: [[0.1, 0.2], [0.3, 0.4]],
+        p_threshold: 0.75,
+        p_match_count: 1,
+      });
+      expect(result).toEqual([
+        { queryIndex: 1, dish: expect.objectContaining({ id: 'dish-1', dishName: 'Latte' }), similarity: 0.92 },
+      ]);
+    });
+
+    it('does not call the database without query embeddings', async () => {
+      const rpc = vi.fn();
+      (supabase as any).rpc = rpc;
+
+      expect(await matchDishesByEmbedding('local-trigram-v1-256', [], 0.75)).toEqual([]);
+      expect(rpc).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('saveDishEmbeddings', () => {
+    it('saves all embeddings in one save_dish_embeddings call', async () => {
+      const rpc = vi.fn().mockResolvedValue({ data: null, error: null });
+      (supabase as any).rpc = rpc;
+
+      const embeddings = [
+        { dish_id: 'dish-1', embedding: [0.1, 0.2] },
+        { dish_id: 'dish-2', embedding: [0.3, 0.4] },
+      ];
+      await saveDishEmbeddings('local-trigram-v1-256', embeddings);
+
+      expect(rpc).toHaveBeenCalledTimes(1);
+      expect(rpc).toHaveBeenCalledWith('save_dish_embeddings', {
+        p_model: 'local-trigram-v1-256',
+        p_embeddings: embeddings,
+      });
+    });
+
+    it('does nothing for an empty list', async () => {
+      const rpc = vi.fn();
+      (supabase as any).rpc = rpc;
+
+      await saveDishEmbeddings('local-trigram-v1-256', []);
+
+      expect(rpc).not.toHaveBeenCalled();
+    });
+  });
+
   describe('updateDish', () => {
     it('updates dish name and returns mapped data', async () => {
       const row: DishRow = {
@@ -298,6 +595,7 @@ describe('foodEntryRepo', () => {
         dish_name: 'Updated Name',
         normalized_dish_name: 'updated name',
         dish_embedding_id: null,
+        favorited_at: null,
         created_at: new Date().toISOString(),
       };
 
@@ -325,6 +623,7 @@ describe('foodEntryRepo', () => {
         dish_name: 'Updated Name',
         normalized_dish_name: 'chocolate croissant',
         dish_embedding_id: null,
+        favorited_at: null,
         created_at: new Date().toISOString(),
       };
 
@@ -339,6 +638,32 @@ describe('foodEntryRepo', () => {
       expect(update).toHaveBeenCalledWith({ dish_name: 'Updated Name' });
     });
 
+    it('sets and clears the favorite timestamp', async () => {
+      const favoritedAt = '2025-01-01T08:00:00.000Z';
+      const row: DishRow = {
+        id: 'dish-1',
+        user_id: mockUser.id,
+        dish_name: 'Cafe Latte',
+        normalized_dish_name: 'cafe latte',
+        dish_embedding_id: null,
+        favorited_at: favoritedAt,
+        created_at: new Date().toISOString(),
+      };
+
+      const single = vi.fn().mockReturnValue(Promise.resolve({ data: row, error: null }));
+      const select = vi.fn().mockReturnValue({ single });
+      const eq = vi.fn().mockReturnValue({ select });
+      const update = vi.fn().mockReturnValue({ eq });
+      (supabase as any).from = vi.fn().mockReturnValue({ update });
+
+      const result = await updateDish('dish-1', { favoritedAt: Date.parse(favoritedAt) });
+      await updateDish('dish-1', { favoritedAt: null });
+
+      expect(update).toHaveBeenNthCalledWith(1, { favorited_at: favoritedAt });
+      expect(update).toHaveBeenNthCalledWith(2, { favorited_at: null });
+      expect(result.favoritedAt).toBe(Date.parse(favoritedAt));
+    });
+
     it('throws error when update fails', async () => {
       const single = vi.fn().mockReturnValue(
         Promise.resolve({ data: null, error: { message: 'update failed' } }),
@@ -361,6 +686,9 @@ describe('foodEntryRepo', () => {
         predicted_dish_id: 'predicted-dish-1',
         raw_entry_id: 'raw-entry-1',
         confirmed_by_user: false,
+        quantity: null,
+        unit: null,
+        portion_size: null,
         deleted_at: null,
         created_at: new Date().toISOString(),
         occurred_at: new Date().toISOString(),
@@ -377,6 +705,9 @@ describe('foodEntryRepo', () => {
         predictedDishId: 'predicted-dish-1',
         rawEntryId: 'raw-entry-1',
         confirmedByUser: false,
+        quantity: null,
+        unit: null,
+        portionSize: null,
         deletedAt: null,
         occurredAt: Date.now(),
       });
@@ -402,6 +733,9 @@ describe('foodEntryRepo', () => {
           predictedDishId: null,
           rawEntryId: 'raw-entry-1',
           confirmedByUser: false,
+          quantity: null,
+          unit: null,
+          portionSize: null,
           deletedAt: null,
           occurredAt: Date.now(),
         }),
@@ -509,6 +843,65 @@ describe('foodEntryRepo', () => {
     });
   });
 
+  describe('custom triggers', () => {
+    it('getCustomTriggers returns only the user\'s triggers, by name', async () => {
+      const rows: TriggerRow[] = [
+        {
+          id: 'trigger-1',
+          trigger_name: 'Cilantro',
+          user_id: mockUser.id,
+          created_at: new Date().toISOString(),
+        },
+      ];
+
+      const order = vi.fn().mockReturnValue(Promise.resolve({ data: rows, error: null }));
+      const eq = vi.fn().mockReturnValue({ order });
+      const select = vi.fn().mockReturnValue({ eq });
+      (supabase as any).from = vi.fn().mockReturnValue({ select });
+
+      const result = await getCustomTriggers(mockUser.id);
+
+      expect(eq).toHaveBeenCalledWith('user_id', mockUser.id);
+      expect(order).toHaveBeenCalledWith('trigger_name', { ascending: true });
+      expect(result).toEqual([
+        { id: 'trigger-1', triggerName: 'Cilantro', createdAt: expect.any(Number) },
+      ]);
+    });
+
+    it('createCustomTrigger inserts a trigger owned by the user', async () => {
+      const row: TriggerRow = {
+        id: 'trigger-2',
+        trigger_name: 'Carbonation',
+        user_id: mockUser.id,
+        created_at: new Date().toISOString(),
+      };
+
+      const single = vi.fn().mockReturnValue(Promise.resolve({ data: row, error: null }));
+      const select = vi.fn().mockReturnValue({ single });
+      const insert = vi.fn().mockReturnValue({ select });
+      (supabase as any).from = vi.fn().mockReturnValue({ insert });
+
+      const result = await createCustomTrigger(mockUser.id, 'Carbonation');
+
+      expect(supabase.from).toHaveBeenCalledWith('triggers');
+      expect(insert).toHaveBeenCalledWith({ user_id: mockUser.id, trigger_name: 'Carbonation' });
+      expect(result.triggerName).toBe('Carbonation');
+    });
+
+    it('createCustomTrigger throws when the name is taken', async () => {
+      const single = vi.fn().mockReturnValue(
+        Promise.resolve({ data: null, error: { code: '23505', message: 'duplicate key value' } }),
+      );
+      const select = vi.fn().mockReturnValue({ single });
+      const insert = vi.fn().mockReturnValue({ select });
+      (supabase as any).from = vi.fn().mockReturnValue({ insert });
+
+      await expect(createCustomTrigger(mockUser.id, 'Carbonation')).rejects.toThrow(
+        'duplicate key value',
+      );
+    });
+  });
+
   describe('createPredictedDishTrigger', () => {
     it('creates a predicted dish trigger and returns mapped data', async () => {
       const row: PredictedDishTriggerRow = {
@@ -518,6 +911,7 @@ describe('foodEntryRepo', () => {
         trigger_id: 'trigger-1',
         model_version: 'v1-stub',
         prompt_version: 'v1-stub',
+        prompt_variant: null,
         created_at: new Date().toISOString(),
       };
 
@@ -532,6 +926,7 @@ describe('foodEntryRepo', () => {
         triggerId: 'trigger-1',
         modelVersion: 'v1-stub',
         promptVersion: 'v1-stub',
+        promptVariant: null,
       });
 
       expect(insert).toHaveBeenCalled();
@@ -555,6 +950,7 @@ describe('foodEntryRepo', () => {
           triggerId: 'trigger-1',
           modelVersion: 'v1',
           promptVersion: 'v1',
+          promptVariant: null,
         }),
       ).rejects.toThrow('insert failed');
     });
@@ -643,6 +1039,9 @@ describe('foodEntryRepo', () => {
           raw_entry_id: 'raw-entry-1',
           created_at: new Date().toISOString(),
           confirmed_by_user: true,
+          quantity: null,
+          unit: null,
+          portion_size: null,
           deleted_at: null,
           occurred_at: new Date().toISOString(),
         },
@@ -654,6 +1053,9 @@ describe('foodEntryRepo', () => {
           raw_entry_id: 'raw-entry-1',
           created_at: new Date().toISOString(),
           confirmed_by_user: true,
+          quantity: null,
+          unit: null,
+          portion_size: null,
           deleted_at: null,
           occurred_at: new Date().toISOString(),
         },
@@ -688,6 +1090,9 @@ describe('foodEntryRepo', () => {
           raw_entry_id: 'raw-entry-1',
           created_at: new Date().toISOString(),
           confirmed_by_user: true,
+          quantity: null,
+          unit: null,
+          portion_size: null,
           deleted_at: null,
           occurred_at: new Date().toISOString(),
         },
@@ -700,6 +1105,9 @@ describe('foodEntryRepo', () => {
           raw_entry_id: 'raw-entry-1',
           created_at: new Date().toISOString(),
           confirmed_by_user: true,
+          quantity: null,
+          unit: null,
+          portion_size: null,
           deleted_at: new Date().toISOString(),
           occurred_at: new Date().toISOString(),
         },
@@ -762,6 +1170,9 @@ describe('foodEntryRepo', () => {
         raw_entry_id: 'raw-entry-1',
         created_at: new Date().toISOString(),
         confirmed_by_user: false,
+        quantity: null,
+        unit: null,
+        portion_size: null,
         deleted_at: deletedAtString,
         occurred_at: new Date().toISOString(),
       };
@@ -858,6 +1269,7 @@ describe('foodEntryRepo', () => {
           trigger_id: 'trigger-1',
           model_version: 'v1-stub',
           prompt_version: 'v1-stub',
+          prompt_variant: null,
           created_at: new Date().toISOString(),
         },
         {
@@ -867,6 +1279,7 @@ describe('foodEntryRepo', () => {
           trigger_id: 'trigger-2',
           model_version: 'v1-stub',
           prompt_version: 'v1-stub',
+          prompt_variant: null,
           created_at: new Date().toISOString(),
         },
       ];
@@ -957,4 +1370,867 @@ describe('foodEntryRepo', () => {
       );
     });
   });
+
+  /**
+   * Tests for fetching confirmed meals with their triggers (correlation analysis input)
+   */
+  describe('getMostRecentConfirmedTriggersByDishIds', () => {
+    it('returns the triggers of the most recent confirmed event per dish', async () => {
+      const trigger = (id: string, name: string) => ({
+        triggers: { id, trigger_name: name, created_at: new Date().toISOString() },
+      });
+      // Newest first, as ordered by the query
+      const rows = [
+        { dish_id: 'dish-1', created_at: '2025-01-03T00:00:00Z', dish_triggers: [trigger('t-1', 'dairy')] },
+        { dish_id: 'dish-2', created_at: '2025-01-02T00:00:00Z', dish_triggers: [trigger('t-2', 'gluten'), trigger('t-2', 'gluten')] },
+        { dish_id: 'dish-1', created_at: '2025-01-01T00:00:00Z', dish_triggers: [trigger('t-3', 'caffeine')] },
+      ];
+
+      const order = vi.fn().mockReturnValue(Promise.resolve({ data: rows, error: null }));
+      const eq = vi.fn().mockReturnValue({ order });
+      const inFn = vi.fn().mockReturnValue({ eq });
+      const select = vi.fn().mockReturnValue({ in: inFn });
+      const from = vi.fn().mockReturnValue({ select });
+      (supabase as any).from = from;
+
+      const result = await getMostRecentConfirmedTriggersByDishIds(['dish-1', 'dish-2', 'dish-3']);
+
+      expect(from).toHaveBeenCalledTimes(1);
+      expect(from).toHaveBeenCalledWith('dish_events');
+      expect(inFn).toHaveBeenCalledWith('dish_id', ['dish-1', 'dish-2', 'dish-3']);
+      expect(eq).toHaveBeenCalledWith('confirmed_by_user', true);
+      expect(order).toHaveBeenCalledWith('created_at', { ascending: false });
+      expect(result.get('dish-1')?.map((t) => t.triggerName)).toEqual(['dairy']);
+      // Duplicate trigger rows are collapsed
+      expect(result.get('dish-2')?.map((t) => t.triggerName)).toEqual(['gluten']);
+      // Dishes without confirmed triggers are absent
+      expect(result.has('dish-3')).toBe(false);
+    });
+
+    it('returns an empty map without querying when no dish IDs are given', async () => {
+      const from = vi.fn();
+      (supabase as any).from = from;
+
+      const result = await getMostRecentConfirmedTriggersByDishIds([]);
+
+      expect(result.size).toBe(0);
+      expect(from).not.toHaveBeenCalled();
+    });
+
+    it('throws error when query fails', async () => {
+      const order = vi.fn().mockReturnValue(
+        Promise.resolve({ data: null, error: { message: 'query failed' } }),
+      );
+      const eq = vi.fn().mockReturnValue({ order });
+      const inFn = vi.fn().mockReturnValue({ eq });
+      const select = vi.fn().mockReturnValue({ in: inFn });
+      (supabase as any).from = vi.fn().mockReturnValue({ select });
+
+      await expect(getMostRecentConfirmedTriggersByDishIds(['dish-1'])).rejects.toThrow('query failed');
+    });
+  });
+
+  describe('ingredients', () => {
+    const ingredientRow = (id: string, name: string, triggerNames: string[]) => ({
+      id,
+      user_id: mockUser.id,
+      ingredient_name: name,
+      normalized_ingredient_name: name.toLowerCase(),
+      created_at: new Date().toISOString(),
+      ingredient_triggers: triggerNames.map((triggerName) => ({
+        triggers: { id: `t-${triggerName}`, trigger_name: triggerName, created_at: new Date().toISOString() },
+      })),
+    });
+
+    it('finds the user\'s ingredients by normalized name with their triggers', async () => {
+      const inFn = vi.fn().mockReturnValue(
+        Promise.resolve({ data: [ingredientRow('i-1', 'Croutons', ['gluten'])], error: null }),
+      );
+      const eq = vi.fn().mockReturnValue({ in: inFn });
+      const select = vi.fn().mockReturnValue({ eq });
+      const from = vi.fn().mockReturnValue({ select });
+      (supabase as any).from = from;
+
+      const result = await findIngredientsByNormalizedNames(mockUser.id, ['croutons', 'parmesan']);
+
+      expect(from).toHaveBeenCalledWith('ingredients');
+      expect(eq).toHaveBeenCalledWith('user_id', mockUser.id);
+      expect(inFn).toHaveBeenCalledWith('normalized_ingredient_name', ['croutons', 'parmesan']);
+      expect(result).toHaveLength(1);
+      expect(result[0].ingredientName).toBe('Croutons');
+      expect(result[0].triggers.map((t) => t.triggerName)).toEqual(['gluten']);
+    });
+
+    it('returns the ingredients of the most recent confirmed event per dish', async () => {
+      // Newest first, as ordered by the query
+      const rows = [
+        {
+          dish_id: 'dish-1',
+          created_at: '2025-01-03T00:00:00Z',
+          dish_ingredients: [{ ingredients: ingredientRow('i-1', 'Lettuce', []) }],
+        },
+        {
+          dish_id: 'dish-1',
+          created_at: '2025-01-01T00:00:00Z',
+          dish_ingredients: [
+            { ingredients: ingredientRow('i-1', 'Lettuce', []) },
+            { ingredients: ingredientRow('i-2', 'Croutons', ['gluten']) },
+          ],
+        },
+      ];
+
+      const order = vi.fn().mockReturnValue(Promise.resolve({ data: rows, error: null }));
+      const is = vi.fn().mockReturnValue({ order });
+      const eq = vi.fn().mockReturnValue({ is });
+      const inFn = vi.fn().mockReturnValue({ eq });
+      const select = vi.fn().mockReturnValue({ in: inFn });
+      const from = vi.fn().mockReturnValue({ select });
+      (supabase as any).from = from;
+
+      const result = await getMostRecentIngredientsByDishIds(['dish-1', 'dish-2']);
+
+      expect(from).toHaveBeenCalledTimes(1);
+      expect(from).toHaveBeenCalledWith('dish_events');
+      expect(eq).toHaveBeenCalledWith('confirmed_by_user', true);
+      expect(is).toHaveBeenCalledWith('deleted_at', null);
+      // The croutons were left out last time, so they stay out
+      expect(result.get('dish-1')?.map((i) => i.ingredientName)).toEqual(['Lettuce']);
+      expect(result.has('dish-2')).toBe(false);
+    });
+
+    it('groups dish event ingredients by dish event, sorted by name', async () => {
+      const inFn = vi.fn().mockReturnValue(
+        Promise.resolve({
+          data: [
+            { dish_event_id: 'de-1', ingredients: ingredientRow('i-2', 'Parmesan', ['dairy']) },
+            { dish_event_id: 'de-1', ingredients: ingredientRow('i-1', 'Croutons', ['gluten']) },
+            { dish_event_id: 'de-2', ingredients: null },
+          ],
+          error: null,
+        }),
+      );
+      const select = vi.fn().mockReturnValue({ in: inFn });
+      const from = vi.fn().mockReturnValue({ select });
+      (supabase as any).from = from;
+
+      const result = await getIngredientsByDishEventIds(['de-1', 'de-2']);
+
+      expect(from).toHaveBeenCalledWith('dish_ingredients');
+      expect(inFn).toHaveBeenCalledWith('dish_event_id', ['de-1', 'de-2']);
+      expect(result.get('de-1')?.map((i) => i.ingredientName)).toEqual(['Croutons', 'Parmesan']);
+      expect(result.has('de-2')).toBe(false);
+    });
+
+    it('returns nothing without querying when no IDs or names are given', async () => {
+      const from = vi.fn();
+      (supabase as any).from = from;
+
+      expect(await findIngredientsByNormalizedNames(mockUser.id, [])).toEqual([]);
+      expect((await getMostRecentIngredientsByDishIds([])).size).toBe(0);
+      expect((await getIngredientsByDishEventIds([])).size).toBe(0);
+      expect(from).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('getDishesForUser', () => {
+    it('returns all of the user\'s dishes ordered by name', async () => {
+      const order = vi.fn().mockReturnValue(
+        Promise.resolve({
+          data: [
+            {
+              id: 'dish-1',
+              user_id: mockUser.id,
+              dish_name: 'Cafe Latte',
+              normalized_dish_name: 'cafe latte',
+              dish_embedding_id: null,
+              favorited_at: null,
+              created_at: new Date().toISOString(),
+            },
+          ],
+          error: null,
+        }),
+      );
+      const eq = vi.fn().mockReturnValue({ order });
+      const select = vi.fn().mockReturnValue({ eq });
+      const from = vi.fn().mockReturnValue({ select });
+      (supabase as any).from = from;
+
+      const result = await getDishesForUser(mockUser.id);
+
+      expect(from).toHaveBeenCalledWith('dish');
+      expect(eq).toHaveBeenCalledWith('user_id', mockUser.id);
+      expect(order).toHaveBeenCalledWith('dish_name', { ascending: true });
+      expect(result.map((dish) => dish.dishName)).toEqual(['Cafe Latte']);
+    });
+  });
+
+  describe('getDefaultTriggersByDishIds', () => {
+    it('groups default triggers by dish', async () => {
+      const trigger = (id: string, name: string) => ({
+        id,
+        trigger_name: name,
+        created_at: new Date().toISOString(),
+      });
+      const rows = [
+        { dish_id: 'dish-1', triggers: trigger('t-1', 'caffeine') },
+        { dish_id: 'dish-1', triggers: trigger('t-2', 'dairy') },
+        { dish_id: 'dish-2', triggers: trigger('t-3', 'gluten') },
+      ];
+
+      const inFn = vi.fn().mockReturnValue(Promise.resolve({ data: rows, error: null }));
+      const select = vi.fn().mockReturnValue({ in: inFn });
+      const from = vi.fn().mockReturnValue({ select });
+      (supabase as any).from = from;
+
+      const result = await getDefaultTriggersByDishIds(['dish-1', 'dish-2', 'dish-3']);
+
+      expect(from).toHaveBeenCalledWith('dish_default_triggers');
+      expect(inFn).toHaveBeenCalledWith('dish_id', ['dish-1', 'dish-2', 'dish-3']);
+      expect(result.get('dish-1')?.map((t) => t.triggerName)).toEqual(['caffeine', 'dairy']);
+      expect(result.get('dish-2')?.map((t) => t.triggerName)).toEqual(['gluten']);
+      expect(result.has('dish-3')).toBe(false);
+    });
+
+    it('returns an empty map without querying when no dish IDs are given', async () => {
+      const from = vi.fn();
+      (supabase as any).from = from;
+
+      const result = await getDefaultTriggersByDishIds([]);
+
+      expect(result.size).toBe(0);
+      expect(from).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('setDishDefaultTriggers', () => {
+    it('replaces the default triggers through the RPC', async () => {
+      const rpc = vi.fn().mockResolvedValue({ data: null, error: null });
+      (supabase as any).rpc = rpc;
+
+      await setDishDefaultTriggers('dish-1', ['t-1', 't-2']);
+
+      expect(rpc).toHaveBeenCalledWith('set_dish_default_triggers', {
+        p_dish_id: 'dish-1',
+        p_trigger_ids: ['t-1', 't-2'],
+      });
+    });
+
+    it('throws error when the RPC fails', async () => {
+      (supabase as any).rpc = vi.fn().mockResolvedValue({
+        data: null,
+        error: { message: 'Dish not found: dish-1' },
+      });
+
+      await expect(setDishDefaultTriggers('dish-1', [])).rejects.toThrow('Dish not found: dish-1');
+    });
+  });
+
+  describe('getConfirmedDishEventTimes', () => {
+    it('returns when each confirmed, non-deleted dish event occurred', async () => {
+      const is = vi.fn().mockReturnValue(
+        Promise.resolve({
+          data: [{ dish_id: 'dish-1', occurred_at: '2025-01-01T12:00:00Z' }],
+          error: null,
+        }),
+      );
+      const eqConfirmed = vi.fn().mockReturnValue({ is });
+      const eqUser = vi.fn().mockReturnValue({ eq: eqConfirmed });
+      const select = vi.fn().mockReturnValue({ eq: eqUser });
+      (supabase as any).from = vi.fn().mockReturnValue({ select });
+
+      const result = await getConfirmedDishEventTimes(mockUser.id);
+
+      expect(eqUser).toHaveBeenCalledWith('user_id', mockUser.id);
+      expect(eqConfirmed).toHaveBeenCalledWith('confirmed_by_user', true);
+      expect(is).toHaveBeenCalledWith('deleted_at', null);
+      expect(result).toEqual([
+        { dishId: 'dish-1', occurredAt: new Date('2025-01-01T12:00:00Z').getTime() },
+      ]);
+    });
+  });
+
+  describe('getDishHistory', () => {
+    it('returns confirmed events of the dish with their meal text and triggers', async () => {
+      const order = vi.fn().mockReturnValue(
+        Promise.resolve({
+          data: [
+            {
+              id: 'event-1',
+              raw_entry_id: 'raw-1',
+              occurred_at: '2025-01-01T12:00:00Z',
+              raw_entry: { raw_entry_text: 'ramen with egg' },
+              dish_triggers: [
+                {
+                  triggers: { id: 't-1', trigger_name: 'gluten', created_at: new Date().toISOString() },
+                },
+              ],
+            },
+          ],
+          error: null,
+        }),
+      );
+      const is = vi.fn().mockReturnValue({ order });
+      const eqConfirmed = vi.fn().mockReturnValue({ is });
+      const eqDish = vi.fn().mockReturnValue({ eq: eqConfirmed });
+      const select = vi.fn().mockReturnValue({ eq: eqDish });
+      (supabase as any).from = vi.fn().mockReturnValue({ select });
+
+      const result = await getDishHistory('dish-1');
+
+      expect(eqDish).toHaveBeenCalledWith('dish_id', 'dish-1');
+      expect(eqConfirmed).toHaveBeenCalledWith('confirmed_by_user', true);
+      expect(order).toHaveBeenCalledWith('occurred_at', { ascending: false });
+      expect(result).toEqual([
+        {
+          dishEventId: 'event-1',
+          rawEntryId: 'raw-1',
+          rawEntryText: 'ramen with egg',
+          occurredAt: new Date('2025-01-01T12:00:00Z').getTime(),
+          triggers: [expect.objectContaining({ id: 't-1', triggerName: 'gluten' })],
+        },
+      ]);
+    });
+  });
+
+  describe('getConfirmedMealExposures', () => {
+    it('groups dish events by raw entry and unions their trigger names', async () => {
+      const occurredAt = new Date(1710000000000).toISOString();
+      const rows = [
+        {
+          raw_entry_id: 'raw-entry-1',
+          occurred_at: occurredAt,
+          dish_triggers: [{ triggers: { trigger_name: 'dairy' } }],
+        },
+        {
+          raw_entry_id: 'raw-entry-1',
+          occurred_at: occurredAt,
+          dish_triggers: [
+            { triggers: { trigger_name: 'dairy' } },
+            { triggers: { trigger_name: 'gluten' } },
+          ],
+        },
+        {
+          raw_entry_id: 'raw-entry-2',
+          occurred_at: occurredAt,
+          dish_triggers: [],
+        },
+      ];
+
+      const order = vi.fn().mockReturnValue(Promise.resolve({ data: rows, error: null }));
+      const is = vi.fn().mockReturnValue({ order });
+      const eq2 = vi.fn().mockReturnValue({ is });
+      const eq1 = vi.fn().mockReturnValue({ eq: eq2 });
+      const select = vi.fn().mockReturnValue({ eq: eq1 });
+      (supabase as any).from = vi.fn().mockReturnValue({ select });
+
+      const result = await getConfirmedMealExposures(mockUser.id);
+
+      expect(eq1).toHaveBeenCalledWith('user_id', mockUser.id);
+      expect(eq2).toHaveBeenCalledWith('confirmed_by_user', true);
+      expect(is).toHaveBeenCalledWith('deleted_at', null);
+      expect(result).toHaveLength(2);
+      expect(result[0]).toEqual({
+        rawEntryId: 'raw-entry-1',
+        occurredAt: 1710000000000,
+        triggerNames: ['dairy', 'gluten'],
+      });
+      expect(result[1].triggerNames).toEqual([]);
+    });
+
+    it('throws error when query fails', async () => {
+      const order = vi.fn().mockReturnValue(
+        Promise.resolve({ data: null, error: { message: 'query failed' } }),
+      );
+      const is = vi.fn().mockReturnValue({ order });
+      const eq2 = vi.fn().mockReturnValue({ is });
+      const eq1 = vi.fn().mockReturnValue({ eq: eq2 });
+      const select = vi.fn().mockReturnValue({ eq: eq1 });
+      (supabase as any).from = vi.fn().mockReturnValue({ select });
+
+      await expect(getConfirmedMealExposures(mockUser.id)).rejects.toThrow('query failed');
+    });
+  });
+
+  describe('getPredictionEvalDishEvents', () => {
+    it('maps rows of the prediction eval view', async () => {
+      const rows = [
+        {
+          dish_event_id: 'event-1',
+          user_id: mockUser.id,
+          dish_id: 'dish-1',
+          occurred_at: new Date(1710000000000).toISOString(),
+          model_version: 'gpt-4o-mini',
+          prompt_version: 'v4',
+          prompt_variant: null,
+          dish_name_suggestion: 'Salsa',
+          dish_name: 'Pico de gallo',
+          normalized_dish_name: 'pico de gallo',
+          is_new_dish: true,
+          predicted_trigger_names: ['dairy', 'spicy'],
+          confirmed_trigger_names: ['spicy'],
+        },
+      ];
+
+      const order = vi.fn().mockReturnValue(Promise.resolve({ data: rows, error: null }));
+      const eq = vi.fn().mockReturnValue({ order });
+      const select = vi.fn().mockReturnValue({ eq });
+      (supabase as any).from = vi.fn().mockReturnValue({ select });
+
+      const result = await getPredictionEvalDishEvents(mockUser.id);
+
+      expect(supabase.from).toHaveBeenCalledWith('prediction_eval_dish_events');
+      expect(eq).toHaveBeenCalledWith('user_id', mockUser.id);
+      expect(result).toEqual([
+        {
+          dishEventId: 'event-1',
+          modelVersion: 'gpt-4o-mini',
+          promptVersion: 'v4',
+          promptVariant: null,
+          dishNameSuggestion: 'Salsa',
+          dishName: 'Pico de gallo',
+          isNewDish: true,
+          predictedTriggerNames: ['dairy', 'spicy'],
+          confirmedTriggerNames: ['spicy'],
+          occurredAt: 1710000000000,
+        },
+      ]);
+    });
+  });
+
+  describe('getPromptVariantEvalDishEvents', () => {
+    const row = (index: number): PredictionEvalDishEventRow => ({
+      dish_event_id: `dish-event-${index}`,
+      user_id: mockUser.id,
+      dish_id: `dish-${index}`,
+      occurred_at: '2024-03-09T16:00:00.000Z',
+      model_version: 'gpt-4o-mini',
+      prompt_version: 'v2',
+      prompt_variant: 'v2-rollout/v2',
+      dish_name_suggestion: 'Toast',
+      dish_name: 'Toast',
+      normalized_dish_name: 'toast',
+      is_new_dish: true,
+      predicted_trigger_names: ['gluten'],
+      confirmed_trigger_names: ['gluten'],
+    });
+
+    it('pages through the new dishes of the variants with the given client', async () => {
+      const pages = [Array.from({ length: 1000 }, (_, index) => row(index)), [row(1000)]];
+      const query: Record<string, ReturnType<typeof vi.fn>> = {};
+      for (const method of ['select', 'in', 'eq', 'order']) {
+        query[method] = vi.fn().mockReturnValue(query);
+      }
+      query.range = vi.fn().mockImplementation(async () => ({ data: pages.shift(), error: null }));
+      const client = { from: vi.fn().mockReturnValue(query) };
+
+      const result = await getPromptVariantEvalDishEvents(['v2-rollout/control', 'v2-rollout/v2'], client as any);
+
+      expect(client.from).toHaveBeenCalledWith('prediction_eval_dish_events');
+      expect(query.in).toHaveBeenCalledWith('prompt_variant', ['v2-rollout/control', 'v2-rollout/v2']);
+      expect(query.eq).toHaveBeenCalledWith('is_new_dish', true);
+      expect(query.range.mock.calls).toEqual([
+        [0, 999],
+        [1000, 1999],
+      ]);
+      expect(result).toHaveLength(1001);
+      expect(result[1000]).toMatchObject({ dishEventId: 'dish-event-1000', promptVariant: 'v2-rollout/v2' });
+    });
+
+    it('skips the query without variants', async () => {
+      (supabase as any).from = vi.fn();
+
+      expect(await getPromptVariantEvalDishEvents([])).toEqual([]);
+      expect(supabase.from).not.toHaveBeenCalled();
+    });
+  });
+
+  /**
+   * Tests for the pending ("Needs review") raw entry query
+   */
+  describe('getPendingRawFoodEntries', () => {
+    it('returns raw entries with unconfirmed dish events and their meal time', async () => {
+      const rows = [
+        {
+          id: 'raw-entry-1',
+          user_id: mockUser.id,
+          raw_entry_text: 'Croissant and latte',
+          created_at: new Date(1710000060000).toISOString(),
+          dish_events: [
+            { id: 'dish-event-1', occurred_at: new Date(1710000000000).toISOString() },
+            { id: 'dish-event-2', occurred_at: new Date(1710000000000).toISOString() },
+          ],
+        },
+      ];
+
+      const order = vi.fn().mockReturnValue(Promise.resolve({ data: rows, error: null }));
+      const is = vi.fn().mockReturnValue({ order });
+      const eq2 = vi.fn().mockReturnValue({ is });
+      const eq1 = vi.fn().mockReturnValue({ eq: eq2 });
+      const select = vi.fn().mockReturnValue({ eq: eq1 });
+      (supabase as any).from = vi.fn().mockReturnValue({ select });
+
+      const result = await getPendingRawFoodEntries(mockUser.id);
+
+      expect(supabase.from).toHaveBeenCalledWith('raw_entry');
+      expect(eq1).toHaveBeenCalledWith('user_id', mockUser.id);
+      expect(eq2).toHaveBeenCalledWith('dish_events.confirmed_by_user', false);
+      expect(is).toHaveBeenCalledWith('dish_events.deleted_at', null);
+      expect(result).toEqual([
+        {
+          id: 'raw-entry-1',
+          userId: mockUser.id,
+          rawEntryText: 'Croissant and latte',
+          createdAt: 1710000060000,
+          occurredAt: 1710000000000,
+          dishEventCount: 2,
+        },
+      ]);
+    });
+
+    it('throws error when query fails', async () => {
+      const order = vi.fn().mockReturnValue(
+        Promise.resolve({ data: null, error: { message: 'query failed' } }),
+      );
+      const is = vi.fn().mockReturnValue({ order });
+      const eq2 = vi.fn().mockReturnValue({ is });
+      const eq1 = vi.fn().mockReturnValue({ eq: eq2 });
+      const select = vi.fn().mockReturnValue({ eq: eq1 });
+      (supabase as any).from = vi.fn().mockReturnValue({ select });
+
+      await expect(getPendingRawFoodEntries(mockUser.id)).rejects.toThrow('query failed');
+    });
+  });
+
+  /**
+   * Tests for the food entry transaction RPCs
+   * Both write a whole entry in one database call; the repo only maps arguments and errors
+   */
+  describe('createFoodEntryTransaction', () => {
+    it('calls create_food_entry with the entry and dishes', async () => {
+      const response = { entry_id: 'raw-entry-1', dishes: [] };
+      const rpc = vi.fn().mockResolvedValue({ data: response, error: null });
+      (supabase as any).rpc = rpc;
+
+      const dishes = [
+        {
+          dish_fragment_text: 'Chocolate croissant',
+          dish_name_suggestion: 'Chocolate Croissant',
+          normalized_dish_name: 'chocolate croissant',
+          quantity: null,
+          unit: null,
+          portion_size: null,
+          trigger_names: ['gluten'],
+          ingredients: [
+            {
+              ingredient_name: 'Croissant',
+              normalized_ingredient_name: 'croissant',
+              trigger_names: ['gluten', 'dairy'],
+            },
+          ],
+        },
+      ];
+      const result = await createFoodEntryTransaction({
+        rawEntryText: 'Chocolate croissant',
+        occurredAt: Date.UTC(2025, 0, 1, 8, 0, 0),
+        modelVersion: 'model-v1',
+        promptVersion: 'prompt-v1',
+        promptVariant: null,
+        mealType: 'breakfast',
+        dishes,
+      });
+
+      expect(rpc).toHaveBeenCalledWith('create_food_entry', {
+        p_raw_entry_text: 'Chocolate croissant',
+        p_occurred_at: '2025-01-01T08:00:00.000Z',
+        p_model_version: 'model-v1',
+        p_prompt_version: 'prompt-v1',
+        p_dishes: dishes,
+        p_meal_type: 'breakfast',
+        p_prompt_variant: null,
+      });
+      expect(result).toEqual(response);
+    });
+
+    it('throws when the transaction fails', async () => {
+      (supabase as any).rpc = vi.fn().mockResolvedValue({
+        data: null,
+        error: { message: 'null value in column "dish_name" violates not-null constraint' },
+      });
+
+      await expect(
+        createFoodEntryTransaction({
+          rawEntryText: 'Chocolate croissant',
+          occurredAt: Date.now(),
+          modelVersion: 'model-v1',
+          promptVersion: 'prompt-v1',
+          promptVariant: null,
+          mealType: null,
+          dishes: [],
+        }),
+      ).rejects.toThrow('not-null constraint');
+    });
+  });
+
+  describe('confirmFoodEntryTransaction', () => {
+    it('calls confirm_food_entry with the confirmed and deleted dishes', async () => {
+      const response = { entry_id: 'raw-entry-1', dishes: [] };
+      const rpc = vi.fn().mockResolvedValue({ data: response, error: null });
+      (supabase as any).rpc = rpc;
+
+      const confirmedDishes = [
+        {
+          dish_event_id: 'dish-event-1',
+          dish_id: 'dish-1',
+          final_dish_name: 'Chocolate Croissant',
+          normalized_dish_name: 'chocolate croissant',
+          quantity: null,
+          unit: null,
+          portion_size: null,
+          trigger_ids: ['trigger-1'],
+          ingredient_ids: null,
+        },
+      ];
+      const result = await confirmFoodEntryTransaction({
+        rawEntryId: 'raw-entry-1',
+        occurredAt: Date.UTC(2025, 0, 1, 8, 0, 0),
+        mealType: 'snack',
+        confirmedDishes,
+        deletedDishEventIds: ['dish-event-2'],
+      });
+
+      expect(rpc).toHaveBeenCalledWith('confirm_food_entry', {
+        p_raw_entry_id: 'raw-entry-1',
+        p_occurred_at: '2025-01-01T08:00:00.000Z',
+        p_confirmed_dishes: confirmedDishes,
+        p_meal_type: 'snack',
+        p_deleted_dish_event_ids: ['dish-event-2'],
+      });
+      expect(result).toEqual(response);
+    });
+
+    it('throws the database error message', async () => {
+      (supabase as any).rpc = vi.fn().mockResolvedValue({
+        data: null,
+        error: { message: 'Dish event not found: dish-event-9' },
+      });
+
+      await expect(
+        confirmFoodEntryTransaction({
+          rawEntryId: 'raw-entry-1',
+          occurredAt: Date.now(),
+          mealType: null,
+          confirmedDishes: [],
+          deletedDishEventIds: [],
+        }),
+      ).rejects.toThrow('Dish event not found: dish-event-9');
+    });
+
+    it('keeps the error code and details of the database error', async () => {
+      (supabase as any).rpc = vi.fn().mockResolvedValue({
+        data: null,
+        error: {
+          message: 'Cannot update dish name: a dish with normalized name "latte" already exists',
+          code: 'DN001',
+          details: '{"dish_event_id": "dish-event-1", "dish_id": "dish-2"}',
+        },
+      });
+
+      const error = await confirmFoodEntryTransaction({
+        rawEntryId: 'raw-entry-1',
+        occurredAt: Date.now(),
+        mealType: null,
+        confirmedDishes: [],
+        deletedDishEventIds: [],
+      }).catch((e) => e);
+
+      expect(error).toBeInstanceOf(DatabaseError);
+      expect(error).toMatchObject({
+        code: 'DN001',
+        details: '{"dish_event_id": "dish-event-1", "dish_id": "dish-2"}',
+      });
+    });
+  });
+
+  describe('quickLogDishTransaction', () => {
+    it('calls quick_log_dish with the dish and triggers', async () => {
+      const response = { entry_id: 'raw-entry-1', dishes: [] };
+      const rpc = vi.fn().mockResolvedValue({ data: response, error: null });
+      (supabase as any).rpc = rpc;
+
+      const result = await quickLogDishTransaction({
+        dishId: 'dish-1',
+        occurredAt: Date.UTC(2025, 0, 1, 8, 0, 0),
+        triggerIds: ['trigger-1'],
+        mealType: 'breakfast',
+      });
+
+      expect(rpc).toHaveBeenCalledWith('quick_log_dish', {
+        p_dish_id: 'dish-1',
+        p_occurred_at: '2025-01-01T08:00:00.000Z',
+        p_trigger_ids: ['trigger-1'],
+        p_meal_type: 'breakfast',
+      });
+      expect(result).toEqual(response);
+    });
+
+    it('throws the database error message', async () => {
+      (supabase as any).rpc = vi.fn().mockResolvedValue({
+        data: null,
+        error: { message: 'Dish not found: dish-9' },
+      });
+
+      await expect(
+        quickLogDishTransaction({
+          dishId: 'dish-9',
+          occurredAt: Date.now(),
+          triggerIds: [],
+          mealType: null,
+        }),
+      ).rejects.toThrow('Dish not found: dish-9');
+    });
+  });
+
+  describe('getPredictionBackfillCandidates', () => {
+    it('pages through new dishes whose current prediction is from another version', async () => {
+      const row: CurrentDishEventPredictionRow = {
+        dish_event_id: 'dish-event-1',
+        user_id: mockUser.id,
+        dish_id: 'dish-1',
+        dish_name: 'Toast',
+        dish_fragment_text: 'toast',
+        confirmed_by_user: false,
+        created_at: '2024-03-09T16:00:00.000Z',
+        is_new_dish: true,
+        ai_predictions_enabled: true,
+        backfilled: false,
+        model_version: 'gpt-4o-mini',
+        prompt_version: 'v4',
+        predicted_trigger_names: ['gluten'],
+      };
+      const query: Record<string, ReturnType<typeof vi.fn>> = {};
+      for (const method of ['select', 'eq', 'or', 'in', 'order']) {
+        query[method] = vi.fn().mockReturnValue(query);
+      }
+      query.limit = vi.fn().mockResolvedValue({ data: [row], error: null });
+      (supabase as any).from = vi.fn().mockReturnValue(query);
+
+      const result = await getPredictionBackfillCandidates(
+        { modelVersion: 'gpt-4o-mini', promptVersion: 'v5' },
+        { userIds: [mockUser.id], unconfirmedOnly: true },
+        50,
+        { createdAt: '2024-03-09T15:00:00.123456+00:00', dishEventId: 'dish-event-0' },
+      );
+
+      expect(supabase.from).toHaveBeenCalledWith('current_dish_event_predictions');
+      expect(query.eq).toHaveBeenCalledWith('is_new_dish', true);
+      expect(query.eq).toHaveBeenCalledWith('ai_predictions_enabled', true);
+      expect(query.eq).toHaveBeenCalledWith('confirmed_by_user', false);
+      expect(query.or).toHaveBeenCalledWith('model_version.neq."gpt-4o-mini",prompt_version.neq."v5"');
+      expect(query.in).toHaveBeenCalledWith('user_id', [mockUser.id]);
+      expect(query.in).not.toHaveBeenCalledWith('dish_id', expect.anything());
+      expect(query.or).toHaveBeenCalledWith(
+        'created_at.gt."2024-03-09T15:00:00.123456+00:00",' +
+          'and(created_at.eq."2024-03-09T15:00:00.123456+00:00",dish_event_id.gt.dish-event-0)',
+      );
+      expect(query.order).toHaveBeenCalledWith('dish_event_id', { ascending: true });
+      expect(query.limit).toHaveBeenCalledWith(50);
+      expect(result).toEqual([
+        {
+          dishEventId: 'dish-event-1',
+          userId: mockUser.id,
+          dishId: 'dish-1',
+          dishName: 'Toast',
+          dishFragmentText: 'toast',
+          confirmed: false,
+          isNewDish: true,
+          backfilled: false,
+          modelVersion: 'gpt-4o-mini',
+          promptVersion: 'v4',
+          predictedTriggerNames: ['gluten'],
+          createdAt: new Date('2024-03-09T16:00:00.000Z').getTime(),
+          cursor: { createdAt: '2024-03-09T16:00:00.000Z', dishEventId: 'dish-event-1' },
+        },
+      ]);
+    });
+  });
+
+  describe('prediction backfill progress', () => {
+    const target = { modelVersion: 'gpt-4o-mini', promptVersion: 'v5' };
+
+    it("reads the signed-in user's progress", async () => {
+      (supabase as any).auth = {
+        getSession: vi.fn().mockResolvedValue({ data: { session: { user: mockUser } } }),
+      };
+      const query: Record<string, ReturnType<typeof vi.fn>> = {};
+      for (const method of ['select', 'eq', 'is']) {
+        query[method] = vi.fn().mockReturnValue(query);
+      }
+      query.maybeSingle = vi.fn().mockResolvedValue({
+        data: { last_created_at: '2024-03-09T15:00:00.123456+00:00', last_dish_event_id: 'dish-event-1' },
+        error: null,
+      });
+      (supabase as any).from = vi.fn().mockReturnValue(query);
+
+      const cursor = await getPredictionBackfillProgress(target, '{}');
+
+      expect(supabase.from).toHaveBeenCalledWith('prediction_backfill_progress');
+      expect(query.eq).toHaveBeenCalledWith('selection_key', '{}');
+      expect(query.eq).toHaveBeenCalledWith('run_by', mockUser.id);
+      expect(cursor).toEqual({ createdAt: '2024-03-09T15:00:00.123456+00:00', dishEventId: 'dish-event-1' });
+    });
+
+    it('saves and clears the service role progress, which has no user', async () => {
+      (supabase as any).auth = { getSession: vi.fn().mockResolvedValue({ data: { session: null } }) };
+      const upsert = vi.fn().mockResolvedValue({ error: null });
+      const query: Record<string, ReturnType<typeof vi.fn>> = {};
+      for (const method of ['delete', 'eq']) {
+        query[method] = vi.fn().mockReturnValue(query);
+      }
+      query.is = vi.fn().mockResolvedValue({ error: null });
+      (supabase as any).from = vi.fn().mockReturnValue({ upsert, ...query });
+
+      await savePredictionBackfillProgress(target, '{}', {
+        createdAt: '2024-03-09T15:00:00.123456+00:00',
+        dishEventId: 'dish-event-1',
+      });
+      await clearPredictionBackfillProgress(target, '{}');
+
+      expect(upsert).toHaveBeenCalledWith(
+        expect.objectContaining({
+          run_by: null,
+          model_version: 'gpt-4o-mini',
+          prompt_version: 'v5',
+          selection_key: '{}',
+          last_created_at: '2024-03-09T15:00:00.123456+00:00',
+          last_dish_event_id: 'dish-event-1',
+        }),
+        { onConflict: 'run_by,model_version,prompt_version,selection_key' },
+      );
+      expect(query.delete).toHaveBeenCalled();
+      expect(query.is).toHaveBeenCalledWith('run_by', null);
+    });
+  });
+
+  describe('saveBackfilledPrediction', () => {
+    it('saves the re-predicted triggers with the previous ones through the RPC', async () => {
+      const rpc = vi.fn().mockResolvedValue({ data: null, error: null });
+      (supabase as any).rpc = rpc;
+
+      await saveBackfilledPrediction({
+        dishEventId: 'dish-event-1',
+        modelVersion: 'gpt-4o-mini',
+        promptVersion: 'v5',
+        previousTriggerNames: ['gluten'],
+        triggerNames: ['dairy', 'gluten'],
+      });
+
+      expect(rpc).toHaveBeenCalledWith('save_backfilled_prediction', {
+        p_dish_event_id: 'dish-event-1',
+        p_model_version: 'gpt-4o-mini',
+        p_prompt_version: 'v5',
+        p_previous_trigger_names: ['gluten'],
+        p_trigger_names: ['dairy', 'gluten'],
+      });
+    });
+  });
 });
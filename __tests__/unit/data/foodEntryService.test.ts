@@ -6,17 +6,33 @@
  * repository calls and business logic to create and confirm food entries.
  */
 
-import { afterEach, describe, expect, it, vi } from 'vitest';
-import { confirmFoodEntry, createFoodEntry, getFoodEntriesForUser } from '@/data/foodEntryService';
-import * as dishHelpers from '@/data/dishHelpers';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import {
+  confirmFoodEntry,
+  createFoodEntry,
+  discardPendingFoodEntry,
+  getFoodEntriesForUser,
+  getFoodEntryForConfirmation,
+  getFoodEntryForEditing,
+  getPendingFoodEntriesForUser,
+  quickLogDish,
+} from '@/data/foodEntryService';
+import * as dishMatching from '@/data/dishMatching';
 import * as foodEntryRepo from '@/data/foodEntryRepo';
 import * as llmService from '@/data/llmService';
+import * as profileRepo from '@/data/profileRepo';
+import { RULES_MODEL_VERSION } from '@/data/rulePredictor';
 import * as utils from '@/data/utils';
+import { createLocalEmbedder, setEmbedder } from '@/lib/embeddings';
+import { createFakeProvider, FAKE_MODEL_VERSION, setLLMProvider } from '@/lib/llmProvider';
+import { PROMPT_VERSION } from '@/lib/llmPrompts';
+import { setLLMCallConfig } from '@/lib/llmResilience';
+import { setPromptExperiment } from '@/lib/promptExperiments';
 import { supabase } from '@/lib/supabase';
-import { DishRow, DishEventRow } from '@/types/supabase';
 
 // Store original Supabase methods to restore after each test
 const originalFrom = supabase.from;
+const originalRpc = supabase.rpc;
 const originalAuth = supabase.auth;
 
 // Mock user for authentication
@@ -32,10 +48,42 @@ const mockAuth = () => {
   };
 };
 
+// Helper to replace Supabase with a chainable query mock that records every round trip.
+// Each from()/rpc() call is one request; tableData provides the rows returned per table.
+const mockSupabaseRequests = (tableData: Record<string, unknown[]>, rpcData: Record<string, unknown>) => {
+  const requests: string[] = [];
+
+  (supabase as any).from = vi.fn((table: string) => {
+    requests.push(table);
+    const result = { data: tableData[table] ?? [], error: null };
+    const builder: any = new Proxy(
+      {},
+      {
+        get: (_target, prop) =>
+          prop === 'then'
+            ? (resolve: any, reject: any) => Promise.resolve(result).then(resolve, reject)
+            : () => builder,
+      },
+    );
+    return builder;
+  });
+  (supabase as any).rpc = vi.fn((fn: string) => {
+    requests.push(`rpc:${fn}`);
+    return Promise.resolve({ data: rpcData[fn] ?? [], error: null });
+  });
+
+  return requests;
+};
+
 // Clean up mocks after each test to ensure test isolation
 afterEach(() => {
   (supabase as any).from = originalFrom;
+  (supabase as any).rpc = originalRpc;
   (supabase as any).auth = originalAuth;
+  setEmbedder(null);
+  setLLMProvider(null);
+  setLLMCallConfig(null);
+  setPromptExperiment(null);
   vi.restoreAllMocks();
 });
 
@@ -44,26 +92,26 @@ describe('foodEntryService', () => {
    * Tests for createFoodEntry - the main flow for creating a new food entry
    * 
    * Flow:
-   * 1. Create raw entry from user text
-   * 2. Extract dishes using LLM
-   * 3. For each dish: create predicted dish, find/create actual dish, create dish event
-   * 4. Predict triggers (LLM for new dishes, copy from recent for existing dishes)
-   * 5. Create predicted dish triggers
-   * 6. Return entry with dishes and predicted triggers
+   * 1. Extract dishes using LLM
+   * 2. Look up existing dishes and their most recent confirmed triggers in bulk
+   * 3. Predict triggers concurrently (LLM ingredients for new dishes, falling back to whole-dish
+   *    triggers; copy from recent for existing dishes)
+   * 4. Write raw entry, predicted dishes, dishes, dish events, predicted triggers and ingredients
+   *    in a single transaction (create_food_entry RPC)
+   * 5. Return entry with dishes and predicted triggers
    */
   describe('createFoodEntry', () => {
+    // Dishes have no ingredients unless a test says otherwise, so new dishes fall back to
+    // whole-dish trigger prediction; users have no custom triggers and keep AI suggestions on
+    beforeEach(() => {
+      vi.spyOn(profileRepo, 'getAiPredictionsEnabled').mockResolvedValue(true);
+      vi.spyOn(llmService, 'llmDecomposeDish').mockResolvedValue([]);
+      vi.spyOn(foodEntryRepo, 'getMostRecentIngredientsByDishIds').mockResolvedValue(new Map());
+      vi.spyOn(foodEntryRepo, 'getCustomTriggers').mockResolvedValue([]);
+    });
+
     it('creates a food entry with new dishes and predicts triggers', async () => {
-      // Setup: Mock authentication
-      mockAuth();
       vi.spyOn(utils, 'getAuthenticatedUserId').mockResolvedValue(mockUser.id);
-      
-      // Step 1: Mock raw entry creation
-      vi.spyOn(foodEntryRepo, 'createRawFoodEntry').mockResolvedValue({
-        id: 'raw-entry-1',
-        userId: mockUser.id,
-        rawEntryText: 'Chocolate croissant',
-        createdAt: Date.now(),
-      });
 
       vi.spyOn(llmService, 'llmExtractDishes').mockResolvedValue([
         {
@@ -72,1074 +120,1099 @@ describe('foodEntryService', () => {
         },
       ]);
 
-      vi.spyOn(foodEntryRepo, 'createPredictedDish').mockResolvedValue({
-        id: 'predicted-dish-1',
-        rawEntryId: 'raw-entry-1',
-        dishFragmentText: 'Chocolate croissant',
-        dishNameSuggestion: 'Chocolate Croissant',
-        modelVersion: 'v1-stub',
-        promptVersion: 'v1-stub',
-        createdAt: Date.now(),
-      });
+      // No existing dish = new dish
+      vi.spyOn(foodEntryRepo, 'findDishesByNormalizedNames').mockResolvedValue([]);
+      vi.spyOn(foodEntryRepo, 'findDishesByAliasNames').mockResolvedValue(new Map());
+      vi.spyOn(dishMatching, 'findSimilarDishes').mockResolvedValue(new Map());
+      vi.spyOn(foodEntryRepo, 'getDefaultTriggersByDishIds').mockResolvedValue(new Map());
+      const getRecentTriggers = vi
+        .spyOn(foodEntryRepo, 'getMostRecentConfirmedTriggersByDishIds')
+        .mockResolvedValue(new Map());
+      const predictTriggers = vi.spyOn(llmService, 'llmPredictTriggers').mockResolvedValue(['gluten']);
+
+      const expectedResponse = {
+        entry_id: 'raw-entry-1',
+        dishes: [
+          {
+            dish_event_id: 'dish-event-1',
+            dish_id: 'dish-1',
+            dish_name: 'Chocolate Croissant',
+            predicted_triggers: [{ trigger_id: 'trigger-1', trigger_name: 'gluten' }],
+          },
+        ],
+      };
+      const createTransaction = vi
+        .spyOn(foodEntryRepo, 'createFoodEntryTransaction')
+        .mockResolvedValue(expectedResponse);
 
-      // Step 3b: Mock dish find/create (returns new dish in this test)
-      vi.spyOn(dishHelpers, 'findOrCreateDishForUser').mockResolvedValue({
-        id: 'dish-1',
-        userId: mockUser.id,
-        dishName: 'Chocolate Croissant',
-        normalizedDishName: 'chocolate croissant',
-        dishEmbeddingId: null,
-        createdAt: Date.now(),
+      const occurredAt = Date.now();
+      const result = await createFoodEntry(occurredAt, {
+        raw_entry_text: 'Chocolate croissant',
       });
 
-      // Step 3c: Mock check for existing triggers (empty = new dish)
-      vi.spyOn(dishHelpers, 'getMostRecentDishTriggers').mockResolvedValue([]);
-
-      // Step 3d: Mock dish event creation
-      vi.spyOn(foodEntryRepo, 'createDishEvent').mockResolvedValue({
-        id: 'dish-event-1',
-        userId: mockUser.id,
-        dishId: 'dish-1',
-        predictedDishId: 'predicted-dish-1',
-        rawEntryId: 'raw-entry-1',
-        confirmedByUser: false,
-        deletedAt: null,
-        createdAt: Date.now(),
-        occurredAt: Date.now(),
-      });({
-        id: 'dish-event-1',
-        userId: mockUser.id,
-        dishId: 'dish-1',
-        predictedDishId: 'predicted-dish-1',
-        rawEntryId: 'raw-entry-1',
-        confirmedByUser: false,
-        createdAt: Date.now(),
-        occurredAt: Date.now(),
+      expect(getRecentTriggers).toHaveBeenCalledWith([]);
+      expect(predictTriggers).toHaveBeenCalledWith(
+        'Chocolate Croissant',
+        'Chocolate croissant',
+        [],
+        PROMPT_VERSION,
+        expect.anything(),
+      );
+      expect(createTransaction).toHaveBeenCalledWith({
+        rawEntryText: 'Chocolate croissant',
+        occurredAt,
+        modelVersion: expect.any(String),
+        promptVersion: expect.any(String),
+        promptVariant: null,
+        mealType: expect.any(String),
+        dishes: [
+          {
+            dish_fragment_text: 'Chocolate croissant',
+            dish_name_suggestion: 'Chocolate Croissant',
+            normalized_dish_name: 'chocolate croissant',
+            quantity: null,
+            unit: null,
+            portion_size: null,
+            trigger_names: ['gluten'],
+            ingredients: [],
+          },
+        ],
       });
+      expect(result).toEqual(expectedResponse);
+    });
 
-      // Step 4a: Mock LLM trigger prediction (for new dishes)
-      vi.spyOn(llmService, 'llmPredictTriggers').mockResolvedValue(['gluten']);
+    it('records the active LLM provider\'s model version', async () => {
+      setLLMProvider(createFakeProvider());
+      vi.spyOn(utils, 'getAuthenticatedUserId').mockResolvedValue(mockUser.id);
+      vi.spyOn(foodEntryRepo, 'findDishesByNormalizedNames').mockResolvedValue([]);
+      vi.spyOn(foodEntryRepo, 'findDishesByAliasNames').mockResolvedValue(new Map());
+      vi.spyOn(dishMatching, 'findSimilarDishes').mockResolvedValue(new Map());
+      vi.spyOn(foodEntryRepo, 'getDefaultTriggersByDishIds').mockResolvedValue(new Map());
+      vi.spyOn(foodEntryRepo, 'getMostRecentConfirmedTriggersByDishIds').mockResolvedValue(new Map());
+      const createTransaction = vi
+        .spyOn(foodEntryRepo, 'createFoodEntryTransaction')
+        .mockResolvedValue({ entry_id: 'raw-entry-1', dishes: [] });
+
+      const result = await createFoodEntry(Date.now(), { raw_entry_text: 'Iced oat latte' });
+
+      expect(createTransaction).toHaveBeenCalledWith(
+        expect.objectContaining({
+          modelVersion: FAKE_MODEL_VERSION,
+          dishes: [expect.objectContaining({ dish_name_suggestion: 'Iced oat latte', trigger_names: [] })],
+        }),
+      );
+      expect(result.prediction_degraded).toBe(false);
+    });
 
-      // Step 4b: Mock trigger lookup by name
-      vi.spyOn(foodEntryRepo, 'getTriggersByNames').mockResolvedValue([
-        {
-          id: 'trigger-1',
-          triggerName: 'gluten',
-          createdAt: Date.now(),
-        },
-      ]);
+    it('uses the rule-based predictor without calling the LLM when AI suggestions are off', async () => {
+      vi.spyOn(utils, 'getAuthenticatedUserId').mockResolvedValue(mockUser.id);
+      vi.mocked(profileRepo.getAiPredictionsEnabled).mockResolvedValue(false);
+      vi.spyOn(foodEntryRepo, 'findDishesByNormalizedNames').mockResolvedValue([]);
+      vi.spyOn(foodEntryRepo, 'findDishesByAliasNames').mockResolvedValue(new Map());
+      vi.spyOn(dishMatching, 'findSimilarDishes').mockResolvedValue(new Map());
+      vi.spyOn(foodEntryRepo, 'getDefaultTriggersByDishIds').mockResolvedValue(new Map());
+      vi.spyOn(foodEntryRepo, 'getMostRecentConfirmedTriggersByDishIds').mockResolvedValue(new Map());
+      const extractDishes = vi.spyOn(llmService, 'llmExtractDishes');
+      const predictTriggers = vi.spyOn(llmService, 'llmPredictTriggers');
+      const createTransaction = vi
+        .spyOn(foodEntryRepo, 'createFoodEntryTransaction')
+        .mockResolvedValue({ entry_id: 'raw-entry-1', dishes: [] });
+
+      await createFoodEntry(Date.now(), { raw_entry_text: 'garlic bread and a latte' });
+
+      expect(profileRepo.getAiPredictionsEnabled).toHaveBeenCalledWith(mockUser.id);
+      expect(extractDishes).not.toHaveBeenCalled();
+      expect(llmService.llmDecomposeDish).not.toHaveBeenCalled();
+      expect(predictTriggers).not.toHaveBeenCalled();
+      expect(createTransaction).toHaveBeenCalledWith(
+        expect.objectContaining({
+          modelVersion: RULES_MODEL_VERSION,
+          dishes: [
+            expect.objectContaining({
+              dish_name_suggestion: 'Garlic Bread',
+              trigger_names: ['gluten', 'fructans'],
+              ingredients: [],
+            }),
+            expect.objectContaining({
+              dish_name_suggestion: 'Latte',
+              trigger_names: ['caffeine', 'dairy'],
+            }),
+          ],
+        }),
+      );
+    });
 
-      // Step 4c: Mock predicted trigger creation
-      vi.spyOn(foodEntryRepo, 'createPredictedDishTrigger').mockResolvedValue({
-        id: 'predicted-trigger-1',
-        dishId: 'dish-1',
-        dishEventId: 'dish-event-1',
-        triggerId: 'trigger-1',
-        modelVersion: 'v1-stub',
-        promptVersion: 'v1-stub',
-        createdAt: Date.now(),
-      });
+    it('does not embed dish names for similarity matching when AI suggestions are off', async () => {
+      vi.spyOn(utils, 'getAuthenticatedUserId').mockResolvedValue(mockUser.id);
+      vi.mocked(profileRepo.getAiPredictionsEnabled).mockResolvedValue(false);
+      vi.spyOn(foodEntryRepo, 'findDishesByNormalizedNames').mockResolvedValue([]);
+      vi.spyOn(foodEntryRepo, 'findDishesByAliasNames').mockResolvedValue(new Map());
+      vi.spyOn(foodEntryRepo, 'getDefaultTriggersByDishIds').mockResolvedValue(new Map());
+      vi.spyOn(foodEntryRepo, 'getMostRecentConfirmedTriggersByDishIds').mockResolvedValue(new Map());
+      const embed = vi.fn().mockResolvedValue([]);
+      setEmbedder({ model: 'test-embedding', embed });
+      vi.spyOn(foodEntryRepo, 'getDishesMissingEmbedding').mockResolvedValue([]);
+      const matchDishes = vi.spyOn(foodEntryRepo, 'matchDishesByEmbedding').mockResolvedValue([]);
+      vi.spyOn(foodEntryRepo, 'createFoodEntryTransaction').mockResolvedValue({ entry_id: 'raw-entry-1', dishes: [] });
+
+      await createFoodEntry(Date.now(), { raw_entry_text: 'spag bol' });
+
+      expect(embed).not.toHaveBeenCalled();
+      expect(matchDishes).not.toHaveBeenCalled();
+    });
 
-      // Step 5: Mock retrieval of predicted triggers for response building
-      vi.spyOn(foodEntryRepo, 'getPredictedTriggersByDishEventIds').mockResolvedValue([
-        {
-          id: 'predicted-trigger-1',
-          dishId: 'dish-1',
-          dishEventId: 'dish-event-1',
-          triggerId: 'trigger-1',
-          modelVersion: 'v1-stub',
-          promptVersion: 'v1-stub',
-          createdAt: Date.now(),
-        },
-      ]);
+    it('records both model versions and flags the entry when rules stand in for a failed LLM call', async () => {
+      setLLMProvider(
+        createFakeProvider((prompt) => {
+          if (prompt.includes('User input:')) {
+            return JSON.stringify({
+              dishes: [{ dish_fragment_text: 'garlic bread', dish_name_suggestion: 'Garlic Bread' }],
+            });
+          }
+          throw new Error('LLM unavailable');
+        }),
+      );
+      vi.mocked(llmService.llmDecomposeDish).mockRestore();
+      vi.spyOn(utils, 'getAuthenticatedUserId').mockResolvedValue(mockUser.id);
+      vi.spyOn(foodEntryRepo, 'findDishesByNormalizedNames').mockResolvedValue([]);
+      vi.spyOn(foodEntryRepo, 'findDishesByAliasNames').mockResolvedValue(new Map());
+      vi.spyOn(dishMatching, 'findSimilarDishes').mockResolvedValue(new Map());
+      vi.spyOn(foodEntryRepo, 'getDefaultTriggersByDishIds').mockResolvedValue(new Map());
+      vi.spyOn(foodEntryRepo, 'getMostRecentConfirmedTriggersByDishIds').mockResolvedValue(new Map());
+      const createTransaction = vi
+        .spyOn(foodEntryRepo, 'createFoodEntryTransaction')
+        .mockResolvedValue({ entry_id: 'raw-entry-1', dishes: [] });
+
+      const result = await createFoodEntry(Date.now(), { raw_entry_text: 'garlic bread' });
+
+      // Dishes came from the LLM, triggers from the rules, so the suggestions may be incomplete
+      expect(createTransaction).toHaveBeenCalledWith(
+        expect.objectContaining({
+          modelVersion: `${FAKE_MODEL_VERSION}+${RULES_MODEL_VERSION}`,
+          dishes: [expect.objectContaining({ trigger_names: ['gluten', 'fructans'] })],
+        }),
+      );
+      expect(result.prediction_degraded).toBe(true);
+    });
 
-      // Execute the service function
-      const result = await createFoodEntry(Date.now(), {
-        raw_entry_text: 'Chocolate croissant',
+    it('predicts with the user\'s prompt variant and records it', async () => {
+      setPromptExperiment({
+        name: 'v2-rollout',
+        variants: [
+          { name: 'control', promptVersion: 'v4', weight: 0 },
+          { name: 'v2', promptVersion: 'v2', model: 'gpt-4o', weight: 1 },
+        ],
       });
+      vi.spyOn(utils, 'getAuthenticatedUserId').mockResolvedValue(mockUser.id);
+      const extractDishes = vi.spyOn(llmService, 'llmExtractDishes').mockResolvedValue([
+        { dish_fragment_text: 'toast', dish_name_suggestion: 'Toast' },
+      ]);
+      vi.spyOn(foodEntryRepo, 'findDishesByNormalizedNames').mockResolvedValue([]);
+      vi.spyOn(foodEntryRepo, 'findDishesByAliasNames').mockResolvedValue(new Map());
+      vi.spyOn(dishMatching, 'findSimilarDishes').mockResolvedValue(new Map());
+      vi.spyOn(foodEntryRepo, 'getDefaultTriggersByDishIds').mockResolvedValue(new Map());
+      vi.spyOn(foodEntryRepo, 'getMostRecentConfirmedTriggersByDishIds').mockResolvedValue(new Map());
+      const predictTriggers = vi.spyOn(llmService, 'llmPredictTriggers').mockResolvedValue(['gluten']);
+      const createTransaction = vi
+        .spyOn(foodEntryRepo, 'createFoodEntryTransaction')
+        .mockResolvedValue({ entry_id: 'raw-entry-1', dishes: [] });
+
+      await createFoodEntry(Date.now(), { raw_entry_text: 'toast' });
+
+      expect(extractDishes).toHaveBeenCalledWith('toast', 'v2', expect.objectContaining({ model: 'gpt-4o' }));
+      // v2 has no ingredient prompt, so triggers are predicted for the whole dish
+      expect(llmService.llmDecomposeDish).not.toHaveBeenCalled();
+      expect(predictTriggers).toHaveBeenCalledWith('Toast', 'toast', [], 'v2', expect.anything());
+      expect(createTransaction).toHaveBeenCalledWith(
+        expect.objectContaining({ promptVersion: 'v2', promptVariant: 'v2-rollout/v2' }),
+      );
+    });
 
-      // Verify the response structure and data
-      expect(result.entry_id).toBe('raw-entry-1');
-      expect(result.dishes).toHaveLength(1);
-      expect(result.dishes[0].dish_name).toBe('Chocolate Croissant');
-      expect(result.dishes[0].predicted_triggers).toHaveLength(1);
-      expect(result.dishes[0].predicted_triggers?.[0].trigger_name).toBe('gluten');
+    it('breaks a new dish into ingredients and combines their triggers', async () => {
+      vi.spyOn(utils, 'getAuthenticatedUserId').mockResolvedValue(mockUser.id);
+      vi.spyOn(llmService, 'llmExtractDishes').mockResolvedValue([
+        { dish_fragment_text: 'caesar salad', dish_name_suggestion: 'Caesar Salad' },
+      ]);
+      vi.spyOn(foodEntryRepo, 'findDishesByNormalizedNames').mockResolvedValue([]);
+      vi.spyOn(foodEntryRepo, 'findDishesByAliasNames').mockResolvedValue(new Map());
+      vi.spyOn(dishMatching, 'findSimilarDishes').mockResolvedValue(new Map());
+      vi.spyOn(foodEntryRepo, 'getDefaultTriggersByDishIds').mockResolvedValue(new Map());
+      vi.spyOn(foodEntryRepo, 'getMostRecentConfirmedTriggersByDishIds').mockResolvedValue(new Map());
+      vi.spyOn(llmService, 'llmDecomposeDish').mockResolvedValue([
+        { ingredient_name: 'Romaine Lettuce', trigger_names: [] },
+        { ingredient_name: 'Croutons', trigger_names: ['gluten'] },
+        { ingredient_name: 'Parmesan', trigger_names: ['dairy'] },
+      ]);
+      // The user's croutons are already known to carry dairy as well
+      const findIngredients = vi
+        .spyOn(foodEntryRepo, 'findIngredientsByNormalizedNames')
+        .mockResolvedValue([
+          {
+            id: 'ingredient-1',
+            userId: mockUser.id,
+            ingredientName: 'Croutons',
+            normalizedIngredientName: 'croutons',
+            createdAt: Date.now(),
+            triggers: [
+              { id: 'trigger-1', triggerName: 'gluten', createdAt: Date.now() },
+              { id: 'trigger-2', triggerName: 'dairy', createdAt: Date.now() },
+            ],
+          },
+        ]);
+      const predictTriggers = vi.spyOn(llmService, 'llmPredictTriggers');
+      const createTransaction = vi
+        .spyOn(foodEntryRepo, 'createFoodEntryTransaction')
+        .mockResolvedValue({ entry_id: 'raw-entry-1', dishes: [] });
+
+      await createFoodEntry(Date.now(), { raw_entry_text: 'caesar salad' });
+
+      expect(predictTriggers).not.toHaveBeenCalled();
+      expect(findIngredients).toHaveBeenCalledWith(mockUser.id, [
+        'romaine lettuce',
+        'croutons',
+        'parmesan',
+      ]);
+      expect(createTransaction.mock.calls[0][0].dishes).toEqual([
+        expect.objectContaining({
+          trigger_names: ['gluten', 'dairy'],
+          ingredients: [
+            {
+              ingredient_name: 'Romaine Lettuce',
+              normalized_ingredient_name: 'romaine lettuce',
+              trigger_names: [],
+            },
+            {
+              ingredient_name: 'Croutons',
+              normalized_ingredient_name: 'croutons',
+              trigger_names: ['gluten'],
+            },
+            {
+              ingredient_name: 'Parmesan',
+              normalized_ingredient_name: 'parmesan',
+              trigger_names: ['dairy'],
+            },
+          ],
+        }),
+      ]);
     });
 
-    /**
-     * Tests the optimization: when a dish already exists and has confirmed triggers,
-     * we copy those triggers instead of using LLM prediction (faster and more accurate)
-     */
-    /**
-     * Tests the optimization: when a dish already exists and has confirmed triggers,
-     * we copy those triggers instead of using LLM prediction (faster and more accurate)
-     */
-    it('creates a food entry with existing dish and copies triggers', async () => {
-      mockAuth();
+    it('offers the user\'s custom triggers to the LLM for new dishes', async () => {
       vi.spyOn(utils, 'getAuthenticatedUserId').mockResolvedValue(mockUser.id);
-      vi.spyOn(foodEntryRepo, 'createRawFoodEntry').mockResolvedValue({
-        id: 'raw-entry-1',
-        userId: mockUser.id,
-        rawEntryText: 'Chocolate croissant',
-        createdAt: Date.now(),
-      });
+      vi.spyOn(llmService, 'llmExtractDishes').mockResolvedValue([
+        { dish_fragment_text: 'fish tacos', dish_name_suggestion: 'Fish Tacos' },
+      ]);
+      vi.spyOn(foodEntryRepo, 'findDishesByNormalizedNames').mockResolvedValue([]);
+      vi.spyOn(foodEntryRepo, 'findDishesByAliasNames').mockResolvedValue(new Map());
+      vi.spyOn(dishMatching, 'findSimilarDishes').mockResolvedValue(new Map());
+      vi.spyOn(foodEntryRepo, 'getDefaultTriggersByDishIds').mockResolvedValue(new Map());
+      vi.spyOn(foodEntryRepo, 'getMostRecentConfirmedTriggersByDishIds').mockResolvedValue(new Map());
+      const getCustomTriggers = vi.spyOn(foodEntryRepo, 'getCustomTriggers').mockResolvedValue([
+        { id: 'trigger-cilantro', triggerName: 'Cilantro', createdAt: Date.now() },
+      ]);
+      const decomposeDish = vi.spyOn(llmService, 'llmDecomposeDish').mockResolvedValue([]);
+      const predictTriggers = vi
+        .spyOn(llmService, 'llmPredictTriggers')
+        .mockResolvedValue(['fish', 'Cilantro']);
+      const createTransaction = vi
+        .spyOn(foodEntryRepo, 'createFoodEntryTransaction')
+        .mockResolvedValue({ entry_id: 'raw-entry-1', dishes: [] });
+
+      await createFoodEntry(Date.now(), { raw_entry_text: 'fish tacos' });
+
+      expect(getCustomTriggers).toHaveBeenCalledWith(mockUser.id);
+      expect(decomposeDish).toHaveBeenCalledWith('Fish Tacos', 'fish tacos', ['Cilantro'], PROMPT_VERSION, expect.anything());
+      expect(predictTriggers).toHaveBeenCalledWith(
+        'Fish Tacos',
+        'fish tacos',
+        ['Cilantro'],
+        PROMPT_VERSION,
+        expect.anything(),
+      );
+      expect(createTransaction.mock.calls[0][0].dishes[0].trigger_names).toEqual([
+        'fish',
+        'Cilantro',
+      ]);
+    });
 
-      // Step 2: Mock LLM dish extraction
+    it('infers the meal type from the entry text', async () => {
+      vi.spyOn(utils, 'getAuthenticatedUserId').mockResolvedValue(mockUser.id);
       vi.spyOn(llmService, 'llmExtractDishes').mockResolvedValue([
-        {
-          dish_fragment_text: 'Chocolate croissant',
-          dish_name_suggestion: 'Chocolate Croissant',
-        },
+        { dish_fragment_text: 'leftover pasta', dish_name_suggestion: 'Pasta' },
       ]);
+      vi.spyOn(foodEntryRepo, 'findDishesByNormalizedNames').mockResolvedValue([]);
+      vi.spyOn(foodEntryRepo, 'findDishesByAliasNames').mockResolvedValue(new Map());
+      vi.spyOn(dishMatching, 'findSimilarDishes').mockResolvedValue(new Map());
+      vi.spyOn(foodEntryRepo, 'getDefaultTriggersByDishIds').mockResolvedValue(new Map());
+      vi.spyOn(foodEntryRepo, 'getMostRecentConfirmedTriggersByDishIds').mockResolvedValue(new Map());
+      vi.spyOn(llmService, 'llmPredictTriggers').mockResolvedValue(['gluten']);
+      const createTransaction = vi
+        .spyOn(foodEntryRepo, 'createFoodEntryTransaction')
+        .mockResolvedValue({ entry_id: 'raw-entry-1', meal_type: 'lunch', dishes: [] });
 
-      vi.spyOn(foodEntryRepo, 'createPredictedDish').mockResolvedValue({
-        id: 'predicted-dish-1',
-        rawEntryId: 'raw-entry-1',
-        dishFragmentText: 'Chocolate croissant',
-        dishNameSuggestion: 'Chocolate Croissant',
-        modelVersion: 'v1-stub',
-        promptVersion: 'v1-stub',
-        createdAt: Date.now(),
-      });
+      await createFoodEntry(Date.now(), { raw_entry_text: 'Leftover pasta for lunch' });
 
-      vi.spyOn(dishHelpers, 'findOrCreateDishForUser').mockResolvedValue({
-        id: 'dish-1',
-        userId: mockUser.id,
-        dishName: 'Chocolate Croissant',
-        normalizedDishName: 'chocolate croissant',
-        dishEmbeddingId: null,
-        createdAt: Date.now(),
-      });
+      expect(createTransaction.mock.calls[0][0].mealType).toBe('lunch');
+    });
 
-      // Key difference: existing dish has confirmed triggers from previous entries
-      // This means we should copy triggers instead of using LLM
-      vi.spyOn(dishHelpers, 'getMostRecentDishTriggers').mockResolvedValue([
-        {
-          id: 'trigger-1',
-          triggerName: 'gluten',
-          createdAt: Date.now(),
-        },
+    it('creates a food entry with existing dish and copies triggers', async () => {
+      vi.spyOn(utils, 'getAuthenticatedUserId').mockResolvedValue(mockUser.id);
+
+      vi.spyOn(llmService, 'llmExtractDishes').mockResolvedValue([
         {
-          id: 'trigger-2',
-          triggerName: 'dairy',
-          createdAt: Date.now(),
+          dish_fragment_text: 'matcha latte with oat milk',
+          dish_name_suggestion: 'Matcha Latte',
         },
       ]);
 
-      vi.spyOn(foodEntryRepo, 'createDishEvent').mockResolvedValue({
-        id: 'dish-event-1',
-        userId: mockUser.id,
-        dishId: 'dish-1',
-        predictedDishId: 'predicted-dish-1',
-        rawEntryId: 'raw-entry-1',
-        confirmedByUser: false,
-        deletedAt: null,
-        createdAt: Date.now(),
-        occurredAt: Date.now(),
-      });
-
-      vi.spyOn(foodEntryRepo, 'getTriggersByNames').mockResolvedValue([
+      vi.spyOn(foodEntryRepo, 'findDishesByNormalizedNames').mockResolvedValue([
         {
-          id: 'trigger-1',
-          triggerName: 'gluten',
+          id: 'dish-2',
+          userId: mockUser.id,
+          dishName: 'Matcha Latte',
+          normalizedDishName: 'matcha latte',
+          dishEmbeddingId: null,
+          favoritedAt: null,
           createdAt: Date.now(),
         },
+      ]);
+      vi.spyOn(foodEntryRepo, 'findDishesByAliasNames').mockResolvedValue(new Map());
+      vi.spyOn(dishMatching, 'findSimilarDishes').mockResolvedValue(new Map());
+      vi.spyOn(foodEntryRepo, 'getDefaultTriggersByDishIds').mockResolvedValue(new Map());
+      vi.spyOn(foodEntryRepo, 'getMostRecentConfirmedTriggersByDishIds').mockResolvedValue(
+        new Map([
+          [
+            'dish-2',
+            [
+              { id: 'trigger-1', triggerName: 'caffeine', createdAt: Date.now() },
+              { id: 'trigger-2', triggerName: 'dairy', createdAt: Date.now() },
+            ],
+          ],
+        ]),
+      );
+      vi.spyOn(foodEntryRepo, 'getMostRecentIngredientsByDishIds').mockResolvedValue(
+        new Map([
+          [
+            'dish-2',
+            [
+              {
+                id: 'ingredient-1',
+                userId: mockUser.id,
+                ingredientName: 'Oat Milk',
+                normalizedIngredientName: 'oat milk',
+                createdAt: Date.now(),
+                triggers: [],
+              },
+            ],
+          ],
+        ]),
+      );
+      const predictTriggers = vi.spyOn(llmService, 'llmPredictTriggers');
+      const decomposeDish = vi.spyOn(llmService, 'llmDecomposeDish');
+      const createTransaction = vi
+        .spyOn(foodEntryRepo, 'createFoodEntryTransaction')
+        .mockResolvedValue({ entry_id: 'raw-entry-1', dishes: [] });
+
+      await createFoodEntry(Date.now(), { raw_entry_text: 'matcha latte with oat milk' });
+
+      // Existing dishes never hit the LLM for triggers or ingredients
+      expect(predictTriggers).not.toHaveBeenCalled();
+      expect(decomposeDish).not.toHaveBeenCalled();
+      expect(createTransaction.mock.calls[0][0].dishes).toEqual([
         {
-          id: 'trigger-2',
-          triggerName: 'dairy',
-          createdAt: Date.now(),
+          dish_fragment_text: 'matcha latte with oat milk',
+          dish_name_suggestion: 'Matcha Latte',
+          normalized_dish_name: 'matcha latte',
+          quantity: null,
+          unit: null,
+          portion_size: null,
+          trigger_names: ['caffeine', 'dairy'],
+          ingredients: [
+            { ingredient_name: 'Oat Milk', normalized_ingredient_name: 'oat milk', trigger_names: [] },
+          ],
         },
       ]);
+    });
 
-      vi.spyOn(foodEntryRepo, 'createPredictedDishTrigger').mockResolvedValue({
-        id: 'predicted-trigger-1',
-        dishId: 'dish-1',
-        dishEventId: 'dish-event-1',
-        triggerId: 'trigger-1',
-        modelVersion: 'v1-stub',
-        promptVersion: 'v1-stub',
-        createdAt: Date.now(),
-      });
+    it('passes the extracted portion through to the transaction', async () => {
+      vi.spyOn(utils, 'getAuthenticatedUserId').mockResolvedValue(mockUser.id);
 
-      vi.spyOn(foodEntryRepo, 'getPredictedTriggersByDishEventIds').mockResolvedValue([
-        {
-          id: 'predicted-trigger-1',
-          dishId: 'dish-1',
-          dishEventId: 'dish-event-1',
-          triggerId: 'trigger-1',
-          modelVersion: 'v1-stub',
-          promptVersion: 'v1-stub',
-          createdAt: Date.now(),
-        },
+      vi.spyOn(llmService, 'llmExtractDishes').mockResolvedValue([
         {
-          id: 'predicted-trigger-2',
-          dishId: 'dish-1',
-          dishEventId: 'dish-event-1',
-          triggerId: 'trigger-2',
-          modelVersion: 'v1-stub',
-          promptVersion: 'v1-stub',
-          createdAt: Date.now(),
+          dish_fragment_text: 'two large coffees',
+          dish_name_suggestion: 'Coffee',
+          quantity: 2,
+          unit: null,
+          portion_size: 'large',
         },
       ]);
-
-      // Spy on LLM to verify it's NOT called for existing dishes
-      const llmPredictSpy = vi.spyOn(llmService, 'llmPredictTriggers');
-
-      const result = await createFoodEntry(Date.now(), {
-        raw_entry_text: 'Chocolate croissant',
+      vi.spyOn(foodEntryRepo, 'findDishesByNormalizedNames').mockResolvedValue([]);
+      vi.spyOn(foodEntryRepo, 'findDishesByAliasNames').mockResolvedValue(new Map());
+      vi.spyOn(dishMatching, 'findSimilarDishes').mockResolvedValue(new Map());
+      vi.spyOn(foodEntryRepo, 'getDefaultTriggersByDishIds').mockResolvedValue(new Map());
+      vi.spyOn(foodEntryRepo, 'getMostRecentConfirmedTriggersByDishIds').mockResolvedValue(new Map());
+      vi.spyOn(llmService, 'llmPredictTriggers').mockResolvedValue(['caffeine']);
+      const createTransaction = vi
+        .spyOn(foodEntryRepo, 'createFoodEntryTransaction')
+        .mockResolvedValue({ entry_id: 'raw-entry-1', dishes: [] });
+
+      await createFoodEntry(Date.now(), { raw_entry_text: 'two large coffees' });
+
+      expect(createTransaction.mock.calls[0][0].dishes[0]).toMatchObject({
+        dish_name_suggestion: 'Coffee',
+        quantity: 2,
+        unit: null,
+        portion_size: 'large',
       });
-
-      // Verify triggers were copied (not predicted)
-      expect(result.dishes[0].predicted_triggers).toHaveLength(2);
-      // Critical assertion: LLM should NOT be called for existing dishes
-      expect(llmPredictSpy).not.toHaveBeenCalled();
     });
 
-    it('handles multiple dishes in one entry', async () => {
-      mockAuth();
+    it('pre-fills an existing dish with its default triggers over its recent triggers', async () => {
       vi.spyOn(utils, 'getAuthenticatedUserId').mockResolvedValue(mockUser.id);
-      vi.spyOn(foodEntryRepo, 'createRawFoodEntry').mockResolvedValue({
-        id: 'raw-entry-1',
-        userId: mockUser.id,
-        rawEntryText: 'Chocolate croissant and matcha latte',
-        createdAt: Date.now(),
-      });
 
       vi.spyOn(llmService, 'llmExtractDishes').mockResolvedValue([
-        {
-          dish_fragment_text: 'Chocolate Croissant',
-          dish_name_suggestion: 'Chocolate Croissant',
-        },
-        {
-          dish_fragment_text: 'Matcha Latte',
-          dish_name_suggestion: 'Matcha Latte',
-        },
+        { dish_fragment_text: 'matcha latte', dish_name_suggestion: 'Matcha Latte' },
       ]);
-
-      vi.spyOn(foodEntryRepo, 'createPredictedDish')
-        .mockResolvedValueOnce({
-          id: 'predicted-dish-1',
-          rawEntryId: 'raw-entry-1',
-          dishFragmentText: 'Chocolate Croissant',
-          dishNameSuggestion: 'Chocolate Croissant',
-          modelVersion: 'v1-stub',
-          promptVersion: 'v1-stub',
-          createdAt: Date.now(),
-        })
-        .mockResolvedValueOnce({
-          id: 'predicted-dish-2',
-          rawEntryId: 'raw-entry-1',
-          dishFragmentText: 'Matcha Latte',
-          dishNameSuggestion: 'Matcha Latte',
-          modelVersion: 'v1-stub',
-          promptVersion: 'v1-stub',
-          createdAt: Date.now(),
-        });
-
-      vi.spyOn(dishHelpers, 'findOrCreateDishForUser')
-        .mockResolvedValueOnce({
-          id: 'dish-1',
-          userId: mockUser.id,
-          dishName: 'Chocolate Croissant',
-          normalizedDishName: 'chocolate croissant',
-          dishEmbeddingId: null,
-          createdAt: Date.now(),
-        })
-        .mockResolvedValueOnce({
+      vi.spyOn(foodEntryRepo, 'findDishesByNormalizedNames').mockResolvedValue([
+        {
           id: 'dish-2',
           userId: mockUser.id,
           dishName: 'Matcha Latte',
           normalizedDishName: 'matcha latte',
           dishEmbeddingId: null,
+          favoritedAt: null,
           createdAt: Date.now(),
-        });
+        },
+      ]);
+      vi.spyOn(foodEntryRepo, 'findDishesByAliasNames').mockResolvedValue(new Map());
+      vi.spyOn(dishMatching, 'findSimilarDishes').mockResolvedValue(new Map());
+      vi.spyOn(foodEntryRepo, 'getDefaultTriggersByDishIds').mockResolvedValue(
+        new Map([['dish-2', [{ id: 'trigger-1', triggerName: 'caffeine', createdAt: Date.now() }]]]),
+      );
+      vi.spyOn(foodEntryRepo, 'getMostRecentConfirmedTriggersByDishIds').mockResolvedValue(
+        new Map([['dish-2', [{ id: 'trigger-2', triggerName: 'dairy', createdAt: Date.now() }]]]),
+      );
+      const createTransaction = vi
+        .spyOn(foodEntryRepo, 'createFoodEntryTransaction')
+        .mockResolvedValue({ entry_id: 'raw-entry-1', dishes: [] });
 
-      vi.spyOn(dishHelpers, 'getMostRecentDishTriggers').mockResolvedValue([]);
+      await createFoodEntry(Date.now(), { raw_entry_text: 'matcha latte' });
 
-      vi.spyOn(foodEntryRepo, 'createDishEvent')
-        .mockResolvedValueOnce({
-          id: 'dish-event-1',
-          userId: mockUser.id,
-          dishId: 'dish-1',
-          predictedDishId: 'predicted-dish-1',
-          rawEntryId: 'raw-entry-1',
-          confirmedByUser: false,
-          deletedAt: null,
-          createdAt: Date.now(),
-          occurredAt: Date.now(),
-        })
-        .mockResolvedValueOnce({
-          id: 'dish-event-2',
-          userId: mockUser.id,
-          dishId: 'dish-2',
-          predictedDishId: 'predicted-dish-2',
-          rawEntryId: 'raw-entry-1',
-          confirmedByUser: false,
-          deletedAt: null,
-          createdAt: Date.now(),
-          occurredAt: Date.now(),
-        });
+      expect(createTransaction.mock.calls[0][0].dishes[0].trigger_names).toEqual(['caffeine']);
+    });
 
-      vi.spyOn(llmService, 'llmPredictTriggers')
-        .mockResolvedValueOnce(['gluten'])
-        .mockResolvedValueOnce(['caffeine']);
+    it('predicts triggers for an existing dish that has no confirmed triggers yet', async () => {
+      vi.spyOn(utils, 'getAuthenticatedUserId').mockResolvedValue(mockUser.id);
 
-      vi.spyOn(foodEntryRepo, 'getTriggersByNames').mockResolvedValue([
-        {
-          id: 'trigger-1',
-          triggerName: 'gluten',
-          createdAt: Date.now(),
-        },
-        {
-          id: 'trigger-2',
-          triggerName: 'caffeine',
-          createdAt: Date.now(),
-        },
+      vi.spyOn(llmService, 'llmExtractDishes').mockResolvedValue([
+        { dish_fragment_text: 'ramen', dish_name_suggestion: 'ramen' },
       ]);
-
-      vi.spyOn(foodEntryRepo, 'createPredictedDishTrigger').mockResolvedValue({
-        id: 'predicted-trigger-1',
-        dishId: 'dish-1',
-        dishEventId: 'dish-event-1',
-        triggerId: 'trigger-1',
-        modelVersion: 'v1-stub',
-        promptVersion: 'v1-stub',
-        createdAt: Date.now(),
-      });
-
-      vi.spyOn(foodEntryRepo, 'getPredictedTriggersByDishEventIds').mockResolvedValue([
-        {
-          id: 'predicted-trigger-1',
-          dishId: 'dish-1',
-          dishEventId: 'dish-event-1',
-          triggerId: 'trigger-1',
-          modelVersion: 'v1-stub',
-          promptVersion: 'v1-stub',
-          createdAt: Date.now(),
-        },
+      vi.spyOn(foodEntryRepo, 'findDishesByNormalizedNames').mockResolvedValue([
         {
-          id: 'predicted-trigger-2',
-          dishId: 'dish-2',
-          dishEventId: 'dish-event-2',
-          triggerId: 'trigger-2',
-          modelVersion: 'v1-stub',
-          promptVersion: 'v1-stub',
+          id: 'dish-3',
+          userId: mockUser.id,
+          dishName: 'Tonkotsu Ramen',
+          normalizedDishName: 'ramen',
+          dishEmbeddingId: null,
+          favoritedAt: null,
           createdAt: Date.now(),
         },
       ]);
-
-      const result = await createFoodEntry(Date.now(), {
-        raw_entry_text: 'Chocolate croissant and matcha latte',
+      vi.spyOn(foodEntryRepo, 'findDishesByAliasNames').mockResolvedValue(new Map());
+      vi.spyOn(dishMatching, 'findSimilarDishes').mockResolvedValue(new Map());
+      vi.spyOn(foodEntryRepo, 'getDefaultTriggersByDishIds').mockResolvedValue(new Map());
+      vi.spyOn(foodEntryRepo, 'getMostRecentConfirmedTriggersByDishIds').mockResolvedValue(new Map());
+      const predictTriggers = vi.spyOn(llmService, 'llmPredictTriggers').mockResolvedValue(['gluten']);
+      vi.spyOn(foodEntryRepo, 'createFoodEntryTransaction').mockResolvedValue({
+        entry_id: 'raw-entry-1',
+        dishes: [],
       });
 
-      expect(result.dishes).toHaveLength(2);
-      expect(result.dishes[0].dish_name).toBe('Chocolate Croissant');
-      expect(result.dishes[1].dish_name).toBe('Matcha Latte');
+      await createFoodEntry(Date.now(), { raw_entry_text: 'ramen' });
+
+      // The user's existing dish name is used for the prediction
+      expect(predictTriggers).toHaveBeenCalledWith(
+        'Tonkotsu Ramen',
+        'ramen',
+        [],
+        PROMPT_VERSION,
+        expect.anything(),
+      );
     });
-  });
 
-  /**
-   * Tests for confirmFoodEntry - the flow for confirming/updating a food entry
-   * 
-   * Flow:
-   * 1. Get dish events for the raw entry
-   * 2. For each confirmed dish:
-   *    - Verify dish exists and belongs to user
-   *    - Update dish name if changed (with conflict checking)
-   *    - Upsert confirmed triggers
-   * 3. Build response with final dish names and confirmed triggers
-   */
-  describe('confirmFoodEntry', () => {
-    it('confirms a food entry with dish name updates and triggers', async () => {
-      mockAuth();
+    it('resolves an alias of a merged dish to the dish it was merged into', async () => {
       vi.spyOn(utils, 'getAuthenticatedUserId').mockResolvedValue(mockUser.id);
 
-      // Mock dish event lookup
-      const dishEvent: DishEventRow = {
-        id: 'dish-event-1',
-        user_id: mockUser.id,
-        dish_id: 'dish-1',
-        predicted_dish_id: 'predicted-dish-1',
-        raw_entry_id: 'raw-entry-1',
-        created_at: new Date().toISOString(),
-        confirmed_by_user: false,
-        deleted_at: null,
-        occurred_at: new Date().toISOString(),
-      };
-
-      vi.spyOn(foodEntryRepo, 'getDishEventsByRawFoodEntryId').mockResolvedValue([
-        {
-          id: 'dish-event-1',
-          userId: mockUser.id,
-          dishId: 'dish-1',
-          predictedDishId: 'predicted-dish-1',
-          rawEntryId: 'raw-entry-1',
-          confirmedByUser: false,
-          deletedAt: null,
-          createdAt: Date.now(),
-          occurredAt: Date.now(),
-        },
+      vi.spyOn(llmService, 'llmExtractDishes').mockResolvedValue([
+        { dish_fragment_text: 'a latte', dish_name_suggestion: 'Latte' },
       ]);
+      vi.spyOn(foodEntryRepo, 'findDishesByNormalizedNames').mockResolvedValue([]);
+      vi.spyOn(foodEntryRepo, 'findDishesByAliasNames').mockResolvedValue(
+        new Map([
+          [
+            'latte',
+            {
+              id: 'dish-4',
+              userId: mockUser.id,
+              dishName: 'Cafe Latte',
+              normalizedDishName: 'cafe latte',
+              dishEmbeddingId: null,
+              favoritedAt: null,
+              createdAt: Date.now(),
+            },
+          ],
+        ]),
+      );
+      vi.spyOn(dishMatching, 'findSimilarDishes').mockResolvedValue(new Map());
+      vi.spyOn(foodEntryRepo, 'getDefaultTriggersByDishIds').mockResolvedValue(new Map());
+      const getRecentTriggers = vi
+        .spyOn(foodEntryRepo, 'getMostRecentConfirmedTriggersByDishIds')
+        .mockResolvedValue(
+          new Map([['dish-4', [{ id: 'trigger-1', triggerName: 'caffeine', createdAt: Date.now() }]]]),
+        );
+      const predictTriggers = vi.spyOn(llmService, 'llmPredictTriggers');
+      const createTransaction = vi
+        .spyOn(foodEntryRepo, 'createFoodEntryTransaction')
+        .mockResolvedValue({ entry_id: 'raw-entry-1', dishes: [] });
+
+      await createFoodEntry(Date.now(), { raw_entry_text: 'a latte' });
+
+      expect(getRecentTriggers).toHaveBeenCalledWith(['dish-4']);
+      expect(predictTriggers).not.toHaveBeenCalled();
+      expect(createTransaction.mock.calls[0][0].dishes[0].trigger_names).toEqual(['caffeine']);
+    });
 
-      // Mock Supabase direct query for dish lookup (used in confirmFoodEntry)
-      // This simulates: supabase.from('dish').select('*').eq('id', ...).single()
-      const dishRow: DishRow = {
-        id: 'dish-1',
-        user_id: mockUser.id,
-        dish_name: 'Chocolate Croissant',
-        normalized_dish_name: 'chocolate croissant',
-        dish_embedding_id: null,
-        created_at: new Date().toISOString(),
-      };
+    it('reuses a similar existing dish and marks it for confirmation', async () => {
+      vi.spyOn(utils, 'getAuthenticatedUserId').mockResolvedValue(mockUser.id);
 
-      // Track call count to return different responses for different queries
-      let callCount = 0;
-      const single = vi.fn().mockImplementation(() => {
-        callCount++;
-        if (callCount === 1) {
-          // First call: get the dish by ID to verify it exists
-          return Promise.resolve({ data: dishRow, error: null });
-        }
-        // Second call: check if another dish with the new normalized name exists
-        // (to prevent name conflicts)
-        return Promise.resolve({ data: null, error: { code: 'PGRST116', message: 'not found' } });
-      });
+      vi.spyOn(llmService, 'llmExtractDishes').mockResolvedValue([
+        { dish_fragment_text: 'spag bol', dish_name_suggestion: 'Spag Bol' },
+      ]);
+      vi.spyOn(foodEntryRepo, 'findDishesByNormalizedNames').mockResolvedValue([]);
+      vi.spyOn(foodEntryRepo, 'findDishesByAliasNames').mockResolvedValue(new Map());
+      const findSimilar = vi.spyOn(dishMatching, 'findSimilarDishes').mockResolvedValue(
+        new Map([
+          [
+            'Spag Bol',
+            {
+              dish: {
+                id: 'dish-5',
+                userId: mockUser.id,
+                dishName: 'Spaghetti Bolognese',
+                normalizedDishName: 'spaghetti bolognese',
+                dishEmbeddingId: 'embedding-5',
+                favoritedAt: null,
+                createdAt: Date.now(),
+              },
+              similarity: 0.82,
+            },
+          ],
+        ]),
+      );
+      vi.spyOn(foodEntryRepo, 'getDefaultTriggersByDishIds').mockResolvedValue(new Map());
+      vi.spyOn(foodEntryRepo, 'getMostRecentConfirmedTriggersByDishIds').mockResolvedValue(
+        new Map([['dish-5', [{ id: 'trigger-1', triggerName: 'gluten', createdAt: Date.now() }]]]),
+      );
+      const predictTriggers = vi.spyOn(llmService, 'llmPredictTriggers');
+      const createTransaction = vi
+        .spyOn(foodEntryRepo, 'createFoodEntryTransaction')
+        .mockResolvedValue({
+          entry_id: 'raw-entry-1',
+          dishes: [
+            {
+              dish_event_id: 'dish-event-1',
+              dish_id: 'dish-5',
+              dish_name: 'Spaghetti Bolognese',
+              predicted_triggers: [{ trigger_id: 'trigger-1', trigger_name: 'gluten' }],
+            },
+          ],
+        });
 
-      const eq2 = vi.fn().mockReturnValue({ single });
-      const eq1 = vi.fn().mockReturnValue({ eq: eq2, single });
-      const select = vi.fn().mockReturnValue({ eq: eq1, single });
-      (supabase as any).from = vi.fn().mockReturnValue({ select });
+      const result = await createFoodEntry(Date.now(), { raw_entry_text: 'spag bol' });
 
-      // Mock dish name update (will be called since name changed)
-      vi.spyOn(foodEntryRepo, 'updateDish').mockResolvedValue({
-        id: 'dish-1',
-        userId: mockUser.id,
-        dishName: 'Updated Chocolate Croissant',
-        normalizedDishName: 'updated chocolate croissant',
-        dishEmbeddingId: null,
-        createdAt: Date.now(),
+      expect(findSimilar).toHaveBeenCalledWith(['Spag Bol']);
+      expect(predictTriggers).not.toHaveBeenCalled();
+      // Written against the matched dish, keeping the LLM's suggestion on the predicted dish
+      expect(createTransaction.mock.calls[0][0].dishes[0]).toMatchObject({
+        dish_name_suggestion: 'Spag Bol',
+        normalized_dish_name: 'spaghetti bolognese',
+        trigger_names: ['gluten'],
       });
+      expect(result.dishes[0].matched_dish_name_suggestion).toBe('Spag Bol');
+    });
 
-      // Mock trigger upsert (deletes old triggers, inserts new ones)
-      vi.spyOn(dishHelpers, 'upsertDishTriggersForEvent').mockResolvedValue(undefined);
+    it('handles multiple dishes in one entry', async () => {
+      vi.spyOn(utils, 'getAuthenticatedUserId').mockResolvedValue(mockUser.id);
 
-      vi.spyOn(foodEntryRepo, 'getConfirmedTriggersByDishEventIds').mockResolvedValue([
-        {
-          id: 'dish-trigger-1',
-          dishId: 'dish-1',
-          dishEventId: 'dish-event-1',
-          triggerId: 'trigger-1',
-          createdAt: Date.now(),
-        },
+      vi.spyOn(llmService, 'llmExtractDishes').mockResolvedValue([
+        { dish_fragment_text: 'Chocolate croissant', dish_name_suggestion: 'Chocolate Croissant' },
+        { dish_fragment_text: 'matcha latte', dish_name_suggestion: 'Matcha Latte' },
       ]);
+      vi.spyOn(foodEntryRepo, 'findDishesByNormalizedNames').mockResolvedValue([]);
+      vi.spyOn(foodEntryRepo, 'findDishesByAliasNames').mockResolvedValue(new Map());
+      vi.spyOn(dishMatching, 'findSimilarDishes').mockResolvedValue(new Map());
+      vi.spyOn(foodEntryRepo, 'getDefaultTriggersByDishIds').mockResolvedValue(new Map());
+      vi.spyOn(foodEntryRepo, 'getMostRecentConfirmedTriggersByDishIds').mockResolvedValue(new Map());
+      vi.spyOn(llmService, 'llmPredictTriggers')
+        .mockResolvedValueOnce(['gluten'])
+        .mockResolvedValueOnce(['caffeine', 'dairy']);
+      const createTransaction = vi
+        .spyOn(foodEntryRepo, 'createFoodEntryTransaction')
+        .mockResolvedValue({ entry_id: 'raw-entry-1', dishes: [] });
 
-      vi.spyOn(foodEntryRepo, 'getTriggerById').mockResolvedValue({
-        id: 'trigger-1',
-        triggerName: 'gluten',
-        createdAt: Date.now(),
-      });
-
-      // Mock updateDishEventConfirmation
-      vi.spyOn(foodEntryRepo, 'updateDishEventConfirmation').mockResolvedValue(undefined);
-
-      const result = await confirmFoodEntry('raw-entry-1', {
-        occurred_at: Date.now(),
-        confirmed_dishes: [
-          {
-            dish_event_id: 'dish-event-1',
-            dish_id: 'dish-1',
-            final_dish_name: 'Updated Chocolate Croissant',
-            trigger_ids: ['trigger-1'],
-          },
-        ],
+      await createFoodEntry(Date.now(), {
+        raw_entry_text: 'Chocolate croissant and matcha latte',
       });
 
-      expect(result.entry_id).toBe('raw-entry-1');
-      expect(result.dishes).toHaveLength(1);
-      expect(result.dishes[0].dish_name).toBe('Updated Chocolate Croissant');
-      expect(result.dishes[0].triggers).toHaveLength(1);
-      expect(result.dishes[0].triggers?.[0].trigger_name).toBe('gluten');
+      // Both dishes are written in a single transaction
+      expect(createTransaction).toHaveBeenCalledTimes(1);
+      expect(createTransaction.mock.calls[0][0].dishes).toEqual([
+        expect.objectContaining({ normalized_dish_name: 'chocolate croissant', trigger_names: ['gluten'] }),
+        expect.objectContaining({ normalized_dish_name: 'matcha latte', trigger_names: ['caffeine', 'dairy'] }),
+      ]);
     });
 
-    /**
-     * Tests optimization: skip database update when dish name hasn't changed
-     * This avoids unnecessary database writes
-     */
-    it('does not update dish name when unchanged', async () => {
-      mockAuth();
+    it('writes nothing when trigger prediction fails', async () => {
       vi.spyOn(utils, 'getAuthenticatedUserId').mockResolvedValue(mockUser.id);
 
-      vi.spyOn(foodEntryRepo, 'getDishEventsByRawFoodEntryId').mockResolvedValue([
-        {
-          id: 'dish-event-1',
-          userId: mockUser.id,
-          dishId: 'dish-1',
-          predictedDishId: 'predicted-dish-1',
-          rawEntryId: 'raw-entry-1',
-          confirmedByUser: false,
-          deletedAt: null,
-          createdAt: Date.now(),
-          occurredAt: Date.now(),
-        },
+      vi.spyOn(llmService, 'llmExtractDishes').mockResolvedValue([
+        { dish_fragment_text: 'Chocolate croissant', dish_name_suggestion: 'Chocolate Croissant' },
+        { dish_fragment_text: 'matcha latte', dish_name_suggestion: 'Matcha Latte' },
       ]);
+      vi.spyOn(foodEntryRepo, 'findDishesByNormalizedNames').mockResolvedValue([]);
+      vi.spyOn(foodEntryRepo, 'findDishesByAliasNames').mockResolvedValue(new Map());
+      vi.spyOn(dishMatching, 'findSimilarDishes').mockResolvedValue(new Map());
+      vi.spyOn(foodEntryRepo, 'getDefaultTriggersByDishIds').mockResolvedValue(new Map());
+      vi.spyOn(foodEntryRepo, 'getMostRecentConfirmedTriggersByDishIds').mockResolvedValue(new Map());
+      vi.spyOn(llmService, 'llmPredictTriggers')
+        .mockResolvedValueOnce(['gluten'])
+        .mockRejectedValueOnce(new Error('LLM unavailable'));
+      const createTransaction = vi.spyOn(foodEntryRepo, 'createFoodEntryTransaction');
 
-      const dishRow: DishRow = {
-        id: 'dish-1',
-        user_id: mockUser.id,
-        dish_name: 'Chocolate Croissant',
-        normalized_dish_name: 'chocolate croissant',
-        dish_embedding_id: null,
-        created_at: new Date().toISOString(),
-      };
+      await expect(
+        createFoodEntry(Date.now(), { raw_entry_text: 'Chocolate croissant and matcha latte' }),
+      ).rejects.toThrow('LLM unavailable');
 
-      const single = vi.fn().mockReturnValue(Promise.resolve({ data: dishRow, error: null }));
-      const eq2 = vi.fn().mockReturnValue({ single });
-      const eq1 = vi.fn().mockReturnValue({ eq: eq2, single });
-      const select = vi.fn().mockReturnValue({ eq: eq1, single });
-      (supabase as any).from = vi.fn().mockReturnValue({ select });
+      expect(createTransaction).not.toHaveBeenCalled();
+    });
 
-      vi.spyOn(dishHelpers, 'upsertDishTriggersForEvent').mockResolvedValue(undefined);
+    it('runs LLM trigger predictions for new dishes concurrently', async () => {
+      vi.spyOn(utils, 'getAuthenticatedUserId').mockResolvedValue(mockUser.id);
 
-      vi.spyOn(foodEntryRepo, 'getConfirmedTriggersByDishEventIds').mockResolvedValue([
-        {
-          id: 'dish-trigger-1',
-          dishId: 'dish-1',
-          dishEventId: 'dish-event-1',
-          triggerId: 'trigger-1',
-          createdAt: Date.now(),
-        },
+      vi.spyOn(llmService, 'llmExtractDishes').mockResolvedValue([
+        { dish_fragment_text: 'Chocolate croissant', dish_name_suggestion: 'Chocolate Croissant' },
+        { dish_fragment_text: 'matcha latte', dish_name_suggestion: 'Matcha Latte' },
+        { dish_fragment_text: 'fruit salad', dish_name_suggestion: 'Fruit Salad' },
       ]);
-
-      vi.spyOn(foodEntryRepo, 'getTriggerById').mockResolvedValue({
-        id: 'trigger-1',
-        triggerName: 'gluten',
-        createdAt: Date.now(),
+      vi.spyOn(foodEntryRepo, 'findDishesByNormalizedNames').mockResolvedValue([]);
+      vi.spyOn(foodEntryRepo, 'findDishesByAliasNames').mockResolvedValue(new Map());
+      vi.spyOn(dishMatching, 'findSimilarDishes').mockResolvedValue(new Map());
+      vi.spyOn(foodEntryRepo, 'getDefaultTriggersByDishIds').mockResolvedValue(new Map());
+      vi.spyOn(foodEntryRepo, 'getMostRecentConfirmedTriggersByDishIds').mockResolvedValue(new Map());
+      vi.spyOn(foodEntryRepo, 'createFoodEntryTransaction').mockResolvedValue({
+        entry_id: 'raw-entry-1',
+        dishes: [],
       });
 
-      // Spy on updateDish to verify it's NOT called when name is unchanged
-      const updateDishSpy = vi.spyOn(foodEntryRepo, 'updateDish');
-
-      // Mock updateDishEventConfirmation
-      vi.spyOn(foodEntryRepo, 'updateDishEventConfirmation').mockResolvedValue(undefined);
+      // Hold every prediction open until all of them have started
+      let inFlight = 0;
+      let maxInFlight = 0;
+      const pending: Array<() => void> = [];
+      vi.spyOn(llmService, 'llmPredictTriggers').mockImplementation(async () => {
+        inFlight++;
+        maxInFlight = Math.max(maxInFlight, inFlight);
+        await new Promise<void>((resolve) => pending.push(resolve));
+        inFlight--;
+        return [];
+      });
 
-      const result = await confirmFoodEntry('raw-entry-1', {
-        occurred_at: Date.now(),
-        confirmed_dishes: [
-          {
-            dish_event_id: 'dish-event-1',
-            dish_id: 'dish-1',
-            final_dish_name: 'Chocolate Croissant', // Same as existing name
-            trigger_ids: ['trigger-1'],
-          },
-        ],
+      const resultPromise = createFoodEntry(Date.now(), {
+        raw_entry_text: 'Chocolate croissant, matcha latte and fruit salad',
       });
+      await vi.waitFor(() => expect(pending).toHaveLength(3));
+      pending.forEach((resolve) => resolve());
+      await resultPromise;
 
-      // Critical assertion: updateDish should NOT be called when name is unchanged
-      expect(updateDishSpy).not.toHaveBeenCalled();
-      expect(result.dishes[0].dish_name).toBe('Chocolate Croissant');
+      expect(maxInFlight).toBe(3);
     });
 
-    it('throws error when dish event not found', async () => {
-      mockAuth();
+    it('uses a constant number of queries regardless of dish count', async () => {
       vi.spyOn(utils, 'getAuthenticatedUserId').mockResolvedValue(mockUser.id);
+      setEmbedder(createLocalEmbedder());
+      vi.mocked(foodEntryRepo.getMostRecentIngredientsByDishIds).mockRestore();
+      vi.mocked(foodEntryRepo.getCustomTriggers).mockRestore();
+      vi.mocked(profileRepo.getAiPredictionsEnabled).mockRestore();
+      vi.spyOn(llmService, 'llmPredictTriggers').mockResolvedValue(['gluten']);
 
-      vi.spyOn(foodEntryRepo, 'getDishEventsByRawFoodEntryId').mockResolvedValue([]);
+      // Half of the dishes already exist with confirmed triggers; the rest are new.
+      // The user also has an unrelated dish, so new names always go through similarity matching.
+      const countRequests = async (dishCount: number) => {
+        const names = Array.from({ length: dishCount }, (_, i) => `Dish ${i}`);
+        vi.spyOn(llmService, 'llmExtractDishes').mockResolvedValue(
+          names.map((name) => ({ dish_fragment_text: name, dish_name_suggestion: name })),
+        );
+
+        const existingNames = names.slice(0, Math.floor(dishCount / 2));
+        const dishRows = [...existingNames, 'Leftover Dish'].map((name, i) => ({
+          id: `dish-${i}`,
+          user_id: mockUser.id,
+          dish_name: name,
+          normalized_dish_name: name.toLowerCase(),
+          dish_embedding_id: null,
+          favorited_at: null,
+          created_at: new Date().toISOString(),
+        }));
+        const requests = mockSupabaseRequests(
+          {
+            dish: dishRows,
+            dish_events: existingNames.map((_, i) => ({
+              dish_id: `dish-${i}`,
+              created_at: new Date().toISOString(),
+              dish_triggers: [
+                {
+                  triggers: {
+                    id: 'trigger-1',
+                    trigger_name: 'dairy',
+                    created_at: new Date().toISOString(),
+                  },
+                },
+              ],
+            })),
+          },
+          {
+            get_dishes_missing_embedding: dishRows,
+            create_food_entry: { entry_id: 'raw-entry-1', dishes: [] },
+          },
+        );
 
-      await expect(
-        confirmFoodEntry('raw-entry-1', {
-          confirmed_dishes: [
-            {
-              dish_event_id: 'nonexistent',
-              dish_id: 'dish-1',
-              final_dish_name: 'Test',
-              trigger_ids: [],
-            },
-          ],
-          occurred_at: Date.now(),
-        }),
-      ).rejects.toThrow('Dish event not found: nonexistent');
+        await createFoodEntry(Date.now(), { raw_entry_text: names.join(', ') });
+        return requests;
+      };
+
+      const singleDishRequests = await countRequests(1);
+      const fiveDishRequests = await countRequests(5);
+      const twentyDishRequests = await countRequests(20);
+
+      // profiles: the AI suggestions setting; dish + dish_alias: exact lookups; the three RPCs of
+      // similarity matching (existing dishes are embedded on first use); dish_default_triggers + dish_events:
+      // trigger profiles of existing dishes; dish_events: their last ingredients; triggers: the
+      // user's custom triggers
+      expect(singleDishRequests).toEqual([
+        'profiles',
+        'dish',
+        'dish_alias',
+        'rpc:get_dishes_missing_embedding',
+        'rpc:save_dish_embeddings',
+        'rpc:match_dishes',
+        'dish_default_triggers',
+        'dish_events',
+        'dish_events',
+        'triggers',
+        'rpc:create_food_entry',
+      ]);
+      expect(fiveDishRequests).toEqual(singleDishRequests);
+      expect(twentyDishRequests).toEqual(singleDishRequests);
     });
 
-    it('throws error when dish not found', async () => {
-      mockAuth();
+    it('propagates transaction errors', async () => {
       vi.spyOn(utils, 'getAuthenticatedUserId').mockResolvedValue(mockUser.id);
 
-      vi.spyOn(foodEntryRepo, 'getDishEventsByRawFoodEntryId').mockResolvedValue([
-        {
-          id: 'dish-event-1',
-          userId: mockUser.id,
-          dishId: 'dish-1',
-          predictedDishId: 'predicted-dish-1',
-          rawEntryId: 'raw-entry-1',
-          confirmedByUser: false,
-          deletedAt: null,
-          createdAt: Date.now(),
-          occurredAt: Date.now(),
-        },
+      vi.spyOn(llmService, 'llmExtractDishes').mockResolvedValue([
+        { dish_fragment_text: 'Chocolate croissant', dish_name_suggestion: 'Chocolate Croissant' },
       ]);
-
-      const single = vi.fn().mockReturnValue(
-        Promise.resolve({ data: null, error: { message: 'not found' } }),
+      vi.spyOn(foodEntryRepo, 'findDishesByNormalizedNames').mockResolvedValue([]);
+      vi.spyOn(foodEntryRepo, 'findDishesByAliasNames').mockResolvedValue(new Map());
+      vi.spyOn(dishMatching, 'findSimilarDishes').mockResolvedValue(new Map());
+      vi.spyOn(foodEntryRepo, 'getDefaultTriggersByDishIds').mockResolvedValue(new Map());
+      vi.spyOn(foodEntryRepo, 'getMostRecentConfirmedTriggersByDishIds').mockResolvedValue(new Map());
+      vi.spyOn(llmService, 'llmPredictTriggers').mockResolvedValue(['gluten']);
+      vi.spyOn(foodEntryRepo, 'createFoodEntryTransaction').mockRejectedValue(
+        new Error('Database error'),
       );
-      const eq2 = vi.fn().mockReturnValue({ single });
-      const eq1 = vi.fn().mockReturnValue({ eq: eq2, single });
-      const select = vi.fn().mockReturnValue({ eq: eq1, single });
-      (supabase as any).from = vi.fn().mockReturnValue({ select });
 
       await expect(
-        confirmFoodEntry('raw-entry-1', {
-          confirmed_dishes: [
-            {
-              dish_event_id: 'dish-event-1',
-              dish_id: 'dish-1',
-              final_dish_name: 'Test',
-              trigger_ids: [],
-            },
-          ],
-          occurred_at: Date.now(),
-        }),
-      ).rejects.toThrow('Dish not found: not found');
+        createFoodEntry(Date.now(), { raw_entry_text: 'Chocolate croissant' }),
+      ).rejects.toThrow('Database error');
     });
+  });
 
-    it('throws error when dish does not belong to user', async () => {
-      mockAuth();
+  describe('quickLogDish', () => {
+    it('logs the dish with its trigger profile without calling the LLM', async () => {
       vi.spyOn(utils, 'getAuthenticatedUserId').mockResolvedValue(mockUser.id);
-
-      vi.spyOn(foodEntryRepo, 'getDishEventsByRawFoodEntryId').mockResolvedValue([
+      vi.spyOn(foodEntryRepo, 'getDefaultTriggersByDishIds').mockResolvedValue(new Map());
+      vi.spyOn(foodEntryRepo, 'getMostRecentConfirmedTriggersByDishIds').mockResolvedValue(
+        new Map([
+          [
+            'dish-2',
+            [
+              { id: 'trigger-1', triggerName: 'caffeine', createdAt: Date.now() },
+              { id: 'trigger-2', triggerName: 'dairy', createdAt: Date.now() },
+            ],
+          ],
+        ]),
+      );
+      vi.spyOn(foodEntryRepo, 'getDishesByIds').mockResolvedValue([
         {
-          id: 'dish-event-1',
+          id: 'dish-2',
           userId: mockUser.id,
-          dishId: 'dish-1',
-          predictedDishId: 'predicted-dish-1',
-          rawEntryId: 'raw-entry-1',
-          confirmedByUser: false,
-          deletedAt: null,
-          createdAt: Date.now(),
-          occurredAt: Date.now(),
+          dishName: 'Matcha Latte',
+          normalizedDishName: 'matcha latte',
+          dishEmbeddingId: null,
+          favoritedAt: null,
+          createdAt: 1000,
         },
       ]);
-
-      const dishRow: DishRow = {
-        id: 'dish-1',
-        user_id: 'other-user', // Different user
-        dish_name: 'Chocolate Croissant',
-        normalized_dish_name: 'chocolate croissant',
-        dish_embedding_id: null,
-        created_at: new Date().toISOString(),
+      const extractDishes = vi.spyOn(llmService, 'llmExtractDishes');
+      const predictTriggers = vi.spyOn(llmService, 'llmPredictTriggers');
+      const expectedResponse = {
+        entry_id: 'raw-entry-1',
+        dishes: [
+          {
+            dish_event_id: 'dish-event-1',
+            dish_id: 'dish-2',
+            dish_name: 'Matcha Latte',
+            triggers: [
+              { trigger_id: 'trigger-1', trigger_name: 'caffeine' },
+              { trigger_id: 'trigger-2', trigger_name: 'dairy' },
+            ],
+          },
+        ],
       };
+      const quickLog = vi
+        .spyOn(foodEntryRepo, 'quickLogDishTransaction')
+        .mockResolvedValue(expectedResponse);
+
+      const occurredAt = Date.now();
+      const result = await quickLogDish('dish-2', occurredAt);
+
+      expect(quickLog).toHaveBeenCalledWith({
+        dishId: 'dish-2',
+        occurredAt,
+        triggerIds: ['trigger-1', 'trigger-2'],
+        // A dish that is only a drink is logged as one, whatever the time
+        mealType: 'drink',
+      });
+      expect(extractDishes).not.toHaveBeenCalled();
+      expect(predictTriggers).not.toHaveBeenCalled();
+      expect(result).toEqual(expectedResponse);
+    });
 
-      const single = vi.fn().mockReturnValue(Promise.resolve({ data: dishRow, error: null }));
-      const eq2 = vi.fn().mockReturnValue({ single });
-      const eq1 = vi.fn().mockReturnValue({ eq: eq2, single });
-      const select = vi.fn().mockReturnValue({ eq: eq1, single });
-      (supabase as any).from = vi.fn().mockReturnValue({ select });
+    it('logs a dish without any known triggers', async () => {
+      vi.spyOn(utils, 'getAuthenticatedUserId').mockResolvedValue(mockUser.id);
+      vi.spyOn(foodEntryRepo, 'getDefaultTriggersByDishIds').mockResolvedValue(new Map());
+      vi.spyOn(foodEntryRepo, 'getMostRecentConfirmedTriggersByDishIds').mockResolvedValue(new Map());
+      vi.spyOn(foodEntryRepo, 'getDishesByIds').mockResolvedValue([]);
+      const quickLog = vi
+        .spyOn(foodEntryRepo, 'quickLogDishTransaction')
+        .mockResolvedValue({ entry_id: 'raw-entry-1', dishes: [] });
 
-      await expect(
-        confirmFoodEntry('raw-entry-1', {
-          confirmed_dishes: [
-            {
-              dish_event_id: 'dish-event-1',
-              dish_id: 'dish-1',
-              final_dish_name: 'Test',
-              trigger_ids: [],
-            },
-          ],
-          occurred_at: Date.now(),
-        }),
-      ).rejects.toThrow('Dish does not belong to the user');
+      await quickLogDish('dish-3', Date.now());
+
+      expect(quickLog.mock.calls[0][0].triggerIds).toEqual([]);
     });
+  });
 
-    /**
-     * Tests validation: prevent updating dish name to one that already exists
-     * This prevents duplicate dishes with the same normalized name
-     */
-    it('throws error when dish name update would conflict with existing dish', async () => {
-      mockAuth();
+  /**
+   * Tests for confirmFoodEntry - the flow for confirming/updating a food entry
+   * 
+   * Dish name updates (with conflict checking), confirmed triggers, occurred_at and the
+   * confirmation flag are applied in a single transaction (confirm_food_entry RPC).
+   * The service normalizes final dish names and forwards the request.
+   */
+  describe('confirmFoodEntry', () => {
+    it('confirms a food entry with normalized dish names and triggers', async () => {
       vi.spyOn(utils, 'getAuthenticatedUserId').mockResolvedValue(mockUser.id);
 
-      vi.spyOn(foodEntryRepo, 'getDishEventsByRawFoodEntryId').mockResolvedValue([
-        {
-          id: 'dish-event-1',
-          userId: mockUser.id,
-          dishId: 'dish-1',
-          predictedDishId: 'predicted-dish-1',
-          rawEntryId: 'raw-entry-1',
-          confirmedByUser: false,
-          deletedAt: null,
-          createdAt: Date.now(),
-          occurredAt: Date.now(),
-        },
-      ]);
-
-      const dishRow: DishRow = {
-        id: 'dish-1',
-        user_id: mockUser.id,
-        dish_name: 'Chocolate Croissant',
-        normalized_dish_name: 'chocolate croissant',
-        dish_embedding_id: null,
-        created_at: new Date().toISOString(),
+      const expectedResponse = {
+        entry_id: 'raw-entry-1',
+        dishes: [
+          {
+            dish_event_id: 'dish-event-1',
+            dish_id: 'dish-1',
+            dish_name: '  Chocolate Croissant ',
+            triggers: [{ trigger_id: 'trigger-1', trigger_name: 'gluten' }],
+          },
+        ],
       };
+      const confirmTransaction = vi
+        .spyOn(foodEntryRepo, 'confirmFoodEntryTransaction')
+        .mockResolvedValue(expectedResponse);
 
-      let callCount = 0;
-      const single = vi.fn().mockImplementation(() => {
-        callCount++;
-        if (callCount === 1) {
-          // First call: get the dish we're trying to update
-          return Promise.resolve({ data: dishRow, error: null });
-        }
-        // Second call: check if another dish with the new normalized name exists
-        // Returns a different dish ID, indicating a conflict
-        return Promise.resolve({
-          data: { id: 'dish-2' }, // Different dish ID = conflict!
-          error: null,
-        });
+      const occurredAt = Date.now();
+      const result = await confirmFoodEntry('raw-entry-1', {
+        occurred_at: occurredAt,
+        confirmed_dishes: [
+          {
+            dish_event_id: 'dish-event-1',
+            dish_id: 'dish-1',
+            final_dish_name: '  Chocolate Croissant ',
+            trigger_ids: ['trigger-1'],
+          },
+        ],
       });
 
-      const eq2 = vi.fn().mockReturnValue({ single });
-      const eq1 = vi.fn().mockReturnValue({ eq: eq2, single });
-      const select = vi.fn().mockReturnValue({ eq: eq1, single });
-      (supabase as any).from = vi.fn().mockReturnValue({ select });
-
-      await expect(
-        confirmFoodEntry('raw-entry-1', {
-          confirmed_dishes: [
-            {
-              dish_event_id: 'dish-event-1',
-              dish_id: 'dish-1',
-              final_dish_name: 'Existing Dish Name',
-              trigger_ids: [],
-            },
-          ],
-          occurred_at: Date.now(),
-        }),
-      ).rejects.toThrow('Cannot update dish name: a dish with normalized name');
+      expect(confirmTransaction).toHaveBeenCalledWith({
+        rawEntryId: 'raw-entry-1',
+        occurredAt,
+        mealType: null,
+        confirmedDishes: [
+          {
+            dish_event_id: 'dish-event-1',
+            dish_id: 'dish-1',
+            final_dish_name: '  Chocolate Croissant ',
+            normalized_dish_name: 'chocolate croissant',
+            quantity: null,
+            unit: null,
+            portion_size: null,
+            trigger_ids: ['trigger-1'],
+            ingredient_ids: null,
+          },
+        ],
+        deletedDishEventIds: [],
+      });
+      expect(result).toEqual(expectedResponse);
     });
 
-    /**
-     * Tests handling of multiple dishes in a single entry
-     * Verifies that each dish is processed independently
-     */
-    it('handles multiple confirmed dishes', async () => {
-      mockAuth();
+    it('passes added and deleted dishes to the transaction', async () => {
       vi.spyOn(utils, 'getAuthenticatedUserId').mockResolvedValue(mockUser.id);
+      const confirmTransaction = vi
+        .spyOn(foodEntryRepo, 'confirmFoodEntryTransaction')
+        .mockResolvedValue({ entry_id: 'raw-entry-1', dishes: [] });
 
-      // Mock two dish events for the same raw entry
-      vi.spyOn(foodEntryRepo, 'getDishEventsByRawFoodEntryId').mockResolvedValue([
-        {
-          id: 'dish-event-1',
-          userId: mockUser.id,
-          dishId: 'dish-1',
-          predictedDishId: 'predicted-dish-1',
-          rawEntryId: 'raw-entry-1',
-          confirmedByUser: false,
-          deletedAt: null,
-          createdAt: Date.now(),
-          occurredAt: Date.now(),
-        },
-        {
-          id: 'dish-event-2',
-          userId: mockUser.id,
-          dishId: 'dish-2',
-          predictedDishId: 'predicted-dish-2',
-          rawEntryId: 'raw-entry-1',
-          createdAt: Date.now(),
-          confirmedByUser: false,
-          deletedAt: null,
-          occurredAt: Date.now(),
-        },
-      ]);
-
-      const dishRow1: DishRow = {
-        id: 'dish-1',
-        user_id: mockUser.id,
-        dish_name: 'Chocolate Croissant',
-        normalized_dish_name: 'chocolate croissant',
-        dish_embedding_id: null,
-        created_at: new Date().toISOString(),
-      };
-
-      const dishRow2: DishRow = {
-        id: 'dish-2',
-        user_id: mockUser.id,
-        dish_name: 'Matcha Latte',
-        normalized_dish_name: 'matcha latte',
-        dish_embedding_id: null,
-        created_at: new Date().toISOString(),
-      };
+      await confirmFoodEntry('raw-entry-1', {
+        occurred_at: Date.now(),
+        confirmed_dishes: [
+          { dish_event_id: null, dish_id: null, final_dish_name: 'Orange Juice', trigger_ids: [] },
+        ],
+        deleted_dish_event_ids: ['dish-event-2'],
+      });
 
-      // Track call count to return correct dish for each query
-      let callCount = 0;
-      const single = vi.fn().mockImplementation(() => {
-        callCount++;
-        // First dish lookup (callCount 1)
-        if (callCount === 1) {
-          return Promise.resolve({
-            data: dishRow1,
-            error: null,
-          });
-        }
-        // Second dish lookup (callCount 2)
-        if (callCount === 2) {
-          return Promise.resolve({
-            data: dishRow2,
-            error: null,
-          });
-        }
-        // If names were changed, we'd check for conflicts (callCount 3, 4, etc.)
-        // In this test, names don't change, so these calls won't happen
-        return Promise.resolve({ data: null, error: { code: 'PGRST116', message: 'not found' } });
+      const args = confirmTransaction.mock.calls[0][0];
+      expect(args.confirmedDishes[0]).toMatchObject({
+        dish_event_id: null,
+        dish_id: null,
+        normalized_dish_name: 'orange juice',
       });
+      expect(args.deletedDishEventIds).toEqual(['dish-event-2']);
+    });
 
-      const eq2 = vi.fn().mockReturnValue({ single });
-      const eq1 = vi.fn().mockReturnValue({ eq: eq2, single });
-      const select = vi.fn().mockReturnValue({ eq: eq1, single });
-      (supabase as any).from = vi.fn().mockReturnValue({ select });
+    it('passes the ingredients left in each dish to the transaction', async () => {
+      vi.spyOn(utils, 'getAuthenticatedUserId').mockResolvedValue(mockUser.id);
+      const confirmTransaction = vi
+        .spyOn(foodEntryRepo, 'confirmFoodEntryTransaction')
+        .mockResolvedValue({ entry_id: 'raw-entry-1', dishes: [] });
 
-      vi.spyOn(dishHelpers, 'upsertDishTriggersForEvent').mockResolvedValue(undefined);
+      await confirmFoodEntry('raw-entry-1', {
+        occurred_at: Date.now(),
+        confirmed_dishes: [
+          {
+            dish_event_id: 'dish-event-1',
+            dish_id: 'dish-1',
+            final_dish_name: 'Caesar Salad',
+            trigger_ids: ['trigger-2'],
+            ingredient_ids: ['ingredient-1', 'ingredient-3'],
+          },
+        ],
+      });
 
-      vi.spyOn(foodEntryRepo, 'getConfirmedTriggersByDishEventIds').mockResolvedValue([
-        {
-          id: 'dish-trigger-1',
-          dishId: 'dish-1',
-          dishEventId: 'dish-event-1',
-          triggerId: 'trigger-1',
-          createdAt: Date.now(),
-        },
-        {
-          id: 'dish-trigger-2',
-          dishId: 'dish-2',
-          dishEventId: 'dish-event-2',
-          triggerId: 'trigger-2',
-          createdAt: Date.now(),
-        },
+      expect(confirmTransaction.mock.calls[0][0].confirmedDishes[0].ingredient_ids).toEqual([
+        'ingredient-1',
+        'ingredient-3',
       ]);
+    });
 
-      vi.spyOn(foodEntryRepo, 'getTriggerById')
-        .mockResolvedValueOnce({
-          id: 'trigger-1',
-          triggerName: 'gluten',
-          createdAt: Date.now(),
-        })
-        .mockResolvedValueOnce({
-          id: 'trigger-2',
-          triggerName: 'caffeine',
-          createdAt: Date.now(),
-        });
+    it('passes confirmed portions to the transaction', async () => {
+      vi.spyOn(utils, 'getAuthenticatedUserId').mockResolvedValue(mockUser.id);
 
-      // Mock updateDishEventConfirmation
-      vi.spyOn(foodEntryRepo, 'updateDishEventConfirmation').mockResolvedValue(undefined);
+      const confirmTransaction = vi
+        .spyOn(foodEntryRepo, 'confirmFoodEntryTransaction')
+        .mockResolvedValue({ entry_id: 'raw-entry-1', dishes: [] });
 
-      const result = await confirmFoodEntry('raw-entry-1', {
+      await confirmFoodEntry('raw-entry-1', {
+        occurred_at: Date.now(),
         confirmed_dishes: [
           {
             dish_event_id: 'dish-event-1',
             dish_id: 'dish-1',
-            final_dish_name: 'Chocolate Croissant',
-            trigger_ids: ['trigger-1'],
-          },
-          {
-            dish_event_id: 'dish-event-2',
-            dish_id: 'dish-2',
-            final_dish_name: 'Matcha Latte',
-            trigger_ids: ['trigger-2'],
+            final_dish_name: 'Toast',
+            quantity: 1.5,
+            unit: 'slice',
+            portion_size: 'small',
+            trigger_ids: [],
           },
         ],
-        occurred_at: Date.now(),
       });
 
-      expect(result.dishes).toHaveLength(2);
-      expect(result.dishes[0].dish_name).toBe('Chocolate Croissant');
-      expect(result.dishes[1].dish_name).toBe('Matcha Latte');
+      expect(confirmTransaction.mock.calls[0][0].confirmedDishes[0]).toMatchObject({
+        quantity: 1.5,
+        unit: 'slice',
+        portion_size: 'small',
+      });
     });
 
-    /**
-     * Helper function to set up common mocks for occurred_at timestamp tests
-     */
-    function setupOccurredAtTestMocks(existingOccurredAt: number) {
-      mockAuth();
+    it('passes the chosen meal type to the transaction', async () => {
       vi.spyOn(utils, 'getAuthenticatedUserId').mockResolvedValue(mockUser.id);
 
-      // Mock two dish events for the same raw entry
-      vi.spyOn(foodEntryRepo, 'getDishEventsByRawFoodEntryId').mockResolvedValue([
-        {
-          id: 'dish-event-1',
-          userId: mockUser.id,
-          dishId: 'dish-1',
-          predictedDishId: 'predicted-dish-1',
-          rawEntryId: 'raw-entry-1',
-          confirmedByUser: false,
-          deletedAt: null,
-          createdAt: Date.now(),
-          occurredAt: existingOccurredAt,
-        },
-        {
-          id: 'dish-event-2',
-          userId: mockUser.id,
-          dishId: 'dish-2',
-          predictedDishId: 'predicted-dish-2',
-          rawEntryId: 'raw-entry-1',
-          createdAt: Date.now(),
-          confirmedByUser: false,
-          deletedAt: null,
-          occurredAt: existingOccurredAt,
-        },
-      ]);
-
-      const dishRow1: DishRow = {
-        id: 'dish-1',
-        user_id: mockUser.id,
-        dish_name: 'Chocolate Croissant',
-        normalized_dish_name: 'chocolate croissant',
-        dish_embedding_id: null,
-        created_at: new Date().toISOString(),
-      };
-
-      const dishRow2: DishRow = {
-        id: 'dish-2',
-        user_id: mockUser.id,
-        dish_name: 'Matcha Latte',
-        normalized_dish_name: 'matcha latte',
-        dish_embedding_id: null,
-        created_at: new Date().toISOString(),
-      };
+      const confirmTransaction = vi
+        .spyOn(foodEntryRepo, 'confirmFoodEntryTransaction')
+        .mockResolvedValue({ entry_id: 'raw-entry-1', meal_type: 'snack', dishes: [] });
 
-      // Track call count to return correct dish for each query
-      let callCount = 0;
-      const single = vi.fn().mockImplementation(() => {
-        callCount++;
-        // First dish lookup (callCount 1)
-        if (callCount === 1) {
-          return Promise.resolve({
-            data: dishRow1,
-            error: null,
-          });
-        }
-        // Second dish lookup (callCount 2)
-        if (callCount === 2) {
-          return Promise.resolve({
-            data: dishRow2,
-            error: null,
-          });
-        }
-        // If names were changed, we'd check for conflicts (callCount 3, 4, etc.)
-        // In this test, names don't change, so these calls won't happen
-        return Promise.resolve({ data: null, error: { code: 'PGRST116', message: 'not found' } });
+      await confirmFoodEntry('raw-entry-1', {
+        occurred_at: Date.now(),
+        meal_type: 'snack',
+        confirmed_dishes: [],
       });
 
-      const eq2 = vi.fn().mockReturnValue({ single });
-      const eq1 = vi.fn().mockReturnValue({ eq: eq2, single });
-      const select = vi.fn().mockReturnValue({ eq: eq1, single });
-      (supabase as any).from = vi.fn().mockReturnValue({ select });
-
-      vi.spyOn(dishHelpers, 'upsertDishTriggersForEvent').mockResolvedValue(undefined);
-
-      vi.spyOn(foodEntryRepo, 'getConfirmedTriggersByDishEventIds').mockResolvedValue([
-        {
-          id: 'dish-trigger-1',
-          dishId: 'dish-1',
-          dishEventId: 'dish-event-1',
-          triggerId: 'trigger-1',
-          createdAt: Date.now(),
-        },
-        {
-          id: 'dish-trigger-2',
-          dishId: 'dish-2',
-          dishEventId: 'dish-event-2',
-          triggerId: 'trigger-2',
-          createdAt: Date.now(),
-        },
-      ]);
+      expect(confirmTransaction.mock.calls[0][0].mealType).toBe('snack');
+    });
 
-      vi.spyOn(foodEntryRepo, 'getTriggerById')
-        .mockResolvedValueOnce({
-          id: 'trigger-1',
-          triggerName: 'gluten',
-          createdAt: Date.now(),
-        })
-        .mockResolvedValueOnce({
-          id: 'trigger-2',
-          triggerName: 'caffeine',
-          createdAt: Date.now(),
-        });
+    it('handles multiple confirmed dishes in one transaction', async () => {
+      vi.spyOn(utils, 'getAuthenticatedUserId').mockResolvedValue(mockUser.id);
 
-      // Mock updateDishEventConfirmation
-      vi.spyOn(foodEntryRepo, 'updateDishEventConfirmation').mockResolvedValue(undefined);
-      
-      // Mock updateDishEventOccurredAt
-      vi.spyOn(foodEntryRepo, 'updateDishEventOccurredAt').mockResolvedValue(undefined);
-    };
-
-    /**
-     * Tests that occurred_at timestamp is updated when it changes
-     */
-    it('updates occurred_at timestamp when it changes', async () => {
-      const existingOccurredAt = 1710000000000;
-      const newOccurredAt = 1710000000001;
-      
-      setupOccurredAtTestMocks(existingOccurredAt);
+      const confirmTransaction = vi
+        .spyOn(foodEntryRepo, 'confirmFoodEntryTransaction')
+        .mockResolvedValue({ entry_id: 'raw-entry-1', dishes: [] });
 
-      const result = await confirmFoodEntry('raw-entry-1', {
+      await confirmFoodEntry('raw-entry-1', {
+        occurred_at: Date.now(),
         confirmed_dishes: [
-          {
-            dish_event_id: 'dish-event-1',
-            dish_id: 'dish-1',
-            final_dish_name: 'Chocolate Croissant',
-            trigger_ids: ['trigger-1'],
-          },
-          {
-            dish_event_id: 'dish-event-2',
-            dish_id: 'dish-2',
-            final_dish_name: 'Matcha Latte',
-            trigger_ids: ['trigger-2'],
-          },
+          { dish_event_id: 'dish-event-1', dish_id: 'dish-1', final_dish_name: 'Croissant', trigger_ids: [] },
+          { dish_event_id: 'dish-event-2', dish_id: 'dish-2', final_dish_name: 'Matcha Latte', trigger_ids: ['trigger-2'] },
         ],
-        occurred_at: newOccurredAt,
       });
 
-      expect(result.dishes).toHaveLength(2);
-      expect(result.dishes[0].dish_name).toBe('Chocolate Croissant');
-      expect(result.dishes[1].dish_name).toBe('Matcha Latte');
-      
-      // Verify that updateDishEventOccurredAt was called with the new timestamp
-      expect(foodEntryRepo.updateDishEventOccurredAt).toHaveBeenCalledTimes(1);
-      expect(foodEntryRepo.updateDishEventOccurredAt).toHaveBeenCalledWith(
-        ['dish-event-1', 'dish-event-2'],
-        new Date(newOccurredAt)
-      );
+      expect(confirmTransaction).toHaveBeenCalledTimes(1);
+      expect(confirmTransaction.mock.calls[0][0].confirmedDishes.map((d) => d.normalized_dish_name)).toEqual([
+        'croissant',
+        'matcha latte',
+      ]);
     });
 
-    /**
-     * Tests that occurred_at timestamp is NOT updated when it hasn't changed
-     */
-    it('does not update occurred_at timestamp when it has not changed', async () => {
-      const existingOccurredAt = 1710000000000;
-      
-      setupOccurredAtTestMocks(existingOccurredAt);
+    it('propagates transaction errors', async () => {
+      vi.spyOn(utils, 'getAuthenticatedUserId').mockResolvedValue(mockUser.id);
 
-      const result = await confirmFoodEntry('raw-entry-1', {
-        confirmed_dishes: [
-          {
-            dish_event_id: 'dish-event-1',
-            dish_id: 'dish-1',
-            final_dish_name: 'Chocolate Croissant',
-            trigger_ids: ['trigger-1'],
-          },
-          {
-            dish_event_id: 'dish-event-2',
-            dish_id: 'dish-2',
-            final_dish_name: 'Matcha Latte',
-            trigger_ids: ['trigger-2'],
-          },
-        ],
-        occurred_at: existingOccurredAt, // Same as existing
-      });
+      vi.spyOn(foodEntryRepo, 'confirmFoodEntryTransaction').mockRejectedValue(
+        new Error('Cannot update dish name: a dish with normalized name "matcha latte" already exists'),
+      );
+
+      await expect(
+        confirmFoodEntry('raw-entry-1', {
+          occurred_at: Date.now(),
+          confirmed_dishes: [
+            { dish_event_id: 'dish-event-1', dish_id: 'dish-1', final_dish_name: 'Matcha Latte', trigger_ids: [] },
+          ],
+        }),
+      ).rejects.toThrow('already exists');
+    });
+
+    it('throws when the user is not authenticated', async () => {
+      vi.spyOn(utils, 'getAuthenticatedUserId').mockRejectedValue(
+        new Error('User must be authenticated'),
+      );
+      const confirmTransaction = vi.spyOn(foodEntryRepo, 'confirmFoodEntryTransaction');
 
-      expect(result.dishes).toHaveLength(2);
-      expect(result.dishes[0].dish_name).toBe('Chocolate Croissant');
-      expect(result.dishes[1].dish_name).toBe('Matcha Latte');
-      
-      // Verify that updateDishEventOccurredAt was NOT called
-      expect(foodEntryRepo.updateDishEventOccurredAt).not.toHaveBeenCalled();
+      await expect(
+        confirmFoodEntry('raw-entry-1', { occurred_at: Date.now(), confirmed_dishes: [] }),
+      ).rejects.toThrow('User must be authenticated');
+      expect(confirmTransaction).not.toHaveBeenCalled();
     });
   });
 
@@ -1155,6 +1228,7 @@ describe('foodEntryService', () => {
       const dishEventsData = [
         {
           id: 'dish-event-2',
+          raw_entry_id: 'raw-entry-2',
           occurred_at: new Date('2024-01-02T10:00:00Z').toISOString(),
           dish: {
             id: 'dish-2',
@@ -1190,6 +1264,7 @@ describe('foodEntryService', () => {
       // Verify results
       expect(result).toHaveLength(2);
       expect(result[0].dishEventId).toBe('dish-event-2'); // Most recent first
+      expect(result[0].rawEntryId).toBe('raw-entry-2');
       expect(result[0].dishName).toBe('Matcha Latte');
       expect(result[1].dishEventId).toBe('dish-event-1');
       expect(result[1].dishName).toBe('Chocolate Croissant');
@@ -1278,4 +1353,342 @@ describe('foodEntryService', () => {
       await expect(getFoodEntriesForUser()).rejects.toThrow('query failed');
     });
   });
+
+  /**
+   * Tests for the "Needs review" inbox: pending (unconfirmed) entries and
+   * rebuilding a CreateFoodEntryResponse from the database to resume confirmation
+   */
+  describe('pending food entries', () => {
+    const pendingDishEvents = [
+      {
+        id: 'dish-event-2',
+        userId: mockUser.id,
+        dishId: 'dish-2',
+        predictedDishId: 'predicted-dish-2',
+        rawEntryId: 'raw-entry-1',
+        confirmedByUser: false,
+        quantity: null,
+        unit: null,
+        portionSize: null,
+        deletedAt: null,
+        createdAt: 2000,
+        occurredAt: 1000,
+      },
+      {
+        id: 'dish-event-1',
+        userId: mockUser.id,
+        dishId: 'dish-1',
+        predictedDishId: 'predicted-dish-1',
+        rawEntryId: 'raw-entry-1',
+        confirmedByUser: false,
+        quantity: null,
+        unit: null,
+        portionSize: null,
+        deletedAt: null,
+        createdAt: 1000,
+        occurredAt: 1000,
+      },
+    ];
+
+    it('returns pending entries for the authenticated user', async () => {
+      vi.spyOn(utils, 'getAuthenticatedUserId').mockResolvedValue(mockUser.id);
+      const getPending = vi.spyOn(foodEntryRepo, 'getPendingRawFoodEntries').mockResolvedValue([
+        {
+          id: 'raw-entry-1',
+          userId: mockUser.id,
+          rawEntryText: 'Croissant and latte',
+          mealType: 'breakfast',
+          createdAt: 1000,
+          occurredAt: 1000,
+          dishEventCount: 2,
+        },
+      ]);
+
+      const result = await getPendingFoodEntriesForUser();
+
+      expect(getPending).toHaveBeenCalledWith(mockUser.id);
+      expect(result).toHaveLength(1);
+      expect(result[0].dishEventCount).toBe(2);
+    });
+
+    it('rebuilds the create response with dishes and predicted triggers in creation order', async () => {
+      vi.spyOn(utils, 'getAuthenticatedUserId').mockResolvedValue(mockUser.id);
+      vi.spyOn(foodEntryRepo, 'getDishEventsByRawFoodEntryId').mockResolvedValue(pendingDishEvents);
+      vi.spyOn(foodEntryRepo, 'getDishesByIds').mockResolvedValue([
+        {
+          id: 'dish-1',
+          userId: mockUser.id,
+          dishName: 'Chocolate Croissant',
+          normalizedDishName: 'chocolate croissant',
+          dishEmbeddingId: null,
+          favoritedAt: null,
+          createdAt: 1000,
+        },
+        {
+          id: 'dish-2',
+          userId: mockUser.id,
+          dishName: 'Matcha Latte',
+          normalizedDishName: 'matcha latte',
+          dishEmbeddingId: null,
+          favoritedAt: null,
+          createdAt: 1000,
+        },
+      ]);
+      vi.spyOn(foodEntryRepo, 'getPredictedTriggersByDishEventIds').mockResolvedValue([
+        {
+          id: 'predicted-trigger-1',
+          dishId: 'dish-1',
+          dishEventId: 'dish-event-1',
+          triggerId: 'trigger-1',
+          modelVersion: 'v1',
+          promptVersion: 'v1',
+          promptVariant: null,
+          createdAt: 1000,
+        },
+        {
+          id: 'predicted-trigger-2',
+          dishId: 'dish-2',
+          dishEventId: 'dish-event-2',
+          triggerId: 'trigger-2',
+          modelVersion: 'v1',
+          promptVersion: 'v1',
+          promptVariant: null,
+          createdAt: 1000,
+        },
+        // Replaced by the backfilled v1 prediction
+        {
+          id: 'predicted-trigger-3',
+          dishId: 'dish-1',
+          dishEventId: 'dish-event-1',
+          triggerId: 'trigger-2',
+          modelVersion: 'v1',
+          promptVersion: 'v0',
+          promptVariant: null,
+          createdAt: 500,
+        },
+      ]);
+      vi.spyOn(foodEntryRepo, 'getCurrentPredictionsByDishEventIds').mockResolvedValue([
+        {
+          dishEventId: 'dish-event-1',
+          userId: mockUser.id,
+          dishId: 'dish-1',
+          dishName: 'Chocolate Croissant',
+          dishFragmentText: 'Croissant',
+          confirmed: false,
+          isNewDish: true,
+          backfilled: true,
+          modelVersion: 'v1',
+          promptVersion: 'v1',
+          predictedTriggerNames: ['gluten'],
+          createdAt: 1000,
+        },
+      ]);
+      vi.spyOn(foodEntryRepo, 'getRawFoodEntryById').mockResolvedValue({
+        id: 'raw-entry-1',
+        userId: mockUser.id,
+        rawEntryText: 'Croissant and latte',
+        mealType: 'breakfast',
+        createdAt: 1000,
+      });
+      const getTriggers = vi.spyOn(foodEntryRepo, 'getTriggersByIds').mockResolvedValue([
+        { id: 'trigger-1', triggerName: 'gluten', createdAt: 1000 },
+        { id: 'trigger-2', triggerName: 'caffeine', createdAt: 1000 },
+      ]);
+      vi.spyOn(foodEntryRepo, 'getIngredientsByDishEventIds').mockResolvedValue(
+        new Map([
+          [
+            'dish-event-1',
+            [
+              {
+                id: 'ingredient-1',
+                userId: mockUser.id,
+                ingredientName: 'Pastry',
+                normalizedIngredientName: 'pastry',
+                createdAt: 1000,
+                triggers: [{ id: 'trigger-1', triggerName: 'gluten', createdAt: 1000 }],
+              },
+            ],
+          ],
+        ]),
+      );
+
+      const result = await getFoodEntryForConfirmation('raw-entry-1');
+
+      expect(getTriggers).toHaveBeenCalledTimes(1);
+      expect(result.entry_id).toBe('raw-entry-1');
+      expect(result.meal_type).toBe('breakfast');
+      expect(result.dishes).toEqual([
+        {
+          dish_event_id: 'dish-event-1',
+          dish_id: 'dish-1',
+          dish_name: 'Chocolate Croissant',
+          quantity: null,
+          unit: null,
+          portion_size: null,
+          predicted_triggers: [{ trigger_id: 'trigger-1', trigger_name: 'gluten' }],
+          ingredients: [
+            {
+              ingredient_id: 'ingredient-1',
+              ingredient_name: 'Pastry',
+              triggers: [{ trigger_id: 'trigger-1', trigger_name: 'gluten' }],
+            },
+          ],
+        },
+        {
+          dish_event_id: 'dish-event-2',
+          dish_id: 'dish-2',
+          dish_name: 'Matcha Latte',
+          quantity: null,
+          unit: null,
+          portion_size: null,
+          predicted_triggers: [{ trigger_id: 'trigger-2', trigger_name: 'caffeine' }],
+          ingredients: [],
+        },
+      ]);
+    });
+
+    it('throws when the entry has no remaining dish events', async () => {
+      vi.spyOn(utils, 'getAuthenticatedUserId').mockResolvedValue(mockUser.id);
+      vi.spyOn(foodEntryRepo, 'getDishEventsByRawFoodEntryId').mockResolvedValue([]);
+
+      await expect(getFoodEntryForConfirmation('raw-entry-1')).rejects.toThrow(
+        'No dish events found for entry: raw-entry-1',
+      );
+    });
+
+    it('discards a pending entry by soft-deleting its dish events', async () => {
+      vi.spyOn(utils, 'getAuthenticatedUserId').mockResolvedValue(mockUser.id);
+      vi.spyOn(foodEntryRepo, 'getDishEventsByRawFoodEntryId').mockResolvedValue(pendingDishEvents);
+      const softDelete = vi
+        .spyOn(foodEntryRepo, 'updateDishEventDeletedAt')
+        .mockResolvedValue(pendingDishEvents[0]);
+
+      await discardPendingFoodEntry('raw-entry-1');
+
+      expect(softDelete).toHaveBeenCalledTimes(2);
+      expect(softDelete).toHaveBeenCalledWith('dish-event-1', expect.any(Date));
+      expect(softDelete).toHaveBeenCalledWith('dish-event-2', expect.any(Date));
+    });
+  });
+
+  /**
+   * Tests for getFoodEntryForEditing - reloads a confirmed meal with its confirmed triggers
+   */
+  describe('getFoodEntryForEditing', () => {
+    const confirmedDishEvents = [
+      {
+        id: 'dish-event-2',
+        userId: mockUser.id,
+        dishId: 'dish-2',
+        predictedDishId: 'predicted-dish-2',
+        rawEntryId: 'raw-entry-1',
+        confirmedByUser: true,
+        quantity: null,
+        unit: null,
+        portionSize: null,
+        deletedAt: null,
+        createdAt: 2000,
+        occurredAt: 1000,
+      },
+      {
+        id: 'dish-event-1',
+        userId: mockUser.id,
+        dishId: 'dish-1',
+        predictedDishId: 'predicted-dish-1',
+        rawEntryId: 'raw-entry-1',
+        confirmedByUser: true,
+        quantity: 2,
+        unit: 'slice',
+        portionSize: null,
+        deletedAt: null,
+        createdAt: 1000,
+        occurredAt: 1000,
+      },
+    ];
+
+    it('returns dishes with confirmed (not predicted) triggers and portions in creation order', async () => {
+      vi.spyOn(utils, 'getAuthenticatedUserId').mockResolvedValue(mockUser.id);
+      vi.spyOn(foodEntryRepo, 'getDishEventsByRawFoodEntryId').mockResolvedValue(confirmedDishEvents);
+      vi.spyOn(foodEntryRepo, 'getDishesByIds').mockResolvedValue([
+        {
+          id: 'dish-1',
+          userId: mockUser.id,
+          dishName: 'Chocolate Croissant',
+          normalizedDishName: 'chocolate croissant',
+          dishEmbeddingId: null,
+          favoritedAt: null,
+          createdAt: 1000,
+        },
+        {
+          id: 'dish-2',
+          userId: mockUser.id,
+          dishName: 'Matcha Latte',
+          normalizedDishName: 'matcha latte',
+          dishEmbeddingId: null,
+          favoritedAt: null,
+          createdAt: 1000,
+        },
+      ]);
+      const getPredicted = vi.spyOn(foodEntryRepo, 'getPredictedTriggersByDishEventIds');
+      vi.spyOn(foodEntryRepo, 'getConfirmedTriggersByDishEventIds').mockResolvedValue([
+        {
+          id: 'dish-trigger-1',
+          dishId: 'dish-1',
+          dishEventId: 'dish-event-1',
+          triggerId: 'trigger-3',
+          createdAt: 1000,
+        },
+      ]);
+      vi.spyOn(foodEntryRepo, 'getTriggersByIds').mockResolvedValue([
+        { id: 'trigger-3', triggerName: 'dairy', createdAt: 1000 },
+      ]);
+      vi.spyOn(foodEntryRepo, 'getRawFoodEntryById').mockResolvedValue({
+        id: 'raw-entry-1',
+        userId: mockUser.id,
+        rawEntryText: 'Croissant and latte',
+        mealType: 'breakfast',
+        createdAt: 1000,
+      });
+      vi.spyOn(foodEntryRepo, 'getIngredientsByDishEventIds').mockResolvedValue(new Map());
+
+      const result = await getFoodEntryForEditing('raw-entry-1');
+
+      expect(getPredicted).not.toHaveBeenCalled();
+      expect(result).toEqual({
+        entry_id: 'raw-entry-1',
+        meal_type: 'breakfast',
+        dishes: [
+          {
+            dish_event_id: 'dish-event-1',
+            dish_id: 'dish-1',
+            dish_name: 'Chocolate Croissant',
+            quantity: 2,
+            unit: 'slice',
+            portion_size: null,
+            triggers: [{ trigger_id: 'trigger-3', trigger_name: 'dairy' }],
+            ingredients: [],
+          },
+          {
+            dish_event_id: 'dish-event-2',
+            dish_id: 'dish-2',
+            dish_name: 'Matcha Latte',
+            quantity: null,
+            unit: null,
+            portion_size: null,
+            triggers: [],
+            ingredients: [],
+          },
+        ],
+      });
+    });
+
+    it('throws when the entry has no remaining dish events', async () => {
+      vi.spyOn(utils, 'getAuthenticatedUserId').mockResolvedValue(mockUser.id);
+      vi.spyOn(foodEntryRepo, 'getDishEventsByRawFoodEntryId').mockResolvedValue([]);
+
+      await expect(getFoodEntryForEditing('raw-entry-1')).rejects.toThrow(
+        'No dish events found for entry: raw-entry-1',
+      );
+    });
+  });
 });
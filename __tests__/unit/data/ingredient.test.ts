@@ -0,0 +1,76 @@
+/**
+ * Unit tests for ingredient.ts
+ *
+ * Covers normalizing ingredient names and recomputing a dish's triggers as ingredients are
+ * removed and put back.
+ */
+
+import { describe, expect, it } from 'vitest';
+import {
+  getIngredientTriggerIds,
+  normalizeIngredientName,
+  removeIngredientTriggers,
+  restoreIngredientTriggers,
+} from '@/data/ingredient';
+import { DishIngredient } from '@/types/foodEntry';
+
+const ingredient = (id: string, triggerIds: string[]): DishIngredient => ({
+  ingredient_id: id,
+  ingredient_name: id,
+  triggers: triggerIds.map((triggerId) => ({ trigger_id: triggerId, trigger_name: triggerId })),
+});
+
+const croutons = ingredient('croutons', ['gluten']);
+const parmesan = ingredient('parmesan', ['dairy']);
+const dressing = ingredient('dressing', ['dairy', 'fish']);
+
+describe('ingredient', () => {
+  describe('normalizeIngredientName', () => {
+    it('lowercases, trims and collapses spaces', () => {
+      expect(normalizeIngredientName('  Romaine   Lettuce ')).toBe('romaine lettuce');
+    });
+  });
+
+  describe('getIngredientTriggerIds', () => {
+    it('returns the union of the ingredients\' triggers', () => {
+      expect(getIngredientTriggerIds([parmesan, dressing])).toEqual(new Set(['dairy', 'fish']));
+      expect(getIngredientTriggerIds([])).toEqual(new Set());
+    });
+  });
+
+  describe('removeIngredientTriggers', () => {
+    it('drops triggers only the removed ingredient carried', () => {
+      const result = removeIngredientTriggers(
+        new Set(['gluten', 'dairy', 'fish']),
+        croutons,
+        [parmesan, dressing],
+      );
+
+      expect(result).toEqual(new Set(['dairy', 'fish']));
+    });
+
+    it('keeps triggers another remaining ingredient still carries', () => {
+      const result = removeIngredientTriggers(
+        new Set(['gluten', 'dairy', 'fish']),
+        parmesan,
+        [croutons, dressing],
+      );
+
+      expect(result).toEqual(new Set(['gluten', 'dairy', 'fish']));
+    });
+
+    it('keeps triggers added by hand', () => {
+      const result = removeIngredientTriggers(new Set(['gluten', 'spicy']), croutons, []);
+
+      expect(result).toEqual(new Set(['spicy']));
+    });
+  });
+
+  describe('restoreIngredientTriggers', () => {
+    it('adds back the restored ingredient\'s triggers', () => {
+      const result = restoreIngredientTriggers(new Set(['dairy']), croutons);
+
+      expect(result).toEqual(new Set(['dairy', 'gluten']));
+    });
+  });
+});
@@ -2,13 +2,25 @@
  * Unit tests for llmService.ts
  * 
  * These tests mock OpenAI API calls to test parsing, validation, and error handling
- * in isolation from actual API calls.
+ * in isolation from actual API calls: the OpenAI-compatible provider's requests are answered by
+ * a mocked chat completions client.
  */
 
-import { describe, expect, it, vi, beforeEach, afterEach } from 'vitest';
-import { llmExtractDishes, llmPredictTriggers } from '@/data/llmService';
+import { describe, expect, it, vi, beforeAll, afterAll, beforeEach, afterEach } from 'vitest';
+import {
+  createPredictionTrace,
+  getTraceModelVersion,
+  llmDecomposeDish,
+  llmExtractDishes,
+  llmPredictTriggers,
+} from '@/data/llmService';
+import { RULES_MODEL_VERSION } from '@/data/rulePredictor';
+import { setLLMCallConfig } from '@/lib/llmResilience';
+import { createLLMCache, createMemoryCacheStore, getLLMCache, setLLMCache } from '@/lib/llmCache';
 import { VALID_TRIGGER_NAMES } from '@/data/trigger';
-import * as openaiModule from '@/lib/openai';
+import { env } from '@/lib/env';
+import { OperationLLMProvider, setLLMProvider } from '@/lib/llmProvider';
+import { getExtractDishesPrompt, MODEL_VERSION, PROMPT_VERSION } from '@/lib/llmPrompts';
 
 // Mock OpenAI client
 const mockClient = {
@@ -19,12 +31,41 @@ const mockClient = {
   },
 };
 
+const configuredEnv = { ...env };
+
 describe('llmService', () => {
+  // Call an OpenAI-compatible endpoint with structured outputs, so the mocked client answers
+  beforeAll(() => {
+    env.llmProvider = 'openai-compatible';
+    env.llmBaseUrl = 'http://openai.test/v1';
+    env.llmModel = MODEL_VERSION;
+    env.llmJsonSchema = 'true';
+    setLLMProvider(null);
+  });
+
+  afterAll(() => {
+    Object.assign(env, configuredEnv);
+    setLLMProvider(null);
+  });
+
+  // Each test starts with an empty cache, so mocked responses aren't answered from earlier tests
   beforeEach(() => {
-    vi.spyOn(openaiModule, 'getOpenAIClient').mockReturnValue(mockClient as any);
+    vi.stubGlobal(
+      'fetch',
+      vi.fn(async (_url: string, init: RequestInit) => {
+        const response = await mockClient.chat.completions.create(JSON.parse(init.body as string), {
+          signal: init.signal,
+        });
+        return new Response(JSON.stringify(response), { headers: { 'Content-Type': 'application/json' } });
+      }),
+    );
+    setLLMCache(createLLMCache([createMemoryCacheStore()]));
   });
 
   afterEach(() => {
+    setLLMCache(null);
+    setLLMCallConfig(null);
+    vi.unstubAllGlobals();
     vi.restoreAllMocks();
   });
 
@@ -57,10 +98,16 @@ describe('llmService', () => {
       expect(result[0]).toEqual({
         dish_fragment_text: 'Chocolate Croissant',
         dish_name_suggestion: 'Chocolate Croissant',
+        quantity: null,
+        unit: null,
+        portion_size: null,
       });
       expect(result[1]).toEqual({
         dish_fragment_text: 'Matcha Latte',
         dish_name_suggestion: 'Matcha Latte',
+        quantity: null,
+        unit: null,
+        portion_size: null,
       });
     });
 
@@ -88,9 +135,56 @@ describe('llmService', () => {
       expect(result[0]).toEqual({
         dish_fragment_text: 'Cherry turnover',
         dish_name_suggestion: 'Cherry Turnover',
+        quantity: null,
+        unit: null,
+        portion_size: null,
       });
     });
 
+    it('keeps valid portions and drops unusable ones', async () => {
+      mockClient.chat.completions.create.mockResolvedValue({
+        choices: [
+          {
+            message: {
+              content: JSON.stringify({
+                dishes: [
+                  {
+                    dish_fragment_text: 'two large coffees',
+                    dish_name_suggestion: 'Coffee',
+                    quantity: 2,
+                    unit: null,
+                    portion_size: 'large',
+                  },
+                  {
+                    dish_fragment_text: 'half a cup of Rice',
+                    dish_name_suggestion: 'Rice',
+                    quantity: '0.5',
+                    unit: ' Cup ',
+                    portion_size: 'medium',
+                  },
+                  {
+                    dish_fragment_text: 'some soup',
+                    dish_name_suggestion: 'Soup',
+                    quantity: -1,
+                    unit: 'bowl',
+                    portion_size: 'enormous',
+                  },
+                ],
+              }),
+            },
+          },
+        ],
+      });
+
+      const result = await llmExtractDishes('two large coffees, half a cup of Rice and some soup');
+
+      expect(result.map(({ quantity, unit, portion_size }) => ({ quantity, unit, portion_size }))).toEqual([
+        { quantity: 2, unit: null, portion_size: 'large' },
+        { quantity: 0.5, unit: 'cup', portion_size: 'medium' },
+        { quantity: null, unit: null, portion_size: null },
+      ]);
+    });
+
     it('handles empty dishes array', async () => {
       mockClient.chat.completions.create.mockResolvedValue({
         choices: [
@@ -122,10 +216,10 @@ describe('llmService', () => {
 
       const result = await llmExtractDishes('Some text');
 
-      // Should return fallback with raw entry text on error
+      // Should fall back to the rule-based splitter on error
       expect(result).toHaveLength(1);
       expect(result[0].dish_fragment_text).toBe('Some text');
-      expect(result[0].dish_name_suggestion).toBe('Some text');
+      expect(result[0].dish_name_suggestion).toBe('Text');
     });
 
     it('handles missing dishes array in response', async () => {
@@ -143,10 +237,10 @@ describe('llmService', () => {
 
       const result = await llmExtractDishes('Some text');
 
-      // Should return fallback with raw entry text on error
+      // Should fall back to the rule-based splitter on error
       expect(result).toHaveLength(1);
       expect(result[0].dish_fragment_text).toBe('Some text');
-      expect(result[0].dish_name_suggestion).toBe('Some text');
+      expect(result[0].dish_name_suggestion).toBe('Text');
     });
 
     it('handles missing required fields in dish objects', async () => {
@@ -169,7 +263,7 @@ describe('llmService', () => {
 
       const result = await llmExtractDishes('Test');
 
-      // Should return fallback with raw entry text on validation error
+      // Should fall back to the rule-based splitter on validation error
       expect(result).toHaveLength(1);
       expect(result[0].dish_fragment_text).toBe('Test');
       expect(result[0].dish_name_suggestion).toBe('Test');
@@ -182,10 +276,43 @@ describe('llmService', () => {
 
       const result = await llmExtractDishes('Some text');
 
-      // Should return fallback with raw entry text on error
+      // Should fall back to the rule-based splitter on error
       expect(result).toHaveLength(1);
       expect(result[0].dish_fragment_text).toBe('Some text');
-      expect(result[0].dish_name_suggestion).toBe('Some text');
+      expect(result[0].dish_name_suggestion).toBe('Text');
+    });
+
+    it('records the model that split the entry in the trace', async () => {
+      mockClient.chat.completions.create.mockResolvedValue({
+        choices: [
+          {
+            message: {
+              content: JSON.stringify({
+                dishes: [{ dish_fragment_text: 'toast', dish_name_suggestion: 'Toast' }],
+              }),
+            },
+          },
+        ],
+      });
+      const trace = createPredictionTrace();
+
+      await llmExtractDishes('toast', PROMPT_VERSION, trace);
+
+      expect(getTraceModelVersion(trace)).toBe(MODEL_VERSION);
+    });
+
+    it('splits the entry with rules and records it in the trace when the LLM fails', async () => {
+      mockClient.chat.completions.create.mockRejectedValue(new Error('API rate limit exceeded'));
+      const trace = createPredictionTrace();
+
+      const result = await llmExtractDishes('Two eggs, toast and coffee', PROMPT_VERSION, trace);
+
+      expect(result.map((dish) => [dish.dish_name_suggestion, dish.quantity])).toEqual([
+        ['Eggs', 2],
+        ['Toast', null],
+        ['Coffee', null],
+      ]);
+      expect(getTraceModelVersion(trace)).toBe(RULES_MODEL_VERSION);
     });
 
     it('cleans and normalizes dish names correctly', async () => {
@@ -213,6 +340,22 @@ describe('llmService', () => {
       expect(result[0].dish_fragment_text).toBe('  chocolate  croissant  ');
       expect(result[0].dish_name_suggestion).toBe('Chocolate Croissant');
     });
+
+    it('uses the given prompt version', async () => {
+      mockClient.chat.completions.create.mockResolvedValue({
+        choices: [{ message: { content: JSON.stringify({ dishes: [] }) } }],
+      });
+
+      await llmExtractDishes('Two coffees', 'v1');
+      expect(mockClient.chat.completions.create.mock.lastCall![0].messages[0].content).toBe(
+        getExtractDishesPrompt('Two coffees', 'v1'),
+      );
+
+      await llmExtractDishes('Two coffees');
+      expect(mockClient.chat.completions.create.mock.lastCall![0].messages[0].content).toBe(
+        getExtractDishesPrompt('Two coffees', PROMPT_VERSION),
+      );
+    });
   });
 
   describe('llmPredictTriggers', () => {
@@ -366,6 +509,21 @@ describe('llmService', () => {
       expect(result).toHaveLength(0);
     });
 
+    it('predicts triggers with rules and records it in the trace when the LLM fails', async () => {
+      mockClient.chat.completions.create
+        .mockResolvedValueOnce({
+          choices: [{ message: { content: JSON.stringify({ triggers: ['gluten'] }) } }],
+        })
+        .mockRejectedValueOnce(new Error('API rate limit exceeded'));
+      const trace = createPredictionTrace();
+
+      await llmPredictTriggers('Toast', 'toast', [], PROMPT_VERSION, trace);
+      const result = await llmPredictTriggers('Garlic Bread', 'garlic bread', [], PROMPT_VERSION, trace);
+
+      expect(result).toEqual(['gluten', 'fructans']);
+      expect(getTraceModelVersion(trace)).toBe(`${MODEL_VERSION}+${RULES_MODEL_VERSION}`);
+    });
+
     it('handles case sensitivity in trigger names', async () => {
       mockClient.chat.completions.create.mockResolvedValue({
         choices: [
@@ -409,5 +567,390 @@ describe('llmService', () => {
       expect(result).toContain('red_meat');
       expect(result).toContain('gluten');
     });
+
+    it('offers the user\'s custom triggers and returns them with the stored spelling', async () => {
+      mockClient.chat.completions.create.mockResolvedValue({
+        choices: [
+          {
+            message: {
+              content: JSON.stringify({
+                triggers: ['fish', 'cilantro', 'carbonation'],
+              }),
+            },
+          },
+        ],
+      });
+
+      const result = await llmPredictTriggers('Fish Tacos', 'fish tacos', ['Cilantro']);
+
+      const prompt = mockClient.chat.completions.create.mock.lastCall![0].messages
+        .map((message: { content: string }) => message.content)
+        .join('\n');
+      expect(prompt).toContain('"Cilantro"');
+      // Custom triggers the user doesn't have are filtered out like any unknown name
+      expect(result).toEqual(['fish', 'Cilantro']);
+    });
+  });
+
+  describe('llmDecomposeDish', () => {
+    it('parses ingredients with their triggers', async () => {
+      mockClient.chat.completions.create.mockResolvedValue({
+        choices: [
+          {
+            message: {
+              content: JSON.stringify({
+                ingredients: [
+                  { ingredient_name: 'Romaine Lettuce', triggers: [] },
+                  { ingredient_name: 'Croutons', triggers: ['gluten'] },
+                  { ingredient_name: ' Parmesan ', triggers: ['dairy'] },
+                ],
+              }),
+            },
+          },
+        ],
+      });
+
+      const result = await llmDecomposeDish('Caesar Salad', 'caesar salad');
+
+      expect(result).toEqual([
+        { ingredient_name: 'Romaine Lettuce', trigger_names: [] },
+        { ingredient_name: 'Croutons', trigger_names: ['gluten'] },
+        { ingredient_name: 'Parmesan', trigger_names: ['dairy'] },
+      ]);
+    });
+
+    it('drops unknown triggers and ingredients without a name', async () => {
+      mockClient.chat.completions.create.mockResolvedValue({
+        choices: [
+          {
+            message: {
+              content: JSON.stringify({
+                ingredients: [
+                  { ingredient_name: 'Anchovies', triggers: ['fish', 'umami', 42] },
+                  { ingredient_name: '', triggers: ['dairy'] },
+                  { triggers: ['gluten'] },
+                  { ingredient_name: 'Lemon' },
+                ],
+              }),
+            },
+          },
+        ],
+      });
+
+      const result = await llmDecomposeDish('Caesar Salad', 'caesar salad');
+
+      expect(result).toEqual([
+        { ingredient_name: 'Anchovies', trigger_names: ['fish'] },
+        { ingredient_name: 'Lemon', trigger_names: [] },
+      ]);
+    });
+
+    it('keeps the user\'s custom triggers on ingredients', async () => {
+      mockClient.chat.completions.create.mockResolvedValue({
+        choices: [
+          {
+            message: {
+              content: JSON.stringify({
+                ingredients: [{ ingredient_name: 'Salsa', triggers: ['cilantro', 'fructans'] }],
+              }),
+            },
+          },
+        ],
+      });
+
+      const result = await llmDecomposeDish('Fish Tacos', 'fish tacos', ['Cilantro']);
+
+      expect(result).toEqual([
+        { ingredient_name: 'Salsa', trigger_names: ['Cilantro', 'fructans'] },
+      ]);
+    });
+
+    it('handles missing ingredients array in response', async () => {
+      mockClient.chat.completions.create.mockResolvedValue({
+        choices: [
+          {
+            message: {
+              content: JSON.stringify({ triggers: ['gluten'] }),
+            },
+          },
+        ],
+      });
+
+      const result = await llmDecomposeDish('Test Dish', 'Test Dish');
+
+      // Should return empty array so the caller predicts triggers for the whole dish
+      expect(result).toHaveLength(0);
+    });
+
+    it('handles API errors gracefully', async () => {
+      mockClient.chat.completions.create.mockRejectedValue(
+        new Error('API rate limit exceeded'),
+      );
+
+      const result = await llmDecomposeDish('Test Dish', 'Test Dish');
+
+      expect(result).toHaveLength(0);
+    });
+  });
+
+  describe('LLM call resilience', () => {
+    const create = mockClient.chat.completions.create;
+    const triggersResponse = { choices: [{ message: { content: JSON.stringify({ triggers: ['gluten'] }) } }] };
+    const httpError = (status: number) => Object.assign(new Error(`HTTP ${status}`), { status });
+
+    beforeEach(() => {
+      create.mockReset();
+      setLLMCallConfig({ baseDelayMs: 0, maxDelayMs: 0 });
+    });
+
+    it('retries a server error and uses the response', async () => {
+      create.mockRejectedValueOnce(httpError(502)).mockResolvedValueOnce(triggersResponse);
+      const trace = createPredictionTrace();
+
+      const result = await llmPredictTriggers('Toast', 'toast', [], PROMPT_VERSION, trace);
+
+      expect(result).toEqual(['gluten']);
+      expect(create).toHaveBeenCalledTimes(2);
+      expect(trace.degraded).toBe(false);
+    });
+
+    it('falls back right away when rate limited', async () => {
+      create.mockRejectedValueOnce(httpError(429)).mockResolvedValueOnce(triggersResponse);
+      const trace = createPredictionTrace();
+
+      const result = await llmPredictTriggers('Garlic Bread', 'garlic bread', [], PROMPT_VERSION, trace);
+
+      expect(result).toEqual(['gluten', 'fructans']);
+      expect(create).toHaveBeenCalledTimes(1);
+      expect(trace.degraded).toBe(true);
+    });
+
+    it('gives up after the configured retries and falls back', async () => {
+      setLLMCallConfig({ baseDelayMs: 0, maxDelayMs: 0, maxRetries: 2 });
+      create.mockRejectedValue(httpError(503));
+      const trace = createPredictionTrace();
+
+      const result = await llmPredictTriggers('Garlic Bread', 'garlic bread', [], PROMPT_VERSION, trace);
+
+      expect(result).toEqual(['gluten', 'fructans']);
+      expect(create).toHaveBeenCalledTimes(3);
+      expect(trace.degraded).toBe(true);
+    });
+
+    it('does not retry a client error', async () => {
+      create.mockRejectedValue(httpError(400));
+
+      await llmPredictTriggers('Toast', 'toast');
+
+      expect(create).toHaveBeenCalledTimes(1);
+    });
+
+    it('times out a call that does not answer', async () => {
+      setLLMCallConfig({ timeoutMs: 10, maxRetries: 0 });
+      create.mockReturnValue(new Promise(() => {}));
+      const trace = createPredictionTrace();
+
+      const result = await llmExtractDishes('toast and coffee', PROMPT_VERSION, trace);
+
+      expect(result.map((dish) => dish.dish_name_suggestion)).toEqual(['Toast', 'Coffee']);
+      expect(create.mock.lastCall?.[1].signal.aborted).toBe(true);
+      expect(trace.degraded).toBe(true);
+    });
+
+    it('skips the LLM after repeated failures until the circuit resets', async () => {
+      setLLMCallConfig({ maxRetries: 0, failureThreshold: 2 });
+      create.mockRejectedValue(httpError(500));
+
+      await llmPredictTriggers('Toast', 'toast');
+      await llmPredictTriggers('Toast', 'toast');
+      const trace = createPredictionTrace();
+      const result = await llmPredictTriggers('Toast', 'toast', [], PROMPT_VERSION, trace);
+
+      // The third call goes straight to the rule-based predictor
+      expect(create).toHaveBeenCalledTimes(2);
+      expect(result).toEqual(['gluten']);
+      expect(trace.degraded).toBe(true);
+    });
+
+    it('marks the trace degraded when a dish can\'t be broken into ingredients', async () => {
+      create.mockRejectedValue(new Error('API key not valid'));
+      const trace = createPredictionTrace();
+
+      expect(await llmDecomposeDish('Toast', 'toast', [], PROMPT_VERSION, trace)).toEqual([]);
+      expect(trace.degraded).toBe(true);
+    });
+  });
+
+  describe('LLM response cache', () => {
+    const create = mockClient.chat.completions.create;
+    const triggersResponse = (triggers: unknown) => ({
+      choices: [{ message: { content: JSON.stringify({ triggers }) } }],
+    });
+
+    beforeEach(() => {
+      create.mockReset();
+    });
+
+    it('answers a repeated prompt from the cache', async () => {
+      create.mockResolvedValue(triggersResponse(['dairy']));
+
+      expect(await llmPredictTriggers('Iced Oat Latte', 'iced oat latte')).toEqual(['dairy']);
+      expect(await llmPredictTriggers('Iced Oat Latte', 'iced oat latte')).toEqual(['dairy']);
+
+      expect(create).toHaveBeenCalledTimes(1);
+      expect(getLLMCache().getMetrics()).toMatchObject({ hitCount: 1, missCount: 1, hitRate: 0.5 });
+    });
+
+    it('records the provider\'s model version for a cached answer', async () => {
+      create.mockResolvedValue(triggersResponse(['dairy']));
+      await llmPredictTriggers('Iced Oat Latte', 'iced oat latte');
+      const trace = createPredictionTrace();
+
+      await llmPredictTriggers('Iced Oat Latte', 'iced oat latte', [], PROMPT_VERSION, trace);
+
+      expect(getTraceModelVersion(trace)).toBe(MODEL_VERSION);
+    });
+
+    it('asks the model of the traced entry\'s prompt variant', async () => {
+      create.mockResolvedValue(triggersResponse(['dairy']));
+      const trace = createPredictionTrace('gpt-4o');
+
+      await llmPredictTriggers('Iced Oat Latte', 'iced oat latte', [], PROMPT_VERSION, trace);
+
+      expect(create.mock.lastCall?.[0].model).toBe('gpt-4o');
+      expect(getTraceModelVersion(trace)).toBe('gpt-4o');
+    });
+
+    it('does not share answers between prompt versions', async () => {
+      create.mockResolvedValue(triggersResponse(['dairy']));
+
+      await llmPredictTriggers('Iced Oat Latte', 'iced oat latte', [], 'v3');
+      await llmPredictTriggers('Iced Oat Latte', 'iced oat latte', [], 'v4');
+
+      expect(create).toHaveBeenCalledTimes(2);
+    });
+
+    it('does not cache a response that fails validation', async () => {
+      create
+        .mockResolvedValueOnce(triggersResponse([123]))
+        .mockResolvedValueOnce(triggersResponse([123]))
+        .mockResolvedValueOnce(triggersResponse(['dairy']));
+
+      await llmPredictTriggers('Iced Oat Latte', 'iced oat latte');
+      expect(await llmPredictTriggers('Iced Oat Latte', 'iced oat latte')).toEqual(['dairy']);
+
+      // The first call and its repair were both invalid, so the second call asks again
+      expect(create).toHaveBeenCalledTimes(3);
+    });
+  });
+
+  describe('LLM response schemas', () => {
+    const create = mockClient.chat.completions.create;
+    const triggersResponse = (triggers: unknown) => ({
+      choices: [{ message: { content: JSON.stringify({ triggers }) } }],
+    });
+    const promptOf = (call: any[] | undefined) => call?.[0].messages[0].content as string;
+
+    beforeEach(() => {
+      create.mockReset();
+    });
+
+    it('asks for the response schema as a structured output', async () => {
+      create.mockResolvedValue(triggersResponse(['dairy']));
+
+      await llmPredictTriggers('Latte', 'latte');
+
+      const responseFormat = create.mock.lastCall?.[0].response_format;
+      expect(responseFormat.type).toBe('json_schema');
+      expect(responseFormat.json_schema.name).toBe('predict_triggers');
+      expect(responseFormat.json_schema.schema.properties.triggers.items.enum).toEqual([...VALID_TRIGGER_NAMES]);
+    });
+
+    it('offers custom trigger names in the schema', async () => {
+      create.mockResolvedValue(triggersResponse(['Nightshades']));
+
+      const result = await llmPredictTriggers('Tomato Soup', 'tomato soup', ['Nightshades']);
+
+      expect(result).toEqual(['Nightshades']);
+      expect(create.mock.lastCall?.[0].response_format.json_schema.schema.properties.triggers.items.enum)
+        .toContain('Nightshades');
+    });
+
+    it('sends the problems back to the model and uses the repaired response', async () => {
+      create
+        .mockResolvedValueOnce(triggersResponse('dairy'))
+        .mockResolvedValueOnce(triggersResponse(['dairy']));
+      const trace = createPredictionTrace();
+
+      const result = await llmPredictTriggers('Latte', 'latte', [], PROMPT_VERSION, trace);
+
+      expect(result).toEqual(['dairy']);
+      expect(create).toHaveBeenCalledTimes(2);
+      expect(promptOf(create.mock.calls[1])).toContain('triggers: expected an array');
+      expect(promptOf(create.mock.calls[1])).toContain(promptOf(create.mock.calls[0]));
+      expect(trace.degraded).toBe(false);
+    });
+
+    it('falls back when the repaired response is still invalid', async () => {
+      create.mockResolvedValue({ choices: [{ message: { content: 'not json' } }] });
+      const trace = createPredictionTrace();
+
+      const result = await llmPredictTriggers('Garlic Bread', 'garlic bread', [], PROMPT_VERSION, trace);
+
+      expect(result).toEqual(['gluten', 'fructans']);
+      expect(create).toHaveBeenCalledTimes(2);
+      expect(getTraceModelVersion(trace)).toBe(RULES_MODEL_VERSION);
+      expect(trace.degraded).toBe(true);
+    });
+
+    it('does not ask for a repair when unknown trigger names are dropped', async () => {
+      create.mockResolvedValue(triggersResponse(['dairy', 'not_a_trigger', 'dairy']));
+
+      expect(await llmPredictTriggers('Latte', 'latte')).toEqual(['dairy']);
+      expect(create).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('operation providers', () => {
+    const operationProvider = (answer: OperationLLMProvider['answer']): OperationLLMProvider => ({
+      name: 'supabase',
+      modelVersion: MODEL_VERSION,
+      answer,
+    });
+
+    afterEach(() => {
+      setLLMProvider(null);
+    });
+
+    it('sends only the operation\'s data and uses the checked response', async () => {
+      const answer = vi.fn(async () => JSON.stringify({ triggers: ['Nightshades'] }));
+      setLLMProvider(operationProvider(answer));
+      const trace = createPredictionTrace();
+
+      const result = await llmPredictTriggers('Tomato Soup', 'tomato soup', ['Nightshades'], 'v4', trace);
+
+      expect(result).toEqual(['Nightshades']);
+      expect(answer).toHaveBeenCalledWith(
+        {
+          operation: 'predict_triggers',
+          dish_name: 'Tomato Soup',
+          fragment_text: 'tomato soup',
+          custom_trigger_names: ['Nightshades'],
+          prompt_version: 'v4',
+        },
+        { signal: expect.any(AbortSignal) },
+      );
+      expect([...trace.modelVersions]).toEqual([MODEL_VERSION]);
+    });
+
+    it('falls back without asking for a repair when the response does not match', async () => {
+      const answer = vi.fn(async () => JSON.stringify({ dishes: 'toast' }));
+      setLLMProvider(operationProvider(answer));
+
+      const result = await llmExtractDishes('toast and tea');
+
+      expect(result.map((dish) => dish.dish_name_suggestion)).toEqual(['Toast', 'Tea']);
+      expect(answer).toHaveBeenCalledTimes(1);
+    });
   });
 });
@@ -14,6 +14,7 @@ import {
   toDishEventRow,
   fromDishEventRow,
   fromTriggerRow,
+  fromIngredientRow,
   toPredictedDishTriggerRow,
   fromPredictedDishTriggerRow,
   toDishTriggerRow,
@@ -79,11 +80,13 @@ describe('mappers', () => {
     const entry: Omit<RawFoodEntry, 'id' | 'createdAt'> = {
       userId: 'user-123',
       rawEntryText: 'Had pizza and pasta for dinner',
+      mealType: 'dinner',
     };
 
     const row = toRawFoodEntryRow(entry);
     expect(row.user_id).toBe('user-123');
     expect(row.raw_entry_text).toBe('Had pizza and pasta for dinner');
+    expect(row.meal_type).toBe('dinner');
 
     const fullEntry: RawFoodEntry = {
       id: 'rf1',
@@ -104,14 +107,21 @@ describe('mappers', () => {
       rawEntryId: 'rf1',
       dishFragmentText: 'pizza',
       dishNameSuggestion: 'Pizza',
+      quantity: 2,
+      unit: 'slice',
+      portionSize: 'large',
       modelVersion: 'v1.0',
       promptVersion: 'p1.0',
+      promptVariant: null,
     };
 
     const row = toPredictedDishRow(entry);
     expect(row.raw_entry_id).toBe('rf1');
     expect(row.dish_fragment_text).toBe('pizza');
     expect(row.dish_name_suggestion).toBe('Pizza');
+    expect(row.quantity).toBe(2);
+    expect(row.unit).toBe('slice');
+    expect(row.portion_size).toBe('large');
     expect(row.model_version).toBe('v1.0');
     expect(row.prompt_version).toBe('p1.0');
 
@@ -135,6 +145,7 @@ describe('mappers', () => {
       dishName: 'Pizza',
       normalizedDishName: 'pizza',
       dishEmbeddingId: 'emb-123',
+      favoritedAt: 1700000000000,
     };
 
     const row = toDishRow(entry);
@@ -142,6 +153,7 @@ describe('mappers', () => {
     expect(row.dish_name).toBe('Pizza');
     expect(row.normalized_dish_name).toBe('pizza');
     expect(row.dish_embedding_id).toBe('emb-123');
+    expect(row.favorited_at).toBe(new Date(1700000000000).toISOString());
 
     const fullEntry: Dish = {
       id: 'd1',
@@ -163,6 +175,7 @@ describe('mappers', () => {
       dishName: 'Pasta',
       normalizedDishName: 'pasta',
       dishEmbeddingId: null,
+      favoritedAt: null,
     };
 
     const row = toDishRow(entry);
@@ -189,6 +202,9 @@ describe('mappers', () => {
       predictedDishId: 'pd1',
       rawEntryId: 'rf1',
       confirmedByUser: false,
+      quantity: null,
+      unit: null,
+      portionSize: null,
       deletedAt: null,
       occurredAt: 1710000000000,
     };
@@ -221,6 +237,9 @@ describe('mappers', () => {
       predictedDishId: null,
       rawEntryId: 'rf1',
       confirmedByUser: false,
+      quantity: null,
+      unit: null,
+      portionSize: null,
       deletedAt: null,
       occurredAt: 1710000000000,
     };
@@ -256,6 +275,24 @@ describe('mappers', () => {
     expect(mapped.createdAt).toBe(1710000000000);
   });
 
+  it('maps ingredient rows', () => {
+    const mapped = fromIngredientRow({
+      id: 'i1',
+      user_id: 'u1',
+      ingredient_name: 'Croutons',
+      normalized_ingredient_name: 'croutons',
+      created_at: new Date(1710000000000).toISOString(),
+    });
+
+    expect(mapped).toEqual({
+      id: 'i1',
+      userId: 'u1',
+      ingredientName: 'Croutons',
+      normalizedIngredientName: 'croutons',
+      createdAt: 1710000000000,
+    });
+  });
+
   it('round-trips predicted dish trigger entries', () => {
     const entry: Omit<PredictedDishTrigger, 'id' | 'createdAt'> = {
       dishId: 'd1',
@@ -263,6 +300,7 @@ describe('mappers', () => {
       triggerId: 't1',
       modelVersion: 'v1.0',
       promptVersion: 'p1.0',
+      promptVariant: null,
     };
 
     const row = toPredictedDishTriggerRow(entry);
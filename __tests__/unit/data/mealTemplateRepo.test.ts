@@ -0,0 +1,143 @@
+/**
+ * Unit tests for mealTemplateRepo.ts
+ *
+ * These tests mock the Supabase query builder chain and RPC calls to test repository
+ * functions in isolation, without requiring a real database connection.
+ */
+
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import {
+  createMealTemplate,
+  deleteMealTemplateById,
+  getMealTemplatesByUserId,
+  logMealTemplateTransaction,
+} from '@/data/mealTemplateRepo';
+import { supabase } from '@/lib/supabase';
+
+// Store original Supabase methods to restore after each test
+const originalFrom = supabase.from;
+const originalRpc = supabase.rpc;
+
+afterEach(() => {
+  (supabase as any).from = originalFrom;
+  (supabase as any).rpc = originalRpc;
+  vi.restoreAllMocks();
+});
+
+describe('mealTemplateRepo', () => {
+  describe('createMealTemplate', () => {
+    it('calls create_meal_template and returns the new template ID', async () => {
+      const rpc = vi.fn().mockResolvedValue({ data: 'template-1', error: null });
+      (supabase as any).rpc = rpc;
+
+      const result = await createMealTemplate('raw-entry-1', 'Weekday breakfast');
+
+      expect(rpc).toHaveBeenCalledWith('create_meal_template', {
+        p_raw_entry_id: 'raw-entry-1',
+        p_template_name: 'Weekday breakfast',
+      });
+      expect(result).toBe('template-1');
+    });
+
+    it('throws the database error message', async () => {
+      (supabase as any).rpc = vi.fn().mockResolvedValue({
+        data: null,
+        error: { message: 'A meal template named "Weekday breakfast" already exists' },
+      });
+
+      await expect(createMealTemplate('raw-entry-1', 'Weekday breakfast')).rejects.toThrow(
+        'A meal template named "Weekday breakfast" already exists',
+      );
+    });
+  });
+
+  describe('getMealTemplatesByUserId', () => {
+    it('maps templates with their dishes in position order', async () => {
+      const createdAt = new Date().toISOString();
+      const order = vi.fn().mockResolvedValue({
+        data: [
+          {
+            id: 'template-1',
+            user_id: 'user-1',
+            template_name: 'Weekday breakfast',
+            created_at: createdAt,
+            meal_template_dish: [
+              {
+                position: 1,
+                dish: { id: 'dish-2', dish_name: 'coffee with milk' },
+                meal_template_dish_triggers: [
+                  { triggers: { id: 't-1', trigger_name: 'dairy', created_at: createdAt } },
+                ],
+              },
+              {
+                position: 0,
+                dish: { id: 'dish-1', dish_name: 'oatmeal' },
+                meal_template_dish_triggers: [],
+              },
+            ],
+          },
+        ],
+        error: null,
+      });
+      const eq = vi.fn().mockReturnValue({ order });
+      const select = vi.fn().mockReturnValue({ eq });
+      (supabase as any).from = vi.fn().mockReturnValue({ select });
+
+      const result = await getMealTemplatesByUserId('user-1');
+
+      expect(supabase.from).toHaveBeenCalledWith('meal_template');
+      expect(eq).toHaveBeenCalledWith('user_id', 'user-1');
+      expect(order).toHaveBeenCalledWith('template_name', { ascending: true });
+      expect(result).toEqual([
+        {
+          id: 'template-1',
+          userId: 'user-1',
+          templateName: 'Weekday breakfast',
+          createdAt: new Date(createdAt).getTime(),
+          dishes: [
+            { dishId: 'dish-1', dishName: 'oatmeal', triggers: [] },
+            {
+              dishId: 'dish-2',
+              dishName: 'coffee with milk',
+              triggers: [expect.objectContaining({ id: 't-1', triggerName: 'dairy' })],
+            },
+          ],
+        },
+      ]);
+    });
+  });
+
+  describe('logMealTemplateTransaction', () => {
+    it('calls log_meal_template with the template and time', async () => {
+      const response = { entry_id: 'raw-entry-2', dishes: [] };
+      const rpc = vi.fn().mockResolvedValue({ data: response, error: null });
+      (supabase as any).rpc = rpc;
+
+      const result = await logMealTemplateTransaction({
+        templateId: 'template-1',
+        occurredAt: Date.UTC(2025, 0, 1, 8, 0, 0),
+        mealType: 'breakfast',
+      });
+
+      expect(rpc).toHaveBeenCalledWith('log_meal_template', {
+        p_template_id: 'template-1',
+        p_occurred_at: '2025-01-01T08:00:00.000Z',
+        p_meal_type: 'breakfast',
+      });
+      expect(result).toEqual(response);
+    });
+  });
+
+  describe('deleteMealTemplateById', () => {
+    it('deletes the template by ID', async () => {
+      const eq = vi.fn().mockResolvedValue({ error: null });
+      const deleteFn = vi.fn().mockReturnValue({ eq });
+      (supabase as any).from = vi.fn().mockReturnValue({ delete: deleteFn });
+
+      await deleteMealTemplateById('template-1');
+
+      expect(supabase.from).toHaveBeenCalledWith('meal_template');
+      expect(eq).toHaveBeenCalledWith('id', 'template-1');
+    });
+  });
+});
@@ -0,0 +1,81 @@
+/**
+ * Unit tests for mealTemplateService.ts
+ *
+ * Repository calls are mocked; these tests cover template name validation and
+ * how templates are logged.
+ */
+
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { logMealTemplate, saveFoodEntryAsTemplate } from '@/data/mealTemplateService';
+import * as mealTemplateRepo from '@/data/mealTemplateRepo';
+import * as utils from '@/data/utils';
+import { MealTemplate } from '@/types/mealTemplate';
+
+const mockUser = { id: 'test-user-123' };
+
+const template: MealTemplate = {
+  id: 'template-1',
+  userId: mockUser.id,
+  templateName: 'Weekday breakfast',
+  createdAt: 1700000000000,
+  dishes: [{ dishId: 'dish-1', dishName: 'oatmeal', triggers: [] }],
+};
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe('mealTemplateService', () => {
+  describe('saveFoodEntryAsTemplate', () => {
+    it('saves the entry under the trimmed name', async () => {
+      vi.spyOn(utils, 'getAuthenticatedUserId').mockResolvedValue(mockUser.id);
+      const createSpy = vi
+        .spyOn(mealTemplateRepo, 'createMealTemplate')
+        .mockResolvedValue('template-1');
+
+      const result = await saveFoodEntryAsTemplate('raw-entry-1', '  Weekday breakfast ');
+
+      expect(createSpy).toHaveBeenCalledWith('raw-entry-1', 'Weekday breakfast');
+      expect(result).toBe('template-1');
+    });
+
+    it('rejects a blank name without calling the database', async () => {
+      vi.spyOn(utils, 'getAuthenticatedUserId').mockResolvedValue(mockUser.id);
+      const createSpy = vi.spyOn(mealTemplateRepo, 'createMealTemplate');
+
+      await expect(saveFoodEntryAsTemplate('raw-entry-1', '   ')).rejects.toThrow(
+        'Template name is required',
+      );
+      expect(createSpy).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('logMealTemplate', () => {
+    it('logs the template at the chosen time with the meal type its name gives', async () => {
+      vi.spyOn(utils, 'getAuthenticatedUserId').mockResolvedValue(mockUser.id);
+      const response = {
+        entry_id: 'raw-entry-2',
+        dishes: [
+          {
+            dish_event_id: 'event-1',
+            dish_id: 'dish-1',
+            dish_name: 'oatmeal',
+            triggers: [],
+          },
+        ],
+      };
+      const logSpy = vi
+        .spyOn(mealTemplateRepo, 'logMealTemplateTransaction')
+        .mockResolvedValue(response);
+
+      const result = await logMealTemplate(template, 1710000000000);
+
+      expect(logSpy).toHaveBeenCalledWith({
+        templateId: 'template-1',
+        occurredAt: 1710000000000,
+        mealType: 'breakfast',
+      });
+      expect(result).toEqual(response);
+    });
+  });
+});
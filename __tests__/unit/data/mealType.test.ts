@@ -0,0 +1,72 @@
+/**
+ * Unit tests for mealType.ts
+ *
+ * Covers inferring the meal type of an entry from its text, dishes and local time of day.
+ */
+
+import { describe, expect, it } from 'vitest';
+import { getMealTypeForTime, inferMealType, toMealType } from '@/data/mealType';
+
+// A local time on a fixed day, so tests don't depend on the machine's time zone
+const at = (hours: number, minutes = 0) => new Date(2025, 0, 1, hours, minutes).getTime();
+
+describe('mealType', () => {
+  describe('toMealType', () => {
+    it('accepts known meal types in any case', () => {
+      expect(toMealType('lunch')).toBe('lunch');
+      expect(toMealType(' Drink ')).toBe('drink');
+    });
+
+    it('rejects unknown values', () => {
+      expect(toMealType('elevenses')).toBeNull();
+      expect(toMealType(null)).toBeNull();
+      expect(toMealType(3)).toBeNull();
+    });
+  });
+
+  describe('getMealTypeForTime', () => {
+    it('maps the local time of day to a meal', () => {
+      expect(getMealTypeForTime(at(7, 30))).toBe('breakfast');
+      expect(getMealTypeForTime(at(12, 15))).toBe('lunch');
+      expect(getMealTypeForTime(at(19))).toBe('dinner');
+    });
+
+    it('treats times between meals and late at night as snacks', () => {
+      expect(getMealTypeForTime(at(16))).toBe('snack');
+      expect(getMealTypeForTime(at(23, 30))).toBe('snack');
+      expect(getMealTypeForTime(at(2))).toBe('snack');
+    });
+  });
+
+  describe('inferMealType', () => {
+    it('prefers a meal named in the entry text over the time of day', () => {
+      expect(
+        inferMealType({
+          rawEntryText: 'Cold pizza for breakfast',
+          dishNames: ['Pizza'],
+          occurredAt: at(19),
+        }),
+      ).toBe('breakfast');
+    });
+
+    it('classifies an entry of only drinks as a drink', () => {
+      expect(
+        inferMealType({
+          rawEntryText: 'Oat milk latte and orange juice',
+          dishNames: ['Oat Milk Latte', 'Orange Juice'],
+          occurredAt: at(8),
+        }),
+      ).toBe('drink');
+    });
+
+    it('falls back to the time of day when a drink comes with food', () => {
+      expect(
+        inferMealType({
+          rawEntryText: 'Croissant and latte',
+          dishNames: ['Croissant', 'Latte'],
+          occurredAt: at(8),
+        }),
+      ).toBe('breakfast');
+    });
+  });
+});
@@ -0,0 +1,53 @@
+/**
+ * Unit tests for portion.ts
+ *
+ * Covers parsing portions from LLM output and user input, and formatting them for display.
+ */
+
+import { describe, expect, it } from 'vitest';
+import { formatPortion, toPortionSize, toQuantity, toUnit } from '@/data/portion';
+
+describe('portion', () => {
+  describe('toQuantity', () => {
+    it('accepts positive numbers and numeric text', () => {
+      expect(toQuantity(2)).toBe(2);
+      expect(toQuantity(' 1.5 ')).toBe(1.5);
+      expect(toQuantity('0,5')).toBe(0.5);
+    });
+
+    it('rejects zero, negative, blank and non-numeric values', () => {
+      expect(toQuantity(0)).toBeNull();
+      expect(toQuantity(-1)).toBeNull();
+      expect(toQuantity('')).toBeNull();
+      expect(toQuantity('a few')).toBeNull();
+      expect(toQuantity(null)).toBeNull();
+      expect(toQuantity(Infinity)).toBeNull();
+    });
+  });
+
+  describe('toUnit', () => {
+    it('trims and lowercases units, and treats blank as no unit', () => {
+      expect(toUnit('  Cups ')).toBe('cups');
+      expect(toUnit('fl   oz')).toBe('fl oz');
+      expect(toUnit('   ')).toBeNull();
+      expect(toUnit(3)).toBeNull();
+    });
+  });
+
+  describe('toPortionSize', () => {
+    it('accepts known portion sizes only', () => {
+      expect(toPortionSize('Large')).toBe('large');
+      expect(toPortionSize('huge')).toBeNull();
+      expect(toPortionSize(undefined)).toBeNull();
+    });
+  });
+
+  describe('formatPortion', () => {
+    it('combines the amount and the portion size', () => {
+      expect(formatPortion(2, 'cups', null)).toBe('2 cups');
+      expect(formatPortion(3, null, 'small')).toBe('3 · Small');
+      expect(formatPortion(null, null, 'large')).toBe('Large');
+      expect(formatPortion(null, null, null)).toBe('');
+    });
+  });
+});
@@ -0,0 +1,418 @@
+/**
+ * Unit tests for predictionBackfillService.ts
+ *
+ * The repository is replaced with an in-memory set of dish events (saved ones stop being
+ * candidates, as in the current_dish_event_predictions view, and pages start after the cursor)
+ * and the LLM calls are mocked.
+ */
+
+import { SupabaseClient } from '@supabase/supabase-js';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import {
+  diffTriggerNames,
+  formatPredictionBackfillReport,
+  getPredictionBackfillChanges,
+  getPredictionBackfillSelectionKey,
+  runPredictionBackfill,
+} from '@/data/predictionBackfillService';
+import * as foodEntryRepo from '@/data/foodEntryRepo';
+import * as llmService from '@/data/llmService';
+import { createLLMCache, setLLMCache } from '@/lib/llmCache';
+import { createFakeProvider, setLLMProvider } from '@/lib/llmProvider';
+import { PROMPT_VERSION } from '@/lib/llmPrompts';
+import { IngredientWithTriggers } from '@/types/dish';
+import { DishEventPrediction, PredictionBackfillChange, PredictionBackfillCursor } from '@/types/evaluation';
+
+const MODEL = 'gpt-4o-mini';
+
+const prediction = (
+  dishEventId: string,
+  overrides: Partial<DishEventPrediction> = {},
+): DishEventPrediction => ({
+  dishEventId,
+  userId: 'user-1',
+  dishId: `dish-${dishEventId}`,
+  dishName: 'Toast',
+  dishFragmentText: 'toast',
+  confirmed: false,
+  isNewDish: true,
+  backfilled: false,
+  modelVersion: MODEL,
+  promptVersion: 'v3',
+  predictedTriggerNames: ['gluten'],
+  createdAt: 1000,
+  ...overrides,
+});
+
+const cursorOf = (dishEventId: string): PredictionBackfillCursor => ({
+  createdAt: '1970-01-01T00:00:01.000Z',
+  dishEventId,
+});
+
+// Serves candidates like the database would: in the given order, starting after the cursor, and
+// without saved dish events. storedCursor is where an earlier run stopped
+function mockCandidates(events: DishEventPrediction[], storedCursor: PredictionBackfillCursor | null = null) {
+  const saved = new Set<string>();
+  const getCandidates = vi
+    .spyOn(foodEntryRepo, 'getPredictionBackfillCandidates')
+    .mockImplementation(async (_target, _selection, limit, after) => {
+      const start = after ? events.findIndex((event) => event.dishEventId === after.dishEventId) + 1 : 0;
+      return events
+        .slice(start)
+        .filter((event) => !saved.has(event.dishEventId))
+        .slice(0, limit)
+        .map((event) => ({ ...event, cursor: cursorOf(event.dishEventId) }));
+    });
+  const save = vi.spyOn(foodEntryRepo, 'saveBackfilledPrediction').mockImplementation(async (args) => {
+    saved.add(args.dishEventId);
+  });
+  vi.spyOn(foodEntryRepo, 'getPredictionBackfillProgress').mockResolvedValue(storedCursor);
+  const saveProgress = vi.spyOn(foodEntryRepo, 'savePredictionBackfillProgress').mockResolvedValue();
+  const clearProgress = vi.spyOn(foodEntryRepo, 'clearPredictionBackfillProgress').mockResolvedValue();
+  return { getCandidates, save, saveProgress, clearProgress };
+}
+
+// Predicts the given triggers per dish name; dish names in `failing` fall back to rules
+function mockPredictions(triggersByDishName: Record<string, string[]>, failing: string[] = []) {
+  return vi
+    .spyOn(llmService, 'llmPredictTriggers')
+    .mockImplementation(async (dishName, _fragmentText, _customTriggerNames, _promptVersion, trace) => {
+      if (failing.includes(dishName) && trace) {
+        trace.degraded = true;
+      }
+      return (triggersByDishName[dishName] ?? []) as any;
+    });
+}
+
+beforeEach(() => {
+  setLLMProvider(createFakeProvider(undefined, MODEL));
+  vi.spyOn(foodEntryRepo, 'getCustomTriggers').mockResolvedValue([]);
+  vi.spyOn(foodEntryRepo, 'findIngredientsByNormalizedNames').mockResolvedValue([]);
+});
+
+afterEach(() => {
+  setLLMProvider(null);
+  setLLMCache(null);
+  vi.restoreAllMocks();
+});
+
+describe('predictionBackfillService', () => {
+  describe('runPredictionBackfill', () => {
+    it('re-predicts dish events with the new prompt version and reports the changed ones', async () => {
+      const { getCandidates, save, clearProgress } = mockCandidates([
+        prediction('event-1', { dishName: 'Toast', predictedTriggerNames: ['gluten'] }),
+        prediction('event-2', { dishName: 'Latte', predictedTriggerNames: ['caffeine'], confirmed: true }),
+      ]);
+      const predictTriggers = mockPredictions({ Toast: ['gluten'], Latte: ['caffeine', 'dairy'] });
+      vi.mocked(foodEntryRepo.getCustomTriggers).mockResolvedValue([
+        { id: 'trigger-9', triggerName: 'cilantro', createdAt: 1000 },
+      ]);
+
+      const result = await runPredictionBackfill({
+        promptVersion: 'v4',
+        userIds: ['user-1'],
+        unconfirmedOnly: false,
+        sleep: async () => {},
+      });
+
+      expect(getCandidates).toHaveBeenCalledWith(
+        { modelVersion: MODEL, promptVersion: 'v4' },
+        { userIds: ['user-1'], dishIds: undefined, unconfirmedOnly: false },
+        50,
+        null,
+        undefined,
+      );
+      expect(predictTriggers).toHaveBeenCalledWith('Toast', 'toast', ['cilantro'], 'v4', expect.anything());
+      expect(foodEntryRepo.getCustomTriggers).toHaveBeenCalledTimes(1);
+      expect(save).toHaveBeenCalledWith(
+        {
+          dishEventId: 'event-2',
+          modelVersion: MODEL,
+          promptVersion: 'v4',
+          previousTriggerNames: ['caffeine'],
+          triggerNames: ['caffeine', 'dairy'],
+        },
+        undefined,
+      );
+      expect(result.predictedCount).toBe(2);
+      expect(result.changes).toEqual([
+        expect.objectContaining({
+          dishEventId: 'event-2',
+          dishName: 'Latte',
+          confirmed: true,
+          previousTriggerNames: ['caffeine'],
+          predictedTriggerNames: ['caffeine', 'dairy'],
+          addedTriggerNames: ['dairy'],
+          removedTriggerNames: [],
+        }),
+      ]);
+      expect(result.failedDishEventIds).toEqual([]);
+      expect(result.stoppedEarly).toBe(false);
+      expect(result.resumed).toBe(false);
+      expect(result.completed).toBe(true);
+      expect(clearProgress).toHaveBeenCalledWith(
+        { modelVersion: MODEL, promptVersion: 'v4' },
+        getPredictionBackfillSelectionKey({ userIds: ['user-1'], unconfirmedOnly: false }),
+        undefined,
+      );
+    });
+
+    it('uses the current prompt version by default and rejects unknown ones', async () => {
+      const { getCandidates } = mockCandidates([]);
+
+      await runPredictionBackfill();
+      expect(getCandidates.mock.calls[0][0]).toEqual({ modelVersion: MODEL, promptVersion: PROMPT_VERSION });
+
+      await expect(runPredictionBackfill({ promptVersion: 'v99' })).rejects.toThrow('Unknown prompt version: v99');
+    });
+
+    it('predicts from the ingredients a dish is broken into, like new dishes', async () => {
+      const { save } = mockCandidates([
+        prediction('event-1', { dishName: 'Toast', predictedTriggerNames: [] }),
+        prediction('event-2', { dishName: 'Latte', predictedTriggerNames: [] }),
+      ]);
+      const decomposeDish = vi
+        .spyOn(llmService, 'llmDecomposeDish')
+        .mockImplementation(async (dishName) =>
+          dishName === 'Toast'
+            ? [
+                { ingredient_name: 'Bread', trigger_names: ['gluten'] },
+                { ingredient_name: 'Butter', trigger_names: ['dairy'] },
+              ]
+            : [],
+        );
+      const predictTriggers = mockPredictions({ Latte: ['caffeine'] });
+      // The user's butter was confirmed without dairy, and keeps its stored triggers
+      const butter: IngredientWithTriggers = {
+        id: 'ingredient-1',
+        userId: 'user-1',
+        ingredientName: 'Butter',
+        normalizedIngredientName: 'butter',
+        createdAt: 1000,
+        triggers: [],
+      };
+      vi.mocked(foodEntryRepo.findIngredientsByNormalizedNames).mockResolvedValue([butter]);
+
+      await runPredictionBackfill({ promptVersion: 'v4', sleep: async () => {} });
+
+      expect(decomposeDish).toHaveBeenCalledWith('Toast', 'toast', [], 'v4', expect.anything());
+      expect(foodEntryRepo.findIngredientsByNormalizedNames).toHaveBeenCalledWith(
+        'user-1',
+        ['bread', 'butter'],
+        undefined,
+      );
+      expect(save).toHaveBeenCalledWith(
+        expect.objectContaining({ dishEventId: 'event-1', triggerNames: ['gluten'] }),
+        undefined,
+      );
+      // Dishes that aren't broken into ingredients are predicted as a whole
+      expect(predictTriggers).toHaveBeenCalledTimes(1);
+      expect(save).toHaveBeenCalledWith(
+        expect.objectContaining({ dishEventId: 'event-2', triggerNames: ['caffeine'] }),
+        undefined,
+      );
+    });
+
+    it('predicts whole dishes with prompt versions before v3', async () => {
+      mockCandidates([prediction('event-1', { dishName: 'Toast' })]);
+      const decomposeDish = vi.spyOn(llmService, 'llmDecomposeDish');
+      const predictTriggers = mockPredictions({ Toast: ['gluten'] });
+
+      await runPredictionBackfill({ promptVersion: 'v2', sleep: async () => {} });
+
+      expect(decomposeDish).not.toHaveBeenCalled();
+      expect(predictTriggers).toHaveBeenCalledWith('Toast', 'toast', [], 'v2', expect.anything());
+    });
+
+    it('paces every LLM request to the rate limit, repairs included', async () => {
+      mockCandidates([prediction('event-1', { dishName: 'Toast' }), prediction('event-2', { dishName: 'Latte' })]);
+      // The first response doesn't match its schema, so Toast takes a repair request
+      const respond = vi
+        .fn()
+        .mockReturnValueOnce('{"ingredients":"bread"}')
+        .mockReturnValue('{"ingredients":[{"ingredient_name":"bread","triggers":["gluten"]}]}');
+      setLLMProvider(createFakeProvider(respond, MODEL));
+      setLLMCache(createLLMCache([]));
+      const sleep = vi.fn(async () => {});
+
+      const result = await runPredictionBackfill({ requestsPerMinute: 20, sleep, now: () => 0 });
+
+      expect(respond).toHaveBeenCalledTimes(3);
+      expect(sleep.mock.calls).toEqual([[3000], [3000]]);
+      expect(result.predictedCount).toBe(2);
+    });
+
+    it('leaves failed predictions for a later run and pages past them', async () => {
+      const events = [
+        prediction('event-1', { dishName: 'Mystery' }),
+        prediction('event-2', { dishName: 'Toast' }),
+        prediction('event-3', { dishName: 'Toast' }),
+      ];
+      const { getCandidates, save, saveProgress, clearProgress } = mockCandidates(events);
+      mockPredictions({ Toast: ['gluten'], Mystery: ['gluten'] }, ['Mystery']);
+
+      const result = await runPredictionBackfill({ batchSize: 2, sleep: async () => {} });
+
+      expect(save.mock.calls.map(([args]) => args.dishEventId)).toEqual(['event-2', 'event-3']);
+      expect(getCandidates.mock.calls.map((call) => call[3]?.dishEventId ?? null)).toEqual([
+        null,
+        'event-2',
+        'event-3',
+      ]);
+      expect(saveProgress.mock.calls.map((call) => call[2])).toEqual([cursorOf('event-2'), cursorOf('event-3')]);
+      expect(clearProgress).toHaveBeenCalledTimes(1);
+      expect(result.failedDishEventIds).toEqual(['event-1']);
+      expect(result.predictedCount).toBe(2);
+      expect(result.completed).toBe(true);
+    });
+
+    it('resumes after the dish event an earlier run got to', async () => {
+      const { getCandidates, save } = mockCandidates(
+        [prediction('event-1', { dishName: 'Mystery' }), prediction('event-2', { dishName: 'Toast' })],
+        cursorOf('event-1'),
+      );
+      mockPredictions({ Toast: ['gluten'] });
+
+      const result = await runPredictionBackfill({ sleep: async () => {} });
+
+      expect(getCandidates.mock.calls[0][3]).toEqual(cursorOf('event-1'));
+      expect(save.mock.calls.map(([args]) => args.dishEventId)).toEqual(['event-2']);
+      expect(result.resumed).toBe(true);
+    });
+
+    it('stops after repeated failures so a later run can resume', async () => {
+      const { save, saveProgress, clearProgress } = mockCandidates([
+        prediction('event-1', { dishName: 'Mystery' }),
+        prediction('event-2', { dishName: 'Mystery' }),
+        prediction('event-3', { dishName: 'Toast' }),
+      ]);
+      const predictTriggers = mockPredictions({ Toast: ['gluten'] }, ['Mystery']);
+
+      const result = await runPredictionBackfill({ maxConsecutiveFailures: 2, sleep: async () => {} });
+
+      expect(result.stoppedEarly).toBe(true);
+      expect(result.failedDishEventIds).toEqual(['event-1', 'event-2']);
+      expect(predictTriggers).toHaveBeenCalledTimes(2);
+      expect(save).not.toHaveBeenCalled();
+      expect(saveProgress).not.toHaveBeenCalled();
+      expect(clearProgress).not.toHaveBeenCalled();
+      expect(result.completed).toBe(false);
+    });
+
+    it('stops after the maximum number of dish events', async () => {
+      const { getCandidates, save, clearProgress } = mockCandidates([prediction('event-1'), prediction('event-2')]);
+      mockPredictions({ Toast: ['gluten'] });
+
+      const result = await runPredictionBackfill({ maxDishEvents: 1, sleep: async () => {} });
+
+      expect(getCandidates.mock.calls[0][2]).toBe(1);
+      expect(save).toHaveBeenCalledTimes(1);
+      expect(clearProgress).not.toHaveBeenCalled();
+      expect(result.completed).toBe(false);
+    });
+
+    it('reads and saves with the given client', async () => {
+      const { getCandidates, save, saveProgress, clearProgress } = mockCandidates([prediction('event-1')]);
+      mockPredictions({ Toast: ['gluten'] });
+      const client = {} as SupabaseClient;
+
+      await runPredictionBackfill({ client, sleep: async () => {} });
+
+      expect(foodEntryRepo.getPredictionBackfillProgress).toHaveBeenCalledWith(
+        expect.anything(),
+        expect.any(String),
+        client,
+      );
+      expect(foodEntryRepo.getCustomTriggers).toHaveBeenCalledWith('user-1', client);
+      expect(getCandidates.mock.calls.every((call) => call[4] === client)).toBe(true);
+      expect(save).toHaveBeenCalledWith(expect.objectContaining({ dishEventId: 'event-1' }), client);
+      expect(saveProgress).toHaveBeenCalledWith(expect.anything(), expect.any(String), cursorOf('event-1'), client);
+      expect(clearProgress).toHaveBeenCalledWith(expect.anything(), expect.any(String), client);
+    });
+  });
+
+  describe('getPredictionBackfillSelectionKey', () => {
+    it('is the same for the same selection in any order and differs otherwise', () => {
+      expect(getPredictionBackfillSelectionKey({ userIds: ['user-2', 'user-1'] })).toBe(
+        getPredictionBackfillSelectionKey({ userIds: ['user-1', 'user-2'], unconfirmedOnly: false }),
+      );
+      expect(getPredictionBackfillSelectionKey({ userIds: ['user-1'] })).not.toBe(
+        getPredictionBackfillSelectionKey({ dishIds: ['user-1'] }),
+      );
+    });
+  });
+
+  describe('diffTriggerNames', () => {
+    it('returns the added and removed trigger names', () => {
+      expect(diffTriggerNames(['gluten', 'dairy'], ['soy', 'gluten'])).toEqual({
+        addedTriggerNames: ['soy'],
+        removedTriggerNames: ['dairy'],
+      });
+    });
+  });
+
+  describe('getPredictionBackfillChanges', () => {
+    it('returns the backfilled dish events whose triggers changed', async () => {
+      const backfilled = (dishEventId: string, previousTriggerNames: string[], predictedTriggerNames: string[]) => ({
+        dishEventId,
+        userId: 'user-1',
+        dishId: 'dish-1',
+        dishName: 'Toast',
+        confirmed: false,
+        modelVersion: MODEL,
+        promptVersion: 'v4',
+        previousTriggerNames,
+        predictedTriggerNames,
+      });
+      const getBackfilled = vi
+        .spyOn(foodEntryRepo, 'getBackfilledPredictions')
+        .mockResolvedValue([backfilled('event-1', ['gluten'], ['gluten']), backfilled('event-2', [], ['gluten'])]);
+
+      const client = {} as SupabaseClient;
+      const changes = await getPredictionBackfillChanges({ promptVersion: 'v4', client });
+
+      expect(getBackfilled).toHaveBeenCalledWith({ modelVersion: MODEL, promptVersion: 'v4' }, client);
+      expect(changes.map((change) => [change.dishEventId, change.addedTriggerNames])).toEqual([
+        ['event-2', ['gluten']],
+      ]);
+    });
+  });
+
+  describe('formatPredictionBackfillReport', () => {
+    const change = (overrides: Partial<PredictionBackfillChange>): PredictionBackfillChange => ({
+      dishEventId: 'event-1',
+      userId: 'user-1',
+      dishId: 'dish-1',
+      dishName: 'Toast',
+      confirmed: false,
+      modelVersion: MODEL,
+      promptVersion: 'v4',
+      previousTriggerNames: [],
+      predictedTriggerNames: [],
+      addedTriggerNames: [],
+      removedTriggerNames: [],
+      ...overrides,
+    });
+
+    it('lists each changed dish once, by name', () => {
+      const report = formatPredictionBackfillReport([
+        change({ dishId: 'dish-2', dishName: 'Toast', addedTriggerNames: ['gluten'] }),
+        change({ dishId: 'dish-1', dishName: 'Latte', addedTriggerNames: ['dairy'], removedTriggerNames: ['soy'] }),
+        change({ dishId: 'dish-2', dishName: 'Toast', confirmed: true, addedTriggerNames: ['gluten'] }),
+      ]);
+
+      expect(report).toBe(
+        [
+          'Predictions changed for 2 dishes:',
+          'Latte (1 event, 1 unconfirmed): +dairy -soy',
+          'Toast (2 events, 1 unconfirmed): +gluten',
+          "Only each dish's first event is predicted again; later events reuse the dish's confirmed triggers.",
+        ].join('\n'),
+      );
+    });
+
+    it('says when nothing changed', () => {
+      expect(formatPredictionBackfillReport([]).split('\n')[0]).toBe('No predictions changed.');
+    });
+  });
+});
@@ -0,0 +1,66 @@
+/**
+ * Unit tests for profileRepo.ts
+ *
+ * These tests mock the Supabase query builder chain to test repository functions in isolation,
+ * without requiring a real database connection.
+ */
+
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { getAiPredictionsEnabled, updateAiPredictionsEnabled } from '@/data/profileRepo';
+import { supabase } from '@/lib/supabase';
+
+// Store original Supabase methods to restore after each test
+const originalFrom = supabase.from;
+
+afterEach(() => {
+  (supabase as any).from = originalFrom;
+  vi.restoreAllMocks();
+});
+
+// Mocks from('profiles').select().eq().maybeSingle() resolving to the given result
+const mockProfileSelect = (result: { data: unknown; error: unknown }) => {
+  const maybeSingle = vi.fn().mockResolvedValue(result);
+  const eq = vi.fn().mockReturnValue({ maybeSingle });
+  const select = vi.fn().mockReturnValue({ eq });
+  (supabase as any).from = vi.fn().mockReturnValue({ select });
+  return { select, eq };
+};
+
+describe('profileRepo', () => {
+  describe('getAiPredictionsEnabled', () => {
+    it('reads the setting from the user\'s profile', async () => {
+      const { select, eq } = mockProfileSelect({ data: { ai_predictions_enabled: false }, error: null });
+
+      expect(await getAiPredictionsEnabled('user-1')).toBe(false);
+      expect(supabase.from).toHaveBeenCalledWith('profiles');
+      expect(select).toHaveBeenCalledWith('ai_predictions_enabled');
+      expect(eq).toHaveBeenCalledWith('id', 'user-1');
+    });
+
+    it('defaults to enabled when the user has no profile', async () => {
+      mockProfileSelect({ data: null, error: null });
+
+      expect(await getAiPredictionsEnabled('user-1')).toBe(true);
+    });
+
+    it('throws when the query fails', async () => {
+      mockProfileSelect({ data: null, error: { message: 'permission denied' } });
+
+      await expect(getAiPredictionsEnabled('user-1')).rejects.toThrow();
+    });
+  });
+
+  describe('updateAiPredictionsEnabled', () => {
+    it('saves the setting on the user\'s profile', async () => {
+      const eq = vi.fn().mockResolvedValue({ error: null });
+      const update = vi.fn().mockReturnValue({ eq });
+      (supabase as any).from = vi.fn().mockReturnValue({ update });
+
+      await updateAiPredictionsEnabled('user-1', false);
+
+      expect(supabase.from).toHaveBeenCalledWith('profiles');
+      expect(update).toHaveBeenCalledWith({ ai_predictions_enabled: false });
+      expect(eq).toHaveBeenCalledWith('id', 'user-1');
+    });
+  });
+});
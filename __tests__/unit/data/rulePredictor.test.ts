@@ -0,0 +1,100 @@
+/**
+ * Unit tests for rulePredictor.ts
+ *
+ * Covers splitting entries into dishes and predicting triggers from keywords, which stand in
+ * for the LLM when it fails or the user turned AI suggestions off.
+ */
+
+import { describe, expect, it } from 'vitest';
+import { ruleExtractDishes, rulePredictTriggers, TRIGGER_KEYWORDS } from '@/data/rulePredictor';
+import { VALID_TRIGGER_NAMES } from '@/data/trigger';
+
+describe('rulePredictor', () => {
+  describe('ruleExtractDishes', () => {
+    it('splits an entry on commas, "and", "&" and new lines', () => {
+      const result = ruleExtractDishes('scrambled eggs, toast and coffee & OJ\nbanana');
+
+      expect(result.map((dish) => dish.dish_name_suggestion)).toEqual([
+        'Scrambled Eggs',
+        'Toast',
+        'Coffee',
+        'Oj',
+        'Banana',
+      ]);
+      expect(result[0]).toEqual({
+        dish_fragment_text: 'scrambled eggs',
+        dish_name_suggestion: 'Scrambled Eggs',
+        quantity: null,
+        unit: null,
+        portion_size: null,
+      });
+    });
+
+    it('takes a leading number as the quantity and drops articles', () => {
+      const result = ruleExtractDishes('2 tacos, three slices of pizza, half a bagel, a latte');
+
+      expect(result.map((dish) => [dish.dish_name_suggestion, dish.quantity])).toEqual([
+        ['Tacos', 2],
+        ['Slices of Pizza', 3],
+        ['Bagel', 0.5],
+        ['Latte', null],
+      ]);
+    });
+
+    it('does not split words that contain "and"', () => {
+      const result = ruleExtractDishes('candy and a sandwich');
+
+      expect(result.map((dish) => dish.dish_name_suggestion)).toEqual(['Candy', 'Sandwich']);
+    });
+
+    it('returns the entry as a single dish when there is nothing to split', () => {
+      expect(ruleExtractDishes(' , ')).toEqual([
+        {
+          dish_fragment_text: ' , ',
+          dish_name_suggestion: ' , ',
+          quantity: null,
+          unit: null,
+          portion_size: null,
+        },
+      ]);
+    });
+  });
+
+  describe('rulePredictTriggers', () => {
+    it('predicts triggers from keywords in the dish name and fragment', () => {
+      expect(rulePredictTriggers('Garlic Bread', 'garlic bread')).toEqual(['gluten', 'fructans']);
+      expect(rulePredictTriggers('Latte', 'large iced latte with oat milk')).toEqual([
+        'caffeine',
+        'dairy',
+      ]);
+    });
+
+    it('matches whole words and plurals only', () => {
+      expect(rulePredictTriggers('Black Beans', 'black beans')).toEqual(['legumes_beans']);
+      expect(rulePredictTriggers('Ham Sandwich', 'ham sandwich')).toEqual([
+        'gluten',
+        'processed_meat',
+      ]);
+      // "ham" inside "hamburger" and "rum" inside "rump" are not matches
+      expect(rulePredictTriggers('Rump Steak', 'rump steak')).toEqual(['red_meat']);
+      expect(rulePredictTriggers('Hamburger', 'hamburger')).toEqual(['gluten', 'red_meat']);
+    });
+
+    it('predicts nothing for a dish without known keywords', () => {
+      expect(rulePredictTriggers('Green Salad', 'green salad')).toEqual([]);
+    });
+
+    it('predicts the user\'s custom triggers named in the text', () => {
+      expect(rulePredictTriggers('Fish Tacos', 'fish tacos with cilantro', ['Cilantro', 'Kiwi'])).toEqual([
+        'fish',
+        'Cilantro',
+      ]);
+    });
+
+    it('has keywords for every built-in trigger', () => {
+      for (const triggerName of VALID_TRIGGER_NAMES) {
+        expect(TRIGGER_KEYWORDS[triggerName].length).toBeGreaterThan(0);
+      }
+    });
+  });
+});
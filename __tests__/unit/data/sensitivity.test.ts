@@ -0,0 +1,69 @@
+/**
+ * Unit tests for sensitivity.ts
+ *
+ * Covers matching a meal's triggers against the user's known sensitivities and the warning text.
+ */
+
+import { describe, expect, it } from 'vitest';
+import {
+  findKnownSensitivities,
+  formatKnownTriggerWarning,
+  getHighSensitivityTriggerIds,
+  SensitivityLevel,
+  toSensitivityLevel,
+} from '@/data/sensitivity';
+import { TriggerSensitivity } from '@/types/sensitivity';
+
+const sensitivity = (triggerName: string, level: SensitivityLevel): TriggerSensitivity => ({
+  id: `sensitivity-${triggerName}`,
+  userId: 'user-1',
+  trigger: { id: `trigger-${triggerName}`, triggerName, createdAt: 0 },
+  sensitivityLevel: level,
+  updatedAt: 0,
+});
+
+const dairy = sensitivity('dairy', 'high');
+const gluten = sensitivity('gluten', 'low');
+const cilantro = sensitivity('Cilantro', 'medium');
+
+describe('sensitivity', () => {
+  describe('toSensitivityLevel', () => {
+    it('accepts known levels in any case and rejects anything else', () => {
+      expect(toSensitivityLevel(' High ')).toBe('high');
+      expect(toSensitivityLevel('severe')).toBeNull();
+      expect(toSensitivityLevel(undefined)).toBeNull();
+    });
+  });
+
+  describe('getHighSensitivityTriggerIds', () => {
+    it('returns only high-sensitivity triggers', () => {
+      expect(getHighSensitivityTriggerIds([dairy, gluten, cilantro])).toEqual(
+        new Set(['trigger-dairy']),
+      );
+    });
+  });
+
+  describe('findKnownSensitivities', () => {
+    it('returns the sensitivities the meal contains, most sensitive first', () => {
+      const result = findKnownSensitivities(
+        ['trigger-gluten', 'trigger-Cilantro', 'trigger-dairy', 'trigger-soy'],
+        [gluten, dairy, cilantro],
+      );
+
+      expect(result).toEqual([dairy, cilantro, gluten]);
+    });
+  });
+
+  describe('formatKnownTriggerWarning', () => {
+    it('lists the known triggers with their levels', () => {
+      expect(formatKnownTriggerWarning([dairy])).toBe('Contains Dairy (high sensitivity)');
+      expect(formatKnownTriggerWarning([dairy, cilantro, gluten])).toBe(
+        'Contains Dairy (high sensitivity), Cilantro (medium sensitivity) and Gluten (low sensitivity)',
+      );
+    });
+
+    it('returns null without known triggers', () => {
+      expect(formatKnownTriggerWarning([])).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,117 @@
+/**
+ * Unit tests for sensitivityRepo.ts
+ *
+ * These tests mock the Supabase query builder chain to test repository functions in isolation,
+ * without requiring a real database connection.
+ */
+
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import {
+  deleteTriggerSensitivityById,
+  getTriggerSensitivitiesByUserId,
+  upsertTriggerSensitivity,
+} from '@/data/sensitivityRepo';
+import { supabase } from '@/lib/supabase';
+
+// Store original Supabase methods to restore after each test
+const originalFrom = supabase.from;
+
+const createdAt = new Date('2025-01-01T00:00:00Z').toISOString();
+
+const sensitivityRow = (id: string, triggerName: string, level: string) => ({
+  id,
+  user_id: 'user-1',
+  trigger_id: `trigger-${triggerName}`,
+  sensitivity_level: level,
+  created_at: createdAt,
+  updated_at: createdAt,
+  triggers: { id: `trigger-${triggerName}`, trigger_name: triggerName, created_at: createdAt },
+});
+
+afterEach(() => {
+  (supabase as any).from = originalFrom;
+  vi.restoreAllMocks();
+});
+
+describe('sensitivityRepo', () => {
+  describe('getTriggerSensitivitiesByUserId', () => {
+    it('maps the user\'s sensitivities with their triggers', async () => {
+      const order = vi.fn().mockResolvedValue({
+        data: [
+          sensitivityRow('sensitivity-1', 'dairy', 'high'),
+          // A trigger the user can no longer see is left out
+          { ...sensitivityRow('sensitivity-2', 'gone', 'low'), triggers: null },
+        ],
+        error: null,
+      });
+      const eq = vi.fn().mockReturnValue({ order });
+      const select = vi.fn().mockReturnValue({ eq });
+      (supabase as any).from = vi.fn().mockReturnValue({ select });
+
+      const result = await getTriggerSensitivitiesByUserId('user-1');
+
+      expect(supabase.from).toHaveBeenCalledWith('profile_trigger_sensitivities');
+      expect(eq).toHaveBeenCalledWith('user_id', 'user-1');
+      expect(result).toEqual([
+        {
+          id: 'sensitivity-1',
+          userId: 'user-1',
+          trigger: { id: 'trigger-dairy', triggerName: 'dairy', createdAt: Date.parse(createdAt) },
+          sensitivityLevel: 'high',
+          updatedAt: Date.parse(createdAt),
+        },
+      ]);
+    });
+  });
+
+  describe('upsertTriggerSensitivity', () => {
+    it('replaces the level of a trigger already in the profile', async () => {
+      const single = vi
+        .fn()
+        .mockResolvedValue({ data: sensitivityRow('sensitivity-1', 'gluten', 'medium'), error: null });
+      const select = vi.fn().mockReturnValue({ single });
+      const upsert = vi.fn().mockReturnValue({ select });
+      (supabase as any).from = vi.fn().mockReturnValue({ upsert });
+
+      const result = await upsertTriggerSensitivity('user-1', 'trigger-gluten', 'medium');
+
+      expect(upsert).toHaveBeenCalledWith(
+        {
+          user_id: 'user-1',
+          trigger_id: 'trigger-gluten',
+          sensitivity_level: 'medium',
+          updated_at: expect.any(String),
+        },
+        { onConflict: 'user_id,trigger_id' },
+      );
+      expect(result.sensitivityLevel).toBe('medium');
+      expect(result.trigger.triggerName).toBe('gluten');
+    });
+
+    it('throws the database error message', async () => {
+      const single = vi.fn().mockResolvedValue({
+        data: null,
+        error: { message: 'violates check constraint' },
+      });
+      const select = vi.fn().mockReturnValue({ single });
+      const upsert = vi.fn().mockReturnValue({ select });
+      (supabase as any).from = vi.fn().mockReturnValue({ upsert });
+
+      await expect(upsertTriggerSensitivity('user-1', 'trigger-gluten', 'high')).rejects.toThrow(
+        'violates check constraint',
+      );
+    });
+  });
+
+  describe('deleteTriggerSensitivityById', () => {
+    it('deletes the sensitivity by ID', async () => {
+      const eq = vi.fn().mockResolvedValue({ error: null });
+      const del = vi.fn().mockReturnValue({ eq });
+      (supabase as any).from = vi.fn().mockReturnValue({ delete: del });
+
+      await deleteTriggerSensitivityById('sensitivity-1');
+
+      expect(eq).toHaveBeenCalledWith('id', 'sensitivity-1');
+    });
+  });
+});
@@ -0,0 +1,70 @@
+/**
+ * Unit tests for sensitivityService.ts
+ *
+ * Repository calls are mocked; these tests cover the warning shown after a meal is logged.
+ */
+
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { getKnownTriggerWarning } from '@/data/sensitivityService';
+import * as sensitivityRepo from '@/data/sensitivityRepo';
+import * as utils from '@/data/utils';
+import { DishWithTriggers } from '@/types/foodEntry';
+
+const mockUser = { id: 'test-user-123' };
+
+const dish = (triggers: Array<{ trigger_id: string; trigger_name: string }>): DishWithTriggers => ({
+  dish_event_id: 'event-1',
+  dish_id: 'dish-1',
+  dish_name: 'latte',
+  triggers,
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe('sensitivityService', () => {
+  describe('getKnownTriggerWarning', () => {
+    it('warns about known triggers in the logged dishes', async () => {
+      vi.spyOn(utils, 'getAuthenticatedUserId').mockResolvedValue(mockUser.id);
+      vi.spyOn(sensitivityRepo, 'getTriggerSensitivitiesByUserId').mockResolvedValue([
+        {
+          id: 'sensitivity-1',
+          userId: mockUser.id,
+          trigger: { id: 'trigger-dairy', triggerName: 'dairy', createdAt: 0 },
+          sensitivityLevel: 'high',
+          updatedAt: 0,
+        },
+      ]);
+
+      const result = await getKnownTriggerWarning([
+        dish([
+          { trigger_id: 'trigger-caffeine', trigger_name: 'caffeine' },
+          { trigger_id: 'trigger-dairy', trigger_name: 'dairy' },
+        ]),
+      ]);
+
+      expect(result).toBe('Contains Dairy (high sensitivity)');
+    });
+
+    it('skips the profile lookup for a meal without triggers', async () => {
+      const getSensitivities = vi.spyOn(sensitivityRepo, 'getTriggerSensitivitiesByUserId');
+
+      expect(await getKnownTriggerWarning([dish([])])).toBeNull();
+      expect(getSensitivities).not.toHaveBeenCalled();
+    });
+
+    it('returns null instead of failing when the profile can\'t be loaded', async () => {
+      vi.spyOn(utils, 'getAuthenticatedUserId').mockResolvedValue(mockUser.id);
+      vi.spyOn(sensitivityRepo, 'getTriggerSensitivitiesByUserId').mockRejectedValue(
+        new Error('network error'),
+      );
+
+      const result = await getKnownTriggerWarning([
+        dish([{ trigger_id: 'trigger-dairy', trigger_name: 'dairy' }]),
+      ]);
+
+      expect(result).toBeNull();
+    });
+  });
+});
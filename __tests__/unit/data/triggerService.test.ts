@@ -0,0 +1,65 @@
+/**
+ * Unit tests for triggerService.ts
+ *
+ * Repository calls are mocked; these tests cover custom trigger name validation and
+ * reusing triggers that already exist.
+ */
+
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { createCustomTrigger } from '@/data/triggerService';
+import * as foodEntryRepo from '@/data/foodEntryRepo';
+import * as utils from '@/data/utils';
+import { Trigger } from '@/types/dish';
+
+const mockUser = { id: 'test-user-123' };
+
+const existingTriggers: Trigger[] = [
+  { id: 'trigger-sugar', triggerName: 'added_sugar', createdAt: 1700000000000 },
+  { id: 'trigger-cilantro', triggerName: 'Cilantro', createdAt: 1700000000000 },
+];
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe('triggerService', () => {
+  describe('createCustomTrigger', () => {
+    it('creates the trigger under the trimmed name', async () => {
+      vi.spyOn(utils, 'getAuthenticatedUserId').mockResolvedValue(mockUser.id);
+      vi.spyOn(foodEntryRepo, 'getAllTriggers').mockResolvedValue(existingTriggers);
+      const created: Trigger = {
+        id: 'trigger-xanthan',
+        triggerName: 'Xanthan gum',
+        createdAt: 1700000000000,
+      };
+      const createSpy = vi
+        .spyOn(foodEntryRepo, 'createCustomTrigger')
+        .mockResolvedValue(created);
+
+      const result = await createCustomTrigger('  Xanthan   gum ');
+
+      expect(createSpy).toHaveBeenCalledWith(mockUser.id, 'Xanthan gum');
+      expect(result).toEqual(created);
+    });
+
+    it('returns an existing trigger matching the name or display text', async () => {
+      vi.spyOn(utils, 'getAuthenticatedUserId').mockResolvedValue(mockUser.id);
+      vi.spyOn(foodEntryRepo, 'getAllTriggers').mockResolvedValue(existingTriggers);
+      const createSpy = vi.spyOn(foodEntryRepo, 'createCustomTrigger');
+
+      expect(await createCustomTrigger('cilantro')).toEqual(existingTriggers[1]);
+      expect(await createCustomTrigger('Added Sugar')).toEqual(existingTriggers[0]);
+      expect(createSpy).not.toHaveBeenCalled();
+    });
+
+    it('rejects a blank name without calling the database', async () => {
+      vi.spyOn(utils, 'getAuthenticatedUserId').mockResolvedValue(mockUser.id);
+      const getAllSpy = vi.spyOn(foodEntryRepo, 'getAllTriggers');
+      const createSpy = vi.spyOn(foodEntryRepo, 'createCustomTrigger');
+
+      await expect(createCustomTrigger('   ')).rejects.toThrow('Trigger name is required');
+      expect(getAllSpy).not.toHaveBeenCalled();
+      expect(createSpy).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,290 @@
+/**
+ * Unit tests for the llm Edge Function's handler (supabase/functions/llm/handler.ts)
+ *
+ * The handler is called with plain Requests; authentication, rate limiting and the OpenAI API
+ * are mocked. The function running under the local Supabase stack is covered by the
+ * integration tests.
+ */
+
+import { describe, expect, it, Mock, vi } from 'vitest';
+import {
+  createLLMHandler,
+  getLLMFunctionConfig,
+  LLMFunctionConfig,
+  LLMFunctionDeps,
+} from '../../../supabase/functions/llm/handler';
+import { getExtractDishesPrompt, getPredictTriggersPrompt, PROMPT_VERSION } from '@/lib/llmPrompts';
+
+const config: LLMFunctionConfig = {
+  openaiApiKey: 'sk-test',
+  openaiBaseUrl: 'http://openai.test/v1',
+  chatModels: ['gpt-4o-mini', 'gpt-4o'],
+  embeddingModels: ['text-embedding-3-small'],
+  maxTextLength: 100,
+  maxCustomTriggerNames: 2,
+  maxEmbeddingInputs: 2,
+  requestsPerMinute: 5,
+  requestsPerDay: 50,
+};
+
+const openAIResponse = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json' } });
+
+const chatResponse = (content: string) => openAIResponse({ choices: [{ message: { content } }] });
+
+const predictTriggers = { operation: 'predict_triggers', dish_name: 'Toast', fragment_text: 'toast' };
+
+function setup(overrides: Partial<LLMFunctionDeps> = {}) {
+  const deps = {
+    getUserId: vi.fn(async (authorization: string) => (authorization === 'Bearer user-jwt' ? 'user-1' : null)),
+    consumeRequest: vi.fn(async () => 0),
+    fetch: vi.fn(async () => chatResponse('{"triggers":[]}')),
+    ...overrides,
+  };
+  return { deps, handle: createLLMHandler(config, deps as LLMFunctionDeps) };
+}
+
+// The URL and options of the last OpenAI request
+const lastOpenAICall = (deps: { fetch: unknown }) => (deps.fetch as Mock).mock.lastCall as [string, RequestInit];
+
+const request = (body: unknown, init: { method?: string; authorization?: string | null } = {}) =>
+  new Request('http://localhost/functions/v1/llm', {
+    method: init.method ?? 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      ...(init.authorization === null ? {} : { Authorization: init.authorization ?? 'Bearer user-jwt' }),
+    },
+    body: init.method === 'GET' ? undefined : typeof body === 'string' ? body : JSON.stringify(body),
+  });
+
+describe('llm function handler', () => {
+  describe('operations', () => {
+    it('builds the prompt and answers the checked response, asking OpenAI with the secret key', async () => {
+      const { deps, handle } = setup({
+        fetch: vi.fn(async () => chatResponse('{"triggers":["gluten","nightshades","glitter"]}')),
+      });
+
+      const response = await handle(request({ ...predictTriggers, custom_trigger_names: ['Nightshades'] }));
+
+      expect(response.status).toBe(200);
+      // Unknown names are dropped and custom ones get their stored spelling
+      expect(await response.json()).toEqual({ triggers: ['gluten', 'Nightshades'] });
+      const [url, init] = lastOpenAICall(deps);
+      expect(url).toBe('http://openai.test/v1/chat/completions');
+      expect((init.headers as Record<string, string>).Authorization).toBe('Bearer sk-test');
+      const sent = JSON.parse(init.body as string);
+      expect(sent).toMatchObject({
+        model: 'gpt-4o-mini',
+        messages: [
+          { role: 'user', content: getPredictTriggersPrompt('Toast', 'toast', ['Nightshades'], PROMPT_VERSION) },
+        ],
+        temperature: 0,
+        response_format: { type: 'json_schema', json_schema: { name: 'predict_triggers', strict: true } },
+      });
+      expect(sent.response_format.json_schema.schema.properties.triggers.items.enum).toContain('Nightshades');
+      expect(deps.consumeRequest).toHaveBeenCalledWith('Bearer user-jwt', 5, 50);
+    });
+
+    it('uses the requested prompt version and an allowed model', async () => {
+      const { deps, handle } = setup({
+        fetch: vi.fn(async () =>
+          chatResponse('{"dishes":[{"dish_fragment_text":"toast","dish_name_suggestion":"Toast"}]}'),
+        ),
+      });
+
+      const response = await handle(
+        request({ operation: 'extract_dishes', raw_entry_text: 'toast', prompt_version: 'v1', model: 'gpt-4o' }),
+      );
+
+      expect(await response.json()).toEqual({
+        dishes: [
+          { dish_fragment_text: 'toast', dish_name_suggestion: 'Toast', quantity: null, unit: null, portion_size: null },
+        ],
+      });
+      const sent = JSON.parse(lastOpenAICall(deps)[1].body as string);
+      expect(sent.model).toBe('gpt-4o');
+      expect(sent.messages[0].content).toBe(getExtractDishesPrompt('toast', 'v1'));
+    });
+
+    it('asks the model once to repair a response that does not match the schema', async () => {
+      const fetch = vi
+        .fn()
+        .mockResolvedValueOnce(chatResponse('{"triggers":"gluten"}'))
+        .mockResolvedValueOnce(chatResponse('{"triggers":["gluten"]}'));
+      const { deps, handle } = setup({ fetch });
+
+      const response = await handle(request(predictTriggers));
+
+      expect(await response.json()).toEqual({ triggers: ['gluten'] });
+      expect(fetch).toHaveBeenCalledTimes(2);
+      const repairPrompt = JSON.parse(lastOpenAICall(deps)[1].body as string).messages[0].content;
+      expect(repairPrompt).toContain('{"triggers":"gluten"}');
+      expect(repairPrompt).toContain('triggers: expected an array');
+      // The repair is part of the same request
+      expect(deps.consumeRequest).toHaveBeenCalledTimes(1);
+    });
+
+    it('answers 422 when the repaired response still does not match, so the app does not retry', async () => {
+      const { deps, handle } = setup({ fetch: vi.fn(async () => chatResponse('not json')) });
+
+      const response = await handle(request(predictTriggers));
+
+      expect(response.status).toBe(422);
+      expect(deps.fetch).toHaveBeenCalledTimes(2);
+    });
+
+    it('rejects other models, unknown prompt versions, long texts and malformed bodies without calling OpenAI', async () => {
+      const { deps, handle } = setup();
+
+      const statuses = await Promise.all(
+        [
+          { ...predictTriggers, model: 'o1-pro' },
+          { ...predictTriggers, prompt_version: 'v9' },
+          // v2 has no ingredient prompt
+          { ...predictTriggers, operation: 'decompose_dish', prompt_version: 'v2' },
+          { ...predictTriggers, dish_name: 'x'.repeat(101) },
+          { ...predictTriggers, dish_name: '' },
+          { ...predictTriggers, custom_trigger_names: ['a', 'b', 'c'] },
+          { ...predictTriggers, custom_trigger_names: 'gluten' },
+          { operation: 'extract_dishes' },
+          { type: 'chat', prompt: 'Prompt' },
+          'not json',
+        ].map(async (body) => (await handle(request(body))).status),
+      );
+
+      expect(statuses).toEqual([400, 400, 400, 400, 400, 400, 400, 400, 400, 400]);
+      expect(deps.fetch).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('embedding requests', () => {
+    it('returns embeddings in input order', async () => {
+      const { deps, handle } = setup({
+        fetch: vi.fn(async () =>
+          openAIResponse({
+            data: [
+              { index: 1, embedding: [0, 1] },
+              { index: 0, embedding: [1, 0] },
+            ],
+          }),
+        ),
+      });
+
+      const response = await handle(request({ operation: 'embed', texts: ['Latte', 'Mocha'] }));
+
+      expect(await response.json()).toEqual({
+        embeddings: [
+          [1, 0],
+          [0, 1],
+        ],
+      });
+      const [url, init] = lastOpenAICall(deps);
+      expect(url).toBe('http://openai.test/v1/embeddings');
+      expect(JSON.parse(init.body as string)).toEqual({ model: 'text-embedding-3-small', input: ['Latte', 'Mocha'] });
+    });
+
+    it('rejects too many texts', async () => {
+      const { handle } = setup();
+
+      const response = await handle(request({ operation: 'embed', texts: ['a', 'b', 'c'] }));
+
+      expect(response.status).toBe(400);
+    });
+  });
+
+  describe('authentication and limits', () => {
+    it('requires a signed-in user', async () => {
+      const { deps, handle } = setup();
+
+      expect((await handle(request(predictTriggers, { authorization: null }))).status).toBe(401);
+      expect((await handle(request(predictTriggers, { authorization: 'Bearer anon' }))).status).toBe(
+        401,
+      );
+      expect(deps.consumeRequest).not.toHaveBeenCalled();
+      expect(deps.fetch).not.toHaveBeenCalled();
+    });
+
+    it('answers 429 with Retry-After once the user is over a limit', async () => {
+      const { deps, handle } = setup({ consumeRequest: vi.fn(async () => 42) });
+
+      const response = await handle(request(predictTriggers));
+
+      expect(response.status).toBe(429);
+      expect(response.headers.get('Retry-After')).toBe('42');
+      expect(deps.fetch).not.toHaveBeenCalled();
+    });
+
+    it('only accepts POST and answers CORS preflights', async () => {
+      const { handle } = setup();
+
+      expect((await handle(request(null, { method: 'GET' }))).status).toBe(405);
+      const preflight = await handle(new Request('http://localhost/functions/v1/llm', { method: 'OPTIONS' }));
+      expect(preflight.status).toBe(200);
+      expect(preflight.headers.get('Access-Control-Allow-Headers')).toContain('authorization');
+    });
+  });
+
+  describe('OpenAI failures', () => {
+    it('answers 502 for rate limits, server and network errors so the app retries them', async () => {
+      const statusFor = async (fetch: LLMFunctionDeps['fetch']) =>
+        (await setup({ fetch }).handle(request(predictTriggers))).status;
+
+      expect(await statusFor(vi.fn(async () => openAIResponse({ error: 'slow down' }, 429)))).toBe(502);
+      expect(await statusFor(vi.fn(async () => openAIResponse({ error: 'down' }, 503)))).toBe(502);
+      expect(await statusFor(vi.fn(async () => Promise.reject(new TypeError('fetch failed'))))).toBe(502);
+      expect(await statusFor(vi.fn(async () => openAIResponse({ error: 'bad key' }, 401)))).toBe(500);
+    });
+
+    it('answers 502 for responses of another shape', async () => {
+      const statusFor = async (body: unknown, requestBody: unknown = predictTriggers) =>
+        (await setup({ fetch: vi.fn(async () => openAIResponse(body)) }).handle(request(requestBody))).status;
+      const embed = { operation: 'embed', texts: ['Latte', 'Mocha'] };
+
+      expect(await statusFor({ choices: 'none' })).toBe(502);
+      expect(await statusFor({ choices: [{ message: { content: 42 } }] })).toBe(502);
+      expect(await statusFor({ data: [{ index: 0, embedding: ['1'] }] }, embed)).toBe(502);
+      // Every text needs its embedding
+      expect(await statusFor({ data: [{ index: 0, embedding: [1, 0] }] }, embed)).toBe(502);
+      expect(
+        await statusFor(
+          {
+            data: [
+              { index: 0, embedding: [1, 0] },
+              { index: 2, embedding: [0, 1] },
+            ],
+          },
+          embed,
+        ),
+      ).toBe(502);
+    });
+  });
+
+  describe('getLLMFunctionConfig', () => {
+    it('reads the secrets with defaults', () => {
+      const secrets: Record<string, string> = {
+        OPENAI_API_KEY: 'sk-test',
+        OPENAI_BASE_URL: 'http://host.docker.internal:54330/v1/',
+        LLM_RATE_LIMIT_PER_MINUTE: '3',
+      };
+
+      expect(getLLMFunctionConfig((key) => secrets[key])).toEqual({
+        openaiApiKey: 'sk-test',
+        openaiBaseUrl: 'http://host.docker.internal:54330/v1',
+        chatModels: ['gpt-4o-mini', 'gpt-4o'],
+        embeddingModels: ['text-embedding-3-small'],
+        maxTextLength: 2000,
+        maxCustomTriggerNames: 100,
+        maxEmbeddingInputs: 100,
+        requestsPerMinute: 3,
+        requestsPerDay: 2000,
+      });
+    });
+
+    it('requires the OpenAI key and valid limits', () => {
+      expect(() => getLLMFunctionConfig(() => undefined)).toThrow('OPENAI_API_KEY');
+      expect(() =>
+        getLLMFunctionConfig((key) => ({ OPENAI_API_KEY: 'sk-test', LLM_RATE_LIMIT_PER_DAY: '0' })[key]),
+      ).toThrow('LLM_RATE_LIMIT_PER_DAY must be a positive integer');
+    });
+  });
+});
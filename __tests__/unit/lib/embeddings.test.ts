@@ -0,0 +1,108 @@
+/**
+ * Unit tests for embeddings.ts
+ *
+ * The local embedder and cosine similarity are pure, so they are tested directly.
+ * The Supabase function embedder is tested against a mocked fetch.
+ */
+
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import {
+  cosineSimilarity,
+  createLocalEmbedder,
+  createSupabaseFunctionEmbedder,
+  getEmbedder,
+  setEmbedder,
+} from '@/lib/embeddings';
+import { env } from '@/lib/env';
+
+afterEach(() => {
+  setEmbedder(null);
+  vi.unstubAllGlobals();
+  vi.restoreAllMocks();
+});
+
+describe('embeddings', () => {
+  describe('cosineSimilarity', () => {
+    it('is 1 for identical directions and 0 for orthogonal vectors', () => {
+      expect(cosineSimilarity([1, 2, 3], [2, 4, 6])).toBeCloseTo(1);
+      expect(cosineSimilarity([1, 0], [0, 1])).toBe(0);
+    });
+
+    it('is 0 for empty, zero or mismatched vectors', () => {
+      expect(cosineSimilarity([], [])).toBe(0);
+      expect(cosineSimilarity([0, 0], [1, 1])).toBe(0);
+      expect(cosineSimilarity([1, 2], [1, 2, 3])).toBe(0);
+    });
+  });
+
+  describe('createLocalEmbedder', () => {
+    it('is deterministic', async () => {
+      const embedder = createLocalEmbedder();
+
+      const [first] = await embedder.embed(['Chocolate Croissant']);
+      const [second] = await createLocalEmbedder().embed(['Chocolate Croissant']);
+
+      expect(first).toEqual(second);
+      expect(first).toHaveLength(256);
+    });
+
+    it('scores spelling variants higher than different dishes', async () => {
+      const [croissant, croissants, latte] = await createLocalEmbedder().embed([
+        'Chocolate Croissant',
+        'chocolate croissants',
+        'Matcha Latte',
+      ]);
+
+      expect(cosineSimilarity(croissant, croissants)).toBeGreaterThan(0.85);
+      expect(cosineSimilarity(croissant, latte)).toBeLessThan(0.5);
+    });
+
+    it('includes the dimensions in the model name', () => {
+      expect(createLocalEmbedder(64).model).toBe('local-trigram-v1-64');
+    });
+  });
+
+  describe('createSupabaseFunctionEmbedder', () => {
+    it('asks the llm function for the embeddings', async () => {
+      const fetchMock = vi.fn().mockResolvedValue(
+        new Response(JSON.stringify({ embeddings: [[1, 0], [0, 1]] }), {
+          headers: { 'Content-Type': 'application/json' },
+        }),
+      );
+      vi.stubGlobal('fetch', fetchMock);
+
+      const result = await createSupabaseFunctionEmbedder().embed(['Latte', 'Mocha']);
+
+      const [url, init] = fetchMock.mock.lastCall!;
+      expect(url).toBe(`${env.supabaseUrl}/functions/v1/llm`);
+      expect(JSON.parse(init.body)).toEqual({
+        operation: 'embed',
+        texts: ['Latte', 'Mocha'],
+        model: 'text-embedding-3-small',
+      });
+      expect(result).toEqual([
+        [1, 0],
+        [0, 1],
+      ]);
+    });
+
+    it('does not call the function for an empty input', async () => {
+      const fetchMock = vi.fn();
+      vi.stubGlobal('fetch', fetchMock);
+
+      expect(await createSupabaseFunctionEmbedder().embed([])).toEqual([]);
+      expect(fetchMock).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('getEmbedder', () => {
+    it('uses OpenAI through the llm function by default and can be replaced', () => {
+      expect(getEmbedder().model).toBe('text-embedding-3-small');
+
+      const local = createLocalEmbedder();
+      setEmbedder(local);
+
+      expect(getEmbedder()).toBe(local);
+    });
+  });
+});
@@ -0,0 +1,186 @@
+/**
+ * Unit tests for llmCache.ts
+ *
+ * The device store runs against the in-memory AsyncStorage mock and the Supabase store against
+ * mocked repository calls. Time is passed in explicitly, so expiry needs no real clock.
+ */
+
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import {
+  createDeviceCacheStore,
+  createLLMCache,
+  createMemoryCacheStore,
+  createSupabaseCacheStore,
+  getLLMCacheKey,
+  LLMCacheStore,
+} from '@/lib/llmCache';
+import * as llmCacheRepo from '@/data/llmCacheRepo';
+import * as utils from '@/data/utils';
+
+afterEach(async () => {
+  await AsyncStorage.clear();
+  vi.restoreAllMocks();
+});
+
+const entry = (response: string, storedAt = 0) => ({ response, storedAt });
+
+// A store whose every call fails, like Supabase while offline
+const failingStore: LLMCacheStore = {
+  name: 'failing',
+  get: async () => {
+    throw new Error('network error');
+  },
+  set: async () => {
+    throw new Error('network error');
+  },
+  delete: async () => {},
+  clear: async () => {},
+};
+
+describe('llmCache', () => {
+  describe('getLLMCacheKey', () => {
+    it('is stable for the same prompt, model and prompt version', () => {
+      expect(getLLMCacheKey('Prompt', 'gpt-4o-mini', 'v4')).toBe(getLLMCacheKey('Prompt', 'gpt-4o-mini', 'v4'));
+      expect(getLLMCacheKey('Prompt', 'gpt-4o-mini', 'v4')).toMatch(/^[0-9a-f]{28}$/);
+    });
+
+    it('differs when the prompt, model or prompt version changes', () => {
+      const keys = new Set([
+        getLLMCacheKey('Prompt', 'gpt-4o-mini', 'v4'),
+        getLLMCacheKey('Prompt.', 'gpt-4o-mini', 'v4'),
+        getLLMCacheKey('Prompt', 'gpt-4o', 'v4'),
+        getLLMCacheKey('Prompt', 'gpt-4o-mini', 'v3'),
+      ]);
+
+      expect(keys.size).toBe(4);
+    });
+  });
+
+  describe('createMemoryCacheStore', () => {
+    it('drops the least recently used entry beyond its size', async () => {
+      const store = createMemoryCacheStore(2);
+      await store.set('a', entry('A'));
+      await store.set('b', entry('B'));
+      await store.get('a');
+
+      await store.set('c', entry('C'));
+
+      expect(await store.get('a')).toEqual(entry('A'));
+      expect(await store.get('b')).toBeNull();
+      expect(await store.get('c')).toEqual(entry('C'));
+    });
+  });
+
+  describe('createDeviceCacheStore', () => {
+    it('keeps entries in AsyncStorage across store instances', async () => {
+      await createDeviceCacheStore().set('a', entry('A', 5));
+
+      expect(await createDeviceCacheStore().get('a')).toEqual(entry('A', 5));
+    });
+
+    it('drops the oldest entries beyond its size', async () => {
+      const store = createDeviceCacheStore(2);
+
+      await Promise.all([store.set('a', entry('A')), store.set('b', entry('B')), store.set('c', entry('C'))]);
+
+      expect(await store.get('a')).toBeNull();
+      expect(await store.get('b')).toEqual(entry('B'));
+      expect(await store.get('c')).toEqual(entry('C'));
+    });
+
+    it('removes all of its entries on clear', async () => {
+      const store = createDeviceCacheStore();
+      await store.set('a', entry('A'));
+
+      await store.clear();
+
+      expect(await store.get('a')).toBeNull();
+    });
+  });
+
+  describe('createSupabaseCacheStore', () => {
+    it('reads and writes the user\'s cache rows', async () => {
+      vi.spyOn(utils, 'getAuthenticatedUserId').mockResolvedValue('user-1');
+      const getRow = vi.spyOn(llmCacheRepo, 'getLLMResponseCacheRow').mockResolvedValue({
+        user_id: 'user-1',
+        cache_key: 'a',
+        response: 'A',
+        created_at: '2025-01-01T00:00:00.000Z',
+      });
+      const upsertRow = vi.spyOn(llmCacheRepo, 'upsertLLMResponseCacheRow').mockResolvedValue();
+      const store = createSupabaseCacheStore();
+
+      expect(await store.get('a')).toEqual(entry('A', Date.parse('2025-01-01T00:00:00.000Z')));
+      await store.set('b', entry('B', 10));
+
+      expect(getRow).toHaveBeenCalledWith('user-1', 'a');
+      expect(upsertRow).toHaveBeenCalledWith('user-1', 'b', 'B', 10);
+    });
+  });
+
+  describe('createLLMCache', () => {
+    it('copies a hit from a slower store into the faster ones', async () => {
+      const memory = createMemoryCacheStore();
+      const device = createMemoryCacheStore();
+      await device.set('a', entry('A', 0));
+      const cache = createLLMCache([memory, device], { now: () => 0 });
+
+      expect(await cache.get('a')).toBe('A');
+      await vi.waitFor(async () => expect(await memory.get('a')).toEqual(entry('A', 0)));
+    });
+
+    it('writes new responses to every store', async () => {
+      const memory = createMemoryCacheStore();
+      const device = createDeviceCacheStore();
+      const cache = createLLMCache([memory, device], { now: () => 7 });
+
+      await cache.set('a', 'A');
+
+      expect(await memory.get('a')).toEqual(entry('A', 7));
+      expect(await device.get('a')).toEqual(entry('A', 7));
+    });
+
+    it('ignores and deletes entries older than the TTL', async () => {
+      let now = 0;
+      const store = createMemoryCacheStore();
+      const cache = createLLMCache([store], { ttlMs: 1000, now: () => now });
+      await cache.set('a', 'A');
+
+      now = 999;
+      expect(await cache.get('a')).toBe('A');
+      now = 1000;
+      expect(await cache.get('a')).toBeNull();
+      await vi.waitFor(async () => expect(await store.get('a')).toBeNull());
+    });
+
+    it('treats a failing store as a miss', async () => {
+      const memory = createMemoryCacheStore();
+      const cache = createLLMCache([failingStore, memory]);
+
+      await cache.set('a', 'A');
+
+      expect(await cache.get('a')).toBe('A');
+      expect(await cache.get('b')).toBeNull();
+    });
+
+    it('counts hits and misses', async () => {
+      const device = { ...createMemoryCacheStore(), name: 'device' };
+      await device.set('a', entry('A', Date.now()));
+      const cache = createLLMCache([createMemoryCacheStore(), device]);
+
+      expect(cache.getMetrics()).toEqual({ hitCount: 0, missCount: 0, hitRate: null, hitCountByStore: {} });
+
+      await cache.get('a');
+      await cache.get('b');
+      await cache.get('a');
+
+      expect(cache.getMetrics()).toEqual({
+        hitCount: 2,
+        missCount: 1,
+        hitRate: 2 / 3,
+        hitCountByStore: { device: 1, memory: 1 },
+      });
+    });
+  });
+});
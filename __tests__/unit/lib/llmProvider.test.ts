@@ -0,0 +1,188 @@
+/**
+ * Unit tests for llmProvider.ts
+ *
+ * The Supabase function and OpenAI-compatible providers are tested against a mocked fetch.
+ * The fake provider and configuration are tested directly.
+ */
+
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import {
+  createFakeProvider,
+  createLLMProviderFromConfig,
+  createOpenAICompatibleProvider,
+  createSupabaseFunctionProvider,
+  FAKE_MODEL_VERSION,
+  getLLMProvider,
+  setLLMProvider,
+} from '@/lib/llmProvider';
+import { getExtractDishesPrompt, getPredictTriggersPrompt, MODEL_VERSION } from '@/lib/llmPrompts';
+import { env } from '@/lib/env';
+
+afterEach(() => {
+  setLLMProvider(null);
+  vi.unstubAllGlobals();
+  vi.restoreAllMocks();
+});
+
+const chatResponse = (content: string) => ({ choices: [{ message: { content } }] });
+
+describe('llmProvider', () => {
+  describe('createSupabaseFunctionProvider', () => {
+    const functionResponse = (status: number, body: unknown) =>
+      new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json' } });
+
+    it('sends the llm function only the operation\'s data and returns its response', async () => {
+      const fetchMock = vi.fn().mockResolvedValue(functionResponse(200, { triggers: ['gluten'] }));
+      vi.stubGlobal('fetch', fetchMock);
+      const operation = {
+        operation: 'predict_triggers' as const,
+        dish_name: 'Toast',
+        fragment_text: 'toast',
+        custom_trigger_names: ['Nightshades'],
+        prompt_version: 'v4',
+      };
+
+      const provider = createSupabaseFunctionProvider('gpt-4o');
+
+      expect(await provider.answer(operation)).toBe('{"triggers":["gluten"]}');
+      expect(provider.modelVersion).toBe('gpt-4o');
+      const [url, init] = fetchMock.mock.lastCall!;
+      expect(url).toBe(`${env.supabaseUrl}/functions/v1/llm`);
+      expect(JSON.parse(init.body)).toEqual({ ...operation, model: 'gpt-4o' });
+    });
+
+    it('throws the function\'s error status', async () => {
+      vi.stubGlobal('fetch', vi.fn().mockResolvedValue(functionResponse(429, { error: 'Too many LLM requests' })));
+
+      const operation = { operation: 'extract_dishes' as const, raw_entry_text: 'Toast', prompt_version: 'v4' };
+
+      await expect(createSupabaseFunctionProvider().answer(operation)).rejects.toMatchObject({
+        name: 'LLMRequestError',
+        message: 'HTTP 429: {"error":"Too many LLM requests"}',
+        status: 429,
+      });
+    });
+  });
+
+  describe('createOpenAICompatibleProvider', () => {
+    it('posts to the chat completions endpoint of the base URL', async () => {
+      const fetchMock = vi.fn().mockResolvedValue({
+        ok: true,
+        json: async () => chatResponse('{"dishes":[]}'),
+      });
+      vi.stubGlobal('fetch', fetchMock);
+
+      const provider = createOpenAICompatibleProvider({
+        baseUrl: 'http://localhost:11434/v1/',
+        model: 'llama3.1:8b',
+        apiKey: 'secret',
+      });
+
+      expect(await provider.complete('Prompt')).toBe('{"dishes":[]}');
+      expect(provider.modelVersion).toBe('llama3.1:8b');
+      const [url, init] = fetchMock.mock.lastCall!;
+      expect(url).toBe('http://localhost:11434/v1/chat/completions');
+      expect(init.headers.Authorization).toBe('Bearer secret');
+      expect(JSON.parse(init.body)).toMatchObject({ model: 'llama3.1:8b', temperature: 0 });
+    });
+
+    it('sends response formats only when JSON schema mode is on', async () => {
+      const fetchMock = vi.fn().mockResolvedValue({ ok: true, json: async () => chatResponse('{}') });
+      vi.stubGlobal('fetch', fetchMock);
+      const responseFormat = { name: 'extract_dishes', schema: { type: 'object' } };
+      const sentFormat = () => JSON.parse(fetchMock.mock.lastCall![1].body).response_format;
+
+      await createOpenAICompatibleProvider({ baseUrl: 'http://localhost', model: 'm' })
+        .complete('Prompt', { responseFormat });
+      expect(sentFormat()).toEqual({ type: 'json_object' });
+
+      await createOpenAICompatibleProvider({ baseUrl: 'http://localhost', model: 'm', jsonSchema: true })
+        .complete('Prompt', { responseFormat });
+      expect(sentFormat().type).toBe('json_schema');
+    });
+
+    it('throws on an error status', async () => {
+      vi.stubGlobal(
+        'fetch',
+        vi.fn().mockResolvedValue({ ok: false, status: 503, text: async () => 'unavailable' }),
+      );
+
+      const provider = createOpenAICompatibleProvider({ baseUrl: 'http://localhost', model: 'm' });
+
+      await expect(provider.complete('Prompt')).rejects.toMatchObject({
+        message: 'HTTP 503: unavailable',
+        status: 503,
+      });
+    });
+  });
+
+  describe('createFakeProvider', () => {
+    it('returns the entry as a single dish and no triggers by default', async () => {
+      const provider = createFakeProvider();
+
+      const extracted = JSON.parse(await provider.complete(getExtractDishesPrompt('Iced oat latte')));
+      const predicted = JSON.parse(
+        await provider.complete(getPredictTriggersPrompt('Iced Oat Latte', 'Iced oat latte')),
+      );
+
+      expect(provider.modelVersion).toBe(FAKE_MODEL_VERSION);
+      expect(extracted.dishes).toEqual([
+        { dish_fragment_text: 'Iced oat latte', dish_name_suggestion: 'Iced oat latte' },
+      ]);
+      expect(predicted.triggers).toEqual([]);
+    });
+  });
+
+  describe('createLLMProviderFromConfig', () => {
+    it('selects the provider by name, defaulting to the llm function', () => {
+      expect(createLLMProviderFromConfig({}).name).toBe('supabase');
+      expect(createLLMProviderFromConfig({ model: 'gpt-4o' }).modelVersion).toBe('gpt-4o');
+      expect(createLLMProviderFromConfig({ provider: 'fake' }).name).toBe('fake');
+      expect(
+        createLLMProviderFromConfig({
+          provider: 'openai-compatible',
+          baseUrl: 'http://localhost:8080/v1',
+          model: 'mistral',
+        }).modelVersion,
+      ).toBe('mistral');
+    });
+
+    it('rejects an unknown provider or missing settings', () => {
+      expect(() => createLLMProviderFromConfig({ provider: 'claude' })).toThrow('Unknown LLM provider: claude');
+      // OpenAI is only called through the llm function, which holds the key
+      expect(() => createLLMProviderFromConfig({ provider: 'openai' })).toThrow('Unknown LLM provider: openai');
+      expect(() => createLLMProviderFromConfig({ provider: 'openai-compatible' })).toThrow(
+        'EXPO_PUBLIC_LLM_BASE_URL',
+      );
+    });
+  });
+
+  describe('getLLMProvider', () => {
+    it('uses the llm function by default and can be replaced', () => {
+      expect(getLLMProvider().name).toBe('supabase');
+
+      const fake = createFakeProvider();
+      setLLMProvider(fake);
+      expect(getLLMProvider()).toBe(fake);
+
+      setLLMProvider(null);
+      expect(getLLMProvider().name).toBe('supabase');
+    });
+
+    it('asks another model of the configured provider when given one', () => {
+      const provider = getLLMProvider('gpt-4o');
+
+      expect(provider.name).toBe('supabase');
+      expect(provider.modelVersion).toBe('gpt-4o');
+      expect(getLLMProvider('gpt-4o')).toBe(provider);
+      expect(getLLMProvider(MODEL_VERSION)).toBe(getLLMProvider());
+    });
+
+    it('keeps a replaced provider whatever the model', () => {
+      const fake = createFakeProvider();
+      setLLMProvider(fake);
+
+      expect(getLLMProvider('gpt-4o')).toBe(fake);
+    });
+  });
+});
@@ -0,0 +1,166 @@
+/**
+ * Unit tests for llmResilience.ts
+ *
+ * Covers timeouts, which errors are retried, backoff delays and the circuit breaker's states.
+ * Time is passed in explicitly (or faked), so no test waits on a real clock.
+ */
+
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import {
+  createCircuitBreaker,
+  createRequestLimiter,
+  DEFAULT_LLM_CALL_CONFIG,
+  getBackoffDelayMs,
+  getLLMCallConfig,
+  getLLMCircuitBreaker,
+  isRetryableLLMError,
+  LLMTimeoutError,
+  setLLMCallConfig,
+  withTimeout,
+} from '@/lib/llmResilience';
+import { LLMRequestError } from '@/lib/llmProvider';
+
+afterEach(() => {
+  setLLMCallConfig(null);
+  vi.useRealTimers();
+});
+
+describe('llmResilience', () => {
+  describe('withTimeout', () => {
+    it('returns the result of a call that finishes in time', async () => {
+      expect(await withTimeout(async () => 'done', 1000)).toBe('done');
+    });
+
+    it('aborts the call and rejects once the timeout passes', async () => {
+      vi.useFakeTimers();
+      let signal: AbortSignal | undefined;
+      const result = withTimeout((s) => {
+        signal = s;
+        return new Promise(() => {});
+      }, 1000);
+      const assertion = expect(result).rejects.toThrow(LLMTimeoutError);
+
+      await vi.advanceTimersByTimeAsync(1000);
+
+      await assertion;
+      expect(signal?.aborted).toBe(true);
+    });
+  });
+
+  describe('isRetryableLLMError', () => {
+    it('retries server errors, network errors and timeouts', () => {
+      expect(isRetryableLLMError(new LLMRequestError('HTTP 502', 502))).toBe(true);
+      expect(isRetryableLLMError(new LLMRequestError('HTTP 503', 503))).toBe(true);
+      expect(isRetryableLLMError(new TypeError('fetch failed'))).toBe(true);
+      expect(isRetryableLLMError(new LLMTimeoutError(1000))).toBe(true);
+    });
+
+    it('does not retry rate limits, client errors or other failures', () => {
+      expect(isRetryableLLMError(new LLMRequestError('HTTP 429', 429))).toBe(false);
+      expect(isRetryableLLMError(new LLMRequestError('HTTP 400', 400))).toBe(false);
+      expect(isRetryableLLMError(new LLMRequestError('HTTP 401', 401))).toBe(false);
+      expect(isRetryableLLMError(new Error('LLM provider returned empty response'))).toBe(false);
+    });
+  });
+
+  describe('getBackoffDelayMs', () => {
+    const config = { baseDelayMs: 500, maxDelayMs: 4000 };
+
+    it('doubles the upper bound with each retry, up to the maximum', () => {
+      const upperBound = (retry: number) => getBackoffDelayMs(retry, config, () => 1);
+
+      expect([0, 1, 2, 3, 4].map(upperBound)).toEqual([500, 1000, 2000, 4000, 4000]);
+    });
+
+    it('picks a random delay below the upper bound', () => {
+      expect(getBackoffDelayMs(2, config, () => 0.25)).toBe(500);
+      expect(getBackoffDelayMs(2, config, () => 0)).toBe(0);
+    });
+  });
+
+  describe('createCircuitBreaker', () => {
+    const config = { failureThreshold: 3, resetTimeoutMs: 30000 };
+
+    it('opens after consecutive failures and skips calls while open', () => {
+      const breaker = createCircuitBreaker(config, () => 0);
+
+      breaker.recordFailure();
+      breaker.recordFailure();
+      expect(breaker.canRequest()).toBe(true);
+      breaker.recordFailure();
+
+      expect(breaker.state).toBe('open');
+      expect(breaker.canRequest()).toBe(false);
+    });
+
+    it('resets the failure count on success', () => {
+      const breaker = createCircuitBreaker(config, () => 0);
+
+      breaker.recordFailure();
+      breaker.recordFailure();
+      breaker.recordSuccess();
+      breaker.recordFailure();
+
+      expect(breaker.state).toBe('closed');
+    });
+
+    it('lets a trial call through after the reset timeout and closes on success', () => {
+      let now = 0;
+      const breaker = createCircuitBreaker(config, () => now);
+      [1, 2, 3].forEach(() => breaker.recordFailure());
+
+      now = 29999;
+      expect(breaker.canRequest()).toBe(false);
+      now = 30000;
+      expect(breaker.canRequest()).toBe(true);
+      expect(breaker.state).toBe('half_open');
+
+      breaker.recordSuccess();
+      expect(breaker.state).toBe('closed');
+    });
+
+    it('reopens when the trial call fails', () => {
+      let now = 0;
+      const breaker = createCircuitBreaker(config, () => now);
+      [1, 2, 3].forEach(() => breaker.recordFailure());
+      now = 30000;
+      breaker.canRequest();
+
+      breaker.recordFailure();
+
+      expect(breaker.state).toBe('open');
+      now = 59999;
+      expect(breaker.canRequest()).toBe(false);
+    });
+  });
+
+  describe('createRequestLimiter', () => {
+    it('starts each request an interval after the previous one', async () => {
+      let now = 0;
+      const sleep = vi.fn(async (ms: number) => {
+        now += ms;
+      });
+      const limiter = createRequestLimiter(20, sleep, () => now);
+
+      await limiter.acquire();
+      now += 1000;
+      await limiter.acquire();
+      now += 5000;
+      await limiter.acquire();
+
+      // The first request goes right away, and the third was already an interval after the second
+      expect(sleep.mock.calls).toEqual([[2000]]);
+    });
+  });
+
+  describe('setLLMCallConfig', () => {
+    it('overrides the config and replaces the circuit breaker', () => {
+      const breaker = getLLMCircuitBreaker();
+
+      setLLMCallConfig({ maxRetries: 0 });
+
+      expect(getLLMCallConfig()).toEqual({ ...DEFAULT_LLM_CALL_CONFIG, maxRetries: 0 });
+      expect(getLLMCircuitBreaker()).not.toBe(breaker);
+    });
+  });
+});
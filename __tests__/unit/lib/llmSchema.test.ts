@@ -0,0 +1,142 @@
+/**
+ * Unit tests for llmSchema.ts and llmResponseSchemas.ts
+ *
+ * Covers the JSON Schema each builder describes, the issues reported for responses that don't
+ * match, and how the response schemas normalize what the model returns.
+ */
+
+import { describe, expect, it } from 'vitest';
+import {
+  arraySchema,
+  lenientSchema,
+  objectSchema,
+  parseLLMResponse,
+  stringSchema,
+} from '@/lib/llmSchema';
+import {
+  extractDishesResponseSchema,
+  getDecomposeDishResponseSchema,
+  getPredictTriggersResponseSchema,
+} from '@/lib/llmResponseSchemas';
+
+describe('llmSchema', () => {
+  const dishSchema = objectSchema({
+    name: stringSchema({ nonEmpty: true }),
+    tags: arraySchema(stringSchema()),
+  });
+
+  describe('objectSchema', () => {
+    it('describes every property as required with no extras', () => {
+      expect(dishSchema.jsonSchema).toEqual({
+        type: 'object',
+        properties: {
+          name: { type: 'string' },
+          tags: { type: 'array', items: { type: 'string' } },
+        },
+        required: ['name', 'tags'],
+        additionalProperties: false,
+      });
+    });
+
+    it('parses a matching response and ignores extra properties', () => {
+      expect(parseLLMResponse(dishSchema, '{"name":"Toast","tags":["bread"],"extra":1}')).toEqual({
+        ok: true,
+        value: { name: 'Toast', tags: ['bread'] },
+      });
+    });
+
+    it('reports every problem with its path', () => {
+      expect(parseLLMResponse(dishSchema, '{"name":" ","tags":["bread",2]}')).toEqual({
+        ok: false,
+        issues: ['name: must not be empty', 'tags[1]: expected a string'],
+      });
+      expect(parseLLMResponse(dishSchema, '[]')).toEqual({ ok: false, issues: ['response: expected an object'] });
+    });
+  });
+
+  describe('parseLLMResponse', () => {
+    it('reports text that is not JSON', () => {
+      expect(parseLLMResponse(dishSchema, 'Sure! Here is the JSON')).toEqual({
+        ok: false,
+        issues: ['response: not valid JSON'],
+      });
+    });
+  });
+
+  describe('arraySchema', () => {
+    it('leaves out invalid items with dropInvalid', () => {
+      const schema = arraySchema(stringSchema({ nonEmpty: true }), { dropInvalid: true });
+
+      expect(parseLLMResponse(schema, '["a","",3,"b"]')).toEqual({ ok: true, value: ['a', 'b'] });
+    });
+  });
+
+  describe('stringSchema', () => {
+    it('keeps whitespace unless asked to trim', () => {
+      expect(parseLLMResponse(stringSchema(), '" a "')).toEqual({ ok: true, value: ' a ' });
+      expect(parseLLMResponse(stringSchema({ trim: true }), '" a "')).toEqual({ ok: true, value: 'a' });
+    });
+  });
+
+  describe('lenientSchema', () => {
+    it('normalizes instead of failing', () => {
+      const schema = lenientSchema({ type: ['number', 'null'] }, (value) => (typeof value === 'number' ? value : null));
+
+      expect(parseLLMResponse(schema, '"two"')).toEqual({ ok: true, value: null });
+    });
+  });
+});
+
+describe('llmResponseSchemas', () => {
+  it('drops unusable portions from extracted dishes', () => {
+    const response = JSON.stringify({
+      dishes: [
+        { dish_fragment_text: '2 eggs', dish_name_suggestion: 'Eggs', quantity: 2, unit: null, portion_size: 'huge' },
+      ],
+    });
+
+    expect(parseLLMResponse(extractDishesResponseSchema, response)).toEqual({
+      ok: true,
+      value: {
+        dishes: [
+          { dish_fragment_text: '2 eggs', dish_name_suggestion: 'Eggs', quantity: 2, unit: null, portion_size: null },
+        ],
+      },
+    });
+  });
+
+  it('requires the dish fields', () => {
+    const result = parseLLMResponse(extractDishesResponseSchema, '{"dishes":[{"dish_fragment_text":"toast"}]}');
+
+    expect(result).toEqual({ ok: false, issues: ['dishes[0].dish_name_suggestion: expected a string'] });
+  });
+
+  it('resolves trigger names to the built-in or stored custom spelling', () => {
+    const schema = getPredictTriggersResponseSchema(['Nightshades']);
+
+    expect(parseLLMResponse(schema, '{"triggers":["dairy","nightshades","unknown","dairy"]}')).toEqual({
+      ok: true,
+      value: { triggers: ['dairy', 'Nightshades'] },
+    });
+  });
+
+  it('drops decomposed ingredients without a name', () => {
+    const response = JSON.stringify({
+      ingredients: [
+        { ingredient_name: ' Bread ', triggers: ['gluten'] },
+        { ingredient_name: '', triggers: [] },
+        { ingredient_name: 'Butter' },
+      ],
+    });
+
+    expect(parseLLMResponse(getDecomposeDishResponseSchema([]), response)).toEqual({
+      ok: true,
+      value: {
+        ingredients: [
+          { ingredient_name: 'Bread', triggers: ['gluten'] },
+          { ingredient_name: 'Butter', triggers: [] },
+        ],
+      },
+    });
+  });
+});
@@ -0,0 +1,138 @@
+/**
+ * Unit tests for promptExperiments.ts
+ *
+ * Covers deterministic weighted assignment, weight overrides, selecting the experiment from the
+ * environment and the assignment used for a user's predictions.
+ */
+
+import { afterEach, describe, expect, it } from 'vitest';
+import {
+  applyPromptVariantWeights,
+  assignPromptVariant,
+  getPromptAssignment,
+  getPromptExperiment,
+  getPromptExperimentFromEnv,
+  PROMPT_EXPERIMENTS,
+  PromptExperiment,
+  setPromptExperiment,
+} from '@/lib/promptExperiments';
+import { env } from '@/lib/env';
+import { PROMPT_VERSION } from '@/lib/llmPrompts';
+
+const originalEnv = { ...env };
+
+afterEach(() => {
+  Object.assign(env, originalEnv);
+  setPromptExperiment(null);
+});
+
+const experiment: PromptExperiment = {
+  name: 'v2-rollout',
+  variants: [
+    { name: 'control', promptVersion: 'v4', weight: 75 },
+    { name: 'v2', promptVersion: 'v2', model: 'gpt-4o', weight: 25 },
+  ],
+};
+
+const userIds = Array.from({ length: 2000 }, (_, i) => `user-${i}`);
+
+describe('promptExperiments', () => {
+  describe('assignPromptVariant', () => {
+    it('always gives a user the same variant', () => {
+      const variant = assignPromptVariant(experiment, 'user-1');
+
+      expect(assignPromptVariant(experiment, 'user-1')).toBe(variant);
+      expect(assignPromptVariant({ ...experiment }, 'user-1')).toBe(variant);
+    });
+
+    it('splits users by weight', () => {
+      const v2Count = userIds.filter((id) => assignPromptVariant(experiment, id).name === 'v2').length;
+
+      expect(v2Count / userIds.length).toBeGreaterThan(0.22);
+      expect(v2Count / userIds.length).toBeLessThan(0.28);
+    });
+
+    it('never assigns a variant with weight 0', () => {
+      const closed = applyPromptVariantWeights(experiment, 'v2=0');
+
+      expect(userIds.every((id) => assignPromptVariant(closed, id).name === 'control')).toBe(true);
+    });
+
+    it('splits users independently per experiment', () => {
+      const other = { ...experiment, name: 'other' };
+      const sameVariantCount = userIds.filter(
+        (id) => assignPromptVariant(experiment, id).name === assignPromptVariant(other, id).name,
+      ).length;
+
+      // Independent 75/25 splits agree for about 0.75² + 0.25² = 62.5% of users
+      expect(sameVariantCount / userIds.length).toBeLessThan(0.7);
+    });
+  });
+
+  describe('applyPromptVariantWeights', () => {
+    it('overrides the listed variants only', () => {
+      const weighted = applyPromptVariantWeights(experiment, ' v2 = 50 ');
+
+      expect(weighted.variants.map((variant) => variant.weight)).toEqual([75, 50]);
+      expect(experiment.variants[1].weight).toBe(25);
+    });
+
+    it('rejects malformed weights, unknown variants and all-zero weights', () => {
+      expect(() => applyPromptVariantWeights(experiment, 'v2')).toThrow('Invalid prompt variant weight');
+      expect(() => applyPromptVariantWeights(experiment, 'v2=-1')).toThrow('Invalid prompt variant weight');
+      expect(() => applyPromptVariantWeights(experiment, 'v3=10')).toThrow('Unknown variant "v3"');
+      expect(() => applyPromptVariantWeights(experiment, 'control=0,v2=0')).toThrow('no variant');
+    });
+  });
+
+  describe('getPromptExperimentFromEnv', () => {
+    it('runs no experiment unless one is named', () => {
+      env.promptExperiment = undefined;
+
+      expect(getPromptExperimentFromEnv()).toBeNull();
+    });
+
+    it('selects the named experiment with its weight overrides', () => {
+      env.promptExperiment = 'gpt-4o';
+      env.promptExperimentWeights = 'gpt-4o=50';
+
+      expect(getPromptExperimentFromEnv()?.variants.map((variant) => variant.weight)).toEqual([90, 50]);
+      expect(PROMPT_EXPERIMENTS['gpt-4o'].variants[1].weight).toBe(10);
+    });
+
+    it('selects the prompt version rollout, which compares prompts with the same model', () => {
+      env.promptExperiment = 'v4-rollout';
+
+      expect(getPromptExperimentFromEnv()?.variants).toEqual([
+        { name: 'control', promptVersion: 'v3', weight: 50 },
+        { name: 'v4', promptVersion: 'v4', weight: 50 },
+      ]);
+    });
+
+    it('runs no experiment when the name or weights are invalid', () => {
+      env.promptExperiment = 'missing';
+      expect(getPromptExperimentFromEnv()).toBeNull();
+
+      env.promptExperiment = 'gpt-4o';
+      env.promptExperimentWeights = 'control=abc';
+      expect(getPromptExperimentFromEnv()).toBeNull();
+    });
+  });
+
+  describe('getPromptAssignment', () => {
+    it('uses the current prompt version without a variant when no experiment runs', () => {
+      expect(getPromptExperiment()).toBeNull();
+      expect(getPromptAssignment('user-1')).toEqual({ promptVersion: PROMPT_VERSION, promptVariant: null });
+    });
+
+    it('uses the user\'s variant of the running experiment', () => {
+      setPromptExperiment(applyPromptVariantWeights(experiment, 'control=0'));
+
+      expect(getPromptAssignment('user-1')).toEqual({
+        promptVersion: 'v2',
+        model: 'gpt-4o',
+        promptVariant: 'v2-rollout/v2',
+      });
+    });
+  });
+});
@@ -0,0 +1,145 @@
+/**
+ * Re-predicts the triggers of logged dishes with a new prompt version (see
+ * runPredictionBackfill in src/data/predictionBackfillService.ts), then prints which dishes'
+ * predictions changed in this and earlier runs for that version. Only the first event of each
+ * dish is predicted again; later events reuse the dish's confirmed triggers.
+ *
+ * Runs against the project with its own service role client, so it backfills all users (use a
+ * test project first), and calls OpenAI's API directly since there is no signed-in user for the
+ * llm function:
+ *
+ *   SUPABASE_URL=https://your-project.supabase.co \
+ *   SUPABASE_SERVICE_ROLE_KEY=your-service-role-key \
+ *   OPENAI_API_KEY=your-openai-key \
+ *   npm run backfill:predictions -- --prompt-version v4
+ *
+ * Run with --help for the flags. Stopping and running it again with the same flags resumes where
+ * it left off. Exits with 1 if it stopped after repeated failures.
+ */
+
+import { parseArgs } from 'node:util';
+import { createClient } from '@supabase/supabase-js';
+
+const USAGE = `Usage: npm run backfill:predictions -- [options]
+
+  --prompt-version <v>       Prompt version to predict with (default: the current one)
+  --model <model>            OpenAI model to ask (default: the app's)
+  --user-ids <ids>           Only these users' dishes (comma-separated)
+  --dish-ids <ids>           Only these dishes (comma-separated)
+  --unconfirmed-only         Skip dishes the user already confirmed
+  --requests-per-minute <n>  LLM requests per minute, retries included (default: 30)
+  --limit <n>                Stop after this many dish events; run again to continue
+  --report-only              Only print the changes of earlier runs
+  --help                     Show this help
+
+Environment: SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY and OPENAI_API_KEY (not needed with
+--report-only).`;
+
+const parseList = (value: string | undefined): string[] | undefined => {
+  const items = (value ?? '').split(',').map((item) => item.trim()).filter(Boolean);
+  return items.length > 0 ? items : undefined;
+};
+
+const parsePositiveNumber = (value: string | undefined, flag: string): number | undefined => {
+  if (value === undefined) {
+    return undefined;
+  }
+  const parsed = Number(value);
+  if (!Number.isFinite(parsed) || parsed <= 0) {
+    throw new Error(`${flag} must be a positive number, got "${value}"`);
+  }
+  return parsed;
+};
+
+const requireEnv = (key: string): string => {
+  const value = process.env[key];
+  if (!value) {
+    throw new Error(`Missing required environment variable: ${key}`);
+  }
+  return value;
+};
+
+async function main(): Promise<number> {
+  const { values } = parseArgs({
+    options: {
+      'prompt-version': { type: 'string' },
+      model: { type: 'string' },
+      'user-ids': { type: 'string' },
+      'dish-ids': { type: 'string' },
+      'unconfirmed-only': { type: 'boolean', default: false },
+      'requests-per-minute': { type: 'string' },
+      limit: { type: 'string' },
+      'report-only': { type: 'boolean', default: false },
+      help: { type: 'boolean', default: false },
+    },
+    strict: true,
+  });
+  if (values.help) {
+    console.log(USAGE);
+    return 0;
+  }
+
+  const requestsPerMinute = parsePositiveNumber(values['requests-per-minute'], '--requests-per-minute');
+  const maxDishEvents = parsePositiveNumber(values.limit, '--limit');
+  const supabaseUrl = requireEnv('SUPABASE_URL');
+  const serviceRoleKey = requireEnv('SUPABASE_SERVICE_ROLE_KEY');
+  const openaiApiKey = values['report-only'] ? '' : requireEnv('OPENAI_API_KEY');
+
+  // The app's client is created when src/lib/supabase.ts is first imported and needs these set;
+  // every request below goes through the service role client instead.
+  process.env.EXPO_PUBLIC_SUPABASE_URL ??= supabaseUrl;
+  process.env.EXPO_PUBLIC_SUPABASE_ANON_KEY ??= 'unused';
+  const { createLLMCache, createMemoryCacheStore, setLLMCache } = await import('@/lib/llmCache');
+  const { createOpenAICompatibleProvider, setLLMProvider } = await import('@/lib/llmProvider');
+  const { MODEL_VERSION } = await import('@/lib/llmPrompts');
+  const { formatPredictionBackfillReport, getPredictionBackfillChanges, runPredictionBackfill } =
+    await import('@/data/predictionBackfillService');
+
+  const client = createClient(supabaseUrl, serviceRoleKey, {
+    auth: { persistSession: false, autoRefreshToken: false },
+  });
+  setLLMProvider(
+    createOpenAICompatibleProvider({
+      baseUrl: 'https://api.openai.com/v1',
+      apiKey: openaiApiKey,
+      model: values.model ?? MODEL_VERSION,
+      jsonSchema: true,
+    }),
+  );
+  // Cache in memory only, not on the device or in Supabase
+  setLLMCache(createLLMCache([createMemoryCacheStore()]));
+
+  const promptVersion = values['prompt-version'];
+  let stoppedEarly = false;
+  if (!values['report-only']) {
+    const result = await runPredictionBackfill({
+      promptVersion,
+      userIds: parseList(values['user-ids']),
+      dishIds: parseList(values['dish-ids']),
+      unconfirmedOnly: values['unconfirmed-only'],
+      requestsPerMinute,
+      maxDishEvents,
+      client,
+    });
+    stoppedEarly = result.stoppedEarly;
+    console.log(
+      `Backfilled ${result.predictedCount} dish events to ${result.modelVersion} ${result.promptVersion} ` +
+        `(${result.changes.length} changed, ${result.failedDishEventIds.length} failed)` +
+        (result.resumed ? ', resumed where the last run stopped' : '') +
+        (result.stoppedEarly ? '; stopped after repeated failures, run again to resume' : '') +
+        (!result.stoppedEarly && !result.completed ? '; stopped at the limit, run again to continue' : ''),
+    );
+  }
+  console.log(formatPredictionBackfillReport(await getPredictionBackfillChanges({ promptVersion, client })));
+  return stoppedEarly ? 1 : 0;
+}
+
+main().then(
+  (exitCode) => {
+    process.exitCode = exitCode;
+  },
+  (error: unknown) => {
+    console.error(error instanceof Error ? error.message : error);
+    process.exitCode = 1;
+  },
+);
@@ -0,0 +1,91 @@
+/**
+ * Compares the variants of a prompt experiment across all users (see getPromptVariantComparison
+ * in src/data/evaluationService.ts): how often each variant's suggestions were edited when
+ * confirmed, and its trigger precision and recall.
+ *
+ * Reads every user's confirmed dish events with its own service role client, so it is not
+ * available to the app:
+ *
+ *   SUPABASE_URL=https://your-project.supabase.co \
+ *   SUPABASE_SERVICE_ROLE_KEY=your-service-role-key \
+ *   npm run compare:prompt-variants -- --experiment v4-rollout
+ */
+
+import { parseArgs } from 'node:util';
+import { createClient } from '@supabase/supabase-js';
+
+const USAGE = `Usage: npm run compare:prompt-variants -- --experiment <name>
+
+  --experiment <name>  Experiment in PROMPT_EXPERIMENTS (src/lib/promptExperiments.ts)
+  --help               Show this help
+
+Environment: SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY.`;
+
+const requireEnv = (key: string): string => {
+  const value = process.env[key];
+  if (!value) {
+    throw new Error(`Missing required environment variable: ${key}`);
+  }
+  return value;
+};
+
+const formatRate = (rate: number | null): string => (rate === null ? '-' : `${(rate * 100).toFixed(1)}%`);
+
+async function main(): Promise<number> {
+  const { values } = parseArgs({
+    options: {
+      experiment: { type: 'string' },
+      help: { type: 'boolean', default: false },
+    },
+    strict: true,
+  });
+  if (values.help) {
+    console.log(USAGE);
+    return 0;
+  }
+  if (!values.experiment) {
+    throw new Error('--experiment is required');
+  }
+
+  const supabaseUrl = requireEnv('SUPABASE_URL');
+  const serviceRoleKey = requireEnv('SUPABASE_SERVICE_ROLE_KEY');
+
+  // The app's client is created when src/lib/supabase.ts is first imported and needs these set;
+  // every request below goes through the service role client instead.
+  process.env.EXPO_PUBLIC_SUPABASE_URL ??= supabaseUrl;
+  process.env.EXPO_PUBLIC_SUPABASE_ANON_KEY ??= 'unused';
+  const { PROMPT_EXPERIMENTS } = await import('@/lib/promptExperiments');
+  const { getPromptVariantComparison } = await import('@/data/evaluationService');
+
+  const experiment = PROMPT_EXPERIMENTS[values.experiment];
+  if (!experiment) {
+    throw new Error(`Unknown prompt experiment: ${values.experiment}`);
+  }
+  const client = createClient(supabaseUrl, serviceRoleKey, {
+    auth: { persistSession: false, autoRefreshToken: false },
+  });
+
+  const comparison = await getPromptVariantComparison(experiment, client);
+  for (const variant of comparison) {
+    const change =
+      variant.editRateChange === null
+        ? ''
+        : ` (${variant.editRateChange >= 0 ? '+' : ''}${(variant.editRateChange * 100).toFixed(1)} points)`;
+    console.log(
+      `${variant.promptVariant}: ${variant.dishEventCount} dishes, edited ${formatRate(variant.editRate)}${change}, ` +
+        `names ${formatRate(variant.dishNameEditRate)}, triggers ${formatRate(variant.triggerEditRate)}, ` +
+        `precision ${formatRate(variant.overall.precision)}, recall ${formatRate(variant.overall.recall)}`,
+    );
+  }
+  return 0;
+}
+
+main().then(
+  (exitCode) => {
+    process.exitCode = exitCode;
+  },
+  (error: unknown) => {
+    console.error(error instanceof Error ? error.message : error);
+    process.exitCode = 1;
+  },
+);
@@ -0,0 +1,21 @@
+// In-memory stand-in for @react-native-async-storage/async-storage when scripts import app
+// modules that use it (see scripts/tsconfig.json). Nothing is kept after the script exits.
+
+const storage = new Map<string, string>();
+
+export default {
+  getItem: async (key: string): Promise<string | null> => storage.get(key) ?? null,
+  setItem: async (key: string, value: string): Promise<void> => {
+    storage.set(key, value);
+  },
+  removeItem: async (key: string): Promise<void> => {
+    storage.delete(key);
+  },
+  clear: async (): Promise<void> => {
+    storage.clear();
+  },
+  getAllKeys: async (): Promise<string[]> => Array.from(storage.keys()),
+  multiRemove: async (keys: readonly string[]): Promise<void> => {
+    keys.forEach((key) => storage.delete(key));
+  },
+};
@@ -0,0 +1,3 @@
+// Node already has URL and URLSearchParams; stands in for react-native-url-polyfill/auto when
+// scripts import the app's Supabase client (see scripts/tsconfig.json)
+export {};
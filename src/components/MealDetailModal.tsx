@@ -1,10 +1,12 @@
 import React, { useEffect, useState } from 'react';
 import { View, StyleSheet } from 'react-native';
-import { Modal, Portal, Text, Button, Divider, ActivityIndicator } from 'react-native-paper';
+import { Modal, Portal, Text, Button, Divider, ActivityIndicator, TextInput } from 'react-native-paper';
 import { theme } from '@/styles';
-import { getConfirmedTriggersByDishEventIds, getTriggerById } from '@/data/foodEntryRepo';
+import { getConfirmedTriggersByDishEventIds, getTriggersByIds } from '@/data/foodEntryRepo';
+import { getTriggerSensitivitiesForUser } from '@/data/sensitivityService';
 import { Trigger } from '@/types/dish';
 import { getTriggerDisplayText } from '@/data/trigger';
+import { getHighSensitivityTriggerIds } from '@/data/sensitivity';
 import { formatTime, formatDate } from '@/utils/dateTime';
 
 interface MealDetailModalProps {
@@ -12,7 +14,13 @@ interface MealDetailModalProps {
   onDismiss: () => void;
   dishEventId: string;
   dishName: string;
+  // How much was eaten, formatted (empty if unknown)
+  portionText?: string;
   occurredAt: number;
+  // Reopens the confirmation UI for the whole meal this dish belongs to
+  onEdit?: () => void;
+  // Saves the whole meal this dish belongs to as a named meal template
+  onSaveAsTemplate?: (templateName: string) => Promise<void>;
   onDelete?: () => void;
 }
 
@@ -21,11 +29,20 @@ export default function MealDetailModal({
   onDismiss,
   dishEventId,
   dishName,
+  portionText,
   occurredAt,
+  onEdit,
+  onSaveAsTemplate,
   onDelete,
 }: MealDetailModalProps) {
   const [triggers, setTriggers] = useState<Trigger[]>([]);
+  // Triggers the user is highly sensitive to (from their profile)
+  const [highSensitivityTriggerIds, setHighSensitivityTriggerIds] = useState<Set<string>>(new Set());
   const [isLoading, setIsLoading] = useState(true);
+  const [templateName, setTemplateName] = useState<string | null>(null);
+  const [isSavingTemplate, setIsSavingTemplate] = useState(false);
+  const [templateError, setTemplateError] = useState<string | null>(null);
+  const [savedTemplateName, setSavedTemplateName] = useState<string | null>(null);
 
   useEffect(() => {
     if (visible && dishEventId) {
@@ -33,6 +50,9 @@ export default function MealDetailModal({
     } else {
       setTriggers([]);
       setIsLoading(true);
+      setTemplateName(null);
+      setTemplateError(null);
+      setSavedTemplateName(null);
     }
   }, [visible, dishEventId]);
 
@@ -41,15 +61,14 @@ export default function MealDetailModal({
       setIsLoading(true);
       const dishTriggers = await getConfirmedTriggersByDishEventIds([dishEventId]);
       
-      // Get trigger names
+      // Get trigger names in a single query
       const triggerIds = dishTriggers.map((dt) => dt.triggerId);
-      const triggerPromises = triggerIds.map((id) => getTriggerById(id));
-      const triggerResults = await Promise.all(triggerPromises);
-      
-      const validTriggers = triggerResults.filter(
-        (t): t is Trigger => t !== null
-      );
-      setTriggers(validTriggers);
+      const [triggerResults, sensitivities] = await Promise.all([
+        triggerIds.length > 0 ? getTriggersByIds(triggerIds) : Promise.resolve([]),
+        triggerIds.length > 0 ? getTriggerSensitivitiesForUser() : Promise.resolve([]),
+      ]);
+      setTriggers(triggerResults);
+      setHighSensitivityTriggerIds(getHighSensitivityTriggerIds(sensitivities));
     } catch (error) {
       console.error('Error loading triggers:', error);
       setTriggers([]);
@@ -58,6 +77,22 @@ export default function MealDetailModal({
     }
   };
 
+  const handleSaveTemplate = async () => {
+    if (!onSaveAsTemplate || !templateName?.trim()) return;
+
+    setIsSavingTemplate(true);
+    setTemplateError(null);
+    try {
+      await onSaveAsTemplate(templateName.trim());
+      setSavedTemplateName(templateName.trim());
+      setTemplateName(null);
+    } catch (error) {
+      setTemplateError(error instanceof Error ? error.message : 'Failed to save meal template');
+    } finally {
+      setIsSavingTemplate(false);
+    }
+  };
+
   return (
     <Portal>
       <Modal
@@ -72,6 +107,11 @@ export default function MealDetailModal({
           <Text variant="bodyMedium" style={styles.timeText}>
             {formatDate(occurredAt)} at {formatTime(occurredAt)}
           </Text>
+          {portionText ? (
+            <Text variant="bodyMedium" style={styles.timeText}>
+              Amount: {portionText}
+            </Text>
+          ) : null}
 
           <Divider style={styles.divider} />
 
@@ -85,13 +125,23 @@ export default function MealDetailModal({
             </View>
           ) : triggers.length > 0 ? (
             <View style={styles.triggersList}>
-              {triggers.map((trigger) => (
-                <View key={trigger.id} style={styles.triggerItem}>
-                  <Text variant="bodyMedium" style={styles.triggerText}>
-                    {getTriggerDisplayText(trigger.triggerName)}
-                  </Text>
-                </View>
-              ))}
+              {triggers.map((trigger) => {
+                const isHighSensitivity = highSensitivityTriggerIds.has(trigger.id);
+                return (
+                  <View
+                    key={trigger.id}
+                    style={[styles.triggerItem, isHighSensitivity && styles.highSensitivityItem]}
+                  >
+                    <Text
+                      variant="bodyMedium"
+                      style={isHighSensitivity ? styles.highSensitivityText : styles.triggerText}
+                    >
+                      {getTriggerDisplayText(trigger.triggerName)}
+                      {isHighSensitivity ? ' · High sensitivity' : ''}
+                    </Text>
+                  </View>
+                );
+              })}
             </View>
           ) : (
             <Text variant="bodySmall" style={styles.noTriggersText}>
@@ -99,19 +149,84 @@ export default function MealDetailModal({
             </Text>
           )}
 
+          {(onEdit || onSaveAsTemplate || onDelete) && <Divider style={styles.divider} />}
+
+          {onEdit && (
+            <Button
+              mode="outlined"
+              onPress={onEdit}
+              style={styles.editButton}
+              icon="pencil"
+            >
+              Edit Meal
+            </Button>
+          )}
+
+          {savedTemplateName && (
+            <Text variant="bodySmall" style={styles.savedText}>
+              Saved as "{savedTemplateName}". Log it from the Add menu.
+            </Text>
+          )}
+
+          {onSaveAsTemplate && templateName === null && !savedTemplateName && (
+            <Button
+              mode="outlined"
+              onPress={() => setTemplateName('')}
+              style={styles.editButton}
+              icon="content-save-outline"
+            >
+              Save as Template
+            </Button>
+          )}
+
+          {onSaveAsTemplate && templateName !== null && (
+            <View style={styles.templateForm}>
+              <TextInput
+                label="Template name"
+                placeholder="e.g. Weekday breakfast"
+                value={templateName}
+                onChangeText={(text) => {
+                  setTemplateName(text);
+                  setTemplateError(null);
+                }}
+                disabled={isSavingTemplate}
+                autoFocus
+              />
+              {templateError && (
+                <Text variant="bodySmall" style={styles.errorText}>
+                  {templateError}
+                </Text>
+              )}
+              <View style={styles.templateActions}>
+                <Button
+                  mode="text"
+                  onPress={() => setTemplateName(null)}
+                  disabled={isSavingTemplate}
+                >
+                  Cancel
+                </Button>
+                <Button
+                  mode="contained"
+                  onPress={handleSaveTemplate}
+                  loading={isSavingTemplate}
+                  disabled={isSavingTemplate || !templateName.trim()}
+                >
+                  Save
+                </Button>
+              </View>
+            </View>
+          )}
+
           {onDelete && (
-            <>
-              <Divider style={styles.divider} />
-              <Button
-                mode="outlined"
-                onPress={onDelete}
-                textColor={theme.colors.error}
-                style={styles.deleteButton}
-                icon="delete"
-              >
-                Delete Meal
-              </Button>
-            </>
+            <Button
+              mode="outlined"
+              onPress={onDelete}
+              textColor={theme.colors.error}
+              style={styles.deleteButton}
+              icon="delete"
+            >
+              Delete Meal
+            </Button>
           )}
 
           <Button
@@ -171,11 +286,39 @@ const styles = StyleSheet.create({
   triggerText: {
     color: theme.colors.text,
   },
+  highSensitivityItem: {
+    backgroundColor: theme.colors.error + '20',
+  },
+  highSensitivityText: {
+    color: theme.colors.error,
+    fontWeight: '600',
+  },
   noTriggersText: {
     color: theme.colors.textSecondary,
     fontStyle: 'italic',
     marginTop: theme.spacing.xs,
   },
+  editButton: {
+    marginBottom: theme.spacing.sm,
+  },
+  templateForm: {
+    marginBottom: theme.spacing.sm,
+  },
+  templateActions: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    gap: theme.spacing.xs,
+    marginTop: theme.spacing.sm,
+  },
+  errorText: {
+    color: theme.colors.error,
+    marginTop: theme.spacing.xs,
+  },
+  savedText: {
+    color: theme.colors.textSecondary,
+    textAlign: 'center',
+    marginBottom: theme.spacing.sm,
+  },
   deleteButton: {
     marginBottom: theme.spacing.sm,
     borderColor: theme.colors.error,
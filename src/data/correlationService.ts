@@ -0,0 +1,161 @@
+import {
+  CorrelationOptions,
+  LagWindow,
+  MealExposure,
+  SymptomOccurrence,
+  TriggerSymptomAssociation,
+} from '@/types/correlation';
+import { SYMPTOMS } from '@/types/symptoms';
+import { VALID_TRIGGER_NAMES } from '@/data/trigger';
+import { getConfirmedMealExposures, getCustomTriggers } from '@/data/foodEntryRepo';
+import { listSymptomEntries } from '@/data/symptomsRepo';
+import { getAuthenticatedUserId } from '@/data/utils';
+import { logger } from '@/utils/logger';
+
+const FILENAME = 'correlationService.ts';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+export const DEFAULT_LAG_WINDOWS: LagWindow[] = [
+  { label: '0-6h', startHours: 0, endHours: 6 },
+  { label: '6-24h', startHours: 6, endHours: 24 },
+  { label: '24-72h', startHours: 24, endHours: 72 },
+];
+
+export const DEFAULT_MIN_EXPOSURES = 3;
+
+/**
+ * Returns true if any symptom timestamp falls in [start, end).
+ * Expects symptomTimes to be sorted ascending.
+ */
+function hasSymptomInRange(symptomTimes: number[], start: number, end: number): boolean {
+  // Binary search for the first symptom at or after start
+  let low = 0;
+  let high = symptomTimes.length;
+  while (low < high) {
+    const mid = (low + high) >>> 1;
+    if (symptomTimes[mid] < start) {
+      low = mid + 1;
+    } else {
+      high = mid;
+    }
+  }
+  return low < symptomTimes.length && symptomTimes[low] < end;
+}
+
+/**
+ * Computes how often each symptom follows meals containing each trigger within the given
+ * lag windows, compared to a baseline of meals that did not contain the trigger.
+ *
+ * The relative risk uses a +0.5 continuity correction on both rates so that small counts
+ * and empty baselines still produce a finite, comparable score.
+ *
+ * Pure function: takes fixture data and performs no I/O.
+ * @returns Associations sorted by relative risk (highest first), then by exposure count.
+ */
+export function computeTriggerSymptomCorrelations(
+  meals: MealExposure[],
+  symptoms: SymptomOccurrence[],
+  options: CorrelationOptions = {},
+): TriggerSymptomAssociation[] {
+  const lagWindows = options.lagWindows ?? DEFAULT_LAG_WINDOWS;
+  const minExposures = options.minExposures ?? DEFAULT_MIN_EXPOSURES;
+  const triggerNames = options.triggerNames ?? VALID_TRIGGER_NAMES;
+
+  for (const window of lagWindows) {
+    if (window.startHours < 0 || window.endHours <= window.startHours) {
+      throw new Error(`Invalid lag window: ${window.label}`);
+    }
+  }
+
+  const symptomTimesByName = new Map<string, number[]>();
+  for (const symptom of symptoms) {
+    const times = symptomTimesByName.get(symptom.name) ?? [];
+    times.push(symptom.occurredAt);
+    symptomTimesByName.set(symptom.name, times);
+  }
+  symptomTimesByName.forEach((times) => times.sort((a, b) => a - b));
+
+  const associations: TriggerSymptomAssociation[] = [];
+
+  for (const triggerName of triggerNames) {
+    const exposed = meals.filter((meal) => meal.triggerNames.includes(triggerName));
+    if (exposed.length === 0 || exposed.length < minExposures) {
+      continue;
+    }
+    const baseline = meals.filter((meal) => !meal.triggerNames.includes(triggerName));
+
+    for (const symptomName of SYMPTOMS) {
+      const symptomTimes = symptomTimesByName.get(symptomName) ?? [];
+
+      for (const lagWindow of lagWindows) {
+        const isFollowed = (meal: MealExposure) =>
+          hasSymptomInRange(
+            symptomTimes,
+            meal.occurredAt + lagWindow.startHours * HOUR_MS,
+            meal.occurredAt + lagWindow.endHours * HOUR_MS,
+          );
+
+        const exposedWithSymptomCount = exposed.filter(isFollowed).length;
+        const baselineWithSymptomCount = baseline.filter(isFollowed).length;
+
+        const smoothedExposedRate = (exposedWithSymptomCount + 0.5) / (exposed.length + 1);
+        const smoothedBaselineRate = (baselineWithSymptomCount + 0.5) / (baseline.length + 1);
+
+        associations.push({
+          triggerName,
+          symptomName,
+          lagWindow,
+          exposureCount: exposed.length,
+          exposedWithSymptomCount,
+          baselineCount: baseline.length,
+          baselineWithSymptomCount,
+          exposedRate: exposedWithSymptomCount / exposed.length,
+          baselineRate: baseline.length > 0 ? baselineWithSymptomCount / baseline.length : 0,
+          relativeRisk: smoothedExposedRate / smoothedBaselineRate,
+        });
+      }
+    }
+  }
+
+  return associations.sort(
+    (a, b) => b.relativeRisk - a.relativeRisk || b.exposureCount - a.exposureCount,
+  );
+}
+
+/**
+ * Fetches the authenticated user's confirmed meals and symptoms and computes
+ * ranked trigger → symptom associations, for the built-in triggers and the user's custom triggers.
+ */
+export async function getTriggerSymptomCorrelationsForUser(
+  options: CorrelationOptions = {},
+): Promise<TriggerSymptomAssociation[]> {
+  const userId = await getAuthenticatedUserId();
+  logger.info(FILENAME, 'getTriggerSymptomCorrelationsForUser', 'Computing correlations', { userId });
+
+  const [meals, symptomEntries, customTriggers] = await Promise.all([
+    getConfirmedMealExposures(userId),
+    listSymptomEntries(),
+    getCustomTriggers(userId),
+  ]);
+
+  const associations = computeTriggerSymptomCorrelations(
+    meals,
+    symptomEntries.map((entry) => ({ name: entry.name, occurredAt: entry.occurredAt })),
+    {
+      triggerNames: [
+        ...VALID_TRIGGER_NAMES,
+        ...customTriggers.map((trigger) => trigger.triggerName),
+      ],
+      ...options,
+    },
+  );
+
+  logger.info(FILENAME, 'getTriggerSymptomCorrelationsForUser', 'Correlations computed', {
+    mealCount: meals.length,
+    symptomCount: symptomEntries.length,
+    associationCount: associations.length,
+  });
+
+  return associations;
+}
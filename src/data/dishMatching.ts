@@ -0,0 +1,67 @@
+import { DishMatch } from '@/types/dish';
+import { getEmbedder } from '@/lib/embeddings';
+import { getDishesMissingEmbedding, matchDishesByEmbedding, saveDishEmbeddings } from '@/data/foodEntryRepo';
+import { logger } from '@/utils/logger';
+
+const FILENAME = 'dishMatching.ts';
+
+// Tuned for OpenAI text-embedding-3-small: close variants ("spag bol" / "spaghetti bolognese")
+// score above it, different dishes that share a word ("cafe latte" / "matcha latte") below it.
+export const DEFAULT_SIMILARITY_THRESHOLD = 0.75;
+
+// Dishes without an embedding (older dishes, renamed dishes) are embedded lazily, a batch at a time
+const MAX_DISHES_TO_EMBED_PER_CALL = 50;
+
+/**
+ * Finds the user's existing dish most similar to each of the given dish names.
+ * Only matches at or above the threshold are returned, keyed by the input name.
+ *
+ * The nearest-neighbour search runs in the database (match_dishes), so the user's dishes and
+ * their embeddings are never loaded. Makes at most one embeddings call and one write regardless
+ * of how many names are given. Matching is best-effort: if embeddings are unavailable, no
+ * matches are returned and the dishes are treated as new.
+ */
+export async function findSimilarDishes(
+  dishNames: string[],
+  threshold: number = DEFAULT_SIMILARITY_THRESHOLD,
+): Promise<Map<string, DishMatch>> {
+  const matches = new Map<string, DishMatch>();
+  if (dishNames.length === 0) {
+    return matches;
+  }
+
+  try {
+    const embedder = getEmbedder();
+    const dishesToEmbed = await getDishesMissingEmbedding(embedder.model, MAX_DISHES_TO_EMBED_PER_CALL);
+
+    // One call embeds the new names together with any existing dishes that are missing embeddings
+    const vectors = await embedder.embed([...dishNames, ...dishesToEmbed.map((dish) => dish.dishName)]);
+    const nameVectors = vectors.slice(0, dishNames.length);
+
+    if (dishesToEmbed.length > 0) {
+      await saveDishEmbeddings(
+        embedder.model,
+        dishesToEmbed.map((dish, index) => ({
+          dish_id: dish.id,
+          embedding: vectors[dishNames.length + index],
+        })),
+      );
+    }
+
+    const nearestDishes = await matchDishesByEmbedding(embedder.model, nameVectors, threshold);
+    for (const { queryIndex, dish, similarity } of nearestDishes) {
+      matches.set(dishNames[queryIndex], { dish, similarity });
+    }
+
+    logger.info(FILENAME, 'findSimilarDishes', 'Similar dishes matched', {
+      nameCount: dishNames.length,
+      embeddedCount: dishesToEmbed.length,
+      matchCount: matches.size,
+    });
+  } catch (error) {
+    logger.warn(FILENAME, 'findSimilarDishes', 'Similarity matching unavailable, treating dishes as new', error);
+    return new Map();
+  }
+
+  return matches;
+}
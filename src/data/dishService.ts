@@ -0,0 +1,236 @@
+import {
+  Dish,
+  DishDetail,
+  DishLibraryItem,
+  DishLibrarySort,
+  DishNameConflict,
+  DishTriggerProfile,
+  QuickLogDishes,
+} from '@/types/dish';
+import { normalizeDishName } from '@/data/dishHelpers';
+import {
+  findDishByNormalizedName,
+  findDishesByAliasNames,
+  getConfirmedDishEventTimes,
+  getDefaultTriggersByDishIds,
+  getDishesByIds,
+  getDishesForUser,
+  getDishHistory,
+  getMostRecentConfirmedTriggersByDishIds,
+  mergeDishes,
+  rejectDishMatch,
+  setDishDefaultTriggers,
+  updateDish,
+} from '@/data/foodEntryRepo';
+import { DatabaseError, getAuthenticatedUserId } from '@/data/utils';
+import { logger } from '@/utils/logger';
+
+const FILENAME = 'dishService.ts';
+
+// SQLSTATE of the rename conflict raised by confirm_food_entry (see migration 0030)
+const DISH_NAME_CONFLICT_ERROR_CODE = 'DN001';
+
+/**
+ * Returns the renamed dish event and the user's dish that already has its new name if the error
+ * is the rename conflict raised by confirm_food_entry, or null for any other error.
+ */
+export function getDishNameConflict(error: unknown): DishNameConflict | null {
+  if (!(error instanceof DatabaseError) || error.code !== DISH_NAME_CONFLICT_ERROR_CODE || !error.details) {
+    return null;
+  }
+  const details = JSON.parse(error.details) as { dish_event_id: string; dish_id: string };
+  return { dishEventId: details.dish_event_id, dishId: details.dish_id };
+}
+
+/**
+ * Merges a dish into the user's dish that already has the given name (directly or as an alias).
+ * All history of the source dish moves to that dish and the source name becomes an alias of it.
+ * @returns The surviving dish
+ */
+export async function mergeDishIntoNamedDish(sourceDishId: string, dishName: string): Promise<Dish> {
+  const userId = await getAuthenticatedUserId();
+  const normalizedName = normalizeDishName(dishName);
+
+  let target = await findDishByNormalizedName(userId, normalizedName);
+  if (!target) {
+    const dishesByAlias = await findDishesByAliasNames(userId, [normalizedName]);
+    target = dishesByAlias.get(normalizedName) ?? null;
+  }
+
+  if (!target) {
+    throw new Error(`No dish found with name: ${dishName}`);
+  }
+
+  logger.info(FILENAME, 'mergeDishIntoNamedDish', 'Merging dishes', {
+    sourceDishId,
+    targetDishId: target.id,
+  });
+
+  return mergeDishes(sourceDishId, target.id);
+}
+
+/**
+ * Undoes a similarity match the user rejected: the dish event is logged as the user's dish with
+ * the name the LLM suggested instead (created if there is none). The event keeps its predicted
+ * dish and triggers, and the rejection is recorded, so prediction accuracy still counts the match.
+ * @returns The dish the event now belongs to
+ */
+export async function rejectSimilarDishMatch(dishEventId: string, dishNameSuggestion: string): Promise<Dish> {
+  const dish = await rejectDishMatch(dishEventId, dishNameSuggestion.trim(), normalizeDishName(dishNameSuggestion));
+
+  logger.info(FILENAME, 'rejectSimilarDishMatch', 'Dish match rejected', { dishEventId, dishId: dish.id });
+
+  return dish;
+}
+
+/**
+ * Gets the trigger profile of each dish: its default triggers if set, otherwise the triggers
+ * confirmed the last time it was eaten. Dishes with neither get an empty profile.
+ * Uses two queries regardless of how many dishes are given.
+ */
+export async function getDishTriggerProfiles(
+  dishIds: string[],
+): Promise<Map<string, DishTriggerProfile>> {
+  const [defaultTriggersByDishId, recentTriggersByDishId] = await Promise.all([
+    getDefaultTriggersByDishIds(dishIds),
+    getMostRecentConfirmedTriggersByDishIds(dishIds),
+  ]);
+
+  const profiles = new Map<string, DishTriggerProfile>();
+  for (const dishId of dishIds) {
+    const defaultTriggers = defaultTriggersByDishId.get(dishId);
+    profiles.set(
+      dishId,
+      defaultTriggers && defaultTriggers.length > 0
+        ? { triggers: defaultTriggers, isDefault: true }
+        : { triggers: recentTriggersByDishId.get(dishId) ?? [], isDefault: false },
+    );
+  }
+  return profiles;
+}
+
+/**
+ * Lists all of the authenticated user's dishes with how often and when they were last eaten,
+ * and their trigger profile.
+ */
+export async function getDishLibraryForUser(): Promise<DishLibraryItem[]> {
+  const userId = await getAuthenticatedUserId();
+
+  const [dishes, eventTimes] = await Promise.all([
+    getDishesForUser(userId),
+    getConfirmedDishEventTimes(userId),
+  ]);
+  const profiles = await getDishTriggerProfiles(dishes.map((dish) => dish.id));
+
+  const statsByDishId = new Map<string, { timesEaten: number; lastEatenAt: number }>();
+  for (const { dishId, occurredAt } of eventTimes) {
+    const stats = statsByDishId.get(dishId) ?? { timesEaten: 0, lastEatenAt: occurredAt };
+    stats.timesEaten += 1;
+    stats.lastEatenAt = Math.max(stats.lastEatenAt, occurredAt);
+    statsByDishId.set(dishId, stats);
+  }
+
+  logger.info(FILENAME, 'getDishLibraryForUser', 'Dish library loaded', {
+    dishCount: dishes.length,
+  });
+
+  return dishes.map((dish) => ({
+    dish,
+    timesEaten: statsByDishId.get(dish.id)?.timesEaten ?? 0,
+    lastEatenAt: statsByDishId.get(dish.id)?.lastEatenAt ?? null,
+    triggerProfile: profiles.get(dish.id) ?? { triggers: [], isDefault: false },
+  }));
+}
+
+/**
+ * Filters dishes by a case-insensitive search on the dish name and sorts them.
+ * Most eaten and most recently eaten sorts put the highest first; ties are broken by name.
+ */
+export function filterAndSortDishLibrary(
+  items: DishLibraryItem[],
+  searchQuery: string,
+  sort: DishLibrarySort,
+): DishLibraryItem[] {
+  const query = searchQuery.trim().toLowerCase();
+  const filtered = query
+    ? items.filter((item) => item.dish.dishName.toLowerCase().includes(query))
+    : items;
+
+  const byName = (a: DishLibraryItem, b: DishLibraryItem) =>
+    a.dish.dishName.localeCompare(b.dish.dishName);
+
+  return [...filtered].sort((a, b) => {
+    switch (sort) {
+      case 'timesEaten':
+        return b.timesEaten - a.timesEaten || byName(a, b);
+      case 'lastEaten':
+        return (b.lastEatenAt ?? 0) - (a.lastEatenAt ?? 0) || byName(a, b);
+      default:
+        return byName(a, b);
+    }
+  });
+}
+
+/**
+ * Gets a dish with its trigger profile and full history of confirmed meals.
+ */
+export async function getDishDetail(dishId: string): Promise<DishDetail> {
+  const [dishes, history, profiles] = await Promise.all([
+    getDishesByIds([dishId]),
+    getDishHistory(dishId),
+    getDishTriggerProfiles([dishId]),
+  ]);
+
+  if (dishes.length === 0) {
+    throw new Error(`Dish not found: ${dishId}`);
+  }
+
+  return {
+    dish: dishes[0],
+    timesEaten: history.length,
+    lastEatenAt: history[0]?.occurredAt ?? null,
+    triggerProfile: profiles.get(dishId) ?? { triggers: [], isDefault: false },
+    history,
+  };
+}
+
+/**
+ * Sets the triggers new entries of this dish are pre-filled with.
+ * An empty list clears them, so the last confirmed triggers are used again.
+ */
+export async function updateDishDefaultTriggers(dishId: string, triggerIds: string[]): Promise<void> {
+  logger.info(FILENAME, 'updateDishDefaultTriggers', 'Updating default triggers', {
+    dishId,
+    triggerCount: triggerIds.length,
+  });
+  await setDishDefaultTriggers(dishId, triggerIds);
+}
+
+/**
+ * Marks a dish as a favorite, or removes it from favorites.
+ */
+export async function setDishFavorite(dishId: string, isFavorite: boolean): Promise<Dish> {
+  logger.info(FILENAME, 'setDishFavorite', 'Updating favorite', { dishId, isFavorite });
+  return updateDish(dishId, { favoritedAt: isFavorite ? Date.now() : null });
+}
+
+/**
+ * Gets the dishes offered for one-tap logging: all favorites, and the most recently eaten
+ * other dishes.
+ */
+export async function getQuickLogDishes(recentLimit: number = 10): Promise<QuickLogDishes> {
+  const library = await getDishLibraryForUser();
+
+  const favorites = filterAndSortDishLibrary(
+    library.filter((item) => item.dish.favoritedAt !== null),
+    '',
+    'name',
+  );
+  const recent = filterAndSortDishLibrary(
+    library.filter((item) => item.dish.favoritedAt === null && item.lastEatenAt !== null),
+    '',
+    'lastEaten',
+  ).slice(0, recentLimit);
+
+  return { favorites, recent };
+}
@@ -0,0 +1,313 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+import {
+  PredictionAccuracy,
+  PredictionCounts,
+  PredictionEvalDishEvent,
+  PredictionScores,
+  PromptVariantComparison,
+  PromptVariantEditCounts,
+  TriggerPredictionMetrics,
+} from '@/types/evaluation';
+import { getPredictionEvalDishEvents, getPromptVariantEvalDishEvents } from '@/data/foodEntryRepo';
+import { normalizeDishName } from '@/data/dishHelpers';
+import { getAuthenticatedUserId } from '@/data/utils';
+import { getPromptExperiment, getPromptVariantLabel, PromptExperiment } from '@/lib/promptExperiments';
+import { logger } from '@/utils/logger';
+
+const FILENAME = 'evaluationService.ts';
+
+const emptyCounts = (): PredictionCounts => ({
+  truePositiveCount: 0,
+  falsePositiveCount: 0,
+  falseNegativeCount: 0,
+});
+
+const ratio = (numerator: number, denominator: number): number | null =>
+  denominator > 0 ? numerator / denominator : null;
+
+/**
+ * Precision, recall and F1 from true/false positive and false negative counts.
+ * F1 is 2TP / (2TP + FP + FN), which equals the harmonic mean of precision and recall.
+ */
+export function computePredictionScores(counts: PredictionCounts): PredictionScores {
+  const { truePositiveCount, falsePositiveCount, falseNegativeCount } = counts;
+  return {
+    truePositiveCount,
+    falsePositiveCount,
+    falseNegativeCount,
+    precision: ratio(truePositiveCount, truePositiveCount + falsePositiveCount),
+    recall: ratio(truePositiveCount, truePositiveCount + falseNegativeCount),
+    f1: ratio(2 * truePositiveCount, 2 * truePositiveCount + falsePositiveCount + falseNegativeCount),
+  };
+}
+
+/**
+ * Scores predicted trigger names against confirmed (or expected) ones, one pair per dish.
+ * @returns Per-trigger scores sorted by trigger name, and scores over all triggers (micro-averaged).
+ */
+export function scoreTriggerPredictions(
+  dishes: Array<{ predictedTriggerNames: string[]; confirmedTriggerNames: string[] }>,
+): { triggers: TriggerPredictionMetrics[]; overall: PredictionScores } {
+  const countsByTrigger = new Map<string, PredictionCounts>();
+  const countsFor = (triggerName: string): PredictionCounts => {
+    let counts = countsByTrigger.get(triggerName);
+    if (!counts) {
+      counts = emptyCounts();
+      countsByTrigger.set(triggerName, counts);
+    }
+    return counts;
+  };
+
+  for (const dish of dishes) {
+    const predicted = new Set(dish.predictedTriggerNames);
+    const confirmed = new Set(dish.confirmedTriggerNames);
+    predicted.forEach((triggerName) => {
+      if (confirmed.has(triggerName)) {
+        countsFor(triggerName).truePositiveCount += 1;
+      } else {
+        countsFor(triggerName).falsePositiveCount += 1;
+      }
+    });
+    confirmed.forEach((triggerName) => {
+      if (!predicted.has(triggerName)) {
+        countsFor(triggerName).falseNegativeCount += 1;
+      }
+    });
+  }
+
+  const overall = emptyCounts();
+  const triggers = Array.from(countsByTrigger.entries())
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([triggerName, counts]) => {
+      overall.truePositiveCount += counts.truePositiveCount;
+      overall.falsePositiveCount += counts.falsePositiveCount;
+      overall.falseNegativeCount += counts.falseNegativeCount;
+      return { triggerName, ...computePredictionScores(counts) };
+    });
+
+  return { triggers, overall: computePredictionScores(overall) };
+}
+
+/**
+ * Returns true if the user changed the suggested dish name when confirming.
+ * Case, spacing and filler-word differences ("Mac and Cheese" vs "mac cheese") don't count.
+ */
+export function isDishNameEdited(event: PredictionEvalDishEvent): boolean {
+  return normalizeDishName(event.dishNameSuggestion) !== normalizeDishName(event.dishName);
+}
+
+/**
+ * Returns true if the user added or removed any predicted trigger when confirming.
+ */
+export function isTriggerEdited(event: PredictionEvalDishEvent): boolean {
+  const predicted = new Set(event.predictedTriggerNames);
+  const confirmed = new Set(event.confirmedTriggerNames);
+  return predicted.size !== confirmed.size || Array.from(predicted).some((name) => !confirmed.has(name));
+}
+
+/**
+ * Compares predicted triggers and dish names to what the user confirmed, grouped by
+ * model and prompt version, so prompt changes can be compared.
+ *
+ * Only the first event of each dish is scored: later events reuse the dish's confirmed
+ * name and triggers instead of asking the LLM, so they would inflate accuracy.
+ *
+ * Pure function: takes fixture data and performs no I/O.
+ * @returns One entry per model and prompt version, sorted by model version, then prompt version.
+ */
+export function computePredictionAccuracy(events: PredictionEvalDishEvent[]): PredictionAccuracy[] {
+  const groups = new Map<
+    string,
+    {
+      modelVersion: string;
+      promptVersion: string;
+      dishNameEditCount: number;
+      events: PredictionEvalDishEvent[];
+    }
+  >();
+
+  for (const event of events) {
+    if (!event.isNewDish) {
+      continue;
+    }
+
+    const key = JSON.stringify([event.modelVersion, event.promptVersion]);
+    let group = groups.get(key);
+    if (!group) {
+      group = {
+        modelVersion: event.modelVersion,
+        promptVersion: event.promptVersion,
+        dishNameEditCount: 0,
+        events: [],
+      };
+      groups.set(key, group);
+    }
+
+    group.events.push(event);
+    if (isDishNameEdited(event)) {
+      group.dishNameEditCount += 1;
+    }
+  }
+
+  return Array.from(groups.values())
+    .map((group) => ({
+      modelVersion: group.modelVersion,
+      promptVersion: group.promptVersion,
+      dishEventCount: group.events.length,
+      dishNameEditCount: group.dishNameEditCount,
+      dishNameEditRate: group.dishNameEditCount / group.events.length,
+      ...scoreTriggerPredictions(group.events),
+    }))
+    .sort(
+      (a, b) =>
+        a.modelVersion.localeCompare(b.modelVersion) ||
+        a.promptVersion.localeCompare(b.promptVersion),
+    );
+}
+
+/**
+ * Fetches the authenticated user's confirmed, LLM-predicted dish events and computes
+ * prediction accuracy per model and prompt version.
+ */
+export async function getPredictionAccuracyForUser(): Promise<PredictionAccuracy[]> {
+  const userId = await getAuthenticatedUserId();
+  logger.info(FILENAME, 'getPredictionAccuracyForUser', 'Computing prediction accuracy', { userId });
+
+  const events = await getPredictionEvalDishEvents(userId);
+  const accuracy = computePredictionAccuracy(events);
+
+  logger.info(FILENAME, 'getPredictionAccuracyForUser', 'Prediction accuracy computed', {
+    dishEventCount: events.length,
+    versionCount: accuracy.length,
+  });
+
+  return accuracy;
+}
+
+/**
+ * Counts, per prompt variant, the dish events whose predictions were edited when confirming and
+ * the trigger true/false positives and false negatives.
+ *
+ * As in computePredictionAccuracy, only the first event of each dish is counted. Events outside
+ * an experiment are ignored.
+ *
+ * Pure function: takes fixture data and performs no I/O.
+ * @returns One entry per variant with dish events, sorted by variant.
+ */
+export function countPromptVariantEdits(events: PredictionEvalDishEvent[]): PromptVariantEditCounts[] {
+  const countsByVariant = new Map<string, PromptVariantEditCounts>();
+  for (const event of events) {
+    if (!event.isNewDish || !event.promptVariant) {
+      continue;
+    }
+
+    let counts = countsByVariant.get(event.promptVariant);
+    if (!counts) {
+      counts = {
+        promptVariant: event.promptVariant,
+        dishEventCount: 0,
+        dishNameEditCount: 0,
+        triggerEditCount: 0,
+        editCount: 0,
+        ...emptyCounts(),
+      };
+      countsByVariant.set(event.promptVariant, counts);
+    }
+
+    const dishNameEdited = isDishNameEdited(event);
+    const triggerEdited = isTriggerEdited(event);
+    const confirmed = new Set(event.confirmedTriggerNames);
+    const truePositiveCount = event.predictedTriggerNames.filter((name) => confirmed.has(name)).length;
+    counts.dishEventCount += 1;
+    counts.dishNameEditCount += dishNameEdited ? 1 : 0;
+    counts.triggerEditCount += triggerEdited ? 1 : 0;
+    counts.editCount += dishNameEdited || triggerEdited ? 1 : 0;
+    counts.truePositiveCount += truePositiveCount;
+    counts.falsePositiveCount += event.predictedTriggerNames.length - truePositiveCount;
+    counts.falseNegativeCount += event.confirmedTriggerNames.length - truePositiveCount;
+  }
+
+  return Array.from(countsByVariant.values()).sort((a, b) => a.promptVariant.localeCompare(b.promptVariant));
+}
+
+/**
+ * Compares how often users edited the predictions of each variant of a prompt experiment when
+ * confirming (dish names, triggers, or either), so a new prompt or model can be rolled out once
+ * it's edited no more often than the control.
+ *
+ * Pure function: takes the variants' edit counts and performs no I/O. Counts of other
+ * experiments and variants are ignored.
+ * @returns One entry per variant, in the experiment's order (control first), including variants
+ * without dish events yet.
+ */
+export function comparePromptVariants(
+  experiment: PromptExperiment,
+  editCounts: PromptVariantEditCounts[],
+): PromptVariantComparison[] {
+  const editCountsByVariant = new Map(editCounts.map((counts) => [counts.promptVariant, counts]));
+
+  const comparisons = experiment.variants.map((variant) => {
+    const promptVariant = getPromptVariantLabel(experiment, variant);
+    const counts = editCountsByVariant.get(promptVariant);
+    const dishEventCount = counts?.dishEventCount ?? 0;
+    const dishNameEditCount = counts?.dishNameEditCount ?? 0;
+    const triggerEditCount = counts?.triggerEditCount ?? 0;
+    const editCount = counts?.editCount ?? 0;
+    return {
+      promptVariant,
+      dishEventCount,
+      dishNameEditCount,
+      triggerEditCount,
+      editCount,
+      dishNameEditRate: ratio(dishNameEditCount, dishEventCount),
+      triggerEditRate: ratio(triggerEditCount, dishEventCount),
+      editRate: ratio(editCount, dishEventCount),
+      editRateChange: null,
+      overall: computePredictionScores({
+        truePositiveCount: counts?.truePositiveCount ?? 0,
+        falsePositiveCount: counts?.falsePositiveCount ?? 0,
+        falseNegativeCount: counts?.falseNegativeCount ?? 0,
+      }),
+    };
+  });
+
+  const controlEditRate = comparisons[0]?.editRate ?? null;
+  return comparisons.map((comparison, index) => ({
+    ...comparison,
+    editRateChange:
+      index > 0 && comparison.editRate !== null && controlEditRate !== null
+        ? comparison.editRate - controlEditRate
+        : null,
+  }));
+}
+
+/**
+ * Fetches the confirmed dish events of a prompt experiment (the running one by default) and
+ * compares its variants' edit rates. In the app, RLS limits this to the user's own entries;
+ * scripts/comparePromptVariants.ts passes a service role client to compare variants across users.
+ * @returns An empty array when no experiment is running.
+ */
+export async function getPromptVariantComparison(
+  experiment: PromptExperiment | null = getPromptExperiment(),
+  client?: SupabaseClient,
+): Promise<PromptVariantComparison[]> {
+  if (!experiment) {
+    return [];
+  }
+  logger.info(FILENAME, 'getPromptVariantComparison', 'Comparing prompt variants', {
+    promptExperiment: experiment.name,
+  });
+
+  const events = await getPromptVariantEvalDishEvents(
+    experiment.variants.map((variant) => getPromptVariantLabel(experiment, variant)),
+    client,
+  );
+  const comparison = comparePromptVariants(experiment, countPromptVariantEdits(events));
+
+  logger.info(FILENAME, 'getPromptVariantComparison', 'Prompt variants compared', {
+    dishEventCount: comparison.reduce((sum, { dishEventCount }) => sum + dishEventCount, 0),
+    editRates: comparison.map(({ promptVariant, editRate }) => ({ promptVariant, editRate })),
+  });
+
+  return comparison;
+}
@@ -1,26 +1,50 @@
+import { SupabaseClient } from '@supabase/supabase-js';
 import { supabase } from '@/lib/supabase';
 import {
   Dish,
   DishEvent,
+  DishHistoryEntry,
   DishTrigger,
+  IngredientWithTriggers,
+  PendingRawFoodEntry,
   PredictedDish,
   PredictedDishTrigger,
   RawFoodEntry,
   Trigger,
 } from '@/types/dish';
+import { MealExposure } from '@/types/correlation';
 import {
+  DishEventPrediction,
+  PredictionBackfillCandidate,
+  PredictionBackfillChange,
+  PredictionBackfillCursor,
+  PredictionEvalDishEvent,
+} from '@/types/evaluation';
+import { ConfirmFoodEntryResponse, CreateFoodEntryResponse } from '@/types/foodEntry';
+import {
+  ConfirmFoodEntryDishParams,
+  CreateFoodEntryDishParams,
+  CurrentDishEventPredictionRow,
+  DishDefaultTriggerRow,
   DishEventRow,
   DishRow,
   DishTriggerRow,
+  IngredientRow,
+  MatchDishesRow,
   PredictedDishRow,
   PredictedDishTriggerRow,
+  PredictionBackfillDishEventRow,
+  PredictionBackfillProgressRow,
+  PredictionEvalDishEventRow,
   RawFoodEntryRow,
+  SaveDishEmbeddingParams,
   TriggerRow,
 } from '@/types/supabase';
 import {
   fromDishEventRow,
   fromDishRow,
   fromDishTriggerRow,
+  fromIngredientRow,
   fromPredictedDishRow,
   fromPredictedDishTriggerRow,
   fromRawFoodEntryRow,
@@ -32,14 +56,98 @@ import {
   toPredictedDishTriggerRow,
   toRawFoodEntryRow,
 } from '@/data/mappers';
+import { MealType } from '@/data/mealType';
 import { handleError } from '@/data/utils';
 
+// Food entry transactions (RPC)
+// These write a whole entry in one database transaction; see migration 0012.
+export async function createFoodEntryTransaction(args: {
+  rawEntryText: string;
+  occurredAt: number;
+  modelVersion: string;
+  promptVersion: string;
+  promptVariant: string | null;
+  mealType: MealType | null;
+  dishes: CreateFoodEntryDishParams[];
+}): Promise<CreateFoodEntryResponse> {
+  const { data, error } = await supabase.rpc('create_food_entry', {
+    p_raw_entry_text: args.rawEntryText,
+    p_occurred_at: new Date(args.occurredAt).toISOString(),
+    p_model_version: args.modelVersion,
+    p_prompt_version: args.promptVersion,
+    p_dishes: args.dishes,
+    p_meal_type: args.mealType,
+    p_prompt_variant: args.promptVariant,
+  });
+
+  if (error) {
+    handleError(error);
+  }
+
+  if (!data) {
+    throw new Error('Failed to create food entry');
+  }
+
+  return data as CreateFoodEntryResponse;
+}
+
+export async function confirmFoodEntryTransaction(args: {
+  rawEntryId: string;
+  occurredAt: number;
+  mealType: MealType | null;
+  confirmedDishes: ConfirmFoodEntryDishParams[];
+  deletedDishEventIds: string[];
+}): Promise<ConfirmFoodEntryResponse> {
+  const { data, error } = await supabase.rpc('confirm_food_entry', {
+    p_raw_entry_id: args.rawEntryId,
+    p_occurred_at: new Date(args.occurredAt).toISOString(),
+    p_confirmed_dishes: args.confirmedDishes,
+    p_meal_type: args.mealType,
+    p_deleted_dish_event_ids: args.deletedDishEventIds,
+  });
+
+  if (error) {
+    handleError(error);
+  }
+
+  if (!data) {
+    throw new Error('Failed to confirm food entry');
+  }
+
+  return data as ConfirmFoodEntryResponse;
+}
+
+// Log an existing dish again, already confirmed with the given triggers (see migrations 0016 and 0019)
+export async function quickLogDishTransaction(args: {
+  dishId: string;
+  occurredAt: number;
+  triggerIds: string[];
+  mealType: MealType | null;
+}): Promise<ConfirmFoodEntryResponse> {
+  const { data, error } = await supabase.rpc('quick_log_dish', {
+    p_dish_id: args.dishId,
+    p_occurred_at: new Date(args.occurredAt).toISOString(),
+    p_trigger_ids: args.triggerIds,
+    p_meal_type: args.mealType,
+  });
+
+  if (error) {
+    handleError(error);
+  }
+
+  if (!data) {
+    throw new Error('Failed to log dish');
+  }
+
+  return data as ConfirmFoodEntryResponse;
+}
+
 // Raw Food Entry operations
 export async function createRawFoodEntry(
   userId: string,
   rawEntryText: string,
 ): Promise<RawFoodEntry> {
-  const row = toRawFoodEntryRow({ userId, rawEntryText });
+  const row = toRawFoodEntryRow({ userId, rawEntryText, mealType: null });
 
   const { data, error } = await supabase
     .from('raw_entry')
@@ -128,9 +236,220 @@ export async function findDishByNormalizedName(
   return fromDishRow(data as DishRow);
 }
 
+// Batched lookup of a user's dishes by normalized name (one query for a whole meal)
+export async function findDishesByNormalizedNames(
+  userId: string,
+  normalizedNames: string[],
+): Promise<Dish[]> {
+  if (normalizedNames.length === 0) {
+    return [];
+  }
+
+  const { data, error } = await supabase
+    .from('dish')
+    .select('*')
+    .eq('user_id', userId)
+    .in('normalized_dish_name', normalizedNames);
+
+  if (error) {
+    handleError(error);
+  }
+
+  if (!data) {
+    return [];
+  }
+
+  return data.map((row) => fromDishRow(row as DishRow));
+}
+
+// Row of the dish alias lookup below. Without a generated Database type, supabase-js infers
+// embedded to-one rows (like `dish:dish_id`) as arrays, so nested selects are cast through
+// unknown to a row interface per query like this one.
+interface DishAliasQueryRow {
+  normalized_alias_name: string;
+  dish: DishRow | null;
+}
+
+// Batched lookup of dishes by alias (previous names of merged dishes), keyed by normalized alias name
+export async function findDishesByAliasNames(
+  userId: string,
+  normalizedNames: string[],
+): Promise<Map<string, Dish>> {
+  const dishesByAlias = new Map<string, Dish>();
+  if (normalizedNames.length === 0) {
+    return dishesByAlias;
+  }
+
+  const { data, error } = await supabase
+    .from('dish_alias')
+    .select(`
+      normalized_alias_name,
+      dish:dish_id (*)
+    `)
+    .eq('user_id', userId)
+    .in('normalized_alias_name', normalizedNames);
+
+  if (error) {
+    handleError(error);
+  }
+
+  if (!data) {
+    return dishesByAlias;
+  }
+
+  for (const row of data as unknown as DishAliasQueryRow[]) {
+    if (row.dish) {
+      dishesByAlias.set(row.normalized_alias_name, fromDishRow(row.dish));
+    }
+  }
+
+  return dishesByAlias;
+}
+
+// Merge one dish into another (see migration 0013). Returns the surviving target dish.
+export async function mergeDishes(sourceDishId: string, targetDishId: string): Promise<Dish> {
+  const { data, error } = await supabase.rpc('merge_dishes', {
+    p_source_dish_id: sourceDishId,
+    p_target_dish_id: targetDishId,
+  });
+
+  if (error) {
+    handleError(error);
+  }
+
+  if (!data) {
+    throw new Error('Failed to merge dishes');
+  }
+
+  return fromDishRow(data as DishRow);
+}
+
+// Records that the user rejected the similarity match of a dish event and moves the event to
+// the user's dish with the given name, created if needed (see migration 0032)
+export async function rejectDishMatch(
+  dishEventId: string,
+  dishName: string,
+  normalizedDishName: string,
+): Promise<Dish> {
+  const { data, error } = await supabase.rpc('reject_dish_match', {
+    p_dish_event_id: dishEventId,
+    p_dish_name: dishName,
+    p_normalized_dish_name: normalizedDishName,
+  });
+
+  if (error) {
+    handleError(error);
+  }
+
+  if (!data) {
+    throw new Error('Failed to reject dish match');
+  }
+
+  return fromDishRow(data as DishRow);
+}
+
+// The user's dishes that have no embedding for the given model yet (older and renamed dishes),
+// oldest first (see migration 0031)
+export async function getDishesMissingEmbedding(model: string, limit: number): Promise<Dish[]> {
+  const { data, error } = await supabase.rpc('get_dishes_missing_embedding', {
+    p_model: model,
+    p_limit: limit,
+  });
+
+  if (error) {
+    handleError(error);
+  }
+
+  return ((data ?? []) as DishRow[]).map(fromDishRow);
+}
+
+// For each query embedding, the user's dishes nearest to it at or above the similarity threshold,
+// best first, at most matchCount each. queryIndex is the query embedding's position (see migration 0031)
+export async function matchDishesByEmbedding(
+  model: string,
+  embeddings: number[][],
+  threshold: number,
+  matchCount: number = 1,
+): Promise<Array<{ queryIndex: number; dish: Dish; similarity: number }>> {
+  if (embeddings.length === 0) {
+    return [];
+  }
+
+  const { data, error } = await supabase.rpc('match_dishes', {
+    p_model: model,
+    p_embeddings: embeddings,
+    p_threshold: threshold,
+    p_match_count: matchCount,
+  });
+
+  if (error) {
+    handleError(error);
+  }
+
+  return ((data ?? []) as MatchDishesRow[]).map(({ query_index, similarity, ...dishRow }) => ({
+    queryIndex: query_index,
+    dish: fromDishRow(dishRow),
+    similarity,
+  }));
+}
+
+export async function saveDishEmbeddings(
+  model: string,
+  embeddings: SaveDishEmbeddingParams[],
+): Promise<void> {
+  if (embeddings.length === 0) {
+    return;
+  }
+
+  const { error } = await supabase.rpc('save_dish_embeddings', {
+    p_model: model,
+    p_embeddings: embeddings,
+  });
+
+  if (error) {
+    handleError(error);
+  }
+}
+
+export async function getDishesByIds(dishIds: string[]): Promise<Dish[]> {
+  const { data, error } = await supabase
+    .from('dish')
+    .select('*')
+    .in('id', dishIds);
+
+  if (error) {
+    handleError(error);
+  }
+
+  if (!data) {
+    return [];
+  }
+
+  return data.map((row) => fromDishRow(row as DishRow));
+}
+
+// All of a user's dishes, by name
+export async function getDishesForUser(userId: string): Promise<Dish[]> {
+  const { data, error } = await supabase
+    .from('dish')
+    .select('*')
+    .eq('user_id', userId)
+    .order('dish_name', { ascending: true });
+
+  if (error) {
+    handleError(error);
+  }
+
+  if (!data) {
+    return [];
+  }
+
+  return data.map((row) => fromDishRow(row as DishRow));
+}
+
 export async function updateDish(
   dishId: string,
-  updates: { dishName?: string; normalizedDishName?: string },
+  updates: { dishName?: string; normalizedDishName?: string; favoritedAt?: number | null },
 ): Promise<Dish> {
   const updateData: Partial<DishRow> = {};
   if (updates.dishName !== undefined) {
@@ -139,6 +458,10 @@ export async function updateDish(
   if (updates.normalizedDishName !== undefined) {
     updateData.normalized_dish_name = updates.normalizedDishName;
   }
+  if (updates.favoritedAt !== undefined) {
+    updateData.favorited_at =
+      updates.favoritedAt === null ? null : new Date(updates.favoritedAt).toISOString();
+  }
 
   const { data, error } = await supabase
     .from('dish')
@@ -220,7 +543,24 @@ export async function getTriggerById(triggerId: string): Promise<Trigger | null>
   return fromTriggerRow(data as TriggerRow);
 }
 
-// TODO: consider replacing with hardcoded list of triggers
+export async function getTriggersByIds(triggerIds: string[]): Promise<Trigger[]> {
+  const { data, error } = await supabase
+    .from('triggers')
+    .select('*')
+    .in('id', triggerIds);
+
+  if (error) {
+    handleError(error);
+  }
+
+  if (!data) {
+    return [];
+  }
+
+  return data.map((row) => fromTriggerRow(row as TriggerRow));
+}
+
+// Get the built-in triggers and the user's custom triggers (RLS hides other users' triggers)
 export async function getAllTriggers(): Promise<Trigger[]> {
   const { data, error } = await supabase
     .from('triggers')
@@ -238,6 +578,47 @@ export async function getAllTriggers(): Promise<Trigger[]> {
   return data.map((row) => fromTriggerRow(row as TriggerRow));
 }
 
+// Get a user's custom triggers, by name
+export async function getCustomTriggers(
+  userId: string,
+  client: SupabaseClient = supabase
+): Promise<Trigger[]> {
+  const { data, error } = await client
+    .from('triggers')
+    .select('*')
+    .eq('user_id', userId)
+    .order('trigger_name', { ascending: true });
+
+  if (error) {
+    handleError(error);
+  }
+
+  if (!data) {
+    return [];
+  }
+
+  return data.map((row) => fromTriggerRow(row as TriggerRow));
+}
+
+// Create a custom trigger owned by the user (see migration 0021)
+export async function createCustomTrigger(userId: string, triggerName: string): Promise<Trigger> {
+  const { data, error } = await supabase
+    .from('triggers')
+    .insert({ user_id: userId, trigger_name: triggerName })
+    .select()
+    .single();
+
+  if (error) {
+    handleError(error);
+  }
+
+  if (!data) {
+    throw new Error('Failed to create trigger: no data returned');
+  }
+
+  return fromTriggerRow(data as TriggerRow);
+}
+
 // Predicted Dish Trigger operations
 export async function createPredictedDishTrigger(
   predictedTrigger: Omit<PredictedDishTrigger, 'id' | 'createdAt'>,
@@ -295,6 +676,27 @@ export async function deleteDishTriggersForEvent(dishEventId: string): Promise<v
   }
 }
 
+export async function getRawFoodEntryById(rawEntryId: string): Promise<RawFoodEntry | null> {
+  const { data, error } = await supabase
+    .from('raw_entry')
+    .select('*')
+    .eq('id', rawEntryId)
+    .single();
+
+  if (error) {
+    if (error.code === 'PGRST116') {
+      return null;
+    }
+    handleError(error);
+  }
+
+  if (!data) {
+    return null;
+  }
+
+  return fromRawFoodEntryRow(data as RawFoodEntryRow);
+}
+
 // Get dish events for a raw food entry
 export async function getDishEventsByRawFoodEntryId(rawEntryId: string): Promise<DishEvent[]> {
   const { data, error } = await supabase
@@ -315,6 +717,50 @@ export async function getDishEventsByRawFoodEntryId(rawEntryId: string): Promise
   return data.map((row) => fromDishEventRow(row as DishEventRow));
 }
 
+// Row of the pending raw entry select below, with its unconfirmed dish events
+interface PendingRawFoodEntryQueryRow extends RawFoodEntryRow {
+  dish_events: Pick<DishEventRow, 'id' | 'occurred_at'>[] | null;
+}
+
+// Get raw food entries that still have unconfirmed, non-deleted dish events (the "Needs review" inbox).
+// These are left behind when the user backs out of or never finishes the confirmation screen.
+export async function getPendingRawFoodEntries(userId: string): Promise<PendingRawFoodEntry[]> {
+  const { data, error } = await supabase
+    .from('raw_entry')
+    .select(`
+      *,
+      dish_events!inner (
+        id,
+        occurred_at
+      )
+    `)
+    .eq('user_id', userId)
+    .eq('dish_events.confirmed_by_user', false)
+    .is('dish_events.deleted_at', null)
+    .order('created_at', { ascending: false });
+
+  if (error) {
+    handleError(error);
+  }
+
+  if (!data) {
+    return [];
+  }
+
+  return (data as PendingRawFoodEntryQueryRow[]).map((row) => {
+    const dishEvents = row.dish_events ?? [];
+    const occurredAt = dishEvents.length > 0
+      ? Math.min(...dishEvents.map((de) => new Date(de.occurred_at).getTime()))
+      : new Date(row.created_at).getTime();
+
+    return {
+      ...fromRawFoodEntryRow(row),
+      occurredAt,
+      dishEventCount: dishEvents.length,
+    };
+  });
+}
+
 // Get predicted triggers for dish events
 export async function getPredictedTriggersByDishEventIds(
   dishEventIds: string[],
@@ -355,6 +801,365 @@ export async function getConfirmedTriggersByDishEventIds(
   return data.map((row) => fromDishTriggerRow(row as DishTriggerRow));
 }
 
+// A join row with its trigger nested as `triggers:trigger_id (...)`
+interface TriggerJoinQueryRow {
+  triggers: TriggerRow | null;
+}
+
+// Row of the dish event select below, with the event's confirmed triggers
+interface DishEventTriggersQueryRow extends Pick<DishEventRow, 'dish_id' | 'created_at'> {
+  dish_triggers: TriggerJoinQueryRow[] | null;
+}
+
+// Get the most recent confirmed triggers for each dish, keyed by dish ID (one query for all dishes).
+// Per dish, uses the most recent confirmed dish event that has any triggers; dishes without
+// confirmed triggers are absent from the map.
+export async function getMostRecentConfirmedTriggersByDishIds(
+  dishIds: string[],
+): Promise<Map<string, Trigger[]>> {
+  const triggersByDishId = new Map<string, Trigger[]>();
+  if (dishIds.length === 0) {
+    return triggersByDishId;
+  }
+
+  const { data, error } = await supabase
+    .from('dish_events')
+    .select(`
+      dish_id,
+      created_at,
+      dish_triggers!inner (
+        triggers:trigger_id (
+          id,
+          trigger_name,
+          created_at
+        )
+      )
+    `)
+    .in('dish_id', dishIds)
+    .eq('confirmed_by_user', true)
+    .order('created_at', { ascending: false });
+
+  if (error) {
+    handleError(error);
+  }
+
+  if (!data) {
+    return triggersByDishId;
+  }
+
+  // Rows are newest first, so the first event seen for a dish is its most recent one
+  for (const row of data as unknown as DishEventTriggersQueryRow[]) {
+    if (triggersByDishId.has(row.dish_id)) {
+      continue;
+    }
+
+    const triggers: Trigger[] = [];
+    const seenIds = new Set<string>();
+    for (const dishTrigger of row.dish_triggers ?? []) {
+      const trigger = dishTrigger.triggers;
+      if (trigger && !seenIds.has(trigger.id)) {
+        seenIds.add(trigger.id);
+        triggers.push(fromTriggerRow(trigger));
+      }
+    }
+
+    if (triggers.length > 0) {
+      triggersByDishId.set(row.dish_id, triggers);
+    }
+  }
+
+  return triggersByDishId;
+}
+
+// Get the default triggers set in the dish library, keyed by dish ID (one query for all dishes).
+// Dishes without default triggers are absent from the map.
+export async function getDefaultTriggersByDishIds(
+  dishIds: string[],
+): Promise<Map<string, Trigger[]>> {
+  const triggersByDishId = new Map<string, Trigger[]>();
+  if (dishIds.length === 0) {
+    return triggersByDishId;
+  }
+
+  const { data, error } = await supabase
+    .from('dish_default_triggers')
+    .select(`
+      dish_id,
+      triggers:trigger_id (
+        id,
+        trigger_name,
+        created_at
+      )
+    `)
+    .in('dish_id', dishIds);
+
+  if (error) {
+    handleError(error);
+  }
+
+  if (!data) {
+    return triggersByDishId;
+  }
+
+  for (const row of data as unknown as Array<TriggerJoinQueryRow & Pick<DishDefaultTriggerRow, 'dish_id'>>) {
+    if (!row.triggers) continue;
+    const triggers = triggersByDishId.get(row.dish_id) ?? [];
+    triggers.push(fromTriggerRow(row.triggers));
+    triggersByDishId.set(row.dish_id, triggers);
+  }
+
+  return triggersByDishId;
+}
+
+// Replace a dish's default triggers (see migration 0015); an empty list clears them
+export async function setDishDefaultTriggers(dishId: string, triggerIds: string[]): Promise<void> {
+  const { error } = await supabase.rpc('set_dish_default_triggers', {
+    p_dish_id: dishId,
+    p_trigger_ids: triggerIds,
+  });
+
+  if (error) {
+    handleError(error);
+  }
+}
+
+// Ingredient operations
+// Nested select for an ingredient with the triggers it carries (see migration 0020)
+const INGREDIENT_WITH_TRIGGERS_SELECT = `
+  id,
+  user_id,
+  ingredient_name,
+  normalized_ingredient_name,
+  created_at,
+  ingredient_triggers (
+    triggers:trigger_id (
+      id,
+      trigger_name,
+      created_at
+    )
+  )
+`;
+
+// Row of INGREDIENT_WITH_TRIGGERS_SELECT
+interface IngredientWithTriggersQueryRow extends IngredientRow {
+  ingredient_triggers: TriggerJoinQueryRow[] | null;
+}
+
+// A join row with its ingredient nested as `ingredients:ingredient_id (...)`
+interface IngredientJoinQueryRow {
+  ingredients: IngredientWithTriggersQueryRow | null;
+}
+
+function fromIngredientWithTriggersRow(row: IngredientWithTriggersQueryRow): IngredientWithTriggers {
+  const { ingredient_triggers: ingredientTriggers, ...ingredientRow } = row;
+  return {
+    ...fromIngredientRow(ingredientRow),
+    triggers: (ingredientTriggers ?? [])
+      .map((ingredientTrigger) => ingredientTrigger.triggers)
+      .filter((trigger): trigger is TriggerRow => trigger !== null)
+      .map((trigger) => fromTriggerRow(trigger)),
+  };
+}
+
+// Batched lookup of a user's ingredients (with their triggers) by normalized name
+export async function findIngredientsByNormalizedNames(
+  userId: string,
+  normalizedNames: string[],
+  client: SupabaseClient = supabase,
+): Promise<IngredientWithTriggers[]> {
+  if (normalizedNames.length === 0) {
+    return [];
+  }
+
+  const { data, error } = await client
+    .from('ingredients')
+    .select(INGREDIENT_WITH_TRIGGERS_SELECT)
+    .eq('user_id', userId)
+    .in('normalized_ingredient_name', normalizedNames);
+
+  if (error) {
+    handleError(error);
+  }
+
+  if (!data) {
+    return [];
+  }
+
+  return (data as unknown as IngredientWithTriggersQueryRow[]).map(fromIngredientWithTriggersRow);
+}
+
+// Row of the dish event select below, with the event's ingredients
+interface DishEventIngredientsQueryRow extends Pick<DishEventRow, 'dish_id' | 'created_at'> {
+  dish_ingredients: IngredientJoinQueryRow[] | null;
+}
+
+// Get the ingredients of each dish's most recent confirmed dish event that has any, keyed by
+// dish ID (one query for all dishes). Dishes never confirmed with ingredients are absent.
+export async function getMostRecentIngredientsByDishIds(
+  dishIds: string[],
+): Promise<Map<string, IngredientWithTriggers[]>> {
+  const ingredientsByDishId = new Map<string, IngredientWithTriggers[]>();
+  if (dishIds.length === 0) {
+    return ingredientsByDishId;
+  }
+
+  const { data, error } = await supabase
+    .from('dish_events')
+    .select(`
+      dish_id,
+      created_at,
+      dish_ingredients!inner (
+        ingredients:ingredient_id (${INGREDIENT_WITH_TRIGGERS_SELECT})
+      )
+    `)
+    .in('dish_id', dishIds)
+    .eq('confirmed_by_user', true)
+    .is('deleted_at', null)
+    .order('created_at', { ascending: false });
+
+  if (error) {
+    handleError(error);
+  }
+
+  if (!data) {
+    return ingredientsByDishId;
+  }
+
+  // Rows are newest first, so the first event seen for a dish is its most recent one
+  for (const row of data as unknown as DishEventIngredientsQueryRow[]) {
+    if (ingredientsByDishId.has(row.dish_id)) {
+      continue;
+    }
+
+    const ingredients = (row.dish_ingredients ?? [])
+      .map((dishIngredient) => dishIngredient.ingredients)
+      .filter((ingredient): ingredient is IngredientWithTriggersQueryRow => ingredient !== null)
+      .map(fromIngredientWithTriggersRow);
+
+    if (ingredients.length > 0) {
+      ingredientsByDishId.set(row.dish_id, ingredients);
+    }
+  }
+
+  return ingredientsByDishId;
+}
+
+// Get the ingredients of dish events, keyed by dish event ID; events without any are absent
+export async function getIngredientsByDishEventIds(
+  dishEventIds: string[],
+): Promise<Map<string, IngredientWithTriggers[]>> {
+  const ingredientsByDishEventId = new Map<string, IngredientWithTriggers[]>();
+  if (dishEventIds.length === 0) {
+    return ingredientsByDishEventId;
+  }
+
+  const { data, error } = await supabase
+    .from('dish_ingredients')
+    .select(`
+      dish_event_id,
+      ingredients:ingredient_id (${INGREDIENT_WITH_TRIGGERS_SELECT})
+    `)
+    .in('dish_event_id', dishEventIds);
+
+  if (error) {
+    handleError(error);
+  }
+
+  if (!data) {
+    return ingredientsByDishEventId;
+  }
+
+  for (const row of data as unknown as Array<IngredientJoinQueryRow & { dish_event_id: string }>) {
+    if (!row.ingredients) continue;
+    const ingredients = ingredientsByDishEventId.get(row.dish_event_id) ?? [];
+    ingredients.push(fromIngredientWithTriggersRow(row.ingredients));
+    ingredientsByDishEventId.set(row.dish_event_id, ingredients);
+  }
+
+  // Same order as the food entry RPCs return them
+  ingredientsByDishEventId.forEach((ingredients) =>
+    ingredients.sort((a, b) => a.ingredientName.localeCompare(b.ingredientName)),
+  );
+
+  return ingredientsByDishEventId;
+}
+
+// Get when each of a user's dishes was eaten (confirmed, non-deleted dish events)
+export async function getConfirmedDishEventTimes(
+  userId: string,
+): Promise<Array<{ dishId: string; occurredAt: number }>> {
+  const { data, error } = await supabase
+    .from('dish_events')
+    .select('dish_id, occurred_at')
+    .eq('user_id', userId)
+    .eq('confirmed_by_user', true)
+    .is('deleted_at', null);
+
+  if (error) {
+    handleError(error);
+  }
+
+  if (!data) {
+    return [];
+  }
+
+  return (data as Pick<DishEventRow, 'dish_id' | 'occurred_at'>[]).map((row) => ({
+    dishId: row.dish_id,
+    occurredAt: new Date(row.occurred_at).getTime(),
+  }));
+}
+
+// Row of the dish history select below
+interface DishHistoryQueryRow extends Pick<DishEventRow, 'id' | 'raw_entry_id' | 'occurred_at'> {
+  raw_entry: Pick<RawFoodEntryRow, 'raw_entry_text'> | null;
+  dish_triggers: TriggerJoinQueryRow[] | null;
+}
+
+// Get every confirmed, non-deleted time a dish was eaten with the meal text and confirmed
+// triggers, most recent first
+export async function getDishHistory(dishId: string): Promise<DishHistoryEntry[]> {
+  const { data, error } = await supabase
+    .from('dish_events')
+    .select(`
+      id,
+      raw_entry_id,
+      occurred_at,
+      raw_entry:raw_entry_id (
+        raw_entry_text
+      ),
+      dish_triggers (
+        triggers:trigger_id (
+          id,
+          trigger_name,
+          created_at
+        )
+      )
+    `)
+    .eq('dish_id', dishId)
+    .eq('confirmed_by_user', true)
+    .is('deleted_at', null)
+    .order('occurred_at', { ascending: false });
+
+  if (error) {
+    handleError(error);
+  }
+
+  if (!data) {
+    return [];
+  }
+
+  return (data as unknown as DishHistoryQueryRow[]).map((row) => ({
+    dishEventId: row.id,
+    rawEntryId: row.raw_entry_id,
+    rawEntryText: row.raw_entry?.raw_entry_text ?? '',
+    occurredAt: new Date(row.occurred_at).getTime(),
+    triggers: (row.dish_triggers ?? [])
+      .map((dishTrigger) => dishTrigger.triggers)
+      .filter((trigger): trigger is TriggerRow => trigger !== null)
+      .map((trigger) => fromTriggerRow(trigger)),
+  }));
+}
+
 // Update dish events to mark them as confirmed
 export async function updateDishEventConfirmation(
   dishEventIds: string[],
@@ -407,3 +1212,381 @@ export async function updateDishEventOccurredAt(
     handleError(error);
   }
 }
+
+// Row of the meal exposure select below, with the dish event's confirmed trigger names
+interface MealExposureQueryRow extends Pick<DishEventRow, 'raw_entry_id' | 'occurred_at'> {
+  dish_triggers: Array<{ triggers: Pick<TriggerRow, 'trigger_name'> | null }> | null;
+}
+
+// Get confirmed meal occasions with their confirmed trigger names (for correlation analysis).
+// Dish events are grouped by raw entry, since all dishes of one meal share the same occurred_at.
+export async function getConfirmedMealExposures(userId: string): Promise<MealExposure[]> {
+  const { data, error } = await supabase
+    .from('dish_events')
+    .select(`
+      raw_entry_id,
+      occurred_at,
+      dish_triggers (
+        triggers:trigger_id (
+          trigger_name
+        )
+      )
+    `)
+    .eq('user_id', userId)
+    .eq('confirmed_by_user', true)
+    .is('deleted_at', null)
+    .order('occurred_at', { ascending: true });
+
+  if (error) {
+    handleError(error);
+  }
+
+  if (!data) {
+    return [];
+  }
+
+  const mealsByRawEntryId = new Map<string, { occurredAt: number; triggerNames: Set<string> }>();
+  for (const row of data as unknown as MealExposureQueryRow[]) {
+    const occurredAt = new Date(row.occurred_at).getTime();
+    let meal = mealsByRawEntryId.get(row.raw_entry_id);
+    if (!meal) {
+      meal = { occurredAt, triggerNames: new Set() };
+      mealsByRawEntryId.set(row.raw_entry_id, meal);
+    }
+    meal.occurredAt = Math.min(meal.occurredAt, occurredAt);
+    for (const dishTrigger of row.dish_triggers ?? []) {
+      const triggerName = dishTrigger.triggers?.trigger_name;
+      if (triggerName) {
+        meal.triggerNames.add(triggerName);
+      }
+    }
+  }
+
+  return Array.from(mealsByRawEntryId.entries()).map(([rawEntryId, meal]) => ({
+    rawEntryId,
+    occurredAt: meal.occurredAt,
+    triggerNames: Array.from(meal.triggerNames),
+  }));
+}
+
+const fromPredictionEvalDishEventRow = (row: PredictionEvalDishEventRow): PredictionEvalDishEvent => ({
+  dishEventId: row.dish_event_id,
+  modelVersion: row.model_version,
+  promptVersion: row.prompt_version,
+  promptVariant: row.prompt_variant,
+  dishNameSuggestion: row.dish_name_suggestion,
+  dishName: row.dish_name,
+  isNewDish: row.is_new_dish,
+  predictedTriggerNames: row.predicted_trigger_names ?? [],
+  confirmedTriggerNames: row.confirmed_trigger_names ?? [],
+  occurredAt: new Date(row.occurred_at).getTime(),
+});
+
+// Get a user's confirmed, LLM-predicted dish events with the prediction and the confirmed result
+// (for prediction accuracy evaluation), oldest first
+export async function getPredictionEvalDishEvents(
+  userId: string
+): Promise<PredictionEvalDishEvent[]> {
+  const { data, error } = await supabase
+    .from('prediction_eval_dish_events')
+    .select('*')
+    .eq('user_id', userId)
+    .order('occurred_at', { ascending: true });
+
+  if (error) {
+    handleError(error);
+  }
+
+  if (!data) {
+    return [];
+  }
+
+  return (data as PredictionEvalDishEventRow[]).map(fromPredictionEvalDishEventRow);
+}
+
+// Rows fetched per request when reading every dish event of a prompt experiment
+const PROMPT_VARIANT_EVAL_PAGE_SIZE = 1000;
+
+// Get the confirmed first events of dishes predicted under the given prompt variants (see
+// migration 0026), oldest first. RLS limits them to the user's own events; pass a service role
+// client (scripts/comparePromptVariants.ts) to read every user's.
+export async function getPromptVariantEvalDishEvents(
+  promptVariants: string[],
+  client: SupabaseClient = supabase
+): Promise<PredictionEvalDishEvent[]> {
+  if (promptVariants.length === 0) {
+    return [];
+  }
+
+  const rows: PredictionEvalDishEventRow[] = [];
+  for (let offset = 0; ; offset += PROMPT_VARIANT_EVAL_PAGE_SIZE) {
+    const { data, error } = await client
+      .from('prediction_eval_dish_events')
+      .select('*')
+      .in('prompt_variant', promptVariants)
+      .eq('is_new_dish', true)
+      .order('occurred_at', { ascending: true })
+      .order('dish_event_id', { ascending: true })
+      .range(offset, offset + PROMPT_VARIANT_EVAL_PAGE_SIZE - 1);
+
+    if (error) {
+      handleError(error);
+    }
+
+    const page = (data ?? []) as PredictionEvalDishEventRow[];
+    rows.push(...page);
+    if (page.length < PROMPT_VARIANT_EVAL_PAGE_SIZE) {
+      break;
+    }
+  }
+
+  return rows.map(fromPredictionEvalDishEventRow);
+}
+
+// Re-predicted triggers (see migration 0028)
+const fromCurrentDishEventPredictionRow = (row: CurrentDishEventPredictionRow): DishEventPrediction => ({
+  dishEventId: row.dish_event_id,
+  userId: row.user_id,
+  dishId: row.dish_id,
+  dishName: row.dish_name,
+  dishFragmentText: row.dish_fragment_text,
+  confirmed: row.confirmed_by_user,
+  isNewDish: row.is_new_dish,
+  backfilled: row.backfilled,
+  modelVersion: row.model_version,
+  promptVersion: row.prompt_version,
+  predictedTriggerNames: row.predicted_trigger_names ?? [],
+  createdAt: new Date(row.created_at).getTime(),
+});
+
+// Get the current prediction of LLM-predicted dish events
+export async function getCurrentPredictionsByDishEventIds(
+  dishEventIds: string[]
+): Promise<DishEventPrediction[]> {
+  if (dishEventIds.length === 0) {
+    return [];
+  }
+
+  const { data, error } = await supabase
+    .from('current_dish_event_predictions')
+    .select('*')
+    .in('dish_event_id', dishEventIds);
+
+  if (error) {
+    handleError(error);
+  }
+
+  if (!data) {
+    return [];
+  }
+
+  return (data as CurrentDishEventPredictionRow[]).map(fromCurrentDishEventPredictionRow);
+}
+
+// Get a page of the dish events a backfill to the given model and prompt version would predict
+// again: new dishes of users with AI predictions on, whose current prediction is from another
+// version. Ordered by (created_at, dish_event_id) and starting after the cursor, if any, so
+// dish events saved or logged meanwhile don't shift the pages.
+// RLS limits them to the user's own events; pass a service role client to read every user's.
+export async function getPredictionBackfillCandidates(
+  target: { modelVersion: string; promptVersion: string },
+  selection: { userIds?: string[]; dishIds?: string[]; unconfirmedOnly?: boolean },
+  limit: number,
+  after: PredictionBackfillCursor | null = null,
+  client: SupabaseClient = supabase
+): Promise<PredictionBackfillCandidate[]> {
+  let query = client
+    .from('current_dish_event_predictions')
+    .select('*')
+    .eq('is_new_dish', true)
+    .eq('ai_predictions_enabled', true)
+    .or(`model_version.neq."${target.modelVersion}",prompt_version.neq."${target.promptVersion}"`);
+  if (selection.userIds) {
+    query = query.in('user_id', selection.userIds);
+  }
+  if (selection.dishIds) {
+    query = query.in('dish_id', selection.dishIds);
+  }
+  if (selection.unconfirmedOnly) {
+    query = query.eq('confirmed_by_user', false);
+  }
+  if (after) {
+    query = query.or(
+      `created_at.gt."${after.createdAt}",and(created_at.eq."${after.createdAt}",dish_event_id.gt.${after.dishEventId})`
+    );
+  }
+
+  const { data, error } = await query
+    .order('created_at', { ascending: true })
+    .order('dish_event_id', { ascending: true })
+    .limit(limit);
+
+  if (error) {
+    handleError(error);
+  }
+
+  if (!data) {
+    return [];
+  }
+
+  return (data as CurrentDishEventPredictionRow[]).map((row) => ({
+    ...fromCurrentDishEventPredictionRow(row),
+    cursor: { createdAt: row.created_at, dishEventId: row.dish_event_id },
+  }));
+}
+
+// The signed-in user whose backfill progress to use, or null with the service role (no session)
+async function getRunBy(client: SupabaseClient): Promise<string | null> {
+  const { data } = await client.auth.getSession();
+  return data.session?.user.id ?? null;
+}
+
+// Get where the last backfill to the given version and selection stopped, or null if none did
+// (each run's progress is its runner's: the user's, or the service role's)
+export async function getPredictionBackfillProgress(
+  target: { modelVersion: string; promptVersion: string },
+  selectionKey: string,
+  client: SupabaseClient = supabase
+): Promise<PredictionBackfillCursor | null> {
+  let query = client
+    .from('prediction_backfill_progress')
+    .select('*')
+    .eq('model_version', target.modelVersion)
+    .eq('prompt_version', target.promptVersion)
+    .eq('selection_key', selectionKey);
+  const runBy = await getRunBy(client);
+  query = runBy ? query.eq('run_by', runBy) : query.is('run_by', null);
+  const { data, error } = await query.maybeSingle();
+
+  if (error) {
+    handleError(error);
+  }
+
+  if (!data) {
+    return null;
+  }
+
+  const row = data as PredictionBackfillProgressRow;
+  return { createdAt: row.last_created_at, dishEventId: row.last_dish_event_id };
+}
+
+// Save the last dish event a backfill to the given version and selection got past
+export async function savePredictionBackfillProgress(
+  target: { modelVersion: string; promptVersion: string },
+  selectionKey: string,
+  cursor: PredictionBackfillCursor,
+  client: SupabaseClient = supabase
+): Promise<void> {
+  const { error } = await client.from('prediction_backfill_progress').upsert(
+    {
+      run_by: await getRunBy(client),
+      model_version: target.modelVersion,
+      prompt_version: target.promptVersion,
+      selection_key: selectionKey,
+      last_created_at: cursor.createdAt,
+      last_dish_event_id: cursor.dishEventId,
+      updated_at: new Date().toISOString(),
+    },
+    { onConflict: 'run_by,model_version,prompt_version,selection_key' }
+  );
+
+  if (error) {
+    handleError(error);
+  }
+}
+
+// Delete the progress of a backfill to the given version and selection, so the next one starts over
+export async function clearPredictionBackfillProgress(
+  target: { modelVersion: string; promptVersion: string },
+  selectionKey: string,
+  client: SupabaseClient = supabase
+): Promise<void> {
+  let query = client
+    .from('prediction_backfill_progress')
+    .delete()
+    .eq('model_version', target.modelVersion)
+    .eq('prompt_version', target.promptVersion)
+    .eq('selection_key', selectionKey);
+  const runBy = await getRunBy(client);
+  query = runBy ? query.eq('run_by', runBy) : query.is('run_by', null);
+  const { error } = await query;
+
+  if (error) {
+    handleError(error);
+  }
+}
+
+// Save a dish event's re-predicted triggers alongside its earlier ones, with the trigger names
+// it had before (one transaction). Confirmed triggers are left as they are.
+export async function saveBackfilledPrediction(
+  args: {
+    dishEventId: string;
+    modelVersion: string;
+    promptVersion: string;
+    previousTriggerNames: string[];
+    triggerNames: string[];
+  },
+  client: SupabaseClient = supabase
+): Promise<void> {
+  const { error } = await client.rpc('save_backfilled_prediction', {
+    p_dish_event_id: args.dishEventId,
+    p_model_version: args.modelVersion,
+    p_prompt_version: args.promptVersion,
+    p_previous_trigger_names: args.previousTriggerNames,
+    p_trigger_names: args.triggerNames,
+  });
+
+  if (error) {
+    handleError(error);
+  }
+}
+
+// Row of the backfill select below, with the dish event's dish
+interface BackfilledPredictionQueryRow extends PredictionBackfillDishEventRow {
+  dish_events:
+    | (Pick<DishEventRow, 'dish_id' | 'confirmed_by_user'> & { dish: Pick<DishRow, 'dish_name'> | null })
+    | null;
+}
+
+// Get every dish event a backfill re-predicted with the given model and prompt version, with the
+// trigger names before and after, oldest first
+export async function getBackfilledPredictions(
+  target: { modelVersion: string; promptVersion: string },
+  client: SupabaseClient = supabase
+): Promise<Array<Omit<PredictionBackfillChange, 'addedTriggerNames' | 'removedTriggerNames'>>> {
+  const { data, error } = await client
+    .from('prediction_backfill_dish_events')
+    .select(`
+      *,
+      dish_events:dish_event_id (
+        dish_id,
+        confirmed_by_user,
+        dish:dish_id (
+          dish_name
+        )
+      )
+    `)
+    .eq('model_version', target.modelVersion)
+    .eq('prompt_version', target.promptVersion)
+    .order('created_at', { ascending: true });
+
+  if (error) {
+    handleError(error);
+  }
+
+  if (!data) {
+    return [];
+  }
+
+  return (data as BackfilledPredictionQueryRow[]).map((row) => ({
+    dishEventId: row.dish_event_id,
+    userId: row.user_id,
+    dishId: row.dish_events?.dish_id ?? '',
+    dishName: row.dish_events?.dish?.dish_name ?? 'Unknown',
+    confirmed: row.dish_events?.confirmed_by_user ?? false,
+    modelVersion: row.model_version,
+    promptVersion: row.prompt_version,
+    previousTriggerNames: row.previous_trigger_names ?? [],
+    predictedTriggerNames: row.predicted_trigger_names ?? [],
+  }));
+}
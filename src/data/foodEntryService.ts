@@ -3,39 +3,66 @@ import {
   ConfirmFoodEntryResponse,
   CreateFoodEntryRequest,
   CreateFoodEntryResponse,
+  DishIngredient,
   DishWithTriggers,
 } from '@/types/foodEntry';
+import { DishMatch, IngredientWithTriggers, PendingRawFoodEntry } from '@/types/dish';
 import {
-  findOrCreateDishForUser,
-  getMostRecentDishTriggers,
-  normalizeDishName,
-  upsertDishTriggersForEvent,
-} from '@/data/dishHelpers';
-import { llmExtractDishes, llmPredictTriggers } from '@/data/llmService';
+  ConfirmFoodEntryDishParams,
+  CreateFoodEntryDishParams,
+  CreateFoodEntryIngredientParams,
+} from '@/types/supabase';
+import { normalizeDishName } from '@/data/dishHelpers';
+import { normalizeIngredientName } from '@/data/ingredient';
+import { PortionSize } from '@/data/portion';
+import { MealType, inferMealType } from '@/data/mealType';
+import { findSimilarDishes } from '@/data/dishMatching';
+import { getDishTriggerProfiles } from '@/data/dishService';
 import {
-  createDishEvent,
-  createPredictedDishTrigger,
-  createRawFoodEntry,
-  createPredictedDish,
+  createPredictionTrace,
+  getTraceModelVersion,
+  llmDecomposeDish,
+  llmExtractDishes,
+  llmPredictTriggers,
+  PredictionTrace,
+} from '@/data/llmService';
+import { RULES_MODEL_VERSION, ruleExtractDishes, rulePredictTriggers } from '@/data/rulePredictor';
+import { getAiPredictionsEnabled } from '@/data/profileRepo';
+import {
+  confirmFoodEntryTransaction,
+  createFoodEntryTransaction,
+  findDishesByAliasNames,
+  findDishesByNormalizedNames,
+  findIngredientsByNormalizedNames,
   getConfirmedTriggersByDishEventIds,
+  getCurrentPredictionsByDishEventIds,
+  getCustomTriggers,
+  getDishesByIds,
   getDishEventsByRawFoodEntryId,
+  getIngredientsByDishEventIds,
+  getMostRecentIngredientsByDishIds,
+  getPendingRawFoodEntries,
   getPredictedTriggersByDishEventIds,
-  getTriggerById,
-  getTriggersByNames,
-  updateDish,
-  updateDishEventConfirmation,
-  updateDishEventOccurredAt,
+  getRawFoodEntryById,
+  getTriggersByIds,
+  quickLogDishTransaction,
+  updateDishEventDeletedAt,
 } from '@/data/foodEntryRepo';
 import { supabase } from '@/lib/supabase';
 import { getAuthenticatedUserId } from '@/data/utils';
 import { logger } from '@/utils/logger';
-import { MODEL_VERSION, PROMPT_VERSION } from '@/lib/llmPrompts';
+import { hasDecomposeDishPrompt } from '@/lib/llmPrompts';
+import { getPromptAssignment } from '@/lib/promptExperiments';
 
 const FILENAME = 'foodEntryService.ts';
 
 /**
- * Creates a new food entry from raw text, extracts dishes, matches them to existing dishes,
- * and predicts triggers.
+ * Creates a new food entry from raw text, extracts dishes, matches them to existing dishes
+ * (by name, alias, or name similarity), breaks new dishes into ingredients, predicts triggers,
+ * and infers the meal type. Users who turned AI suggestions off get the rule-based predictor
+ * instead of the LLM, and no name similarity matching (it calls the embeddings API).
+ * LLM calls and lookups happen first; all rows are then written in a single database
+ * transaction, so a failure never leaves a half-written entry behind.
  * @param occurredAtTimestamp - The timestamp in milliseconds when the meal was actually eaten.
  * @returns The created food entry response.
  */
@@ -47,162 +74,256 @@ export async function createFoodEntry(
   const userId = await getAuthenticatedUserId();
   logger.info(FILENAME, 'createFoodEntry', 'Authenticated user ID', { userId });
 
-  // Step 1: Insert raw_entry
-  const rawEntry = await createRawFoodEntry(userId, request.raw_entry_text);
-  logger.info(FILENAME, 'createFoodEntry', 'Raw food entry created', { rawEntryId: rawEntry.id });
-
-  // Step 2: Extract dishes using LLM stub
-  const extractedDishes = await llmExtractDishes(request.raw_entry_text);
+  // Step 1: Extract dishes (with any amount the entry mentions) using LLM, or rules for users
+  // who opted out. The user's prompt variant picks the prompt version and model, and the trace
+  // records which model made the predictions.
+  const aiPredictionsEnabled = await getAiPredictionsEnabled(userId);
+  const assignment = getPromptAssignment(userId);
+  const trace = createPredictionTrace(assignment.model);
+  const extractedDishes = aiPredictionsEnabled
+    ? await llmExtractDishes(request.raw_entry_text, assignment.promptVersion, trace)
+    : ruleExtractDishes(request.raw_entry_text);
   logger.info(FILENAME, 'createFoodEntry', 'Dishes extracted', { dishCount: extractedDishes.length });
 
-  const dishEvents: Array<{
-    dishEvent: { id: string; dishId: string };
-    dishName: string;
-    isNewDish: boolean;
-  }> = [];
-
-  // Step 3: Process each extracted dish
-  for (const extracted of extractedDishes) {
-    logger.info(FILENAME, 'createFoodEntry', 'Processing dish', { 
-      dishNameSuggestion: extracted.dish_name_suggestion,
-      fragmentText: extracted.dish_fragment_text.substring(0, 50) + '...'
-    });
-    // Insert predicted_dish
-    const predictedDish = await createPredictedDish({
-      rawEntryId: rawEntry.id,
-      dishFragmentText: extracted.dish_fragment_text,
-      dishNameSuggestion: extracted.dish_name_suggestion,
-      modelVersion: MODEL_VERSION,
-      promptVersion: PROMPT_VERSION,
-    });
-
-    // Find or create dish
-    const beforeCreate = await findOrCreateDishForUser({
-      userId,
-      dishNameSuggestion: extracted.dish_name_suggestion,
-    });
-    logger.info(FILENAME, 'createFoodEntry', 'Dish found/created', { dishId: beforeCreate.id, dishName: beforeCreate.dishName });
-    
-    // Check if dish existed before (by checking if it has any confirmed triggers)
-    const existingTriggers = await getMostRecentDishTriggers(beforeCreate.id);
-    const isNewDish = existingTriggers.length === 0;
-    if (isNewDish) {
-      logger.info(FILENAME, 'createFoodEntry', 'New dish created', { dishId: beforeCreate.id, dishName: beforeCreate.dishName });
-    } else {
-      logger.info(FILENAME, 'createFoodEntry', 'Existing dish found', { dishId: beforeCreate.id, dishName: beforeCreate.dishName });
+  // Step 2: Look up existing dishes and their most recent confirmed triggers in bulk
+  // (a fixed number of queries regardless of how many dishes the meal has)
+  const normalizedNames = extractedDishes.map((extracted) =>
+    normalizeDishName(extracted.dish_name_suggestion),
+  );
+  const uniqueNormalizedNames = Array.from(new Set(normalizedNames));
+  const [dishesByName, dishesByAlias] = await Promise.all([
+    findDishesByNormalizedNames(userId, uniqueNormalizedNames),
+    findDishesByAliasNames(userId, uniqueNormalizedNames),
+  ]);
+  // Aliases of merged dishes resolve to the dish they were merged into (same as the RPC)
+  const dishByNormalizedName = new Map(
+    dishesByName.map((dish) => [dish.normalizedDishName, dish]),
+  );
+  dishesByAlias.forEach((dish, aliasName) => dishByNormalizedName.set(aliasName, dish));
+
+  // Names with no exact match may still be a variant of an existing dish ("spag bol"). Matching
+  // sends the names to the embeddings API, so users who turned AI suggestions off only get exact
+  // and alias matches.
+  const unmatchedSuggestions = Array.from(
+    new Set(
+      extractedDishes
+        .filter((_, index) => !dishByNormalizedName.has(normalizedNames[index]))
+        .map((extracted) => extracted.dish_name_suggestion),
+    ),
+  );
+  const similarDishes = aiPredictionsEnabled
+    ? await findSimilarDishes(unmatchedSuggestions)
+    : new Map<string, DishMatch>();
+  const similarMatchByNormalizedName = new Map<string, DishMatch>();
+  similarDishes.forEach((match, dishNameSuggestion) => {
+    const normalizedName = normalizeDishName(dishNameSuggestion);
+    if (!dishByNormalizedName.has(normalizedName)) {
+      dishByNormalizedName.set(normalizedName, match.dish);
+      similarMatchByNormalizedName.set(normalizedName, match);
     }
-    
-    const dish = beforeCreate;
-
-    // Insert dish_events
-    const dishEvent = await createDishEvent({
-      userId,
-      dishId: dish.id,
-      predictedDishId: predictedDish.id,
-      rawEntryId: rawEntry.id,
-      confirmedByUser: false,
-      deletedAt: null,
-      occurredAt: occurredAtTimestamp,
-    });
-    logger.info(FILENAME, 'createFoodEntry', 'Dish event created', { dishEventId: dishEvent.id, dishId: dish.id });
-
-    dishEvents.push({
-      dishEvent: { id: dishEvent.id, dishId: dish.id },
-      dishName: dish.dishName,
-      isNewDish,
-    });
-  }
-  logger.info(FILENAME, 'createFoodEntry', 'All dishes processed', { dishEventCount: dishEvents.length });
-
-  // Step 4: Predict triggers for each dish_event
-  const allTriggerNames = new Set<string>();
+  });
 
-  for (const { dishEvent, dishName, isNewDish } of dishEvents) {
-    logger.info(FILENAME, 'createFoodEntry', 'Predicting triggers for dish event', { 
-      dishEventId: dishEvent.id, 
-      dishName, 
-      isNewDish 
-    });
-    let triggerNames: string[];
-
-    if (isNewDish) {
-      // For new dishes, use LLM stub to predict triggers
-      logger.info(FILENAME, 'createFoodEntry', 'Using LLM to predict triggers for new dish', { dishName });
-      const predictedDish = extractedDishes.find(
-        (ed) => ed.dish_name_suggestion === dishName,
-      );
-      const fragmentText = predictedDish?.dish_fragment_text || dishName;
-      triggerNames = await llmPredictTriggers(dishName, fragmentText);
-      logger.info(FILENAME, 'createFoodEntry', 'LLM predicted triggers', { dishName, triggerCount: triggerNames.length, triggers: triggerNames });
-    } else {
-      // For existing dishes, copy from most recent confirmed triggers
-      logger.info(FILENAME, 'createFoodEntry', 'Copying triggers from most recent dish event', { dishId: dishEvent.dishId });
-      const recentTriggers = await getMostRecentDishTriggers(dishEvent.dishId);
-      triggerNames = recentTriggers.map((t) => t.triggerName);
-      logger.info(FILENAME, 'createFoodEntry', 'Copied triggers from existing dish', { dishId: dishEvent.dishId, triggerCount: triggerNames.length, triggers: triggerNames });
-    }
+  const existingDishes = Array.from(
+    new Map(Array.from(dishByNormalizedName.values()).map((dish) => [dish.id, dish])).values(),
+  );
+  // Default triggers from the dish library, otherwise the most recent confirmed triggers;
+  // ingredients come from the most recent confirmed dish event that has any. The user's custom
+  // triggers are offered to the LLM for new dishes.
+  const existingDishIds = existingDishes.map((dish) => dish.id);
+  const [triggerProfiles, ingredientsByDishId, customTriggers] = await Promise.all([
+    getDishTriggerProfiles(existingDishIds),
+    getMostRecentIngredientsByDishIds(existingDishIds),
+    getCustomTriggers(userId),
+  ]);
+  const customTriggerNames = customTriggers.map((trigger) => trigger.triggerName);
+  logger.info(FILENAME, 'createFoodEntry', 'Existing dishes loaded', {
+    existingDishCount: existingDishes.length,
+    similarMatchCount: similarMatchByNormalizedName.size,
+    dishesWithTriggersCount: Array.from(triggerProfiles.values()).filter(
+      (profile) => profile.triggers.length > 0,
+    ).length,
+  });
 
-    // Store trigger names for later lookup
-    triggerNames.forEach((name) => allTriggerNames.add(name));
-
-    // Get trigger IDs
-    const triggers = await getTriggersByNames(Array.from(triggerNames));
-    logger.info(FILENAME, 'createFoodEntry', 'Retrieved trigger IDs', { triggerCount: triggers.length });
-
-    // Insert predicted_dish_triggers
-    for (const trigger of triggers) {
-      await createPredictedDishTrigger({
-        dishId: dishEvent.dishId,
-        dishEventId: dishEvent.id,
-        triggerId: trigger.id,
-        modelVersion: MODEL_VERSION,
-        promptVersion: PROMPT_VERSION,
-      });
-    }
-    logger.info(FILENAME, 'createFoodEntry', 'Predicted dish triggers created', { 
-      dishEventId: dishEvent.id, 
-      triggerCount: triggers.length 
-    });
-  }
-  logger.info(FILENAME, 'createFoodEntry', 'All triggers predicted', { uniqueTriggerCount: allTriggerNames.size });
+  // Step 3: Break new dishes into ingredients and predict triggers (read-only; nothing is
+  // written yet). LLM calls are independent of each other, so they run concurrently.
+  const predictions = await Promise.all(
+    extractedDishes.map(async (extracted, index) => {
+      const existingDish = dishByNormalizedName.get(normalizedNames[index]);
+      const existingTriggers = existingDish
+        ? triggerProfiles.get(existingDish.id)?.triggers ?? []
+        : [];
+      const dishName = existingDish?.dishName ?? extracted.dish_name_suggestion;
+
+      if (existingTriggers.length > 0) {
+        // For existing dishes, copy the dish's trigger profile and last ingredients
+        const triggerNames = existingTriggers.map((t) => t.triggerName);
+        const ingredients: CreateFoodEntryIngredientParams[] = (
+          ingredientsByDishId.get(existingDish!.id) ?? []
+        ).map((ingredient) => ({
+          ingredient_name: ingredient.ingredientName,
+          normalized_ingredient_name: ingredient.normalizedIngredientName,
+          trigger_names: ingredient.triggers.map((t) => t.triggerName),
+        }));
+        logger.info(FILENAME, 'createFoodEntry', 'Copied triggers from existing dish', { dishId: existingDish?.id, triggerCount: triggerNames.length, triggers: triggerNames, ingredientCount: ingredients.length });
+        return { triggerNames, ingredients };
+      }
 
-  // Step 5: Build response
-  const dishEventIds = dishEvents.map((de) => de.dishEvent.id);
-  const predictedTriggers = await getPredictedTriggersByDishEventIds(dishEventIds);
-  const allTriggers = await getTriggersByNames(Array.from(allTriggerNames));
+      // For new dishes (or dishes never confirmed with triggers), use LLM to find the ingredients
+      const fragmentText = extracted.dish_fragment_text || dishName;
+      if (!aiPredictionsEnabled) {
+        const triggerNames = rulePredictTriggers(dishName, fragmentText, customTriggerNames);
+        logger.info(FILENAME, 'createFoodEntry', 'Rules predicted triggers', { dishName, triggerCount: triggerNames.length, triggers: triggerNames });
+        return { triggerNames, ingredients: [] };
+      }
+      return llmPredictNewDish(dishName, fragmentText, customTriggerNames, assignment.promptVersion, trace);
+    }),
+  );
 
-  const triggerMap = new Map(allTriggers.map((t) => [t.id, t.triggerName]));
+  // Ingredients the user already has keep their stored triggers (the RPC only maps new ones),
+  // so a decomposed dish's triggers are the union of its ingredients' triggers
+  const knownIngredients = await findIngredientsByNormalizedNames(
+    userId,
+    Array.from(
+      new Set(
+        predictions
+          .filter((prediction) => prediction.triggerNames === null)
+          .flatMap((prediction) => prediction.ingredients.map((i) => i.normalized_ingredient_name)),
+      ),
+    ),
+  );
+  const knownTriggerNamesByIngredient = new Map(
+    knownIngredients.map((ingredient) => [
+      ingredient.normalizedIngredientName,
+      ingredient.triggers.map((t) => t.triggerName),
+    ]),
+  );
 
-  const dishes: DishWithTriggers[] = dishEvents.map(({ dishEvent, dishName }) => {
-    const eventPredictedTriggers = predictedTriggers.filter(
-      (pt) => pt.dishEventId === dishEvent.id,
-    );
+  const dishesToCreate: CreateFoodEntryDishParams[] = extractedDishes.map((extracted, index) => {
+    const normalizedName = normalizedNames[index];
+    const prediction = predictions[index];
+    const triggerNames =
+      prediction.triggerNames ??
+      getDecomposedDishTriggerNames(prediction.ingredients, knownTriggerNamesByIngredient);
 
     return {
-      dish_event_id: dishEvent.id,
-      dish_id: dishEvent.dishId,
-      dish_name: dishName,
-      predicted_triggers: eventPredictedTriggers.map((pt) => ({
-        trigger_id: pt.triggerId,
-        trigger_name: triggerMap.get(pt.triggerId) || 'unknown',
-      })),
+      dish_fragment_text: extracted.dish_fragment_text,
+      dish_name_suggestion: extracted.dish_name_suggestion,
+      // A similarity match is written against the matched dish's name so the RPC reuses that dish
+      normalized_dish_name:
+        similarMatchByNormalizedName.get(normalizedName)?.dish.normalizedDishName ?? normalizedName,
+      quantity: extracted.quantity ?? null,
+      unit: extracted.unit ?? null,
+      portion_size: extracted.portion_size ?? null,
+      trigger_names: triggerNames,
+      ingredients: prediction.ingredients,
     };
   });
+  logger.info(FILENAME, 'createFoodEntry', 'All dishes processed', { dishCount: dishesToCreate.length });
+
+  // Step 4: Infer the meal type from the entry text, the dishes and the time it was eaten
+  const mealType = inferMealType({
+    rawEntryText: request.raw_entry_text,
+    dishNames: dishesToCreate.map((dish) => dish.dish_name_suggestion),
+    occurredAt: occurredAtTimestamp,
+  });
+
+  // Step 5: Write raw entry, predicted dishes, dishes, dish events and predicted triggers atomically
+  const response = await createFoodEntryTransaction({
+    rawEntryText: request.raw_entry_text,
+    occurredAt: occurredAtTimestamp,
+    modelVersion: aiPredictionsEnabled ? getTraceModelVersion(trace) : RULES_MODEL_VERSION,
+    promptVersion: assignment.promptVersion,
+    // Users who opted out see rule-based suggestions whatever their variant
+    promptVariant: aiPredictionsEnabled ? assignment.promptVariant : null,
+    mealType,
+    dishes: dishesToCreate,
+  });
+
+  // Let the confirmation screen ask "Did you mean X?" for dishes matched by similarity
+  response.dishes.forEach((dish, index) => {
+    if (index < extractedDishes.length && similarMatchByNormalizedName.has(normalizedNames[index])) {
+      dish.matched_dish_name_suggestion = extractedDishes[index].dish_name_suggestion;
+    }
+  });
+
+  // Let it also tell the user when a failed LLM call left the suggestions incomplete
+  response.prediction_degraded = trace.degraded;
 
   logger.info(FILENAME, 'createFoodEntry', 'Food entry creation completed', { 
-    entryId: rawEntry.id, 
-    dishCount: dishes.length,
-    totalPredictedTriggers: predictedTriggers.length
+    entryId: response.entry_id, 
+    mealType: response.meal_type,
+    dishCount: response.dishes.length,
+    predictionDegraded: response.prediction_degraded,
+    totalPredictedTriggers: response.dishes.reduce(
+      (count, dish) => count + (dish.predicted_triggers?.length ?? 0),
+      0,
+    ),
   });
 
-  return {
-    entry_id: rawEntry.id,
-    dishes,
-  };
+  return response;
+}
+
+export interface NewDishPrediction {
+  // Null when the dish was broken into ingredients; see getDecomposedDishTriggerNames
+  triggerNames: string[] | null;
+  ingredients: CreateFoodEntryIngredientParams[];
+}
+
+/**
+ * Predicts the triggers of a new dish with the LLM, as createFoodEntry does: prompt versions with
+ * a decompose prompt (v3 on) break the dish into ingredients, and its triggers are predicted as a
+ * whole when it has none, or with older prompt versions.
+ */
+export async function llmPredictNewDish(
+  dishName: string,
+  fragmentText: string,
+  customTriggerNames: string[],
+  promptVersion: string,
+  trace: PredictionTrace,
+): Promise<NewDishPrediction> {
+  logger.info(FILENAME, 'llmPredictNewDish', 'Using LLM to decompose new dish', { dishName });
+  const decomposed = hasDecomposeDishPrompt(promptVersion)
+    ? await llmDecomposeDish(dishName, fragmentText, customTriggerNames, promptVersion, trace)
+    : [];
+  const ingredients = decomposed.map((ingredient) => ({
+    ingredient_name: ingredient.ingredient_name,
+    normalized_ingredient_name: normalizeIngredientName(ingredient.ingredient_name),
+    trigger_names: ingredient.trigger_names,
+  }));
+  if (ingredients.length > 0) {
+    return { triggerNames: null, ingredients };
+  }
+
+  // Without ingredients, predict triggers for the dish as a whole
+  const triggerNames = await llmPredictTriggers(dishName, fragmentText, customTriggerNames, promptVersion, trace);
+  logger.info(FILENAME, 'llmPredictNewDish', 'LLM predicted triggers', { dishName, triggerCount: triggerNames.length, triggers: triggerNames });
+  return { triggerNames, ingredients };
+}
+
+/**
+ * A decomposed dish's triggers: the union of its ingredients' triggers, where ingredients the
+ * user already has keep their stored triggers (keyed by normalized ingredient name).
+ */
+export function getDecomposedDishTriggerNames(
+  ingredients: CreateFoodEntryIngredientParams[],
+  knownTriggerNamesByIngredient: Map<string, string[]>,
+): string[] {
+  return Array.from(
+    new Set(
+      ingredients.flatMap(
+        (ingredient) =>
+          knownTriggerNamesByIngredient.get(ingredient.normalized_ingredient_name) ??
+          ingredient.trigger_names,
+      ),
+    ),
+  );
 }
 
 /**
- * Confirms a food entry by updating dish names and setting confirmed triggers.
+ * Confirms a food entry by updating dish names and setting confirmed triggers and portions.
+ * Name updates, confirmed triggers and portions, removed ingredients, added and removed dishes,
+ * occurred_at, the meal type and the confirmation flag are written in a single database
+ * transaction.
  */
 export async function confirmFoodEntry(
   rawEntryId: string,
@@ -214,197 +335,91 @@ export async function confirmFoodEntry(
   });
   await getAuthenticatedUserId(); // Verify auth
 
-  // Step 1: Process each confirmed dish
-  for (const confirmed of request.confirmed_dishes) {
-    logger.info(FILENAME, 'confirmFoodEntry', 'Processing confirmed dish', {
-      dishEventId: confirmed.dish_event_id,
-      dishId: confirmed.dish_id,
-      finalDishName: confirmed.final_dish_name,
-      triggerCount: confirmed.trigger_ids.length
+  // Normalization stays in one place (normalizeDishName); the database only compares results
+  const confirmedDishes: ConfirmFoodEntryDishParams[] = request.confirmed_dishes.map((confirmed) => ({
+    dish_event_id: confirmed.dish_event_id,
+    dish_id: confirmed.dish_id,
+    final_dish_name: confirmed.final_dish_name,
+    normalized_dish_name: normalizeDishName(confirmed.final_dish_name),
+    quantity: confirmed.quantity ?? null,
+    unit: confirmed.unit ?? null,
+    portion_size: confirmed.portion_size ?? null,
+    trigger_ids: confirmed.trigger_ids,
+    ingredient_ids: confirmed.ingredient_ids ?? null,
+  }));
+
+  let response: ConfirmFoodEntryResponse;
+  try {
+    response = await confirmFoodEntryTransaction({
+      rawEntryId,
+      occurredAt: request.occurred_at,
+      mealType: request.meal_type ?? null,
+      confirmedDishes,
+      deletedDishEventIds: request.deleted_dish_event_ids ?? [],
     });
-    // Update dish name if changed
-    const dishEvent = (await getDishEventsByRawFoodEntryId(rawEntryId)).find(
-      (de) => de.id === confirmed.dish_event_id,
-    );
-
-    if (!dishEvent) {
-      logger.error(FILENAME, 'confirmFoodEntry', 'Dish event not found', new Error(`Dish event not found: ${confirmed.dish_event_id}`));
-      throw new Error(`Dish event not found: ${confirmed.dish_event_id}`);
-    }
-
-    // Get the dish by ID to verify it exists and check if name needs updating
-    // We use the dish_id from the confirmed dish, not findOrCreateDishForUser,
-    // because we want to UPDATE the existing dish, not create a new one
-    const { data: dishRow, error: dishError } = await supabase
-      .from('dish')
-      .select('*')
-      .eq('id', confirmed.dish_id)
-      .single();
-
-    if (dishError) {
-      logger.error(FILENAME, 'confirmFoodEntry', 'Dish not found', dishError);
-      throw new Error(`Dish not found: ${dishError.message}`);
-    }
-
-    if (!dishRow) {
-      logger.error(FILENAME, 'confirmFoodEntry', 'Dish not found', new Error(`Dish not found: ${confirmed.dish_id}`));
-      throw new Error(`Dish not found: ${confirmed.dish_id}`);
-    }
-
-    // Verify the dish belongs to the correct user
-    if (dishRow.user_id !== dishEvent.userId) {
-      logger.error(FILENAME, 'confirmFoodEntry', 'Dish ownership mismatch', new Error('Dish does not belong to the user'));
-      throw new Error('Dish does not belong to the user');
-    }
-
-    const normalizedName = normalizeDishName(confirmed.final_dish_name);
-    const currentDish = {
-      id: dishRow.id,
-      dishName: dishRow.dish_name,
-      normalizedDishName: dishRow.normalized_dish_name,
-    };
-
-    // Update dish name if it changed
-    if (
-      currentDish.dishName !== confirmed.final_dish_name ||
-      currentDish.normalizedDishName !== normalizedName
-    ) {
-      logger.info(FILENAME, 'confirmFoodEntry', 'Dish name changed, updating', {
-        dishId: confirmed.dish_id,
-        oldName: currentDish.dishName,
-        newName: confirmed.final_dish_name
-      });
-      // Check if another dish with the new normalized name already exists
-      const { data: existingDishWithNewName, error: checkError } = await supabase
-        .from('dish')
-        .select('id')
-        .eq('user_id', dishEvent.userId)
-        .eq('normalized_dish_name', normalizedName)
-        .single();
-
-      if (checkError && checkError.code !== 'PGRST116') {
-        // PGRST116 is "not found" - that's what we want
-        logger.error(FILENAME, 'confirmFoodEntry', 'Failed to check for existing dish', checkError);
-        throw new Error(`Failed to check for existing dish: ${checkError.message}`);
-      }
-
-      // If a dish with the new normalized name exists and it's not the current dish, we have a conflict
-      if (existingDishWithNewName && existingDishWithNewName.id !== confirmed.dish_id) {
-        logger.warn(FILENAME, 'confirmFoodEntry', 'Dish name conflict detected', {
-          dishId: confirmed.dish_id,
-          conflictingDishId: existingDishWithNewName.id,
-          normalizedName
-        });
-        throw new Error(
-          `Cannot update dish name: a dish with normalized name "${normalizedName}" already exists`,
-        );
-      }
-
-      // Safe to update - either no dish exists with that name, or it's the same dish
-      await updateDish(confirmed.dish_id, {
-        dishName: confirmed.final_dish_name,
-        normalizedDishName: normalizedName,
-      });
-      logger.info(FILENAME, 'confirmFoodEntry', 'Dish name updated successfully', { dishId: confirmed.dish_id });
-    }
-
-    // Upsert dish triggers
-    logger.info(FILENAME, 'confirmFoodEntry', 'Upserting dish triggers', {
-      dishEventId: confirmed.dish_event_id,
-      triggerCount: confirmed.trigger_ids.length
-    });
-    await upsertDishTriggersForEvent(confirmed.dish_event_id, confirmed.trigger_ids);
-    logger.info(FILENAME, 'confirmFoodEntry', 'Dish triggers upserted successfully', { dishEventId: confirmed.dish_event_id });
+  } catch (error) {
+    logger.error(FILENAME, 'confirmFoodEntry', 'Failed to confirm food entry', error);
+    throw error;
   }
-  logger.info(FILENAME, 'confirmFoodEntry', 'All confirmed dishes processed');
 
-  // Step 2: Update occurred_at timestamps only if they changed
-  const dishEvents = await getDishEventsByRawFoodEntryId(rawEntryId);
-  const dishEventIds = dishEvents.map((de) => de.id);
-  
-  // Check if the requested occurred_at differs from existing timestamps
-  // All dish events for the same raw entry should have the same occurred_at
-  const existingOccurredAt = dishEvents.length > 0 ? dishEvents[0].occurredAt : null;
-  const requestedOccurredAt = request.occurred_at;
-  
-  // Only update if the timestamp actually changed
-  if (existingOccurredAt !== requestedOccurredAt) {
-    logger.info(FILENAME, 'confirmFoodEntry', 'Updating dish event occurred_at timestamps', { 
-      dishEventCount: dishEventIds.length,
-      oldOccurredAt: existingOccurredAt ? new Date(existingOccurredAt).toISOString() : 'null',
-      newOccurredAt: new Date(requestedOccurredAt).toISOString()
-    });
-    await updateDishEventOccurredAt(dishEventIds, new Date(requestedOccurredAt));
-    logger.info(FILENAME, 'confirmFoodEntry', 'Dish event occurred_at timestamps updated successfully');
-  } else {
-    logger.info(FILENAME, 'confirmFoodEntry', 'Skipping occurred_at update - timestamp unchanged', {
-      occurredAt: new Date(requestedOccurredAt).toISOString()
-    });
-  }
-  
-  // Step 3: Mark all dish events for this raw entry as confirmed
-  logger.info(FILENAME, 'confirmFoodEntry', 'Marking dish events as confirmed', { dishEventCount: dishEventIds.length });
-  await updateDishEventConfirmation(dishEventIds, true);
-  logger.info(FILENAME, 'confirmFoodEntry', 'Dish events marked as confirmed successfully');
-
-  // Step 4: Build response with final state
-  logger.info(FILENAME, 'confirmFoodEntry', 'Retrieved dish events', { dishEventCount: dishEvents.length });
-
-  const confirmedTriggers = await getConfirmedTriggersByDishEventIds(dishEventIds);
-  logger.info(FILENAME, 'confirmFoodEntry', 'Retrieved confirmed triggers', { triggerCount: confirmedTriggers.length });
-  
-  const triggerIds = new Set(confirmedTriggers.map((ct) => ct.triggerId));
-
-  // Get all unique trigger IDs and fetch their names
-  const uniqueTriggerIds = Array.from(triggerIds);
-  const triggers = await Promise.all(
-    uniqueTriggerIds.map((id) => getTriggerById(id)),
-  );
-
-  const validTriggers = triggers.filter((t): t is NonNullable<typeof t> => t !== null);
-  const triggerMap = new Map(validTriggers.map((t) => [t.id, t.triggerName]));
+  logger.info(FILENAME, 'confirmFoodEntry', 'Food entry confirmation completed', {
+    rawEntryId,
+    dishCount: response.dishes.length,
+    totalConfirmedTriggers: response.dishes.reduce(
+      (count, dish) => count + (dish.triggers?.length ?? 0),
+      0,
+    ),
+  });
 
-  const dishes: DishWithTriggers[] = dishEvents.map((dishEvent) => {
-    const eventTriggers = confirmedTriggers.filter(
-      (ct) => ct.dishEventId === dishEvent.id,
-    );
+  return response;
+}
 
-    // Get dish name
-    const confirmedDish = request.confirmed_dishes.find(
-      (cd) => cd.dish_event_id === dishEvent.id,
-    );
-    const dishName = confirmedDish?.final_dish_name || 'Unknown';
+/**
+ * Logs an existing dish again in one step, skipping dish extraction and trigger prediction.
+ * The entry is written already confirmed with the dish's trigger profile (its default triggers,
+ * otherwise its last confirmed triggers); the raw entry text is the dish name, and the meal type
+ * is inferred from it and the time.
+ * @param occurredAtTimestamp - The timestamp in milliseconds when the meal was actually eaten.
+ */
+export async function quickLogDish(
+  dishId: string,
+  occurredAtTimestamp: number,
+): Promise<ConfirmFoodEntryResponse> {
+  await getAuthenticatedUserId(); // Verify auth
 
-    return {
-      dish_event_id: dishEvent.id,
-      dish_id: dishEvent.dishId,
-      dish_name: dishName,
-      triggers: eventTriggers.map((ct) => ({
-        trigger_id: ct.triggerId,
-        trigger_name: triggerMap.get(ct.triggerId) || 'unknown',
-      })),
-    };
+  const [profiles, dishRows] = await Promise.all([
+    getDishTriggerProfiles([dishId]),
+    getDishesByIds([dishId]),
+  ]);
+  const triggerIds = profiles.get(dishId)?.triggers.map((trigger) => trigger.id) ?? [];
+  const dishNames = dishRows.map((dish) => dish.dishName);
+  const mealType = inferMealType({
+    rawEntryText: dishNames.join(', '),
+    dishNames,
+    occurredAt: occurredAtTimestamp,
   });
 
-  logger.info(FILENAME, 'confirmFoodEntry', 'Food entry confirmation completed', {
-    rawEntryId,
-    dishCount: dishes.length,
-    totalConfirmedTriggers: confirmedTriggers.length
+  logger.info(FILENAME, 'quickLogDish', 'Quick logging dish', {
+    dishId,
+    mealType,
+    triggerCount: triggerIds.length,
   });
 
-  return {
-    entry_id: rawEntryId,
-    dishes,
-  };
+  return quickLogDishTransaction({ dishId, occurredAt: occurredAtTimestamp, triggerIds, mealType });
 }
 
 /**
- * Fetches all dish events with dish names for the authenticated user.
+ * Fetches all dish events with dish names and meal types for the authenticated user.
  * Returns dish events using their occurred_at timestamp (when the meal was eaten).
  */
 export async function getFoodEntriesForUser(): Promise<Array<{
   dishEventId: string;
+  rawEntryId: string;
   dishName: string;
+  quantity: number | null;
+  unit: string | null;
+  portionSize: PortionSize | null;
+  mealType: MealType | null; // The meal type of the dish event's raw entry
   occurredAt: number; // timestamp
 }>> {
   const userId = await getAuthenticatedUserId();
@@ -415,10 +430,17 @@ export async function getFoodEntriesForUser(): Promise<Array<{
     .from('dish_events')
     .select(`
       id,
+      raw_entry_id,
       occurred_at,
+      quantity,
+      unit,
+      portion_size,
       dish:dish_id (
         id,
         dish_name
+      ),
+      raw_entry:raw_entry_id (
+        meal_type
       )
     `)
     .eq('user_id', userId)
@@ -446,7 +468,12 @@ export async function getFoodEntriesForUser(): Promise<Array<{
 
     return {
       dishEventId: row.id,
+      rawEntryId: row.raw_entry_id,
       dishName,
+      quantity: row.quantity ?? null,
+      unit: row.unit ?? null,
+      portionSize: row.portion_size ?? null,
+      mealType: row.raw_entry?.meal_type ?? null,
       occurredAt,
     };
   });
@@ -454,3 +481,192 @@ export async function getFoodEntriesForUser(): Promise<Array<{
   logger.info(FILENAME, 'getFoodEntriesForUser', 'Food entries fetched successfully', { entryCount: result.length });
   return result;
 }
+
+/**
+ * Fetches the authenticated user's raw food entries that were never confirmed
+ * (e.g. the app was killed or the user backed out of the confirmation screen).
+ */
+export async function getPendingFoodEntriesForUser(): Promise<PendingRawFoodEntry[]> {
+  const userId = await getAuthenticatedUserId();
+  logger.info(FILENAME, 'getPendingFoodEntriesForUser', 'Fetching pending food entries for user', { userId });
+
+  const pendingEntries = await getPendingRawFoodEntries(userId);
+
+  logger.info(FILENAME, 'getPendingFoodEntriesForUser', 'Pending food entries fetched successfully', {
+    entryCount: pendingEntries.length,
+  });
+  return pendingEntries;
+}
+
+/**
+ * Rebuilds the CreateFoodEntryResponse for an existing raw entry from the database
+ * (dishes + predicted triggers + ingredients), so the confirmation screen can be reopened for it.
+ */
+export async function getFoodEntryForConfirmation(
+  rawEntryId: string,
+): Promise<CreateFoodEntryResponse> {
+  logger.info(FILENAME, 'getFoodEntryForConfirmation', 'Rebuilding food entry response', { rawEntryId });
+  await getAuthenticatedUserId(); // Verify auth
+
+  // Returned most recent first; restore creation order to match createFoodEntry
+  const dishEvents = (await getDishEventsByRawFoodEntryId(rawEntryId))
+    .slice()
+    .sort((a, b) => a.createdAt - b.createdAt);
+
+  if (dishEvents.length === 0) {
+    logger.error(FILENAME, 'getFoodEntryForConfirmation', 'No dish events found', new Error(`No dish events found for entry: ${rawEntryId}`));
+    throw new Error(`No dish events found for entry: ${rawEntryId}`);
+  }
+
+  const dishEventIds = dishEvents.map((de) => de.id);
+  const dishIds = Array.from(new Set(dishEvents.map((de) => de.dishId)));
+
+  const [dishRows, allPredictedTriggers, currentPredictions, rawEntry, ingredientsByDishEventId] = await Promise.all([
+    getDishesByIds(dishIds),
+    getPredictedTriggersByDishEventIds(dishEventIds),
+    getCurrentPredictionsByDishEventIds(dishEventIds),
+    getRawFoodEntryById(rawEntryId),
+    getIngredientsByDishEventIds(dishEventIds),
+  ]);
+
+  // Dish events re-predicted by a backfill (see predictionBackfillService.ts) suggest only their
+  // latest prediction; the earlier ones are kept for evaluation
+  const backfilledVersions = new Map(
+    currentPredictions
+      .filter((prediction) => prediction.backfilled)
+      .map((prediction) => [prediction.dishEventId, prediction]),
+  );
+  const predictedTriggers = allPredictedTriggers.filter((pt) => {
+    const current = backfilledVersions.get(pt.dishEventId);
+    return !current || (pt.modelVersion === current.modelVersion && pt.promptVersion === current.promptVersion);
+  });
+
+  const triggerIds = Array.from(new Set(predictedTriggers.map((pt) => pt.triggerId)));
+  const triggers = triggerIds.length > 0 ? await getTriggersByIds(triggerIds) : [];
+
+  const dishNameMap = new Map(dishRows.map((d) => [d.id, d.dishName]));
+  const triggerMap = new Map(triggers.map((t) => [t.id, t.triggerName]));
+
+  const dishes: DishWithTriggers[] = dishEvents.map((dishEvent) => ({
+    dish_event_id: dishEvent.id,
+    dish_id: dishEvent.dishId,
+    dish_name: dishNameMap.get(dishEvent.dishId) || 'Unknown',
+    quantity: dishEvent.quantity,
+    unit: dishEvent.unit,
+    portion_size: dishEvent.portionSize,
+    predicted_triggers: predictedTriggers
+      .filter((pt) => pt.dishEventId === dishEvent.id)
+      .map((pt) => ({
+        trigger_id: pt.triggerId,
+        trigger_name: triggerMap.get(pt.triggerId) || 'unknown',
+      })),
+    ingredients: toDishIngredients(ingredientsByDishEventId.get(dishEvent.id) ?? []),
+  }));
+
+  logger.info(FILENAME, 'getFoodEntryForConfirmation', 'Food entry response rebuilt', {
+    rawEntryId,
+    dishCount: dishes.length,
+    totalPredictedTriggers: predictedTriggers.length,
+  });
+
+  return {
+    entry_id: rawEntryId,
+    meal_type: rawEntry?.mealType ?? null,
+    dishes,
+  };
+}
+
+/**
+ * Rebuilds a confirmed food entry for editing: its current dishes with their confirmed triggers
+ * (not the predictions), in creation order. Saving the edit goes through confirmFoodEntry,
+ * which replaces confirmed triggers and leaves predicted rows untouched for accuracy tracking.
+ */
+export async function getFoodEntryForEditing(
+  rawEntryId: string,
+): Promise<ConfirmFoodEntryResponse> {
+  logger.info(FILENAME, 'getFoodEntryForEditing', 'Loading confirmed food entry', { rawEntryId });
+  await getAuthenticatedUserId(); // Verify auth
+
+  // Returned most recent first; restore creation order to match createFoodEntry
+  const dishEvents = (await getDishEventsByRawFoodEntryId(rawEntryId))
+    .slice()
+    .sort((a, b) => a.createdAt - b.createdAt);
+
+  if (dishEvents.length === 0) {
+    logger.error(FILENAME, 'getFoodEntryForEditing', 'No dish events found', new Error(`No dish events found for entry: ${rawEntryId}`));
+    throw new Error(`No dish events found for entry: ${rawEntryId}`);
+  }
+
+  const dishEventIds = dishEvents.map((de) => de.id);
+  const dishIds = Array.from(new Set(dishEvents.map((de) => de.dishId)));
+
+  const [dishRows, confirmedTriggers, rawEntry, ingredientsByDishEventId] = await Promise.all([
+    getDishesByIds(dishIds),
+    getConfirmedTriggersByDishEventIds(dishEventIds),
+    getRawFoodEntryById(rawEntryId),
+    getIngredientsByDishEventIds(dishEventIds),
+  ]);
+
+  const triggerIds = Array.from(new Set(confirmedTriggers.map((ct) => ct.triggerId)));
+  const triggers = triggerIds.length > 0 ? await getTriggersByIds(triggerIds) : [];
+
+  const dishNameMap = new Map(dishRows.map((d) => [d.id, d.dishName]));
+  const triggerMap = new Map(triggers.map((t) => [t.id, t.triggerName]));
+
+  const dishes: DishWithTriggers[] = dishEvents.map((dishEvent) => ({
+    dish_event_id: dishEvent.id,
+    dish_id: dishEvent.dishId,
+    dish_name: dishNameMap.get(dishEvent.dishId) || 'Unknown',
+    quantity: dishEvent.quantity,
+    unit: dishEvent.unit,
+    portion_size: dishEvent.portionSize,
+    triggers: confirmedTriggers
+      .filter((ct) => ct.dishEventId === dishEvent.id)
+      .map((ct) => ({
+        trigger_id: ct.triggerId,
+        trigger_name: triggerMap.get(ct.triggerId) || 'unknown',
+      })),
+    ingredients: toDishIngredients(ingredientsByDishEventId.get(dishEvent.id) ?? []),
+  }));
+
+  logger.info(FILENAME, 'getFoodEntryForEditing', 'Confirmed food entry loaded', {
+    rawEntryId,
+    dishCount: dishes.length,
+    totalConfirmedTriggers: confirmedTriggers.length,
+  });
+
+  return {
+    entry_id: rawEntryId,
+    meal_type: rawEntry?.mealType ?? null,
+    dishes,
+  };
+}
+
+// Ingredients in the shape the food entry RPCs return them
+function toDishIngredients(ingredients: IngredientWithTriggers[]): DishIngredient[] {
+  return ingredients.map((ingredient) => ({
+    ingredient_id: ingredient.id,
+    ingredient_name: ingredient.ingredientName,
+    triggers: ingredient.triggers.map((trigger) => ({
+      trigger_id: trigger.id,
+      trigger_name: trigger.triggerName,
+    })),
+  }));
+}
+
+/**
+ * Discards a pending food entry by soft-deleting all of its remaining dish events.
+ */
+export async function discardPendingFoodEntry(rawEntryId: string): Promise<void> {
+  logger.info(FILENAME, 'discardPendingFoodEntry', 'Discarding pending food entry', { rawEntryId });
+  await getAuthenticatedUserId(); // Verify auth
+
+  const dishEvents = await getDishEventsByRawFoodEntryId(rawEntryId);
+  const deletedAt = new Date();
+  await Promise.all(dishEvents.map((de) => updateDishEventDeletedAt(de.id, deletedAt)));
+
+  logger.info(FILENAME, 'discardPendingFoodEntry', 'Pending food entry discarded', {
+    rawEntryId,
+    dishEventCount: dishEvents.length,
+  });
+}
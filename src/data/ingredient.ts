@@ -0,0 +1,40 @@
+import { DishIngredient } from '@/types/foodEntry';
+
+// Normalizes an ingredient name for matching: lowercase, trimmed, single spaces
+export function normalizeIngredientName(name: string): string {
+  return name.toLowerCase().trim().replace(/\s+/g, ' ');
+}
+
+// Returns the trigger IDs carried by any of the ingredients
+export function getIngredientTriggerIds(ingredients: DishIngredient[]): Set<string> {
+  return new Set(
+    ingredients.flatMap((ingredient) => ingredient.triggers.map((trigger) => trigger.trigger_id)),
+  );
+}
+
+/**
+ * Recomputes a dish's triggers after an ingredient is taken out ("no croutons"): the removed
+ * ingredient's triggers are dropped unless an ingredient still in the dish carries them.
+ * Triggers that came from no ingredient (added by hand) are kept.
+ */
+export function removeIngredientTriggers(
+  selectedTriggerIds: Set<string>,
+  removedIngredient: DishIngredient,
+  remainingIngredients: DishIngredient[],
+): Set<string> {
+  const remainingTriggerIds = getIngredientTriggerIds(remainingIngredients);
+  const removedTriggerIds = getIngredientTriggerIds([removedIngredient]);
+  return new Set(
+    Array.from(selectedTriggerIds).filter(
+      (triggerId) => !removedTriggerIds.has(triggerId) || remainingTriggerIds.has(triggerId),
+    ),
+  );
+}
+
+// Adds back the triggers of an ingredient that was put back into the dish
+export function restoreIngredientTriggers(
+  selectedTriggerIds: Set<string>,
+  restoredIngredient: DishIngredient,
+): Set<string> {
+  return new Set([...selectedTriggerIds, ...getIngredientTriggerIds([restoredIngredient])]);
+}
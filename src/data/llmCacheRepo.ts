@@ -0,0 +1,57 @@
+import { supabase } from '@/lib/supabase';
+import { handleError } from '@/data/utils';
+import { LLMResponseCacheRow } from '@/types/supabase';
+
+// Get a cached LLM response for the user, or null if there is none
+export async function getLLMResponseCacheRow(
+  userId: string,
+  cacheKey: string,
+): Promise<LLMResponseCacheRow | null> {
+  const { data, error } = await supabase
+    .from('llm_response_cache')
+    .select('*')
+    .eq('user_id', userId)
+    .eq('cache_key', cacheKey)
+    .maybeSingle();
+
+  if (error) {
+    handleError(error);
+  }
+
+  return data ?? null;
+}
+
+// Save an LLM response for the user, replacing any cached under the same key
+export async function upsertLLMResponseCacheRow(
+  userId: string,
+  cacheKey: string,
+  response: string,
+  createdAt: number,
+): Promise<void> {
+  const { error } = await supabase.from('llm_response_cache').upsert(
+    {
+      user_id: userId,
+      cache_key: cacheKey,
+      response,
+      created_at: new Date(createdAt).toISOString(),
+    },
+    { onConflict: 'user_id,cache_key' },
+  );
+
+  if (error) {
+    handleError(error);
+  }
+}
+
+// Delete one cached LLM response, or all of the user's when no key is given
+export async function deleteLLMResponseCacheRows(userId: string, cacheKey?: string): Promise<void> {
+  let query = supabase.from('llm_response_cache').delete().eq('user_id', userId);
+  if (cacheKey !== undefined) {
+    query = query.eq('cache_key', cacheKey);
+  }
+  const { error } = await query;
+
+  if (error) {
+    handleError(error);
+  }
+}
@@ -1,192 +1,326 @@
-import { ExtractedDish } from '@/types/foodEntry';
-import { getOpenAIClient } from '@/lib/openai';
-import { logger } from '@/utils/logger';
+import { DecomposedIngredient, ExtractedDish } from '@/types/foodEntry';
+import { getLLMProvider, LLMProvider } from '@/lib/llmProvider';
+import { getLLMCache, getLLMCacheKey } from '@/lib/llmCache';
 import {
-  getExtractDishesPrompt,
-  getPredictTriggersPrompt,
-  MODEL_VERSION,
-  PROMPT_VERSION
-} from '@/lib/llmPrompts';
+  getBackoffDelayMs,
+  getLLMCallConfig,
+  getLLMCircuitBreaker,
+  isRetryableLLMError,
+  LLMCircuitOpenError,
+  RequestLimiter,
+  withTimeout,
+} from '@/lib/llmResilience';
+import { logger } from '@/utils/logger';
+import { getRepairPrompt, PROMPT_VERSION } from '@/lib/llmPrompts';
+import { getLLMOperationPrompt, LLMOperation } from '@/lib/llmOperations';
+import { LLMResponseParseResult, parseLLMResponse, Schema } from '@/lib/llmSchema';
 import {
-  VALID_TRIGGER_NAMES
-} from '@/data/trigger';
+  extractDishesResponseSchema,
+  getDecomposeDishResponseSchema,
+  getPredictTriggersResponseSchema,
+} from '@/lib/llmResponseSchemas';
+import { ValidTriggerName } from '@/data/trigger';
+import { RULES_MODEL_VERSION, ruleExtractDishes, rulePredictTriggers } from '@/data/rulePredictor';
 
 const FILENAME = 'llmService.ts';
 
+/**
+ * Collects the model versions that made one food entry's predictions: the LLM provider's for
+ * calls that succeeded, RULES_MODEL_VERSION for calls that fell back to the rule-based predictor.
+ * degraded is set when any call failed, so the suggestions may be incomplete.
+ * model is the model the entry's calls ask (from the user's prompt variant); the configured one
+ * when unset. limiter, when set, paces every request the calls make, retries and repairs included.
+ */
+export interface PredictionTrace {
+  modelVersions: Set<string>;
+  degraded: boolean;
+  model?: string;
+  limiter?: RequestLimiter;
+}
 
-async function callOpenAI(
-  prompt: string,
-  retryCount = 0,
+export function createPredictionTrace(model?: string): PredictionTrace {
+  return { modelVersions: new Set(), degraded: false, model };
+}
+
+/**
+ * The model version to store with a traced entry's predictions: the single model that made
+ * them, or all of them joined with "+" (e.g. "gpt-4o-mini+rules-v1") when some calls fell back.
+ * Falls back to the active provider's model version if nothing was predicted.
+ */
+export function getTraceModelVersion(trace: PredictionTrace): string {
+  if (trace.modelVersions.size === 0) {
+    return getLLMProvider(trace.model).modelVersion;
+  }
+  return Array.from(trace.modelVersions).sort().join('+');
+}
+
+
+/**
+ * Makes a request to the LLM provider. Each attempt has a timeout; server errors, network errors
+ * and timeouts are retried with backoff, rate limits are not. While the circuit breaker is open after
+ * repeated failures, the call fails immediately so callers go straight to their fallback.
+ * With a limiter, each attempt waits for its turn before its timeout starts.
+ */
+async function requestLLM(
+  provider: LLMProvider,
+  request: (signal: AbortSignal) => Promise<string>,
+  limiter?: RequestLimiter,
 ): Promise<string> {
-  const client = getOpenAIClient();
-  
-  if (!client) {
-    throw new Error('OpenAI API key not configured. Please set OPENAI_API_KEY environment variable.');
+  const config = getLLMCallConfig();
+  const circuitBreaker = getLLMCircuitBreaker();
+
+  if (!circuitBreaker.canRequest()) {
+    logger.warn(FILENAME, 'requestLLM', 'LLM circuit open. Skipping call.', { provider: provider.name });
+    throw new LLMCircuitOpenError();
   }
 
-  try {
-    logger.info(FILENAME, 'callOpenAI', 'Calling OpenAI API', { 
-      model: MODEL_VERSION, 
-      promptLength: prompt.length,
-      retryCount 
-    });
+  for (let retryCount = 0; ; retryCount++) {
+    try {
+      logger.info(FILENAME, 'requestLLM', 'Calling LLM provider', {
+        provider: provider.name,
+        model: provider.modelVersion,
+        retryCount
+      });
 
-    const response = await client.chat.completions.create({
-      model: MODEL_VERSION,
-      messages: [
-        {
-          role: 'user',
-          content: prompt,
-        },
-      ],
-      temperature: 0, // Deterministic outputs
-      response_format: { type: 'json_object' },
-    });
+      await limiter?.acquire();
+      const content = await withTimeout(request, config.timeoutMs);
 
-    const content = response.choices[0]?.message?.content;
-    
-    if (!content) {
-      throw new Error('OpenAI API returned empty response');
+      if (!content) {
+        throw new Error('LLM provider returned empty response');
+      }
+
+      logger.info(FILENAME, 'requestLLM', 'LLM call successful', {
+        responseLength: content.length
+      });
+
+      circuitBreaker.recordSuccess();
+      return content;
+    } catch (error: any) {
+      if (retryCount < config.maxRetries && isRetryableLLMError(error)) {
+        const delayMs = getBackoffDelayMs(retryCount, config);
+        logger.warn(FILENAME, 'requestLLM', 'LLM call failed. Retrying.', {
+          retryCount,
+          delayMs,
+          error: error?.message,
+        });
+        await new Promise((resolve) => setTimeout(resolve, delayMs));
+        continue;
+      }
+
+      logger.error(FILENAME, 'requestLLM', 'LLM call failed', error);
+      circuitBreaker.recordFailure();
+      throw new Error(`LLM error (${provider.name}): ${error?.message || 'Unknown error'}`);
     }
+  }
+}
 
-    logger.info(FILENAME, 'callOpenAI', 'OpenAI API call successful', { 
-      responseLength: content.length 
-    });
+/**
+ * Answers an LLM operation from the response cache, or from the LLM provider on a miss, parsed
+ * with the response schema (which providers with structured outputs also enforce).
+ * Prompt providers are sent the operation's prompt, and a response that doesn't match gets one
+ * repair round-trip: the model is shown its response and the problems with it. Operation
+ * providers (the llm Edge Function) are sent only the operation's data and do this themselves.
+ * Only responses that match are cached. Responses from the fake provider are computed locally,
+ * so they are not cached.
+ */
+async function callLLM<T>(operation: LLMOperation, schema: Schema<T>, trace?: PredictionTrace): Promise<T> {
+  const provider = getLLMProvider(trace?.model);
+  const limiter = trace?.limiter;
+  const cache = provider.name === 'fake' ? null : getLLMCache();
+  const prompt = getLLMOperationPrompt(operation);
+  const cacheKey = getLLMCacheKey(prompt, provider.modelVersion, operation.prompt_version);
+  const schemaName = operation.operation;
+  const responseFormat = { name: schemaName, schema: schema.jsonSchema };
 
-    return content;
-  } catch (error: any) {
-    logger.error(FILENAME, 'callOpenAI', 'OpenAI API call failed', error);
-    throw new Error(`OpenAI API error: ${error?.message || 'Unknown error'}`);
+  const cachedResponse = await cache?.get(cacheKey);
+  if (cache && cachedResponse) {
+    const cached = parseLLMResponse(schema, cachedResponse);
+    if (cached.ok) {
+      return cached.value;
+    }
+    logger.warn(FILENAME, 'callLLM', 'Dropping unusable cached LLM response', { issues: cached.issues });
+    await cache.delete(cacheKey);
+  }
+
+  let responseText: string;
+  let parsed: LLMResponseParseResult<T>;
+  if ('answer' in provider) {
+    responseText = await requestLLM(provider, (signal) => provider.answer(operation, { signal }), limiter);
+    parsed = parseLLMResponse(schema, responseText);
+  } else {
+    responseText = await requestLLM(
+      provider,
+      (signal) => provider.complete(prompt, { signal, responseFormat }),
+      limiter,
+    );
+    parsed = parseLLMResponse(schema, responseText);
+    if (!parsed.ok) {
+      logger.warn(FILENAME, 'callLLM', 'LLM response does not match its schema. Asking for a repair.', {
+        schemaName,
+        issues: parsed.issues,
+      });
+      const repairPrompt = getRepairPrompt(prompt, responseText, parsed.issues);
+      responseText = await requestLLM(
+        provider,
+        (signal) => provider.complete(repairPrompt, { signal, responseFormat }),
+        limiter,
+      );
+      parsed = parseLLMResponse(schema, responseText);
+    }
   }
+  if (!parsed.ok) {
+    logger.error(FILENAME, 'callLLM', 'Repaired LLM response does not match its schema', {
+      schemaName,
+      issues: parsed.issues,
+    });
+    throw new Error(`Invalid ${schemaName} response from LLM: ${parsed.issues.join('; ')}`);
+  }
+
+  // Not awaited: the memory layer is written right away, slower layers in the background
+  void cache?.set(cacheKey, responseText);
+  return parsed.value;
 }
 
 /**
- * Extract individual dishes from raw food entry text using OpenAI.
+ * Extract individual dishes from raw food entry text using the LLM provider.
+ * The prompt version defaults to the current one; the prompt eval harness passes others.
+ * If the LLM fails, the entry is split by the rule-based predictor instead.
  */
-export async function llmExtractDishes(rawEntryText: string): Promise<ExtractedDish[]> {
+export async function llmExtractDishes(
+  rawEntryText: string,
+  promptVersion: string = PROMPT_VERSION,
+  trace?: PredictionTrace,
+): Promise<ExtractedDish[]> {
   logger.info(FILENAME, 'llmExtractDishes', 'Extracting dishes', { 
     rawEntryTextLength: rawEntryText.length 
   });
 
-  const prompt = getExtractDishesPrompt(rawEntryText, PROMPT_VERSION);
-
   try {
-    const responseText = await callOpenAI(prompt);
-    
-    // Parse JSON response
-    let parsed: { dishes?: ExtractedDish[] };
-    try {
-      parsed = JSON.parse(responseText);
-    } catch (parseError) {
-      logger.error(FILENAME, 'llmExtractDishes', 'Failed to parse JSON response', parseError);
-      throw new Error(`Invalid JSON response from OpenAI: ${responseText.substring(0, 200)}`);
-    }
+    const response = await callLLM(
+      { operation: 'extract_dishes', raw_entry_text: rawEntryText, prompt_version: promptVersion },
+      extractDishesResponseSchema,
+      trace,
+    );
 
-    // Validate response structure
-    if (!parsed.dishes || !Array.isArray(parsed.dishes)) {
-      logger.error(FILENAME, 'llmExtractDishes', 'Invalid response structure', { parsed });
-      throw new Error('OpenAI response missing "dishes" array');
-    }
-
-    // Validate each dish has required fields
-    for (const dish of parsed.dishes) {
-      if (!dish.dish_fragment_text || !dish.dish_name_suggestion) {
-        logger.error(FILENAME, 'llmExtractDishes', 'Invalid dish structure', { dish });
-        throw new Error('OpenAI response dish missing required fields');
-      }
-    }
+    // A unit without a quantity means nothing ("cup of"), so it is dropped
+    const dishes: ExtractedDish[] = response.dishes.map((dish) => ({
+      ...dish,
+      unit: dish.quantity !== null ? dish.unit : null,
+    }));
 
     logger.info(FILENAME, 'llmExtractDishes', 'Dishes extracted successfully', { 
-      dishCount: parsed.dishes.length 
+      dishCount: dishes.length,
+      dishesWithPortionCount: dishes.filter((dish) => dish.quantity !== null || dish.portion_size !== null).length,
     });
 
-    return parsed.dishes;
+    trace?.modelVersions.add(getLLMProvider(trace.model).modelVersion);
+    return dishes;
   } catch (error: any) {
-    logger.error(FILENAME, 'llmExtractDishes', 'Failed to extract dishes. Returning raw entry text.', { error: error?.message || 'Unknown error' });
-    return [
-      {
-        dish_fragment_text: rawEntryText,
-        dish_name_suggestion: rawEntryText,
-      },
-    ];
+    logger.error(FILENAME, 'llmExtractDishes', 'Failed to extract dishes. Splitting the entry with rules.', { error: error?.message || 'Unknown error' });
+    trace?.modelVersions.add(RULES_MODEL_VERSION);
+    if (trace) {
+      trace.degraded = true;
+    }
+    return ruleExtractDishes(rawEntryText);
   }
 }
 
 /**
- * Predict potential food triggers (allergens, intolerances) for a dish using OpenAI.
- * TODO: should return ValidTriggerName[] instead of string[]
+ * Predict potential food triggers (allergens, intolerances) for a dish using the LLM provider.
+ * The user's custom trigger names are offered alongside the built-in ones, and returned with the
+ * stored spelling. If the LLM fails, triggers are predicted from keywords instead.
+ * @returns Built-in trigger names, plus any of the given custom trigger names.
  */
-export async function llmPredictTriggers(
+export async function llmPredictTriggers<C extends string = never>(
   dishName: string,
   fragmentText: string,
-): Promise<string[]> {
+  customTriggerNames: readonly C[] = [],
+  promptVersion: string = PROMPT_VERSION,
+  trace?: PredictionTrace,
+): Promise<Array<ValidTriggerName | C>> {
   logger.info(FILENAME, 'llmPredictTriggers', 'Predicting triggers', { 
     dishName, 
     fragmentTextLength: fragmentText.length 
   });
 
-  const prompt = getPredictTriggersPrompt(dishName, fragmentText, PROMPT_VERSION);
-
   try {
-    const responseText = await callOpenAI(prompt);
-    
-    // Parse JSON response
-    let parsed: { triggers?: string[] };
-    try {
-      parsed = JSON.parse(responseText);
-    } catch (parseError) {
-      logger.error(FILENAME, 'llmPredictTriggers', 'Failed to parse JSON response', parseError);
-      throw new Error(`Invalid JSON response from OpenAI: ${responseText.substring(0, 200)}`);
-    }
+    const { triggers } = await callLLM(
+      {
+        operation: 'predict_triggers',
+        dish_name: dishName,
+        fragment_text: fragmentText,
+        custom_trigger_names: [...customTriggerNames],
+        prompt_version: promptVersion,
+      },
+      getPredictTriggersResponseSchema(customTriggerNames),
+      trace,
+    );
 
-    // Validate response structure
-    if (!parsed.triggers || !Array.isArray(parsed.triggers)) {
-      logger.error(FILENAME, 'llmPredictTriggers', 'Invalid response structure', { parsed });
-      throw new Error('OpenAI response missing "triggers" array');
-    }
-    // Validate all triggers are strings
-    for (const trigger of parsed.triggers) {
-      if (typeof trigger !== 'string') {
-        logger.error(FILENAME, 'llmPredictTriggers', 'Invalid trigger type', { trigger });
-        throw new Error('OpenAI response contains non-string trigger');
-      }
-    }
+    logger.info(FILENAME, 'llmPredictTriggers', 'Triggers predicted successfully', { 
+      triggerCount: triggers.length,
+      triggers,
+    });
 
-    // Validate trigger names are in the allowed list
-    const validTriggers: string[] = [];
-    const invalidTriggers: string[] = [];
-    
-    for (const trigger of parsed.triggers) {
-      if (VALID_TRIGGER_NAMES.includes(trigger as any)) {
-        validTriggers.push(trigger);
-      } else {
-        invalidTriggers.push(trigger);
-        logger.warn(FILENAME, 'llmPredictTriggers', 'Invalid trigger name from LLM', { 
-          trigger,
-          validTriggers: VALID_TRIGGER_NAMES 
-        });
-      }
+    trace?.modelVersions.add(getLLMProvider(trace.model).modelVersion);
+    return triggers;
+  } catch (error: any) {
+    logger.error(FILENAME, 'llmPredictTriggers', 'Failed to predict triggers. Predicting from keywords.', error);
+    trace?.modelVersions.add(RULES_MODEL_VERSION);
+    if (trace) {
+      trace.degraded = true;
     }
+    return rulePredictTriggers(dishName, fragmentText, customTriggerNames);
+  }
+}
 
-    if (invalidTriggers.length > 0) {
-      logger.warn(FILENAME, 'llmPredictTriggers', 'Filtered out invalid trigger names', { 
-        invalidTriggers,
-        validTriggers 
-      });
-    }
+/**
+ * Break a dish down into its main ingredients, each with the triggers it carries, using the LLM provider.
+ * Returns an empty array if the dish can't be decomposed, so callers fall back to
+ * predicting triggers for the whole dish.
+ */
+export async function llmDecomposeDish(
+  dishName: string,
+  fragmentText: string,
+  customTriggerNames: string[] = [],
+  promptVersion: string = PROMPT_VERSION,
+  trace?: PredictionTrace,
+): Promise<DecomposedIngredient[]> {
+  logger.info(FILENAME, 'llmDecomposeDish', 'Decomposing dish', {
+    dishName,
+    fragmentTextLength: fragmentText.length,
+  });
 
-    logger.info(FILENAME, 'llmPredictTriggers', 'Triggers predicted successfully', { 
-      triggerCount: validTriggers.length,
-      triggers: validTriggers,
-      filteredCount: invalidTriggers.length
+  try {
+    const response = await callLLM(
+      {
+        operation: 'decompose_dish',
+        dish_name: dishName,
+        fragment_text: fragmentText,
+        custom_trigger_names: customTriggerNames,
+        prompt_version: promptVersion,
+      },
+      getDecomposeDishResponseSchema(customTriggerNames),
+      trace,
+    );
+    const ingredients: DecomposedIngredient[] = response.ingredients.map((ingredient) => ({
+      ingredient_name: ingredient.ingredient_name,
+      trigger_names: ingredient.triggers,
+    }));
+
+    logger.info(FILENAME, 'llmDecomposeDish', 'Dish decomposed successfully', {
+      ingredientCount: ingredients.length,
+      ingredients: ingredients.map((ingredient) => ingredient.ingredient_name),
     });
 
-    return validTriggers;
+    if (ingredients.length > 0) {
+      trace?.modelVersions.add(getLLMProvider(trace.model).modelVersion);
+    }
+    return ingredients;
   } catch (error: any) {
-    logger.error(FILENAME, 'llmPredictTriggers', 'Failed to predict triggers. Returning empty array with no valid triggers.', error);
+    logger.error(FILENAME, 'llmDecomposeDish', 'Failed to decompose dish. Returning empty array.', error);
+    if (trace) {
+      trace.degraded = true;
+    }
     return [];
   }
 }
-
-
-
@@ -4,6 +4,7 @@ import {
   Dish,
   DishEvent,
   DishTrigger,
+  Ingredient,
   PredictedDish,
   PredictedDishTrigger,
   RawFoodEntry,
@@ -14,6 +15,7 @@ import {
   DishEventRow,
   DishRow,
   DishTriggerRow,
+  IngredientRow,
   PredictedDishRow,
   PredictedDishTriggerRow,
   RawFoodEntryRow,
@@ -86,6 +88,7 @@ export function toRawFoodEntryRow(
   return {
     user_id: entry.userId,
     raw_entry_text: entry.rawEntryText,
+    meal_type: entry.mealType,
   };
 }
 
@@ -94,6 +97,7 @@ export function fromRawFoodEntryRow(row: RawFoodEntryRow): RawFoodEntry {
     id: row.id,
     userId: row.user_id,
     rawEntryText: row.raw_entry_text,
+    mealType: row.meal_type,
     createdAt: new Date(row.created_at).getTime(),
   };
 }
@@ -106,8 +110,12 @@ export function toPredictedDishRow(
     raw_entry_id: entry.rawEntryId,
     dish_fragment_text: entry.dishFragmentText,
     dish_name_suggestion: entry.dishNameSuggestion,
+    quantity: entry.quantity,
+    unit: entry.unit,
+    portion_size: entry.portionSize,
     model_version: entry.modelVersion,
     prompt_version: entry.promptVersion,
+    prompt_variant: entry.promptVariant,
   };
 }
 
@@ -117,8 +125,12 @@ export function fromPredictedDishRow(row: PredictedDishRow): PredictedDish {
     rawEntryId: row.raw_entry_id,
     dishFragmentText: row.dish_fragment_text,
     dishNameSuggestion: row.dish_name_suggestion,
+    quantity: row.quantity,
+    unit: row.unit,
+    portionSize: row.portion_size,
     modelVersion: row.model_version,
     promptVersion: row.prompt_version,
+    promptVariant: row.prompt_variant,
     createdAt: new Date(row.created_at).getTime(),
   };
 }
@@ -130,6 +142,7 @@ export function toDishRow(entry: Omit<Dish, 'id' | 'createdAt'>): Omit<DishRow,
     dish_name: entry.dishName,
     normalized_dish_name: entry.normalizedDishName,
     dish_embedding_id: entry.dishEmbeddingId,
+    favorited_at: entry.favoritedAt ? new Date(entry.favoritedAt).toISOString() : null,
   };
 }
 
@@ -140,6 +153,7 @@ export function fromDishRow(row: DishRow): Dish {
     dishName: row.dish_name,
     normalizedDishName: row.normalized_dish_name,
     dishEmbeddingId: row.dish_embedding_id,
+    favoritedAt: row.favorited_at ? new Date(row.favorited_at).getTime() : null,
     createdAt: new Date(row.created_at).getTime(),
   };
 }
@@ -154,6 +168,9 @@ export function toDishEventRow(
     predicted_dish_id: entry.predictedDishId,
     raw_entry_id: entry.rawEntryId,
     confirmed_by_user: entry.confirmedByUser,
+    quantity: entry.quantity,
+    unit: entry.unit,
+    portion_size: entry.portionSize,
     deleted_at: entry.deletedAt != null ? new Date(entry.deletedAt).toISOString() : null,
     occurred_at: new Date(entry.occurredAt).toISOString(),
   };
@@ -167,12 +184,26 @@ export function fromDishEventRow(row: DishEventRow): DishEvent {
     predictedDishId: row.predicted_dish_id,
     rawEntryId: row.raw_entry_id,
     confirmedByUser: row.confirmed_by_user,
+    quantity: row.quantity,
+    unit: row.unit,
+    portionSize: row.portion_size,
     deletedAt: row.deleted_at !== null ? new Date(row.deleted_at).getTime() : null,
     createdAt: new Date(row.created_at).getTime(),
     occurredAt: new Date(row.occurred_at).getTime(),
   };
 }
 
+// Ingredient mappers
+export function fromIngredientRow(row: IngredientRow): Ingredient {
+  return {
+    id: row.id,
+    userId: row.user_id,
+    ingredientName: row.ingredient_name,
+    normalizedIngredientName: row.normalized_ingredient_name,
+    createdAt: new Date(row.created_at).getTime(),
+  };
+}
+
 // Trigger mappers
 export function fromTriggerRow(row: TriggerRow): Trigger {
   return {
@@ -192,6 +223,7 @@ export function toPredictedDishTriggerRow(
     trigger_id: entry.triggerId,
     model_version: entry.modelVersion,
     prompt_version: entry.promptVersion,
+    prompt_variant: entry.promptVariant,
   };
 }
 
@@ -203,6 +235,7 @@ export function fromPredictedDishTriggerRow(row: PredictedDishTriggerRow): Predi
     triggerId: row.trigger_id,
     modelVersion: row.model_version,
     promptVersion: row.prompt_version,
+    promptVariant: row.prompt_variant,
     createdAt: new Date(row.created_at).getTime(),
   };
 }
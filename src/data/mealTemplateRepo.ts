@@ -0,0 +1,126 @@
+import { supabase } from '@/lib/supabase';
+import { ConfirmFoodEntryResponse } from '@/types/foodEntry';
+import { MealTemplate } from '@/types/mealTemplate';
+import { DishRow, MealTemplateDishRow, MealTemplateRow, TriggerRow } from '@/types/supabase';
+import { fromTriggerRow } from '@/data/mappers';
+import { MealType } from '@/data/mealType';
+import { handleError } from '@/data/utils';
+
+// Save the dishes and confirmed triggers of a confirmed food entry as a template (see migration 0017)
+export async function createMealTemplate(rawEntryId: string, templateName: string): Promise<string> {
+  const { data, error } = await supabase.rpc('create_meal_template', {
+    p_raw_entry_id: rawEntryId,
+    p_template_name: templateName,
+  });
+
+  if (error) {
+    handleError(error);
+  }
+
+  if (!data) {
+    throw new Error('Failed to create meal template');
+  }
+
+  return data as string;
+}
+
+// Row of the meal template select below, with its dishes and their triggers
+interface MealTemplateQueryRow extends MealTemplateRow {
+  meal_template_dish: Array<
+    Pick<MealTemplateDishRow, 'position'> & {
+      dish: Pick<DishRow, 'id' | 'dish_name'> | null;
+      meal_template_dish_triggers: Array<{ triggers: TriggerRow | null }> | null;
+    }
+  > | null;
+}
+
+// Get all of a user's meal templates with their dishes and triggers, by name
+export async function getMealTemplatesByUserId(userId: string): Promise<MealTemplate[]> {
+  const { data, error } = await supabase
+    .from('meal_template')
+    .select(`
+      id,
+      user_id,
+      template_name,
+      created_at,
+      meal_template_dish (
+        position,
+        dish:dish_id (
+          id,
+          dish_name
+        ),
+        meal_template_dish_triggers (
+          triggers:trigger_id (
+            id,
+            trigger_name,
+            created_at
+          )
+        )
+      )
+    `)
+    .eq('user_id', userId)
+    .order('template_name', { ascending: true });
+
+  if (error) {
+    handleError(error);
+  }
+
+  if (!data) {
+    return [];
+  }
+
+  return (data as unknown as MealTemplateQueryRow[]).map((row) => {
+    const templateDishes = [...(row.meal_template_dish ?? [])].sort((a, b) => a.position - b.position);
+
+    return {
+      id: row.id,
+      userId: row.user_id,
+      templateName: row.template_name,
+      createdAt: new Date(row.created_at).getTime(),
+      dishes: templateDishes.flatMap((templateDish) =>
+        templateDish.dish
+          ? [{
+              dishId: templateDish.dish.id,
+              dishName: templateDish.dish.dish_name,
+              triggers: (templateDish.meal_template_dish_triggers ?? [])
+                .map((templateTrigger) => templateTrigger.triggers)
+                .filter((trigger): trigger is TriggerRow => trigger !== null)
+                .map((trigger) => fromTriggerRow(trigger)),
+            }]
+          : [],
+      ),
+    };
+  });
+}
+
+// Log a template as a confirmed food entry (see migrations 0017 and 0019)
+export async function logMealTemplateTransaction(args: {
+  templateId: string;
+  occurredAt: number;
+  mealType: MealType | null;
+}): Promise<ConfirmFoodEntryResponse> {
+  const { data, error } = await supabase.rpc('log_meal_template', {
+    p_template_id: args.templateId,
+    p_occurred_at: new Date(args.occurredAt).toISOString(),
+    p_meal_type: args.mealType,
+  });
+
+  if (error) {
+    handleError(error);
+  }
+
+  if (!data) {
+    throw new Error('Failed to log meal template');
+  }
+
+  return data as ConfirmFoodEntryResponse;
+}
+
+// Delete a template; its dishes and triggers are removed with it
+export async function deleteMealTemplateById(templateId: string): Promise<void> {
+  const { error } = await supabase.from('meal_template').delete().eq('id', templateId);
+
+  if (error) {
+    handleError(error);
+  }
+}
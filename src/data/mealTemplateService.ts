@@ -0,0 +1,86 @@
+import { ConfirmFoodEntryResponse } from '@/types/foodEntry';
+import { MealTemplate } from '@/types/mealTemplate';
+import {
+  createMealTemplate,
+  deleteMealTemplateById,
+  getMealTemplatesByUserId,
+  logMealTemplateTransaction,
+} from '@/data/mealTemplateRepo';
+import { inferMealType } from '@/data/mealType';
+import { getAuthenticatedUserId } from '@/data/utils';
+import { logger } from '@/utils/logger';
+
+const FILENAME = 'mealTemplateService.ts';
+
+/**
+ * Saves the dishes of a confirmed food entry, with their confirmed triggers, as a named template.
+ * @returns The ID of the new template
+ */
+export async function saveFoodEntryAsTemplate(
+  rawEntryId: string,
+  templateName: string,
+): Promise<string> {
+  await getAuthenticatedUserId(); // Verify auth
+
+  if (!templateName.trim()) {
+    throw new Error('Template name is required');
+  }
+
+  const templateId = await createMealTemplate(rawEntryId, templateName.trim());
+
+  logger.info(FILENAME, 'saveFoodEntryAsTemplate', 'Meal template saved', {
+    rawEntryId,
+    templateId,
+  });
+
+  return templateId;
+}
+
+/**
+ * Fetches the authenticated user's meal templates, by name.
+ */
+export async function getMealTemplatesForUser(): Promise<MealTemplate[]> {
+  const userId = await getAuthenticatedUserId();
+  return getMealTemplatesByUserId(userId);
+}
+
+/**
+ * Logs a template at the given time as a normal confirmed food entry, in a single transaction.
+ * The meal type is inferred from the template name, its dishes and the time.
+ * @param occurredAtTimestamp - The timestamp in milliseconds when the meal was actually eaten.
+ */
+export async function logMealTemplate(
+  template: MealTemplate,
+  occurredAtTimestamp: number,
+): Promise<ConfirmFoodEntryResponse> {
+  await getAuthenticatedUserId(); // Verify auth
+
+  const mealType = inferMealType({
+    rawEntryText: template.templateName,
+    dishNames: template.dishes.map((dish) => dish.dishName),
+    occurredAt: occurredAtTimestamp,
+  });
+
+  const response = await logMealTemplateTransaction({
+    templateId: template.id,
+    occurredAt: occurredAtTimestamp,
+    mealType,
+  });
+
+  logger.info(FILENAME, 'logMealTemplate', 'Meal template logged', {
+    templateId: template.id,
+    mealType,
+    entryId: response.entry_id,
+    dishCount: response.dishes.length,
+  });
+
+  return response;
+}
+
+/**
+ * Deletes a meal template. Entries already logged from it are not affected.
+ */
+export async function deleteMealTemplate(templateId: string): Promise<void> {
+  await getAuthenticatedUserId(); // Verify auth
+  await deleteMealTemplateById(templateId);
+}
@@ -0,0 +1,78 @@
+/**
+ * The meal a food entry belongs to. Dietitians ask about meals, not individual dishes.
+ * These must match the meal_type check constraint in the database (see migration 0019).
+ */
+export const MEAL_TYPES = ['breakfast', 'lunch', 'dinner', 'snack', 'drink'] as const;
+
+export type MealType = typeof MEAL_TYPES[number];
+
+export const MEAL_TYPE_DISPLAY_TEXT_MAP: Record<MealType, string> = {
+  breakfast: 'Breakfast',
+  lunch: 'Lunch',
+  dinner: 'Dinner',
+  snack: 'Snack',
+  drink: 'Drink',
+};
+
+// Words in the entry text that name the meal outright ("leftover pasta for lunch")
+const MEAL_TYPE_KEYWORDS: Array<[MealType, RegExp]> = [
+  ['breakfast', /\b(breakfast|brunch)\b/],
+  ['lunch', /\blunch\b/],
+  ['dinner', /\b(dinner|supper|tea time)\b/],
+  ['snack', /\b(snack|snacks|snacking)\b/],
+];
+
+// A dish name containing any of these is treated as a drink
+const DRINK_PATTERN =
+  /\b(water|coffee|espresso|latte|cappuccino|americano|macchiato|mocha|tea|matcha|chai|juice|smoothie|milkshake|shake|soda|cola|lemonade|kombucha|beer|wine|cider|cocktail|whisky|whiskey|vodka|gin|rum|hot chocolate)\b/;
+
+// Returns the value if it is a known meal type, otherwise null
+export function toMealType(value: unknown): MealType | null {
+  if (typeof value !== 'string') {
+    return null;
+  }
+  const normalized = value.trim().toLowerCase();
+  return MEAL_TYPES.includes(normalized as MealType) ? (normalized as MealType) : null;
+}
+
+// Returns the meal type for a local time of day; anything between meals is a snack
+export function getMealTypeForTime(timestamp: number): MealType {
+  const date = new Date(timestamp);
+  const minutes = date.getHours() * 60 + date.getMinutes();
+
+  if (minutes >= 4 * 60 && minutes < 11 * 60) {
+    return 'breakfast';
+  }
+  if (minutes >= 11 * 60 && minutes < 15 * 60) {
+    return 'lunch';
+  }
+  if (minutes >= 17 * 60 && minutes < 22 * 60) {
+    return 'dinner';
+  }
+  return 'snack';
+}
+
+/**
+ * Infers the meal type of an entry: a meal named in the text wins, then an entry of only drinks
+ * is a drink, otherwise the time of day decides.
+ */
+export function inferMealType(args: {
+  rawEntryText: string;
+  dishNames: string[];
+  occurredAt: number;
+}): MealType {
+  const text = args.rawEntryText.toLowerCase();
+  const namedMealType = MEAL_TYPE_KEYWORDS.find(([, pattern]) => pattern.test(text));
+  if (namedMealType) {
+    return namedMealType[0];
+  }
+
+  if (
+    args.dishNames.length > 0 &&
+    args.dishNames.every((dishName) => DRINK_PATTERN.test(dishName.toLowerCase()))
+  ) {
+    return 'drink';
+  }
+
+  return getMealTypeForTime(args.occurredAt);
+}
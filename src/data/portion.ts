@@ -0,0 +1,58 @@
+/**
+ * Relative portion sizes, for when a meal has no countable amount ("a big bowl of pasta").
+ * These must match the portion_size check constraints in the database (see migration 0018).
+ */
+export const PORTION_SIZES = ['small', 'medium', 'large'] as const;
+
+export type PortionSize = typeof PORTION_SIZES[number];
+
+export const PORTION_SIZE_DISPLAY_TEXT_MAP: Record<PortionSize, string> = {
+  small: 'Small',
+  medium: 'Medium',
+  large: 'Large',
+};
+
+// Returns the value if it is a known portion size, otherwise null
+export function toPortionSize(value: unknown): PortionSize | null {
+  if (typeof value !== 'string') {
+    return null;
+  }
+  const normalized = value.trim().toLowerCase();
+  return PORTION_SIZES.includes(normalized as PortionSize) ? (normalized as PortionSize) : null;
+}
+
+// Returns a positive quantity from a number or numeric text ("2", "1.5", "0,5"), otherwise null
+export function toQuantity(value: unknown): number | null {
+  const quantity =
+    typeof value === 'number'
+      ? value
+      : typeof value === 'string' && value.trim() !== ''
+        ? Number(value.trim().replace(',', '.'))
+        : NaN;
+  return Number.isFinite(quantity) && quantity > 0 ? quantity : null;
+}
+
+// Returns the unit trimmed and lowercased, or null if blank
+export function toUnit(value: unknown): string | null {
+  if (typeof value !== 'string') {
+    return null;
+  }
+  const unit = value.trim().replace(/\s+/g, ' ').toLowerCase();
+  return unit === '' ? null : unit;
+}
+
+// Formats a portion for display, e.g. "2 cups", "1 · Large" or "Small"; empty if nothing is known
+export function formatPortion(
+  quantity: number | null | undefined,
+  unit: string | null | undefined,
+  portionSize: PortionSize | null | undefined,
+): string {
+  const parts: string[] = [];
+  if (quantity != null) {
+    parts.push(unit ? `${quantity} ${unit}` : `${quantity}`);
+  }
+  if (portionSize) {
+    parts.push(PORTION_SIZE_DISPLAY_TEXT_MAP[portionSize]);
+  }
+  return parts.join(' · ');
+}
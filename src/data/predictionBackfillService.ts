@@ -0,0 +1,324 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+import {
+  DishEventPrediction,
+  PredictionBackfillChange,
+  PredictionBackfillCursor,
+  PredictionBackfillResult,
+} from '@/types/evaluation';
+import {
+  clearPredictionBackfillProgress,
+  findIngredientsByNormalizedNames,
+  getBackfilledPredictions,
+  getCustomTriggers,
+  getPredictionBackfillCandidates,
+  getPredictionBackfillProgress,
+  saveBackfilledPrediction,
+  savePredictionBackfillProgress,
+} from '@/data/foodEntryRepo';
+import { getDecomposedDishTriggerNames, llmPredictNewDish, NewDishPrediction } from '@/data/foodEntryService';
+import { createPredictionTrace } from '@/data/llmService';
+import { getLLMProvider } from '@/lib/llmProvider';
+import { createRequestLimiter } from '@/lib/llmResilience';
+import { PROMPT_VERSION, PROMPTS } from '@/lib/llmPrompts';
+import { logger } from '@/utils/logger';
+
+const FILENAME = 'predictionBackfillService.ts';
+
+export interface PredictionBackfillOptions {
+  // Prompt version to predict with; the current one by default
+  promptVersion?: string;
+  // Model to ask instead of the configured one
+  model?: string;
+  // Only these users' or dishes' events; otherwise all events the client can see
+  userIds?: string[];
+  dishIds?: string[];
+  // Skip dish events the user already confirmed (their suggestions are no longer shown)
+  unconfirmedOnly?: boolean;
+  // LLM requests per minute, retries and repairs included (default 30)
+  requestsPerMinute?: number;
+  // Dish events fetched per query (default 50)
+  batchSize?: number;
+  // Stop after trying this many dish events; all by default
+  maxDishEvents?: number;
+  // Stop after this many failed predictions in a row, e.g. while the LLM is down (default 5)
+  maxConsecutiveFailures?: number;
+  // Waits between LLM requests, and the clock they are timed by; replaced in tests
+  sleep?: (ms: number) => Promise<void>;
+  now?: () => number;
+  // Client to read and save with instead of the app's, e.g. a service role client
+  // (scripts/backfillPredictions.ts) to backfill all users
+  client?: SupabaseClient;
+}
+
+const defaultSleep = (ms: number): Promise<void> => new Promise((resolve) => setTimeout(resolve, ms));
+
+/**
+ * Identifies a run's selection in its stored progress, so runs over other users or dishes keep
+ * their own place.
+ */
+export function getPredictionBackfillSelectionKey(
+  selection: Pick<PredictionBackfillOptions, 'userIds' | 'dishIds' | 'unconfirmedOnly'>,
+): string {
+  return JSON.stringify({
+    userIds: selection.userIds ? [...selection.userIds].sort() : null,
+    dishIds: selection.dishIds ? [...selection.dishIds].sort() : null,
+    unconfirmedOnly: selection.unconfirmedOnly ?? false,
+  });
+}
+
+/**
+ * The trigger names a new prediction adds and removes, each sorted by name.
+ */
+export function diffTriggerNames(
+  previousTriggerNames: string[],
+  predictedTriggerNames: string[],
+): { addedTriggerNames: string[]; removedTriggerNames: string[] } {
+  const previous = new Set(previousTriggerNames);
+  const predicted = new Set(predictedTriggerNames);
+  return {
+    addedTriggerNames: Array.from(predicted).filter((name) => !previous.has(name)).sort(),
+    removedTriggerNames: Array.from(previous).filter((name) => !predicted.has(name)).sort(),
+  };
+}
+
+const isChanged = (change: PredictionBackfillChange): boolean =>
+  change.addedTriggerNames.length > 0 || change.removedTriggerNames.length > 0;
+
+/**
+ * Predicts the triggers of logged dishes again with a new prompt (or model) version, e.g. after
+ * shipping a better prompt, so unconfirmed dishes get current suggestions and the versions can
+ * be compared.
+ *
+ * Only the first event of each dish is re-predicted, since only those had their triggers
+ * predicted: later events of a dish reuse its confirmed triggers instead. It also only
+ * covers users with AI predictions on. Dishes are predicted as createFoodEntry predicts new
+ * ones, so from v3 on a dish's triggers are those of the ingredients it is broken into. New
+ * predictions are stored alongside the old ones and become the dish event's current
+ * prediction; confirmed triggers are never changed.
+ *
+ * The run is resumable: it goes through the candidates oldest first and stores the last dish
+ * event it saved, and the next run with the same version and selection continues after it.
+ * Dish events whose current prediction is already from the target version are skipped. Every LLM
+ * request is paced to requestsPerMinute, including retries and repairs of a prediction. A failed
+ * prediction (the LLM fell back to keyword rules) is not saved; once a run gets through every
+ * candidate its progress is cleared, so the next run starts over and retries the failed ones.
+ *
+ * In the app, RLS limits this to the user's own dish events; pass a service role client
+ * (npm run backfill:predictions) to backfill all users.
+ * @throws If the prompt version is unknown, or saving a prediction fails.
+ */
+export async function runPredictionBackfill(
+  options: PredictionBackfillOptions = {},
+): Promise<PredictionBackfillResult> {
+  const promptVersion = options.promptVersion ?? PROMPT_VERSION;
+  if (!(promptVersion in PROMPTS)) {
+    throw new Error(`Unknown prompt version: ${promptVersion}`);
+  }
+  const modelVersion = getLLMProvider(options.model).modelVersion;
+  const target = { modelVersion, promptVersion };
+  const selection = {
+    userIds: options.userIds,
+    dishIds: options.dishIds,
+    unconfirmedOnly: options.unconfirmedOnly,
+  };
+  const selectionKey = getPredictionBackfillSelectionKey(selection);
+  const requestsPerMinute = options.requestsPerMinute ?? 30;
+  const batchSize = options.batchSize ?? 50;
+  const maxDishEvents = options.maxDishEvents ?? Infinity;
+  const maxConsecutiveFailures = options.maxConsecutiveFailures ?? 5;
+  const limiter = createRequestLimiter(requestsPerMinute, options.sleep ?? defaultSleep, options.now);
+
+  const client = options.client;
+  let cursor: PredictionBackfillCursor | null = await getPredictionBackfillProgress(target, selectionKey, client);
+  const resumed = cursor !== null;
+
+  logger.info(FILENAME, 'runPredictionBackfill', 'Starting prediction backfill', {
+    ...target,
+    ...selection,
+    requestsPerMinute,
+    resumedAfter: cursor?.dishEventId,
+  });
+
+  const customTriggerNamesByUserId = new Map<string, string[]>();
+  const getCustomTriggerNames = async (userId: string): Promise<string[]> => {
+    let names = customTriggerNamesByUserId.get(userId);
+    if (!names) {
+      names = (await getCustomTriggers(userId, client)).map((trigger) => trigger.triggerName);
+      customTriggerNamesByUserId.set(userId, names);
+    }
+    return names;
+  };
+
+  // Like createFoodEntry, ingredients the user already has count with their stored triggers
+  const getDecomposedTriggerNames = async (userId: string, prediction: NewDishPrediction): Promise<string[]> => {
+    const knownIngredients = await findIngredientsByNormalizedNames(
+      userId,
+      Array.from(new Set(prediction.ingredients.map((ingredient) => ingredient.normalized_ingredient_name))),
+      client,
+    );
+    return getDecomposedDishTriggerNames(
+      prediction.ingredients,
+      new Map(
+        knownIngredients.map((ingredient) => [
+          ingredient.normalizedIngredientName,
+          ingredient.triggers.map((trigger) => trigger.triggerName),
+        ]),
+      ),
+    );
+  };
+
+  const changes: PredictionBackfillChange[] = [];
+  const failedDishEventIds: string[] = [];
+  let predictedCount = 0;
+  let attemptedCount = 0;
+  let consecutiveFailures = 0;
+  let stoppedEarly = false;
+  let completed = false;
+
+  const predict = async (candidate: DishEventPrediction): Promise<void> => {
+    const trace = createPredictionTrace(options.model);
+    trace.limiter = limiter;
+    const prediction = await llmPredictNewDish(
+      candidate.dishName,
+      candidate.dishFragmentText || candidate.dishName,
+      await getCustomTriggerNames(candidate.userId),
+      promptVersion,
+      trace,
+    );
+    if (trace.degraded) {
+      logger.warn(FILENAME, 'runPredictionBackfill', 'Prediction failed; leaving dish event for a later run', {
+        dishEventId: candidate.dishEventId,
+      });
+      failedDishEventIds.push(candidate.dishEventId);
+      consecutiveFailures += 1;
+      return;
+    }
+    consecutiveFailures = 0;
+    const triggerNames = prediction.triggerNames ?? (await getDecomposedTriggerNames(candidate.userId, prediction));
+
+    await saveBackfilledPrediction(
+      {
+        dishEventId: candidate.dishEventId,
+        ...target,
+        previousTriggerNames: candidate.predictedTriggerNames,
+        triggerNames,
+      },
+      client,
+    );
+    predictedCount += 1;
+
+    const change: PredictionBackfillChange = {
+      dishEventId: candidate.dishEventId,
+      userId: candidate.userId,
+      dishId: candidate.dishId,
+      dishName: candidate.dishName,
+      confirmed: candidate.confirmed,
+      ...target,
+      previousTriggerNames: candidate.predictedTriggerNames,
+      predictedTriggerNames: [...triggerNames].sort(),
+      ...diffTriggerNames(candidate.predictedTriggerNames, triggerNames),
+    };
+    if (isChanged(change)) {
+      changes.push(change);
+    }
+  };
+
+  while (attemptedCount < maxDishEvents && !stoppedEarly) {
+    const candidates = await getPredictionBackfillCandidates(
+      target,
+      selection,
+      Math.min(batchSize, maxDishEvents - attemptedCount),
+      cursor,
+      client,
+    );
+    if (candidates.length === 0) {
+      completed = true;
+      break;
+    }
+
+    for (const candidate of candidates) {
+      attemptedCount += 1;
+      cursor = candidate.cursor;
+      await predict(candidate);
+      // Only saved dish events move the stored progress, so a run stopped by failures in a row
+      // is retried from the first of them
+      if (consecutiveFailures === 0) {
+        await savePredictionBackfillProgress(target, selectionKey, candidate.cursor, client);
+      }
+      if (consecutiveFailures >= maxConsecutiveFailures) {
+        logger.warn(FILENAME, 'runPredictionBackfill', 'Stopping after repeated failures', {
+          consecutiveFailures,
+        });
+        stoppedEarly = true;
+        break;
+      }
+    }
+  }
+
+  if (completed) {
+    await clearPredictionBackfillProgress(target, selectionKey, client);
+  }
+
+  logger.info(FILENAME, 'runPredictionBackfill', 'Prediction backfill finished', {
+    ...target,
+    predictedCount,
+    changedCount: changes.length,
+    failedCount: failedDishEventIds.length,
+    stoppedEarly,
+    completed,
+  });
+
+  return { ...target, predictedCount, changes, failedDishEventIds, stoppedEarly, resumed, completed };
+}
+
+/**
+ * Every dish event whose triggers changed when re-predicted with the given prompt version (the
+ * current one by default) and model, across all backfill runs, oldest first.
+ */
+export async function getPredictionBackfillChanges(
+  options: Pick<PredictionBackfillOptions, 'promptVersion' | 'model' | 'client'> = {},
+): Promise<PredictionBackfillChange[]> {
+  const target = {
+    modelVersion: getLLMProvider(options.model).modelVersion,
+    promptVersion: options.promptVersion ?? PROMPT_VERSION,
+  };
+  const predictions = await getBackfilledPredictions(target, options.client);
+  return predictions
+    .map((prediction) => ({
+      ...prediction,
+      ...diffTriggerNames(prediction.previousTriggerNames, prediction.predictedTriggerNames),
+    }))
+    .filter(isChanged);
+}
+
+const REPORT_SCOPE_NOTE =
+  "Only each dish's first event is predicted again; later events reuse the dish's confirmed triggers.";
+
+/**
+ * A plain-text report of changed predictions, one line per dish (with how many of its events
+ * changed), sorted by dish name, ending with a note that only first events are re-predicted.
+ */
+export function formatPredictionBackfillReport(changes: PredictionBackfillChange[]): string {
+  const changesByDishId = new Map<string, PredictionBackfillChange[]>();
+  for (const change of changes) {
+    changesByDishId.set(change.dishId, [...(changesByDishId.get(change.dishId) ?? []), change]);
+  }
+  if (changesByDishId.size === 0) {
+    return ['No predictions changed.', REPORT_SCOPE_NOTE].join('\n');
+  }
+
+  const lines = Array.from(changesByDishId.values())
+    .sort((a, b) => a[0].dishName.localeCompare(b[0].dishName))
+    .map((dishChanges) => {
+      const added = new Set(dishChanges.flatMap((change) => change.addedTriggerNames));
+      const removed = new Set(dishChanges.flatMap((change) => change.removedTriggerNames));
+      const unconfirmedCount = dishChanges.filter((change) => !change.confirmed).length;
+      const triggerChanges = [
+        ...Array.from(added).sort().map((name) => `+${name}`),
+        ...Array.from(removed).sort().map((name) => `-${name}`),
+      ];
+      const eventCount = `${dishChanges.length} event${dishChanges.length === 1 ? '' : 's'}`;
+      return `${dishChanges[0].dishName} (${eventCount}, ${unconfirmedCount} unconfirmed): ${triggerChanges.join(' ')}`;
+    });
+  return [`Predictions changed for ${changesByDishId.size} dishes:`, ...lines, REPORT_SCOPE_NOTE].join('\n');
+}
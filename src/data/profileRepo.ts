@@ -0,0 +1,30 @@
+import { supabase } from '@/lib/supabase';
+import { handleError } from '@/data/utils';
+
+// Get whether the user lets the LLM predict dishes and triggers (see migration 0024);
+// true when the profile has no setting
+export async function getAiPredictionsEnabled(userId: string): Promise<boolean> {
+  const { data, error } = await supabase
+    .from('profiles')
+    .select('ai_predictions_enabled')
+    .eq('id', userId)
+    .maybeSingle();
+
+  if (error) {
+    handleError(error);
+  }
+
+  return data?.ai_predictions_enabled ?? true;
+}
+
+// Turn LLM predictions on or off for the user
+export async function updateAiPredictionsEnabled(userId: string, enabled: boolean): Promise<void> {
+  const { error } = await supabase
+    .from('profiles')
+    .update({ ai_predictions_enabled: enabled })
+    .eq('id', userId);
+
+  if (error) {
+    handleError(error);
+  }
+}
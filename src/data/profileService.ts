@@ -0,0 +1,25 @@
+import { getAiPredictionsEnabled, updateAiPredictionsEnabled } from '@/data/profileRepo';
+import { getAuthenticatedUserId } from '@/data/utils';
+import { logger } from '@/utils/logger';
+
+const FILENAME = 'profileService.ts';
+
+/**
+ * Whether the authenticated user gets AI suggestions for new food entries.
+ */
+export async function getAiPredictionsEnabledForUser(): Promise<boolean> {
+  const userId = await getAuthenticatedUserId();
+  return getAiPredictionsEnabled(userId);
+}
+
+/**
+ * Turns AI suggestions on or off for the authenticated user. When off, new entries are split
+ * and their triggers predicted by the rule-based predictor, without calling the LLM.
+ */
+export async function setAiPredictionsEnabled(enabled: boolean): Promise<void> {
+  const userId = await getAuthenticatedUserId();
+
+  await updateAiPredictionsEnabled(userId, enabled);
+
+  logger.info(FILENAME, 'setAiPredictionsEnabled', 'AI predictions setting saved', { enabled });
+}
@@ -0,0 +1,144 @@
+import { ExtractedDish } from '@/types/foodEntry';
+import { ValidTriggerName } from '@/data/trigger';
+
+/**
+ * Local, dictionary-driven dish splitter and trigger predictor. Used when the LLM fails, and
+ * instead of the LLM for users who turned AI suggestions off. Predictions it makes are stored
+ * with this model version.
+ */
+export const RULES_MODEL_VERSION = 'rules-v1';
+
+/**
+ * Words that suggest each trigger, starting from the examples in the predictTriggers prompt.
+ * Matched as whole words in the dish name and fragment text, with an optional plural "s"/"es".
+ */
+export const TRIGGER_KEYWORDS: Record<ValidTriggerName, string[]> = {
+  alcohol: ['wine', 'beer', 'cider', 'cocktail', 'margarita', 'vodka', 'whiskey', 'whisky', 'gin', 'rum', 'tequila', 'sake'],
+  caffeine: ['coffee', 'espresso', 'latte', 'cappuccino', 'americano', 'mocha', 'tea', 'matcha', 'chai', 'energy drink', 'cola'],
+  dairy: ['butter', 'cream', 'milk', 'cheese', 'yogurt', 'yoghurt', 'latte', 'cappuccino', 'milkshake', 'parmesan', 'mozzarella', 'cheddar', 'feta', 'ice cream', 'alfredo'],
+  spicy: ['spicy', 'curry', 'chili', 'chilli', 'jalapeno', 'sriracha', 'hot sauce', 'salsa', 'vindaloo', 'buffalo'],
+  fried_food: ['fried', 'fries', 'tempura', 'donut', 'doughnut', 'chips', 'nuggets', 'onion rings'],
+  gluten: ['gluten', 'wheat', 'barley', 'rye', 'bread', 'toast', 'pasta', 'spaghetti', 'noodle', 'pizza', 'bagel', 'croissant', 'sandwich', 'burger', 'cheeseburger', 'hamburger', 'pita', 'wrap', 'tortilla', 'pancake', 'waffle', 'muffin', 'cake', 'cookie', 'beer', 'ramen', 'dumpling'],
+  added_sugar: ['added sugar', 'sugar', 'sweets', 'candy', 'chocolate', 'cake', 'cookie', 'donut', 'doughnut', 'soda', 'syrup', 'honey', 'ice cream', 'dessert', 'pastry'],
+  insoluble_fiber: ['insoluble fiber', 'oats', 'oatmeal', 'bran', 'whole wheat', 'whole grain', 'granola'],
+  fructans: ['onion', 'garlic', 'leek', 'shallot'],
+  legumes_beans: ['bean', 'lentil', 'chickpea', 'hummus', 'falafel', 'dal', 'dhal'],
+  high_fructose_fruits: ['apple', 'pear', 'mango', 'watermelon'],
+  red_meat: ['red meat', 'beef', 'pork', 'steak', 'lamb', 'burger', 'cheeseburger', 'hamburger', 'meatball'],
+  processed_meat: ['processed meat', 'ham', 'bacon', 'hotdog', 'hot dog', 'sausage', 'salami', 'pepperoni', 'chorizo', 'prosciutto'],
+  sesame: ['sesame', 'sesame seed', 'tahini', 'hummus'],
+  shellfish: ['shellfish', 'shrimp', 'prawn', 'crab', 'lobster', 'scallop', 'mussel', 'oyster', 'clam'],
+  fish: ['fish', 'salmon', 'tuna', 'cod', 'tilapia', 'sardine', 'anchovy', 'mackerel', 'trout'],
+  soy: ['soy', 'soybean', 'soylecithin', 'soy sauce', 'tofu', 'edamame', 'miso', 'tempeh'],
+  nuts: ['nut', 'almond', 'walnut', 'peanut', 'cashew', 'pecan', 'pistachio', 'hazelnut', 'pesto'],
+};
+
+const escapeRegExp = (value: string): string => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Whole-word match of a keyword (or phrase) with an optional plural ending, ignoring case
+const keywordPattern = (keyword: string): RegExp =>
+  new RegExp(`\\b${escapeRegExp(keyword.toLowerCase()).replace(/ /g, '\\s+')}(?:s|es)?\\b`, 'i');
+
+const TRIGGER_PATTERNS: Array<[ValidTriggerName, RegExp[]]> = (
+  Object.entries(TRIGGER_KEYWORDS) as Array<[ValidTriggerName, string[]]>
+).map(([triggerName, keywords]) => [triggerName, keywords.map(keywordPattern)]);
+
+// Entries are split into dishes on commas, semicolons, newlines, "and", "&" and "+"
+const DISH_SEPARATOR = /[,;\n]|\band\b|&|\+/i;
+
+const NUMBER_WORDS: Record<string, number> = {
+  one: 1,
+  two: 2,
+  three: 3,
+  four: 4,
+  five: 5,
+  six: 6,
+  seven: 7,
+  eight: 8,
+  nine: 9,
+  ten: 10,
+  half: 0.5,
+};
+
+// An amount at the start of a fragment ("2", "two", "half a"), then an optional article
+const LEADING_AMOUNT = /^(\d+(?:\.\d+)?|one|two|three|four|five|six|seven|eight|nine|ten|half)\s+(?:(?:a|an)\s+)?/i;
+const LEADING_ARTICLE = /^(?:a|an|the|some)\s+/i;
+
+// Words kept lowercase inside a dish name
+const MINOR_WORDS = new Set(['a', 'an', 'and', 'de', 'in', 'of', 'on', 'or', 'the', 'with']);
+
+const toDishName = (text: string): string =>
+  text
+    .split(/\s+/)
+    .filter(Boolean)
+    .map((word, index) =>
+      index > 0 && MINOR_WORDS.has(word.toLowerCase())
+        ? word.toLowerCase()
+        : word.charAt(0).toUpperCase() + word.slice(1).toLowerCase(),
+    )
+    .join(' ');
+
+/**
+ * Splits an entry into dishes ("Two eggs, toast and coffee" → Eggs, Toast, Coffee).
+ * A leading number becomes the quantity; other amounts and portion sizes are left unknown.
+ * An entry with nothing to split is returned as a single dish.
+ */
+export function ruleExtractDishes(rawEntryText: string): ExtractedDish[] {
+  const dishes = rawEntryText
+    .split(DISH_SEPARATOR)
+    .map((fragment) => fragment.trim())
+    .filter((fragment) => fragment.length > 0)
+    .map((fragment): ExtractedDish => {
+      const amount = LEADING_AMOUNT.exec(fragment);
+      const quantity = amount
+        ? NUMBER_WORDS[amount[1].toLowerCase()] ?? Number(amount[1])
+        : null;
+      const name = toDishName(
+        (amount ? fragment.slice(amount[0].length) : fragment).replace(LEADING_ARTICLE, ''),
+      );
+      return {
+        dish_fragment_text: fragment,
+        dish_name_suggestion: name || toDishName(fragment),
+        quantity,
+        unit: null,
+        portion_size: null,
+      };
+    });
+
+  if (dishes.length > 0) {
+    return dishes;
+  }
+  return [
+    {
+      dish_fragment_text: rawEntryText,
+      dish_name_suggestion: rawEntryText,
+      quantity: null,
+      unit: null,
+      portion_size: null,
+    },
+  ];
+}
+
+/**
+ * Predicts triggers from keywords in the dish name and fragment text ("garlic bread" → fructans,
+ * gluten). The user's custom triggers are predicted when their name appears in the text.
+ * @returns Built-in trigger names in VALID_TRIGGER_NAMES order, then custom trigger names.
+ */
+export function rulePredictTriggers<C extends string = never>(
+  dishName: string,
+  fragmentText: string,
+  customTriggerNames: readonly C[] = [],
+): Array<ValidTriggerName | C> {
+  const text = `${dishName}\n${fragmentText}`;
+  const triggerNames: Array<ValidTriggerName | C> = TRIGGER_PATTERNS.filter(([, patterns]) =>
+    patterns.some((pattern) => pattern.test(text)),
+  ).map(([triggerName]) => triggerName);
+
+  for (const customTriggerName of customTriggerNames) {
+    if (keywordPattern(customTriggerName).test(text) && !triggerNames.includes(customTriggerName)) {
+      triggerNames.push(customTriggerName);
+    }
+  }
+
+  return triggerNames;
+}
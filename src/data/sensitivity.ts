@@ -0,0 +1,66 @@
+import { TriggerSensitivity } from '@/types/sensitivity';
+import { getTriggerDisplayText } from '@/data/trigger';
+
+/**
+ * How strongly a user reacts to a trigger they already know about.
+ * These must match the sensitivity_level check constraint in the database (see migration 0022).
+ */
+export const SENSITIVITY_LEVELS = ['low', 'medium', 'high'] as const;
+
+export type SensitivityLevel = typeof SENSITIVITY_LEVELS[number];
+
+export const SENSITIVITY_LEVEL_DISPLAY_TEXT_MAP: Record<SensitivityLevel, string> = {
+  low: 'Low',
+  medium: 'Medium',
+  high: 'High',
+};
+
+// Returns the value if it is a known sensitivity level, otherwise null
+export function toSensitivityLevel(value: unknown): SensitivityLevel | null {
+  if (typeof value !== 'string') {
+    return null;
+  }
+  const normalized = value.trim().toLowerCase();
+  return SENSITIVITY_LEVELS.includes(normalized as SensitivityLevel)
+    ? (normalized as SensitivityLevel)
+    : null;
+}
+
+// Returns the IDs of the triggers the user is highly sensitive to, for highlighting
+export function getHighSensitivityTriggerIds(sensitivities: TriggerSensitivity[]): Set<string> {
+  return new Set(
+    sensitivities
+      .filter((sensitivity) => sensitivity.sensitivityLevel === 'high')
+      .map((sensitivity) => sensitivity.trigger.id),
+  );
+}
+
+// Returns the user's sensitivities to any of the given triggers, most sensitive first
+export function findKnownSensitivities(
+  triggerIds: string[],
+  sensitivities: TriggerSensitivity[],
+): TriggerSensitivity[] {
+  const ids = new Set(triggerIds);
+  return sensitivities
+    .filter((sensitivity) => ids.has(sensitivity.trigger.id))
+    .sort(
+      (a, b) =>
+        SENSITIVITY_LEVELS.indexOf(b.sensitivityLevel) -
+        SENSITIVITY_LEVELS.indexOf(a.sensitivityLevel),
+    );
+}
+
+// Formats a warning for a logged meal, e.g. "Contains Dairy (high sensitivity) and Gluten (low
+// sensitivity)"; null when the meal has no known triggers
+export function formatKnownTriggerWarning(known: TriggerSensitivity[]): string | null {
+  if (known.length === 0) {
+    return null;
+  }
+  const parts = known.map(
+    (sensitivity) =>
+      `${getTriggerDisplayText(sensitivity.trigger.triggerName)} (${sensitivity.sensitivityLevel} sensitivity)`,
+  );
+  const list =
+    parts.length === 1 ? parts[0] : `${parts.slice(0, -1).join(', ')} and ${parts[parts.length - 1]}`;
+  return `Contains ${list}`;
+}
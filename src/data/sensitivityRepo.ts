@@ -0,0 +1,100 @@
+import { supabase } from '@/lib/supabase';
+import { TriggerSensitivity } from '@/types/sensitivity';
+import { ProfileTriggerSensitivityRow, TriggerRow } from '@/types/supabase';
+import { fromTriggerRow } from '@/data/mappers';
+import { SensitivityLevel } from '@/data/sensitivity';
+import { handleError } from '@/data/utils';
+
+// Nested select for a sensitivity with its trigger (see migration 0022)
+const TRIGGER_SENSITIVITY_SELECT = `
+  id,
+  user_id,
+  trigger_id,
+  sensitivity_level,
+  created_at,
+  updated_at,
+  triggers:trigger_id (
+    id,
+    trigger_name,
+    created_at
+  )
+`;
+
+// Row of TRIGGER_SENSITIVITY_SELECT (trigger_id is required, so the trigger is always there)
+interface TriggerSensitivityQueryRow extends ProfileTriggerSensitivityRow {
+  triggers: TriggerRow;
+}
+
+function fromTriggerSensitivityRow(row: TriggerSensitivityQueryRow): TriggerSensitivity {
+  return {
+    id: row.id,
+    userId: row.user_id,
+    trigger: fromTriggerRow(row.triggers),
+    sensitivityLevel: row.sensitivity_level,
+    updatedAt: new Date(row.updated_at).getTime(),
+  };
+}
+
+// Get all of a user's known sensitivities with their triggers, oldest first
+export async function getTriggerSensitivitiesByUserId(userId: string): Promise<TriggerSensitivity[]> {
+  const { data, error } = await supabase
+    .from('profile_trigger_sensitivities')
+    .select(TRIGGER_SENSITIVITY_SELECT)
+    .eq('user_id', userId)
+    .order('created_at', { ascending: true });
+
+  if (error) {
+    handleError(error);
+  }
+
+  if (!data) {
+    return [];
+  }
+
+  return (data as unknown as TriggerSensitivityQueryRow[])
+    .filter((row) => row.triggers)
+    .map((row) => fromTriggerSensitivityRow(row));
+}
+
+// Set the user's sensitivity to a trigger, replacing any level set before
+export async function upsertTriggerSensitivity(
+  userId: string,
+  triggerId: string,
+  sensitivityLevel: SensitivityLevel,
+): Promise<TriggerSensitivity> {
+  const { data, error } = await supabase
+    .from('profile_trigger_sensitivities')
+    .upsert(
+      {
+        user_id: userId,
+        trigger_id: triggerId,
+        sensitivity_level: sensitivityLevel,
+        updated_at: new Date().toISOString(),
+      },
+      { onConflict: 'user_id,trigger_id' },
+    )
+    .select(TRIGGER_SENSITIVITY_SELECT)
+    .single();
+
+  if (error) {
+    handleError(error);
+  }
+
+  if (!data) {
+    throw new Error('Failed to save sensitivity');
+  }
+
+  return fromTriggerSensitivityRow(data as unknown as TriggerSensitivityQueryRow);
+}
+
+// Delete a sensitivity from the user's profile
+export async function deleteTriggerSensitivityById(sensitivityId: string): Promise<void> {
+  const { error } = await supabase
+    .from('profile_trigger_sensitivities')
+    .delete()
+    .eq('id', sensitivityId);
+
+  if (error) {
+    handleError(error);
+  }
+}
@@ -0,0 +1,82 @@
+import { DishWithTriggers } from '@/types/foodEntry';
+import { TriggerSensitivity } from '@/types/sensitivity';
+import {
+  deleteTriggerSensitivityById,
+  getTriggerSensitivitiesByUserId,
+  upsertTriggerSensitivity,
+} from '@/data/sensitivityRepo';
+import {
+  findKnownSensitivities,
+  formatKnownTriggerWarning,
+  SensitivityLevel,
+} from '@/data/sensitivity';
+import { getAuthenticatedUserId } from '@/data/utils';
+import { logger } from '@/utils/logger';
+
+const FILENAME = 'sensitivityService.ts';
+
+/**
+ * Fetches the authenticated user's known sensitivities, oldest first.
+ */
+export async function getTriggerSensitivitiesForUser(): Promise<TriggerSensitivity[]> {
+  const userId = await getAuthenticatedUserId();
+  return getTriggerSensitivitiesByUserId(userId);
+}
+
+/**
+ * Sets how sensitive the authenticated user is to a trigger, replacing any level set before.
+ */
+export async function setTriggerSensitivity(
+  triggerId: string,
+  sensitivityLevel: SensitivityLevel,
+): Promise<TriggerSensitivity> {
+  const userId = await getAuthenticatedUserId();
+
+  const sensitivity = await upsertTriggerSensitivity(userId, triggerId, sensitivityLevel);
+
+  logger.info(FILENAME, 'setTriggerSensitivity', 'Sensitivity saved', {
+    triggerId,
+    sensitivityLevel,
+  });
+
+  return sensitivity;
+}
+
+/**
+ * Removes a trigger from the authenticated user's known sensitivities.
+ */
+export async function removeTriggerSensitivity(sensitivityId: string): Promise<void> {
+  await getAuthenticatedUserId(); // Verify auth
+  await deleteTriggerSensitivityById(sensitivityId);
+}
+
+/**
+ * Builds the warning shown right after a meal is logged when it contains triggers the user is
+ * known to be sensitive to. Uses each dish's confirmed triggers, otherwise its predicted triggers.
+ * The meal is already logged, so failing to load the profile only skips the warning.
+ * @returns The warning text, or null if the meal has no known triggers
+ */
+export async function getKnownTriggerWarning(dishes: DishWithTriggers[]): Promise<string | null> {
+  const triggerIds = dishes.flatMap((dish) =>
+    (dish.triggers ?? dish.predicted_triggers ?? []).map((trigger) => trigger.trigger_id),
+  );
+  if (triggerIds.length === 0) {
+    return null;
+  }
+
+  try {
+    const sensitivities = await getTriggerSensitivitiesForUser();
+    const known = findKnownSensitivities(triggerIds, sensitivities);
+
+    if (known.length > 0) {
+      logger.info(FILENAME, 'getKnownTriggerWarning', 'Meal contains known triggers', {
+        triggerIds: known.map((sensitivity) => sensitivity.trigger.id),
+      });
+    }
+
+    return formatKnownTriggerWarning(known);
+  } catch (error) {
+    logger.warn(FILENAME, 'getKnownTriggerWarning', 'Failed to check known sensitivities', error);
+    return null;
+  }
+}
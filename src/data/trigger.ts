@@ -1,6 +1,8 @@
+import { Trigger } from '@/types/dish';
+
 /**
- * Valid trigger names that can be returned by the LLM.
- * These must match the trigger names in the database.
+ * Built-in trigger names that can be returned by the LLM (besides the user's custom triggers).
+ * These must match the built-in trigger names in the database.
  */
 export const VALID_TRIGGER_NAMES = [
     'alcohol',
@@ -59,4 +61,34 @@ export const TRIGGER_DISPLAY_TEXT_MAP: Record<string, string> = {
 // Helper function to get display text for a trigger
 export function getTriggerDisplayText(triggerName: string): string {
   return TRIGGER_DISPLAY_TEXT_MAP[triggerName] || triggerName;
-};
\ No newline at end of file
+};
+
+// Trims and collapses spaces in a custom trigger name; custom triggers are shown as typed
+export function normalizeCustomTriggerName(name: string): string {
+  return name.trim().replace(/\s+/g, ' ');
+}
+
+// Finds a trigger by its name or display text, ignoring case ("Added sugar" finds added_sugar)
+export function findTriggerByName(triggers: Trigger[], name: string): Trigger | undefined {
+  const wanted = normalizeCustomTriggerName(name).toLowerCase();
+  return triggers.find(
+    (trigger) =>
+      trigger.triggerName.toLowerCase() === wanted ||
+      getTriggerDisplayText(trigger.triggerName).toLowerCase() === wanted,
+  );
+}
+
+/**
+ * Returns the stored name of a trigger name from the LLM: a built-in trigger name as is, or one of
+ * the user's custom trigger names matched ignoring case. Anything else is null.
+ */
+export function resolvePredictedTriggerName<C extends string>(
+  name: string,
+  customTriggerNames: readonly C[],
+): ValidTriggerName | C | null {
+  if (VALID_TRIGGER_NAMES.includes(name as ValidTriggerName)) {
+    return name as ValidTriggerName;
+  }
+  const wanted = normalizeCustomTriggerName(name).toLowerCase();
+  return customTriggerNames.find((customName) => customName.toLowerCase() === wanted) ?? null;
+}
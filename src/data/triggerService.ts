@@ -0,0 +1,49 @@
+import { Trigger } from '@/types/dish';
+import {
+  createCustomTrigger as createCustomTriggerRow,
+  getAllTriggers,
+  getCustomTriggers,
+} from '@/data/foodEntryRepo';
+import { findTriggerByName, normalizeCustomTriggerName } from '@/data/trigger';
+import { getAuthenticatedUserId } from '@/data/utils';
+import { logger } from '@/utils/logger';
+
+const FILENAME = 'triggerService.ts';
+
+/**
+ * Fetches the authenticated user's custom triggers, by name.
+ */
+export async function getCustomTriggersForUser(): Promise<Trigger[]> {
+  const userId = await getAuthenticatedUserId();
+  return getCustomTriggers(userId);
+}
+
+/**
+ * Creates a custom trigger ("cilantro") for the authenticated user.
+ * If a built-in or custom trigger with that name or display text already exists, it is returned
+ * instead of creating a duplicate.
+ */
+export async function createCustomTrigger(triggerName: string): Promise<Trigger> {
+  const userId = await getAuthenticatedUserId();
+
+  const name = normalizeCustomTriggerName(triggerName);
+  if (!name) {
+    throw new Error('Trigger name is required');
+  }
+
+  const existing = findTriggerByName(await getAllTriggers(), name);
+  if (existing) {
+    logger.info(FILENAME, 'createCustomTrigger', 'Trigger already exists', {
+      triggerId: existing.id,
+    });
+    return existing;
+  }
+
+  const trigger = await createCustomTriggerRow(userId, name);
+
+  logger.info(FILENAME, 'createCustomTrigger', 'Custom trigger created', {
+    triggerId: trigger.id,
+  });
+
+  return trigger;
+}
@@ -1,7 +1,22 @@
 import { supabase } from '@/lib/supabase';
 
 /**
- * Handles Supabase errors by converting them to standard Error objects.
+ * A Supabase error with its Postgres error code (SQLSTATE) and details, so callers can tell
+ * errors apart without matching their messages.
+ */
+export class DatabaseError extends Error {
+  constructor(
+    message: string,
+    readonly code: string | null,
+    readonly details: string | null,
+  ) {
+    super(message);
+    this.name = 'DatabaseError';
+  }
+}
+
+/**
+ * Handles Supabase errors by converting them to DatabaseError objects.
  */
 export function handleError(error: unknown) {
   if (error instanceof Error) throw error;
@@ -10,7 +25,11 @@ export function handleError(error: unknown) {
   if (error && typeof error === 'object') {
     const supabaseError = error as { message?: string; code?: string; [key: string]: any };
     if ('message' in supabaseError && typeof supabaseError.message === 'string') {
-      throw new Error(supabaseError.message);
+      throw new DatabaseError(
+        supabaseError.message,
+        supabaseError.code ?? null,
+        typeof supabaseError.details === 'string' ? supabaseError.details : null,
+      );
     }
     // If it's an error-like object but no message, try to stringify it
     if ('code' in supabaseError) {
@@ -0,0 +1,117 @@
+import { invokeLLMFunction } from '@/lib/llmProvider';
+import { logger } from '@/utils/logger';
+
+const FILENAME = 'embeddings.ts';
+
+export const OPENAI_EMBEDDING_MODEL = 'text-embedding-3-small';
+export const LOCAL_EMBEDDING_MODEL = 'local-trigram-v1';
+
+/**
+ * Turns texts into embedding vectors. Vectors from different models are not comparable,
+ * so stored embeddings are keyed by `model`.
+ */
+export interface Embedder {
+  readonly model: string;
+  embed(texts: string[]): Promise<number[][]>;
+}
+
+/**
+ * Embedder that calls the OpenAI embeddings API through the llm Edge Function (used in
+ * production), so the OpenAI key stays on the server.
+ */
+export function createSupabaseFunctionEmbedder(model: string = OPENAI_EMBEDDING_MODEL): Embedder {
+  return {
+    model,
+    async embed(texts: string[]): Promise<number[][]> {
+      if (texts.length === 0) {
+        return [];
+      }
+
+      logger.info(FILENAME, 'embed', 'Calling the llm function for embeddings', { model, textCount: texts.length });
+      const { embeddings } = await invokeLLMFunction<{ embeddings: number[][] }>({
+        operation: 'embed',
+        texts,
+        model,
+      });
+      return embeddings;
+    },
+  };
+}
+
+// FNV-1a, so the local embedder is stable across runs and platforms. Not hashString from
+// src/utils/hash.ts: switching would change the vectors stored under the same local model name.
+function fnv1aHash(value: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/**
+ * Deterministic embedder that hashes character trigrams of each word into a fixed-size vector.
+ * Needs no network access, so tests can exercise similarity matching end to end.
+ * It captures spelling overlap only, not meaning.
+ */
+export function createLocalEmbedder(dimensions = 256): Embedder {
+  return {
+    model: `${LOCAL_EMBEDDING_MODEL}-${dimensions}`,
+    async embed(texts: string[]): Promise<number[][]> {
+      return texts.map((text) => {
+        const vector = new Array<number>(dimensions).fill(0);
+        const words = text.toLowerCase().split(/[^a-z0-9]+/).filter(Boolean);
+        for (const word of words) {
+          const padded = `#${word}#`;
+          for (let i = 0; i + 3 <= padded.length; i++) {
+            vector[fnv1aHash(padded.slice(i, i + 3)) % dimensions] += 1;
+          }
+        }
+        return vector;
+      });
+    },
+  };
+}
+
+/**
+ * Cosine similarity of two vectors; 0 if either is empty, all zeros, or the lengths differ.
+ */
+export function cosineSimilarity(a: number[], b: number[]): number {
+  if (a.length === 0 || a.length !== b.length) {
+    return 0;
+  }
+
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+
+  if (normA === 0 || normB === 0) {
+    return 0;
+  }
+  return dot / (Math.sqrt(normA) * Math.sqrt(normB));
+}
+
+let embedder: Embedder | null = null;
+
+/**
+ * Returns the active embedder (OpenAI through the llm Edge Function unless replaced with setEmbedder).
+ */
+export function getEmbedder(): Embedder {
+  if (!embedder) {
+    embedder = createSupabaseFunctionEmbedder();
+  }
+  return embedder;
+}
+
+/**
+ * Replaces the active embedder, e.g. with createLocalEmbedder() in tests.
+ * Pass null to go back to the default.
+ */
+export function setEmbedder(nextEmbedder: Embedder | null): void {
+  embedder = nextEmbedder;
+}
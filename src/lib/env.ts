@@ -12,5 +12,19 @@ export const env = {
     process.env.EXPO_PUBLIC_SUPABASE_ANON_KEY,
     'EXPO_PUBLIC_SUPABASE_ANON_KEY',
   ),
-  openaiApiKey: requireEnv(process.env.EXPO_PUBLIC_OPENAI_API_KEY, 'EXPO_PUBLIC_OPENAI_API_KEY'),
+  // Optional LLM provider selection (see src/lib/llmProvider.ts); the llm Edge Function when unset.
+  // There is no API key: anything here is bundled into the app.
+  llmProvider: process.env.EXPO_PUBLIC_LLM_PROVIDER,
+  llmBaseUrl: process.env.EXPO_PUBLIC_LLM_BASE_URL,
+  llmModel: process.env.EXPO_PUBLIC_LLM_MODEL,
+  // "true" if the openai-compatible endpoint supports structured outputs (json_schema)
+  llmJsonSchema: process.env.EXPO_PUBLIC_LLM_JSON_SCHEMA,
+  // Optional LLM call limits (see src/lib/llmResilience.ts)
+  llmTimeoutMs: process.env.EXPO_PUBLIC_LLM_TIMEOUT_MS,
+  llmMaxRetries: process.env.EXPO_PUBLIC_LLM_MAX_RETRIES,
+  // "true" to share cached LLM responses across the user's devices (see src/lib/llmCache.ts)
+  llmCacheShared: process.env.EXPO_PUBLIC_LLM_CACHE_SHARED,
+  // Optional prompt experiment to run, and weight overrides (see src/lib/promptExperiments.ts)
+  promptExperiment: process.env.EXPO_PUBLIC_PROMPT_EXPERIMENT,
+  promptExperimentWeights: process.env.EXPO_PUBLIC_PROMPT_EXPERIMENT_WEIGHTS,
 };
@@ -0,0 +1,278 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { env } from '@/lib/env';
+import {
+  deleteLLMResponseCacheRows,
+  getLLMResponseCacheRow,
+  upsertLLMResponseCacheRow,
+} from '@/data/llmCacheRepo';
+import { getAuthenticatedUserId } from '@/data/utils';
+import { hashString } from '@/utils/hash';
+import { logger } from '@/utils/logger';
+
+const FILENAME = 'llmCache.ts';
+
+export interface LLMCacheEntry {
+  response: string;
+  // Milliseconds since the epoch; entries older than the cache's TTL are ignored
+  storedAt: number;
+}
+
+/**
+ * One layer of the LLM response cache (memory, device storage, Supabase).
+ * Stores only keep entries; expiry and metrics are handled by the cache on top of them.
+ */
+export interface LLMCacheStore {
+  readonly name: string;
+  get(key: string): Promise<LLMCacheEntry | null>;
+  set(key: string, entry: LLMCacheEntry): Promise<void>;
+  delete(key: string): Promise<void>;
+  clear(): Promise<void>;
+}
+
+export interface LLMCacheMetrics {
+  hitCount: number;
+  missCount: number;
+  // Null before the first lookup
+  hitRate: number | null;
+  // Hits by the name of the store that answered
+  hitCountByStore: Record<string, number>;
+}
+
+/**
+ * LLM responses by cache key, read from the fastest store that has them.
+ */
+export interface LLMCache {
+  get(key: string): Promise<string | null>;
+  set(key: string, response: string): Promise<void>;
+  delete(key: string): Promise<void>;
+  clear(): Promise<void>;
+  getMetrics(): LLMCacheMetrics;
+}
+
+export const DEFAULT_LLM_CACHE_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+export const DEFAULT_MEMORY_CACHE_MAX_ENTRIES = 100;
+export const DEFAULT_DEVICE_CACHE_MAX_ENTRIES = 500;
+
+/**
+ * Identifies an LLM request. A different model or prompt version never reuses a response.
+ */
+export function getLLMCacheKey(prompt: string, modelVersion: string, promptVersion: string): string {
+  const text = `${modelVersion}\n${promptVersion}\n${prompt}`;
+  // Two seeds give a 106-bit key, so collisions are negligible
+  return [1, 2].map((seed) => hashString(text, seed).toString(16).padStart(14, '0')).join('');
+}
+
+/**
+ * In-memory store that drops the least recently used entry beyond maxEntries.
+ */
+export function createMemoryCacheStore(
+  maxEntries: number = DEFAULT_MEMORY_CACHE_MAX_ENTRIES,
+): LLMCacheStore {
+  // Map iteration order is insertion order, so re-inserting on read keeps it in LRU order
+  const entries = new Map<string, LLMCacheEntry>();
+
+  return {
+    name: 'memory',
+    async get(key) {
+      const entry = entries.get(key);
+      if (!entry) {
+        return null;
+      }
+      entries.delete(key);
+      entries.set(key, entry);
+      return entry;
+    },
+    async set(key, entry) {
+      entries.delete(key);
+      entries.set(key, entry);
+      while (entries.size > maxEntries) {
+        entries.delete(entries.keys().next().value as string);
+      }
+    },
+    async delete(key) {
+      entries.delete(key);
+    },
+    async clear() {
+      entries.clear();
+    },
+  };
+}
+
+const DEVICE_KEY_PREFIX = 'llm-cache:';
+const DEVICE_INDEX_KEY = `${DEVICE_KEY_PREFIX}index`;
+
+/**
+ * AsyncStorage store that survives app restarts. An index of keys, oldest first, lets it drop
+ * the oldest entries beyond maxEntries.
+ */
+export function createDeviceCacheStore(
+  maxEntries: number = DEFAULT_DEVICE_CACHE_MAX_ENTRIES,
+): LLMCacheStore {
+  // Index updates are read-modify-write, so they run one at a time
+  let indexUpdate: Promise<void> = Promise.resolve();
+  const updateIndex = (update: (keys: string[]) => string[]): Promise<void> => {
+    indexUpdate = indexUpdate.then(async () => {
+      const stored = await AsyncStorage.getItem(DEVICE_INDEX_KEY);
+      const keys = update(stored ? (JSON.parse(stored) as string[]) : []);
+      const evicted = keys.splice(0, Math.max(0, keys.length - maxEntries));
+      if (evicted.length > 0) {
+        await AsyncStorage.multiRemove(evicted.map((key) => DEVICE_KEY_PREFIX + key));
+      }
+      await AsyncStorage.setItem(DEVICE_INDEX_KEY, JSON.stringify(keys));
+    });
+    return indexUpdate;
+  };
+
+  return {
+    name: 'device',
+    async get(key) {
+      const stored = await AsyncStorage.getItem(DEVICE_KEY_PREFIX + key);
+      return stored ? (JSON.parse(stored) as LLMCacheEntry) : null;
+    },
+    async set(key, entry) {
+      await AsyncStorage.setItem(DEVICE_KEY_PREFIX + key, JSON.stringify(entry));
+      await updateIndex((keys) => [...keys.filter((existing) => existing !== key), key]);
+    },
+    async delete(key) {
+      await AsyncStorage.removeItem(DEVICE_KEY_PREFIX + key);
+      await updateIndex((keys) => keys.filter((existing) => existing !== key));
+    },
+    async clear() {
+      let removedKeys: string[] = [];
+      await updateIndex((keys) => {
+        removedKeys = keys;
+        return [];
+      });
+      await AsyncStorage.multiRemove(removedKeys.map((key) => DEVICE_KEY_PREFIX + key));
+    },
+  };
+}
+
+/**
+ * Supabase store shared by the signed-in user's devices (see migration 0025).
+ */
+export function createSupabaseCacheStore(): LLMCacheStore {
+  return {
+    name: 'supabase',
+    async get(key) {
+      const row = await getLLMResponseCacheRow(await getAuthenticatedUserId(), key);
+      return row ? { response: row.response, storedAt: Date.parse(row.created_at) } : null;
+    },
+    async set(key, entry) {
+      await upsertLLMResponseCacheRow(await getAuthenticatedUserId(), key, entry.response, entry.storedAt);
+    },
+    async delete(key) {
+      await deleteLLMResponseCacheRows(await getAuthenticatedUserId(), key);
+    },
+    async clear() {
+      await deleteLLMResponseCacheRows(await getAuthenticatedUserId());
+    },
+  };
+}
+
+export interface LLMCacheOptions {
+  ttlMs?: number;
+  now?: () => number;
+}
+
+/**
+ * Layers stores from fastest to slowest. A hit in a slower store is copied into the faster
+ * ones; a new response is written to all of them. A failing store counts as a miss and is
+ * logged, so the cache never fails an LLM call.
+ */
+export function createLLMCache(stores: LLMCacheStore[], options: LLMCacheOptions = {}): LLMCache {
+  const ttlMs = options.ttlMs ?? DEFAULT_LLM_CACHE_TTL_MS;
+  const now = options.now ?? Date.now;
+  let hitCount = 0;
+  let missCount = 0;
+  const hitCountByStore: Record<string, number> = {};
+
+  const forEachStore = (
+    targets: LLMCacheStore[],
+    method: string,
+    action: (store: LLMCacheStore) => Promise<void>,
+  ): Promise<void> =>
+    Promise.all(
+      targets.map((store) =>
+        action(store).catch((error) => {
+          logger.warn(FILENAME, method, 'LLM cache store failed', { store: store.name, error: error?.message });
+        }),
+      ),
+    ).then(() => undefined);
+
+  return {
+    async get(key) {
+      for (let i = 0; i < stores.length; i++) {
+        const store = stores[i];
+        let entry: LLMCacheEntry | null = null;
+        try {
+          entry = await store.get(key);
+        } catch (error: any) {
+          logger.warn(FILENAME, 'get', 'LLM cache store failed', { store: store.name, error: error?.message });
+          continue;
+        }
+        if (!entry) {
+          continue;
+        }
+        if (now() - entry.storedAt >= ttlMs) {
+          void forEachStore([store], 'get', (expired) => expired.delete(key));
+          continue;
+        }
+
+        hitCount += 1;
+        hitCountByStore[store.name] = (hitCountByStore[store.name] ?? 0) + 1;
+        void forEachStore(stores.slice(0, i), 'get', (faster) => faster.set(key, entry));
+        logger.info(FILENAME, 'get', 'LLM cache hit', { store: store.name, hitCount, missCount });
+        return entry.response;
+      }
+
+      missCount += 1;
+      logger.info(FILENAME, 'get', 'LLM cache miss', { hitCount, missCount });
+      return null;
+    },
+    set(key, response) {
+      const entry = { response, storedAt: now() };
+      return forEachStore(stores, 'set', (store) => store.set(key, entry));
+    },
+    delete(key) {
+      return forEachStore(stores, 'delete', (store) => store.delete(key));
+    },
+    clear() {
+      return forEachStore(stores, 'clear', (store) => store.clear());
+    },
+    getMetrics() {
+      const lookupCount = hitCount + missCount;
+      return {
+        hitCount,
+        missCount,
+        hitRate: lookupCount > 0 ? hitCount / lookupCount : null,
+        hitCountByStore: { ...hitCountByStore },
+      };
+    },
+  };
+}
+
+let cache: LLMCache | null = null;
+
+/**
+ * Returns the active LLM response cache: memory, then device storage, then Supabase when
+ * EXPO_PUBLIC_LLM_CACHE_SHARED is "true" (unless replaced with setLLMCache).
+ */
+export function getLLMCache(): LLMCache {
+  if (!cache) {
+    const stores = [createMemoryCacheStore(), createDeviceCacheStore()];
+    if (env.llmCacheShared === 'true') {
+      stores.push(createSupabaseCacheStore());
+    }
+    cache = createLLMCache(stores);
+  }
+  return cache;
+}
+
+/**
+ * Replaces the active LLM response cache, e.g. with a memory-only one in tests.
+ * Pass null to go back to the configured one.
+ */
+export function setLLMCache(nextCache: LLMCache | null): void {
+  cache = nextCache;
+}
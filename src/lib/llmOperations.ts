@@ -0,0 +1,80 @@
+import {
+  getDecomposeDishPrompt,
+  getExtractDishesPrompt,
+  getPredictTriggersPrompt,
+} from '@/lib/llmPrompts';
+import { Schema } from '@/lib/llmSchema';
+import {
+  extractDishesResponseSchema,
+  getDecomposeDishResponseSchema,
+  getPredictTriggersResponseSchema,
+} from '@/lib/llmResponseSchemas';
+
+/**
+ * The LLM operations of food entry processing, described by their data only.
+ *
+ * The llm Edge Function receives an operation, builds its prompt and checks the response against
+ * the operation's schema on the server. Providers the app calls directly build the same prompt
+ * here. This module is also imported by the function (see supabase/functions/llm/deno.json), so
+ * it must stay free of React Native and Supabase client code.
+ */
+export type LLMOperation =
+  | {
+      operation: 'extract_dishes';
+      raw_entry_text: string;
+      prompt_version: string;
+    }
+  | {
+      operation: 'predict_triggers' | 'decompose_dish';
+      dish_name: string;
+      fragment_text: string;
+      custom_trigger_names: string[];
+      prompt_version: string;
+    };
+
+export type LLMOperationName = LLMOperation['operation'];
+
+export const LLM_OPERATION_NAMES: readonly LLMOperationName[] = [
+  'extract_dishes',
+  'predict_triggers',
+  'decompose_dish',
+];
+
+/**
+ * The prompt for an operation in its prompt version.
+ * @throws If the prompt version is unknown or has no prompt for the operation.
+ */
+export function getLLMOperationPrompt(operation: LLMOperation): string {
+  switch (operation.operation) {
+    case 'extract_dishes':
+      return getExtractDishesPrompt(operation.raw_entry_text, operation.prompt_version);
+    case 'predict_triggers':
+      return getPredictTriggersPrompt(
+        operation.dish_name,
+        operation.fragment_text,
+        operation.custom_trigger_names,
+        operation.prompt_version,
+      );
+    case 'decompose_dish':
+      return getDecomposeDishPrompt(
+        operation.dish_name,
+        operation.fragment_text,
+        operation.custom_trigger_names,
+        operation.prompt_version,
+      );
+  }
+}
+
+/**
+ * The schema an operation's response must match. Its name is the operation's.
+ */
+export function getLLMOperationSchema(operation: LLMOperation): Schema<unknown> {
+  switch (operation.operation) {
+    case 'extract_dishes':
+      return extractDishesResponseSchema;
+    case 'predict_triggers':
+      return getPredictTriggersResponseSchema(operation.custom_trigger_names);
+    case 'decompose_dish':
+      return getDecomposeDishResponseSchema(operation.custom_trigger_names);
+  }
+}
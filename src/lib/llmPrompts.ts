@@ -8,39 +8,31 @@ import { VALID_TRIGGER_NAMES } from '@/data/trigger'
  */
 
 export const MODEL_VERSION = 'gpt-4o-mini';
-export const PROMPT_VERSION = 'v1';
+export const PROMPT_VERSION = 'v4';
 
-/**
- * Prompt templates indexed by version.
- */
-export const PROMPTS = {
-  v1: {
-    extractDishes: (rawEntryText: string): string => {
-      return `You are a food logging assistant. Extract individual dishes from the user's food entry text.
-
-User input: "${rawEntryText}"
-
-Return a JSON object with a "dishes" array where each dish has:
-- dish_fragment_text: The exact text fragment that refers to this dish
-- dish_name_suggestion: A normalized, properly capitalized dish name
-
-Example: For "Chocolate Croissant and Matcha Latte", return:
-{
-  "dishes": [
-    {"dish_fragment_text": "Chocolate Croissant", "dish_name_suggestion": "Chocolate Croissant"},
-    {"dish_fragment_text": "Matcha Latte", "dish_name_suggestion": "Matcha Latte"}
-  ]
-}
+// Lists the user's custom triggers after the built-in ones; empty when the user has none, so the
+// prompt reads exactly as it did before custom triggers
+const customTriggersSection = (customTriggerNames: string[]): string => {
+  if (customTriggerNames.length === 0) {
+    return '';
+  }
+  return `
+The user also tracks these personal triggers: ${customTriggerNames.map((name) => `"${name}"`).join(', ')}
+Return a personal trigger exactly as written above when the dish likely contains it.`;
+};
 
-Return ONLY valid JSON with a "dishes" array, no other text.`;
-    },
-    predictTriggers: (dishName: string, fragmentText: string): string => {
-      return `You are a food trigger prediction assistant. Predict potential food triggers (allergens, intolerances) for a dish.
+// Shared by prompt versions that only differ in dish extraction; v4 adds custom triggers
+const predictTriggersPrompt = (
+  dishName: string,
+  fragmentText: string,
+  customTriggerNames: string[],
+): string => {
+  return `You are a food trigger prediction assistant. Predict potential food triggers (allergens, intolerances) for a dish.
 
 Dish name: "${dishName}"
 Context: "${fragmentText}"
 
-Common triggers include: ${VALID_TRIGGER_NAMES.join(', ')}
+Common triggers include: ${VALID_TRIGGER_NAMES.join(', ')}${customTriggersSection(customTriggerNames)}
 
 Return a JSON object with a "triggers" array of trigger names (lowercase, use underscores for multi-word triggers like "red_meat").
 If no triggers are likely, return an empty array.
@@ -77,7 +69,123 @@ For "Grilled Salmon", return:
 }
 
 Return ONLY valid JSON with a "triggers" array, no other text.`;
+};
+
+const predictTriggersV1 = (dishName: string, fragmentText: string): string => {
+  return predictTriggersPrompt(dishName, fragmentText, []);
+};
+
+// Shared by prompt versions that extract portions with each dish
+const extractDishesV2 = (rawEntryText: string): string => {
+  return `You are a food logging assistant. Extract individual dishes from the user's food entry text, with how much of each dish was eaten.
+
+User input: "${rawEntryText}"
+
+Return a JSON object with a "dishes" array where each dish has:
+- dish_fragment_text: The exact text fragment that refers to this dish
+- dish_name_suggestion: A normalized, properly capitalized dish name, without the amount
+- quantity: The number of units eaten as a number (e.g. 2 for "two coffees", 0.5 for "half a pizza"), or null if no amount is mentioned
+- unit: The unit of the quantity in lowercase singular (e.g. "cup", "slice", "sip", "g"), or null if the quantity is a plain count or unknown
+- portion_size: "small", "medium" or "large" if the text describes the portion size (e.g. "a large bowl", "a small bite"), otherwise null
+
+Do not guess amounts that are not in the text.
+
+Example: For "Two large coffees and a sip of orange juice", return:
+{
+  "dishes": [
+    {"dish_fragment_text": "Two large coffees", "dish_name_suggestion": "Coffee", "quantity": 2, "unit": null, "portion_size": "large"},
+    {"dish_fragment_text": "a sip of orange juice", "dish_name_suggestion": "Orange Juice", "quantity": 1, "unit": "sip", "portion_size": null}
+  ]
+}
+
+Example: For "Chocolate Croissant and Matcha Latte", return:
+{
+  "dishes": [
+    {"dish_fragment_text": "Chocolate Croissant", "dish_name_suggestion": "Chocolate Croissant", "quantity": null, "unit": null, "portion_size": null},
+    {"dish_fragment_text": "Matcha Latte", "dish_name_suggestion": "Matcha Latte", "quantity": null, "unit": null, "portion_size": null}
+  ]
+}
+
+Return ONLY valid JSON with a "dishes" array, no other text.`;
+};
+
+// Shared by prompt versions that break dishes into ingredients; v4 adds custom triggers
+const decomposeDishPrompt = (
+  dishName: string,
+  fragmentText: string,
+  customTriggerNames: string[],
+): string => {
+  return `You are a food ingredient assistant. Break a dish down into its main ingredients and the food triggers (allergens, intolerances) each ingredient carries.
+
+Dish name: "${dishName}"
+Context: "${fragmentText}"
+
+Valid triggers: ${VALID_TRIGGER_NAMES.join(', ')}${customTriggersSection(customTriggerNames)}
+
+Return a JSON object with an "ingredients" array where each ingredient has:
+- ingredient_name: A short, lowercase ingredient name (e.g. "croutons", "parmesan")
+- triggers: An array of trigger names from the valid triggers that this ingredient carries, or an empty array
+
+List only the ingredients a typical version of the dish contains (at most 10), and skip
+seasonings like salt and pepper. Only use triggers from the valid triggers list.
+
+Example: For "Caesar Salad", return:
+{
+  "ingredients": [
+    {"ingredient_name": "romaine lettuce", "triggers": []},
+    {"ingredient_name": "croutons", "triggers": ["gluten"]},
+    {"ingredient_name": "parmesan", "triggers": ["dairy"]},
+    {"ingredient_name": "caesar dressing", "triggers": ["dairy", "fish", "fructans"]}
+  ]
+}
+
+Return ONLY valid JSON with an "ingredients" array, no other text.`;
+};
+
+/**
+ * Prompt templates indexed by version.
+ */
+export const PROMPTS = {
+  v1: {
+    extractDishes: (rawEntryText: string): string => {
+      return `You are a food logging assistant. Extract individual dishes from the user's food entry text.
+
+User input: "${rawEntryText}"
+
+Return a JSON object with a "dishes" array where each dish has:
+- dish_fragment_text: The exact text fragment that refers to this dish
+- dish_name_suggestion: A normalized, properly capitalized dish name
+
+Example: For "Chocolate Croissant and Matcha Latte", return:
+{
+  "dishes": [
+    {"dish_fragment_text": "Chocolate Croissant", "dish_name_suggestion": "Chocolate Croissant"},
+    {"dish_fragment_text": "Matcha Latte", "dish_name_suggestion": "Matcha Latte"}
+  ]
+}
+
+Return ONLY valid JSON with a "dishes" array, no other text.`;
     },
+    predictTriggers: predictTriggersV1,
+  },
+  // v2: also extracts how much of each dish was eaten
+  v2: {
+    extractDishes: extractDishesV2,
+    predictTriggers: predictTriggersV1,
+  },
+  // v3: also breaks each new dish into ingredients, each with its own triggers
+  v3: {
+    extractDishes: extractDishesV2,
+    predictTriggers: predictTriggersV1,
+    decomposeDish: (dishName: string, fragmentText: string): string => {
+      return decomposeDishPrompt(dishName, fragmentText, []);
+    },
+  },
+  // v4: also considers the user's custom triggers when predicting
+  v4: {
+    extractDishes: extractDishesV2,
+    predictTriggers: predictTriggersPrompt,
+    decomposeDish: decomposeDishPrompt,
   },
 } as const;
 
@@ -97,15 +205,61 @@ export function getExtractDishesPrompt(
 
 /**
  * Get the prompt for predicting triggers for the given version.
+ * Versions before v4 leave out the user's custom triggers.
  */
 export function getPredictTriggersPrompt(
   dishName: string,
   fragmentText: string,
+  customTriggerNames: string[] = [],
+  version: string = PROMPT_VERSION,
+): string {
+  const prompts = PROMPTS[version as keyof typeof PROMPTS];
+  if (!prompts) {
+    throw new Error(`Unknown prompt version: ${version}`);
+  }
+  return prompts.predictTriggers(dishName, fragmentText, customTriggerNames);
+}
+
+/**
+ * Whether the given version breaks dishes into ingredients (v3 and later).
+ */
+export function hasDecomposeDishPrompt(version: string): boolean {
+  const prompts = PROMPTS[version as keyof typeof PROMPTS];
+  return !!prompts && 'decomposeDish' in prompts;
+}
+
+/**
+ * Get the prompt for breaking a dish into ingredients for the given version.
+ * Versions before v3 have no ingredient step, and versions before v4 leave out custom triggers.
+ */
+export function getDecomposeDishPrompt(
+  dishName: string,
+  fragmentText: string,
+  customTriggerNames: string[] = [],
   version: string = PROMPT_VERSION,
 ): string {
   const prompts = PROMPTS[version as keyof typeof PROMPTS];
   if (!prompts) {
     throw new Error(`Unknown prompt version: ${version}`);
   }
-  return prompts.predictTriggers(dishName, fragmentText);
+  if (!('decomposeDish' in prompts)) {
+    throw new Error(`Prompt version ${version} has no ingredient prompt`);
+  }
+  return prompts.decomposeDish(dishName, fragmentText, customTriggerNames);
+}
+
+/**
+ * Get the prompt that asks the model to fix a response that didn't match its schema: the
+ * original prompt, the response, and what was wrong with it.
+ */
+export function getRepairPrompt(prompt: string, responseText: string, issues: string[]): string {
+  return `${prompt}
+
+Your previous response was:
+${responseText}
+
+It did not match the required format:
+${issues.map((issue) => `- ${issue}`).join('\n')}
+
+Return ONLY the corrected JSON, no other text.`;
 }
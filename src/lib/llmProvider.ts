@@ -0,0 +1,291 @@
+import { FunctionsHttpError } from '@supabase/supabase-js';
+import { env } from '@/lib/env';
+import { LLMOperation } from '@/lib/llmOperations';
+import { MODEL_VERSION } from '@/lib/llmPrompts';
+import { JSONSchema } from '@/lib/llmSchema';
+import { supabase } from '@/lib/supabase';
+import { logger } from '@/utils/logger';
+
+const FILENAME = 'llmProvider.ts';
+
+export const LLM_PROVIDER_NAMES = ['supabase', 'openai-compatible', 'fake'] as const;
+export type LLMProviderName = (typeof LLM_PROVIDER_NAMES)[number];
+
+export const FAKE_MODEL_VERSION = 'fake-v1';
+
+// JSON Schema the response must follow, for providers with structured outputs
+export interface LLMResponseFormat {
+  // Letters, digits, "_" and "-" only
+  name: string;
+  schema: JSONSchema;
+}
+
+export interface LLMRequestOptions {
+  // Aborts the request, e.g. when the call times out
+  signal?: AbortSignal;
+  // Providers without structured outputs ignore it and only ask for a JSON object
+  responseFormat?: LLMResponseFormat;
+}
+
+/**
+ * Answers a prompt with a JSON object (as text). Predictions are stored with the provider's
+ * modelVersion, so results from different providers or models can be told apart.
+ * Providers make a single attempt; timeouts and retries are handled by the caller, which also
+ * builds the prompts and checks the responses.
+ */
+export interface PromptLLMProvider {
+  readonly name: LLMProviderName;
+  readonly modelVersion: string;
+  complete(prompt: string, options?: LLMRequestOptions): Promise<string>;
+}
+
+/**
+ * Answers an LLM operation from its data, with a JSON object (as text) that already matches the
+ * operation's schema: the prompt is built and the response checked (and repaired) where the
+ * model is called. Like a prompt provider, it makes a single attempt.
+ */
+export interface OperationLLMProvider {
+  readonly name: LLMProviderName;
+  readonly modelVersion: string;
+  answer(operation: LLMOperation, options?: Pick<LLMRequestOptions, 'signal'>): Promise<string>;
+}
+
+export type LLMProvider = PromptLLMProvider | OperationLLMProvider;
+
+/**
+ * An error response from an LLM API over HTTP. The status decides whether the call is retried.
+ */
+export class LLMRequestError extends Error {
+  constructor(
+    message: string,
+    readonly status: number,
+  ) {
+    super(message);
+    this.name = 'LLMRequestError';
+  }
+}
+
+// Chat completions request of the OpenAI-compatible provider.
+// With a response format, the response is constrained to its schema (structured outputs).
+const chatCompletionRequest = (model: string, prompt: string, responseFormat?: LLMResponseFormat) => ({
+  model,
+  messages: [
+    {
+      role: 'user' as const,
+      content: prompt,
+    },
+  ],
+  temperature: 0, // Deterministic outputs
+  response_format: responseFormat
+    ? {
+        type: 'json_schema' as const,
+        json_schema: { name: responseFormat.name, schema: responseFormat.schema, strict: true },
+      }
+    : { type: 'json_object' as const },
+});
+
+/**
+ * Calls the llm Edge Function (supabase/functions/llm) as the signed-in user and returns its
+ * JSON answer. Error statuses are thrown as LLMRequestError; network failures as the
+ * Supabase client's errors.
+ */
+export async function invokeLLMFunction<T>(body: Record<string, unknown>, signal?: AbortSignal): Promise<T> {
+  const { data, error } = await supabase.functions.invoke<T>('llm', { body, signal });
+  if (error instanceof FunctionsHttpError) {
+    const response: Response = error.context;
+    const text = await response.text().catch(() => '');
+    throw new LLMRequestError(`HTTP ${response.status}: ${text.substring(0, 200)}`, response.status);
+  }
+  if (error) {
+    throw error;
+  }
+  return data as T;
+}
+
+/**
+ * Provider that asks OpenAI through the llm Edge Function (used in production), so the
+ * OpenAI key stays on the server. Only the operation's data is sent; the function builds the
+ * prompt and checks the response.
+ */
+export function createSupabaseFunctionProvider(model: string = MODEL_VERSION): OperationLLMProvider {
+  return {
+    name: 'supabase',
+    modelVersion: model,
+    async answer(operation: LLMOperation, options?: Pick<LLMRequestOptions, 'signal'>): Promise<string> {
+      const response = await invokeLLMFunction<unknown>({ ...operation, model }, options?.signal);
+      return JSON.stringify(response);
+    },
+  };
+}
+
+export interface OpenAICompatibleProviderOptions {
+  // Base URL of the API, e.g. "http://localhost:11434/v1"; /chat/completions is appended
+  baseUrl: string;
+  model: string;
+  // Sent as a bearer token when set; only passed by scripts and tests, never read from the app's env
+  apiKey?: string;
+  // Extra headers, e.g. Azure's "api-key"
+  headers?: Record<string, string>;
+  // Recorded as the model version; defaults to the model name
+  modelVersion?: string;
+  // Whether the endpoint supports structured outputs (json_schema); otherwise JSON mode is used
+  jsonSchema?: boolean;
+}
+
+/**
+ * Provider for any endpoint that speaks the OpenAI chat completions API over HTTP
+ * (a self-hosted model, Azure OpenAI, a local mock server).
+ */
+export function createOpenAICompatibleProvider(
+  options: OpenAICompatibleProviderOptions,
+): PromptLLMProvider {
+  const url = `${options.baseUrl.replace(/\/+$/, '')}/chat/completions`;
+  return {
+    name: 'openai-compatible',
+    modelVersion: options.modelVersion ?? options.model,
+    async complete(prompt: string, requestOptions?: LLMRequestOptions): Promise<string> {
+      const response = await fetch(url, {
+        method: 'POST',
+        signal: requestOptions?.signal,
+        headers: {
+          'Content-Type': 'application/json',
+          ...(options.apiKey ? { Authorization: `Bearer ${options.apiKey}` } : {}),
+          ...options.headers,
+        },
+        body: JSON.stringify(
+          chatCompletionRequest(
+            options.model,
+            prompt,
+            options.jsonSchema ? requestOptions?.responseFormat : undefined,
+          ),
+        ),
+      });
+
+      if (!response.ok) {
+        const body = await response.text().catch(() => '');
+        throw new LLMRequestError(`HTTP ${response.status}: ${body.substring(0, 200)}`, response.status);
+      }
+
+      const json = await response.json();
+      return json?.choices?.[0]?.message?.content ?? '';
+    },
+  };
+}
+
+// Answers every prompt kind at once: the entry text as a single dish, and no triggers or ingredients
+function defaultFakeResponse(prompt: string): string {
+  const rawEntryText = /^User input: "(.*)"$/m.exec(prompt)?.[1];
+  return JSON.stringify({
+    dishes: rawEntryText
+      ? [{ dish_fragment_text: rawEntryText, dish_name_suggestion: rawEntryText }]
+      : [],
+    triggers: [],
+    ingredients: [],
+  });
+}
+
+/**
+ * Deterministic provider that never calls a model: the no-LLM mode, and a stand-in for tests.
+ * By default each entry becomes a single dish with no predicted triggers. Response formats
+ * are ignored.
+ */
+export function createFakeProvider(
+  respond: (prompt: string) => string = defaultFakeResponse,
+  modelVersion: string = FAKE_MODEL_VERSION,
+): PromptLLMProvider {
+  return {
+    name: 'fake',
+    modelVersion,
+    async complete(prompt: string): Promise<string> {
+      return respond(prompt);
+    },
+  };
+}
+
+export interface LLMProviderConfig {
+  provider?: string;
+  baseUrl?: string;
+  model?: string;
+  jsonSchema?: boolean;
+}
+
+/**
+ * The provider configuration from the EXPO_PUBLIC_LLM_* variables.
+ */
+export function getLLMProviderConfigFromEnv(): LLMProviderConfig {
+  return {
+    provider: env.llmProvider,
+    baseUrl: env.llmBaseUrl,
+    model: env.llmModel,
+    jsonSchema: env.llmJsonSchema === 'true',
+  };
+}
+
+/**
+ * Creates the provider named by the configuration (EXPO_PUBLIC_LLM_* variables by default).
+ * Without a provider name, OpenAI is asked through the llm Edge Function.
+ */
+export function createLLMProviderFromConfig(
+  config: LLMProviderConfig = getLLMProviderConfigFromEnv(),
+): LLMProvider {
+  const providerName = config.provider || 'supabase';
+  switch (providerName) {
+    case 'supabase':
+      return createSupabaseFunctionProvider(config.model || MODEL_VERSION);
+    case 'openai-compatible':
+      if (!config.baseUrl || !config.model) {
+        throw new Error(
+          'The openai-compatible LLM provider needs EXPO_PUBLIC_LLM_BASE_URL and EXPO_PUBLIC_LLM_MODEL',
+        );
+      }
+      return createOpenAICompatibleProvider({
+        baseUrl: config.baseUrl,
+        model: config.model,
+        jsonSchema: config.jsonSchema,
+      });
+    case 'fake':
+      return createFakeProvider();
+    default:
+      throw new Error(`Unknown LLM provider: ${providerName}`);
+  }
+}
+
+let provider: LLMProvider | null = null;
+let providerReplaced = false;
+// Providers for other models than the configured one (prompt experiment variants), by model
+const providersByModel = new Map<string, LLMProvider>();
+
+/**
+ * Returns the active LLM provider (from configuration unless replaced with setLLMProvider).
+ * With a model, returns the configured provider asking that model instead; a provider set
+ * with setLLMProvider is returned as is.
+ */
+export function getLLMProvider(model?: string): LLMProvider {
+  if (!provider) {
+    provider = createLLMProviderFromConfig();
+    logger.info(FILENAME, 'getLLMProvider', 'LLM provider selected', {
+      provider: provider.name,
+      modelVersion: provider.modelVersion,
+    });
+  }
+  if (!model || providerReplaced || model === provider.modelVersion) {
+    return provider;
+  }
+
+  let modelProvider = providersByModel.get(model);
+  if (!modelProvider) {
+    modelProvider = createLLMProviderFromConfig({ ...getLLMProviderConfigFromEnv(), model });
+    providersByModel.set(model, modelProvider);
+  }
+  return modelProvider;
+}
+
+/**
+ * Replaces the active LLM provider, e.g. with createFakeProvider() in tests.
+ * Pass null to go back to the configured one.
+ */
+export function setLLMProvider(nextProvider: LLMProvider | null): void {
+  provider = nextProvider;
+  providerReplaced = nextProvider !== null;
+  providersByModel.clear();
+}
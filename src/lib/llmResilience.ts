@@ -0,0 +1,238 @@
+import { env } from '@/lib/env';
+
+/**
+ * Limits for a single LLM call: how long to wait, how often to retry, and when to stop calling
+ * the provider altogether (circuit breaker).
+ */
+export interface LLMCallConfig {
+  // Per-attempt timeout; the request is aborted when it passes
+  timeoutMs: number;
+  // Retries after the first attempt, for retryable errors only (5xx, network, timeout)
+  maxRetries: number;
+  // Backoff before retry n is a random delay up to min(maxDelayMs, baseDelayMs * 2^n)
+  baseDelayMs: number;
+  maxDelayMs: number;
+  // Consecutive failed calls that open the circuit
+  failureThreshold: number;
+  // How long the circuit stays open before one trial call is let through
+  resetTimeoutMs: number;
+}
+
+export const DEFAULT_LLM_CALL_CONFIG: LLMCallConfig = {
+  timeoutMs: 15000,
+  maxRetries: 2,
+  baseDelayMs: 500,
+  maxDelayMs: 4000,
+  failureThreshold: 5,
+  resetTimeoutMs: 30000,
+};
+
+const parseNonNegativeInt = (value: string | undefined): number | undefined => {
+  const parsed = value === undefined ? NaN : Number(value);
+  return Number.isInteger(parsed) && parsed >= 0 ? parsed : undefined;
+};
+
+/**
+ * The default config with EXPO_PUBLIC_LLM_TIMEOUT_MS and EXPO_PUBLIC_LLM_MAX_RETRIES applied.
+ */
+export function getLLMCallConfigFromEnv(): LLMCallConfig {
+  return {
+    ...DEFAULT_LLM_CALL_CONFIG,
+    timeoutMs: parseNonNegativeInt(env.llmTimeoutMs) ?? DEFAULT_LLM_CALL_CONFIG.timeoutMs,
+    maxRetries: parseNonNegativeInt(env.llmMaxRetries) ?? DEFAULT_LLM_CALL_CONFIG.maxRetries,
+  };
+}
+
+/**
+ * Thrown when an attempt takes longer than its timeout.
+ */
+export class LLMTimeoutError extends Error {
+  constructor(timeoutMs: number) {
+    super(`LLM call timed out after ${timeoutMs}ms`);
+    this.name = 'LLMTimeoutError';
+  }
+}
+
+/**
+ * Thrown instead of calling the provider while the circuit is open.
+ */
+export class LLMCircuitOpenError extends Error {
+  constructor() {
+    super('LLM circuit open after repeated failures; skipping call');
+    this.name = 'LLMCircuitOpenError';
+  }
+}
+
+/**
+ * Runs fn with an AbortSignal that fires after timeoutMs, and rejects with LLMTimeoutError
+ * even if fn ignores the signal.
+ */
+export async function withTimeout<T>(
+  fn: (signal: AbortSignal) => Promise<T>,
+  timeoutMs: number,
+): Promise<T> {
+  const controller = new AbortController();
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => {
+      controller.abort();
+      reject(new LLMTimeoutError(timeoutMs));
+    }, timeoutMs);
+  });
+
+  try {
+    return await Promise.race([fn(controller.signal), timeout]);
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+// Network failures from fetch and the Supabase client carry no status
+const NETWORK_ERROR_NAMES = new Set([
+  'TypeError',
+  // The llm Edge Function couldn't be reached
+  'FunctionsFetchError',
+  'FunctionsRelayError',
+]);
+
+/**
+ * Whether a failed attempt is worth retrying: server errors (5xx), network failures and timeouts.
+ * Other errors (bad request, auth) would fail again. Rate limits (429) aren't retried either: the
+ * llm Edge Function's per-user limits last up to a day and every retry would count against them,
+ * so the call falls back to the rules right away. (The function answers OpenAI's own rate limits
+ * with 502, which is retried.)
+ */
+export function isRetryableLLMError(error: unknown): boolean {
+  if (error instanceof LLMTimeoutError) {
+    return true;
+  }
+  const status = (error as { status?: unknown })?.status;
+  if (typeof status === 'number') {
+    return status >= 500;
+  }
+  return NETWORK_ERROR_NAMES.has((error as { name?: string })?.name ?? '');
+}
+
+/**
+ * Exponential backoff with full jitter: a random delay up to min(maxDelayMs, baseDelayMs * 2^retry),
+ * so clients that failed together don't retry together.
+ */
+export function getBackoffDelayMs(
+  retry: number,
+  config: Pick<LLMCallConfig, 'baseDelayMs' | 'maxDelayMs'>,
+  random: () => number = Math.random,
+): number {
+  return Math.round(random() * Math.min(config.maxDelayMs, config.baseDelayMs * 2 ** retry));
+}
+
+export type CircuitState = 'closed' | 'open' | 'half_open';
+
+export interface CircuitBreaker {
+  readonly state: CircuitState;
+  // False while open; after resetTimeoutMs one trial call is allowed (half open)
+  canRequest(): boolean;
+  recordSuccess(): void;
+  recordFailure(): void;
+}
+
+/**
+ * Opens after failureThreshold consecutive failures. While open, calls are skipped; after
+ * resetTimeoutMs the next call is a trial that closes the circuit on success or reopens it.
+ */
+export function createCircuitBreaker(
+  config: Pick<LLMCallConfig, 'failureThreshold' | 'resetTimeoutMs'>,
+  now: () => number = Date.now,
+): CircuitBreaker {
+  let state: CircuitState = 'closed';
+  let failureCount = 0;
+  let openedAt = 0;
+
+  return {
+    get state() {
+      return state;
+    },
+    canRequest() {
+      if (state === 'open' && now() - openedAt >= config.resetTimeoutMs) {
+        state = 'half_open';
+        return true;
+      }
+      return state === 'closed';
+    },
+    recordSuccess() {
+      state = 'closed';
+      failureCount = 0;
+    },
+    recordFailure() {
+      failureCount += 1;
+      if (state === 'half_open' || failureCount >= config.failureThreshold) {
+        state = 'open';
+        openedAt = now();
+      }
+    },
+  };
+}
+
+/**
+ * Paces requests to a rate, e.g. for a backfill that would otherwise hit the provider's limits.
+ */
+export interface RequestLimiter {
+  // Resolves once the next request may start
+  acquire(): Promise<void>;
+}
+
+/**
+ * Lets each request start at least 60000 / requestsPerMinute ms after the previous one.
+ * Meant for requests made one at a time.
+ */
+export function createRequestLimiter(
+  requestsPerMinute: number,
+  sleep: (ms: number) => Promise<void> = (ms) => new Promise((resolve) => setTimeout(resolve, ms)),
+  now: () => number = Date.now,
+): RequestLimiter {
+  const intervalMs = 60000 / requestsPerMinute;
+  let lastRequestAt: number | null = null;
+
+  return {
+    async acquire() {
+      if (lastRequestAt !== null) {
+        const waitMs = lastRequestAt + intervalMs - now();
+        if (waitMs > 0) {
+          await sleep(waitMs);
+        }
+      }
+      lastRequestAt = now();
+    },
+  };
+}
+
+let callConfig: LLMCallConfig | null = null;
+let circuitBreaker: CircuitBreaker | null = null;
+
+/**
+ * Returns the active LLM call config (from the environment unless replaced with setLLMCallConfig).
+ */
+export function getLLMCallConfig(): LLMCallConfig {
+  if (!callConfig) {
+    callConfig = getLLMCallConfigFromEnv();
+  }
+  return callConfig;
+}
+
+/**
+ * Returns the circuit breaker shared by all LLM calls.
+ */
+export function getLLMCircuitBreaker(): CircuitBreaker {
+  if (!circuitBreaker) {
+    circuitBreaker = createCircuitBreaker(getLLMCallConfig());
+  }
+  return circuitBreaker;
+}
+
+/**
+ * Overrides parts of the LLM call config, e.g. shorter delays in tests, and closes the circuit.
+ * Pass null to go back to the configured values.
+ */
+export function setLLMCallConfig(overrides: Partial<LLMCallConfig> | null): void {
+  callConfig = overrides ? { ...getLLMCallConfigFromEnv(), ...overrides } : null;
+  circuitBreaker = null;
+}
@@ -0,0 +1,94 @@
+import { PORTION_SIZES, toPortionSize, toQuantity, toUnit } from '@/data/portion';
+import { resolvePredictedTriggerName, VALID_TRIGGER_NAMES, ValidTriggerName } from '@/data/trigger';
+import {
+  arraySchema,
+  customSchema,
+  INVALID,
+  lenientSchema,
+  objectSchema,
+  Schema,
+  stringSchema,
+} from '@/lib/llmSchema';
+import { logger } from '@/utils/logger';
+
+const FILENAME = 'llmResponseSchemas.ts';
+
+/**
+ * Trigger names predicted by the model, resolved to the built-in or stored custom spelling.
+ * Names that match no trigger are dropped (structured outputs rule them out, JSON mode doesn't).
+ * With lenient, a missing list or a non-string name is dropped too instead of being invalid.
+ */
+function triggerNamesSchema<C extends string>(
+  customTriggerNames: readonly C[],
+  options: { lenient?: boolean } = {},
+): Schema<Array<ValidTriggerName | C>> {
+  const names = arraySchema(stringSchema(), { dropInvalid: options.lenient });
+
+  return customSchema(
+    {
+      type: 'array',
+      items: { type: 'string', enum: [...VALID_TRIGGER_NAMES, ...customTriggerNames] },
+    },
+    (value, path, issues) => {
+      const parsed = options.lenient && !Array.isArray(value) ? [] : names.parse(value, path, issues);
+      if (parsed === INVALID) {
+        return INVALID;
+      }
+
+      const triggerNames = new Set<ValidTriggerName | C>();
+      for (const name of parsed) {
+        const triggerName = resolvePredictedTriggerName(name, customTriggerNames);
+        if (triggerName) {
+          triggerNames.add(triggerName);
+        } else {
+          logger.warn(FILENAME, 'triggerNamesSchema', 'Dropping unknown trigger name from LLM', {
+            triggerName: name,
+            customTriggerNames,
+          });
+        }
+      }
+      return Array.from(triggerNames);
+    },
+  );
+}
+
+/**
+ * Response to the extract dishes prompt. Portions are optional: a quantity, unit or portion size
+ * that isn't usable becomes null rather than making the dish invalid.
+ */
+export const extractDishesResponseSchema = objectSchema({
+  dishes: arraySchema(
+    objectSchema({
+      dish_fragment_text: stringSchema({ nonEmpty: true }),
+      dish_name_suggestion: stringSchema({ nonEmpty: true }),
+      quantity: lenientSchema({ type: ['number', 'null'] }, toQuantity),
+      unit: lenientSchema({ type: ['string', 'null'] }, toUnit),
+      portion_size: lenientSchema({ type: ['string', 'null'], enum: [...PORTION_SIZES, null] }, toPortionSize),
+    }),
+  ),
+});
+
+/**
+ * Response to the predict triggers prompt, offering the user's custom triggers by name.
+ */
+export function getPredictTriggersResponseSchema<C extends string>(customTriggerNames: readonly C[]) {
+  return objectSchema({
+    triggers: triggerNamesSchema(customTriggerNames),
+  });
+}
+
+/**
+ * Response to the decompose dish prompt. Ingredients without a name are dropped, and an
+ * ingredient's unusable trigger names are left out.
+ */
+export function getDecomposeDishResponseSchema<C extends string>(customTriggerNames: readonly C[]) {
+  return objectSchema({
+    ingredients: arraySchema(
+      objectSchema({
+        ingredient_name: stringSchema({ nonEmpty: true, trim: true }),
+        triggers: triggerNamesSchema(customTriggerNames, { lenient: true }),
+      }),
+      { dropInvalid: true },
+    ),
+  });
+}
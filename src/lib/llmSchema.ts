@@ -0,0 +1,136 @@
+/**
+ * Declarative schemas for LLM responses.
+ *
+ * Each schema both describes the response as JSON Schema (sent to providers that support
+ * structured outputs) and parses a response into a typed value, collecting every problem it finds
+ * so the model can be asked to fix them.
+ */
+
+export type JSONSchema = { [key: string]: unknown };
+
+// Marks a value that failed to parse; the reasons are in the issues list
+export const INVALID: unique symbol = Symbol('invalid');
+
+export interface Schema<T> {
+  readonly jsonSchema: JSONSchema;
+  // Adds "path: problem" issues and returns INVALID when value doesn't match
+  parse(value: unknown, path: string, issues: string[]): T | typeof INVALID;
+}
+
+export type SchemaOutput<S> = S extends Schema<infer T> ? T : never;
+
+const issueAt = (path: string, message: string): string => `${path || 'response'}: ${message}`;
+
+/**
+ * Builds a schema from JSON Schema and a parse function, for values the builders below
+ * don't cover.
+ */
+export function customSchema<T>(
+  jsonSchema: JSONSchema,
+  parse: (value: unknown, path: string, issues: string[]) => T | typeof INVALID,
+): Schema<T> {
+  return { jsonSchema, parse };
+}
+
+/**
+ * A string, kept as given unless trim is set. With nonEmpty, a blank string is invalid.
+ */
+export function stringSchema(options: { nonEmpty?: boolean; trim?: boolean } = {}): Schema<string> {
+  return customSchema({ type: 'string' }, (value, path, issues) => {
+    if (typeof value !== 'string') {
+      issues.push(issueAt(path, 'expected a string'));
+      return INVALID;
+    }
+    if (options.nonEmpty && value.trim() === '') {
+      issues.push(issueAt(path, 'must not be empty'));
+      return INVALID;
+    }
+    return options.trim ? value.trim() : value;
+  });
+}
+
+/**
+ * A value the model is asked to give as jsonSchema, but that is never invalid: normalize turns
+ * anything unusable into a default (e.g. an unknown portion size into null).
+ */
+export function lenientSchema<T>(jsonSchema: JSONSchema, normalize: (value: unknown) => T): Schema<T> {
+  return customSchema(jsonSchema, (value) => normalize(value));
+}
+
+/**
+ * An array of items. With dropInvalid, items that don't match are left out instead of making
+ * the whole array invalid.
+ */
+export function arraySchema<T>(item: Schema<T>, options: { dropInvalid?: boolean } = {}): Schema<T[]> {
+  return customSchema({ type: 'array', items: item.jsonSchema }, (value, path, issues) => {
+    if (!Array.isArray(value)) {
+      issues.push(issueAt(path, 'expected an array'));
+      return INVALID;
+    }
+    const items: T[] = [];
+    let valid = true;
+    value.forEach((element, index) => {
+      const itemIssues: string[] = [];
+      const parsed = item.parse(element, `${path}[${index}]`, itemIssues);
+      if (parsed !== INVALID) {
+        items.push(parsed);
+      } else if (!options.dropInvalid) {
+        issues.push(...itemIssues);
+        valid = false;
+      }
+    });
+    return valid ? items : INVALID;
+  });
+}
+
+/**
+ * An object with exactly these properties, all required (as structured outputs expect).
+ * Extra properties in a response are ignored.
+ */
+export function objectSchema<Shape extends Record<string, Schema<unknown>>>(
+  shape: Shape,
+): Schema<{ [K in keyof Shape]: SchemaOutput<Shape[K]> }> {
+  const properties: Record<string, JSONSchema> = {};
+  for (const [key, schema] of Object.entries(shape)) {
+    properties[key] = schema.jsonSchema;
+  }
+
+  return customSchema(
+    { type: 'object', properties, required: Object.keys(shape), additionalProperties: false },
+    (value, path, issues) => {
+      if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+        issues.push(issueAt(path, 'expected an object'));
+        return INVALID;
+      }
+      const result: Record<string, unknown> = {};
+      let valid = true;
+      for (const [key, schema] of Object.entries(shape)) {
+        const parsed = schema.parse((value as Record<string, unknown>)[key], path ? `${path}.${key}` : key, issues);
+        if (parsed === INVALID) {
+          valid = false;
+        } else {
+          result[key] = parsed;
+        }
+      }
+      return valid ? (result as { [K in keyof Shape]: SchemaOutput<Shape[K]> }) : INVALID;
+    },
+  );
+}
+
+export type LLMResponseParseResult<T> = { ok: true; value: T } | { ok: false; issues: string[] };
+
+/**
+ * Parses response text as JSON and checks it against the schema.
+ */
+export function parseLLMResponse<T>(schema: Schema<T>, responseText: string): LLMResponseParseResult<T> {
+  let json: unknown;
+  try {
+    json = JSON.parse(responseText);
+  } catch {
+    return { ok: false, issues: [issueAt('', 'not valid JSON')] };
+  }
+
+  const issues: string[] = [];
+  const value = schema.parse(json, '', issues);
+  return value === INVALID ? { ok: false, issues } : { ok: true, value };
+}
@@ -0,0 +1,190 @@
+import { env } from '@/lib/env';
+import { PROMPT_VERSION, PROMPTS } from '@/lib/llmPrompts';
+import { hashString } from '@/utils/hash';
+import { logger } from '@/utils/logger';
+
+const FILENAME = 'promptExperiments.ts';
+
+/**
+ * One arm of a prompt experiment: the prompt version (and optionally model) its users get.
+ */
+export interface PromptVariant {
+  // Unique within the experiment; stored as "experiment/variant" with each prediction
+  name: string;
+  promptVersion: keyof typeof PROMPTS;
+  // The model to ask instead of the configured one (same provider)
+  model?: string;
+  // Share of users relative to the other variants' weights; 0 assigns nobody
+  weight: number;
+}
+
+export interface PromptExperiment {
+  name: string;
+  // The first variant is the control the others are compared against
+  variants: PromptVariant[];
+}
+
+/**
+ * Experiments that can be run, by name. At most one runs at a time, selected with
+ * EXPO_PUBLIC_PROMPT_EXPERIMENT.
+ */
+export const PROMPT_EXPERIMENTS: Record<string, PromptExperiment> = {
+  // Whether telling the model about the user's custom triggers (v4) gets predictions edited less
+  // often than the v3 prompts, with the same model
+  'v4-rollout': {
+    name: 'v4-rollout',
+    variants: [
+      { name: 'control', promptVersion: 'v3', weight: 50 },
+      { name: 'v4', promptVersion: 'v4', weight: 50 },
+    ],
+  },
+  // Whether a larger model is worth its cost with the current prompts
+  'gpt-4o': {
+    name: 'gpt-4o',
+    variants: [
+      { name: 'control', promptVersion: PROMPT_VERSION, weight: 90 },
+      { name: 'gpt-4o', promptVersion: PROMPT_VERSION, model: 'gpt-4o', weight: 10 },
+    ],
+  },
+};
+
+/**
+ * The prompt version and model to use for a user's predictions, and the variant to store
+ * with them (null outside an experiment).
+ */
+export interface PromptAssignment {
+  promptVersion: string;
+  model?: string;
+  promptVariant: string | null;
+}
+
+/**
+ * Parses weight overrides like "control=50,gpt-4o=50". Variants that aren't listed keep
+ * their weight.
+ * @throws If an override is malformed or names no variant of the experiment.
+ */
+export function applyPromptVariantWeights(experiment: PromptExperiment, weights: string): PromptExperiment {
+  const overrides = new Map<string, number>();
+  for (const part of weights.split(',')) {
+    const [name, value] = part.split('=').map((s) => s.trim());
+    const weight = Number(value);
+    if (!name || value === undefined || value === '' || !Number.isFinite(weight) || weight < 0) {
+      throw new Error(`Invalid prompt variant weight: "${part}"`);
+    }
+    if (!experiment.variants.some((variant) => variant.name === name)) {
+      throw new Error(`Unknown variant "${name}" in experiment ${experiment.name}`);
+    }
+    overrides.set(name, weight);
+  }
+
+  const variants = experiment.variants.map((variant) => ({
+    ...variant,
+    weight: overrides.get(variant.name) ?? variant.weight,
+  }));
+  if (!variants.some((variant) => variant.weight > 0)) {
+    throw new Error(`Experiment ${experiment.name} has no variant with a weight above 0`);
+  }
+  return { ...experiment, variants };
+}
+
+/**
+ * The experiment named by EXPO_PUBLIC_PROMPT_EXPERIMENT, with EXPO_PUBLIC_PROMPT_EXPERIMENT_WEIGHTS
+ * applied. Null when none is set; an unknown name or bad weights are logged and run no experiment,
+ * so a misconfiguration never mixes variants unexpectedly.
+ */
+export function getPromptExperimentFromEnv(): PromptExperiment | null {
+  if (!env.promptExperiment) {
+    return null;
+  }
+  const experiment = PROMPT_EXPERIMENTS[env.promptExperiment];
+  if (!experiment) {
+    logger.error(FILENAME, 'getPromptExperimentFromEnv', 'Unknown prompt experiment', {
+      promptExperiment: env.promptExperiment,
+    });
+    return null;
+  }
+  if (!env.promptExperimentWeights) {
+    return experiment;
+  }
+  try {
+    return applyPromptVariantWeights(experiment, env.promptExperimentWeights);
+  } catch (error: any) {
+    logger.error(FILENAME, 'getPromptExperimentFromEnv', 'Invalid prompt experiment weights', {
+      promptExperiment: env.promptExperiment,
+      error: error?.message,
+    });
+    return null;
+  }
+}
+
+/**
+ * Picks a user's variant by weight. The same user always gets the same variant of an experiment
+ * (the user ID is hashed with the experiment name), while different experiments split users
+ * independently.
+ */
+export function assignPromptVariant(experiment: PromptExperiment, userId: string): PromptVariant {
+  const totalWeight = experiment.variants.reduce((sum, variant) => sum + variant.weight, 0);
+  // A uniform point in [0, totalWeight)
+  const point = (hashString(`${experiment.name}:${userId}`) / 2 ** 53) * totalWeight;
+
+  let cumulativeWeight = 0;
+  for (const variant of experiment.variants) {
+    cumulativeWeight += variant.weight;
+    if (point < cumulativeWeight) {
+      return variant;
+    }
+  }
+  return experiment.variants[experiment.variants.length - 1];
+}
+
+/**
+ * How a variant is stored with predictions (predicted_dish.prompt_variant).
+ */
+export function getPromptVariantLabel(experiment: PromptExperiment, variant: PromptVariant): string {
+  return `${experiment.name}/${variant.name}`;
+}
+
+let experiment: PromptExperiment | null | undefined;
+
+/**
+ * Returns the running prompt experiment, or null if none (from the environment unless replaced
+ * with setPromptExperiment).
+ */
+export function getPromptExperiment(): PromptExperiment | null {
+  if (experiment === undefined) {
+    experiment = getPromptExperimentFromEnv();
+    if (experiment) {
+      logger.info(FILENAME, 'getPromptExperiment', 'Prompt experiment running', {
+        promptExperiment: experiment.name,
+        variants: experiment.variants.map((variant) => `${variant.name}=${variant.weight}`),
+      });
+    }
+  }
+  return experiment;
+}
+
+/**
+ * Replaces the running prompt experiment, e.g. with a test experiment.
+ * Pass null to go back to the configured one.
+ */
+export function setPromptExperiment(nextExperiment: PromptExperiment | null): void {
+  experiment = nextExperiment ?? undefined;
+}
+
+/**
+ * The prompt version, model and variant for a user: their variant of the running experiment,
+ * or the current prompt version and configured model when none is running.
+ */
+export function getPromptAssignment(userId: string): PromptAssignment {
+  const runningExperiment = getPromptExperiment();
+  if (!runningExperiment) {
+    return { promptVersion: PROMPT_VERSION, promptVariant: null };
+  }
+
+  const variant = assignPromptVariant(runningExperiment, userId);
+  return {
+    promptVersion: variant.promptVersion,
+    model: variant.model,
+    promptVariant: getPromptVariantLabel(runningExperiment, variant),
+  };
+}
@@ -6,7 +6,7 @@ import { theme } from '@/styles';
 
 const { height: screenHeight } = Dimensions.get('window');
 
-const addScreenHeightRatio: number = 0.37;
+const addScreenHeightRatio: number = 0.45;
 
 export default function AddScreen() {
   const slideAnim = useRef(new Animated.Value(screenHeight)).current;
@@ -80,6 +80,11 @@ export default function AddScreen() {
     navigation.navigate('FoodLog' as never);
   };
 
+  const handleLogSavedMeal = () => {
+    // Navigate directly without animation conflicts
+    navigation.navigate('MealTemplates' as never);
+  };
+
   const handleAddSymptoms = () => {
     // Navigate directly without animation conflicts
     navigation.navigate('Symptoms' as never);
@@ -114,6 +119,15 @@ export default function AddScreen() {
               >
                 Add Meal
               </Button>
+
+              <Button
+                mode="contained"
+                onPress={handleLogSavedMeal}
+                style={styles.button}
+                icon="silverware-fork-knife"
+              >
+                Log Saved Meal
+              </Button>
               
               <Button
                 mode="contained"
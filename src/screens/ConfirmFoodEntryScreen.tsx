@@ -1,5 +1,5 @@
-import React, { useState, useEffect } from 'react';
-import { View, StyleSheet, ScrollView } from 'react-native';
+import React, { useState, useEffect, useRef } from 'react';
+import { View, StyleSheet, ScrollView, Alert } from 'react-native';
 import {
   Text,
   Card,
@@ -11,23 +11,47 @@ import {
 import { useNavigation, useRoute, RouteProp } from '@react-navigation/native';
 import { NativeStackNavigationProp } from '@react-navigation/native-stack';
 import { theme, commonStyles } from '@/styles';
-import { confirmFoodEntry } from '@/data/foodEntryService';
-import { getAllTriggers, createDishEvent, updateDishEventDeletedAt } from '@/data/foodEntryRepo';
-import { findOrCreateDishForUser } from '@/data/dishHelpers';
-import { getAuthenticatedUserId } from '@/data/utils';
+import {
+  confirmFoodEntry,
+  getFoodEntryForConfirmation,
+  getFoodEntryForEditing,
+} from '@/data/foodEntryService';
+import { getAllTriggers } from '@/data/foodEntryRepo';
+import { getDishNameConflict, mergeDishIntoNamedDish, rejectSimilarDishMatch } from '@/data/dishService';
+import { createCustomTrigger } from '@/data/triggerService';
+import { getKnownTriggerWarning, getTriggerSensitivitiesForUser } from '@/data/sensitivityService';
+import { getHighSensitivityTriggerIds } from '@/data/sensitivity';
 import { logger } from '@/utils/logger';
 import {
   CreateFoodEntryResponse,
   DishWithTriggers,
   ConfirmedDish,
+  DishIngredient,
 } from '@/types/foodEntry';
 import { Trigger } from '@/types/dish';
 import { getTriggerDisplayText } from '@/data/trigger';
+import { removeIngredientTriggers, restoreIngredientTriggers } from '@/data/ingredient';
+import {
+  PORTION_SIZES,
+  PORTION_SIZE_DISPLAY_TEXT_MAP,
+  PortionSize,
+  toQuantity,
+  toUnit,
+} from '@/data/portion';
+import { MEAL_TYPES, MEAL_TYPE_DISPLAY_TEXT_MAP, MealType } from '@/data/mealType';
 import { TimePickerCard } from '@/components';
 const FILENAME = 'ConfirmFoodEntryScreen.tsx';
 
 type RootStackParamList = {
-  ConfirmFoodEntry: { response: CreateFoodEntryResponse; initialOccuredAtTimestamp?: number };
+  // Either the response from createFoodEntry, or the raw entry ID of a pending entry
+  // whose response is rebuilt from the database.
+  // With isEditing, rawEntryId is an already-confirmed entry loaded with its confirmed triggers.
+  ConfirmFoodEntry: {
+    response?: CreateFoodEntryResponse;
+    rawEntryId?: string;
+    initialOccuredAtTimestamp?: number;
+    isEditing?: boolean;
+  };
   FoodLog: undefined;
 };
 
@@ -37,49 +61,95 @@ type NavigationProp = NativeStackNavigationProp<RootStackParamList, 'ConfirmFood
 interface DishState {
   dishName: string;
   selectedTriggerIds: Set<string>;
+  // Ingredients the user took out of the dish ("no croutons"); sent as the ingredients left
+  removedIngredientIds: Set<string>;
+  // Kept as typed so a half-entered amount ("1.") isn't rewritten; parsed on confirm
+  quantityText: string;
+  unit: string;
+  portionSize: PortionSize | null;
+}
+
+type DishPortionState = Pick<DishState, 'quantityText' | 'unit' | 'portionSize'>;
+
+const getInitialPortionState = (dish: DishWithTriggers): DishPortionState => ({
+  quantityText: dish.quantity != null ? String(dish.quantity) : '',
+  unit: dish.unit ?? '',
+  portionSize: dish.portion_size ?? null,
+});
+
+// A dish was renamed to a name another of the user's dishes already has
+interface DishNameConflict {
+  dishEventId: string;
+  dishName: string;
 }
 
 export default function ConfirmFoodEntryScreen() {
   const navigation = useNavigation<NavigationProp>();
   const route = useRoute<ConfirmFoodEntryRouteProp>();
-  const { response, initialOccuredAtTimestamp } = route.params;
+  const { response, rawEntryId, initialOccuredAtTimestamp, isEditing = false } = route.params;
+  const entryId = response?.entry_id ?? rawEntryId ?? '';
 
-  const [dishes, setDishes] = useState<DishWithTriggers[]>(response.dishes);
+  const [dishes, setDishes] = useState<DishWithTriggers[]>(response?.dishes ?? []);
+  const [isLoadingEntry, setIsLoadingEntry] = useState(!response);
   const [dishStates, setDishStates] = useState<Map<string, DishState>>(new Map());
   const [allTriggers, setAllTriggers] = useState<Trigger[]>([]);
+  // Triggers the user is highly sensitive to (from their profile), highlighted on the dishes
+  const [highSensitivityTriggerIds, setHighSensitivityTriggerIds] = useState<Set<string>>(new Set());
   const [isLoadingTriggers, setIsLoadingTriggers] = useState(true);
   const [isConfirming, setIsConfirming] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [showAddTriggerModal, setShowAddTriggerModal] = useState(false);
   const [selectedDishEventId, setSelectedDishEventId] = useState<string | null>(null);
-  const [isAddingDish, setIsAddingDish] = useState(false);
-  const [isDeletingDish, setIsDeletingDish] = useState<string | null>(null);
+  const [newTriggerName, setNewTriggerName] = useState('');
+  const [isCreatingTrigger, setIsCreatingTrigger] = useState(false);
+  // Dishes added and removed on this screen, only written when the entry is confirmed. Added
+  // dishes have a placeholder dish_event_id until then.
+  const [addedDishEventIds, setAddedDishEventIds] = useState<Set<string>>(new Set());
+  const [deletedDishEventIds, setDeletedDishEventIds] = useState<string[]>([]);
+  const nextAddedDishNumber = useRef(1);
+  const [nameConflict, setNameConflict] = useState<DishNameConflict | null>(null);
+  const [isMerging, setIsMerging] = useState(false);
+  const [isRejectingMatch, setIsRejectingMatch] = useState<string | null>(null);
   // Initialize meal timestamp from route params or default to current time
   const [mealTimestamp, setMealTimestamp] = useState<Date>(
     initialOccuredAtTimestamp ? new Date(initialOccuredAtTimestamp) : new Date()
   );
+  // Inferred when the entry was written; null for entries from before meal types
+  const [mealType, setMealType] = useState<MealType | null>(response?.meal_type ?? null);
 
-  // Initialize dish states with predicted triggers
+  // Initialize dish states with confirmed triggers when editing, otherwise predicted triggers.
+  // Dishes already on screen keep what the user changed.
   useEffect(() => {
-    const initialStates = new Map<string, DishState>();
-    dishes.forEach((dish) => {
-      const predictedTriggerIds = new Set(
-        dish.predicted_triggers?.map((t) => t.trigger_id) || []
-      );
-      initialStates.set(dish.dish_event_id, {
-        dishName: dish.dish_name,
-        selectedTriggerIds: predictedTriggerIds,
+    setDishStates((prev) => {
+      const initialStates = new Map<string, DishState>();
+      dishes.forEach((dish) => {
+        const initialTriggerIds = new Set(
+          (dish.triggers ?? dish.predicted_triggers)?.map((t) => t.trigger_id) || []
+        );
+        initialStates.set(dish.dish_event_id, prev.get(dish.dish_event_id) ?? {
+          dishName: dish.dish_name,
+          selectedTriggerIds: initialTriggerIds,
+          removedIngredientIds: new Set(),
+          ...getInitialPortionState(dish),
+        });
       });
+      return initialStates;
     });
-    setDishStates(initialStates);
   }, [dishes]);
 
-  // Load all available triggers
+  // Load all available triggers, and the user's sensitivities to highlight among them
   useEffect(() => {
     const loadTriggers = async () => {
       try {
-        const triggers = await getAllTriggers();
+        const [triggers, sensitivities] = await Promise.all([
+          getAllTriggers(),
+          getTriggerSensitivitiesForUser().catch((err) => {
+            logger.warn(FILENAME, 'loadTriggers', 'Failed to load sensitivities', err);
+            return [];
+          }),
+        ]);
         setAllTriggers(triggers);
+        setHighSensitivityTriggerIds(getHighSensitivityTriggerIds(sensitivities));
       } catch (err) {
         console.error('Error loading triggers:', err);
         setError('Failed to load triggers');
@@ -89,6 +159,29 @@ export default function ConfirmFoodEntryScreen() {
     };
     loadTriggers();
   }, []);
+
+  // Rebuild the entry from the database when resuming a pending entry or editing a confirmed one
+  useEffect(() => {
+    if (response || !rawEntryId) {
+      return;
+    }
+
+    const loadEntry = async () => {
+      try {
+        const loadedResponse = isEditing
+          ? await getFoodEntryForEditing(rawEntryId)
+          : await getFoodEntryForConfirmation(rawEntryId);
+        setDishes(loadedResponse.dishes);
+        setMealType(loadedResponse.meal_type ?? null);
+      } catch (err) {
+        logger.error(FILENAME, 'loadEntry', 'Error loading food entry', err);
+        setError('Failed to load meal');
+      } finally {
+        setIsLoadingEntry(false);
+      }
+    };
+    loadEntry();
+  }, [response, rawEntryId, isEditing]);
   
 
   const updateDishName = (dishEventId: string, name: string) => {
@@ -105,6 +198,28 @@ export default function ConfirmFoodEntryScreen() {
     });
   };
 
+  const updateDishPortion = (dishEventId: string, changes: Partial<DishPortionState>) => {
+    setDishStates((prev) => {
+      const newStates = new Map(prev);
+      const currentState = newStates.get(dishEventId);
+      if (currentState) {
+        newStates.set(dishEventId, {
+          ...currentState,
+          ...changes,
+        });
+      }
+      return newStates;
+    });
+  };
+
+  // Tapping the selected portion size again clears it
+  const togglePortionSize = (dishEventId: string, portionSize: PortionSize) => {
+    const currentState = dishStates.get(dishEventId);
+    updateDishPortion(dishEventId, {
+      portionSize: currentState?.portionSize === portionSize ? null : portionSize,
+    });
+  };
+
   const removeTrigger = (dishEventId: string, triggerId: string) => {
     setDishStates((prev) => {
       const newStates = new Map(prev);
@@ -121,6 +236,34 @@ export default function ConfirmFoodEntryScreen() {
     });
   };
 
+  // Removing an ingredient drops the triggers only it carried; putting it back restores them
+  const toggleIngredient = (dish: DishWithTriggers, ingredient: DishIngredient) => {
+    setDishStates((prev) => {
+      const newStates = new Map(prev);
+      const currentState = newStates.get(dish.dish_event_id);
+      if (currentState) {
+        const removedIngredientIds = new Set(currentState.removedIngredientIds);
+        let selectedTriggerIds: Set<string>;
+        if (removedIngredientIds.delete(ingredient.ingredient_id)) {
+          selectedTriggerIds = restoreIngredientTriggers(currentState.selectedTriggerIds, ingredient);
+        } else {
+          removedIngredientIds.add(ingredient.ingredient_id);
+          selectedTriggerIds = removeIngredientTriggers(
+            currentState.selectedTriggerIds,
+            ingredient,
+            (dish.ingredients ?? []).filter((i) => !removedIngredientIds.has(i.ingredient_id)),
+          );
+        }
+        newStates.set(dish.dish_event_id, {
+          ...currentState,
+          removedIngredientIds,
+          selectedTriggerIds,
+        });
+      }
+      return newStates;
+    });
+  };
+
   const openAddTriggerModal = (dishEventId: string) => {
     logger.info(FILENAME, 'openAddTriggerModal', 'Opening add trigger modal', { dishEventId });
 
@@ -154,6 +297,29 @@ export default function ConfirmFoodEntryScreen() {
     });
   };
 
+  // Creates a custom trigger (or finds an existing one with that name) and adds it to the dish
+  const handleCreateTrigger = async () => {
+    if (!selectedDishEventId || !newTriggerName.trim()) return;
+
+    setIsCreatingTrigger(true);
+    setError(null);
+
+    try {
+      const trigger = await createCustomTrigger(newTriggerName);
+      setAllTriggers((prev) =>
+        prev.some((t) => t.id === trigger.id) ? prev : [...prev, trigger]
+      );
+      addTrigger(trigger.id);
+      setNewTriggerName('');
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to create trigger';
+      setError(errorMessage);
+      logger.error(FILENAME, 'handleCreateTrigger', 'Error creating custom trigger', err);
+    } finally {
+      setIsCreatingTrigger(false);
+    }
+  };
+
   // TODO: make this faster by removing database query
   const getAvailableTriggersForDish = (dishEventId: string): Trigger[] => {
     logger.info(FILENAME, 'getAvailableTriggersForDish', 'Getting available triggers for dish', { dishEventId });
@@ -167,150 +333,254 @@ export default function ConfirmFoodEntryScreen() {
     return result;
   };
 
-  const handleAddDish = async () => {
-    setIsAddingDish(true);
+  // The dish is only logged when the entry is confirmed, as the user's dish with the name given
+  const handleAddDish = () => {
+    const dishEventId = `added-dish-${nextAddedDishNumber.current++}`;
+    const newDish: DishWithTriggers = {
+      dish_event_id: dishEventId,
+      dish_id: '',
+      dish_name: 'New Dish',
+      predicted_triggers: [],
+    };
+
+    setDishes((prev) => [...prev, newDish]);
+    setAddedDishEventIds((prev) => new Set(prev).add(dishEventId));
     setError(null);
 
-    try {
-      const userId = await getAuthenticatedUserId();
-      const rawEntryId = response.entry_id;
+    logger.info(FILENAME, 'handleAddDish', 'Dish added', { dishEventId });
+  };
 
-      // Find or create dish with a default name
-      const dish = await findOrCreateDishForUser({
-        userId,
-        dishNameSuggestion: 'New Dish',
-      });
+  // The user accepted a dish matched by name similarity; just hide the question
+  const handleAcceptMatch = (dishEventId: string) => {
+    setDishes((prev) =>
+      prev.map((dish) =>
+        dish.dish_event_id === dishEventId ? { ...dish, matched_dish_name_suggestion: undefined } : dish
+      )
+    );
+  };
 
-      // Create dish_event
-      // Use the same occurredAt timestamp as the rest of the meal entry
-      // This ensures all dishes in the same meal have the same occurred_at timestamp
-      const dishEvent = await createDishEvent({
-        userId,
-        dishId: dish.id,
-        predictedDishId: null,
-        rawEntryId,
-        confirmedByUser: false,
-        deletedAt: null,
-        occurredAt: mealTimestamp.getTime(),
-      });
+  // The user said a similarity match is wrong: log the dish under its own name instead. The dish
+  // event stays (with its predictions), only its dish changes.
+  const handleRejectMatch = async (dish: DishWithTriggers) => {
+    if (!dish.matched_dish_name_suggestion) return;
 
-      // Create new DishWithTriggers object
-      const newDish: DishWithTriggers = {
-        dish_event_id: dishEvent.id,
-        dish_id: dish.id,
-        dish_name: dish.dishName,
-        predicted_triggers: [],
-      };
+    setIsRejectingMatch(dish.dish_event_id);
+    setError(null);
 
-      // Update state
-      setDishes((prev) => [...prev, newDish]);
+    try {
+      const newDish = await rejectSimilarDishMatch(dish.dish_event_id, dish.matched_dish_name_suggestion);
+
+      // Triggers and ingredients copied from the wrong dish are dropped, the portion is kept
+      setDishes((prev) =>
+        prev.map((d) =>
+          d.dish_event_id === dish.dish_event_id
+            ? {
+                ...d,
+                dish_id: newDish.id,
+                dish_name: newDish.dishName,
+                ingredients: undefined,
+                matched_dish_name_suggestion: undefined,
+              }
+            : d
+        )
+      );
       setDishStates((prev) => {
         const newStates = new Map(prev);
-        newStates.set(dishEvent.id, {
-          dishName: dish.dishName,
+        const previousState = newStates.get(dish.dish_event_id);
+        newStates.set(dish.dish_event_id, {
+          dishName: newDish.dishName,
           selectedTriggerIds: new Set(),
+          removedIngredientIds: new Set(),
+          quantityText: previousState?.quantityText ?? '',
+          unit: previousState?.unit ?? '',
+          portionSize: previousState?.portionSize ?? null,
         });
         return newStates;
       });
 
-      logger.info(FILENAME, 'handleAddDish', 'Dish added successfully', {
-        dishEventId: dishEvent.id,
-        dishId: dish.id,
+      logger.info(FILENAME, 'handleRejectMatch', 'Logged similarity match as a separate dish', {
+        matchedDishId: dish.dish_id,
+        dishId: newDish.id,
       });
     } catch (err) {
-      const errorMessage = err instanceof Error ? err.message : 'Failed to add dish';
+      const errorMessage = err instanceof Error ? err.message : 'Failed to update dish';
       setError(errorMessage);
-      logger.error(FILENAME, 'handleAddDish', 'Error adding dish', err);
-      console.error('Error adding dish:', err);
+      logger.error(FILENAME, 'handleRejectMatch', 'Error rejecting matched dish', err);
     } finally {
-      setIsAddingDish(false);
+      setIsRejectingMatch(null);
     }
   };
 
-  const handleDeleteDish = async (dishEventId: string) => {
+  // The dish is only deleted when the entry is confirmed, so backing out of an edit keeps it
+  const handleDeleteDish = (dishEventId: string) => {
     // Prevent deleting if it's the last dish
     if (dishes.length <= 1) {
       setError('Cannot delete the last dish. At least one dish is required.');
       return;
     }
 
-    setIsDeletingDish(dishEventId);
     setError(null);
-
-    try {
-      // Soft delete in database
-      await updateDishEventDeletedAt(dishEventId, new Date());
-
-      // Remove from state
-      setDishes((prev) => prev.filter((dish) => dish.dish_event_id !== dishEventId));
-      setDishStates((prev) => {
-        const newStates = new Map(prev);
-        newStates.delete(dishEventId);
-        return newStates;
+    setDishes((prev) => prev.filter((dish) => dish.dish_event_id !== dishEventId));
+    setDishStates((prev) => {
+      const newStates = new Map(prev);
+      newStates.delete(dishEventId);
+      return newStates;
+    });
+    if (addedDishEventIds.has(dishEventId)) {
+      setAddedDishEventIds((prev) => {
+        const newIds = new Set(prev);
+        newIds.delete(dishEventId);
+        return newIds;
       });
+    } else {
+      setDeletedDishEventIds((prev) => [...prev, dishEventId]);
+    }
 
-      // Close trigger modal if it was open for this dish
-      if (selectedDishEventId === dishEventId) {
-        setShowAddTriggerModal(false);
-        setSelectedDishEventId(null);
-      }
-
-      logger.info(FILENAME, 'handleDeleteDish', 'Dish deleted successfully', { dishEventId });
-    } catch (err) {
-      const errorMessage = err instanceof Error ? err.message : 'Failed to delete dish';
-      setError(errorMessage);
-      logger.error(FILENAME, 'handleDeleteDish', 'Error deleting dish', err);
-      console.error('Error deleting dish:', err);
-    } finally {
-      setIsDeletingDish(null);
+    // Close trigger modal if it was open for this dish
+    if (selectedDishEventId === dishEventId) {
+      setShowAddTriggerModal(false);
+      setSelectedDishEventId(null);
     }
+
+    logger.info(FILENAME, 'handleDeleteDish', 'Dish removed', { dishEventId });
   };
 
-  const handleConfirm = async () => {
+  // Takes dishes and states explicitly so a merge can re-submit before React state updates land
+  const submitConfirmation = async (
+    currentDishes: DishWithTriggers[],
+    currentStates: Map<string, DishState>,
+  ) => {
     setIsConfirming(true);
     setError(null);
+    setNameConflict(null);
 
     try {
-      const confirmedDishes: ConfirmedDish[] = dishes.map((dish) => {
-        const dishState = dishStates.get(dish.dish_event_id);
+      const confirmedDishes: ConfirmedDish[] = currentDishes.map((dish) => {
+        const dishState = currentStates.get(dish.dish_event_id);
         if (!dishState) {
           throw new Error(`Missing state for dish ${dish.dish_event_id}`);
         }
 
+        const finalDishName = dishState.dishName.trim() || dish.dish_name;
+        const quantity = toQuantity(dishState.quantityText);
+        if (dishState.quantityText.trim() !== '' && quantity === null) {
+          throw new Error(`Enter a positive amount for "${finalDishName}", or leave it empty.`);
+        }
+        const isAdded = addedDishEventIds.has(dish.dish_event_id);
+
         return {
-          dish_event_id: dish.dish_event_id,
-          dish_id: dish.dish_id,
-          final_dish_name: dishState.dishName.trim() || dish.dish_name,
+          dish_event_id: isAdded ? null : dish.dish_event_id,
+          dish_id: isAdded ? null : dish.dish_id,
+          final_dish_name: finalDishName,
+          // A unit without an amount means nothing on its own
+          quantity,
+          unit: quantity !== null ? toUnit(dishState.unit) : null,
+          portion_size: dishState.portionSize,
           trigger_ids: Array.from(dishState.selectedTriggerIds),
+          // Only dishes broken into ingredients have any to keep or remove
+          ingredient_ids: dish.ingredients?.length
+            ? dish.ingredients
+                .filter((ingredient) => !dishState.removedIngredientIds.has(ingredient.ingredient_id))
+                .map((ingredient) => ingredient.ingredient_id)
+            : undefined,
         };
       });
 
-      await confirmFoodEntry(response.entry_id, {
+      const confirmed = await confirmFoodEntry(entryId, {
         confirmed_dishes: confirmedDishes,
         occurred_at: mealTimestamp.getTime(),
+        meal_type: mealType,
+        deleted_dish_event_ids: deletedDishEventIds,
       });
 
+      // Warn about known triggers as soon as a meal is logged (not when editing it later)
+      if (!isEditing) {
+        const warning = await getKnownTriggerWarning(confirmed.dishes);
+        if (warning) {
+          Alert.alert('Known trigger in this meal', warning);
+        }
+      }
+
       // Navigate to DailyLog tab
-      logger.info(FILENAME, 'handleConfirm', 'Food entry confirmed, navigating to DailyLog');
+      logger.info(FILENAME, 'handleConfirm', 'Food entry confirmed, navigating to DailyLog', { isEditing });
       (navigation as any).reset({
         index: 0,
         routes: [{ name: 'Main', params: { screen: 'DailyLog' } }],
       });
     } catch (err) {
-      const errorMessage = err instanceof Error ? err.message : 'Failed to confirm food entry';
-      setError(errorMessage);
+      // Renaming into an existing dish: offer to merge instead of just failing
+      const conflict = getDishNameConflict(err);
+      const conflictingDish = conflict
+        ? currentDishes.find((dish) => dish.dish_event_id === conflict.dishEventId)
+        : undefined;
+
+      if (conflictingDish) {
+        setNameConflict({
+          dishEventId: conflictingDish.dish_event_id,
+          dishName: currentStates.get(conflictingDish.dish_event_id)!.dishName.trim(),
+        });
+      } else {
+        const errorMessage = err instanceof Error ? err.message : 'Failed to confirm food entry';
+        setError(errorMessage);
+      }
       console.error('Error confirming food entry:', err);
     } finally {
       setIsConfirming(false);
     }
   };
 
-  if (isLoadingTriggers) {
+  const handleConfirm = () => submitConfirmation(dishes, dishStates);
+
+  // Merges the renamed dish into the existing dish with that name, then confirms again
+  const handleMergeConflict = async () => {
+    if (!nameConflict) return;
+
+    const sourceDish = dishes.find((dish) => dish.dish_event_id === nameConflict.dishEventId);
+    if (!sourceDish) return;
+
+    setIsMerging(true);
+    setError(null);
+
+    try {
+      const target = await mergeDishIntoNamedDish(sourceDish.dish_id, nameConflict.dishName);
+      logger.info(FILENAME, 'handleMergeConflict', 'Dishes merged', {
+        sourceDishId: sourceDish.dish_id,
+        targetDishId: target.id,
+      });
+
+      // Every dish event of the merged dish now belongs to the target; keep its name as is
+      const mergedDishes = dishes.map((dish) =>
+        dish.dish_id === sourceDish.dish_id
+          ? { ...dish, dish_id: target.id, dish_name: target.dishName }
+          : dish,
+      );
+      const mergedStates = new Map(dishStates);
+      mergedDishes.forEach((dish) => {
+        const dishState = mergedStates.get(dish.dish_event_id);
+        if (dishState && dish.dish_id === target.id) {
+          mergedStates.set(dish.dish_event_id, { ...dishState, dishName: target.dishName });
+        }
+      });
+
+      setDishes(mergedDishes);
+      setDishStates(mergedStates);
+      setNameConflict(null);
+      await submitConfirmation(mergedDishes, mergedStates);
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to merge dishes';
+      setError(errorMessage);
+      logger.error(FILENAME, 'handleMergeConflict', 'Error merging dishes', err);
+    } finally {
+      setIsMerging(false);
+    }
+  };
+
+  if (isLoadingTriggers || isLoadingEntry) {
     return (
       <View style={[commonStyles.container, styles.centerContent]}>
         <ActivityIndicator size="large" />
         <Text variant="bodyMedium" style={styles.loadingText}>
-          Loading triggers...
+          {isLoadingEntry ? 'Loading meal...' : 'Loading triggers...'}
         </Text>
       </View>
     );
@@ -320,24 +590,56 @@ export default function ConfirmFoodEntryScreen() {
     <View style={commonStyles.container}>
       <ScrollView style={styles.scrollView} contentContainerStyle={styles.scrollContent}>
         <Text variant="headlineSmall" style={styles.title}>
-          Review Your Meal
+          {isEditing ? 'Edit Your Meal' : 'Review Your Meal'}
         </Text>
         <Text variant="bodyMedium" style={styles.subtitle}>
-          Review the dishes and triggers, then confirm to log your meal.
+          {isEditing
+            ? 'Update the dishes, amounts, triggers, meal, or time, then save your changes.'
+            : 'Review the meal, dishes, amounts, and triggers, then confirm to log your meal.'}
         </Text>
 
+        {response?.prediction_degraded && (
+          <View style={styles.degradedContainer}>
+            <Text variant="bodyMedium" style={styles.matchTitle}>
+              Suggestions may be incomplete
+            </Text>
+            <Text variant="bodySmall" style={styles.matchText}>
+              We couldn't reach the AI service, so some dishes or triggers were filled in with basic
+              rules. Check them before confirming.
+            </Text>
+          </View>
+        )}
+
         <TimePickerCard
           value={mealTimestamp}
           onChange={setMealTimestamp}
         />
 
+        <View style={styles.mealTypeSection}>
+          <Text variant="titleMedium" style={styles.mealTypeLabel}>
+            Meal
+          </Text>
+          <View style={styles.triggersContainer}>
+            {MEAL_TYPES.map((type) => (
+              <Chip
+                key={type}
+                style={styles.triggerChip}
+                selected={mealType === type}
+                showSelectedOverlay
+                onPress={() => setMealType(type)}
+                mode="outlined"
+              >
+                {MEAL_TYPE_DISPLAY_TEXT_MAP[type]}
+              </Chip>
+            ))}
+          </View>
+        </View>
+
         <Button
           mode="outlined"
           onPress={handleAddDish}
           icon="plus"
           style={styles.addDishButton}
-          loading={isAddingDish}
-          disabled={isAddingDish}
         >
           Add Dish
         </Button>
@@ -362,13 +664,40 @@ export default function ConfirmFoodEntryScreen() {
                     onPress={() => handleDeleteDish(dish.dish_event_id)}
                     icon="delete"
                     compact
-                    loading={isDeletingDish === dish.dish_event_id}
-                    disabled={isDeletingDish === dish.dish_event_id}
                     textColor={theme.colors.error}
                   >
                     Delete
                   </Button>
                 </View>
+                {dish.matched_dish_name_suggestion && (
+                  <View style={styles.matchContainer}>
+                    <Text variant="bodyMedium" style={styles.matchTitle}>
+                      Did you mean "{dish.dish_name}"?
+                    </Text>
+                    <Text variant="bodySmall" style={styles.matchText}>
+                      "{dish.matched_dish_name_suggestion}" looks like a dish you've logged before.
+                    </Text>
+                    <View style={styles.conflictActions}>
+                      <Button
+                        mode="text"
+                        onPress={() => handleRejectMatch(dish)}
+                        loading={isRejectingMatch === dish.dish_event_id}
+                        disabled={isRejectingMatch !== null}
+                        compact
+                      >
+                        No, it's a new dish
+                      </Button>
+                      <Button
+                        mode="contained"
+                        onPress={() => handleAcceptMatch(dish.dish_event_id)}
+                        disabled={isRejectingMatch !== null}
+                        compact
+                      >
+                        Yes
+                      </Button>
+                    </View>
+                  </View>
+                )}
                 <TextInput
                   value={dishState.dishName}
                   onChangeText={(text) => updateDishName(dish.dish_event_id, text)}
@@ -377,6 +706,111 @@ export default function ConfirmFoodEntryScreen() {
                   placeholder="Enter dish name"
                 />
 
+                {nameConflict?.dishEventId === dish.dish_event_id && (
+                  <View style={styles.conflictContainer}>
+                    <Text variant="bodySmall" style={styles.conflictText}>
+                      You already have a dish called "{nameConflict.dishName}". Merge this dish into
+                      it to combine their history, or keep editing the name.
+                    </Text>
+                    <View style={styles.conflictActions}>
+                      <Button
+                        mode="text"
+                        onPress={() => setNameConflict(null)}
+                        disabled={isMerging}
+                        compact
+                      >
+                        Keep Editing
+                      </Button>
+                      <Button
+                        mode="contained"
+                        onPress={handleMergeConflict}
+                        loading={isMerging}
+                        disabled={isMerging || isConfirming}
+                        compact
+                      >
+                        Merge Dishes
+                      </Button>
+                    </View>
+                  </View>
+                )}
+
+                <View style={styles.portionSection}>
+                  <Text variant="titleMedium" style={styles.portionLabel}>
+                    Amount
+                  </Text>
+                  <View style={styles.portionInputs}>
+                    <TextInput
+                      value={dishState.quantityText}
+                      onChangeText={(text) =>
+                        updateDishPortion(dish.dish_event_id, { quantityText: text })
+                      }
+                      style={styles.quantityInput}
+                      mode="outlined"
+                      placeholder="Qty"
+                      keyboardType="decimal-pad"
+                      dense
+                    />
+                    <TextInput
+                      value={dishState.unit}
+                      onChangeText={(text) => updateDishPortion(dish.dish_event_id, { unit: text })}
+                      style={styles.unitInput}
+                      mode="outlined"
+                      placeholder="Unit (e.g. cup, slice)"
+                      autoCapitalize="none"
+                      dense
+                    />
+                  </View>
+                  <View style={styles.triggersContainer}>
+                    {PORTION_SIZES.map((portionSize) => (
+                      <Chip
+                        key={portionSize}
+                        style={styles.triggerChip}
+                        selected={dishState.portionSize === portionSize}
+                        showSelectedOverlay
+                        onPress={() => togglePortionSize(dish.dish_event_id, portionSize)}
+                        mode="outlined"
+                      >
+                        {PORTION_SIZE_DISPLAY_TEXT_MAP[portionSize]}
+                      </Chip>
+                    ))}
+                  </View>
+                </View>
+
+                {dish.ingredients && dish.ingredients.length > 0 && (
+                  <View style={styles.ingredientsSection}>
+                    <Text variant="titleMedium" style={styles.ingredientsLabel}>
+                      Ingredients
+                    </Text>
+                    <View style={styles.triggersContainer}>
+                      {dish.ingredients.map((ingredient) => {
+                        const isRemoved = dishState.removedIngredientIds.has(ingredient.ingredient_id);
+                        // Removed ingredients stay listed so they can be tapped to put them back
+                        return isRemoved ? (
+                          <Chip
+                            key={ingredient.ingredient_id}
+                            style={styles.triggerChip}
+                            textStyle={styles.removedIngredientText}
+                            icon="undo"
+                            onPress={() => toggleIngredient(dish, ingredient)}
+                            mode="outlined"
+                          >
+                            {ingredient.ingredient_name}
+                          </Chip>
+                        ) : (
+                          <Chip
+                            key={ingredient.ingredient_id}
+                            style={styles.triggerChip}
+                            onClose={() => toggleIngredient(dish, ingredient)}
+                            mode="flat"
+                          >
+                            {ingredient.ingredient_name}
+                          </Chip>
+                        );
+                      })}
+                    </View>
+                  </View>
+                )}
+
                 <View style={styles.triggersSection}>
                   <View style={styles.triggersHeader}>
                     <Text variant="titleMedium" style={styles.triggersLabel}>
@@ -401,16 +835,24 @@ export default function ConfirmFoodEntryScreen() {
                     </Text>
                   ) : (
                     <View style={styles.triggersContainer}>
-                      {selectedTriggers.map((trigger) => (
-                        <Chip
-                          key={trigger.id}
-                          style={styles.triggerChip}
-                          onClose={() => removeTrigger(dish.dish_event_id, trigger.id)}
-                          mode="flat"
-                        >
-                          {getTriggerDisplayText(trigger.triggerName)}
-                        </Chip>
-                      ))}
+                      {selectedTriggers.map((trigger) => {
+                        const isHighSensitivity = highSensitivityTriggerIds.has(trigger.id);
+                        return (
+                          <Chip
+                            key={trigger.id}
+                            style={[
+                              styles.triggerChip,
+                              isHighSensitivity && styles.highSensitivityChip,
+                            ]}
+                            textStyle={isHighSensitivity ? styles.highSensitivityText : undefined}
+                            icon={isHighSensitivity ? 'alert-circle' : undefined}
+                            onClose={() => removeTrigger(dish.dish_event_id, trigger.id)}
+                            mode="flat"
+                          >
+                            {getTriggerDisplayText(trigger.triggerName)}
+                          </Chip>
+                        );
+                      })}
                     </View>
                   )}
 
@@ -440,11 +882,35 @@ export default function ConfirmFoodEntryScreen() {
                           ))}
                         </View>
                       )}
+                      <Text variant="bodySmall" style={styles.addTriggerTitle}>
+                        Or create your own:
+                      </Text>
+                      <View style={styles.newTriggerRow}>
+                        <TextInput
+                          value={newTriggerName}
+                          onChangeText={setNewTriggerName}
+                          style={styles.newTriggerInput}
+                          mode="outlined"
+                          placeholder="e.g. Cilantro, Carbonation"
+                          onSubmitEditing={handleCreateTrigger}
+                          dense
+                        />
+                        <Button
+                          mode="contained"
+                          onPress={handleCreateTrigger}
+                          loading={isCreatingTrigger}
+                          disabled={isCreatingTrigger || !newTriggerName.trim()}
+                          compact
+                        >
+                          Create
+                        </Button>
+                      </View>
                       <Button
                         mode="text"
                         onPress={() => {
                           setShowAddTriggerModal(false);
                           setSelectedDishEventId(null);
+                          setNewTriggerName('');
                         }}
                         style={styles.cancelButton}
                         compact
@@ -470,9 +936,11 @@ export default function ConfirmFoodEntryScreen() {
           onPress={handleConfirm}
           style={styles.confirmButton}
           loading={isConfirming}
-          disabled={isConfirming}
+          disabled={isConfirming || isMerging}
         >
-          {isConfirming ? 'Confirming...' : 'Confirm Meal'}
+          {isEditing
+            ? isConfirming ? 'Saving...' : 'Save Changes'
+            : isConfirming ? 'Confirming...' : 'Confirm Meal'}
         </Button>
       </ScrollView>
 
@@ -505,6 +973,13 @@ const styles = StyleSheet.create({
     textAlign: 'center',
     color: theme.colors.textSecondary,
   },
+  mealTypeSection: {
+    marginBottom: theme.spacing.md,
+  },
+  mealTypeLabel: {
+    color: theme.colors.textHeading,
+    marginBottom: theme.spacing.sm,
+  },
   addDishButton: {
     marginBottom: theme.spacing.md,
   },
@@ -524,6 +999,73 @@ const styles = StyleSheet.create({
   dishNameInput: {
     marginBottom: theme.spacing.md,
   },
+  matchContainer: {
+    marginBottom: theme.spacing.md,
+    padding: theme.spacing.md,
+    borderRadius: theme.spacing.sm,
+    borderWidth: 1,
+    borderColor: theme.colors.primary + '40',
+  },
+  matchTitle: {
+    color: theme.colors.textHeading,
+    fontWeight: '600',
+  },
+  matchText: {
+    color: theme.colors.textSecondary,
+    marginTop: theme.spacing.xs,
+  },
+  degradedContainer: {
+    marginBottom: theme.spacing.md,
+    padding: theme.spacing.md,
+    borderRadius: theme.spacing.sm,
+    borderWidth: 1,
+    borderColor: theme.colors.error + '40',
+  },
+  conflictContainer: {
+    marginBottom: theme.spacing.md,
+    padding: theme.spacing.md,
+    borderRadius: theme.spacing.sm,
+    borderWidth: 1,
+    borderColor: theme.colors.error + '40',
+  },
+  conflictText: {
+    color: theme.colors.text,
+  },
+  conflictActions: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    gap: theme.spacing.xs,
+    marginTop: theme.spacing.sm,
+  },
+  portionSection: {
+    marginBottom: theme.spacing.sm,
+  },
+  portionLabel: {
+    color: theme.colors.textHeading,
+    marginBottom: theme.spacing.sm,
+  },
+  portionInputs: {
+    flexDirection: 'row',
+    gap: theme.spacing.sm,
+    marginBottom: theme.spacing.sm,
+  },
+  quantityInput: {
+    width: 96,
+  },
+  unitInput: {
+    flex: 1,
+  },
+  ingredientsSection: {
+    marginBottom: theme.spacing.sm,
+  },
+  ingredientsLabel: {
+    color: theme.colors.textHeading,
+    marginBottom: theme.spacing.sm,
+  },
+  removedIngredientText: {
+    color: theme.colors.textSecondary,
+    textDecorationLine: 'line-through',
+  },
   triggersSection: {
     marginTop: theme.spacing.sm,
   },
@@ -545,6 +1087,12 @@ const styles = StyleSheet.create({
     marginRight: theme.spacing.xs,
     marginBottom: theme.spacing.xs,
   },
+  highSensitivityChip: {
+    backgroundColor: theme.colors.error + '20',
+  },
+  highSensitivityText: {
+    color: theme.colors.error,
+  },
   noTriggersText: {
     color: theme.colors.textSecondary,
     fontStyle: 'italic',
@@ -582,6 +1130,14 @@ const styles = StyleSheet.create({
     marginRight: theme.spacing.xs,
     marginBottom: theme.spacing.xs,
   },
+  newTriggerRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: theme.spacing.sm,
+  },
+  newTriggerInput: {
+    flex: 1,
+  },
   cancelButton: {
     marginTop: theme.spacing.xs,
   },
@@ -1,14 +1,18 @@
-import React, { useEffect, useMemo, useState } from 'react';
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
 import { View, StyleSheet, ScrollView, TouchableOpacity } from 'react-native';
 import { Text, Card, Divider, SegmentedButtons } from 'react-native-paper';
+import { useFocusEffect, useNavigation } from '@react-navigation/native';
 import { useAppDispatch, useAppSelector } from '@/store';
 import { SymptomEntry } from '@/types/symptoms';
 import { BowelEntry } from '@/types/bowel';
 import { theme } from '@/styles';
 import { fetchSymptomEntries, deleteSymptomEntryAsync } from '@/store/symptomsSlice';
 import { fetchBowelEntries, deleteBowelEntryAsync } from '@/store/bowelSlice';
-import { getFoodEntriesForUser } from '@/data/foodEntryService';
+import { getFoodEntriesForUser, getPendingFoodEntriesForUser } from '@/data/foodEntryService';
 import { updateDishEventDeletedAt } from '@/data/foodEntryRepo';
+import { saveFoodEntryAsTemplate } from '@/data/mealTemplateService';
+import { formatPortion } from '@/data/portion';
+import { MEAL_TYPE_DISPLAY_TEXT_MAP, MealType } from '@/data/mealType';
 import {
   MealDetailModal,
   SymptomDetailModal,
@@ -23,27 +27,55 @@ interface DayEntry {
   bowelEntries: BowelEntry[];
   foodEntries: Array<{
     dishEventId: string;
+    rawEntryId: string;
     dishName: string;
+    portionText: string;
+    mealType: MealType | null;
     occurredAt: number;
   }>;
 }
 
+// The dishes of one food entry, shown together under the entry's meal type
+interface DayMeal {
+  rawEntryId: string;
+  mealType: MealType | null;
+  occurredAt: number;
+  dishes: DayEntry['foodEntries'];
+}
+
+// Groups a day's dishes by the food entry they were logged in, keeping their order
+const groupDishesIntoMeals = (foodEntries: DayEntry['foodEntries']): DayMeal[] => {
+  const mealsByRawEntryId = new Map<string, DayMeal>();
+  foodEntries.forEach((foodEntry) => {
+    const meal = mealsByRawEntryId.get(foodEntry.rawEntryId);
+    if (meal) {
+      meal.dishes.push(foodEntry);
+    } else {
+      mealsByRawEntryId.set(foodEntry.rawEntryId, {
+        rawEntryId: foodEntry.rawEntryId,
+        mealType: foodEntry.mealType,
+        occurredAt: foodEntry.occurredAt,
+        dishes: [foodEntry],
+      });
+    }
+  });
+  return Array.from(mealsByRawEntryId.values());
+};
+
 type ViewMode = 'all' | 'today' | 'week';
 
 export default function DailyLogScreen() {
   const [viewMode, setViewMode] = useState<ViewMode>('today');
   const [foodEntries, setFoodEntries] = useState<Awaited<ReturnType<typeof getFoodEntriesForUser>>>([]);
   const [isLoadingFood, setIsLoadingFood] = useState(true);
+  const [pendingEntryCount, setPendingEntryCount] = useState(0);
   
   // Modal states
-  const [selectedMeal, setSelectedMeal] = useState<{
-    dishEventId: string;
-    dishName: string;
-    occurredAt: number;
-  } | null>(null);
+  const [selectedMeal, setSelectedMeal] = useState<DayEntry['foodEntries'][number] | null>(null);
   const [selectedSymptom, setSelectedSymptom] = useState<SymptomEntry | null>(null);
   const [selectedBowel, setSelectedBowel] = useState<BowelEntry | null>(null);
   
+  const navigation = useNavigation();
   const dispatch = useAppDispatch();
   const symptomEntries = useAppSelector((state) => state.symptoms.entries);
   const bowelEntries = useAppSelector((state) => state.bowel.entries);
@@ -67,6 +99,23 @@ export default function DailyLogScreen() {
     loadFoodEntries();
   }, [dispatch]);
 
+  // Fetch count of unconfirmed meals for the "Needs review" banner; on focus, so it's current
+  // after confirming or discarding them
+  const loadPendingEntryCount = useCallback(async () => {
+    try {
+      const pendingEntries = await getPendingFoodEntriesForUser();
+      setPendingEntryCount(pendingEntries.length);
+    } catch (error) {
+      console.error('Error loading pending food entries:', error);
+    }
+  }, []);
+
+  useFocusEffect(
+    useCallback(() => {
+      loadPendingEntryCount();
+    }, [loadPendingEntryCount])
+  );
+
   const organizedEntries = useMemo(() => {
     // Combine all entries with their types
     const allEntries = [
@@ -118,7 +167,10 @@ export default function DailyLogScreen() {
       const dayEntry = entriesByDate.get(dateKey)!;
       dayEntry.foodEntries.push({
         dishEventId: foodEntry.dishEventId,
+        rawEntryId: foodEntry.rawEntryId,
         dishName: foodEntry.dishName,
+        portionText: formatPortion(foodEntry.quantity, foodEntry.unit, foodEntry.portionSize),
+        mealType: foodEntry.mealType,
         occurredAt: foodEntry.occurredAt
       });
     });
@@ -161,6 +213,25 @@ export default function DailyLogScreen() {
     }
   };
 
+  const handleEditMeal = () => {
+    if (!selectedMeal) return;
+
+    // Edit the whole meal (all dishes logged together), not just the tapped dish
+    (navigation as any).navigate('ConfirmFoodEntry', {
+      rawEntryId: selectedMeal.rawEntryId,
+      initialOccuredAtTimestamp: selectedMeal.occurredAt,
+      isEditing: true,
+    });
+    setSelectedMeal(null);
+  };
+
+  const handleSaveMealAsTemplate = async (templateName: string) => {
+    if (!selectedMeal) return;
+
+    // Errors are shown in the modal
+    await saveFoodEntryAsTemplate(selectedMeal.rawEntryId, templateName);
+  };
+
   const handleDeleteSymptom = async () => {
     if (!selectedSymptom) return;
     
@@ -198,6 +269,19 @@ export default function DailyLogScreen() {
       </View>
 
       <ScrollView style={styles.scrollContainer}>
+        {pendingEntryCount > 0 && (
+          <Card
+            style={styles.pendingCard}
+            onPress={() => navigation.navigate('PendingFoodEntries' as never)}
+          >
+            <Card.Title
+              title="Needs review"
+              subtitle={`${pendingEntryCount} ${pendingEntryCount === 1 ? 'meal was' : 'meals were'} never confirmed`}
+              titleStyle={styles.pendingTitle}
+            />
+          </Card>
+        )}
+
         {organizedEntries.length === 0 ? (
           <Card style={styles.emptyCard}>
             <Card.Content>
@@ -217,62 +301,78 @@ export default function DailyLogScreen() {
                   {dayEntry.date}
                 </Text>
 
-                {/* Show all entries chronologically (newest first) */}
+                {/* Show all entries chronologically (newest first); dishes are grouped into meals */}
                 {(() => {
                   const allDayEntries = [
                     ...dayEntry.symptomEntries.map(entry => ({ ...entry, type: 'symptom' as const })),
                     ...dayEntry.bowelEntries.map(entry => ({ ...entry, type: 'bowel' as const })),
-                    ...dayEntry.foodEntries.map(foodEntry => ({
-                      type: 'food' as const,
-                      dishEventId: foodEntry.dishEventId,
-                      dishName: foodEntry.dishName,
-                      occurredAt: foodEntry.occurredAt
+                    ...groupDishesIntoMeals(dayEntry.foodEntries).map(meal => ({
+                      ...meal,
+                      type: 'meal' as const,
                     }))
                   ].sort((a, b) => b.occurredAt - a.occurredAt);
 
-                  return allDayEntries.map((entry, index) => (
-                    <TouchableOpacity
-                      key={`${entry.type}-${entry.type === 'food' ? entry.dishEventId : entry.id}`}
-                      style={styles.entryItem}
-                      onPress={() => {
-                        if (entry.type === 'food') {
-                          setSelectedMeal({
-                            dishEventId: entry.dishEventId,
-                            dishName: entry.dishName,
-                            occurredAt: entry.occurredAt,
-                          });
-                        } else if (entry.type === 'symptom') {
-                          setSelectedSymptom(entry as SymptomEntry);
-                        } else if (entry.type === 'bowel') {
-                          setSelectedBowel(entry as BowelEntry);
-                        }
-                      }}
-                      activeOpacity={0.7}
-                    >
-                      <View style={styles.entryRow}>
-                        <Text variant="bodySmall" style={styles.entryTime}>
-                          {formatTime(entry.occurredAt)}
-                        </Text>                        
-                        {entry.type === 'symptom' && (
-                          <Text variant="bodyMedium" style={styles.entryText}>
-                            {(entry as SymptomEntry).name}
-                          </Text>
-                        )}
-                        
-                        {entry.type === 'bowel' && (
-                          <Text variant="bodyMedium" style={styles.entryText}>
-                            Bowel Movement
-                          </Text>
-                        )}
+                  return allDayEntries.map((entry) => {
+                    if (entry.type === 'meal') {
+                      return (
+                        <View key={`meal-${entry.rawEntryId}`} style={styles.entryItem}>
+                          <View style={styles.entryRow}>
+                            <Text variant="bodySmall" style={styles.entryTime}>
+                              {formatTime(entry.occurredAt)}
+                            </Text>
+                            <View style={styles.mealContent}>
+                              <Text variant="labelLarge" style={styles.mealTypeText}>
+                                {entry.mealType ? MEAL_TYPE_DISPLAY_TEXT_MAP[entry.mealType] : 'Meal'}
+                              </Text>
+                              {entry.dishes.map((dish) => (
+                                <TouchableOpacity
+                                  key={dish.dishEventId}
+                                  onPress={() => setSelectedMeal(dish)}
+                                  activeOpacity={0.7}
+                                >
+                                  <Text variant="bodyMedium" style={styles.entryText}>
+                                    {dish.portionText ? `${dish.dishName} (${dish.portionText})` : dish.dishName}
+                                  </Text>
+                                </TouchableOpacity>
+                              ))}
+                            </View>
+                          </View>
+                        </View>
+                      );
+                    }
 
-                        {entry.type === 'food' && (
-                          <Text variant="bodyMedium" style={styles.entryText}>
-                            {entry.dishName}
+                    return (
+                      <TouchableOpacity
+                        key={`${entry.type}-${entry.id}`}
+                        style={styles.entryItem}
+                        onPress={() => {
+                          if (entry.type === 'symptom') {
+                            setSelectedSymptom(entry as SymptomEntry);
+                          } else if (entry.type === 'bowel') {
+                            setSelectedBowel(entry as BowelEntry);
+                          }
+                        }}
+                        activeOpacity={0.7}
+                      >
+                        <View style={styles.entryRow}>
+                          <Text variant="bodySmall" style={styles.entryTime}>
+                            {formatTime(entry.occurredAt)}
                           </Text>
-                        )}
-                      </View>
-                    </TouchableOpacity>
-                  ));
+                          {entry.type === 'symptom' && (
+                            <Text variant="bodyMedium" style={styles.entryText}>
+                              {(entry as SymptomEntry).name}
+                            </Text>
+                          )}
+
+                          {entry.type === 'bowel' && (
+                            <Text variant="bodyMedium" style={styles.entryText}>
+                              Bowel Movement
+                            </Text>
+                          )}
+                        </View>
+                      </TouchableOpacity>
+                    );
+                  });
                 })()}
 
                 {/* Summary */}
@@ -281,7 +381,7 @@ export default function DailyLogScreen() {
                   <Text variant="bodySmall" style={styles.summaryText}>
                     {dayEntry.symptomEntries.length} symptoms • {' '}
                     {dayEntry.bowelEntries.length} bowel movements • {' '}
-                    {dayEntry.foodEntries.length} meals
+                    {groupDishesIntoMeals(dayEntry.foodEntries).length} meals
                   </Text>
                 </View>
               </Card.Content>
@@ -296,7 +396,10 @@ export default function DailyLogScreen() {
         onDismiss={() => setSelectedMeal(null)}
         dishEventId={selectedMeal?.dishEventId || ''}
         dishName={selectedMeal?.dishName || ''}
+        portionText={selectedMeal?.portionText || ''}
         occurredAt={selectedMeal?.occurredAt || 0}
+        onEdit={handleEditMeal}
+        onSaveAsTemplate={handleSaveMealAsTemplate}
         onDelete={handleDeleteMeal}
       />
 
@@ -337,6 +440,13 @@ const styles = StyleSheet.create({
   emptyCard: {
     marginTop: theme.spacing.xl,
   },
+  pendingCard: {
+    marginBottom: theme.spacing.md,
+    backgroundColor: theme.colors.infoBackground,
+  },
+  pendingTitle: {
+    color: theme.colors.primaryStrong,
+  },
   emptyText: {
     textAlign: 'center',
     color: theme.colors.textSecondary,
@@ -364,6 +474,13 @@ const styles = StyleSheet.create({
     color: theme.colors.text,
     flex: 1,
   },
+  mealContent: {
+    flex: 1,
+  },
+  mealTypeText: {
+    color: theme.colors.textHeading,
+    marginBottom: theme.spacing.xs,
+  },
   entryTime: {
     color: theme.colors.primary,
     fontSize: 14,
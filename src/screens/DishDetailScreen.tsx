@@ -0,0 +1,345 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { View, StyleSheet, ScrollView } from 'react-native';
+import { Text, Card, Button, Chip, Divider, IconButton, ActivityIndicator } from 'react-native-paper';
+import { useRoute, RouteProp } from '@react-navigation/native';
+import { theme, commonStyles } from '@/styles';
+import { getDishDetail, setDishFavorite, updateDishDefaultTriggers } from '@/data/dishService';
+import { getAllTriggers } from '@/data/foodEntryRepo';
+import { getTriggerDisplayText } from '@/data/trigger';
+import { DishDetail, Trigger } from '@/types/dish';
+import { logger } from '@/utils/logger';
+import { formatTime, formatDate } from '@/utils/dateTime';
+
+const FILENAME = 'DishDetailScreen.tsx';
+
+type RootStackParamList = {
+  DishDetail: { dishId: string };
+};
+
+type DishDetailRouteProp = RouteProp<RootStackParamList, 'DishDetail'>;
+
+export default function DishDetailScreen() {
+  const route = useRoute<DishDetailRouteProp>();
+  const { dishId } = route.params;
+
+  const [detail, setDetail] = useState<DishDetail | null>(null);
+  const [allTriggers, setAllTriggers] = useState<Trigger[]>([]);
+  const [selectedTriggerIds, setSelectedTriggerIds] = useState<Set<string>>(new Set());
+  const [isEditingTriggers, setIsEditingTriggers] = useState(false);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadDetail = useCallback(async () => {
+    try {
+      setIsLoading(true);
+      const [dishDetail, triggers] = await Promise.all([getDishDetail(dishId), getAllTriggers()]);
+      setDetail(dishDetail);
+      setAllTriggers(triggers);
+      setSelectedTriggerIds(new Set(dishDetail.triggerProfile.triggers.map((t) => t.id)));
+    } catch (err) {
+      logger.error(FILENAME, 'loadDetail', 'Error loading dish', err);
+      setError('Failed to load dish');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [dishId]);
+
+  useEffect(() => {
+    loadDetail();
+  }, [loadDetail]);
+
+  const toggleTrigger = (triggerId: string) => {
+    setSelectedTriggerIds((prev) => {
+      const next = new Set(prev);
+      if (next.has(triggerId)) {
+        next.delete(triggerId);
+      } else {
+        next.add(triggerId);
+      }
+      return next;
+    });
+  };
+
+  // An empty list clears the defaults, so the dish falls back to its last confirmed triggers
+  const saveDefaultTriggers = async (triggerIds: string[]) => {
+    setIsSaving(true);
+    setError(null);
+
+    try {
+      await updateDishDefaultTriggers(dishId, triggerIds);
+      setIsEditingTriggers(false);
+      await loadDetail();
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to save default triggers';
+      setError(errorMessage);
+      logger.error(FILENAME, 'saveDefaultTriggers', 'Error saving default triggers', err);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleToggleFavorite = async () => {
+    if (!detail) return;
+    setError(null);
+
+    try {
+      const dish = await setDishFavorite(dishId, detail.dish.favoritedAt === null);
+      setDetail({ ...detail, dish });
+    } catch (err) {
+      logger.error(FILENAME, 'handleToggleFavorite', 'Error updating favorite', err);
+      setError('Failed to update favorite');
+    }
+  };
+
+  const handleCancelEditing = () => {
+    setSelectedTriggerIds(new Set(detail?.triggerProfile.triggers.map((t) => t.id) ?? []));
+    setIsEditingTriggers(false);
+  };
+
+  if (isLoading && !detail) {
+    return (
+      <View style={[commonStyles.container, styles.centerContent]}>
+        <ActivityIndicator size="large" />
+      </View>
+    );
+  }
+
+  if (!detail) {
+    return (
+      <View style={[commonStyles.container, styles.centerContent]}>
+        <Text variant="bodyLarge" style={styles.errorText}>
+          {error ?? 'Dish not found'}
+        </Text>
+      </View>
+    );
+  }
+
+  const { dish, timesEaten, lastEatenAt, triggerProfile, history } = detail;
+
+  return (
+    <View style={styles.container}>
+      <ScrollView style={styles.scrollContainer}>
+        <Card style={styles.card}>
+          <Card.Content>
+            <View style={styles.titleRow}>
+              <Text variant="headlineSmall" style={styles.dishName}>
+                {dish.dishName}
+              </Text>
+              <IconButton
+                icon={dish.favoritedAt !== null ? 'star' : 'star-outline'}
+                iconColor={theme.colors.primary}
+                onPress={handleToggleFavorite}
+                accessibilityLabel={
+                  dish.favoritedAt !== null ? 'Remove from favorites' : 'Add to favorites'
+                }
+              />
+            </View>
+            <Text variant="bodyMedium" style={styles.statsText}>
+              Eaten {timesEaten} {timesEaten === 1 ? 'time' : 'times'}
+              {lastEatenAt !== null && ` · Last eaten ${formatDate(lastEatenAt)}`}
+            </Text>
+          </Card.Content>
+        </Card>
+
+        <Card style={styles.card}>
+          <Card.Content>
+            <View style={styles.triggersHeader}>
+              <Text variant="titleMedium" style={styles.sectionTitle}>
+                Triggers
+              </Text>
+              {!isEditingTriggers && (
+                <Button mode="text" onPress={() => setIsEditingTriggers(true)} icon="pencil" compact>
+                  Edit
+                </Button>
+              )}
+            </View>
+            <Text variant="bodySmall" style={styles.helperText}>
+              {triggerProfile.isDefault
+                ? 'Default triggers you set. New meals with this dish start with these.'
+                : 'From the last time you confirmed this dish. Set defaults to always start with the same triggers.'}
+            </Text>
+
+            {isEditingTriggers ? (
+              <>
+                <View style={styles.triggersContainer}>
+                  {allTriggers.map((trigger) => (
+                    <Chip
+                      key={trigger.id}
+                      style={styles.triggerChip}
+                      selected={selectedTriggerIds.has(trigger.id)}
+                      showSelectedOverlay
+                      onPress={() => toggleTrigger(trigger.id)}
+                      mode="outlined"
+                    >
+                      {getTriggerDisplayText(trigger.triggerName)}
+                    </Chip>
+                  ))}
+                </View>
+                <View style={styles.editActions}>
+                  {triggerProfile.isDefault && (
+                    <Button
+                      mode="text"
+                      onPress={() => saveDefaultTriggers([])}
+                      disabled={isSaving}
+                      compact
+                    >
+                      Clear Defaults
+                    </Button>
+                  )}
+                  <Button mode="text" onPress={handleCancelEditing} disabled={isSaving} compact>
+                    Cancel
+                  </Button>
+                  <Button
+                    mode="contained"
+                    onPress={() => saveDefaultTriggers(Array.from(selectedTriggerIds))}
+                    loading={isSaving}
+                    disabled={isSaving}
+                    compact
+                  >
+                    Save
+                  </Button>
+                </View>
+              </>
+            ) : triggerProfile.triggers.length === 0 ? (
+              <Text variant="bodySmall" style={styles.noTriggersText}>
+                No triggers
+              </Text>
+            ) : (
+              <View style={styles.triggersContainer}>
+                {triggerProfile.triggers.map((trigger) => (
+                  <Chip key={trigger.id} style={styles.triggerChip} mode="flat">
+                    {getTriggerDisplayText(trigger.triggerName)}
+                  </Chip>
+                ))}
+              </View>
+            )}
+
+            {error && (
+              <Text variant="bodySmall" style={styles.errorText}>
+                {error}
+              </Text>
+            )}
+          </Card.Content>
+        </Card>
+
+        <Card style={styles.card}>
+          <Card.Content>
+            <Text variant="titleMedium" style={styles.sectionTitle}>
+              History
+            </Text>
+            {history.length === 0 ? (
+              <Text variant="bodySmall" style={styles.noTriggersText}>
+                This dish has not been in a confirmed meal yet.
+              </Text>
+            ) : (
+              history.map((entry, index) => (
+                <View key={entry.dishEventId}>
+                  {index > 0 && <Divider style={styles.divider} />}
+                  <Text variant="bodySmall" style={styles.entryTime}>
+                    {formatDate(entry.occurredAt)} at {formatTime(entry.occurredAt)}
+                  </Text>
+                  <Text variant="bodyMedium" style={styles.entryText} numberOfLines={3}>
+                    {entry.rawEntryText}
+                  </Text>
+                  {entry.triggers.length > 0 && (
+                    <View style={styles.triggersContainer}>
+                      {entry.triggers.map((trigger) => (
+                        <Chip key={trigger.id} style={styles.triggerChip} mode="flat" compact>
+                          {getTriggerDisplayText(trigger.triggerName)}
+                        </Chip>
+                      ))}
+                    </View>
+                  )}
+                </View>
+              ))
+            )}
+          </Card.Content>
+        </Card>
+      </ScrollView>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: theme.colors.background,
+  },
+  centerContent: {
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  scrollContainer: {
+    flex: 1,
+    padding: theme.spacing.md,
+  },
+  card: {
+    marginBottom: theme.spacing.md,
+    elevation: 2,
+  },
+  titleRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  dishName: {
+    flex: 1,
+    color: theme.colors.textHeading,
+  },
+  statsText: {
+    color: theme.colors.textSecondary,
+    marginTop: theme.spacing.xs,
+  },
+  sectionTitle: {
+    color: theme.colors.textHeading,
+    marginBottom: theme.spacing.xs,
+  },
+  helperText: {
+    color: theme.colors.textSecondary,
+    marginBottom: theme.spacing.sm,
+  },
+  triggersHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  triggersContainer: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: theme.spacing.xs,
+    marginTop: theme.spacing.xs,
+  },
+  triggerChip: {
+    marginRight: theme.spacing.xs,
+    marginBottom: theme.spacing.xs,
+  },
+  noTriggersText: {
+    color: theme.colors.textSecondary,
+    fontStyle: 'italic',
+    marginTop: theme.spacing.xs,
+  },
+  editActions: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    gap: theme.spacing.xs,
+    marginTop: theme.spacing.sm,
+  },
+  divider: {
+    marginVertical: theme.spacing.sm,
+  },
+  entryTime: {
+    color: theme.colors.primary,
+    fontWeight: '500',
+    marginTop: theme.spacing.sm,
+    marginBottom: theme.spacing.xs,
+  },
+  entryText: {
+    color: theme.colors.text,
+  },
+  errorText: {
+    color: theme.colors.error,
+    marginTop: theme.spacing.sm,
+    textAlign: 'center',
+  },
+});
@@ -0,0 +1,201 @@
+import React, { useCallback, useMemo, useState } from 'react';
+import { View, StyleSheet, ScrollView } from 'react-native';
+import { Text, Card, Chip, ActivityIndicator, Searchbar, SegmentedButtons } from 'react-native-paper';
+import { useFocusEffect, useNavigation } from '@react-navigation/native';
+import { NativeStackNavigationProp } from '@react-navigation/native-stack';
+import { theme, commonStyles } from '@/styles';
+import { filterAndSortDishLibrary, getDishLibraryForUser } from '@/data/dishService';
+import { getTriggerDisplayText } from '@/data/trigger';
+import { DishLibraryItem, DishLibrarySort } from '@/types/dish';
+import { logger } from '@/utils/logger';
+import { formatDate } from '@/utils/dateTime';
+
+const FILENAME = 'DishLibraryScreen.tsx';
+
+type RootStackParamList = {
+  DishDetail: { dishId: string };
+  DishLibrary: undefined;
+};
+
+type NavigationProp = NativeStackNavigationProp<RootStackParamList, 'DishLibrary'>;
+
+export default function DishLibraryScreen() {
+  const navigation = useNavigation<NavigationProp>();
+  const [dishes, setDishes] = useState<DishLibraryItem[]>([]);
+  const [searchQuery, setSearchQuery] = useState('');
+  const [sort, setSort] = useState<DishLibrarySort>('lastEaten');
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadDishes = useCallback(async () => {
+    try {
+      setIsLoading(true);
+      setError(null);
+      const library = await getDishLibraryForUser();
+      setDishes(library);
+    } catch (err) {
+      logger.error(FILENAME, 'loadDishes', 'Error loading dish library', err);
+      setError('Failed to load your dishes');
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  // Reload whenever the screen regains focus (e.g. after editing a dish's triggers)
+  useFocusEffect(
+    useCallback(() => {
+      loadDishes();
+    }, [loadDishes])
+  );
+
+  const visibleDishes = useMemo(
+    () => filterAndSortDishLibrary(dishes, searchQuery, sort),
+    [dishes, searchQuery, sort],
+  );
+
+  if (isLoading && dishes.length === 0) {
+    return (
+      <View style={[commonStyles.container, styles.centerContent]}>
+        <ActivityIndicator size="large" />
+      </View>
+    );
+  }
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.filterContainer}>
+        <Searchbar
+          placeholder="Search dishes"
+          value={searchQuery}
+          onChangeText={setSearchQuery}
+          style={styles.searchbar}
+        />
+        <SegmentedButtons
+          value={sort}
+          onValueChange={value => setSort(value as DishLibrarySort)}
+          buttons={[
+            { value: 'lastEaten', label: 'Recent' },
+            { value: 'timesEaten', label: 'Most Eaten' },
+            { value: 'name', label: 'Name' },
+          ]}
+        />
+      </View>
+
+      <ScrollView style={styles.scrollContainer}>
+        {error && (
+          <Text variant="bodySmall" style={styles.errorText}>
+            {error}
+          </Text>
+        )}
+
+        {visibleDishes.length === 0 ? (
+          <Card style={styles.emptyCard}>
+            <Card.Content>
+              <Text variant="bodyLarge" style={styles.emptyText}>
+                {dishes.length === 0
+                  ? 'No dishes yet. Dishes you log will show up here.'
+                  : 'No dishes match your search.'}
+              </Text>
+            </Card.Content>
+          </Card>
+        ) : (
+          visibleDishes.map((item) => (
+            <Card
+              key={item.dish.id}
+              style={styles.dishCard}
+              onPress={() => navigation.navigate('DishDetail', { dishId: item.dish.id })}
+            >
+              <Card.Content>
+                <Text variant="titleMedium" style={styles.dishName}>
+                  {item.dish.dishName}
+                </Text>
+                <Text variant="bodySmall" style={styles.statsText}>
+                  Eaten {item.timesEaten} {item.timesEaten === 1 ? 'time' : 'times'}
+                  {item.lastEatenAt !== null && ` · Last eaten ${formatDate(item.lastEatenAt)}`}
+                </Text>
+
+                {item.triggerProfile.triggers.length === 0 ? (
+                  <Text variant="bodySmall" style={styles.noTriggersText}>
+                    No triggers
+                  </Text>
+                ) : (
+                  <View style={styles.triggersContainer}>
+                    {item.triggerProfile.triggers.map((trigger) => (
+                      <Chip key={trigger.id} style={styles.triggerChip} mode="flat" compact>
+                        {getTriggerDisplayText(trigger.triggerName)}
+                      </Chip>
+                    ))}
+                    {item.triggerProfile.isDefault && (
+                      <Chip style={styles.triggerChip} mode="outlined" icon="pin-outline" compact>
+                        Default
+                      </Chip>
+                    )}
+                  </View>
+                )}
+              </Card.Content>
+            </Card>
+          ))
+        )}
+      </ScrollView>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: theme.colors.background,
+  },
+  centerContent: {
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  filterContainer: {
+    padding: theme.spacing.md,
+    gap: theme.spacing.sm,
+  },
+  searchbar: {
+    backgroundColor: theme.colors.surface,
+  },
+  scrollContainer: {
+    flex: 1,
+    paddingHorizontal: theme.spacing.md,
+  },
+  emptyCard: {
+    marginTop: theme.spacing.xl,
+  },
+  emptyText: {
+    textAlign: 'center',
+    color: theme.colors.textSecondary,
+  },
+  dishCard: {
+    marginBottom: theme.spacing.md,
+    elevation: 2,
+  },
+  dishName: {
+    color: theme.colors.textHeading,
+  },
+  statsText: {
+    color: theme.colors.textSecondary,
+    marginTop: theme.spacing.xs,
+    marginBottom: theme.spacing.sm,
+  },
+  triggersContainer: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: theme.spacing.xs,
+  },
+  triggerChip: {
+    marginRight: theme.spacing.xs,
+    marginBottom: theme.spacing.xs,
+  },
+  noTriggersText: {
+    color: theme.colors.textSecondary,
+    fontStyle: 'italic',
+  },
+  errorText: {
+    color: theme.colors.error,
+    marginBottom: theme.spacing.sm,
+    textAlign: 'center',
+  },
+});
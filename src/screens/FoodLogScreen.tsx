@@ -1,14 +1,26 @@
-import React, { useState } from 'react';
-import { View, StyleSheet } from 'react-native';
-import { TextInput, Button, Text } from 'react-native-paper';
-import { useNavigation } from '@react-navigation/native';
+import React, { useCallback, useState } from 'react';
+import { View, StyleSheet, ScrollView } from 'react-native';
+import { TextInput, Button, Text, Card, IconButton, Snackbar } from 'react-native-paper';
+import { useFocusEffect, useNavigation } from '@react-navigation/native';
 import { NativeStackNavigationProp } from '@react-navigation/native-stack';
 import { theme, commonStyles } from '@/styles';
-import { createFoodEntry } from '@/data/foodEntryService';
+import { createFoodEntry, quickLogDish } from '@/data/foodEntryService';
+import { getQuickLogDishes, setDishFavorite } from '@/data/dishService';
+import { getKnownTriggerWarning } from '@/data/sensitivityService';
+import { getTriggerDisplayText } from '@/data/trigger';
 import { CreateFoodEntryResponse } from '@/types/foodEntry';
+import { DishLibraryItem, QuickLogDishes } from '@/types/dish';
+import { logger } from '@/utils/logger';
+
+const FILENAME = 'FoodLogScreen.tsx';
 
 type RootStackParamList = {
-  ConfirmFoodEntry: { response: CreateFoodEntryResponse; initialOccuredAtTimestamp?: number };
+  ConfirmFoodEntry: {
+    response?: CreateFoodEntryResponse;
+    rawEntryId?: string;
+    initialOccuredAtTimestamp?: number;
+    isEditing?: boolean;
+  };
   FoodLog: undefined;
 };
 
@@ -19,6 +31,30 @@ export default function FoodLogScreen() {
   const [foodText, setFoodText] = useState('');
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [quickLogDishes, setQuickLogDishes] = useState<QuickLogDishes>({ favorites: [], recent: [] });
+  const [isQuickLogging, setIsQuickLogging] = useState<string | null>(null);
+  // The last quick-logged entry, offered for editing in the snackbar
+  const [loggedEntry, setLoggedEntry] = useState<{
+    entryId: string;
+    dishName: string;
+    occurredAt: number;
+    // Known triggers in the dish (from the user's sensitivity profile)
+    warning: string | null;
+  } | null>(null);
+
+  const loadQuickLogDishes = useCallback(async () => {
+    try {
+      setQuickLogDishes(await getQuickLogDishes());
+    } catch (err) {
+      logger.error(FILENAME, 'loadQuickLogDishes', 'Error loading quick log dishes', err);
+    }
+  }, []);
+
+  useFocusEffect(
+    useCallback(() => {
+      loadQuickLogDishes();
+    }, [loadQuickLogDishes])
+  );
 
   const handleSubmit = async () => {
     if (!foodText.trim()) {
@@ -54,43 +90,160 @@ export default function FoodLogScreen() {
     }
   };
 
+  const handleQuickLog = async (item: DishLibraryItem) => {
+    setIsQuickLogging(item.dish.id);
+    setError(null);
+
+    try {
+      const currentTime = Date.now();
+      const response = await quickLogDish(item.dish.id, currentTime);
+      setLoggedEntry({
+        entryId: response.entry_id,
+        dishName: item.dish.dishName,
+        occurredAt: currentTime,
+        warning: await getKnownTriggerWarning(response.dishes),
+      });
+      await loadQuickLogDishes();
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to log dish';
+      setError(errorMessage);
+      logger.error(FILENAME, 'handleQuickLog', 'Error quick logging dish', err);
+    } finally {
+      setIsQuickLogging(null);
+    }
+  };
+
+  const handleToggleFavorite = async (item: DishLibraryItem) => {
+    try {
+      await setDishFavorite(item.dish.id, item.dish.favoritedAt === null);
+      await loadQuickLogDishes();
+    } catch (err) {
+      logger.error(FILENAME, 'handleToggleFavorite', 'Error updating favorite', err);
+      setError('Failed to update favorite');
+    }
+  };
+
+  const renderQuickLogItem = (item: DishLibraryItem) => (
+    <Card
+      key={item.dish.id}
+      style={styles.quickLogCard}
+      onPress={() => handleQuickLog(item)}
+      disabled={isQuickLogging !== null}
+    >
+      <Card.Title
+        title={item.dish.dishName}
+        subtitle={
+          item.triggerProfile.triggers.length > 0
+            ? item.triggerProfile.triggers
+                .map((trigger) => getTriggerDisplayText(trigger.triggerName))
+                .join(', ')
+            : 'No triggers'
+        }
+        right={() => (
+          <IconButton
+            icon={item.dish.favoritedAt !== null ? 'star' : 'star-outline'}
+            iconColor={theme.colors.primary}
+            onPress={() => handleToggleFavorite(item)}
+            disabled={isQuickLogging !== null}
+            accessibilityLabel={
+              item.dish.favoritedAt !== null ? 'Remove from favorites' : 'Add to favorites'
+            }
+          />
+        )}
+      />
+    </Card>
+  );
+
   return (
-    <View style={commonStyles.container}>
-      <Text variant="headlineMedium" style={styles.heading}>
-        Track your meals
-      </Text>
-      <View style={styles.inputContainer}>
-        <TextInput
-          placeholder="Write naturally about what you ate and drank today and our AI will do the rest."
-          value={foodText}
-          onChangeText={(text) => {
-            setFoodText(text);
-            setError(null);
-          }}
-          style={styles.textInput}
-          multiline
-          disabled={isLoading}
-        />
-        {error && (
-          <Text variant="bodySmall" style={styles.errorText}>
-            {error}
-          </Text>
+    <View style={styles.container}>
+      <ScrollView contentContainerStyle={styles.scrollContent}>
+        <Text variant="headlineMedium" style={styles.heading}>
+          Track your meals
+        </Text>
+        <View style={styles.inputContainer}>
+          <TextInput
+            placeholder="Write naturally about what you ate and drank today and our AI will do the rest."
+            value={foodText}
+            onChangeText={(text) => {
+              setFoodText(text);
+              setError(null);
+            }}
+            style={styles.textInput}
+            multiline
+            disabled={isLoading}
+          />
+          {error && (
+            <Text variant="bodySmall" style={styles.errorText}>
+              {error}
+            </Text>
+          )}
+          <Button 
+            mode="contained" 
+            onPress={handleSubmit} 
+            style={styles.submitButton}
+            disabled={isLoading || !foodText.trim()}
+            loading={isLoading}
+          >
+            {isLoading ? 'Processing...' : 'Submit'}
+          </Button>
+        </View>
+
+        {quickLogDishes.favorites.length > 0 && (
+          <View style={styles.quickLogSection}>
+            <Text variant="titleMedium" style={styles.sectionTitle}>
+              Favorites
+            </Text>
+            {quickLogDishes.favorites.map(renderQuickLogItem)}
+          </View>
+        )}
+
+        {quickLogDishes.recent.length > 0 && (
+          <View style={styles.quickLogSection}>
+            <Text variant="titleMedium" style={styles.sectionTitle}>
+              Recent dishes
+            </Text>
+            <Text variant="bodySmall" style={styles.sectionHint}>
+              Tap a dish to log it now with its usual triggers.
+            </Text>
+            {quickLogDishes.recent.map(renderQuickLogItem)}
+          </View>
         )}
-        <Button 
-          mode="contained" 
-          onPress={handleSubmit} 
-          style={styles.submitButton}
-          disabled={isLoading || !foodText.trim()}
-          loading={isLoading}
-        >
-          {isLoading ? 'Processing...' : 'Submit'}
-        </Button>
-      </View>
+      </ScrollView>
+
+      <Snackbar
+        visible={loggedEntry !== null}
+        onDismiss={() => setLoggedEntry(null)}
+        action={{
+          label: 'Edit',
+          onPress: () => {
+            if (!loggedEntry) return;
+            navigation.navigate('ConfirmFoodEntry', {
+              rawEntryId: loggedEntry.entryId,
+              initialOccuredAtTimestamp: loggedEntry.occurredAt,
+              isEditing: true,
+            });
+          },
+        }}
+      >
+        {loggedEntry
+          ? loggedEntry.warning
+            ? `Logged ${loggedEntry.dishName}. ${loggedEntry.warning}.`
+            : `Logged ${loggedEntry.dishName}`
+          : ''}
+      </Snackbar>
     </View>
   );
 }
 
 const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: theme.colors.background,
+  },
+  scrollContent: {
+    ...commonStyles.container,
+    flexGrow: 1,
+  },
   heading: {
     marginBottom: theme.spacing.lg,
     textAlign: 'center',
@@ -109,4 +262,18 @@ const styles = StyleSheet.create({
     color: theme.colors.error,
     marginBottom: theme.spacing.sm,
   },
+  quickLogSection: {
+    marginTop: theme.spacing.xl,
+  },
+  sectionTitle: {
+    color: theme.colors.textHeading,
+    marginBottom: theme.spacing.xs,
+  },
+  sectionHint: {
+    color: theme.colors.textSecondary,
+    marginBottom: theme.spacing.sm,
+  },
+  quickLogCard: {
+    marginBottom: theme.spacing.sm,
+  },
 });
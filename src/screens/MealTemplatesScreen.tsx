@@ -0,0 +1,220 @@
+import React, { useCallback, useState } from 'react';
+import { View, StyleSheet, ScrollView } from 'react-native';
+import { Text, Card, Button, Chip, ActivityIndicator, Snackbar } from 'react-native-paper';
+import { useFocusEffect } from '@react-navigation/native';
+import { theme, commonStyles } from '@/styles';
+import {
+  deleteMealTemplate,
+  getMealTemplatesForUser,
+  logMealTemplate,
+} from '@/data/mealTemplateService';
+import { getKnownTriggerWarning } from '@/data/sensitivityService';
+import { getTriggerDisplayText } from '@/data/trigger';
+import { MealTemplate } from '@/types/mealTemplate';
+import { logger } from '@/utils/logger';
+import { TimePickerCard } from '@/components';
+
+const FILENAME = 'MealTemplatesScreen.tsx';
+
+export default function MealTemplatesScreen() {
+  const [templates, setTemplates] = useState<MealTemplate[]>([]);
+  const [mealTimestamp, setMealTimestamp] = useState<Date>(new Date());
+  const [isLoading, setIsLoading] = useState(true);
+  const [isLogging, setIsLogging] = useState<string | null>(null);
+  const [isDeleting, setIsDeleting] = useState<string | null>(null);
+  const [loggedTemplateName, setLoggedTemplateName] = useState<string | null>(null);
+  // Known triggers in the logged meal (from the user's sensitivity profile)
+  const [loggedWarning, setLoggedWarning] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadTemplates = useCallback(async () => {
+    try {
+      setIsLoading(true);
+      setTemplates(await getMealTemplatesForUser());
+    } catch (err) {
+      logger.error(FILENAME, 'loadTemplates', 'Error loading meal templates', err);
+      setError('Failed to load saved meals');
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useFocusEffect(
+    useCallback(() => {
+      loadTemplates();
+    }, [loadTemplates])
+  );
+
+  const handleLog = async (template: MealTemplate) => {
+    setIsLogging(template.id);
+    setError(null);
+
+    try {
+      const response = await logMealTemplate(template, mealTimestamp.getTime());
+      setLoggedWarning(await getKnownTriggerWarning(response.dishes));
+      setLoggedTemplateName(template.templateName);
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to log meal';
+      setError(errorMessage);
+      logger.error(FILENAME, 'handleLog', 'Error logging meal template', err);
+    } finally {
+      setIsLogging(null);
+    }
+  };
+
+  const handleDelete = async (template: MealTemplate) => {
+    setIsDeleting(template.id);
+    setError(null);
+
+    try {
+      await deleteMealTemplate(template.id);
+      setTemplates((prev) => prev.filter((t) => t.id !== template.id));
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to delete saved meal';
+      setError(errorMessage);
+      logger.error(FILENAME, 'handleDelete', 'Error deleting meal template', err);
+    } finally {
+      setIsDeleting(null);
+    }
+  };
+
+  if (isLoading && templates.length === 0) {
+    return (
+      <View style={[commonStyles.container, styles.centerContent]}>
+        <ActivityIndicator size="large" />
+      </View>
+    );
+  }
+
+  const isBusy = isLogging !== null || isDeleting !== null;
+
+  return (
+    <View style={styles.container}>
+      <ScrollView style={styles.scrollContainer}>
+        <TimePickerCard value={mealTimestamp} onChange={setMealTimestamp} />
+
+        {error && (
+          <Text variant="bodySmall" style={styles.errorText}>
+            {error}
+          </Text>
+        )}
+
+        {templates.length === 0 ? (
+          <Card style={styles.emptyCard}>
+            <Card.Content>
+              <Text variant="bodyLarge" style={styles.emptyText}>
+                No saved meals yet. Open a meal in your Daily Log and choose "Save as Template".
+              </Text>
+            </Card.Content>
+          </Card>
+        ) : (
+          templates.map((template) => (
+            <Card key={template.id} style={styles.templateCard}>
+              <Card.Content>
+                <Text variant="titleMedium" style={styles.templateName}>
+                  {template.templateName}
+                </Text>
+                {template.dishes.map((dish, index) => (
+                  <View key={`${dish.dishId}-${index}`} style={styles.dishRow}>
+                    <Text variant="bodyMedium" style={styles.dishName}>
+                      {dish.dishName}
+                    </Text>
+                    {dish.triggers.length > 0 && (
+                      <View style={styles.triggersContainer}>
+                        {dish.triggers.map((trigger) => (
+                          <Chip key={trigger.id} style={styles.triggerChip} mode="flat" compact>
+                            {getTriggerDisplayText(trigger.triggerName)}
+                          </Chip>
+                        ))}
+                      </View>
+                    )}
+                  </View>
+                ))}
+              </Card.Content>
+              <Card.Actions>
+                <Button
+                  mode="text"
+                  onPress={() => handleDelete(template)}
+                  textColor={theme.colors.error}
+                  loading={isDeleting === template.id}
+                  disabled={isBusy}
+                >
+                  Delete
+                </Button>
+                <Button
+                  mode="contained"
+                  onPress={() => handleLog(template)}
+                  loading={isLogging === template.id}
+                  disabled={isBusy || template.dishes.length === 0}
+                >
+                  Log Meal
+                </Button>
+              </Card.Actions>
+            </Card>
+          ))
+        )}
+      </ScrollView>
+
+      <Snackbar
+        visible={loggedTemplateName !== null}
+        onDismiss={() => setLoggedTemplateName(null)}
+      >
+        {loggedTemplateName
+          ? loggedWarning
+            ? `Logged ${loggedTemplateName}. ${loggedWarning}.`
+            : `Logged ${loggedTemplateName}`
+          : ''}
+      </Snackbar>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: theme.colors.background,
+  },
+  centerContent: {
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  scrollContainer: {
+    flex: 1,
+    padding: theme.spacing.md,
+  },
+  emptyCard: {
+    marginTop: theme.spacing.md,
+  },
+  emptyText: {
+    textAlign: 'center',
+    color: theme.colors.textSecondary,
+  },
+  templateCard: {
+    marginBottom: theme.spacing.md,
+    elevation: 2,
+  },
+  templateName: {
+    color: theme.colors.textHeading,
+    marginBottom: theme.spacing.sm,
+  },
+  dishRow: {
+    marginBottom: theme.spacing.sm,
+  },
+  dishName: {
+    color: theme.colors.text,
+  },
+  triggersContainer: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: theme.spacing.xs,
+    marginTop: theme.spacing.xs,
+  },
+  triggerChip: {
+    marginRight: theme.spacing.xs,
+  },
+  errorText: {
+    color: theme.colors.error,
+    marginBottom: theme.spacing.sm,
+    textAlign: 'center',
+  },
+});
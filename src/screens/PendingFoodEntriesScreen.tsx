@@ -0,0 +1,191 @@
+import React, { useCallback, useState } from 'react';
+import { View, StyleSheet, ScrollView } from 'react-native';
+import { Text, Card, Button, ActivityIndicator } from 'react-native-paper';
+import { useFocusEffect, useNavigation } from '@react-navigation/native';
+import { NativeStackNavigationProp } from '@react-navigation/native-stack';
+import { theme, commonStyles } from '@/styles';
+import { discardPendingFoodEntry, getPendingFoodEntriesForUser } from '@/data/foodEntryService';
+import { CreateFoodEntryResponse } from '@/types/foodEntry';
+import { PendingRawFoodEntry } from '@/types/dish';
+import { logger } from '@/utils/logger';
+import { formatTime, formatDate } from '@/utils/dateTime';
+
+const FILENAME = 'PendingFoodEntriesScreen.tsx';
+
+type RootStackParamList = {
+  ConfirmFoodEntry: {
+    response?: CreateFoodEntryResponse;
+    rawEntryId?: string;
+    initialOccuredAtTimestamp?: number;
+  };
+  PendingFoodEntries: undefined;
+};
+
+type NavigationProp = NativeStackNavigationProp<RootStackParamList, 'PendingFoodEntries'>;
+
+export default function PendingFoodEntriesScreen() {
+  const navigation = useNavigation<NavigationProp>();
+  const [pendingEntries, setPendingEntries] = useState<PendingRawFoodEntry[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isDiscarding, setIsDiscarding] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadPendingEntries = useCallback(async () => {
+    try {
+      setIsLoading(true);
+      const entries = await getPendingFoodEntriesForUser();
+      setPendingEntries(entries);
+    } catch (err) {
+      logger.error(FILENAME, 'loadPendingEntries', 'Error loading pending food entries', err);
+      setError('Failed to load meals that need review');
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  // Reload whenever the screen regains focus (e.g. after backing out of confirmation)
+  useFocusEffect(
+    useCallback(() => {
+      loadPendingEntries();
+    }, [loadPendingEntries])
+  );
+
+  const handleReview = (entry: PendingRawFoodEntry) => {
+    navigation.navigate('ConfirmFoodEntry', {
+      rawEntryId: entry.id,
+      initialOccuredAtTimestamp: entry.occurredAt,
+    });
+  };
+
+  const handleDiscard = async (entry: PendingRawFoodEntry) => {
+    setIsDiscarding(entry.id);
+    setError(null);
+
+    try {
+      await discardPendingFoodEntry(entry.id);
+      setPendingEntries((prev) => prev.filter((e) => e.id !== entry.id));
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to discard meal';
+      setError(errorMessage);
+      logger.error(FILENAME, 'handleDiscard', 'Error discarding pending food entry', err);
+    } finally {
+      setIsDiscarding(null);
+    }
+  };
+
+  if (isLoading && pendingEntries.length === 0) {
+    return (
+      <View style={[commonStyles.container, styles.centerContent]}>
+        <ActivityIndicator size="large" />
+      </View>
+    );
+  }
+
+  return (
+    <View style={styles.container}>
+      <ScrollView style={styles.scrollContainer}>
+        <Text variant="bodyMedium" style={styles.subtitle}>
+          These meals were logged but never confirmed. Review them to add them to your log.
+        </Text>
+
+        {error && (
+          <Text variant="bodySmall" style={styles.errorText}>
+            {error}
+          </Text>
+        )}
+
+        {pendingEntries.length === 0 ? (
+          <Card style={styles.emptyCard}>
+            <Card.Content>
+              <Text variant="bodyLarge" style={styles.emptyText}>
+                No meals need review.
+              </Text>
+            </Card.Content>
+          </Card>
+        ) : (
+          pendingEntries.map((entry) => (
+            <Card key={entry.id} style={styles.entryCard}>
+              <Card.Content>
+                <Text variant="bodySmall" style={styles.entryTime}>
+                  {formatDate(entry.occurredAt)} at {formatTime(entry.occurredAt)}
+                </Text>
+                <Text variant="bodyLarge" style={styles.entryText} numberOfLines={3}>
+                  {entry.rawEntryText}
+                </Text>
+                <Text variant="bodySmall" style={styles.dishCountText}>
+                  {entry.dishEventCount} {entry.dishEventCount === 1 ? 'dish' : 'dishes'}
+                </Text>
+              </Card.Content>
+              <Card.Actions>
+                <Button
+                  mode="text"
+                  onPress={() => handleDiscard(entry)}
+                  textColor={theme.colors.error}
+                  loading={isDiscarding === entry.id}
+                  disabled={isDiscarding !== null}
+                >
+                  Discard
+                </Button>
+                <Button
+                  mode="contained"
+                  onPress={() => handleReview(entry)}
+                  disabled={isDiscarding !== null}
+                >
+                  Review
+                </Button>
+              </Card.Actions>
+            </Card>
+          ))
+        )}
+      </ScrollView>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: theme.colors.background,
+  },
+  centerContent: {
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  scrollContainer: {
+    flex: 1,
+    paddingHorizontal: theme.spacing.md,
+  },
+  subtitle: {
+    marginVertical: theme.spacing.md,
+    textAlign: 'center',
+    color: theme.colors.textSecondary,
+  },
+  emptyCard: {
+    marginTop: theme.spacing.xl,
+  },
+  emptyText: {
+    textAlign: 'center',
+    color: theme.colors.textSecondary,
+  },
+  entryCard: {
+    marginBottom: theme.spacing.md,
+    elevation: 2,
+  },
+  entryTime: {
+    color: theme.colors.primary,
+    fontWeight: '500',
+    marginBottom: theme.spacing.xs,
+  },
+  entryText: {
+    color: theme.colors.text,
+  },
+  dishCountText: {
+    color: theme.colors.textSecondary,
+    marginTop: theme.spacing.xs,
+  },
+  errorText: {
+    color: theme.colors.error,
+    marginBottom: theme.spacing.sm,
+    textAlign: 'center',
+  },
+});
@@ -1,9 +1,36 @@
 import React, { useEffect, useMemo, useState } from 'react';
-import { View, StyleSheet } from 'react-native';
-import { Text, TextInput, Button, IconButton, HelperText, ActivityIndicator } from 'react-native-paper';
+import { View, StyleSheet, ScrollView } from 'react-native';
+import {
+  Text,
+  TextInput,
+  Button,
+  IconButton,
+  HelperText,
+  ActivityIndicator,
+  Chip,
+  Switch,
+} from 'react-native-paper';
 import { useNavigation } from '@react-navigation/native';
 import { useAuth } from '@/contexts';
 import { theme, paperTheme } from '@/styles';
+import { getAllTriggers } from '@/data/foodEntryRepo';
+import {
+  getTriggerSensitivitiesForUser,
+  removeTriggerSensitivity,
+  setTriggerSensitivity,
+} from '@/data/sensitivityService';
+import {
+  SENSITIVITY_LEVELS,
+  SENSITIVITY_LEVEL_DISPLAY_TEXT_MAP,
+  SensitivityLevel,
+} from '@/data/sensitivity';
+import { getAiPredictionsEnabledForUser, setAiPredictionsEnabled } from '@/data/profileService';
+import { getTriggerDisplayText } from '@/data/trigger';
+import { Trigger } from '@/types/dish';
+import { TriggerSensitivity } from '@/types/sensitivity';
+import { logger } from '@/utils/logger';
+
+const FILENAME = 'ProfileScreen.tsx';
 
 export default function ProfileScreen() {
   const navigation = useNavigation();
@@ -12,11 +39,53 @@ export default function ProfileScreen() {
   const [saving, setSaving] = useState(false);
   const [signingOut, setSigningOut] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [sensitivities, setSensitivities] = useState<TriggerSensitivity[]>([]);
+  const [allTriggers, setAllTriggers] = useState<Trigger[]>([]);
+  const [showAddSensitivity, setShowAddSensitivity] = useState(false);
+  // The trigger whose sensitivity is being saved or removed
+  const [savingTriggerId, setSavingTriggerId] = useState<string | null>(null);
+  const [sensitivityError, setSensitivityError] = useState<string | null>(null);
+  // Null until the setting has loaded
+  const [aiPredictionsEnabled, setAiPredictionsEnabledState] = useState<boolean | null>(null);
+  const [savingAiPredictions, setSavingAiPredictions] = useState(false);
+  const [aiPredictionsError, setAiPredictionsError] = useState<string | null>(null);
 
   useEffect(() => {
     setName(displayName ?? '');
   }, [displayName]);
 
+  // Load the sensitivity profile and the triggers that can be added to it
+  useEffect(() => {
+    const loadSensitivities = async () => {
+      try {
+        const [loadedSensitivities, triggers] = await Promise.all([
+          getTriggerSensitivitiesForUser(),
+          getAllTriggers(),
+        ]);
+        setSensitivities(loadedSensitivities);
+        setAllTriggers(triggers);
+      } catch (err) {
+        logger.error(FILENAME, 'loadSensitivities', 'Error loading sensitivities', err);
+        setSensitivityError('Failed to load sensitivities');
+      }
+    };
+
+    void loadSensitivities();
+  }, []);
+
+  useEffect(() => {
+    const loadAiPredictionsSetting = async () => {
+      try {
+        setAiPredictionsEnabledState(await getAiPredictionsEnabledForUser());
+      } catch (err) {
+        logger.error(FILENAME, 'loadAiPredictionsSetting', 'Error loading AI suggestions setting', err);
+        setAiPredictionsError('Failed to load AI suggestions setting');
+      }
+    };
+
+    void loadAiPredictionsSetting();
+  }, []);
+
   // TODO: stop using hacks, move functions over to lib utils
   const initials = useMemo(() => {
     if (name?.trim()) {
@@ -45,6 +114,54 @@ export default function ProfileScreen() {
     }
   };
 
+  const handleSetSensitivity = async (trigger: Trigger, sensitivityLevel: SensitivityLevel) => {
+    setSensitivityError(null);
+    setSavingTriggerId(trigger.id);
+    try {
+      const saved = await setTriggerSensitivity(trigger.id, sensitivityLevel);
+      setSensitivities((prev) =>
+        prev.some((s) => s.trigger.id === trigger.id)
+          ? prev.map((s) => (s.trigger.id === trigger.id ? saved : s))
+          : [...prev, saved]
+      );
+      setShowAddSensitivity(false);
+    } catch (err) {
+      setSensitivityError(err instanceof Error ? err.message : 'Failed to save sensitivity');
+    } finally {
+      setSavingTriggerId(null);
+    }
+  };
+
+  const handleRemoveSensitivity = async (sensitivity: TriggerSensitivity) => {
+    setSensitivityError(null);
+    setSavingTriggerId(sensitivity.trigger.id);
+    try {
+      await removeTriggerSensitivity(sensitivity.id);
+      setSensitivities((prev) => prev.filter((s) => s.id !== sensitivity.id));
+    } catch (err) {
+      setSensitivityError(err instanceof Error ? err.message : 'Failed to remove sensitivity');
+    } finally {
+      setSavingTriggerId(null);
+    }
+  };
+
+  const handleToggleAiPredictions = async (enabled: boolean) => {
+    setAiPredictionsError(null);
+    setSavingAiPredictions(true);
+    try {
+      await setAiPredictionsEnabled(enabled);
+      setAiPredictionsEnabledState(enabled);
+    } catch (err) {
+      setAiPredictionsError(err instanceof Error ? err.message : 'Failed to save AI suggestions setting');
+    } finally {
+      setSavingAiPredictions(false);
+    }
+  };
+
+  const availableTriggers = allTriggers.filter(
+    (trigger) => !sensitivities.some((s) => s.trigger.id === trigger.id)
+  );
+
   const handleSignOut = async () => {
     setError(null);
     setSigningOut(true);
@@ -80,39 +197,143 @@ export default function ProfileScreen() {
         />
       </View>
 
-      <View style={styles.form}>
-        <TextInput
-          label="Name"
-          mode="outlined"
-          value={name}
-          onChangeText={setName}
-          style={[styles.input, styles.fieldSpacing]}
-          autoCapitalize="words"
-          disabled={saving || signingOut}
-        />
-        <TextInput
-          label="Email"
-          mode="outlined"
-          value={user?.email ?? ''}
-          style={[styles.input, styles.fieldSpacing]}
-          editable={false}
-          disabled
-        />
-        {error && (
-          <HelperText type="error" visible style={styles.errorText}>
-            {error}
-          </HelperText>
-        )}
-        <Button
-          mode="contained"
-          onPress={handleSave}
-          disabled={saving || signingOut || !name.trim()}
-          loading={saving}
-          style={styles.saveButton}
-        >
-          Save changes
-        </Button>
-      </View>
+      <ScrollView style={styles.scrollView}>
+        <View style={styles.form}>
+          <TextInput
+            label="Name"
+            mode="outlined"
+            value={name}
+            onChangeText={setName}
+            style={[styles.input, styles.fieldSpacing]}
+            autoCapitalize="words"
+            disabled={saving || signingOut}
+          />
+          <TextInput
+            label="Email"
+            mode="outlined"
+            value={user?.email ?? ''}
+            style={[styles.input, styles.fieldSpacing]}
+            editable={false}
+            disabled
+          />
+          {error && (
+            <HelperText type="error" visible style={styles.errorText}>
+              {error}
+            </HelperText>
+          )}
+          <Button
+            mode="contained"
+            onPress={handleSave}
+            disabled={saving || signingOut || !name.trim()}
+            loading={saving}
+            style={styles.saveButton}
+          >
+            Save changes
+          </Button>
+        </View>
+
+        <View style={styles.aiPredictionsSection}>
+          <View style={styles.switchRow}>
+            <Text variant="titleMedium" style={styles.sectionTitle}>
+              AI suggestions
+            </Text>
+            <Switch
+              value={aiPredictionsEnabled ?? true}
+              onValueChange={handleToggleAiPredictions}
+              disabled={aiPredictionsEnabled === null || savingAiPredictions}
+              accessibilityLabel="Use AI suggestions"
+            />
+          </View>
+          <Text variant="bodySmall" style={styles.sectionHint}>
+            Use AI to split meals into dishes and suggest their triggers. When off, suggestions come
+            from a built-in list of common ingredients and your meals are not sent to an AI service.
+          </Text>
+          {aiPredictionsError && (
+            <HelperText type="error" visible>
+              {aiPredictionsError}
+            </HelperText>
+          )}
+        </View>
+
+        <View style={styles.sensitivitySection}>
+          <Text variant="titleMedium" style={styles.sectionTitle}>
+            Known sensitivities
+          </Text>
+          <Text variant="bodySmall" style={styles.sectionHint}>
+            Triggers you already know you react to. High sensitivities are highlighted when you log a
+            meal, and you're warned when a logged meal contains any of them.
+          </Text>
+          {sensitivities.map((sensitivity) => (
+            <View key={sensitivity.id} style={styles.sensitivityRow}>
+              <View style={styles.sensitivityHeader}>
+                <Text variant="bodyLarge" style={styles.sensitivityName}>
+                  {getTriggerDisplayText(sensitivity.trigger.triggerName)}
+                </Text>
+                <IconButton
+                  icon="close"
+                  size={18}
+                  onPress={() => handleRemoveSensitivity(sensitivity)}
+                  disabled={savingTriggerId !== null}
+                  accessibilityLabel={`Remove ${getTriggerDisplayText(sensitivity.trigger.triggerName)}`}
+                />
+              </View>
+              <View style={styles.chipRow}>
+                {SENSITIVITY_LEVELS.map((level) => (
+                  <Chip
+                    key={level}
+                    style={styles.chip}
+                    selected={sensitivity.sensitivityLevel === level}
+                    showSelectedOverlay
+                    onPress={() => handleSetSensitivity(sensitivity.trigger, level)}
+                    disabled={savingTriggerId !== null}
+                    mode="outlined"
+                  >
+                    {SENSITIVITY_LEVEL_DISPLAY_TEXT_MAP[level]}
+                  </Chip>
+                ))}
+              </View>
+            </View>
+          ))}
+          {sensitivityError && (
+            <HelperText type="error" visible>
+              {sensitivityError}
+            </HelperText>
+          )}
+          {showAddSensitivity ? (
+            <View style={styles.addSensitivityContainer}>
+              <Text variant="bodySmall" style={styles.sectionHint}>
+                Select a trigger (added as a high sensitivity):
+              </Text>
+              <View style={styles.chipRow}>
+                {availableTriggers.map((trigger) => (
+                  <Chip
+                    key={trigger.id}
+                    style={styles.chip}
+                    onPress={() => handleSetSensitivity(trigger, 'high')}
+                    disabled={savingTriggerId !== null}
+                    mode="outlined"
+                  >
+                    {getTriggerDisplayText(trigger.triggerName)}
+                  </Chip>
+                ))}
+              </View>
+              <Button mode="text" onPress={() => setShowAddSensitivity(false)} compact>
+                Cancel
+              </Button>
+            </View>
+          ) : (
+            <Button
+              mode="text"
+              icon="plus"
+              onPress={() => setShowAddSensitivity(true)}
+              disabled={availableTriggers.length === 0}
+              style={styles.addSensitivityButton}
+            >
+              Add sensitivity
+            </Button>
+          )}
+        </View>
+      </ScrollView>
 
       <View style={styles.footer}>
         <Button
@@ -175,6 +396,9 @@ const styles = StyleSheet.create({
   subtitle: {
     color: theme.colors.textSecondary,
   },
+  scrollView: {
+    flex: 1,
+  },
   form: {
     marginBottom: theme.spacing.lg,
   },
@@ -190,8 +414,52 @@ const styles = StyleSheet.create({
   saveButton: {
     marginTop: theme.spacing.sm,
   },
+  aiPredictionsSection: {
+    marginBottom: theme.spacing.lg,
+  },
+  switchRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+  },
+  sensitivitySection: {
+    marginBottom: theme.spacing.lg,
+  },
+  sectionTitle: {
+    color: theme.colors.textHeading,
+    marginBottom: theme.spacing.xs,
+  },
+  sectionHint: {
+    color: theme.colors.textSecondary,
+    marginBottom: theme.spacing.sm,
+  },
+  sensitivityRow: {
+    marginBottom: theme.spacing.sm,
+  },
+  sensitivityHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+  },
+  sensitivityName: {
+    color: theme.colors.text,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: theme.spacing.xs,
+  },
+  chip: {
+    marginBottom: theme.spacing.xs,
+  },
+  addSensitivityContainer: {
+    marginTop: theme.spacing.sm,
+  },
+  addSensitivityButton: {
+    alignSelf: 'flex-start',
+  },
   footer: {
-    marginTop: 'auto',
+    marginTop: theme.spacing.md,
   },
   overlay: {
     ...StyleSheet.absoluteFillObject,
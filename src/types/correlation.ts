@@ -0,0 +1,60 @@
+// Types for the trigger → symptom correlation engine
+import { Timestamp } from '@/types/common';
+import { SymptomName } from '@/types/symptoms';
+
+/**
+ * A lag window relative to a meal, in hours.
+ * A symptom "follows" a meal in this window when
+ * mealTime + startHours <= symptomTime < mealTime + endHours.
+ */
+export interface LagWindow {
+  label: string;
+  startHours: number;
+  endHours: number;
+}
+
+/**
+ * A single confirmed meal occasion (all dish events of one raw entry)
+ * with the union of its confirmed trigger names.
+ */
+export interface MealExposure {
+  rawEntryId: string;
+  occurredAt: Timestamp;
+  triggerNames: string[];
+}
+
+/**
+ * Minimal symptom occurrence used by the correlation engine.
+ */
+export interface SymptomOccurrence {
+  name: SymptomName;
+  occurredAt: Timestamp;
+}
+
+export interface CorrelationOptions {
+  lagWindows?: LagWindow[];
+  // Associations backed by fewer exposed meals than this are dropped from the result
+  minExposures?: number;
+  // Triggers to score; defaults to the built-in triggers. Include the user's custom triggers
+  // to score them as well.
+  triggerNames?: readonly string[];
+}
+
+export interface TriggerSymptomAssociation {
+  // A built-in trigger name or one of the user's custom trigger names
+  triggerName: string;
+  symptomName: SymptomName;
+  lagWindow: LagWindow;
+  // Meals containing the trigger
+  exposureCount: number;
+  // Meals containing the trigger that were followed by the symptom within the window
+  exposedWithSymptomCount: number;
+  // Meals without the trigger (the baseline)
+  baselineCount: number;
+  // Meals without the trigger that were followed by the symptom within the window
+  baselineWithSymptomCount: number;
+  exposedRate: number;
+  baselineRate: number;
+  // Smoothed ratio of exposedRate to baselineRate; > 1 means the symptom follows this trigger more often
+  relativeRisk: number;
+}
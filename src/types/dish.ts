@@ -1,21 +1,38 @@
 // Domain types for dish and trigger system
 
 import { Timestamp } from '@/types/common';
+import { PortionSize } from '@/data/portion';
+import { MealType } from '@/data/mealType';
 
 export interface RawFoodEntry {
   id: string;
   userId: string;
   rawEntryText: string;
+  // Null when unknown (entries written before meal types existed)
+  mealType: MealType | null;
   createdAt: Timestamp;
 }
 
+export interface PendingRawFoodEntry extends RawFoodEntry {
+  // When the meal was eaten (shared by all of the entry's dish events)
+  occurredAt: Timestamp;
+  // Number of unconfirmed, non-deleted dish events for this entry
+  dishEventCount: number;
+}
+
 export interface PredictedDish {
   id: string;
   rawEntryId: string;
   dishFragmentText: string;
   dishNameSuggestion: string;
+  // The amount mentioned in the entry text, if any (see DishEvent)
+  quantity: number | null;
+  unit: string | null;
+  portionSize: PortionSize | null;
   modelVersion: string;
   promptVersion: string;
+  // "experiment/variant" of a prompt experiment; null outside one
+  promptVariant: string | null;
   createdAt: Timestamp;
 }
 
@@ -25,9 +42,18 @@ export interface Dish {
   dishName: string;
   normalizedDishName: string;
   dishEmbeddingId: string | null;
+  // When the user marked the dish as a favorite for quick logging (null if not a favorite)
+  favoritedAt: Timestamp | null;
   createdAt: Timestamp;
 }
 
+// An existing dish whose name is semantically close to a new dish name
+export interface DishMatch {
+  dish: Dish;
+  // Cosine similarity of the two names' embeddings (1 = identical)
+  similarity: number;
+}
+
 export interface DishEvent {
   id: string;
   userId: string;
@@ -35,6 +61,11 @@ export interface DishEvent {
   predictedDishId: string | null;
   rawEntryId: string;
   confirmedByUser: boolean;
+  // How much was eaten: an amount with an optional unit ("2 cups", "3") and/or a relative
+  // portion size. Null when unknown.
+  quantity: number | null;
+  unit: string | null;
+  portionSize: PortionSize | null;
   deletedAt: Timestamp | null;
   createdAt: Timestamp;
   occurredAt: Timestamp;
@@ -53,6 +84,8 @@ export interface PredictedDishTrigger {
   triggerId: string;
   modelVersion: string;
   promptVersion: string;
+  // "experiment/variant" of a prompt experiment; null outside one
+  promptVariant: string | null;
   createdAt: Timestamp;
 }
 
@@ -64,5 +97,62 @@ export interface DishTrigger {
   createdAt: Timestamp;
 }
 
+export interface Ingredient {
+  id: string;
+  userId: string;
+  ingredientName: string;
+  normalizedIngredientName: string;
+  createdAt: Timestamp;
+}
+
+export interface IngredientWithTriggers extends Ingredient {
+  triggers: Trigger[];
+}
+
+// The triggers a dish is expected to contain: its default triggers if the user set any,
+// otherwise the triggers confirmed the last time it was eaten
+// A dish renamed to the name (or alias) of another of the user's dishes
+export interface DishNameConflict {
+  // The dish event whose dish was renamed
+  dishEventId: string;
+  // The user's dish that already has the name
+  dishId: string;
+}
+
+export interface DishTriggerProfile {
+  triggers: Trigger[];
+  isDefault: boolean;
+}
+
+// A dish in the user's dish library
+export interface DishLibraryItem {
+  dish: Dish;
+  // Confirmed, non-deleted dish events
+  timesEaten: number;
+  lastEatenAt: Timestamp | null;
+  triggerProfile: DishTriggerProfile;
+}
+
+export type DishLibrarySort = 'name' | 'timesEaten' | 'lastEaten';
+
+// One time a dish was eaten, with the triggers confirmed for that meal
+export interface DishHistoryEntry {
+  dishEventId: string;
+  rawEntryId: string;
+  rawEntryText: string;
+  occurredAt: Timestamp;
+  triggers: Trigger[];
+}
 
+export interface DishDetail extends DishLibraryItem {
+  // Most recent first
+  history: DishHistoryEntry[];
+}
 
+// Dishes offered for one-tap logging
+export interface QuickLogDishes {
+  // By name
+  favorites: DishLibraryItem[];
+  // Most recently eaten first, excluding favorites
+  recent: DishLibraryItem[];
+}
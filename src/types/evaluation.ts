@@ -0,0 +1,158 @@
+// Domain types for evaluating LLM predictions against what the user confirmed
+import { Timestamp } from '@/types/common';
+
+/**
+ * A confirmed dish event that came from an LLM prediction, with the prediction
+ * and the confirmed result side by side.
+ */
+export interface PredictionEvalDishEvent {
+  dishEventId: string;
+  modelVersion: string;
+  promptVersion: string;
+  // "experiment/variant" of a prompt experiment; null outside one
+  promptVariant: string | null;
+  dishNameSuggestion: string;
+  // Final (confirmed) dish name
+  dishName: string;
+  // First event of the dish; later events reuse the dish's name and triggers instead of predicting
+  isNewDish: boolean;
+  predictedTriggerNames: string[];
+  confirmedTriggerNames: string[];
+  occurredAt: Timestamp;
+}
+
+// Predicted vs confirmed (or expected) counts
+export interface PredictionCounts {
+  // Predicted and confirmed
+  truePositiveCount: number;
+  // Predicted but not confirmed
+  falsePositiveCount: number;
+  // Confirmed but not predicted
+  falseNegativeCount: number;
+}
+
+// Counts with their scores; a score is null when its denominator is 0
+export interface PredictionScores extends PredictionCounts {
+  precision: number | null;
+  recall: number | null;
+  f1: number | null;
+}
+
+export interface TriggerPredictionMetrics extends PredictionScores {
+  triggerName: string;
+}
+
+// Prediction accuracy of one model and prompt version
+export interface PredictionAccuracy {
+  modelVersion: string;
+  promptVersion: string;
+  // Evaluated dish events (new dishes only)
+  dishEventCount: number;
+  // Dish events whose confirmed name differs from the suggestion (after normalization)
+  dishNameEditCount: number;
+  dishNameEditRate: number;
+  // Per-trigger scores, by trigger name
+  triggers: TriggerPredictionMetrics[];
+  // Scores over all triggers (micro-averaged)
+  overall: PredictionScores;
+}
+
+// Edit and trigger counts of one prompt experiment variant over its dish events (new dishes
+// only), with the trigger counts micro-averaged as in PredictionAccuracy.overall
+export interface PromptVariantEditCounts extends PredictionCounts {
+  // "experiment/variant"
+  promptVariant: string;
+  dishEventCount: number;
+  dishNameEditCount: number;
+  triggerEditCount: number;
+  editCount: number;
+}
+
+// How often users changed the predictions of one prompt experiment variant when confirming
+export interface PromptVariantComparison {
+  // "experiment/variant"
+  promptVariant: string;
+  // Evaluated dish events (new dishes only)
+  dishEventCount: number;
+  // Dish events whose confirmed name differs from the suggestion (after normalization)
+  dishNameEditCount: number;
+  // Dish events whose confirmed triggers differ from the predicted ones
+  triggerEditCount: number;
+  // Dish events with either kind of edit
+  editCount: number;
+  // Rates are null when the variant has no dish events yet
+  dishNameEditRate: number | null;
+  triggerEditRate: number | null;
+  editRate: number | null;
+  // editRate minus the control's (the experiment's first variant); null for the control itself,
+  // or when either has no dish events
+  editRateChange: number | null;
+  // Trigger scores over all of the variant's dish events (micro-averaged)
+  overall: PredictionScores;
+}
+
+/**
+ * An LLM-predicted dish event with its current prediction: the latest one made by a backfill,
+ * otherwise the one made when the dish was logged.
+ */
+export interface DishEventPrediction {
+  dishEventId: string;
+  userId: string;
+  dishId: string;
+  dishName: string;
+  dishFragmentText: string;
+  confirmed: boolean;
+  // First event of the dish; only these had their triggers predicted
+  isNewDish: boolean;
+  backfilled: boolean;
+  modelVersion: string;
+  promptVersion: string;
+  predictedTriggerNames: string[];
+  createdAt: Timestamp;
+}
+
+// Place of a dish event in a backfill's order. createdAt is the database timestamp as returned, since
+// it is more precise than a Timestamp (see migration 0034)
+export interface PredictionBackfillCursor {
+  createdAt: string;
+  dishEventId: string;
+}
+
+// A dish event a backfill would predict again
+export interface PredictionBackfillCandidate extends DishEventPrediction {
+  cursor: PredictionBackfillCursor;
+}
+
+// A dish event whose triggers were predicted again by a backfill
+export interface PredictionBackfillChange {
+  dishEventId: string;
+  userId: string;
+  dishId: string;
+  dishName: string;
+  // Confirmed triggers are kept; only the suggestions of unconfirmed dish events change
+  confirmed: boolean;
+  modelVersion: string;
+  promptVersion: string;
+  previousTriggerNames: string[];
+  predictedTriggerNames: string[];
+  addedTriggerNames: string[];
+  removedTriggerNames: string[];
+}
+
+// Outcome of one backfill run
+export interface PredictionBackfillResult {
+  modelVersion: string;
+  promptVersion: string;
+  // Dish events predicted again and saved in this run
+  predictedCount: number;
+  // The saved dish events whose triggers changed
+  changes: PredictionBackfillChange[];
+  // Dish events whose prediction failed (e.g. the LLM was unavailable); a later run retries them
+  failedDishEventIds: string[];
+  // Stopped after too many failures in a row; run again to resume
+  stoppedEarly: boolean;
+  // Continued after the dish event an earlier run got to, rather than from the start
+  resumed: boolean;
+  // Went through every candidate, so the next run starts over and retries the failed ones
+  completed: boolean;
+}
@@ -1,40 +1,77 @@
 // API request/response types for food entry creation and confirmation
 
-export interface ExtractedDish {
+import { PortionSize } from '@/data/portion';
+import { MealType } from '@/data/mealType';
+
+// How much of a dish was eaten. Null (or omitted) when unknown.
+export interface DishPortion {
+  quantity?: number | null;
+  unit?: string | null;
+  portion_size?: PortionSize | null;
+}
+
+// An ingredient the LLM found in a dish, with the triggers it carries
+export interface DecomposedIngredient {
+  ingredient_name: string;
+  trigger_names: string[];
+}
+
+// An ingredient of a dish event, with the triggers it carries
+export interface DishIngredient {
+  ingredient_id: string;
+  ingredient_name: string;
+  triggers: Array<{ trigger_id: string; trigger_name: string }>;
+}
+
+export interface ExtractedDish extends DishPortion {
   dish_fragment_text: string;
   dish_name_suggestion: string;
 }
 
-export interface ConfirmedDish {
-  dish_event_id: string;
-  dish_id: string;
+// Omitted portion fields are stored as unknown
+export interface ConfirmedDish extends DishPortion {
+  // Both null for a dish the user added: confirming logs it as their dish with final_dish_name
+  dish_event_id: string | null;
+  dish_id: string | null;
   final_dish_name: string;
   trigger_ids: string[];
+  // The ingredients still in the dish; any others are removed. Omitted keeps them all.
+  ingredient_ids?: string[];
 }
 
 export interface CreateFoodEntryRequest {
   raw_entry_text: string;
 }
 
-export interface DishWithTriggers {
+export interface DishWithTriggers extends DishPortion {
   dish_event_id: string;
   dish_id: string;
   dish_name: string;
   predicted_triggers?: Array<{ trigger_id: string; trigger_name: string }>;
   triggers?: Array<{ trigger_id: string; trigger_name: string }>;
+  ingredients?: DishIngredient[];
+  // Set when the dish was matched to an existing dish by name similarity: the dish name the LLM suggested
+  matched_dish_name_suggestion?: string;
 }
 
 export interface CreateFoodEntryResponse {
   entry_id: string;
+  meal_type?: MealType | null;
   dishes: DishWithTriggers[];
+  // True when an LLM call failed and some suggestions came from a fallback, so they may be
+  // incomplete. Only set on a freshly created entry, not on one rebuilt from the database.
+  prediction_degraded?: boolean;
 }
 
 export interface ConfirmFoodEntryRequest {
   confirmed_dishes: ConfirmedDish[];
   occurred_at: number; // Timestamp in milliseconds. Updates all dish_events' occurred_at to reflect when the meal was actually eaten.
+  meal_type?: MealType | null; // Omitted (or null) keeps the entry's current meal type
+  deleted_dish_event_ids?: string[]; // Dishes the user removed; deleted in the same transaction
 }
 
 export interface ConfirmFoodEntryResponse {
   entry_id: string;
+  meal_type?: MealType | null;
   dishes: DishWithTriggers[];
 }
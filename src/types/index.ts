@@ -4,4 +4,8 @@ export * from '@/types/symptoms';
 export * from '@/types/bowel';
 export * from '@/types/store';
 export * from '@/types/dish';
-export * from '@/types/foodEntry'; 
\ No newline at end of file
+export * from '@/types/foodEntry';
+export * from '@/types/correlation';
+export * from '@/types/mealTemplate';
+export * from '@/types/sensitivity';
+export * from '@/types/evaluation';
\ No newline at end of file
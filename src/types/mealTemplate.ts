@@ -0,0 +1,20 @@
+// Domain types for meal templates
+import { Timestamp } from '@/types/common';
+import { Trigger } from '@/types/dish';
+
+// One dish of a meal template with the triggers it is logged with
+export interface MealTemplateDish {
+  dishId: string;
+  dishName: string;
+  triggers: Trigger[];
+}
+
+// A named set of dishes the user eats together, logged in one step
+export interface MealTemplate {
+  id: string;
+  userId: string;
+  templateName: string;
+  createdAt: Timestamp;
+  // In the order they were eaten
+  dishes: MealTemplateDish[];
+}
@@ -0,0 +1,13 @@
+// Domain types for the known-sensitivity profile
+import { Timestamp } from '@/types/common';
+import { Trigger } from '@/types/dish';
+import { SensitivityLevel } from '@/data/sensitivity';
+
+// A trigger the user already knows they react to ("lactose intolerant" is dairy, high)
+export interface TriggerSensitivity {
+  id: string;
+  userId: string;
+  trigger: Trigger;
+  sensitivityLevel: SensitivityLevel;
+  updatedAt: Timestamp;
+}
@@ -1,3 +1,7 @@
+import { PortionSize } from '@/data/portion';
+import { MealType } from '@/data/mealType';
+import { SensitivityLevel } from '@/data/sensitivity';
+
 export interface BowelEntryRow {
   id: string;
   user_id: string;
@@ -26,6 +30,7 @@ export interface RawFoodEntryRow {
   id: string;
   user_id: string;
   raw_entry_text: string;
+  meal_type: MealType | null;
   created_at: string;
 }
 
@@ -34,8 +39,13 @@ export interface PredictedDishRow {
   raw_entry_id: string;
   dish_fragment_text: string;
   dish_name_suggestion: string;
+  quantity: number | null;
+  unit: string | null;
+  portion_size: PortionSize | null;
   model_version: string;
   prompt_version: string;
+  // "experiment/variant" the prediction was made under; null outside an experiment (migration 0026)
+  prompt_variant: string | null;
   created_at: string;
 }
 
@@ -45,6 +55,17 @@ export interface DishRow {
   dish_name: string;
   normalized_dish_name: string;
   dish_embedding_id: string | null;
+  favorited_at: string | null;
+  created_at: string;
+}
+
+export interface DishEmbeddingRow {
+  id: string;
+  user_id: string;
+  dish_id: string;
+  model: string;
+  // pgvector text, e.g. "[0.1,0.2]" (see migration 0031)
+  embedding: string;
   created_at: string;
 }
 
@@ -55,6 +76,9 @@ export interface DishEventRow {
   predicted_dish_id: string | null;
   raw_entry_id: string;
   confirmed_by_user: boolean;
+  quantity: number | null;
+  unit: string | null;
+  portion_size: PortionSize | null;
   deleted_at: string | null;
   created_at: string;
   occurred_at: string;
@@ -64,6 +88,9 @@ export interface TriggerRow {
   id: string;
   trigger_name: string;
   created_at: string;
+  // Null for built-in triggers; the owner of a custom trigger (see migration 0021).
+  // Often left out of nested selects.
+  user_id?: string | null;
 }
 
 export interface PredictedDishTriggerRow {
@@ -73,6 +100,8 @@ export interface PredictedDishTriggerRow {
   trigger_id: string;
   model_version: string;
   prompt_version: string;
+  // "experiment/variant" the prediction was made under; null outside an experiment (migration 0026)
+  prompt_variant: string | null;
   created_at: string;
 }
 
@@ -83,3 +112,160 @@ export interface DishTriggerRow {
   trigger_id: string;
   created_at: string;
 }
+
+export interface DishDefaultTriggerRow {
+  id: string;
+  dish_id: string;
+  trigger_id: string;
+  created_at: string;
+}
+
+export interface IngredientRow {
+  id: string;
+  user_id: string;
+  ingredient_name: string;
+  normalized_ingredient_name: string;
+  created_at: string;
+}
+
+export interface MealTemplateRow {
+  id: string;
+  user_id: string;
+  template_name: string;
+  created_at: string;
+}
+
+export interface MealTemplateDishRow {
+  id: string;
+  template_id: string;
+  dish_id: string;
+  position: number;
+  created_at: string;
+}
+
+export interface MealTemplateDishTriggerRow {
+  id: string;
+  template_dish_id: string;
+  trigger_id: string;
+  created_at: string;
+}
+
+export interface ProfileTriggerSensitivityRow {
+  id: string;
+  user_id: string;
+  trigger_id: string;
+  sensitivity_level: SensitivityLevel;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface LLMResponseCacheRow {
+  user_id: string;
+  cache_key: string;
+  response: string;
+  created_at: string;
+}
+
+// Row of the prediction_eval_dish_events view (see migration 0023)
+export interface PredictionEvalDishEventRow {
+  dish_event_id: string;
+  user_id: string;
+  dish_id: string;
+  occurred_at: string;
+  model_version: string;
+  prompt_version: string;
+  prompt_variant: string | null;
+  dish_name_suggestion: string;
+  dish_name: string;
+  normalized_dish_name: string;
+  is_new_dish: boolean;
+  predicted_trigger_names: string[];
+  confirmed_trigger_names: string[];
+}
+
+// Row of the current_dish_event_predictions view (see migration 0028)
+export interface CurrentDishEventPredictionRow {
+  dish_event_id: string;
+  user_id: string;
+  dish_id: string;
+  dish_name: string;
+  dish_fragment_text: string;
+  confirmed_by_user: boolean;
+  created_at: string;
+  is_new_dish: boolean;
+  ai_predictions_enabled: boolean;
+  // Whether the prediction was made by a backfill rather than when the dish was logged
+  backfilled: boolean;
+  model_version: string;
+  prompt_version: string;
+  predicted_trigger_names: string[];
+}
+
+export interface PredictionBackfillDishEventRow {
+  id: string;
+  user_id: string;
+  dish_event_id: string;
+  model_version: string;
+  prompt_version: string;
+  previous_trigger_names: string[];
+  predicted_trigger_names: string[];
+  created_at: string;
+}
+
+export interface PredictionBackfillProgressRow {
+  id: string;
+  // Null when run with the service role
+  run_by: string | null;
+  model_version: string;
+  prompt_version: string;
+  selection_key: string;
+  last_created_at: string;
+  last_dish_event_id: string;
+  updated_at: string;
+}
+
+// Row of the match_dishes RPC: a dish near one of the query embeddings (see migration 0031)
+export interface MatchDishesRow extends DishRow {
+  query_index: number;
+  similarity: number;
+}
+
+// Parameters for the create_food_entry RPC (one element of p_dishes)
+export interface CreateFoodEntryDishParams {
+  dish_fragment_text: string;
+  dish_name_suggestion: string;
+  normalized_dish_name: string;
+  quantity: number | null;
+  unit: string | null;
+  portion_size: PortionSize | null;
+  trigger_names: string[];
+  ingredients: CreateFoodEntryIngredientParams[];
+}
+
+// One ingredient of a dish in p_dishes; trigger_names are only stored for new ingredients
+export interface CreateFoodEntryIngredientParams {
+  ingredient_name: string;
+  normalized_ingredient_name: string;
+  trigger_names: string[];
+}
+
+// Parameters for the confirm_food_entry RPC (one element of p_confirmed_dishes)
+export interface ConfirmFoodEntryDishParams {
+  // Both null for a dish the user added (see migration 0029)
+  dish_event_id: string | null;
+  dish_id: string | null;
+  final_dish_name: string;
+  normalized_dish_name: string;
+  quantity: number | null;
+  unit: string | null;
+  portion_size: PortionSize | null;
+  trigger_ids: string[];
+  // Null keeps the dish event's ingredients
+  ingredient_ids: string[] | null;
+}
+
+// Parameters for the save_dish_embeddings RPC (one element of p_embeddings)
+export interface SaveDishEmbeddingParams {
+  dish_id: string;
+  embedding: number[];
+}
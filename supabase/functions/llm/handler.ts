@@ -0,0 +1,417 @@
+import { getLLMOperationPrompt, getLLMOperationSchema, LLM_OPERATION_NAMES, LLMOperation } from '@/lib/llmOperations';
+import { getRepairPrompt, PROMPT_VERSION } from '@/lib/llmPrompts';
+import { parseLLMResponse } from '@/lib/llmSchema';
+
+/**
+ * Request handling for the llm Edge Function, which makes the app's OpenAI calls so the API key
+ * stays a function secret instead of being bundled into the app.
+ *
+ * Callers are authenticated by their Supabase JWT and rate limited per user. Requests are limited
+ * to what the app needs: one of its LLM operations (see src/lib/llmOperations.ts) or embeddings
+ * for a list of texts, with one of the allowed models. The app only sends the entry text and dish
+ * data; the prompt is built here and the response is checked against the operation's schema
+ * (with one repair round-trip) before it is answered.
+ *
+ * Nothing here depends on Deno, so it can be unit tested under Node; index.ts wires it up, and
+ * deno.json maps the app modules imported here.
+ */
+
+export interface LLMFunctionConfig {
+  openaiApiKey: string;
+  // e.g. "https://api.openai.com/v1"; /chat/completions and /embeddings are appended
+  openaiBaseUrl: string;
+  // Models a request may ask for; the first is used when it names none
+  chatModels: string[];
+  embeddingModels: string[];
+  // Longest entry text, dish name or text to embed
+  maxTextLength: number;
+  maxCustomTriggerNames: number;
+  maxEmbeddingInputs: number;
+  requestsPerMinute: number;
+  requestsPerDay: number;
+}
+
+export interface LLMFunctionDeps {
+  // The user the Authorization header's JWT belongs to, or null if it isn't a valid session
+  getUserId(authorization: string): Promise<string | null>;
+  // Counts a request against the caller's limits; returns the seconds until the next one is
+  // allowed, or 0 if this one is
+  consumeRequest(authorization: string, perMinute: number, perDay: number): Promise<number>;
+  fetch: typeof fetch;
+}
+
+// An operation answers its response ({ dishes }, { triggers } or { ingredients }), checked
+// against its schema; { operation: 'embed' } answers { embeddings }. The prompt version defaults
+// to the current one.
+export type LLMFunctionRequest =
+  | (LLMOperation & { model: string })
+  | { operation: 'embed'; texts: string[]; model: string };
+
+const DEFAULT_OPENAI_BASE_URL = 'https://api.openai.com/v1';
+
+const CORS_HEADERS = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+};
+
+/**
+ * An error answered with its status and message.
+ */
+class HttpError extends Error {
+  constructor(
+    readonly status: number,
+    message: string,
+    readonly headers: Record<string, string> = {},
+  ) {
+    super(message);
+    this.name = 'HttpError';
+  }
+}
+
+const jsonResponse = (status: number, body: unknown, headers: Record<string, string> = {}): Response =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...CORS_HEADERS, 'Content-Type': 'application/json', ...headers },
+  });
+
+const parseList = (value: string | undefined, fallback: string[]): string[] => {
+  const items = (value ?? '').split(',').map((item) => item.trim()).filter(Boolean);
+  return items.length > 0 ? items : fallback;
+};
+
+const parseLimit = (value: string | undefined, fallback: number, key: string): number => {
+  if (!value) {
+    return fallback;
+  }
+  const limit = Number(value);
+  if (!Number.isInteger(limit) || limit < 1) {
+    throw new Error(`${key} must be a positive integer`);
+  }
+  return limit;
+};
+
+/**
+ * Reads the configuration from the function's environment (secrets).
+ * @throws If OPENAI_API_KEY is missing or a limit isn't a positive integer.
+ */
+export function getLLMFunctionConfig(getEnv: (key: string) => string | undefined): LLMFunctionConfig {
+  const openaiApiKey = getEnv('OPENAI_API_KEY');
+  if (!openaiApiKey) {
+    throw new Error('Missing required secret: OPENAI_API_KEY');
+  }
+
+  return {
+    openaiApiKey,
+    openaiBaseUrl: (getEnv('OPENAI_BASE_URL') || DEFAULT_OPENAI_BASE_URL).replace(/\/+$/, ''),
+    chatModels: parseList(getEnv('LLM_CHAT_MODELS'), ['gpt-4o-mini', 'gpt-4o']),
+    embeddingModels: parseList(getEnv('LLM_EMBEDDING_MODELS'), ['text-embedding-3-small']),
+    maxTextLength: parseLimit(getEnv('LLM_MAX_TEXT_LENGTH'), 2000, 'LLM_MAX_TEXT_LENGTH'),
+    maxCustomTriggerNames: parseLimit(getEnv('LLM_MAX_CUSTOM_TRIGGERS'), 100, 'LLM_MAX_CUSTOM_TRIGGERS'),
+    maxEmbeddingInputs: parseLimit(getEnv('LLM_MAX_EMBEDDING_INPUTS'), 100, 'LLM_MAX_EMBEDDING_INPUTS'),
+    requestsPerMinute: parseLimit(getEnv('LLM_RATE_LIMIT_PER_MINUTE'), 60, 'LLM_RATE_LIMIT_PER_MINUTE'),
+    requestsPerDay: parseLimit(getEnv('LLM_RATE_LIMIT_PER_DAY'), 2000, 'LLM_RATE_LIMIT_PER_DAY'),
+  };
+}
+
+// Picks the requested model, or the default when none is named
+function selectModel(requested: unknown, allowed: string[]): string {
+  if (requested === undefined) {
+    return allowed[0];
+  }
+  if (typeof requested !== 'string' || !allowed.includes(requested)) {
+    throw new HttpError(400, `Model not allowed: ${String(requested)}`);
+  }
+  return requested;
+}
+
+// A string of at most maxTextLength characters; empty only when allowEmpty is set
+function parseText(
+  value: unknown,
+  key: string,
+  config: LLMFunctionConfig,
+  options: { allowEmpty?: boolean } = {},
+): string {
+  if (typeof value !== 'string' || (value === '' && !options.allowEmpty)) {
+    throw new HttpError(400, `${key} must be a non-empty string`);
+  }
+  if (value.length > config.maxTextLength) {
+    throw new HttpError(400, `${key} is longer than ${config.maxTextLength} characters`);
+  }
+  return value;
+}
+
+// A list of at most maxItems strings, each checked like parseText
+function parseTextList(value: unknown, key: string, maxItems: number, config: LLMFunctionConfig): string[] {
+  if (!Array.isArray(value)) {
+    throw new HttpError(400, `${key} must be an array of strings`);
+  }
+  if (value.length > maxItems) {
+    throw new HttpError(400, `${key} has more than ${maxItems} items`);
+  }
+  return value.map((item) => parseText(item, key, config, { allowEmpty: true }));
+}
+
+// Checks the body against LLMFunctionRequest and the configured limits
+function parseRequest(body: unknown, config: LLMFunctionConfig): LLMFunctionRequest {
+  const request = body as Record<string, unknown> | null;
+  if (typeof request !== 'object' || request === null) {
+    throw new HttpError(400, 'Request body must be a JSON object');
+  }
+
+  if (request.operation === 'embed') {
+    return {
+      operation: 'embed',
+      texts: parseTextList(request.texts, 'texts', config.maxEmbeddingInputs, config),
+      model: selectModel(request.model, config.embeddingModels),
+    };
+  }
+
+  const promptVersion = request.prompt_version ?? PROMPT_VERSION;
+  if (typeof promptVersion !== 'string') {
+    throw new HttpError(400, 'prompt_version must be a string');
+  }
+  const model = selectModel(request.model, config.chatModels);
+
+  if (request.operation === 'extract_dishes') {
+    return {
+      operation: 'extract_dishes',
+      raw_entry_text: parseText(request.raw_entry_text, 'raw_entry_text', config),
+      prompt_version: promptVersion,
+      model,
+    };
+  }
+
+  if (request.operation === 'predict_triggers' || request.operation === 'decompose_dish') {
+    return {
+      operation: request.operation,
+      dish_name: parseText(request.dish_name, 'dish_name', config),
+      fragment_text: parseText(request.fragment_text, 'fragment_text', config, { allowEmpty: true }),
+      custom_trigger_names: parseTextList(
+        request.custom_trigger_names ?? [],
+        'custom_trigger_names',
+        config.maxCustomTriggerNames,
+        config,
+      ),
+      prompt_version: promptVersion,
+      model,
+    };
+  }
+
+  throw new HttpError(400, `operation must be one of ${[...LLM_OPERATION_NAMES, 'embed'].join(', ')}`);
+}
+
+// The parts of OpenAI's chat completions and embeddings responses that are read
+interface ChatCompletionResponse {
+  choices: { message: { content: string | null } }[];
+}
+
+interface EmbeddingsResponse {
+  data: { index: number; embedding: number[] }[];
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null;
+
+function isChatCompletionResponse(json: unknown): json is ChatCompletionResponse {
+  return (
+    isRecord(json) &&
+    Array.isArray(json.choices) &&
+    json.choices.every(
+      (choice: unknown) =>
+        isRecord(choice) &&
+        isRecord(choice.message) &&
+        (typeof choice.message.content === 'string' || choice.message.content === null),
+    )
+  );
+}
+
+function isEmbeddingsResponse(json: unknown): json is EmbeddingsResponse {
+  return (
+    isRecord(json) &&
+    Array.isArray(json.data) &&
+    json.data.every(
+      (item: unknown) =>
+        isRecord(item) &&
+        Number.isInteger(item.index) &&
+        Array.isArray(item.embedding) &&
+        item.embedding.every((value: unknown) => typeof value === 'number'),
+    )
+  );
+}
+
+// Posts to the OpenAI API and checks the response's shape. Rate limits, server errors and
+// responses of another shape are answered with 502 so the app retries them; other failures mean
+// the request can't succeed.
+async function callOpenAI<T>(
+  path: string,
+  body: unknown,
+  isResponse: (json: unknown) => json is T,
+  config: LLMFunctionConfig,
+  deps: LLMFunctionDeps,
+): Promise<T> {
+  let response: Response;
+  try {
+    response = await deps.fetch(`${config.openaiBaseUrl}${path}`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        Authorization: `Bearer ${config.openaiApiKey}`,
+      },
+      body: JSON.stringify(body),
+    });
+  } catch (error) {
+    throw new HttpError(502, `OpenAI request failed: ${error instanceof Error ? error.message : error}`);
+  }
+
+  if (!response.ok) {
+    const text = await response.text().catch(() => '');
+    const status = response.status === 429 || response.status >= 500 ? 502 : 500;
+    throw new HttpError(status, `OpenAI HTTP ${response.status}: ${text.substring(0, 200)}`);
+  }
+
+  const json: unknown = await response.json().catch(() => undefined);
+  if (!isResponse(json)) {
+    throw new HttpError(502, `Unexpected OpenAI ${path} response`);
+  }
+  return json;
+}
+
+// Asks OpenAI for a deterministic JSON completion of the prompt, constrained to the schema
+async function completePrompt(
+  prompt: string,
+  model: string,
+  responseFormat: { name: string; schema: Record<string, unknown> },
+  config: LLMFunctionConfig,
+  deps: LLMFunctionDeps,
+): Promise<string> {
+  const json = await callOpenAI(
+    '/chat/completions',
+    {
+      model,
+      messages: [{ role: 'user', content: prompt }],
+      temperature: 0, // Deterministic outputs
+      response_format: {
+        type: 'json_schema',
+        json_schema: { name: responseFormat.name, schema: responseFormat.schema, strict: true },
+      },
+    },
+    isChatCompletionResponse,
+    config,
+    deps,
+  );
+  // No content (e.g. a refusal) fails the schema check like any other unusable response
+  return json.choices[0]?.message.content ?? '';
+}
+
+// Builds the operation's prompt and answers the model's response once it matches the
+// operation's schema. A response that doesn't match gets one repair round-trip: the model is
+// shown its response and the problems with it.
+async function answerOperation(
+  request: LLMOperation & { model: string },
+  config: LLMFunctionConfig,
+  deps: LLMFunctionDeps,
+): Promise<unknown> {
+  let prompt: string;
+  try {
+    prompt = getLLMOperationPrompt(request);
+  } catch (error) {
+    throw new HttpError(400, error instanceof Error ? error.message : String(error));
+  }
+  const schema = getLLMOperationSchema(request);
+  const responseFormat = { name: request.operation, schema: schema.jsonSchema };
+
+  let responseText = await completePrompt(prompt, request.model, responseFormat, config, deps);
+  let parsed = parseLLMResponse(schema, responseText);
+  if (!parsed.ok) {
+    const repairPrompt = getRepairPrompt(prompt, responseText, parsed.issues);
+    responseText = await completePrompt(repairPrompt, request.model, responseFormat, config, deps);
+    parsed = parseLLMResponse(schema, responseText);
+  }
+  if (!parsed.ok) {
+    // Asking again would most likely fail the same way
+    throw new HttpError(422, `Invalid ${request.operation} response from OpenAI: ${parsed.issues.join('; ')}`);
+  }
+  return parsed.value;
+}
+
+// Makes the OpenAI calls for a request and shapes the answer
+async function answerRequest(
+  request: LLMFunctionRequest,
+  config: LLMFunctionConfig,
+  deps: LLMFunctionDeps,
+): Promise<unknown> {
+  if (request.operation !== 'embed') {
+    return answerOperation(request, config, deps);
+  }
+
+  if (request.texts.length === 0) {
+    return { embeddings: [] };
+  }
+  const json = await callOpenAI(
+    '/embeddings',
+    { model: request.model, input: request.texts },
+    isEmbeddingsResponse,
+    config,
+    deps,
+  );
+  // The API may return items out of order; index maps them back to the input
+  const embeddings: (number[] | undefined)[] = new Array(request.texts.length).fill(undefined);
+  for (const item of json.data) {
+    embeddings[item.index] = item.embedding;
+  }
+  if (embeddings.length !== request.texts.length || embeddings.some((embedding) => embedding === undefined)) {
+    throw new HttpError(502, 'OpenAI did not return one embedding per text');
+  }
+  return { embeddings };
+}
+
+/**
+ * Creates the function's request handler.
+ */
+export function createLLMHandler(
+  config: LLMFunctionConfig,
+  deps: LLMFunctionDeps,
+): (req: Request) => Promise<Response> {
+  return async (req: Request): Promise<Response> => {
+    if (req.method === 'OPTIONS') {
+      return new Response('ok', { headers: CORS_HEADERS });
+    }
+
+    try {
+      if (req.method !== 'POST') {
+        throw new HttpError(405, 'Method not allowed');
+      }
+
+      const authorization = req.headers.get('Authorization');
+      if (!authorization || !(await deps.getUserId(authorization))) {
+        throw new HttpError(401, 'A signed-in user is required');
+      }
+
+      let body: unknown;
+      try {
+        body = await req.json();
+      } catch {
+        throw new HttpError(400, 'Request body must be JSON');
+      }
+      const request = parseRequest(body, config);
+
+      const retryAfterSeconds = await deps.consumeRequest(
+        authorization,
+        config.requestsPerMinute,
+        config.requestsPerDay,
+      );
+      if (retryAfterSeconds > 0) {
+        throw new HttpError(429, 'Too many LLM requests', { 'Retry-After': String(retryAfterSeconds) });
+      }
+
+      return jsonResponse(200, await answerRequest(request, config, deps));
+    } catch (error) {
+      if (error instanceof HttpError) {
+        return jsonResponse(error.status, { error: error.message }, error.headers);
+      }
+      console.error('llm function failed', error);
+      return jsonResponse(500, { error: 'Internal error' });
+    }
+  };
+}
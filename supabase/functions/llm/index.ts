@@ -0,0 +1,36 @@
+// Supabase Edge Function "llm": makes the app's OpenAI calls with the key kept as a secret.
+// See handler.ts for the requests it accepts.
+import { createClient } from 'npm:@supabase/supabase-js@2';
+import { createLLMHandler, getLLMFunctionConfig } from './handler.ts';
+
+const config = getLLMFunctionConfig((key) => Deno.env.get(key));
+const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+const supabaseAnonKey = Deno.env.get('SUPABASE_ANON_KEY')!;
+
+// A client acting as the caller, so RLS and auth.uid() apply to them
+const createUserClient = (authorization: string) =>
+  createClient(supabaseUrl, supabaseAnonKey, {
+    global: { headers: { Authorization: authorization } },
+    auth: { autoRefreshToken: false, persistSession: false },
+  });
+
+Deno.serve(
+  createLLMHandler(config, {
+    async getUserId(authorization) {
+      const token = authorization.replace(/^Bearer\s+/i, '');
+      const { data, error } = await createUserClient(authorization).auth.getUser(token);
+      return error || !data.user ? null : data.user.id;
+    },
+    async consumeRequest(authorization, perMinute, perDay) {
+      const { data, error } = await createUserClient(authorization).rpc('consume_llm_request', {
+        p_per_minute: perMinute,
+        p_per_day: perDay,
+      });
+      if (error) {
+        throw error;
+      }
+      return data as number;
+    },
+    fetch,
+  }),
+);
@@ -0,0 +1,241 @@
+-- Migration to write food entries atomically through RPC functions
+-- create_food_entry: persists a raw entry together with the LLM output (predicted dishes,
+--   dishes, dish events, predicted triggers) in a single transaction
+-- confirm_food_entry: applies the user's confirmation (dish renames, confirmed triggers,
+--   occurred_at, confirmation flag) in a single transaction
+-- If any statement fails, the whole call is rolled back and no partial rows are left behind.
+-- Both functions run as the calling user (security invoker), so the existing RLS policies apply.
+
+-- p_dishes: [{ dish_fragment_text, dish_name_suggestion, normalized_dish_name, trigger_names: [] }]
+-- Returns: { entry_id, dishes: [{ dish_event_id, dish_id, dish_name, predicted_triggers: [{ trigger_id, trigger_name }] }] }
+create or replace function public.create_food_entry(
+  p_raw_entry_text text,
+  p_occurred_at timestamptz,
+  p_model_version text,
+  p_prompt_version text,
+  p_dishes jsonb
+)
+returns jsonb
+language plpgsql
+security invoker
+set search_path = public
+as $$
+declare
+  v_user_id uuid := auth.uid();
+  v_raw_entry_id uuid;
+  v_dish jsonb;
+  v_predicted_dish_id uuid;
+  v_dish_id uuid;
+  v_dish_name text;
+  v_dish_event_id uuid;
+  v_predicted_triggers jsonb;
+  v_result_dishes jsonb := '[]'::jsonb;
+begin
+  if v_user_id is null then
+    raise exception 'User must be authenticated';
+  end if;
+
+  insert into public.raw_entry (user_id, raw_entry_text)
+  values (v_user_id, p_raw_entry_text)
+  returning id into v_raw_entry_id;
+
+  for v_dish in
+    select d.value
+    from jsonb_array_elements(coalesce(p_dishes, '[]'::jsonb)) with ordinality as d(value, idx)
+    order by d.idx
+  loop
+    insert into public.predicted_dish (
+      raw_entry_id, dish_fragment_text, dish_name_suggestion, model_version, prompt_version
+    )
+    values (
+      v_raw_entry_id,
+      v_dish->>'dish_fragment_text',
+      v_dish->>'dish_name_suggestion',
+      p_model_version,
+      p_prompt_version
+    )
+    returning id into v_predicted_dish_id;
+
+    -- Find or create the user's dish by normalized name
+    insert into public.dish (user_id, dish_name, normalized_dish_name)
+    values (v_user_id, v_dish->>'dish_name_suggestion', v_dish->>'normalized_dish_name')
+    on conflict (user_id, normalized_dish_name) do nothing;
+
+    select id, dish_name into v_dish_id, v_dish_name
+    from public.dish
+    where user_id = v_user_id
+      and normalized_dish_name = v_dish->>'normalized_dish_name';
+
+    -- clock_timestamp() keeps dish events of one entry ordered by creation
+    insert into public.dish_events (
+      user_id, dish_id, predicted_dish_id, raw_entry_id, confirmed_by_user, occurred_at, created_at
+    )
+    values (
+      v_user_id, v_dish_id, v_predicted_dish_id, v_raw_entry_id, false, p_occurred_at, clock_timestamp()
+    )
+    returning id into v_dish_event_id;
+
+    insert into public.predicted_dish_triggers (
+      dish_id, dish_event_id, trigger_id, model_version, prompt_version
+    )
+    select v_dish_id, v_dish_event_id, t.id, p_model_version, p_prompt_version
+    from public.triggers t
+    where t.trigger_name in (
+      select jsonb_array_elements_text(coalesce(v_dish->'trigger_names', '[]'::jsonb))
+    )
+    on conflict (dish_event_id, trigger_id) do nothing;
+
+    select coalesce(
+      jsonb_agg(
+        jsonb_build_object('trigger_id', t.id, 'trigger_name', t.trigger_name)
+        order by t.trigger_name
+      ),
+      '[]'::jsonb
+    )
+    into v_predicted_triggers
+    from public.predicted_dish_triggers pdt
+    join public.triggers t on t.id = pdt.trigger_id
+    where pdt.dish_event_id = v_dish_event_id;
+
+    v_result_dishes := v_result_dishes || jsonb_build_array(
+      jsonb_build_object(
+        'dish_event_id', v_dish_event_id,
+        'dish_id', v_dish_id,
+        'dish_name', v_dish_name,
+        'predicted_triggers', v_predicted_triggers
+      )
+    );
+  end loop;
+
+  return jsonb_build_object('entry_id', v_raw_entry_id, 'dishes', v_result_dishes);
+end;
+$$;
+
+-- p_confirmed_dishes: [{ dish_event_id, dish_id, final_dish_name, normalized_dish_name, trigger_ids: [] }]
+-- Returns: { entry_id, dishes: [{ dish_event_id, dish_id, dish_name, triggers: [{ trigger_id, trigger_name }] }] }
+create or replace function public.confirm_food_entry(
+  p_raw_entry_id uuid,
+  p_occurred_at timestamptz,
+  p_confirmed_dishes jsonb
+)
+returns jsonb
+language plpgsql
+security invoker
+set search_path = public
+as $$
+declare
+  v_user_id uuid := auth.uid();
+  v_confirmed jsonb;
+  v_dish_event public.dish_events%rowtype;
+  v_dish public.dish%rowtype;
+  v_final_name text;
+  v_normalized_name text;
+  v_result_dishes jsonb;
+begin
+  if v_user_id is null then
+    raise exception 'User must be authenticated';
+  end if;
+
+  for v_confirmed in
+    select d.value
+    from jsonb_array_elements(coalesce(p_confirmed_dishes, '[]'::jsonb)) with ordinality as d(value, idx)
+    order by d.idx
+  loop
+    -- Compare as text so malformed IDs surface as "not found" rather than a cast error
+    select * into v_dish_event
+    from public.dish_events
+    where id::text = v_confirmed->>'dish_event_id'
+      and raw_entry_id = p_raw_entry_id
+      and deleted_at is null;
+
+    if not found then
+      raise exception 'Dish event not found: %', v_confirmed->>'dish_event_id';
+    end if;
+
+    select * into v_dish
+    from public.dish
+    where id::text = v_confirmed->>'dish_id';
+
+    if not found then
+      raise exception 'Dish not found: %', v_confirmed->>'dish_id';
+    end if;
+
+    if v_dish.user_id <> v_dish_event.user_id then
+      raise exception 'Dish does not belong to the user';
+    end if;
+
+    v_final_name := v_confirmed->>'final_dish_name';
+    v_normalized_name := v_confirmed->>'normalized_dish_name';
+
+    -- Update dish name if it changed, refusing to collide with another of the user's dishes
+    if v_dish.dish_name is distinct from v_final_name
+      or v_dish.normalized_dish_name is distinct from v_normalized_name then
+      if exists (
+        select 1 from public.dish
+        where user_id = v_dish_event.user_id
+          and normalized_dish_name = v_normalized_name
+          and id <> v_dish.id
+      ) then
+        raise exception 'Cannot update dish name: a dish with normalized name "%" already exists',
+          v_normalized_name;
+      end if;
+
+      update public.dish
+      set dish_name = v_final_name,
+          normalized_dish_name = v_normalized_name
+      where id = v_dish.id;
+    end if;
+
+    -- Replace confirmed triggers for this dish event
+    delete from public.dish_triggers where dish_event_id = v_dish_event.id;
+
+    insert into public.dish_triggers (dish_id, dish_event_id, trigger_id)
+    select v_dish_event.dish_id, v_dish_event.id, t.value::uuid
+    from jsonb_array_elements_text(coalesce(v_confirmed->'trigger_ids', '[]'::jsonb)) as t(value)
+    on conflict (dish_event_id, trigger_id) do nothing;
+  end loop;
+
+  -- All dish events of one raw entry share the time the meal was eaten
+  update public.dish_events
+  set occurred_at = p_occurred_at
+  where raw_entry_id = p_raw_entry_id
+    and deleted_at is null
+    and occurred_at is distinct from p_occurred_at;
+
+  update public.dish_events
+  set confirmed_by_user = true
+  where raw_entry_id = p_raw_entry_id
+    and deleted_at is null;
+
+  select coalesce(
+    jsonb_agg(
+      jsonb_build_object(
+        'dish_event_id', de.id,
+        'dish_id', de.dish_id,
+        'dish_name', d.dish_name,
+        'triggers', coalesce((
+          select jsonb_agg(
+            jsonb_build_object('trigger_id', t.id, 'trigger_name', t.trigger_name)
+            order by t.trigger_name
+          )
+          from public.dish_triggers dt
+          join public.triggers t on t.id = dt.trigger_id
+          where dt.dish_event_id = de.id
+        ), '[]'::jsonb)
+      )
+      order by de.created_at
+    ),
+    '[]'::jsonb
+  )
+  into v_result_dishes
+  from public.dish_events de
+  join public.dish d on d.id = de.dish_id
+  where de.raw_entry_id = p_raw_entry_id
+    and de.deleted_at is null;
+
+  return jsonb_build_object('entry_id', p_raw_entry_id, 'dishes', v_result_dishes);
+end;
+$$;
+
+grant execute on function public.create_food_entry(text, timestamptz, text, text, jsonb) to authenticated;
+grant execute on function public.confirm_food_entry(uuid, timestamptz, jsonb) to authenticated;
@@ -0,0 +1,90 @@
+-- Migration for dish embeddings (semantic dish matching)
+-- dish_embedding: embedding vectors of dish names, one per dish and embedding model. Vectors are
+--   stored as plain float arrays; similarity is computed by the app over the user's own dishes.
+-- dish.dish_embedding_id points at the dish's current embedding.
+-- save_dish_embeddings: upserts embeddings for several dishes and links them, in one call.
+
+create table if not exists public.dish_embedding (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null,
+  dish_id uuid not null references public.dish(id) on delete cascade,
+  model text not null,
+  embedding double precision[] not null,
+  created_at timestamptz not null default timezone('utc', now()),
+  constraint dish_embedding_dish_model_unique unique (dish_id, model)
+);
+
+create index if not exists idx_dish_embedding_user_model on public.dish_embedding (user_id, model);
+
+alter table public.dish
+  drop constraint if exists dish_dish_embedding_id_fkey;
+alter table public.dish
+  add constraint dish_dish_embedding_id_fkey
+  foreign key (dish_embedding_id) references public.dish_embedding(id) on delete set null;
+
+alter table public.dish_embedding enable row level security;
+
+drop policy if exists dish_embedding_owner_policy on public.dish_embedding;
+create policy dish_embedding_owner_policy on public.dish_embedding
+  for all using (user_id = auth.uid()) with check (user_id = auth.uid());
+
+-- A renamed dish needs a new embedding; drop the stale ones so the app re-embeds it
+create or replace function public.delete_stale_dish_embeddings()
+returns trigger
+language plpgsql
+set search_path = public
+as $$
+begin
+  if new.normalized_dish_name is distinct from old.normalized_dish_name then
+    delete from public.dish_embedding where dish_id = new.id;
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists dish_name_changed_delete_embeddings on public.dish;
+create trigger dish_name_changed_delete_embeddings
+  after update of normalized_dish_name on public.dish
+  for each row execute function public.delete_stale_dish_embeddings();
+
+-- p_embeddings: [{ dish_id, embedding: [] }]
+create or replace function public.save_dish_embeddings(
+  p_model text,
+  p_embeddings jsonb
+)
+returns void
+language plpgsql
+security invoker
+set search_path = public
+as $$
+declare
+  v_user_id uuid := auth.uid();
+  v_item jsonb;
+  v_embedding_id uuid;
+begin
+  if v_user_id is null then
+    raise exception 'User must be authenticated';
+  end if;
+
+  for v_item in select value from jsonb_array_elements(coalesce(p_embeddings, '[]'::jsonb))
+  loop
+    insert into public.dish_embedding (user_id, dish_id, model, embedding)
+    select v_user_id, d.id, p_model, array(
+      select e.value::double precision
+      from jsonb_array_elements_text(v_item->'embedding') with ordinality as e(value, idx)
+      order by e.idx
+    )
+    from public.dish d
+    where d.id = (v_item->>'dish_id')::uuid
+      and d.user_id = v_user_id
+    on conflict (dish_id, model) do update set embedding = excluded.embedding
+    returning id into v_embedding_id;
+
+    if v_embedding_id is not null then
+      update public.dish set dish_embedding_id = v_embedding_id where id = (v_item->>'dish_id')::uuid;
+    end if;
+  end loop;
+end;
+$$;
+
+grant execute on function public.save_dish_embeddings(text, jsonb) to authenticated;
@@ -0,0 +1,66 @@
+-- Migration for dish default triggers
+-- dish_default_triggers: triggers the user set on a dish in the dish library. When a dish has
+--   default triggers they are its trigger profile (used to pre-fill new entries); otherwise the
+--   triggers confirmed the last time the dish was eaten are used.
+-- set_dish_default_triggers: replaces a dish's default triggers in a single transaction.
+
+create table if not exists public.dish_default_triggers (
+  id uuid primary key default gen_random_uuid(),
+  dish_id uuid not null references public.dish(id) on delete cascade,
+  trigger_id uuid not null references public.triggers(id) on delete cascade,
+  created_at timestamptz not null default timezone('utc', now()),
+  constraint dish_default_triggers_unique unique (dish_id, trigger_id)
+);
+
+create index if not exists idx_dish_default_triggers_dish_id on public.dish_default_triggers (dish_id);
+
+alter table public.dish_default_triggers enable row level security;
+
+-- RLS policy for dish_default_triggers (accessible via dish ownership)
+drop policy if exists dish_default_triggers_owner_policy on public.dish_default_triggers;
+create policy dish_default_triggers_owner_policy on public.dish_default_triggers
+  for all using (
+    exists (
+      select 1 from public.dish
+      where dish.id = dish_default_triggers.dish_id
+      and dish.user_id = auth.uid()
+    )
+  ) with check (
+    exists (
+      select 1 from public.dish
+      where dish.id = dish_default_triggers.dish_id
+      and dish.user_id = auth.uid()
+    )
+  );
+
+-- p_trigger_ids: [trigger_id, ...]; an empty array clears the defaults
+create or replace function public.set_dish_default_triggers(
+  p_dish_id uuid,
+  p_trigger_ids jsonb
+)
+returns void
+language plpgsql
+security invoker
+set search_path = public
+as $$
+declare
+  v_user_id uuid := auth.uid();
+begin
+  if v_user_id is null then
+    raise exception 'User must be authenticated';
+  end if;
+
+  if not exists (select 1 from public.dish where id = p_dish_id and user_id = v_user_id) then
+    raise exception 'Dish not found: %', p_dish_id;
+  end if;
+
+  delete from public.dish_default_triggers where dish_id = p_dish_id;
+
+  insert into public.dish_default_triggers (dish_id, trigger_id)
+  select p_dish_id, t.value::uuid
+  from jsonb_array_elements_text(coalesce(p_trigger_ids, '[]'::jsonb)) as t(value)
+  on conflict (dish_id, trigger_id) do nothing;
+end;
+$$;
+
+grant execute on function public.set_dish_default_triggers(uuid, jsonb) to authenticated;
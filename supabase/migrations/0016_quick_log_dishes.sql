@@ -0,0 +1,88 @@
+-- Migration for favorite dishes and quick logging
+-- dish.favorited_at: when the user marked the dish as a favorite (null if it is not one).
+-- quick_log_dish: logs an existing dish again without going through the LLM. The raw entry text
+--   is synthesized from the dish name, and the dish event is written already confirmed with the
+--   given triggers, in a single transaction. No predicted_dish or predicted triggers are written,
+--   since nothing was predicted.
+
+alter table public.dish
+  add column if not exists favorited_at timestamptz;
+
+create index if not exists idx_dish_user_favorited_at
+  on public.dish (user_id, favorited_at)
+  where favorited_at is not null;
+
+-- p_trigger_ids: [trigger_id, ...]
+-- Returns: { entry_id, dishes: [{ dish_event_id, dish_id, dish_name, triggers: [{ trigger_id, trigger_name }] }] }
+create or replace function public.quick_log_dish(
+  p_dish_id uuid,
+  p_occurred_at timestamptz,
+  p_trigger_ids jsonb
+)
+returns jsonb
+language plpgsql
+security invoker
+set search_path = public
+as $$
+declare
+  v_user_id uuid := auth.uid();
+  v_dish public.dish%rowtype;
+  v_raw_entry_id uuid;
+  v_dish_event_id uuid;
+  v_triggers jsonb;
+begin
+  if v_user_id is null then
+    raise exception 'User must be authenticated';
+  end if;
+
+  select * into v_dish
+  from public.dish
+  where id = p_dish_id
+    and user_id = v_user_id;
+
+  if not found then
+    raise exception 'Dish not found: %', p_dish_id;
+  end if;
+
+  insert into public.raw_entry (user_id, raw_entry_text)
+  values (v_user_id, v_dish.dish_name)
+  returning id into v_raw_entry_id;
+
+  insert into public.dish_events (
+    user_id, dish_id, predicted_dish_id, raw_entry_id, confirmed_by_user, occurred_at
+  )
+  values (v_user_id, v_dish.id, null, v_raw_entry_id, true, p_occurred_at)
+  returning id into v_dish_event_id;
+
+  insert into public.dish_triggers (dish_id, dish_event_id, trigger_id)
+  select v_dish.id, v_dish_event_id, t.value::uuid
+  from jsonb_array_elements_text(coalesce(p_trigger_ids, '[]'::jsonb)) as t(value)
+  on conflict (dish_event_id, trigger_id) do nothing;
+
+  select coalesce(
+    jsonb_agg(
+      jsonb_build_object('trigger_id', t.id, 'trigger_name', t.trigger_name)
+      order by t.trigger_name
+    ),
+    '[]'::jsonb
+  )
+  into v_triggers
+  from public.dish_triggers dt
+  join public.triggers t on t.id = dt.trigger_id
+  where dt.dish_event_id = v_dish_event_id;
+
+  return jsonb_build_object(
+    'entry_id', v_raw_entry_id,
+    'dishes', jsonb_build_array(
+      jsonb_build_object(
+        'dish_event_id', v_dish_event_id,
+        'dish_id', v_dish.id,
+        'dish_name', v_dish.dish_name,
+        'triggers', v_triggers
+      )
+    )
+  );
+end;
+$$;
+
+grant execute on function public.quick_log_dish(uuid, timestamptz, jsonb) to authenticated;
@@ -0,0 +1,316 @@
+-- Migration for meal templates
+-- meal_template: a named set of dishes the user eats together (e.g. the same breakfast every day).
+-- meal_template_dish: the dishes of a template, in the order they were eaten.
+-- meal_template_dish_triggers: the confirmed triggers each dish is logged with.
+-- create_meal_template: saves the dishes and confirmed triggers of a confirmed food entry as a
+--   template, in a single transaction.
+-- log_meal_template: logs a template at a given time as a normal confirmed food entry (raw entry,
+--   dish events and confirmed triggers), in a single transaction. The raw entry text is
+--   synthesized from the dish names.
+-- merge_dishes is replaced so templates follow a dish into the dish it is merged into.
+
+create table if not exists public.meal_template (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null,
+  template_name text not null,
+  created_at timestamptz not null default timezone('utc', now()),
+  constraint meal_template_user_name_unique unique (user_id, template_name)
+);
+
+create table if not exists public.meal_template_dish (
+  id uuid primary key default gen_random_uuid(),
+  template_id uuid not null references public.meal_template(id) on delete cascade,
+  dish_id uuid not null references public.dish(id) on delete cascade,
+  position integer not null,
+  created_at timestamptz not null default timezone('utc', now())
+);
+
+create table if not exists public.meal_template_dish_triggers (
+  id uuid primary key default gen_random_uuid(),
+  template_dish_id uuid not null references public.meal_template_dish(id) on delete cascade,
+  trigger_id uuid not null references public.triggers(id) on delete cascade,
+  created_at timestamptz not null default timezone('utc', now()),
+  constraint meal_template_dish_triggers_unique unique (template_dish_id, trigger_id)
+);
+
+create index if not exists idx_meal_template_user_id on public.meal_template (user_id);
+create index if not exists idx_meal_template_dish_template_id on public.meal_template_dish (template_id);
+create index if not exists idx_meal_template_dish_dish_id on public.meal_template_dish (dish_id);
+create index if not exists idx_meal_template_dish_triggers_template_dish_id
+  on public.meal_template_dish_triggers (template_dish_id);
+
+alter table public.meal_template enable row level security;
+alter table public.meal_template_dish enable row level security;
+alter table public.meal_template_dish_triggers enable row level security;
+
+drop policy if exists meal_template_owner_policy on public.meal_template;
+create policy meal_template_owner_policy on public.meal_template
+  for all using (user_id = auth.uid()) with check (user_id = auth.uid());
+
+-- RLS policy for meal_template_dish (accessible via template ownership)
+drop policy if exists meal_template_dish_owner_policy on public.meal_template_dish;
+create policy meal_template_dish_owner_policy on public.meal_template_dish
+  for all using (
+    exists (
+      select 1 from public.meal_template
+      where meal_template.id = meal_template_dish.template_id
+      and meal_template.user_id = auth.uid()
+    )
+  ) with check (
+    exists (
+      select 1 from public.meal_template
+      where meal_template.id = meal_template_dish.template_id
+      and meal_template.user_id = auth.uid()
+    )
+  );
+
+-- RLS policy for meal_template_dish_triggers (accessible via template ownership)
+drop policy if exists meal_template_dish_triggers_owner_policy on public.meal_template_dish_triggers;
+create policy meal_template_dish_triggers_owner_policy on public.meal_template_dish_triggers
+  for all using (
+    exists (
+      select 1 from public.meal_template_dish
+      join public.meal_template on meal_template.id = meal_template_dish.template_id
+      where meal_template_dish.id = meal_template_dish_triggers.template_dish_id
+      and meal_template.user_id = auth.uid()
+    )
+  ) with check (
+    exists (
+      select 1 from public.meal_template_dish
+      join public.meal_template on meal_template.id = meal_template_dish.template_id
+      where meal_template_dish.id = meal_template_dish_triggers.template_dish_id
+      and meal_template.user_id = auth.uid()
+    )
+  );
+
+-- Returns the new template's ID
+create or replace function public.create_meal_template(
+  p_raw_entry_id uuid,
+  p_template_name text
+)
+returns uuid
+language plpgsql
+security invoker
+set search_path = public
+as $$
+declare
+  v_user_id uuid := auth.uid();
+  v_template_name text := btrim(p_template_name);
+  v_template_id uuid;
+  v_dish_event record;
+  v_template_dish_id uuid;
+  v_position integer := 0;
+begin
+  if v_user_id is null then
+    raise exception 'User must be authenticated';
+  end if;
+
+  if v_template_name is null or v_template_name = '' then
+    raise exception 'Template name is required';
+  end if;
+
+  if not exists (
+    select 1 from public.dish_events
+    where raw_entry_id = p_raw_entry_id
+      and user_id = v_user_id
+      and confirmed_by_user = true
+      and deleted_at is null
+  ) then
+    raise exception 'Confirmed food entry not found: %', p_raw_entry_id;
+  end if;
+
+  if exists (
+    select 1 from public.meal_template
+    where user_id = v_user_id
+      and template_name = v_template_name
+  ) then
+    raise exception 'A meal template named "%" already exists', v_template_name;
+  end if;
+
+  insert into public.meal_template (user_id, template_name)
+  values (v_user_id, v_template_name)
+  returning id into v_template_id;
+
+  for v_dish_event in
+    select id, dish_id
+    from public.dish_events
+    where raw_entry_id = p_raw_entry_id
+      and user_id = v_user_id
+      and confirmed_by_user = true
+      and deleted_at is null
+    order by created_at
+  loop
+    insert into public.meal_template_dish (template_id, dish_id, position)
+    values (v_template_id, v_dish_event.dish_id, v_position)
+    returning id into v_template_dish_id;
+
+    insert into public.meal_template_dish_triggers (template_dish_id, trigger_id)
+    select v_template_dish_id, dt.trigger_id
+    from public.dish_triggers dt
+    where dt.dish_event_id = v_dish_event.id
+    on conflict (template_dish_id, trigger_id) do nothing;
+
+    v_position := v_position + 1;
+  end loop;
+
+  return v_template_id;
+end;
+$$;
+
+-- Returns: { entry_id, dishes: [{ dish_event_id, dish_id, dish_name, triggers: [{ trigger_id, trigger_name }] }] }
+create or replace function public.log_meal_template(
+  p_template_id uuid,
+  p_occurred_at timestamptz
+)
+returns jsonb
+language plpgsql
+security invoker
+set search_path = public
+as $$
+declare
+  v_user_id uuid := auth.uid();
+  v_raw_entry_text text;
+  v_raw_entry_id uuid;
+  v_template_dish record;
+  v_dish_event_id uuid;
+  v_result_dishes jsonb;
+begin
+  if v_user_id is null then
+    raise exception 'User must be authenticated';
+  end if;
+
+  if not exists (
+    select 1 from public.meal_template
+    where id = p_template_id
+      and user_id = v_user_id
+  ) then
+    raise exception 'Meal template not found: %', p_template_id;
+  end if;
+
+  select string_agg(d.dish_name, ', ' order by mtd.position)
+  into v_raw_entry_text
+  from public.meal_template_dish mtd
+  join public.dish d on d.id = mtd.dish_id
+  where mtd.template_id = p_template_id;
+
+  if v_raw_entry_text is null then
+    raise exception 'Meal template has no dishes: %', p_template_id;
+  end if;
+
+  insert into public.raw_entry (user_id, raw_entry_text)
+  values (v_user_id, v_raw_entry_text)
+  returning id into v_raw_entry_id;
+
+  for v_template_dish in
+    select id, dish_id
+    from public.meal_template_dish
+    where template_id = p_template_id
+    order by position
+  loop
+    -- clock_timestamp() keeps dish events of one entry ordered by creation
+    insert into public.dish_events (
+      user_id, dish_id, predicted_dish_id, raw_entry_id, confirmed_by_user, occurred_at, created_at
+    )
+    values (
+      v_user_id, v_template_dish.dish_id, null, v_raw_entry_id, true, p_occurred_at, clock_timestamp()
+    )
+    returning id into v_dish_event_id;
+
+    insert into public.dish_triggers (dish_id, dish_event_id, trigger_id)
+    select v_template_dish.dish_id, v_dish_event_id, mtdt.trigger_id
+    from public.meal_template_dish_triggers mtdt
+    where mtdt.template_dish_id = v_template_dish.id
+    on conflict (dish_event_id, trigger_id) do nothing;
+  end loop;
+
+  select coalesce(
+    jsonb_agg(
+      jsonb_build_object(
+        'dish_event_id', de.id,
+        'dish_id', de.dish_id,
+        'dish_name', d.dish_name,
+        'triggers', coalesce((
+          select jsonb_agg(
+            jsonb_build_object('trigger_id', t.id, 'trigger_name', t.trigger_name)
+            order by t.trigger_name
+          )
+          from public.dish_triggers dt
+          join public.triggers t on t.id = dt.trigger_id
+          where dt.dish_event_id = de.id
+        ), '[]'::jsonb)
+      )
+      order by de.created_at
+    ),
+    '[]'::jsonb
+  )
+  into v_result_dishes
+  from public.dish_events de
+  join public.dish d on d.id = de.dish_id
+  where de.raw_entry_id = v_raw_entry_id;
+
+  return jsonb_build_object('entry_id', v_raw_entry_id, 'dishes', v_result_dishes);
+end;
+$$;
+
+-- Same as 0013, except meal templates are re-pointed to the target dish
+create or replace function public.merge_dishes(
+  p_source_dish_id uuid,
+  p_target_dish_id uuid
+)
+returns jsonb
+language plpgsql
+security invoker
+set search_path = public
+as $$
+declare
+  v_user_id uuid := auth.uid();
+  v_source public.dish%rowtype;
+  v_target public.dish%rowtype;
+begin
+  if v_user_id is null then
+    raise exception 'User must be authenticated';
+  end if;
+
+  if p_source_dish_id = p_target_dish_id then
+    raise exception 'Cannot merge a dish into itself';
+  end if;
+
+  select * into v_source from public.dish where id = p_source_dish_id for update;
+  if not found then
+    raise exception 'Dish not found: %', p_source_dish_id;
+  end if;
+
+  select * into v_target from public.dish where id = p_target_dish_id for update;
+  if not found then
+    raise exception 'Dish not found: %', p_target_dish_id;
+  end if;
+
+  if v_source.user_id <> v_user_id or v_target.user_id <> v_user_id then
+    raise exception 'Dish does not belong to the user';
+  end if;
+
+  update public.dish_events set dish_id = v_target.id where dish_id = v_source.id;
+  update public.dish_triggers set dish_id = v_target.id where dish_id = v_source.id;
+  update public.predicted_dish_triggers set dish_id = v_target.id where dish_id = v_source.id;
+  update public.meal_template_dish set dish_id = v_target.id where dish_id = v_source.id;
+
+  -- Aliases of the source now point at the target, and the source's own name becomes one
+  update public.dish_alias set dish_id = v_target.id where dish_id = v_source.id;
+
+  insert into public.dish_alias (user_id, dish_id, alias_name, normalized_alias_name)
+  values (v_user_id, v_target.id, v_source.dish_name, v_source.normalized_dish_name)
+  on conflict (user_id, normalized_alias_name) do update set dish_id = excluded.dish_id;
+
+  -- A dish never needs an alias for its own current name
+  delete from public.dish_alias
+  where dish_id = v_target.id
+    and normalized_alias_name = v_target.normalized_dish_name;
+
+  delete from public.dish where id = v_source.id;
+
+  return to_jsonb(v_target);
+end;
+$$;
+
+grant execute on function public.create_meal_template(uuid, text) to authenticated;
+grant execute on function public.log_meal_template(uuid, timestamptz) to authenticated;
@@ -0,0 +1,456 @@
+-- Migration for dish ingredients
+-- ingredients: the user's ingredients, matched by normalized name like dishes.
+-- ingredient_triggers: the triggers each ingredient carries (e.g. croutons -> gluten).
+-- dish_ingredients: the ingredients of a dish as eaten in one dish event. They are per dish event
+--   (like dish_triggers) so that removing an ingredient from one meal ("no croutons") leaves the
+--   dish's other meals alone.
+-- get_dish_event_ingredients: a dish event's ingredients with their triggers, as returned by the
+--   food entry RPCs.
+-- create_food_entry is replaced to write each dish's ingredients.
+-- confirm_food_entry is replaced to remove the ingredients the user took out of a dish.
+
+create table if not exists public.ingredients (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null,
+  ingredient_name text not null,
+  normalized_ingredient_name text not null,
+  created_at timestamptz not null default timezone('utc', now()),
+  constraint ingredients_user_normalized_name_unique unique (user_id, normalized_ingredient_name)
+);
+
+create table if not exists public.ingredient_triggers (
+  id uuid primary key default gen_random_uuid(),
+  ingredient_id uuid not null references public.ingredients(id) on delete cascade,
+  trigger_id uuid not null references public.triggers(id) on delete cascade,
+  created_at timestamptz not null default timezone('utc', now()),
+  constraint ingredient_triggers_unique unique (ingredient_id, trigger_id)
+);
+
+create table if not exists public.dish_ingredients (
+  id uuid primary key default gen_random_uuid(),
+  dish_event_id uuid not null references public.dish_events(id) on delete cascade,
+  ingredient_id uuid not null references public.ingredients(id) on delete cascade,
+  created_at timestamptz not null default timezone('utc', now()),
+  constraint dish_ingredients_unique unique (dish_event_id, ingredient_id)
+);
+
+create index if not exists idx_ingredients_user_id on public.ingredients (user_id);
+create index if not exists idx_ingredient_triggers_ingredient_id on public.ingredient_triggers (ingredient_id);
+create index if not exists idx_dish_ingredients_dish_event_id on public.dish_ingredients (dish_event_id);
+create index if not exists idx_dish_ingredients_ingredient_id on public.dish_ingredients (ingredient_id);
+
+alter table public.ingredients enable row level security;
+alter table public.ingredient_triggers enable row level security;
+alter table public.dish_ingredients enable row level security;
+
+drop policy if exists ingredients_owner_policy on public.ingredients;
+create policy ingredients_owner_policy on public.ingredients
+  for all using (user_id = auth.uid()) with check (user_id = auth.uid());
+
+-- RLS policy for ingredient_triggers (accessible via ingredient ownership)
+drop policy if exists ingredient_triggers_owner_policy on public.ingredient_triggers;
+create policy ingredient_triggers_owner_policy on public.ingredient_triggers
+  for all using (
+    exists (
+      select 1 from public.ingredients
+      where ingredients.id = ingredient_triggers.ingredient_id
+      and ingredients.user_id = auth.uid()
+    )
+  ) with check (
+    exists (
+      select 1 from public.ingredients
+      where ingredients.id = ingredient_triggers.ingredient_id
+      and ingredients.user_id = auth.uid()
+    )
+  );
+
+-- RLS policy for dish_ingredients (accessible via dish event ownership)
+drop policy if exists dish_ingredients_owner_policy on public.dish_ingredients;
+create policy dish_ingredients_owner_policy on public.dish_ingredients
+  for all using (
+    exists (
+      select 1 from public.dish_events
+      where dish_events.id = dish_ingredients.dish_event_id
+      and dish_events.user_id = auth.uid()
+    )
+  ) with check (
+    exists (
+      select 1 from public.dish_events
+      where dish_events.id = dish_ingredients.dish_event_id
+      and dish_events.user_id = auth.uid()
+    )
+  );
+
+-- Returns: [{ ingredient_id, ingredient_name, triggers: [{ trigger_id, trigger_name }] }], by name
+create or replace function public.get_dish_event_ingredients(p_dish_event_id uuid)
+returns jsonb
+language sql
+stable
+security invoker
+set search_path = public
+as $$
+  select coalesce(
+    jsonb_agg(
+      jsonb_build_object(
+        'ingredient_id', i.id,
+        'ingredient_name', i.ingredient_name,
+        'triggers', coalesce((
+          select jsonb_agg(
+            jsonb_build_object('trigger_id', t.id, 'trigger_name', t.trigger_name)
+            order by t.trigger_name
+          )
+          from public.ingredient_triggers it
+          join public.triggers t on t.id = it.trigger_id
+          where it.ingredient_id = i.id
+        ), '[]'::jsonb)
+      )
+      order by i.ingredient_name
+    ),
+    '[]'::jsonb
+  )
+  from public.dish_ingredients di
+  join public.ingredients i on i.id = di.ingredient_id
+  where di.dish_event_id = p_dish_event_id;
+$$;
+
+-- Same as 0019, except each dish's ingredients (p_dishes[].ingredients: [{ ingredient_name,
+-- normalized_ingredient_name, trigger_names }]) are written for its dish event, and returned
+create or replace function public.create_food_entry(
+  p_raw_entry_text text,
+  p_occurred_at timestamptz,
+  p_model_version text,
+  p_prompt_version text,
+  p_dishes jsonb,
+  p_meal_type text default null
+)
+returns jsonb
+language plpgsql
+security invoker
+set search_path = public
+as $$
+declare
+  v_user_id uuid := auth.uid();
+  v_raw_entry_id uuid;
+  v_dish jsonb;
+  v_predicted_dish_id uuid;
+  v_dish_id uuid;
+  v_dish_name text;
+  v_dish_event_id uuid;
+  v_predicted_triggers jsonb;
+  v_ingredient jsonb;
+  v_ingredient_id uuid;
+  v_result_dishes jsonb := '[]'::jsonb;
+begin
+  if v_user_id is null then
+    raise exception 'User must be authenticated';
+  end if;
+
+  insert into public.raw_entry (user_id, raw_entry_text, meal_type)
+  values (v_user_id, p_raw_entry_text, p_meal_type)
+  returning id into v_raw_entry_id;
+
+  for v_dish in
+    select d.value
+    from jsonb_array_elements(coalesce(p_dishes, '[]'::jsonb)) with ordinality as d(value, idx)
+    order by d.idx
+  loop
+    insert into public.predicted_dish (
+      raw_entry_id, dish_fragment_text, dish_name_suggestion, quantity, unit, portion_size,
+      model_version, prompt_version
+    )
+    values (
+      v_raw_entry_id,
+      v_dish->>'dish_fragment_text',
+      v_dish->>'dish_name_suggestion',
+      (v_dish->>'quantity')::numeric,
+      v_dish->>'unit',
+      v_dish->>'portion_size',
+      p_model_version,
+      p_prompt_version
+    )
+    returning id into v_predicted_dish_id;
+
+    -- Resolve aliases of merged dishes first
+    v_dish_id := null;
+    select dish_id into v_dish_id
+    from public.dish_alias
+    where user_id = v_user_id
+      and normalized_alias_name = v_dish->>'normalized_dish_name';
+
+    if v_dish_id is null then
+      -- Find or create the user's dish by normalized name
+      insert into public.dish (user_id, dish_name, normalized_dish_name)
+      values (v_user_id, v_dish->>'dish_name_suggestion', v_dish->>'normalized_dish_name')
+      on conflict (user_id, normalized_dish_name) do nothing;
+
+      select id into v_dish_id
+      from public.dish
+      where user_id = v_user_id
+        and normalized_dish_name = v_dish->>'normalized_dish_name';
+    end if;
+
+    select dish_name into v_dish_name from public.dish where id = v_dish_id;
+
+    -- clock_timestamp() keeps dish events of one entry ordered by creation
+    insert into public.dish_events (
+      user_id, dish_id, predicted_dish_id, raw_entry_id, confirmed_by_user, occurred_at, created_at,
+      quantity, unit, portion_size
+    )
+    values (
+      v_user_id, v_dish_id, v_predicted_dish_id, v_raw_entry_id, false, p_occurred_at, clock_timestamp(),
+      (v_dish->>'quantity')::numeric, v_dish->>'unit', v_dish->>'portion_size'
+    )
+    returning id into v_dish_event_id;
+
+    -- Find or create the user's ingredients by normalized name. Trigger mappings are only written
+    -- for new ingredients, so an ingredient keeps the triggers it was first given.
+    for v_ingredient in
+      select i.value
+      from jsonb_array_elements(coalesce(v_dish->'ingredients', '[]'::jsonb)) as i(value)
+    loop
+      v_ingredient_id := null;
+
+      insert into public.ingredients (user_id, ingredient_name, normalized_ingredient_name)
+      values (v_user_id, v_ingredient->>'ingredient_name', v_ingredient->>'normalized_ingredient_name')
+      on conflict (user_id, normalized_ingredient_name) do nothing
+      returning id into v_ingredient_id;
+
+      if v_ingredient_id is not null then
+        insert into public.ingredient_triggers (ingredient_id, trigger_id)
+        select v_ingredient_id, t.id
+        from public.triggers t
+        where t.trigger_name in (
+          select jsonb_array_elements_text(coalesce(v_ingredient->'trigger_names', '[]'::jsonb))
+        )
+        on conflict (ingredient_id, trigger_id) do nothing;
+      else
+        select id into v_ingredient_id
+        from public.ingredients
+        where user_id = v_user_id
+          and normalized_ingredient_name = v_ingredient->>'normalized_ingredient_name';
+      end if;
+
+      insert into public.dish_ingredients (dish_event_id, ingredient_id)
+      values (v_dish_event_id, v_ingredient_id)
+      on conflict (dish_event_id, ingredient_id) do nothing;
+    end loop;
+
+    insert into public.predicted_dish_triggers (
+      dish_id, dish_event_id, trigger_id, model_version, prompt_version
+    )
+    select v_dish_id, v_dish_event_id, t.id, p_model_version, p_prompt_version
+    from public.triggers t
+    where t.trigger_name in (
+      select jsonb_array_elements_text(coalesce(v_dish->'trigger_names', '[]'::jsonb))
+    )
+    on conflict (dish_event_id, trigger_id) do nothing;
+
+    select coalesce(
+      jsonb_agg(
+        jsonb_build_object('trigger_id', t.id, 'trigger_name', t.trigger_name)
+        order by t.trigger_name
+      ),
+      '[]'::jsonb
+    )
+    into v_predicted_triggers
+    from public.predicted_dish_triggers pdt
+    join public.triggers t on t.id = pdt.trigger_id
+    where pdt.dish_event_id = v_dish_event_id;
+
+    v_result_dishes := v_result_dishes || jsonb_build_array(
+      jsonb_build_object(
+        'dish_event_id', v_dish_event_id,
+        'dish_id', v_dish_id,
+        'dish_name', v_dish_name,
+        'quantity', (v_dish->>'quantity')::numeric,
+        'unit', v_dish->>'unit',
+        'portion_size', v_dish->>'portion_size',
+        'ingredients', public.get_dish_event_ingredients(v_dish_event_id),
+        'predicted_triggers', v_predicted_triggers
+      )
+    );
+  end loop;
+
+  return jsonb_build_object(
+    'entry_id', v_raw_entry_id,
+    'meal_type', p_meal_type,
+    'dishes', v_result_dishes
+  );
+end;
+$$;
+
+-- Same as 0019, except each confirmed dish's optional ingredient_ids lists the ingredients it
+-- still has, and each dish's ingredients are returned
+create or replace function public.confirm_food_entry(
+  p_raw_entry_id uuid,
+  p_occurred_at timestamptz,
+  p_confirmed_dishes jsonb,
+  p_meal_type text default null
+)
+returns jsonb
+language plpgsql
+security invoker
+set search_path = public
+as $$
+declare
+  v_user_id uuid := auth.uid();
+  v_confirmed jsonb;
+  v_dish_event public.dish_events%rowtype;
+  v_dish public.dish%rowtype;
+  v_final_name text;
+  v_normalized_name text;
+  v_result_dishes jsonb;
+  v_meal_type text;
+begin
+  if v_user_id is null then
+    raise exception 'User must be authenticated';
+  end if;
+
+  for v_confirmed in
+    select d.value
+    from jsonb_array_elements(coalesce(p_confirmed_dishes, '[]'::jsonb)) with ordinality as d(value, idx)
+    order by d.idx
+  loop
+    -- Compare as text so malformed IDs surface as "not found" rather than a cast error
+    select * into v_dish_event
+    from public.dish_events
+    where id::text = v_confirmed->>'dish_event_id'
+      and raw_entry_id = p_raw_entry_id
+      and deleted_at is null;
+
+    if not found then
+      raise exception 'Dish event not found: %', v_confirmed->>'dish_event_id';
+    end if;
+
+    select * into v_dish
+    from public.dish
+    where id::text = v_confirmed->>'dish_id';
+
+    if not found then
+      raise exception 'Dish not found: %', v_confirmed->>'dish_id';
+    end if;
+
+    if v_dish.user_id <> v_dish_event.user_id then
+      raise exception 'Dish does not belong to the user';
+    end if;
+
+    v_final_name := v_confirmed->>'final_dish_name';
+    v_normalized_name := v_confirmed->>'normalized_dish_name';
+
+    -- Update dish name if it changed, refusing to collide with another of the user's dishes
+    -- (by name or by alias). The client offers merging as the resolution.
+    if v_dish.dish_name is distinct from v_final_name
+      or v_dish.normalized_dish_name is distinct from v_normalized_name then
+      if exists (
+        select 1 from public.dish
+        where user_id = v_dish_event.user_id
+          and normalized_dish_name = v_normalized_name
+          and id <> v_dish.id
+      ) or exists (
+        select 1 from public.dish_alias
+        where user_id = v_dish_event.user_id
+          and normalized_alias_name = v_normalized_name
+          and dish_id <> v_dish.id
+      ) then
+        raise exception 'Cannot update dish name: a dish with normalized name "%" already exists',
+          v_normalized_name;
+      end if;
+
+      update public.dish
+      set dish_name = v_final_name,
+          normalized_dish_name = v_normalized_name
+      where id = v_dish.id;
+
+      -- Renaming back to one of the dish's own aliases makes that alias redundant
+      delete from public.dish_alias
+      where dish_id = v_dish.id
+        and normalized_alias_name = v_normalized_name;
+    end if;
+
+    update public.dish_events
+    set quantity = (v_confirmed->>'quantity')::numeric,
+        unit = v_confirmed->>'unit',
+        portion_size = v_confirmed->>'portion_size'
+    where id = v_dish_event.id;
+
+    -- Ingredients left out of ingredient_ids were removed by the user ("no croutons").
+    -- Without ingredient_ids the dish event keeps its ingredients.
+    if jsonb_typeof(v_confirmed->'ingredient_ids') = 'array' then
+      delete from public.dish_ingredients
+      where dish_event_id = v_dish_event.id
+        and ingredient_id::text not in (
+          select jsonb_array_elements_text(v_confirmed->'ingredient_ids')
+        );
+    end if;
+
+    -- Replace confirmed triggers for this dish event
+    delete from public.dish_triggers where dish_event_id = v_dish_event.id;
+
+    insert into public.dish_triggers (dish_id, dish_event_id, trigger_id)
+    select v_dish_event.dish_id, v_dish_event.id, t.value::uuid
+    from jsonb_array_elements_text(coalesce(v_confirmed->'trigger_ids', '[]'::jsonb)) as t(value)
+    on conflict (dish_event_id, trigger_id) do nothing;
+  end loop;
+
+  -- All dish events of one raw entry share the time the meal was eaten
+  update public.dish_events
+  set occurred_at = p_occurred_at
+  where raw_entry_id = p_raw_entry_id
+    and deleted_at is null
+    and occurred_at is distinct from p_occurred_at;
+
+  -- A null meal type keeps the entry's current one
+  update public.raw_entry
+  set meal_type = p_meal_type
+  where id = p_raw_entry_id
+    and p_meal_type is not null
+    and meal_type is distinct from p_meal_type;
+
+  select meal_type into v_meal_type
+  from public.raw_entry
+  where id = p_raw_entry_id;
+
+  update public.dish_events
+  set confirmed_by_user = true
+  where raw_entry_id = p_raw_entry_id
+    and deleted_at is null;
+
+  select coalesce(
+    jsonb_agg(
+      jsonb_build_object(
+        'dish_event_id', de.id,
+        'dish_id', de.dish_id,
+        'dish_name', d.dish_name,
+        'quantity', de.quantity,
+        'unit', de.unit,
+        'portion_size', de.portion_size,
+        'ingredients', public.get_dish_event_ingredients(de.id),
+        'triggers', coalesce((
+          select jsonb_agg(
+            jsonb_build_object('trigger_id', t.id, 'trigger_name', t.trigger_name)
+            order by t.trigger_name
+          )
+          from public.dish_triggers dt
+          join public.triggers t on t.id = dt.trigger_id
+          where dt.dish_event_id = de.id
+        ), '[]'::jsonb)
+      )
+      order by de.created_at
+    ),
+    '[]'::jsonb
+  )
+  into v_result_dishes
+  from public.dish_events de
+  join public.dish d on d.id = de.dish_id
+  where de.raw_entry_id = p_raw_entry_id
+    and de.deleted_at is null;
+
+  return jsonb_build_object(
+    'entry_id', p_raw_entry_id,
+    'meal_type', v_meal_type,
+    'dishes', v_result_dishes
+  );
+end;
+$$;
+
+grant execute on function public.get_dish_event_ingredients(uuid) to authenticated;
@@ -0,0 +1,31 @@
+-- Migration for user-defined custom triggers
+-- triggers.user_id: null for the built-in triggers every user shares (see 0006 and 0009); set for
+--   a trigger a user created for themselves ("cilantro", "carbonation").
+-- Trigger names stay unique among the built-in triggers, and per user (ignoring case) among
+--   custom triggers.
+-- RLS: users see the built-in triggers and their own custom triggers, and can only create, rename
+--   or delete their own. The food entry RPCs are security invoker and look triggers up by name, so
+--   they only ever match triggers the user can see.
+
+alter table public.triggers
+  add column if not exists user_id uuid;
+
+alter table public.triggers
+  drop constraint if exists triggers_trigger_name_key;
+
+create unique index if not exists idx_triggers_builtin_name_unique
+  on public.triggers (trigger_name)
+  where user_id is null;
+
+create unique index if not exists idx_triggers_user_name_unique
+  on public.triggers (user_id, lower(trigger_name))
+  where user_id is not null;
+
+-- RLS Policies for triggers (built-in triggers are read-only for everyone)
+drop policy if exists triggers_select_policy on public.triggers;
+create policy triggers_select_policy on public.triggers
+  for select using (user_id is null or user_id = auth.uid());
+
+drop policy if exists triggers_owner_policy on public.triggers;
+create policy triggers_owner_policy on public.triggers
+  for all using (user_id = auth.uid()) with check (user_id = auth.uid());
@@ -0,0 +1,23 @@
+-- Migration for the known-sensitivity profile
+-- profile_trigger_sensitivities: triggers a user already knows they react to ("lactose
+--   intolerant", "celiac"), each with a sensitivity level. Part of the user's profile, so rows are
+--   removed with it. One row per trigger; setting a level again replaces it.
+
+create table if not exists public.profile_trigger_sensitivities (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references public.profiles(id) on delete cascade,
+  trigger_id uuid not null references public.triggers(id) on delete cascade,
+  sensitivity_level text not null check (sensitivity_level in ('low', 'medium', 'high')),
+  created_at timestamptz not null default timezone('utc', now()),
+  updated_at timestamptz not null default timezone('utc', now()),
+  constraint profile_trigger_sensitivities_unique unique (user_id, trigger_id)
+);
+
+create index if not exists idx_profile_trigger_sensitivities_user_id
+  on public.profile_trigger_sensitivities (user_id);
+
+alter table public.profile_trigger_sensitivities enable row level security;
+
+drop policy if exists profile_trigger_sensitivities_owner_policy on public.profile_trigger_sensitivities;
+create policy profile_trigger_sensitivities_owner_policy on public.profile_trigger_sensitivities
+  for all using (user_id = auth.uid()) with check (user_id = auth.uid());
@@ -0,0 +1,41 @@
+-- Migration for prediction accuracy evaluation
+-- prediction_eval_dish_events: one row per confirmed dish event that came from an LLM prediction,
+--   with the model and prompt version, the predicted and confirmed trigger names, and the
+--   suggested and final dish name. is_new_dish marks the first event of a dish; later events copy
+--   the dish's name and triggers instead of asking the LLM.
+--   security_invoker, so RLS on the underlying tables applies.
+
+create or replace view public.prediction_eval_dish_events
+with (security_invoker = true) as
+select
+  de.id as dish_event_id,
+  de.user_id,
+  de.dish_id,
+  de.occurred_at,
+  pd.model_version,
+  pd.prompt_version,
+  pd.dish_name_suggestion,
+  d.dish_name,
+  d.normalized_dish_name,
+  not exists (
+    select 1 from public.dish_events earlier
+    where earlier.dish_id = de.dish_id
+    and (earlier.created_at, earlier.id) < (de.created_at, de.id)
+  ) as is_new_dish,
+  coalesce((
+    select array_agg(distinct t.trigger_name order by t.trigger_name)
+    from public.predicted_dish_triggers pdt
+    join public.triggers t on t.id = pdt.trigger_id
+    where pdt.dish_event_id = de.id
+  ), '{}'::text[]) as predicted_trigger_names,
+  coalesce((
+    select array_agg(distinct t.trigger_name order by t.trigger_name)
+    from public.dish_triggers dt
+    join public.triggers t on t.id = dt.trigger_id
+    where dt.dish_event_id = de.id
+  ), '{}'::text[]) as confirmed_trigger_names
+from public.dish_events de
+join public.predicted_dish pd on pd.id = de.predicted_dish_id
+join public.dish d on d.id = de.dish_id
+where de.confirmed_by_user = true
+and de.deleted_at is null;
@@ -0,0 +1,7 @@
+-- Migration for opting out of AI suggestions
+-- profiles.ai_predictions_enabled: whether dishes and triggers of new food entries are predicted
+--   by the LLM. When false, the app's rule-based predictor is used instead and its predictions are
+--   stored with model_version 'rules-v1'. Existing users keep AI suggestions.
+
+alter table public.profiles
+  add column if not exists ai_predictions_enabled boolean not null default true;
@@ -0,0 +1,19 @@
+-- Migration for the shared LLM response cache
+-- llm_response_cache: LLM responses keyed by a hash of the prompt, model version and prompt
+--   version, so a user's devices can reuse each other's answers for repeated entries. Optional
+--   layer behind the on-device cache (see src/lib/llmCache.ts). Rows belong to the user's
+--   profile and are removed with it; stale rows are deleted by the app when read.
+
+create table if not exists public.llm_response_cache (
+  user_id uuid not null references public.profiles(id) on delete cascade,
+  cache_key text not null,
+  response text not null,
+  created_at timestamptz not null default timezone('utc', now()),
+  primary key (user_id, cache_key)
+);
+
+alter table public.llm_response_cache enable row level security;
+
+drop policy if exists llm_response_cache_owner_policy on public.llm_response_cache;
+create policy llm_response_cache_owner_policy on public.llm_response_cache
+  for all using (user_id = auth.uid()) with check (user_id = auth.uid());
@@ -0,0 +1,223 @@
+-- Migration for prompt experiments
+-- predicted_dish.prompt_variant, predicted_dish_triggers.prompt_variant: the prompt experiment
+--   variant ("experiment/variant") a prediction was made under, null outside an experiment. The
+--   app assigns each user a variant (see src/lib/promptExperiments.ts); the variant decides the
+--   prompt and model version, which are still stored in their own columns.
+-- create_food_entry is replaced with an extra p_prompt_variant parameter. The old signature is
+--   dropped so calls stay unambiguous.
+-- prediction_eval_dish_events gains prompt_variant (added last, as views can only gain columns
+--   at the end), so confirmation edit rates can be compared between variants.
+
+alter table public.predicted_dish
+  add column if not exists prompt_variant text;
+
+alter table public.predicted_dish_triggers
+  add column if not exists prompt_variant text;
+
+drop function if exists public.create_food_entry(text, timestamptz, text, text, jsonb, text);
+
+-- Same as 0020, except predicted dishes and their triggers are written with p_prompt_variant
+create or replace function public.create_food_entry(
+  p_raw_entry_text text,
+  p_occurred_at timestamptz,
+  p_model_version text,
+  p_prompt_version text,
+  p_dishes jsonb,
+  p_meal_type text default null,
+  p_prompt_variant text default null
+)
+returns jsonb
+language plpgsql
+security invoker
+set search_path = public
+as $$
+declare
+  v_user_id uuid := auth.uid();
+  v_raw_entry_id uuid;
+  v_dish jsonb;
+  v_predicted_dish_id uuid;
+  v_dish_id uuid;
+  v_dish_name text;
+  v_dish_event_id uuid;
+  v_predicted_triggers jsonb;
+  v_ingredient jsonb;
+  v_ingredient_id uuid;
+  v_result_dishes jsonb := '[]'::jsonb;
+begin
+  if v_user_id is null then
+    raise exception 'User must be authenticated';
+  end if;
+
+  insert into public.raw_entry (user_id, raw_entry_text, meal_type)
+  values (v_user_id, p_raw_entry_text, p_meal_type)
+  returning id into v_raw_entry_id;
+
+  for v_dish in
+    select d.value
+    from jsonb_array_elements(coalesce(p_dishes, '[]'::jsonb)) with ordinality as d(value, idx)
+    order by d.idx
+  loop
+    insert into public.predicted_dish (
+      raw_entry_id, dish_fragment_text, dish_name_suggestion, quantity, unit, portion_size,
+      model_version, prompt_version, prompt_variant
+    )
+    values (
+      v_raw_entry_id,
+      v_dish->>'dish_fragment_text',
+      v_dish->>'dish_name_suggestion',
+      (v_dish->>'quantity')::numeric,
+      v_dish->>'unit',
+      v_dish->>'portion_size',
+      p_model_version,
+      p_prompt_version,
+      p_prompt_variant
+    )
+    returning id into v_predicted_dish_id;
+
+    -- Resolve aliases of merged dishes first
+    v_dish_id := null;
+    select dish_id into v_dish_id
+    from public.dish_alias
+    where user_id = v_user_id
+      and normalized_alias_name = v_dish->>'normalized_dish_name';
+
+    if v_dish_id is null then
+      -- Find or create the user's dish by normalized name
+      insert into public.dish (user_id, dish_name, normalized_dish_name)
+      values (v_user_id, v_dish->>'dish_name_suggestion', v_dish->>'normalized_dish_name')
+      on conflict (user_id, normalized_dish_name) do nothing;
+
+      select id into v_dish_id
+      from public.dish
+      where user_id = v_user_id
+        and normalized_dish_name = v_dish->>'normalized_dish_name';
+    end if;
+
+    select dish_name into v_dish_name from public.dish where id = v_dish_id;
+
+    -- clock_timestamp() keeps dish events of one entry ordered by creation
+    insert into public.dish_events (
+      user_id, dish_id, predicted_dish_id, raw_entry_id, confirmed_by_user, occurred_at, created_at,
+      quantity, unit, portion_size
+    )
+    values (
+      v_user_id, v_dish_id, v_predicted_dish_id, v_raw_entry_id, false, p_occurred_at, clock_timestamp(),
+      (v_dish->>'quantity')::numeric, v_dish->>'unit', v_dish->>'portion_size'
+    )
+    returning id into v_dish_event_id;
+
+    -- Find or create the user's ingredients by normalized name. Trigger mappings are only written
+    -- for new ingredients, so an ingredient keeps the triggers it was first given.
+    for v_ingredient in
+      select i.value
+      from jsonb_array_elements(coalesce(v_dish->'ingredients', '[]'::jsonb)) as i(value)
+    loop
+      v_ingredient_id := null;
+
+      insert into public.ingredients (user_id, ingredient_name, normalized_ingredient_name)
+      values (v_user_id, v_ingredient->>'ingredient_name', v_ingredient->>'normalized_ingredient_name')
+      on conflict (user_id, normalized_ingredient_name) do nothing
+      returning id into v_ingredient_id;
+
+      if v_ingredient_id is not null then
+        insert into public.ingredient_triggers (ingredient_id, trigger_id)
+        select v_ingredient_id, t.id
+        from public.triggers t
+        where t.trigger_name in (
+          select jsonb_array_elements_text(coalesce(v_ingredient->'trigger_names', '[]'::jsonb))
+        )
+        on conflict (ingredient_id, trigger_id) do nothing;
+      else
+        select id into v_ingredient_id
+        from public.ingredients
+        where user_id = v_user_id
+          and normalized_ingredient_name = v_ingredient->>'normalized_ingredient_name';
+      end if;
+
+      insert into public.dish_ingredients (dish_event_id, ingredient_id)
+      values (v_dish_event_id, v_ingredient_id)
+      on conflict (dish_event_id, ingredient_id) do nothing;
+    end loop;
+
+    insert into public.predicted_dish_triggers (
+      dish_id, dish_event_id, trigger_id, model_version, prompt_version, prompt_variant
+    )
+    select v_dish_id, v_dish_event_id, t.id, p_model_version, p_prompt_version, p_prompt_variant
+    from public.triggers t
+    where t.trigger_name in (
+      select jsonb_array_elements_text(coalesce(v_dish->'trigger_names', '[]'::jsonb))
+    )
+    on conflict (dish_event_id, trigger_id) do nothing;
+
+    select coalesce(
+      jsonb_agg(
+        jsonb_build_object('trigger_id', t.id, 'trigger_name', t.trigger_name)
+        order by t.trigger_name
+      ),
+      '[]'::jsonb
+    )
+    into v_predicted_triggers
+    from public.predicted_dish_triggers pdt
+    join public.triggers t on t.id = pdt.trigger_id
+    where pdt.dish_event_id = v_dish_event_id;
+
+    v_result_dishes := v_result_dishes || jsonb_build_array(
+      jsonb_build_object(
+        'dish_event_id', v_dish_event_id,
+        'dish_id', v_dish_id,
+        'dish_name', v_dish_name,
+        'quantity', (v_dish->>'quantity')::numeric,
+        'unit', v_dish->>'unit',
+        'portion_size', v_dish->>'portion_size',
+        'ingredients', public.get_dish_event_ingredients(v_dish_event_id),
+        'predicted_triggers', v_predicted_triggers
+      )
+    );
+  end loop;
+
+  return jsonb_build_object(
+    'entry_id', v_raw_entry_id,
+    'meal_type', p_meal_type,
+    'dishes', v_result_dishes
+  );
+end;
+$$;
+
+grant execute on function public.create_food_entry(text, timestamptz, text, text, jsonb, text, text) to authenticated;
+
+-- Same as 0023, with the prompt variant of each prediction
+create or replace view public.prediction_eval_dish_events
+with (security_invoker = true) as
+select
+  de.id as dish_event_id,
+  de.user_id,
+  de.dish_id,
+  de.occurred_at,
+  pd.model_version,
+  pd.prompt_version,
+  pd.dish_name_suggestion,
+  d.dish_name,
+  d.normalized_dish_name,
+  not exists (
+    select 1 from public.dish_events earlier
+    where earlier.dish_id = de.dish_id
+    and (earlier.created_at, earlier.id) < (de.created_at, de.id)
+  ) as is_new_dish,
+  coalesce((
+    select array_agg(distinct t.trigger_name order by t.trigger_name)
+    from public.predicted_dish_triggers pdt
+    join public.triggers t on t.id = pdt.trigger_id
+    where pdt.dish_event_id = de.id
+  ), '{}'::text[]) as predicted_trigger_names,
+  coalesce((
+    select array_agg(distinct t.trigger_name order by t.trigger_name)
+    from public.dish_triggers dt
+    join public.triggers t on t.id = dt.trigger_id
+    where dt.dish_event_id = de.id
+  ), '{}'::text[]) as confirmed_trigger_names,
+  pd.prompt_variant
+from public.dish_events de
+join public.predicted_dish pd on pd.id = de.predicted_dish_id
+join public.dish d on d.id = de.dish_id
+where de.confirmed_by_user = true
+and de.deleted_at is null;
@@ -0,0 +1,69 @@
+-- Migration for per-user limits on LLM requests made through the llm Edge Function
+-- llm_request_counts: requests per user in fixed windows (one minute and one day). Users have no
+--   access to it; it's only written through consume_llm_request.
+-- consume_llm_request: counts a request by the calling user against both windows and returns how
+--   many seconds they must wait before the next request is allowed (0 if this one is). Rejected
+--   requests count too, so a client that ignores the limit stays limited. Runs as the owner
+--   (security definer) so the counts can't be reset by the user, but only for auth.uid().
+
+create table if not exists public.llm_request_counts (
+  user_id uuid not null references public.profiles(id) on delete cascade,
+  window_seconds integer not null,
+  window_start timestamptz not null,
+  request_count integer not null default 0,
+  primary key (user_id, window_seconds, window_start)
+);
+
+alter table public.llm_request_counts enable row level security;
+
+create or replace function public.consume_llm_request(
+  p_per_minute integer,
+  p_per_day integer
+)
+returns integer
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_user_id uuid := auth.uid();
+  v_now timestamptz := now();
+  v_minute_start timestamptz := date_trunc('minute', v_now);
+  v_day_start timestamptz := date_trunc('day', v_now at time zone 'utc') at time zone 'utc';
+  v_minute_count integer;
+  v_day_count integer;
+  v_retry_after integer := 0;
+begin
+  if v_user_id is null then
+    raise exception 'User must be authenticated';
+  end if;
+
+  -- Windows that have ended are no longer needed
+  delete from public.llm_request_counts
+  where user_id = v_user_id
+    and window_start + make_interval(secs => window_seconds) <= v_now;
+
+  insert into public.llm_request_counts (user_id, window_seconds, window_start, request_count)
+  values (v_user_id, 60, v_minute_start, 1)
+  on conflict (user_id, window_seconds, window_start)
+  do update set request_count = public.llm_request_counts.request_count + 1
+  returning request_count into v_minute_count;
+
+  insert into public.llm_request_counts (user_id, window_seconds, window_start, request_count)
+  values (v_user_id, 86400, v_day_start, 1)
+  on conflict (user_id, window_seconds, window_start)
+  do update set request_count = public.llm_request_counts.request_count + 1
+  returning request_count into v_day_count;
+
+  if v_day_count > p_per_day then
+    v_retry_after := ceil(extract(epoch from v_day_start + interval '1 day' - v_now))::integer;
+  elsif v_minute_count > p_per_minute then
+    v_retry_after := ceil(extract(epoch from v_minute_start + interval '1 minute' - v_now))::integer;
+  end if;
+
+  return v_retry_after;
+end;
+$$;
+
+revoke execute on function public.consume_llm_request(integer, integer) from public;
+grant execute on function public.consume_llm_request(integer, integer) to authenticated;
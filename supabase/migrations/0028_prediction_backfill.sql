@@ -0,0 +1,356 @@
+-- Migration for re-predicting triggers under a new prompt or model version (backfill)
+-- predicted_dish_triggers: a dish event can now hold one prediction per model and prompt version,
+--   so re-predicted triggers are written alongside the original ones instead of replacing them.
+--   create_food_entry is replaced only to use the new conflict target.
+-- prediction_backfill_dish_events: one row per re-predicted dish event and version, with the
+--   trigger names predicted before and after. A backfill skips dish events that already have a
+--   row for its version, which makes it resumable. Confirmed dish_triggers are never touched.
+-- save_backfilled_prediction: writes a re-predicted dish event's triggers and its backfill row in
+--   one transaction. Trigger names only match built-in triggers and the event owner's custom
+--   triggers, since it may run with the service role.
+-- current_dish_event_predictions: each LLM-predicted dish event with its current prediction (the
+--   latest backfilled one, else the original), for picking backfill candidates and showing the
+--   current suggestions on the confirmation screen.
+-- prediction_eval_dish_events only counts the original prediction of each dish event, so
+--   re-predicted triggers aren't credited to the version that logged the dish.
+
+alter table public.predicted_dish_triggers
+  drop constraint if exists predicted_dish_triggers_unique;
+
+alter table public.predicted_dish_triggers
+  add constraint predicted_dish_triggers_unique
+  unique (dish_event_id, trigger_id, model_version, prompt_version);
+
+-- Same as 0026, except for the conflict target of predicted triggers
+create or replace function public.create_food_entry(
+  p_raw_entry_text text,
+  p_occurred_at timestamptz,
+  p_model_version text,
+  p_prompt_version text,
+  p_dishes jsonb,
+  p_meal_type text default null,
+  p_prompt_variant text default null
+)
+returns jsonb
+language plpgsql
+security invoker
+set search_path = public
+as $$
+declare
+  v_user_id uuid := auth.uid();
+  v_raw_entry_id uuid;
+  v_dish jsonb;
+  v_predicted_dish_id uuid;
+  v_dish_id uuid;
+  v_dish_name text;
+  v_dish_event_id uuid;
+  v_predicted_triggers jsonb;
+  v_ingredient jsonb;
+  v_ingredient_id uuid;
+  v_result_dishes jsonb := '[]'::jsonb;
+begin
+  if v_user_id is null then
+    raise exception 'User must be authenticated';
+  end if;
+
+  insert into public.raw_entry (user_id, raw_entry_text, meal_type)
+  values (v_user_id, p_raw_entry_text, p_meal_type)
+  returning id into v_raw_entry_id;
+
+  for v_dish in
+    select d.value
+    from jsonb_array_elements(coalesce(p_dishes, '[]'::jsonb)) with ordinality as d(value, idx)
+    order by d.idx
+  loop
+    insert into public.predicted_dish (
+      raw_entry_id, dish_fragment_text, dish_name_suggestion, quantity, unit, portion_size,
+      model_version, prompt_version, prompt_variant
+    )
+    values (
+      v_raw_entry_id,
+      v_dish->>'dish_fragment_text',
+      v_dish->>'dish_name_suggestion',
+      (v_dish->>'quantity')::numeric,
+      v_dish->>'unit',
+      v_dish->>'portion_size',
+      p_model_version,
+      p_prompt_version,
+      p_prompt_variant
+    )
+    returning id into v_predicted_dish_id;
+
+    -- Resolve aliases of merged dishes first
+    v_dish_id := null;
+    select dish_id into v_dish_id
+    from public.dish_alias
+    where user_id = v_user_id
+      and normalized_alias_name = v_dish->>'normalized_dish_name';
+
+    if v_dish_id is null then
+      -- Find or create the user's dish by normalized name
+      insert into public.dish (user_id, dish_name, normalized_dish_name)
+      values (v_user_id, v_dish->>'dish_name_suggestion', v_dish->>'normalized_dish_name')
+      on conflict (user_id, normalized_dish_name) do nothing;
+
+      select id into v_dish_id
+      from public.dish
+      where user_id = v_user_id
+        and normalized_dish_name = v_dish->>'normalized_dish_name';
+    end if;
+
+    select dish_name into v_dish_name from public.dish where id = v_dish_id;
+
+    -- clock_timestamp() keeps dish events of one entry ordered by creation
+    insert into public.dish_events (
+      user_id, dish_id, predicted_dish_id, raw_entry_id, confirmed_by_user, occurred_at, created_at,
+      quantity, unit, portion_size
+    )
+    values (
+      v_user_id, v_dish_id, v_predicted_dish_id, v_raw_entry_id, false, p_occurred_at, clock_timestamp(),
+      (v_dish->>'quantity')::numeric, v_dish->>'unit', v_dish->>'portion_size'
+    )
+    returning id into v_dish_event_id;
+
+    -- Find or create the user's ingredients by normalized name. Trigger mappings are only written
+    -- for new ingredients, so an ingredient keeps the triggers it was first given.
+    for v_ingredient in
+      select i.value
+      from jsonb_array_elements(coalesce(v_dish->'ingredients', '[]'::jsonb)) as i(value)
+    loop
+      v_ingredient_id := null;
+
+      insert into public.ingredients (user_id, ingredient_name, normalized_ingredient_name)
+      values (v_user_id, v_ingredient->>'ingredient_name', v_ingredient->>'normalized_ingredient_name')
+      on conflict (user_id, normalized_ingredient_name) do nothing
+      returning id into v_ingredient_id;
+
+      if v_ingredient_id is not null then
+        insert into public.ingredient_triggers (ingredient_id, trigger_id)
+        select v_ingredient_id, t.id
+        from public.triggers t
+        where t.trigger_name in (
+          select jsonb_array_elements_text(coalesce(v_ingredient->'trigger_names', '[]'::jsonb))
+        )
+        on conflict (ingredient_id, trigger_id) do nothing;
+      else
+        select id into v_ingredient_id
+        from public.ingredients
+        where user_id = v_user_id
+          and normalized_ingredient_name = v_ingredient->>'normalized_ingredient_name';
+      end if;
+
+      insert into public.dish_ingredients (dish_event_id, ingredient_id)
+      values (v_dish_event_id, v_ingredient_id)
+      on conflict (dish_event_id, ingredient_id) do nothing;
+    end loop;
+
+    insert into public.predicted_dish_triggers (
+      dish_id, dish_event_id, trigger_id, model_version, prompt_version, prompt_variant
+    )
+    select v_dish_id, v_dish_event_id, t.id, p_model_version, p_prompt_version, p_prompt_variant
+    from public.triggers t
+    where t.trigger_name in (
+      select jsonb_array_elements_text(coalesce(v_dish->'trigger_names', '[]'::jsonb))
+    )
+    on conflict (dish_event_id, trigger_id, model_version, prompt_version) do nothing;
+
+    select coalesce(
+      jsonb_agg(
+        jsonb_build_object('trigger_id', t.id, 'trigger_name', t.trigger_name)
+        order by t.trigger_name
+      ),
+      '[]'::jsonb
+    )
+    into v_predicted_triggers
+    from public.predicted_dish_triggers pdt
+    join public.triggers t on t.id = pdt.trigger_id
+    where pdt.dish_event_id = v_dish_event_id;
+
+    v_result_dishes := v_result_dishes || jsonb_build_array(
+      jsonb_build_object(
+        'dish_event_id', v_dish_event_id,
+        'dish_id', v_dish_id,
+        'dish_name', v_dish_name,
+        'quantity', (v_dish->>'quantity')::numeric,
+        'unit', v_dish->>'unit',
+        'portion_size', v_dish->>'portion_size',
+        'ingredients', public.get_dish_event_ingredients(v_dish_event_id),
+        'predicted_triggers', v_predicted_triggers
+      )
+    );
+  end loop;
+
+  return jsonb_build_object(
+    'entry_id', v_raw_entry_id,
+    'meal_type', p_meal_type,
+    'dishes', v_result_dishes
+  );
+end;
+$$;
+
+grant execute on function public.create_food_entry(text, timestamptz, text, text, jsonb, text, text) to authenticated;
+
+create table if not exists public.prediction_backfill_dish_events (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references public.profiles(id) on delete cascade,
+  dish_event_id uuid not null references public.dish_events(id) on delete cascade,
+  model_version text not null,
+  prompt_version text not null,
+  previous_trigger_names text[] not null default '{}'::text[],
+  predicted_trigger_names text[] not null default '{}'::text[],
+  created_at timestamptz not null default timezone('utc', now()),
+  constraint prediction_backfill_dish_events_unique unique (dish_event_id, model_version, prompt_version)
+);
+
+create index if not exists idx_prediction_backfill_dish_events_version
+  on public.prediction_backfill_dish_events (prompt_version, model_version);
+
+alter table public.prediction_backfill_dish_events enable row level security;
+
+drop policy if exists prediction_backfill_dish_events_owner_policy on public.prediction_backfill_dish_events;
+create policy prediction_backfill_dish_events_owner_policy on public.prediction_backfill_dish_events
+  for all using (user_id = auth.uid()) with check (user_id = auth.uid());
+
+create or replace function public.save_backfilled_prediction(
+  p_dish_event_id uuid,
+  p_model_version text,
+  p_prompt_version text,
+  p_previous_trigger_names text[],
+  p_trigger_names text[]
+)
+returns void
+language plpgsql
+security invoker
+set search_path = public
+as $$
+declare
+  v_dish_event public.dish_events%rowtype;
+  v_trigger_names text[];
+begin
+  select * into v_dish_event
+  from public.dish_events
+  where id = p_dish_event_id;
+
+  if not found then
+    raise exception 'Dish event not found: %', p_dish_event_id;
+  end if;
+
+  insert into public.predicted_dish_triggers (
+    dish_id, dish_event_id, trigger_id, model_version, prompt_version
+  )
+  select v_dish_event.dish_id, v_dish_event.id, t.id, p_model_version, p_prompt_version
+  from public.triggers t
+  where t.trigger_name = any(coalesce(p_trigger_names, '{}'::text[]))
+    and (t.user_id is null or t.user_id = v_dish_event.user_id)
+  on conflict (dish_event_id, trigger_id, model_version, prompt_version) do nothing;
+
+  -- Only names that matched a trigger are recorded
+  select coalesce(array_agg(distinct t.trigger_name order by t.trigger_name), '{}'::text[])
+  into v_trigger_names
+  from public.predicted_dish_triggers pdt
+  join public.triggers t on t.id = pdt.trigger_id
+  where pdt.dish_event_id = v_dish_event.id
+    and pdt.model_version = p_model_version
+    and pdt.prompt_version = p_prompt_version;
+
+  insert into public.prediction_backfill_dish_events (
+    user_id, dish_event_id, model_version, prompt_version,
+    previous_trigger_names, predicted_trigger_names
+  )
+  values (
+    v_dish_event.user_id,
+    v_dish_event.id,
+    p_model_version,
+    p_prompt_version,
+    coalesce(p_previous_trigger_names, '{}'::text[]),
+    v_trigger_names
+  )
+  on conflict (dish_event_id, model_version, prompt_version) do nothing;
+end;
+$$;
+
+grant execute on function public.save_backfilled_prediction(uuid, text, text, text[], text[]) to authenticated;
+
+create or replace view public.current_dish_event_predictions
+with (security_invoker = true) as
+select
+  de.id as dish_event_id,
+  de.user_id,
+  de.dish_id,
+  d.dish_name,
+  pd.dish_fragment_text,
+  de.confirmed_by_user,
+  de.created_at,
+  not exists (
+    select 1 from public.dish_events earlier
+    where earlier.dish_id = de.dish_id
+    and (earlier.created_at, earlier.id) < (de.created_at, de.id)
+  ) as is_new_dish,
+  coalesce(p.ai_predictions_enabled, true) as ai_predictions_enabled,
+  b.dish_event_id is not null as backfilled,
+  coalesce(b.model_version, pd.model_version) as model_version,
+  coalesce(b.prompt_version, pd.prompt_version) as prompt_version,
+  case
+    when b.dish_event_id is not null then b.predicted_trigger_names
+    else coalesce((
+      select array_agg(distinct t.trigger_name order by t.trigger_name)
+      from public.predicted_dish_triggers pdt
+      join public.triggers t on t.id = pdt.trigger_id
+      where pdt.dish_event_id = de.id
+    ), '{}'::text[])
+  end as predicted_trigger_names
+from public.dish_events de
+join public.predicted_dish pd on pd.id = de.predicted_dish_id
+join public.dish d on d.id = de.dish_id
+left join public.profiles p on p.id = de.user_id
+left join lateral (
+  select latest.dish_event_id, latest.model_version, latest.prompt_version, latest.predicted_trigger_names
+  from public.prediction_backfill_dish_events latest
+  where latest.dish_event_id = de.id
+  order by latest.created_at desc, latest.id desc
+  limit 1
+) b on true
+where de.deleted_at is null;
+
+-- Same as 0026, except re-predicted (backfilled) triggers are left out
+create or replace view public.prediction_eval_dish_events
+with (security_invoker = true) as
+select
+  de.id as dish_event_id,
+  de.user_id,
+  de.dish_id,
+  de.occurred_at,
+  pd.model_version,
+  pd.prompt_version,
+  pd.dish_name_suggestion,
+  d.dish_name,
+  d.normalized_dish_name,
+  not exists (
+    select 1 from public.dish_events earlier
+    where earlier.dish_id = de.dish_id
+    and (earlier.created_at, earlier.id) < (de.created_at, de.id)
+  ) as is_new_dish,
+  coalesce((
+    select array_agg(distinct t.trigger_name order by t.trigger_name)
+    from public.predicted_dish_triggers pdt
+    join public.triggers t on t.id = pdt.trigger_id
+    where pdt.dish_event_id = de.id
+    and not exists (
+      select 1 from public.prediction_backfill_dish_events b
+      where b.dish_event_id = pdt.dish_event_id
+      and b.model_version = pdt.model_version
+      and b.prompt_version = pdt.prompt_version
+    )
+  ), '{}'::text[]) as predicted_trigger_names,
+  coalesce((
+    select array_agg(distinct t.trigger_name order by t.trigger_name)
+    from public.dish_triggers dt
+    join public.triggers t on t.id = dt.trigger_id
+    where dt.dish_event_id = de.id
+  ), '{}'::text[]) as confirmed_trigger_names,
+  pd.prompt_variant
+from public.dish_events de
+join public.predicted_dish pd on pd.id = de.predicted_dish_id
+join public.dish d on d.id = de.dish_id
+where de.confirmed_by_user = true
+and de.deleted_at is null;
@@ -0,0 +1,242 @@
+-- Migration for a dedicated error code for dish rename conflicts
+-- confirm_food_entry is replaced to raise the rename conflict with SQLSTATE DN001 and, as the
+-- error detail, a JSON object with the renamed dish event (dish_event_id) and the user's dish that
+-- already has the name (dish_id), so the client can offer merging without parsing the message.
+
+create or replace function public.confirm_food_entry(
+  p_raw_entry_id uuid,
+  p_occurred_at timestamptz,
+  p_confirmed_dishes jsonb,
+  p_meal_type text default null,
+  p_deleted_dish_event_ids uuid[] default null
+)
+returns jsonb
+language plpgsql
+security invoker
+set search_path = public
+as $$
+declare
+  v_user_id uuid := auth.uid();
+  v_confirmed jsonb;
+  v_dish_event public.dish_events%rowtype;
+  v_dish public.dish%rowtype;
+  v_dish_id uuid;
+  v_conflicting_dish_id uuid;
+  v_is_added_dish boolean;
+  v_final_name text;
+  v_normalized_name text;
+  v_result_dishes jsonb;
+  v_meal_type text;
+begin
+  if v_user_id is null then
+    raise exception 'User must be authenticated';
+  end if;
+
+  if not exists (
+    select 1 from public.raw_entry where id = p_raw_entry_id and user_id = v_user_id
+  ) then
+    raise exception 'Food entry not found: %', p_raw_entry_id;
+  end if;
+
+  -- Dishes the user removed on the confirmation screen; only deleted now, so backing out of an
+  -- edit leaves the entry as it was
+  update public.dish_events
+  set deleted_at = timezone('utc', now())
+  where raw_entry_id = p_raw_entry_id
+    and deleted_at is null
+    and id = any(coalesce(p_deleted_dish_event_ids, '{}'));
+
+  for v_confirmed in
+    select d.value
+    from jsonb_array_elements(coalesce(p_confirmed_dishes, '[]'::jsonb)) with ordinality as d(value, idx)
+    order by d.idx
+  loop
+    v_final_name := v_confirmed->>'final_dish_name';
+    v_normalized_name := v_confirmed->>'normalized_dish_name';
+    v_is_added_dish := v_confirmed->>'dish_event_id' is null;
+
+    if v_is_added_dish then
+      -- A dish the user added on the confirmation screen: logged as the user's dish with that
+      -- name (resolving aliases of merged dishes first), created if there is none
+      v_dish_id := null;
+      select dish_id into v_dish_id
+      from public.dish_alias
+      where user_id = v_user_id
+        and normalized_alias_name = v_normalized_name;
+
+      if v_dish_id is null then
+        insert into public.dish (user_id, dish_name, normalized_dish_name)
+        values (v_user_id, v_final_name, v_normalized_name)
+        on conflict (user_id, normalized_dish_name) do nothing;
+
+        select id into v_dish_id
+        from public.dish
+        where user_id = v_user_id
+          and normalized_dish_name = v_normalized_name;
+      end if;
+
+      select * into v_dish from public.dish where id = v_dish_id;
+
+      -- clock_timestamp() keeps dish events of one entry ordered by creation
+      insert into public.dish_events (
+        user_id, dish_id, predicted_dish_id, raw_entry_id, confirmed_by_user, occurred_at, created_at
+      )
+      values (v_user_id, v_dish_id, null, p_raw_entry_id, false, p_occurred_at, clock_timestamp())
+      returning * into v_dish_event;
+    else
+      -- Compare as text so malformed IDs surface as "not found" rather than a cast error
+      select * into v_dish_event
+      from public.dish_events
+      where id::text = v_confirmed->>'dish_event_id'
+        and raw_entry_id = p_raw_entry_id
+        and deleted_at is null;
+
+      if not found then
+        raise exception 'Dish event not found: %', v_confirmed->>'dish_event_id';
+      end if;
+
+      select * into v_dish
+      from public.dish
+      where id::text = v_confirmed->>'dish_id';
+
+      if not found then
+        raise exception 'Dish not found: %', v_confirmed->>'dish_id';
+      end if;
+
+      if v_dish.user_id <> v_dish_event.user_id then
+        raise exception 'Dish does not belong to the user';
+      end if;
+    end if;
+
+    -- Update dish name if it changed, refusing to collide with another of the user's dishes
+    -- (by name or by alias). The client offers merging as the resolution. An added dish was
+    -- looked up by this name, so it keeps the name it has.
+    if not v_is_added_dish and (
+      v_dish.dish_name is distinct from v_final_name
+      or v_dish.normalized_dish_name is distinct from v_normalized_name
+    ) then
+      select id into v_conflicting_dish_id
+      from public.dish
+      where user_id = v_dish_event.user_id
+        and normalized_dish_name = v_normalized_name
+        and id <> v_dish.id;
+
+      if v_conflicting_dish_id is null then
+        select dish_id into v_conflicting_dish_id
+        from public.dish_alias
+        where user_id = v_dish_event.user_id
+          and normalized_alias_name = v_normalized_name
+          and dish_id <> v_dish.id;
+      end if;
+
+      if v_conflicting_dish_id is not null then
+        raise exception using
+          errcode = 'DN001',
+          message = format(
+            'Cannot update dish name: a dish with normalized name "%s" already exists',
+            v_normalized_name
+          ),
+          detail = jsonb_build_object(
+            'dish_event_id', v_dish_event.id,
+            'dish_id', v_conflicting_dish_id
+          )::text;
+      end if;
+
+      update public.dish
+      set dish_name = v_final_name,
+          normalized_dish_name = v_normalized_name
+      where id = v_dish.id;
+
+      -- Renaming back to one of the dish's own aliases makes that alias redundant
+      delete from public.dish_alias
+      where dish_id = v_dish.id
+        and normalized_alias_name = v_normalized_name;
+    end if;
+
+    update public.dish_events
+    set quantity = (v_confirmed->>'quantity')::numeric,
+        unit = v_confirmed->>'unit',
+        portion_size = v_confirmed->>'portion_size'
+    where id = v_dish_event.id;
+
+    -- Ingredients left out of ingredient_ids were removed by the user ("no croutons").
+    -- Without ingredient_ids the dish event keeps its ingredients.
+    if jsonb_typeof(v_confirmed->'ingredient_ids') = 'array' then
+      delete from public.dish_ingredients
+      where dish_event_id = v_dish_event.id
+        and ingredient_id::text not in (
+          select jsonb_array_elements_text(v_confirmed->'ingredient_ids')
+        );
+    end if;
+
+    -- Replace confirmed triggers for this dish event
+    delete from public.dish_triggers where dish_event_id = v_dish_event.id;
+
+    insert into public.dish_triggers (dish_id, dish_event_id, trigger_id)
+    select v_dish_event.dish_id, v_dish_event.id, t.value::uuid
+    from jsonb_array_elements_text(coalesce(v_confirmed->'trigger_ids', '[]'::jsonb)) as t(value)
+    on conflict (dish_event_id, trigger_id) do nothing;
+  end loop;
+
+  -- All dish events of one raw entry share the time the meal was eaten
+  update public.dish_events
+  set occurred_at = p_occurred_at
+  where raw_entry_id = p_raw_entry_id
+    and deleted_at is null
+    and occurred_at is distinct from p_occurred_at;
+
+  -- A null meal type keeps the entry's current one
+  update public.raw_entry
+  set meal_type = p_meal_type
+  where id = p_raw_entry_id
+    and p_meal_type is not null
+    and meal_type is distinct from p_meal_type;
+
+  select meal_type into v_meal_type
+  from public.raw_entry
+  where id = p_raw_entry_id;
+
+  update public.dish_events
+  set confirmed_by_user = true
+  where raw_entry_id = p_raw_entry_id
+    and deleted_at is null;
+
+  select coalesce(
+    jsonb_agg(
+      jsonb_build_object(
+        'dish_event_id', de.id,
+        'dish_id', de.dish_id,
+        'dish_name', d.dish_name,
+        'quantity', de.quantity,
+        'unit', de.unit,
+        'portion_size', de.portion_size,
+        'ingredients', public.get_dish_event_ingredients(de.id),
+        'triggers', coalesce((
+          select jsonb_agg(
+            jsonb_build_object('trigger_id', t.id, 'trigger_name', t.trigger_name)
+            order by t.trigger_name
+          )
+          from public.dish_triggers dt
+          join public.triggers t on t.id = dt.trigger_id
+          where dt.dish_event_id = de.id
+        ), '[]'::jsonb)
+      )
+      order by de.created_at
+    ),
+    '[]'::jsonb
+  )
+  into v_result_dishes
+  from public.dish_events de
+  join public.dish d on d.id = de.dish_id
+  where de.raw_entry_id = p_raw_entry_id
+    and de.deleted_at is null;
+
+  return jsonb_build_object(
+    'entry_id', p_raw_entry_id,
+    'meal_type', v_meal_type,
+    'dishes', v_result_dishes
+  );
+end;
+$$;
+
+grant execute on function public.confirm_food_entry(uuid, timestamptz, jsonb, text, uuid[]) to authenticated;
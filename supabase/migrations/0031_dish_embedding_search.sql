@@ -0,0 +1,123 @@
+-- Migration for searching dish embeddings in the database (pgvector)
+-- Similar dishes used to be found by loading every dish of the user with its embedding and
+-- comparing them in the app, which grows with the user's history. Now the database does it:
+-- dish_embedding.embedding becomes a pgvector vector (any dimension, since it depends on the
+--   embedding model). The user's dishes are scanned per query; there are too few for an index.
+-- save_dish_embeddings is replaced to store vectors.
+-- get_dishes_missing_embedding: the user's dishes without an embedding for a model (older and
+--   renamed dishes), for the app to embed a batch at a time.
+-- match_dishes: the user's dishes nearest to each of several query embeddings (by cosine
+--   similarity), the top p_match_count per query at or above p_threshold.
+
+create extension if not exists vector with schema extensions;
+
+alter table public.dish_embedding
+  alter column embedding type extensions.vector using embedding::extensions.vector;
+
+-- p_embeddings: [{ dish_id, embedding: [] }]
+create or replace function public.save_dish_embeddings(
+  p_model text,
+  p_embeddings jsonb
+)
+returns void
+language plpgsql
+security invoker
+set search_path = public, extensions
+as $$
+declare
+  v_user_id uuid := auth.uid();
+  v_item jsonb;
+  v_embedding_id uuid;
+begin
+  if v_user_id is null then
+    raise exception 'User must be authenticated';
+  end if;
+
+  for v_item in select value from jsonb_array_elements(coalesce(p_embeddings, '[]'::jsonb))
+  loop
+    insert into public.dish_embedding (user_id, dish_id, model, embedding)
+    select v_user_id, d.id, p_model, (v_item->>'embedding')::vector
+    from public.dish d
+    where d.id = (v_item->>'dish_id')::uuid
+      and d.user_id = v_user_id
+    on conflict (dish_id, model) do update set embedding = excluded.embedding
+    returning id into v_embedding_id;
+
+    if v_embedding_id is not null then
+      update public.dish set dish_embedding_id = v_embedding_id where id = (v_item->>'dish_id')::uuid;
+    end if;
+  end loop;
+end;
+$$;
+
+create or replace function public.get_dishes_missing_embedding(
+  p_model text,
+  p_limit integer
+)
+returns setof public.dish
+language sql
+stable
+security invoker
+set search_path = public
+as $$
+  select d.*
+  from public.dish d
+  where d.user_id = auth.uid()
+    and not exists (
+      select 1 from public.dish_embedding e
+      where e.dish_id = d.id
+        and e.model = p_model
+    )
+  order by d.created_at
+  limit p_limit;
+$$;
+
+-- p_embeddings: [[...], [...]], one query embedding per dish name; query_index is its position
+create or replace function public.match_dishes(
+  p_model text,
+  p_embeddings jsonb,
+  p_threshold double precision,
+  p_match_count integer default 1
+)
+returns table (
+  query_index integer,
+  similarity double precision,
+  id uuid,
+  user_id uuid,
+  dish_name text,
+  normalized_dish_name text,
+  dish_embedding_id uuid,
+  favorited_at timestamptz,
+  created_at timestamptz
+)
+language sql
+stable
+security invoker
+set search_path = public, extensions
+as $$
+  select
+    (q.idx - 1)::integer,
+    m.similarity,
+    m.id,
+    m.user_id,
+    m.dish_name,
+    m.normalized_dish_name,
+    m.dish_embedding_id,
+    m.favorited_at,
+    m.created_at
+  from jsonb_array_elements(coalesce(p_embeddings, '[]'::jsonb)) with ordinality as q(value, idx)
+  cross join lateral (
+    select d.*, 1 - (e.embedding <=> q.value::text::vector) as similarity
+    from public.dish_embedding e
+    join public.dish d on d.id = e.dish_id
+    where e.user_id = auth.uid()
+      and e.model = p_model
+    order by e.embedding <=> q.value::text::vector
+    limit p_match_count
+  ) m
+  where m.similarity >= p_threshold
+  order by q.idx, m.similarity desc;
+$$;
+
+grant execute on function public.get_dishes_missing_embedding(text, integer) to authenticated;
+grant execute on function public.match_dishes(text, jsonb, double precision, integer) to authenticated;
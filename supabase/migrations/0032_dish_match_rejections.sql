@@ -0,0 +1,95 @@
+-- Migration for rejecting a dish matched by name similarity
+-- When the user says a similarity match is wrong ("No, it's a new dish"), the dish event used to
+-- be deleted and logged again under a new dish, which dropped its predicted dish and predicted
+-- triggers and so left the wrong match out of prediction accuracy. Now:
+-- dish_match_rejection: one row per rejected match, with the dish the event was matched to and
+--   the name the LLM suggested.
+-- reject_dish_match: records the rejection and moves the dish event to the user's dish with the
+--   suggested name (created if there is none), in a single transaction. The event keeps its
+--   predicted dish and predicted triggers; the ingredients copied from the matched dish are
+--   removed, since they were the wrong dish's.
+
+create table if not exists public.dish_match_rejection (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null,
+  dish_event_id uuid not null references public.dish_events(id) on delete cascade,
+  -- Null once the matched dish is gone
+  matched_dish_id uuid references public.dish(id) on delete set null,
+  dish_name_suggestion text not null,
+  created_at timestamptz not null default timezone('utc', now())
+);
+
+create index if not exists idx_dish_match_rejection_user_id on public.dish_match_rejection (user_id);
+create index if not exists idx_dish_match_rejection_dish_event_id on public.dish_match_rejection (dish_event_id);
+
+alter table public.dish_match_rejection enable row level security;
+
+drop policy if exists dish_match_rejection_owner_policy on public.dish_match_rejection;
+create policy dish_match_rejection_owner_policy on public.dish_match_rejection
+  for all using (user_id = auth.uid()) with check (user_id = auth.uid());
+
+create or replace function public.reject_dish_match(
+  p_dish_event_id uuid,
+  p_dish_name text,
+  p_normalized_dish_name text
+)
+returns jsonb
+language plpgsql
+security invoker
+set search_path = public
+as $$
+declare
+  v_user_id uuid := auth.uid();
+  v_dish_event public.dish_events%rowtype;
+  v_dish public.dish%rowtype;
+  v_dish_id uuid;
+begin
+  if v_user_id is null then
+    raise exception 'User must be authenticated';
+  end if;
+
+  select * into v_dish_event
+  from public.dish_events
+  where id = p_dish_event_id
+    and user_id = v_user_id
+    and deleted_at is null
+  for update;
+
+  if not found then
+    raise exception 'Dish event not found: %', p_dish_event_id;
+  end if;
+
+  -- The user's dish with the suggested name (resolving aliases of merged dishes first), created
+  -- if there is none
+  select dish_id into v_dish_id
+  from public.dish_alias
+  where user_id = v_user_id
+    and normalized_alias_name = p_normalized_dish_name;
+
+  if v_dish_id is null then
+    insert into public.dish (user_id, dish_name, normalized_dish_name)
+    values (v_user_id, p_dish_name, p_normalized_dish_name)
+    on conflict (user_id, normalized_dish_name) do nothing;
+
+    select id into v_dish_id
+    from public.dish
+    where user_id = v_user_id
+      and normalized_dish_name = p_normalized_dish_name;
+  end if;
+
+  if v_dish_id = v_dish_event.dish_id then
+    raise exception 'Dish event is already logged as %', p_dish_name;
+  end if;
+
+  insert into public.dish_match_rejection (user_id, dish_event_id, matched_dish_id, dish_name_suggestion)
+  values (v_user_id, v_dish_event.id, v_dish_event.dish_id, p_dish_name);
+
+  update public.dish_events set dish_id = v_dish_id where id = v_dish_event.id;
+  delete from public.dish_ingredients where dish_event_id = v_dish_event.id;
+
+  select * into v_dish from public.dish where id = v_dish_id;
+  return to_jsonb(v_dish);
+end;
+$$;
+
+grant execute on function public.reject_dish_match(uuid, text, text) to authenticated;
@@ -0,0 +1,72 @@
+-- Migration for comparing prompt experiment variants across users
+-- Variants used to be compared by reading prediction_eval_dish_events, which RLS limits to the
+-- caller's own dish events, so a comparison in the app only ever saw one user. Now:
+-- normalize_dish_name: the same normalization as normalizeDishName in src/data/dishHelpers.ts
+--   (lowercase, collapsed spaces, no "and"/"with"/"or"), so renames are counted like the app does.
+-- get_prompt_variant_edit_counts: per variant, how many first events of a dish were confirmed and
+--   how many had their suggested name or predicted triggers edited, with trigger
+--   true/false positive and false negative counts. Runs as the owner (security definer) to count
+--   every user's dish events, but returns only these totals, never a dish event or user.
+
+create or replace function public.normalize_dish_name(p_name text)
+returns text
+language sql
+immutable
+set search_path = public
+as $$
+  select trim(regexp_replace(
+    regexp_replace(lower(p_name), '\m(and|with|or)\M', ' ', 'g'),
+    '\s+', ' ', 'g'
+  ));
+$$;
+
+create or replace function public.get_prompt_variant_edit_counts(p_prompt_variants text[])
+returns table (
+  prompt_variant text,
+  dish_event_count integer,
+  dish_name_edit_count integer,
+  trigger_edit_count integer,
+  edit_count integer,
+  true_positive_count integer,
+  false_positive_count integer,
+  false_negative_count integer
+)
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  with scored as (
+    select
+      e.prompt_variant,
+      public.normalize_dish_name(e.dish_name_suggestion) <> public.normalize_dish_name(e.dish_name)
+        as dish_name_edited,
+      not (e.predicted_trigger_names @> e.confirmed_trigger_names
+        and e.confirmed_trigger_names @> e.predicted_trigger_names) as trigger_edited,
+      cardinality(e.predicted_trigger_names) as predicted_count,
+      cardinality(e.confirmed_trigger_names) as confirmed_count,
+      (
+        select count(*)
+        from unnest(e.predicted_trigger_names) as p(trigger_name)
+        where p.trigger_name = any(e.confirmed_trigger_names)
+      )::integer as true_positive_count
+    from public.prediction_eval_dish_events e
+    -- Later events of a dish reuse its confirmed name and triggers instead of predicting
+    where e.is_new_dish
+      and e.prompt_variant = any(p_prompt_variants)
+  )
+  select
+    s.prompt_variant,
+    count(*)::integer,
+    (count(*) filter (where s.dish_name_edited))::integer,
+    (count(*) filter (where s.trigger_edited))::integer,
+    (count(*) filter (where s.dish_name_edited or s.trigger_edited))::integer,
+    coalesce(sum(s.true_positive_count), 0)::integer,
+    coalesce(sum(s.predicted_count - s.true_positive_count), 0)::integer,
+    coalesce(sum(s.confirmed_count - s.true_positive_count), 0)::integer
+  from scored s
+  group by s.prompt_variant
+  order by s.prompt_variant;
+$$;
+
+grant execute on function public.get_prompt_variant_edit_counts(text[]) to authenticated;
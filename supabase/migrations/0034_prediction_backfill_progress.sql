@@ -0,0 +1,27 @@
+-- Migration for resuming a prediction backfill where it stopped
+-- A backfill used to page through its candidates by offset, skipping as many rows as it had
+-- failed on, which skipped the wrong rows once other dish events were logged or backfilled during
+-- the run. It now pages by (created_at, dish_event_id) after the last dish event it tried.
+-- prediction_backfill_progress: per backfill version and selection (users, dishes, unconfirmed
+--   only), the last dish event a run got past, so the next run continues after it instead of
+--   starting over. Deleted once a run reaches the end, so the next run retries the failed ones.
+--   run_by is the user who ran it (rows are theirs only), null for the service role.
+
+create table if not exists public.prediction_backfill_progress (
+  id uuid primary key default gen_random_uuid(),
+  run_by uuid references public.profiles(id) on delete cascade default auth.uid(),
+  model_version text not null,
+  prompt_version text not null,
+  selection_key text not null,
+  last_created_at timestamptz not null,
+  last_dish_event_id uuid not null,
+  updated_at timestamptz not null default timezone('utc', now()),
+  constraint prediction_backfill_progress_unique
+    unique nulls not distinct (run_by, model_version, prompt_version, selection_key)
+);
+
+alter table public.prediction_backfill_progress enable row level security;
+
+drop policy if exists prediction_backfill_progress_owner_policy on public.prediction_backfill_progress;
+create policy prediction_backfill_progress_owner_policy on public.prediction_backfill_progress
+  for all using (run_by = auth.uid()) with check (run_by = auth.uid());
@@ -0,0 +1,10 @@
+-- Migration for comparing prompt experiment variants outside the app
+-- get_prompt_variant_edit_counts (0033) ran as the owner and was granted to every signed-in
+-- user, so any client could read trigger accuracy totals over all users' dish events. It also
+-- normalized dish names in SQL, a second copy of normalizeDishName in src/data/dishHelpers.ts.
+-- Both functions are dropped: scripts/comparePromptVariants.ts reads prediction_eval_dish_events
+-- with the service role and counts the edits with the app's own normalization, while app
+-- clients only ever see their own dish events through RLS.
+
+drop function if exists public.get_prompt_variant_edit_counts(text[]);
+drop function if exists public.normalize_dish_name(text);
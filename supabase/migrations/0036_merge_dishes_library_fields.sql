@@ -0,0 +1,96 @@
+-- Migration for keeping a merged dish's library settings and match rejections
+-- merge_dishes (last replaced in 0017) deleted the source dish with its default triggers (0015)
+-- and favorite (0016), and its match rejections (0032) lost their matched dish. It is replaced
+-- so that:
+-- - the target's default triggers become the union of both dishes' default triggers;
+-- - the target stays a favorite if either dish was one, favorited at the earlier time;
+-- - rejections of matches to the source point at the target instead, keeping one per dish event.
+--   A rejection of a match to the dish its event ends up on is deleted, since merging says the
+--   two dishes are the same after all.
+
+-- Same as 0017, plus the default triggers, favorite and match rejections above
+create or replace function public.merge_dishes(
+  p_source_dish_id uuid,
+  p_target_dish_id uuid
+)
+returns jsonb
+language plpgsql
+security invoker
+set search_path = public
+as $$
+declare
+  v_user_id uuid := auth.uid();
+  v_source public.dish%rowtype;
+  v_target public.dish%rowtype;
+begin
+  if v_user_id is null then
+    raise exception 'User must be authenticated';
+  end if;
+
+  if p_source_dish_id = p_target_dish_id then
+    raise exception 'Cannot merge a dish into itself';
+  end if;
+
+  select * into v_source from public.dish where id = p_source_dish_id for update;
+  if not found then
+    raise exception 'Dish not found: %', p_source_dish_id;
+  end if;
+
+  select * into v_target from public.dish where id = p_target_dish_id for update;
+  if not found then
+    raise exception 'Dish not found: %', p_target_dish_id;
+  end if;
+
+  if v_source.user_id <> v_user_id or v_target.user_id <> v_user_id then
+    raise exception 'Dish does not belong to the user';
+  end if;
+
+  update public.dish_events set dish_id = v_target.id where dish_id = v_source.id;
+  update public.dish_triggers set dish_id = v_target.id where dish_id = v_source.id;
+  update public.predicted_dish_triggers set dish_id = v_target.id where dish_id = v_source.id;
+  update public.meal_template_dish set dish_id = v_target.id where dish_id = v_source.id;
+
+  insert into public.dish_default_triggers (dish_id, trigger_id)
+  select v_target.id, trigger_id
+  from public.dish_default_triggers
+  where dish_id = v_source.id
+  on conflict (dish_id, trigger_id) do nothing;
+
+  -- least() ignores nulls, so either dish being a favorite is enough
+  update public.dish
+  set favorited_at = least(v_target.favorited_at, v_source.favorited_at)
+  where id = v_target.id
+  returning * into v_target;
+
+  update public.dish_match_rejection set matched_dish_id = v_target.id where matched_dish_id = v_source.id;
+
+  delete from public.dish_match_rejection r
+  using public.dish_events de
+  where de.id = r.dish_event_id
+    and r.matched_dish_id = v_target.id
+    and de.dish_id = v_target.id;
+
+  delete from public.dish_match_rejection r
+  using public.dish_match_rejection earlier
+  where r.matched_dish_id = v_target.id
+    and earlier.matched_dish_id = v_target.id
+    and earlier.dish_event_id = r.dish_event_id
+    and (earlier.created_at, earlier.id) < (r.created_at, r.id);
+
+  -- Aliases of the source now point at the target, and the source's own name becomes one
+  update public.dish_alias set dish_id = v_target.id where dish_id = v_source.id;
+
+  insert into public.dish_alias (user_id, dish_id, alias_name, normalized_alias_name)
+  values (v_user_id, v_target.id, v_source.dish_name, v_source.normalized_dish_name)
+  on conflict (user_id, normalized_alias_name) do update set dish_id = excluded.dish_id;
+
+  -- A dish never needs an alias for its own current name
+  delete from public.dish_alias
+  where dish_id = v_target.id
+    and normalized_alias_name = v_target.normalized_dish_name;
+
+  delete from public.dish where id = v_source.id;
+
+  return to_jsonb(v_target);
+end;
+$$;